@@ -4,43 +4,8 @@
 // =============================================================================
 
 import { describe, it, expect } from 'vitest';
-import type { WaterType, PaymentMethod, OrderPrice } from '../types';
-
-// Replicate the pricing function from the orders route for isolated testing
-const DEFAULT_BASE_PRICES: Record<WaterType, number> = {
-  ro: 150,
-  mineral: 200,
-  tanker: 500,
-};
-const DEFAULT_PER_KM_RATE = 15;
-const DEFAULT_SURGE_MULTIPLIER = 1.0;
-const DEFAULT_COMMISSION_PERCENT = 15;
-
-function calculateOrderPrice(
-  waterType: WaterType,
-  quantityLitres: number,
-  distanceKm: number,
-  surgeMultiplier: number = DEFAULT_SURGE_MULTIPLIER,
-  basePrices: Record<WaterType, number> = DEFAULT_BASE_PRICES,
-  perKmRate: number = DEFAULT_PER_KM_RATE,
-  commissionPercent: number = DEFAULT_COMMISSION_PERCENT
-): OrderPrice {
-  const base = basePrices[waterType];
-  const distanceCharge = distanceKm * perKmRate * (quantityLitres / 20);
-  const subtotal = (base + distanceCharge) * surgeMultiplier;
-  const total = Math.round(subtotal);
-  const commission = Math.round(total * (commissionPercent / 100));
-  const supplierEarning = total - commission;
-
-  return {
-    base,
-    distance: Math.round(distanceCharge),
-    surge: Math.round(subtotal - base - distanceCharge),
-    total,
-    commission,
-    supplierEarning,
-  };
-}
+import { calculateOrderPrice } from '../lib/pricing';
+import type { WaterType, PaymentMethod } from '../types';
 
 describe('Orders API: Validation rules', () => {
   const validWaterTypes: WaterType[] = ['ro', 'mineral', 'tanker'];
@@ -85,14 +50,14 @@ describe('Orders API: Validation rules', () => {
 
 describe('Orders API: Pricing calculation', () => {
   it('calculates RO water price correctly', () => {
-    const price = calculateOrderPrice('ro', 20, 5);
+    const price = calculateOrderPrice({ waterType: 'ro', quantityLitres: 20, distanceKm: 5 });
     expect(price.base).toBe(150);
     expect(price.distance).toBe(75); // 5km * 15 * (20/20)
     expect(price.total).toBe(225);
   });
 
   it('calculates mineral water with distance', () => {
-    const price = calculateOrderPrice('mineral', 40, 10);
+    const price = calculateOrderPrice({ waterType: 'mineral', quantityLitres: 40, distanceKm: 10 });
     // base=200, distanceCharge = 10*15*(40/20) = 300
     expect(price.base).toBe(200);
     expect(price.distance).toBe(300);
@@ -100,7 +65,13 @@ describe('Orders API: Pricing calculation', () => {
   });
 
   it('calculates tanker (bulk) with surge', () => {
-    const price = calculateOrderPrice('tanker', 1000, 5, 1.5);
+    const price = calculateOrderPrice({
+      waterType: 'tanker',
+      quantityLitres: 1000,
+      distanceKm: 5,
+      zone: { surgeMultiplier: 1.5 },
+      demandLevel: 'surge',
+    });
     // base=500, distanceCharge = 5*15*(1000/20)=3750
     // subtotal = (500+3750)*1.5 = 6375
     expect(price.base).toBe(500);
@@ -112,7 +83,7 @@ describe('Orders API: Pricing calculation', () => {
     for (const wt of ['ro', 'mineral', 'tanker'] as WaterType[]) {
       for (const dist of [1, 5, 10, 25]) {
         for (const qty of [20, 100, 500, 5000]) {
-          const price = calculateOrderPrice(wt, qty, dist);
+          const price = calculateOrderPrice({ waterType: wt, quantityLitres: qty, distanceKm: dist });
           expect(price.commission + price.supplierEarning).toBe(price.total);
         }
       }
@@ -121,7 +92,13 @@ describe('Orders API: Pricing calculation', () => {
 
   it('uses custom zone pricing when available', () => {
     const customPrices: Record<WaterType, number> = { ro: 300, mineral: 400, tanker: 1000 };
-    const price = calculateOrderPrice('ro', 20, 5, 1.0, customPrices, 20, 10);
+    const price = calculateOrderPrice({
+      waterType: 'ro',
+      quantityLitres: 20,
+      distanceKm: 5,
+      zone: { basePrice: customPrices, perKmRate: 20 },
+      settings: { commissionPercent: 10 },
+    });
     expect(price.base).toBe(300);
     // distanceCharge = 5 * 20 * (20/20) = 100
     expect(price.distance).toBe(100);
@@ -135,7 +112,7 @@ describe('Orders API: Demo mode', () => {
   });
 
   it('demo order has correct structure', () => {
-    const price = calculateOrderPrice('ro', 20, 5);
+    const price = calculateOrderPrice({ waterType: 'ro', quantityLitres: 20, distanceKm: 5 });
     const order = {
       id: 'demo_123_abc',
       customerId: 'cust1',
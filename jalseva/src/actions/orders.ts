@@ -1,38 +1,67 @@
 'use server';
 
-import { calculatePrice, generateOrderId } from '@/lib/utils';
-import { getDemandLevel } from '@/lib/redis';
+import { generateOrderId } from '@/lib/utils';
+import { quoteOrder } from '@/lib/pricing/server';
+import { isAdmin } from '@/lib/auth/server';
 import { batchWriter } from '@/lib/batch-writer';
-import { hotCache } from '@/lib/cache';
-import type { CreateOrderRequest, Order, OrderStatus } from '@/types';
+import * as store from '@/lib/demo-store';
+import { dispatcher } from '@/lib/dispatch';
+import { loadOrder, transitionOrder } from '@/lib/order-lifecycle';
+import { processCancellation, quoteOrderCancellation } from '@/lib/cancellation/server';
+import { hasLegs, isLegStatus } from '@/lib/delivery-legs';
+import { advanceDeliveryLeg } from '@/lib/delivery-legs/server';
+import type {
+  CreateOrderRequest,
+  GeoLocation,
+  Order,
+  OrderActor,
+  OrderStatus,
+  WaterType,
+} from '@/types';
 
-// Demand multipliers - O(1) Map lookup
-const DEMAND_MULTIPLIERS = new Map<string, number>([
-  ['low', 0.9],
-  ['normal', 1.0],
-  ['high', 1.3],
-  ['surge', 1.6],
-]);
+function hasAdminCredentials(): boolean {
+  return !!(
+    process.env.FIREBASE_ADMIN_CLIENT_EMAIL &&
+    process.env.FIREBASE_ADMIN_PRIVATE_KEY
+  );
+}
+
+/**
+ * The price createOrder would charge for this booking now: the delivery
+ * location's zone, commission and live demand. Without a location the
+ * default zone is used.
+ */
+export async function getOrderQuote(
+  waterType: WaterType,
+  quantityLitres: number,
+  deliveryLocation?: GeoLocation | null
+) {
+  try {
+    const { price } = await quoteOrder(
+      { waterType, quantityLitres },
+      deliveryLocation ?? undefined
+    );
+    return { success: true as const, price };
+  } catch (error) {
+    return {
+      success: false as const,
+      error: error instanceof Error ? error.message : 'Failed to quote order',
+    };
+  }
+}
 
 export async function createOrder(request: CreateOrderRequest) {
   try {
     const orderId = generateOrderId();
 
-    // Cache-aside for demand level — avoids Redis roundtrip on hot path
-    const cacheKey = 'demand:default';
-    let demandLevel = hotCache.get(cacheKey) as string | undefined;
-    if (!demandLevel) {
-      demandLevel = (await getDemandLevel('default')) ?? 'normal';
-      hotCache.set(cacheKey, demandLevel, 30);
-    }
-
-    const surgeMultiplier = DEMAND_MULTIPLIERS.get(demandLevel) ?? 1.0;
-
-    const price = calculatePrice(
-      request.waterType,
-      request.quantityLitres,
-      3000,
-      surgeMultiplier
+    // Same engine as the booking screen estimate and /api/orders.
+    // Demand level is cache-aside inside the loader (L1 before Redis).
+    const { price } = await quoteOrder(
+      {
+        waterType: request.waterType,
+        quantityLitres: request.quantityLitres,
+      },
+      request.deliveryLocation
     );
 
     const order = {
@@ -52,14 +81,22 @@ export async function createOrder(request: CreateOrderRequest) {
       updatedAt: new Date(),
     };
 
-    // Non-blocking batch write — returns immediately, flushed every 100ms
-    try {
+    // Non-blocking batch write — returns immediately, flushed every 100ms.
+    // Without Firebase Admin credentials the order lives in the demo store.
+    if (hasAdminCredentials()) {
       batchWriter.set('orders', orderId, order as unknown as Record<string, unknown>);
-    } catch {
-      // Firestore may be unavailable in demo mode
+    } else {
+      store.upsertOrder(order as Order);
     }
 
-    return { success: true as const, order: order as Order };
+    // Start automatic matching, as /api/orders does; the first offer goes
+    // out immediately.
+    const dispatch = await dispatcher.dispatch(order).catch((err) => {
+      console.warn(`[createOrder] Dispatch failed for ${orderId}:`, err);
+      return null;
+    });
+
+    return { success: true as const, order: order as Order, dispatch };
   } catch (error) {
     return {
       success: false as const,
@@ -71,27 +108,45 @@ export async function createOrder(request: CreateOrderRequest) {
 export async function updateOrderStatus(
   orderId: string,
   status: OrderStatus,
-  supplierId?: string
+  supplierId?: string,
+  actor?: OrderActor,
+  reason?: string,
+  cashCollected?: number
 ) {
   try {
-    const updateData: Record<string, unknown> = {
-      status,
-      updatedAt: new Date(),
-    };
-
-    if (supplierId) updateData.supplierId = supplierId;
-    if (status === 'accepted') updateData.acceptedAt = new Date();
-    if (status === 'delivered') updateData.deliveredAt = new Date();
-
-    // Non-blocking batch update
-    try {
-      batchWriter.update('orders', orderId, updateData);
-    } catch {
-      // Firestore may be unavailable
+    // Validated, stamped and audited by the lifecycle (which also
+    // invalidates the cached order). Cancellations settle fees and refunds;
+    // multi-trip orders move their current trip. Callers never act as the
+    // system, and only act as an admin when their user record says so.
+    const by = actor ?? (supplierId ? { id: supplierId, role: 'supplier' as const } : null);
+    if (!by?.id || by.role === 'system') {
+      return { success: false as const, error: 'An actor is required to update the order' };
+    }
+    if (by.role === 'admin' && !(await isAdmin(by.id))) {
+      return { success: false as const, error: 'Unauthorized. Admin access required.' };
+    }
+    const current = isLegStatus(status) ? await loadOrder(orderId) : null;
+    let result: { success: true } | { success: false; error: string };
+    if (status === 'cancelled') {
+      result = await processCancellation(orderId, {
+        by: by.role === 'customer' || by.role === 'supplier' ? by.role : 'system',
+        actorId: by.id,
+        reasonCode: reason,
+      });
+    } else if (current && hasLegs(current) && isLegStatus(status)) {
+      result = await advanceDeliveryLeg(orderId, status, { actor: by, reason, cashCollected });
+    } else {
+      result = await transitionOrder(orderId, status, {
+        actor: by,
+        reason,
+        cashCollected,
+        patch: supplierId ? { supplierId } : undefined,
+      });
     }
 
-    // Invalidate cached order data
-    hotCache.delete(`order:${orderId}`);
+    if (!result.success) {
+      return { success: false as const, error: result.error };
+    }
 
     return { success: true as const };
   } catch (error) {
@@ -102,6 +157,28 @@ export async function updateOrderStatus(
   }
 }
 
-export async function cancelOrder(orderId: string) {
-  return updateOrderStatus(orderId, 'cancelled');
+export async function cancelOrder(orderId: string, customerId: string, reasonCode?: string) {
+  return updateOrderStatus(
+    orderId,
+    'cancelled',
+    undefined,
+    { id: customerId, role: 'customer' },
+    reasonCode
+  );
+}
+
+/** The customer's fee and refund for cancelling the order now. */
+export async function getCancellationQuote(orderId: string) {
+  try {
+    const quote = await quoteOrderCancellation(orderId, 'customer');
+    if (!quote) {
+      return { success: false as const, error: 'Order not found' };
+    }
+    return { success: true as const, quote };
+  } catch (error) {
+    return {
+      success: false as const,
+      error: error instanceof Error ? error.message : 'Failed to quote cancellation',
+    };
+  }
 }
@@ -1,34 +1,28 @@
 'use server';
 
-import { batchWriter } from '@/lib/batch-writer';
+import { submitOrderRating } from '@/lib/ratings/server';
+import type { RatingDimension } from '@/types';
 
 export async function submitRating(data: {
   orderId: string;
+  raterId: string;
   rating: number;
   feedback?: string;
+  dimensions?: Partial<Record<RatingDimension, number>>;
   type: 'customer' | 'supplier';
 }) {
   try {
-    const ratingId = `${data.orderId}_${data.type}_${Date.now()}`;
-    const ratingDoc = {
-      ...data,
-      createdAt: new Date(),
-    };
-
-    try {
-      // Batch write rating document
-      batchWriter.set('ratings', ratingId, ratingDoc as unknown as Record<string, unknown>);
-
-      // Update order with rating field
-      const ratingField =
-        data.type === 'customer' ? 'rating.customer' : 'rating.supplier';
-      batchWriter.update('orders', data.orderId, {
-        [ratingField]: { score: data.rating, feedback: data.feedback || '' },
-      });
-    } catch {
-      // Firestore may be unavailable
+    const result = await submitOrderRating({
+      orderId: data.orderId,
+      ratedBy: data.type,
+      raterId: data.raterId,
+      rating: data.rating,
+      feedback: data.feedback,
+      dimensions: data.dimensions,
+    });
+    if (!result.success) {
+      return { success: false as const, error: result.error };
     }
-
     return { success: true as const };
   } catch (error) {
     return {
@@ -1,12 +1,39 @@
 'use server';
 
 import { batchWriter } from '@/lib/batch-writer';
+import { firestoreBreaker } from '@/lib/circuit-breaker';
+import * as store from '@/lib/demo-store';
+import { dispatcher } from '@/lib/dispatch';
+import { transitionOrder } from '@/lib/order-lifecycle';
+import type { Supplier } from '@/types';
+
+function hasAdminCredentials(): boolean {
+  return !!(
+    process.env.FIREBASE_ADMIN_CLIENT_EMAIL &&
+    process.env.FIREBASE_ADMIN_PRIVATE_KEY
+  );
+}
+
+async function loadSupplier(supplierId: string): Promise<Supplier | null> {
+  if (!hasAdminCredentials()) return store.getSupplier(supplierId);
+  const { adminDb } = await import('@/lib/firebase-admin');
+  const snap = await firestoreBreaker.execute(
+    () => adminDb.collection('suppliers').doc(supplierId).get(),
+    () => null
+  );
+  return snap?.exists ? ({ ...snap.data(), id: snap.id } as Supplier) : null;
+}
 
 export async function toggleSupplierOnline(
   supplierId: string,
   isOnline: boolean
 ) {
   try {
+    // Only verified suppliers can go online, as PUT /api/suppliers/[supplierId]
+    if (isOnline && (await loadSupplier(supplierId))?.verificationStatus !== 'verified') {
+      return { success: false as const, error: 'Supplier must be verified before going online.' };
+    }
+
     try {
       batchWriter.update('suppliers', supplierId, {
         isOnline,
@@ -30,17 +57,21 @@ export async function acceptOrder(
   supplierId: string
 ) {
   try {
-    try {
-      batchWriter.update('orders', orderId, {
-        status: 'accepted',
-        supplierId,
-        acceptedAt: new Date(),
-        updatedAt: new Date(),
-      });
-    } catch {
-      // Firestore may be unavailable
+    if ((await loadSupplier(supplierId))?.verificationStatus !== 'verified') {
+      return { success: false as const, error: 'Supplier is not verified.' };
+    }
+
+    const result = await transitionOrder(orderId, 'accepted', {
+      actor: { id: supplierId, role: 'supplier' },
+      patch: { supplierId },
+    });
+
+    if (!result.success) {
+      return { success: false as const, error: result.error };
     }
 
+    // Withdraw any offer still out to another supplier.
+    dispatcher.stop(orderId);
     return { success: true as const };
   } catch (error) {
     return {
@@ -0,0 +1,343 @@
+'use client';
+export const dynamic = 'force-dynamic';
+
+// =============================================================================
+// JalSeva - Cash Reconciliation Page
+// =============================================================================
+// Commission on cash orders that suppliers still owe the platform. Admins
+// record cash handed over, and block suppliers over the cash limit from
+// taking more cash orders until they remit.
+// =============================================================================
+
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'sonner';
+import {
+  Banknote,
+  Ban,
+  CheckCircle,
+  AlertTriangle,
+  RefreshCw,
+  Truck,
+} from 'lucide-react';
+import { cn, formatCurrency } from '@/lib/utils';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Modal } from '@/components/ui/Modal';
+import { useAuthStore } from '@/store/authStore';
+import type { CashPosition } from '@/lib/cash';
+
+// =============================================================================
+// Cash Reconciliation Component
+// =============================================================================
+
+export default function CashReconciliationPage() {
+  const user = useAuthStore((s) => s.user);
+
+  // --------------------------------------------------------------------------
+  // State
+  // --------------------------------------------------------------------------
+  const [positions, setPositions] = useState<CashPosition[]>([]);
+  const [limit, setLimit] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  // Remittance modal
+  const [remitting, setRemitting] = useState<CashPosition | null>(null);
+  const [remitAmount, setRemitAmount] = useState('');
+  const [remitNote, setRemitNote] = useState('');
+
+  // --------------------------------------------------------------------------
+  // Data
+  // --------------------------------------------------------------------------
+  const loadPositions = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch('/api/admin/cash');
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to load cash balances');
+      setPositions(data.positions);
+      setLimit(data.limit);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to load cash balances');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPositions();
+  }, [loadPositions]);
+
+  const totalDue = positions.reduce((sum, p) => sum + p.cashDue, 0);
+  const overLimitCount = positions.filter((p) => p.overLimit).length;
+  const blockedCount = positions.filter((p) => p.blocked).length;
+
+  // --------------------------------------------------------------------------
+  // Actions
+  // --------------------------------------------------------------------------
+  const postAction = async (body: Record<string, unknown>): Promise<CashPosition | null> => {
+    const res = await fetch('/api/admin/cash', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...body, adminId: user?.id }),
+    });
+    const data = await res.json();
+    if (!res.ok) {
+      toast.error(data.error || 'Action failed');
+      return null;
+    }
+    return data.position as CashPosition;
+  };
+
+  const replacePosition = (next: CashPosition) => {
+    setPositions((prev) => prev.map((p) => (p.supplierId === next.supplierId ? next : p)));
+  };
+
+  const handleToggleBlock = async (position: CashPosition) => {
+    setBusyId(position.supplierId);
+    try {
+      const next = await postAction({
+        supplierId: position.supplierId,
+        action: position.blocked ? 'unblock' : 'block',
+      });
+      if (next) {
+        replacePosition(next);
+        toast.success(
+          next.blocked ? 'Supplier blocked from cash orders' : 'Supplier can take cash orders again'
+        );
+      }
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const openRemit = (position: CashPosition) => {
+    setRemitting(position);
+    setRemitAmount(String(position.cashDue));
+    setRemitNote('');
+  };
+
+  const handleRemit = async () => {
+    if (!remitting) return;
+    const amount = parseFloat(remitAmount);
+    if (!Number.isFinite(amount) || amount <= 0) {
+      toast.error('Enter the amount received');
+      return;
+    }
+    setBusyId(remitting.supplierId);
+    try {
+      const next = await postAction({
+        supplierId: remitting.supplierId,
+        action: 'remit',
+        amount,
+        note: remitNote.trim() || undefined,
+      });
+      if (next) {
+        replacePosition(next);
+        toast.success(`Recorded ${formatCurrency(amount)} from supplier`);
+        setRemitting(null);
+      }
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  // --------------------------------------------------------------------------
+  // Render
+  // --------------------------------------------------------------------------
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Cash Reconciliation</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            Commission on cash orders that suppliers have not yet remitted
+          </p>
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          leftIcon={<RefreshCw className="w-4 h-4" />}
+          onClick={loadPositions}
+          loading={loading}
+        >
+          Refresh
+        </Button>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <Card padding="md">
+          <p className="text-xs text-gray-500">Outstanding cash</p>
+          <p className="text-2xl font-bold text-gray-900 mt-1">{formatCurrency(totalDue)}</p>
+          <p className="text-xs text-gray-400 mt-1">{positions.length} suppliers</p>
+        </Card>
+        <Card padding="md">
+          <p className="text-xs text-gray-500">Over limit</p>
+          <p className="text-2xl font-bold text-amber-600 mt-1">{overLimitCount}</p>
+          <p className="text-xs text-gray-400 mt-1">Limit {formatCurrency(limit)} per supplier</p>
+        </Card>
+        <Card padding="md">
+          <p className="text-xs text-gray-500">Blocked from cash orders</p>
+          <p className="text-2xl font-bold text-red-600 mt-1">{blockedCount}</p>
+        </Card>
+      </div>
+
+      {/* ================================================================== */}
+      {/* Positions Table                                                    */}
+      {/* ================================================================== */}
+      <Card padding="none">
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="bg-gray-50 border-b border-gray-100">
+                <th className="text-left px-4 py-3 font-medium text-gray-500">Supplier</th>
+                <th className="text-right px-4 py-3 font-medium text-gray-500">Cash owed</th>
+                <th className="text-right px-4 py-3 font-medium text-gray-500 hidden md:table-cell">
+                  Wallet balance
+                </th>
+                <th className="text-left px-4 py-3 font-medium text-gray-500">Status</th>
+                <th className="text-right px-4 py-3 font-medium text-gray-500">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-50">
+              {loading && positions.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="px-4 py-12 text-center text-gray-400">
+                    <div className="flex flex-col items-center gap-2">
+                      <div className="w-6 h-6 border-2 border-blue-500 border-t-transparent rounded-full animate-spin" />
+                      <span>Loading cash balances...</span>
+                    </div>
+                  </td>
+                </tr>
+              ) : positions.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="px-4 py-12 text-center text-gray-400">
+                    <Banknote className="w-8 h-8 mx-auto mb-2 text-gray-300" />
+                    No outstanding cash
+                  </td>
+                </tr>
+              ) : (
+                positions.map((position) => (
+                  <tr key={position.supplierId} className="hover:bg-gray-50 transition-colors">
+                    <td className="px-4 py-3">
+                      <div className="flex items-center gap-3">
+                        <div className="w-9 h-9 bg-gray-100 rounded-full flex items-center justify-center shrink-0">
+                          <Truck className="w-4 h-4 text-gray-500" />
+                        </div>
+                        <div>
+                          <p className="font-medium text-gray-900">{position.name || 'Unknown'}</p>
+                          <p className="text-xs text-gray-400">{position.supplierId}</p>
+                        </div>
+                      </div>
+                    </td>
+                    <td
+                      className={cn(
+                        'px-4 py-3 text-right font-semibold',
+                        position.overLimit ? 'text-amber-600' : 'text-gray-900'
+                      )}
+                    >
+                      {formatCurrency(position.cashDue)}
+                    </td>
+                    <td className="px-4 py-3 text-right text-gray-600 hidden md:table-cell">
+                      {formatCurrency(position.available)}
+                    </td>
+                    <td className="px-4 py-3">
+                      {position.blocked ? (
+                        <span className="inline-flex items-center gap-1 text-xs font-medium text-red-600 bg-red-50 px-2 py-1 rounded-lg">
+                          <Ban className="w-3.5 h-3.5" />
+                          Blocked
+                        </span>
+                      ) : position.overLimit ? (
+                        <span className="inline-flex items-center gap-1 text-xs font-medium text-amber-700 bg-amber-50 px-2 py-1 rounded-lg">
+                          <AlertTriangle className="w-3.5 h-3.5" />
+                          Over limit
+                        </span>
+                      ) : (
+                        <span className="inline-flex items-center gap-1 text-xs font-medium text-green-700 bg-green-50 px-2 py-1 rounded-lg">
+                          <CheckCircle className="w-3.5 h-3.5" />
+                          Within limit
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      <div className="flex items-center justify-end gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={position.cashDue <= 0 || busyId === position.supplierId}
+                          onClick={() => openRemit(position)}
+                        >
+                          Record cash
+                        </Button>
+                        <Button
+                          variant={position.blocked ? 'ghost' : 'danger'}
+                          size="sm"
+                          loading={busyId === position.supplierId && !remitting}
+                          onClick={() => handleToggleBlock(position)}
+                        >
+                          {position.blocked ? 'Unblock' : 'Block'}
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+
+      {/* ================================================================== */}
+      {/* Remittance Modal                                                   */}
+      {/* ================================================================== */}
+      <Modal
+        isOpen={!!remitting}
+        onClose={() => setRemitting(null)}
+        title="Record Cash Remittance"
+        size="sm"
+      >
+        {remitting && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              {remitting.name || remitting.supplierId} owes{' '}
+              <span className="font-semibold">{formatCurrency(remitting.cashDue)}</span> in cash
+              commission.
+            </p>
+            <Input
+              label="Amount received (INR)"
+              type="number"
+              min={0}
+              max={remitting.cashDue}
+              value={remitAmount}
+              onChange={(e) => setRemitAmount(e.target.value)}
+              size="md"
+            />
+            <Input
+              label="Reference (optional)"
+              placeholder="Receipt number, UPI reference..."
+              value={remitNote}
+              onChange={(e) => setRemitNote(e.target.value)}
+              size="md"
+            />
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" size="md" onClick={() => setRemitting(null)}>
+                Cancel
+              </Button>
+              <Button
+                variant="primary"
+                size="md"
+                loading={busyId === remitting.supplierId}
+                onClick={handleRemit}
+              >
+                Record
+              </Button>
+            </div>
+          </div>
+        )}
+      </Modal>
+    </div>
+  );
+}
@@ -4,20 +4,13 @@ export const dynamic = 'force-dynamic';
 // =============================================================================
 // JalSeva - Complaint Management Page
 // =============================================================================
-// Lists all complaints from orders. Supports filtering by status, reply/resolve
-// functionality, and links to related orders.
+// Lists all complaints through /api/complaints. Supports filtering by status,
+// SLA timers and escalation, assignment, a threaded reply (or internal note)
+// to the customer, resolving, and links to related orders.
 // =============================================================================
 
-import React, { useState, useEffect, useMemo } from 'react';
-import {
-  collection,
-  query,
-  orderBy,
-  onSnapshot,
-  doc,
-  updateDoc,
-  Timestamp,
-} from 'firebase/firestore';
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import Image from 'next/image';
 import {
   MessageSquareWarning,
   Search,
@@ -31,37 +24,26 @@ import {
   ExternalLink,
   MessageCircle,
   Loader2,
+  Flame,
+  UserCheck,
+  Paperclip,
+  Lock,
 } from 'lucide-react';
-import { db } from '@/lib/firebase';
+import { COMPLAINT_CATEGORIES, complaintSla, type SlaTimerState } from '@/lib/complaints';
+import { useAuthStore } from '@/store/authStore';
 import { cn } from '@/lib/utils';
 import { Card, } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { Modal } from '@/components/ui/Modal';
 import { toast } from 'sonner';
+import type { Complaint, ComplaintStatus } from '@/types';
 
 // =============================================================================
 // Types
 // =============================================================================
 
-type ComplaintStatus = 'open' | 'in_progress' | 'resolved';
-
-interface Complaint {
-  id: string;
-  orderId: string;
-  customerId: string;
-  customerName: string;
-  customerPhone: string;
-  text: string;
-  status: ComplaintStatus;
-  category?: string;
-  adminReply?: string;
-  createdAt: Date;
-  updatedAt?: Date;
-  resolvedAt?: Date;
-}
-
-type FilterTab = 'all' | ComplaintStatus;
+type FilterTab = 'all' | ComplaintStatus | 'escalated';
 
 // =============================================================================
 // Constants
@@ -96,13 +78,26 @@ const FILTER_TABS: { key: FilterTab; label: string }[] = [
   { key: 'open', label: 'Open' },
   { key: 'in_progress', label: 'In Progress' },
   { key: 'resolved', label: 'Resolved' },
+  { key: 'escalated', label: 'Escalated' },
 ];
 
+const SLA_CONFIG: Record<SlaTimerState, { label: string; className: string }> = {
+  met: { label: 'Met', className: 'bg-green-50 text-green-700' },
+  on_track: { label: 'On track', className: 'bg-gray-100 text-gray-600' },
+  due_soon: { label: 'Due soon', className: 'bg-amber-50 text-amber-700' },
+  breached: { label: 'Breached', className: 'bg-red-50 text-red-700' },
+};
+
+/** Refresh interval for the list and the SLA badges. */
+const REFRESH_MS = 60_000;
+
 // =============================================================================
 // Complaint Management Component
 // =============================================================================
 
 export default function ComplaintsPage() {
+  const user = useAuthStore((s) => s.user);
+
   // --------------------------------------------------------------------------
   // State
   // --------------------------------------------------------------------------
@@ -117,52 +112,40 @@ export default function ComplaintsPage() {
 
   // Reply form
   const [replyText, setReplyText] = useState('');
+  const [replyInternal, setReplyInternal] = useState(false);
   const [replyLoading, setReplyLoading] = useState(false);
+  const [assignLoading, setAssignLoading] = useState(false);
 
   // Resolve confirmation
   const [resolveModalOpen, setResolveModalOpen] = useState(false);
+  const [resolveNote, setResolveNote] = useState('');
   const [resolveLoading, setResolveLoading] = useState(false);
 
+  const [now, setNow] = useState(() => new Date());
+
   // --------------------------------------------------------------------------
-  // Firestore listener
+  // Data
   // --------------------------------------------------------------------------
-  useEffect(() => {
-    const complaintsQuery = query(
-      collection(db, 'complaints'),
-      orderBy('createdAt', 'desc')
-    );
-
-    const unsubscribe = onSnapshot(complaintsQuery, (snapshot) => {
-      const complaintList: Complaint[] = [];
-
-      snapshot.forEach((docSnap) => {
-        const data = docSnap.data();
-        complaintList.push({
-          id: docSnap.id,
-          orderId: data.orderId || '',
-          customerId: data.customerId || '',
-          customerName: data.customerName || data.name || 'Unknown Customer',
-          customerPhone: data.customerPhone || data.phone || '',
-          text: data.text || data.message || data.complaint || '',
-          status: data.status || 'open',
-          category: data.category || undefined,
-          adminReply: data.adminReply || undefined,
-          createdAt: data.createdAt?.toDate?.() || new Date(),
-          updatedAt: data.updatedAt?.toDate?.() || undefined,
-          resolvedAt: data.resolvedAt?.toDate?.() || undefined,
-        });
-      });
-
-      setComplaints(complaintList);
-      setLoading(false);
-    }, (error) => {
+  const loadComplaints = useCallback(async () => {
+    try {
+      const res = await fetch('/api/complaints');
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to load complaints');
+      setComplaints(data.complaints);
+    } catch (error) {
       console.error('Error loading complaints:', error);
+    } finally {
       setLoading(false);
-    });
-
-    return () => unsubscribe();
+      setNow(new Date());
+    }
   }, []);
 
+  useEffect(() => {
+    loadComplaints();
+    const timer = setInterval(loadComplaints, REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [loadComplaints]);
+
   // --------------------------------------------------------------------------
   // Filtered & searched complaints
   // --------------------------------------------------------------------------
@@ -170,7 +153,9 @@ export default function ComplaintsPage() {
     let result = complaints;
 
     // Status filter
-    if (activeFilter !== 'all') {
+    if (activeFilter === 'escalated') {
+      result = result.filter((c) => c.status !== 'resolved' && c.escalationLevel > 0);
+    } else if (activeFilter !== 'all') {
       result = result.filter((c) => c.status === activeFilter);
     }
 
@@ -196,41 +181,53 @@ export default function ComplaintsPage() {
       open: complaints.filter((c) => c.status === 'open').length,
       in_progress: complaints.filter((c) => c.status === 'in_progress').length,
       resolved: complaints.filter((c) => c.status === 'resolved').length,
+      escalated: complaints.filter((c) => c.status !== 'resolved' && c.escalationLevel > 0).length,
     };
   }, [complaints]);
 
   // --------------------------------------------------------------------------
   // Actions
   // --------------------------------------------------------------------------
+  const applyUpdate = (next: Complaint) => {
+    setComplaints((prev) => prev.map((c) => (c.id === next.id ? next : c)));
+    setSelectedComplaint((current) => (current?.id === next.id ? next : current));
+  };
+
+  const patchComplaint = async (
+    complaint: Complaint,
+    body: Record<string, unknown>
+  ): Promise<Complaint | null> => {
+    const res = await fetch(`/api/complaints/${complaint.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || 'Update failed');
+    applyUpdate(data.complaint);
+    return data.complaint;
+  };
+
   const handleSendReply = async () => {
-    if (!selectedComplaint || !replyText.trim()) return;
+    if (!selectedComplaint || !replyText.trim() || !user) return;
     setReplyLoading(true);
 
     try {
-      const updates: Record<string, any> = {
-        adminReply: replyText.trim(),
-        updatedAt: Timestamp.now(),
-      };
-
-      // If complaint was open, move to in_progress when replying
-      if (selectedComplaint.status === 'open') {
-        updates.status = 'in_progress';
-      }
-
-      await updateDoc(doc(db, 'complaints', selectedComplaint.id), updates);
-
-      setSelectedComplaint({
-        ...selectedComplaint,
-        adminReply: replyText.trim(),
-        status: selectedComplaint.status === 'open' ? 'in_progress' : selectedComplaint.status,
-        updatedAt: new Date(),
+      const res = await fetch(`/api/complaints/${selectedComplaint.id}/replies`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ text: replyText.trim(), internal: replyInternal }),
       });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to send reply');
 
+      applyUpdate(data.complaint);
       setReplyText('');
-      toast.success('Reply sent successfully');
+      setReplyInternal(false);
+      toast.success(replyInternal ? 'Note added' : 'Reply sent successfully');
     } catch (error) {
       console.error('Error sending reply:', error);
-      toast.error('Failed to send reply');
+      toast.error(error instanceof Error ? error.message : 'Failed to send reply');
     } finally {
       setReplyLoading(false);
     }
@@ -241,24 +238,17 @@ export default function ComplaintsPage() {
     setResolveLoading(true);
 
     try {
-      await updateDoc(doc(db, 'complaints', selectedComplaint.id), {
-        status: 'resolved',
-        resolvedAt: Timestamp.now(),
-        updatedAt: Timestamp.now(),
-      });
-
-      setSelectedComplaint({
-        ...selectedComplaint,
+      await patchComplaint(selectedComplaint, {
+        action: 'status',
         status: 'resolved',
-        resolvedAt: new Date(),
-        updatedAt: new Date(),
+        note: resolveNote.trim() || undefined,
       });
-
       setResolveModalOpen(false);
+      setResolveNote('');
       toast.success('Complaint resolved');
     } catch (error) {
       console.error('Error resolving complaint:', error);
-      toast.error('Failed to resolve complaint');
+      toast.error(error instanceof Error ? error.message : 'Failed to resolve complaint');
     } finally {
       setResolveLoading(false);
     }
@@ -266,41 +256,39 @@ export default function ComplaintsPage() {
 
   const handleStatusChange = async (complaint: Complaint, newStatus: ComplaintStatus) => {
     try {
-      const updates: Record<string, any> = {
-        status: newStatus,
-        updatedAt: Timestamp.now(),
-      };
-      if (newStatus === 'resolved') {
-        updates.resolvedAt = Timestamp.now();
-      }
-
-      await updateDoc(doc(db, 'complaints', complaint.id), updates);
+      await patchComplaint(complaint, { action: 'status', status: newStatus });
       toast.success(`Status changed to ${STATUS_CONFIG[newStatus].label}`);
     } catch (error) {
       console.error('Error updating status:', error);
-      toast.error('Failed to update status');
+      toast.error(error instanceof Error ? error.message : 'Failed to update status');
+    }
+  };
+
+  const handleAssign = async (complaint: Complaint, assigneeId: string | null) => {
+    setAssignLoading(true);
+    try {
+      await patchComplaint(complaint, { action: 'assign', assigneeId });
+      toast.success(assigneeId ? 'Complaint assigned' : 'Complaint unassigned');
+    } catch (error) {
+      console.error('Error assigning complaint:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to assign complaint');
+    } finally {
+      setAssignLoading(false);
     }
   };
 
   const openDetail = (complaint: Complaint) => {
     setSelectedComplaint(complaint);
     setReplyText('');
+    setReplyInternal(false);
     setDetailOpen(true);
   };
 
   // --------------------------------------------------------------------------
   // Format helpers
   // --------------------------------------------------------------------------
-  const _formatDate = (date: Date) => {
-    return date.toLocaleDateString('en-IN', {
-      day: '2-digit',
-      month: 'short',
-      year: '2-digit',
-    });
-  };
-
-  const formatDateTime = (date: Date) => {
-    return date.toLocaleDateString('en-IN', {
+  const formatDateTime = (date: Date | string) => {
+    return new Date(date).toLocaleDateString('en-IN', {
       day: '2-digit',
       month: 'short',
       year: 'numeric',
@@ -310,9 +298,8 @@ export default function ComplaintsPage() {
     });
   };
 
-  const getTimeSince = (date: Date) => {
-    const now = new Date();
-    const diffMs = now.getTime() - date.getTime();
+  const getTimeSince = (date: Date | string) => {
+    const diffMs = now.getTime() - new Date(date).getTime();
     const diffMins = Math.floor(diffMs / 60000);
     const diffHours = Math.floor(diffMins / 60);
     const diffDays = Math.floor(diffHours / 24);
@@ -348,6 +335,12 @@ export default function ComplaintsPage() {
               {counts.in_progress} In Progress
             </span>
           )}
+          {counts.escalated > 0 && (
+            <span className="bg-red-600 text-white px-3 py-1.5 rounded-lg text-sm font-medium flex items-center gap-1.5">
+              <Flame className="w-3.5 h-3.5" />
+              {counts.escalated} Escalated
+            </span>
+          )}
         </div>
       </div>
 
@@ -408,8 +401,10 @@ export default function ComplaintsPage() {
               <p className="text-sm text-gray-500 font-medium">
                 {searchQuery
                   ? 'No complaints match your search'
+                  : activeFilter === 'escalated'
+                  ? 'No escalated complaints'
                   : activeFilter !== 'all'
-                  ? `No ${STATUS_CONFIG[activeFilter as ComplaintStatus]?.label.toLowerCase()} complaints`
+                  ? `No ${STATUS_CONFIG[activeFilter].label.toLowerCase()} complaints`
                   : 'No complaints yet'}
               </p>
             </div>
@@ -418,6 +413,11 @@ export default function ComplaintsPage() {
           filteredComplaints.map((complaint) => {
             const statusConfig = STATUS_CONFIG[complaint.status];
             const StatusIcon = statusConfig.icon;
+            const sla = complaintSla(complaint, now);
+            const slaState = complaint.firstRespondedAt ? sla.resolution : sla.response;
+            const hasAdminReply = complaint.replies.some(
+              (r) => r.authorRole === 'admin' && !r.internal
+            );
 
             return (
               <Card
@@ -451,9 +451,27 @@ export default function ComplaintsPage() {
                         </span>
 
                         {/* Category */}
-                        {complaint.category && (
-                          <span className="text-xs bg-gray-100 text-gray-600 px-2 py-0.5 rounded-full">
-                            {complaint.category}
+                        <span className="text-xs bg-gray-100 text-gray-600 px-2 py-0.5 rounded-full">
+                          {COMPLAINT_CATEGORIES[complaint.category]?.label ?? complaint.category}
+                        </span>
+
+                        {/* SLA */}
+                        {complaint.status !== 'resolved' && (
+                          <span
+                            className={cn(
+                              'text-xs font-medium px-2 py-0.5 rounded-full',
+                              SLA_CONFIG[slaState].className
+                            )}
+                          >
+                            {complaint.firstRespondedAt ? 'Resolve' : 'Reply'}: {SLA_CONFIG[slaState].label}
+                          </span>
+                        )}
+
+                        {/* Escalation */}
+                        {complaint.status !== 'resolved' && complaint.escalationLevel > 0 && (
+                          <span className="inline-flex items-center gap-1 text-xs font-semibold bg-red-600 text-white px-2 py-0.5 rounded-full">
+                            <Flame className="w-3 h-3" />
+                            L{complaint.escalationLevel}
                           </span>
                         )}
 
@@ -478,15 +496,27 @@ export default function ComplaintsPage() {
                         {complaint.text}
                       </p>
 
-                      {/* Admin reply indicator */}
-                      {complaint.adminReply && (
-                        <div className="flex items-center gap-1.5 mt-2">
-                          <MessageCircle className="w-3.5 h-3.5 text-blue-500" />
-                          <span className="text-xs text-blue-600 font-medium">
+                      {/* Thread, attachments and assignee */}
+                      <div className="flex items-center gap-3 mt-2 text-xs">
+                        {hasAdminReply && (
+                          <span className="flex items-center gap-1.5 text-blue-600 font-medium">
+                            <MessageCircle className="w-3.5 h-3.5 text-blue-500" />
                             Admin replied
                           </span>
-                        </div>
-                      )}
+                        )}
+                        {complaint.attachments.length > 0 && (
+                          <span className="flex items-center gap-1 text-gray-500">
+                            <Paperclip className="w-3.5 h-3.5" />
+                            {complaint.attachments.length}
+                          </span>
+                        )}
+                        {complaint.assignedTo && (
+                          <span className="flex items-center gap-1 text-gray-500">
+                            <UserCheck className="w-3.5 h-3.5" />
+                            {complaint.assignedTo === user?.id ? 'You' : complaint.assignedTo}
+                          </span>
+                        )}
+                      </div>
                     </div>
 
                     {/* Right: Action arrow */}
@@ -612,17 +642,43 @@ export default function ComplaintsPage() {
                       {formatDateTime(selectedComplaint.createdAt)}
                     </span>
                   </div>
-                  {selectedComplaint.category && (
-                    <div className="flex justify-between text-sm">
-                      <span className="text-gray-500">Category</span>
-                      <span className="text-gray-700 capitalize">
-                        {selectedComplaint.category}
-                      </span>
-                    </div>
-                  )}
+                  <div className="flex justify-between text-sm">
+                    <span className="text-gray-500">Category</span>
+                    <span className="text-gray-700">
+                      {COMPLAINT_CATEGORIES[selectedComplaint.category]?.label ??
+                        selectedComplaint.category}
+                    </span>
+                  </div>
                 </div>
               </div>
 
+              {/* SLA & Assignment */}
+              <SlaSection complaint={selectedComplaint} now={now} formatDateTime={formatDateTime} />
+              <div className="flex items-center justify-between bg-gray-50 rounded-xl p-3">
+                <span className="text-sm text-gray-600 flex items-center gap-1.5">
+                  <UserCheck className="w-4 h-4 text-gray-400" />
+                  {selectedComplaint.assignedTo
+                    ? selectedComplaint.assignedTo === user?.id
+                      ? 'Assigned to you'
+                      : `Assigned to ${selectedComplaint.assignedTo}`
+                    : 'Unassigned'}
+                </span>
+                {user && (
+                  <button
+                    disabled={assignLoading}
+                    onClick={() =>
+                      handleAssign(
+                        selectedComplaint,
+                        selectedComplaint.assignedTo === user.id ? null : user.id
+                      )
+                    }
+                    className="text-xs text-blue-600 hover:text-blue-700 font-medium px-2 py-1 rounded-lg hover:bg-blue-50 transition-colors disabled:opacity-50"
+                  >
+                    {selectedComplaint.assignedTo === user.id ? 'Unassign' : 'Assign to me'}
+                  </button>
+                )}
+              </div>
+
               {/* Complaint Text */}
               <div>
                 <h5 className="text-sm font-semibold text-gray-900 mb-3">
@@ -635,21 +691,64 @@ export default function ComplaintsPage() {
                 </div>
               </div>
 
-              {/* Admin Reply (if exists) */}
-              {selectedComplaint.adminReply && (
+              {/* Attachments */}
+              {selectedComplaint.attachments.length > 0 && (
                 <div>
-                  <h5 className="text-sm font-semibold text-gray-900 mb-3">
-                    Admin Response
-                  </h5>
-                  <div className="bg-blue-50 rounded-xl p-4 border border-blue-100">
-                    <p className="text-sm text-blue-800 leading-relaxed whitespace-pre-wrap">
-                      {selectedComplaint.adminReply}
-                    </p>
-                    {selectedComplaint.updatedAt && (
-                      <p className="text-xs text-blue-400 mt-2">
-                        Replied {formatDateTime(selectedComplaint.updatedAt)}
-                      </p>
-                    )}
+                  <h5 className="text-sm font-semibold text-gray-900 mb-3">Photos</h5>
+                  <div className="grid grid-cols-3 gap-2">
+                    {selectedComplaint.attachments.map((attachment, index) => {
+                      const url = `/api/complaints/${selectedComplaint.id}/attachments/${index}`;
+                      return (
+                        <a key={attachment.storagePath} href={url} target="_blank" rel="noreferrer">
+                          <Image
+                            src={url}
+                            alt={`Complaint photo ${index + 1}`}
+                            width={160}
+                            height={160}
+                            className="w-full aspect-square rounded-lg object-cover"
+                            unoptimized
+                          />
+                        </a>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+
+              {/* Thread */}
+              {selectedComplaint.replies.length > 0 && (
+                <div>
+                  <h5 className="text-sm font-semibold text-gray-900 mb-3">Thread</h5>
+                  <div className="space-y-2">
+                    {selectedComplaint.replies.map((reply) => (
+                      <div
+                        key={reply.id}
+                        className={cn(
+                          'rounded-xl p-3 border',
+                          reply.internal
+                            ? 'bg-amber-50 border-amber-100'
+                            : reply.authorRole === 'customer'
+                            ? 'bg-gray-50 border-gray-100'
+                            : 'bg-blue-50 border-blue-100'
+                        )}
+                      >
+                        <p className="text-xs text-gray-500 mb-1 flex items-center gap-1">
+                          {reply.internal && <Lock className="w-3 h-3" />}
+                          {reply.authorRole === 'customer'
+                            ? selectedComplaint.customerName
+                            : reply.authorRole === 'system'
+                            ? 'System'
+                            : reply.authorId === user?.id
+                            ? 'You'
+                            : reply.authorId}
+                          {' · '}
+                          {formatDateTime(reply.at)}
+                        </p>
+                        <p className="text-sm text-gray-800 leading-relaxed whitespace-pre-wrap">
+                          {reply.text}
+                        </p>
+                      </div>
+                    ))}
                   </div>
                 </div>
               )}
@@ -679,7 +778,11 @@ export default function ComplaintsPage() {
                     <textarea
                       value={replyText}
                       onChange={(e) => setReplyText(e.target.value)}
-                      placeholder="Type your response to the customer..."
+                      placeholder={
+                        replyInternal
+                          ? 'Internal note (not shown to the customer)...'
+                          : 'Type your response to the customer...'
+                      }
                       rows={2}
                       className="w-full rounded-xl border border-gray-200 bg-white text-gray-900 text-sm py-2.5 px-4 placeholder:text-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 resize-none transition-all"
                     />
@@ -699,10 +802,19 @@ export default function ComplaintsPage() {
                       onClick={handleSendReply}
                       className="h-full"
                     >
-                      Reply
+                      {replyInternal ? 'Note' : 'Reply'}
                     </Button>
                   </div>
                 </div>
+                <label className="flex items-center gap-2 text-xs text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={replyInternal}
+                    onChange={(e) => setReplyInternal(e.target.checked)}
+                    className="rounded border-gray-300"
+                  />
+                  Internal note
+                </label>
 
                 {/* Resolve button */}
                 <Button
@@ -737,13 +849,20 @@ export default function ComplaintsPage() {
                 Mark this complaint as resolved? The customer will be notified that
                 their issue has been addressed.
               </p>
-              {!selectedComplaint?.adminReply && (
+              {!selectedComplaint?.firstRespondedAt && (
                 <p className="text-xs text-amber-600 mt-2 font-medium">
                   Note: No reply has been sent yet. Consider replying before resolving.
                 </p>
               )}
             </div>
           </div>
+          <textarea
+            value={resolveNote}
+            onChange={(e) => setResolveNote(e.target.value)}
+            placeholder="Resolution note for the customer (optional)"
+            rows={2}
+            className="w-full rounded-xl border border-gray-200 bg-white text-gray-900 text-sm py-2.5 px-4 placeholder:text-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 resize-none transition-all"
+          />
           <div className="flex gap-3">
             <Button
               variant="ghost"
@@ -766,3 +885,55 @@ export default function ComplaintsPage() {
     </div>
   );
 }
+
+// =============================================================================
+// SLA Section
+// =============================================================================
+
+function SlaSection({
+  complaint,
+  now,
+  formatDateTime,
+}: {
+  complaint: Complaint;
+  now: Date;
+  formatDateTime: (date: Date | string) => string;
+}) {
+  const sla = complaintSla(complaint, now);
+  const rows = [
+    { label: 'First reply due', dueAt: complaint.responseDueAt, state: sla.response },
+    { label: 'Resolution due', dueAt: complaint.resolutionDueAt, state: sla.resolution },
+  ];
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <h5 className="text-sm font-semibold text-gray-900">SLA</h5>
+        {complaint.escalationLevel > 0 && (
+          <span className="inline-flex items-center gap-1 text-xs font-semibold bg-red-600 text-white px-2 py-0.5 rounded-full">
+            <Flame className="w-3 h-3" />
+            Escalated L{complaint.escalationLevel}
+          </span>
+        )}
+      </div>
+      <div className="bg-gray-50 rounded-xl p-4 space-y-2">
+        {rows.map((row) => (
+          <div key={row.label} className="flex items-center justify-between text-sm">
+            <span className="text-gray-500">{row.label}</span>
+            <span className="flex items-center gap-2">
+              <span className="text-gray-700">{formatDateTime(row.dueAt)}</span>
+              <span
+                className={cn(
+                  'text-xs font-medium px-2 py-0.5 rounded-full',
+                  SLA_CONFIG[row.state].className
+                )}
+              >
+                {SLA_CONFIG[row.state].label}
+              </span>
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
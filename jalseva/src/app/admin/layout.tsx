@@ -17,6 +17,7 @@ import {
   BarChart3,
   Settings,
   MessageSquareWarning,
+  Banknote,
   Droplets,
   Menu,
   X,
@@ -36,6 +37,7 @@ const NAV_ITEMS = [
   { href: '/admin', label: 'Dashboard', icon: LayoutDashboard },
   { href: '/admin/suppliers', label: 'Suppliers', icon: Users },
   { href: '/admin/orders', label: 'Orders', icon: Package },
+  { href: '/admin/cash', label: 'Cash', icon: Banknote },
   { href: '/admin/analytics', label: 'Analytics', icon: BarChart3 },
   { href: '/admin/complaints', label: 'Complaints', icon: MessageSquareWarning },
   { href: '/admin/settings', label: 'Settings', icon: Settings },
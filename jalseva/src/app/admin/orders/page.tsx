@@ -5,7 +5,9 @@ export const dynamic = 'force-dynamic';
 // JalSeva - Order Management Page
 // =============================================================================
 // Comprehensive order management: table with all orders, filters by status and
-// date range, search by order ID, full order details view, cancel and refund.
+// date range, search by order ID, full order details view, cancel, full or
+// partial refunds, and marking an order delivered without its delivery OTP
+// (audited with the admin and reason).
 // =============================================================================
 
 import { useState, useEffect, useMemo, useCallback } from 'react';
@@ -30,15 +32,34 @@ import {
   XCircle,
   RefreshCcw,
   ChevronDown,
+  PackageCheck,
+  Camera,
+  ShieldCheck,
+  ShieldX,
+  Gauge,
 } from 'lucide-react';
+import Image from 'next/image';
 import { db } from '@/lib/firebase';
+import { useAuthStore } from '@/store/authStore';
 import { cn, formatCurrency } from '@/lib/utils';
 import { Card } from '@/components/ui/Card';
 import { Badge } from '@/components/ui/Badge';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { Modal } from '@/components/ui/Modal';
-import type { Order, OrderStatus, } from '@/types';
+import {
+  REFUND_REASONS,
+  refundableAmount,
+  shortDeliveryRefund,
+} from '@/lib/refunds';
+import { photoCheckIssues } from '@/lib/delivery-proof';
+import type {
+  DeliveryPhotoProof,
+  DeliveryVolume,
+  Order,
+  OrderStatus,
+  PhotoReviewStatus,
+} from '@/types';
 
 // =============================================================================
 // Constants
@@ -82,14 +103,30 @@ const paymentStatusColors: Record<string, string> = {
   pending: 'bg-amber-100 text-amber-700',
   paid: 'bg-green-100 text-green-700',
   failed: 'bg-red-100 text-red-700',
+  partially_refunded: 'bg-purple-100 text-purple-700',
   refunded: 'bg-purple-100 text-purple-700',
 };
 
+const photoReviewLabels: Record<PhotoReviewStatus, { label: string; className: string }> = {
+  auto_passed: { label: 'Checks passed', className: 'bg-green-100 text-green-700' },
+  needs_review: { label: 'Needs review', className: 'bg-amber-100 text-amber-700' },
+  approved: { label: 'Approved', className: 'bg-green-100 text-green-700' },
+  rejected: { label: 'Rejected', className: 'bg-red-100 text-red-700' },
+};
+
+const refundStatusColors: Record<string, string> = {
+  pending: 'text-amber-600',
+  processed: 'text-green-600',
+  failed: 'text-red-600',
+};
+
 // =============================================================================
 // Order Management Component
 // =============================================================================
 
 export default function OrdersPage() {
+  const user = useAuthStore((s) => s.user);
+
   // --------------------------------------------------------------------------
   // State
   // --------------------------------------------------------------------------
@@ -107,8 +144,19 @@ export default function OrdersPage() {
   // Cancel / Refund
   const [cancelModalOpen, setCancelModalOpen] = useState(false);
   const [refundModalOpen, setRefundModalOpen] = useState(false);
+  const [refundAmount, setRefundAmount] = useState('');
+  const [refundReason, setRefundReason] = useState('other');
+  const [refundError, setRefundError] = useState('');
   const [actionLoading, setActionLoading] = useState(false);
 
+  // Delivery without OTP
+  const [overrideModalOpen, setOverrideModalOpen] = useState(false);
+  const [overrideReason, setOverrideReason] = useState('');
+  const [overrideError, setOverrideError] = useState('');
+
+  // Delivery photo review
+  const [photoReviewError, setPhotoReviewError] = useState('');
+
   // --------------------------------------------------------------------------
   // Date range calculation
   // --------------------------------------------------------------------------
@@ -169,6 +217,7 @@ export default function OrdersPage() {
           payment: data.payment || { method: 'cash', status: 'pending', amount: 0 },
           rating: data.rating || undefined,
           beckn: data.beckn || undefined,
+          deliveryVerification: data.deliveryVerification || undefined,
           createdAt: data.createdAt?.toDate?.() || new Date(),
           acceptedAt: data.acceptedAt?.toDate?.() || undefined,
           pickedAt: data.pickedAt?.toDate?.() || undefined,
@@ -248,27 +297,115 @@ export default function OrdersPage() {
     }
   };
 
+  const openRefundModal = () => {
+    if (!selectedOrder) return;
+    // Pre-fill the pro-rated amount for short deliveries, else the full balance
+    const shortfall = shortDeliveryRefund(selectedOrder);
+    setRefundAmount(String(shortfall || refundableAmount(selectedOrder.payment)));
+    setRefundReason(shortfall > 0 ? 'short_delivery' : 'other');
+    setRefundError('');
+    setRefundModalOpen(true);
+  };
+
   const handleRefundOrder = async () => {
     if (!selectedOrder) return;
     setActionLoading(true);
+    setRefundError('');
 
     try {
-      await updateDoc(doc(db, 'orders', selectedOrder.id), {
-        'payment.status': 'refunded',
+      const res = await fetch('/api/payments/refund', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          orderId: selectedOrder.id,
+          amount: Number(refundAmount),
+          reason: refundReason,
+          adminId: user?.id,
+        }),
       });
+      const data = await res.json();
+      if (!res.ok) {
+        setRefundError(data.error || 'Refund failed.');
+        return;
+      }
+      setSelectedOrder({ ...selectedOrder, payment: data.payment });
+      setRefundModalOpen(false);
+    } catch (error) {
+      console.error('Error processing refund:', error);
+      setRefundError('Refund failed. Please try again.');
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const openOverrideModal = () => {
+    setOverrideReason('');
+    setOverrideError('');
+    setOverrideModalOpen(true);
+  };
+
+  const handleOverrideDelivery = async () => {
+    if (!selectedOrder) return;
+    setActionLoading(true);
+    setOverrideError('');
+
+    try {
+      const res = await fetch(`/api/orders/${selectedOrder.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          status: 'delivered',
+          actorId: user?.id,
+          actorRole: 'admin',
+          otpOverride: true,
+          reason: overrideReason,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setOverrideError(data.error || 'Could not mark the order delivered.');
+        return;
+      }
+      setSelectedOrder({ ...selectedOrder, status: 'delivered', deliveredAt: new Date() });
+      setOverrideModalOpen(false);
+    } catch (error) {
+      console.error('Error overriding delivery OTP:', error);
+      setOverrideError('Could not mark the order delivered. Please try again.');
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const handleReviewPhoto = async (decision: 'approved' | 'rejected') => {
+    if (!selectedOrder) return;
+    setActionLoading(true);
+    setPhotoReviewError('');
+
+    try {
+      const res = await fetch(`/api/orders/${selectedOrder.id}/photo`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ decision, adminId: user?.id }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setPhotoReviewError(data.error || 'Could not save the review.');
+        return;
+      }
       setSelectedOrder({
         ...selectedOrder,
-        payment: { ...selectedOrder.payment, status: 'refunded' },
+        deliveryVerification: { ...selectedOrder.deliveryVerification, photoProof: data.proof },
       });
-      setRefundModalOpen(false);
     } catch (error) {
-      console.error('Error processing refund:', error);
+      console.error('Error reviewing delivery photo:', error);
+      setPhotoReviewError('Could not save the review. Please try again.');
     } finally {
       setActionLoading(false);
     }
   };
 
   const openOrderDetail = (order: Order) => {
+    setPhotoReviewError('');
     setSelectedOrder(order);
     setDetailOpen(true);
   };
@@ -617,6 +754,27 @@ export default function OrdersPage() {
                 </div>
               </div>
 
+              {/* Delivered Volume */}
+              {selectedOrder.deliveryVerification?.volume && (
+                <DeliveredVolumeSection
+                  volume={selectedOrder.deliveryVerification.volume}
+                  quantityLitres={selectedOrder.quantityLitres}
+                  total={selectedOrder.price.total}
+                />
+              )}
+
+              {/* Delivery Photo */}
+              {selectedOrder.deliveryVerification?.photoProof &&
+                selectedOrder.deliveryVerification.photoProofUrl && (
+                  <DeliveryPhotoSection
+                    proof={selectedOrder.deliveryVerification.photoProof}
+                    photoUrl={selectedOrder.deliveryVerification.photoProofUrl}
+                    reviewing={actionLoading}
+                    error={photoReviewError}
+                    onReview={handleReviewPhoto}
+                  />
+                )}
+
               {/* Timeline */}
               <div>
                 <h5 className="text-sm font-semibold text-gray-900 mb-3">Timeline</h5>
@@ -706,6 +864,19 @@ export default function OrdersPage() {
                         </span>
                       </div>
                     )}
+                    {selectedOrder.payment.refunds?.map((refund) => (
+                      <div key={refund.id} className="flex justify-between text-sm">
+                        <span className="text-gray-500">
+                          Refund {formatDate(new Date(refund.createdAt))}
+                          <span className={cn('ml-1 text-xs', refundStatusColors[refund.status])}>
+                            ({refund.status})
+                          </span>
+                        </span>
+                        <span className="text-gray-700">
+                          {formatCurrency(refund.amount)}
+                        </span>
+                      </div>
+                    ))}
                   </div>
                 </div>
               )}
@@ -722,17 +893,34 @@ export default function OrdersPage() {
                     Cancel Order
                   </Button>
                 )}
-                {selectedOrder.payment.status === 'paid' && (
+                {refundableAmount(selectedOrder.payment) > 0 && (
                   <Button
                     variant="outline"
                     fullWidth
                     leftIcon={<RefreshCcw className="w-4 h-4" />}
-                    onClick={() => setRefundModalOpen(true)}
+                    onClick={openRefundModal}
                   >
                     Initiate Refund
                   </Button>
                 )}
+                {(selectedOrder.status === 'en_route' || selectedOrder.status === 'arriving') &&
+                  !selectedOrder.deliveryVerification?.otpVerifiedAt && (
+                    <Button
+                      variant="outline"
+                      fullWidth
+                      leftIcon={<PackageCheck className="w-4 h-4" />}
+                      onClick={openOverrideModal}
+                    >
+                      Deliver without OTP
+                    </Button>
+                  )}
               </div>
+              {selectedOrder.deliveryVerification?.otpOverride && (
+                <p className="text-xs text-amber-700 bg-amber-50 rounded-lg p-3">
+                  Delivered without OTP by {selectedOrder.deliveryVerification.otpOverride.by}:{' '}
+                  {selectedOrder.deliveryVerification.otpOverride.reason}
+                </p>
+              )}
             </div>
           </div>
         </div>
@@ -776,6 +964,54 @@ export default function OrdersPage() {
         </div>
       </Modal>
 
+      {/* ================================================================== */}
+      {/* Deliver Without OTP Modal                                          */}
+      {/* ================================================================== */}
+      <Modal
+        isOpen={overrideModalOpen}
+        onClose={() => setOverrideModalOpen(false)}
+        title="Deliver Without OTP"
+        size="sm"
+      >
+        <div className="space-y-4">
+          <div className="flex items-center gap-3 p-4 rounded-xl bg-amber-50">
+            <AlertTriangle className="w-8 h-8 text-amber-500 shrink-0" />
+            <p className="text-sm text-gray-700">
+              Mark order{' '}
+              <span className="font-mono font-medium">#{selectedOrder?.id.slice(0, 8)}</span>{' '}
+              delivered without the customer&apos;s OTP. Your name and the reason are recorded
+              on the order&apos;s audit trail.
+            </p>
+          </div>
+          <Input
+            label="Reason"
+            value={overrideReason}
+            onChange={(e) => setOverrideReason(e.target.value)}
+            placeholder="e.g. Customer confirmed delivery on a support call"
+            error={overrideError || undefined}
+            size="md"
+          />
+          <div className="flex gap-3">
+            <Button
+              variant="ghost"
+              fullWidth
+              onClick={() => setOverrideModalOpen(false)}
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="primary"
+              fullWidth
+              loading={actionLoading}
+              disabled={!overrideReason.trim()}
+              onClick={handleOverrideDelivery}
+            >
+              Mark Delivered
+            </Button>
+          </div>
+        </div>
+      </Modal>
+
       {/* ================================================================== */}
       {/* Refund Confirmation Modal                                          */}
       {/* ================================================================== */}
@@ -790,17 +1026,53 @@ export default function OrdersPage() {
             <RefreshCcw className="w-8 h-8 text-purple-500 shrink-0" />
             <div>
               <p className="text-sm text-gray-700">
-                Initiate a full refund of{' '}
+                Refundable balance{' '}
                 <span className="font-semibold">
-                  {formatCurrency(selectedOrder?.price.total || 0)}
+                  {formatCurrency(selectedOrder ? refundableAmount(selectedOrder.payment) : 0)}
                 </span>{' '}
-                to the customer?
+                of {formatCurrency(selectedOrder?.payment.amount || 0)} paid.
               </p>
               <p className="text-xs text-gray-500 mt-1">
                 Refund will be processed via {paymentMethodLabels[selectedOrder?.payment.method || 'cash']} within 5-7 business days.
               </p>
             </div>
           </div>
+          {selectedOrder && shortDeliveryRefund(selectedOrder) > 0 && (
+            <p className="text-xs text-amber-700 bg-amber-50 rounded-lg p-3">
+              Short delivery:{' '}
+              {selectedOrder.deliveryVerification?.volume?.customerResponse?.litres ??
+                selectedOrder.deliveryVerification?.volumeConfirmed}
+              L of {selectedOrder.quantityLitres}L delivered, pro-rated refund still owed{' '}
+              {formatCurrency(shortDeliveryRefund(selectedOrder))}.
+            </p>
+          )}
+          <Input
+            label="Refund Amount (₹)"
+            type="number"
+            min={0}
+            step="0.01"
+            value={refundAmount}
+            onChange={(e) => setRefundAmount(e.target.value)}
+            error={refundError || undefined}
+            size="md"
+          />
+          <div className="flex flex-col gap-1.5">
+            <label htmlFor="refund-reason" className="text-sm font-medium text-gray-700">
+              Reason
+            </label>
+            <select
+              id="refund-reason"
+              value={refundReason}
+              onChange={(e) => setRefundReason(e.target.value)}
+              className="w-full rounded-xl border border-gray-200 bg-white text-gray-900 text-base py-2.5 px-4 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all"
+            >
+              {REFUND_REASONS.map((reason) => (
+                <option key={reason.code} value={reason.code}>
+                  {reason.label}
+                </option>
+              ))}
+            </select>
+          </div>
           <div className="flex gap-3">
             <Button
               variant="ghost"
@@ -824,6 +1096,157 @@ export default function OrdersPage() {
   );
 }
 
+// =============================================================================
+// Delivered Volume Section
+// =============================================================================
+
+function DeliveredVolumeSection({
+  volume,
+  quantityLitres,
+  total,
+}: {
+  volume: DeliveryVolume;
+  quantityLitres: number;
+  total: number;
+}) {
+  const { adjustment, customerResponse } = volume;
+
+  return (
+    <div>
+      <h5 className="text-sm font-semibold text-gray-900 mb-3 flex items-center gap-1.5">
+        <Gauge className="w-4 h-4 text-gray-500" />
+        Delivered Volume
+      </h5>
+      <div className="bg-gray-50 rounded-xl p-4 space-y-2">
+        <div className="flex justify-between text-sm">
+          <span className="text-gray-500">
+            Recorded ({volume.source === 'flow_meter' ? 'flow meter' : 'manual'})
+          </span>
+          <span className="font-medium text-gray-900">
+            {volume.litres}L of {quantityLitres}L
+          </span>
+        </div>
+        {volume.source === 'flow_meter' && (
+          <div className="flex justify-between text-xs text-gray-400">
+            <span>Meter</span>
+            <span>
+              {volume.meterStart} → {volume.meterEnd}
+            </span>
+          </div>
+        )}
+        {adjustment && (
+          <div className="flex justify-between text-sm">
+            <span className="text-gray-500">Pro-rated total</span>
+            <span className="text-amber-700">
+              {formatCurrency(adjustment.originalPrice.total)} → {formatCurrency(total)}
+              {adjustment.refundDue > 0 &&
+                ` (${adjustment.refundId ? 'refunded' : 'refund due'} ${formatCurrency(adjustment.refundDue)})`}
+            </span>
+          </div>
+        )}
+        {customerResponse?.response === 'confirmed' && (
+          <p className="text-xs text-green-700">Customer confirmed the volume.</p>
+        )}
+        {customerResponse?.response === 'disputed' && (
+          <p className="text-xs text-red-700 bg-red-50 rounded-lg p-2">
+            Customer disputed
+            {customerResponse.litres !== undefined ? `: received ${customerResponse.litres}L` : ''}
+            {customerResponse.note ? ` — "${customerResponse.note}"` : ''}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// =============================================================================
+// Delivery Photo Section
+// =============================================================================
+
+function DeliveryPhotoSection({
+  proof,
+  photoUrl,
+  reviewing,
+  error,
+  onReview,
+}: {
+  proof: DeliveryPhotoProof;
+  photoUrl: string;
+  reviewing: boolean;
+  error: string;
+  onReview: (decision: 'approved' | 'rejected') => void;
+}) {
+  const issues = photoCheckIssues(proof);
+  const review = photoReviewLabels[proof.review];
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <h5 className="text-sm font-semibold text-gray-900 flex items-center gap-1.5">
+          <Camera className="w-4 h-4 text-gray-500" />
+          Delivery Photo
+        </h5>
+        <span className={cn('text-xs font-medium px-2 py-0.5 rounded-full', review.className)}>
+          {review.label}
+        </span>
+      </div>
+      <div className="bg-gray-50 rounded-xl p-4 space-y-3">
+        <a href={photoUrl} target="_blank" rel="noopener noreferrer">
+          <Image
+            src={`${photoUrl}&variant=thumb`}
+            alt="Delivery photo uploaded by the supplier"
+            width={320}
+            height={240}
+            className="w-full max-h-56 rounded-lg object-cover"
+            unoptimized
+          />
+        </a>
+        {issues.length > 0 && (
+          <ul className="text-xs text-amber-700 space-y-0.5">
+            {issues.map((issue) => (
+              <li key={issue} className="flex items-center gap-1">
+                <AlertTriangle className="w-3 h-3 shrink-0" />
+                {issue}
+              </li>
+            ))}
+          </ul>
+        )}
+        {proof.reviewedBy && (
+          <p className="text-xs text-gray-500">
+            Reviewed by {proof.reviewedBy}
+            {proof.reviewNote ? `: ${proof.reviewNote}` : ''}
+          </p>
+        )}
+        {proof.review === 'needs_review' && (
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              variant="outline"
+              fullWidth
+              leftIcon={<ShieldCheck className="w-4 h-4" />}
+              loading={reviewing}
+              onClick={() => onReview('approved')}
+            >
+              Approve
+            </Button>
+            <Button
+              size="sm"
+              variant="danger"
+              fullWidth
+              leftIcon={<ShieldX className="w-4 h-4" />}
+              loading={reviewing}
+              onClick={() => onReview('rejected')}
+            >
+              Reject
+            </Button>
+          </div>
+        )}
+        {error && <p className="text-xs text-red-600">{error}</p>}
+      </div>
+    </div>
+  );
+}
+
 // =============================================================================
 // Timeline Item Sub-component
 // =============================================================================
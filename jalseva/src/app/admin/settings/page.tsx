@@ -5,11 +5,13 @@ export const dynamic = 'force-dynamic';
 // JalSeva - Admin Settings Page
 // =============================================================================
 // Platform configuration: commission rate, surge pricing thresholds,
-// delivery radius, default language, zone pricing management, platform fees.
+// delivery radius, default language, cancellation fees, zone pricing
+// management (zones are polygons drawn on a map; see '@/lib/pricing-zones'),
+// platform fees.
 // =============================================================================
 
 import type React from 'react';
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import {
   doc,
   getDoc,
@@ -19,6 +21,9 @@ import {
   updateDoc,
   addDoc,
   deleteDoc,
+  query,
+  orderBy,
+  limit,
 } from 'firebase/firestore';
 import { toast } from 'sonner';
 import {
@@ -32,6 +37,8 @@ import {
   AlertTriangle,
   Percent,
   Zap,
+  XCircle,
+  Landmark,
 } from 'lucide-react';
 import { db } from '@/lib/firebase';
 import { cn, formatCurrency } from '@/lib/utils';
@@ -39,8 +46,28 @@ import { Card, } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { Modal } from '@/components/ui/Modal';
-import type { AdminSettings, PricingZone, WaterType } from '@/types';
+import { ZoneBoundaryMap } from '@/components/shared/ZoneBoundaryMap';
+import type {
+  AdminSettings,
+  CancellationFeeRule,
+  DemandChange,
+  PayoutPolicy,
+  PricingZone,
+  WaterType,
+} from '@/types';
 import { LANGUAGES } from '@/lib/languages';
+import { resolveCancellationPolicy } from '@/lib/cancellation';
+import { resolvePayoutPolicy } from '@/lib/ledger';
+import { resolveCashLimit } from '@/lib/cash';
+import { DEFAULT_MAX_SURGE_MULTIPLIER } from '@/lib/pricing';
+import { resolveDemandThresholds } from '@/lib/demand';
+import { boundariesOverlap, boundaryAreaKm2, parseBoundary } from '@/lib/pricing-zones';
+
+/** Statuses in which a customer cancellation can carry a fee. */
+const FEE_STATUSES = [
+  { status: 'en_route', label: 'En route' },
+  { status: 'arriving', label: 'Arriving' },
+] as const;
 
 // =============================================================================
 // Settings Section Sub-component
@@ -83,7 +110,6 @@ export default function SettingsPage() {
   // --------------------------------------------------------------------------
   const [settings, setSettings] = useState<AdminSettings>({
     commissionPercent: 15,
-    surgeThresholds: { high: 10, surge: 20 },
     maxDeliveryRadius: 25,
     defaultLanguage: 'en',
   });
@@ -97,6 +123,9 @@ export default function SettingsPage() {
   // Surge multiplier
   const [surgeMultiplier, setSurgeMultiplier] = useState(1.5);
 
+  // Automatic demand level changes (see '@/lib/demand')
+  const [demandChanges, setDemandChanges] = useState<DemandChange[]>([]);
+
   // --------------------------------------------------------------------------
   // State - Zone Pricing
   // --------------------------------------------------------------------------
@@ -114,6 +143,9 @@ export default function SettingsPage() {
     perKmRate: 10,
     surgeMultiplier: 1.5,
     demandLevel: 'normal',
+    boundary: [],
+    priority: 0,
+    isDefault: false,
   });
 
   // --------------------------------------------------------------------------
@@ -124,7 +156,11 @@ export default function SettingsPage() {
       try {
         const settingsDoc = await getDoc(doc(db, 'config', 'adminSettings'));
         if (settingsDoc.exists()) {
-          const data = settingsDoc.data() as AdminSettings;
+          // Drop the orders-per-hour surgeThresholds older documents carry
+          // (demand is now automatic), so the next save removes them.
+          const { surgeThresholds: _legacy, ...data } = settingsDoc.data() as AdminSettings & {
+            surgeThresholds?: unknown;
+          };
           setSettings(data);
         }
 
@@ -148,7 +184,7 @@ export default function SettingsPage() {
   // --------------------------------------------------------------------------
   useEffect(() => {
     const unsubscribe = onSnapshot(
-      collection(db, 'pricingZones'),
+      collection(db, 'pricing_zones'),
       (snapshot) => {
         const zoneList: PricingZone[] = [];
         snapshot.forEach((docSnap) => {
@@ -160,6 +196,9 @@ export default function SettingsPage() {
             perKmRate: data.perKmRate || 10,
             surgeMultiplier: data.surgeMultiplier || 1.5,
             demandLevel: data.demandLevel || 'normal',
+            boundary: Array.isArray(data.boundary) ? data.boundary : [],
+            priority: data.priority ?? 0,
+            isDefault: !!data.isDefault,
           });
         });
         setZones(zoneList);
@@ -174,6 +213,23 @@ export default function SettingsPage() {
     return () => unsubscribe();
   }, []);
 
+  // --------------------------------------------------------------------------
+  // Load recent demand level changes (real-time)
+  // --------------------------------------------------------------------------
+  useEffect(() => {
+    const unsubscribe = onSnapshot(
+      query(collection(db, 'demand_changes'), orderBy('at', 'desc'), limit(8)),
+      (snapshot) => {
+        setDemandChanges(
+          snapshot.docs.map((docSnap) => ({ ...docSnap.data(), id: docSnap.id }) as DemandChange)
+        );
+      },
+      (error) => console.error('Error loading demand changes:', error)
+    );
+
+    return () => unsubscribe();
+  }, []);
+
   // --------------------------------------------------------------------------
   // Save Admin Settings
   // --------------------------------------------------------------------------
@@ -190,6 +246,39 @@ export default function SettingsPage() {
     }
   };
 
+  // --------------------------------------------------------------------------
+  // Cancellation Policy
+  // --------------------------------------------------------------------------
+  const cancellationPolicy = resolveCancellationPolicy(settings.cancellationPolicy);
+
+  const updateCancellationFee = (
+    status: (typeof FEE_STATUSES)[number]['status'],
+    rule: CancellationFeeRule
+  ) => {
+    setSettings({
+      ...settings,
+      cancellationPolicy: {
+        ...cancellationPolicy,
+        customerFees: { ...cancellationPolicy.customerFees, [status]: rule },
+      },
+    });
+  };
+
+  // --------------------------------------------------------------------------
+  // Demand Thresholds
+  // --------------------------------------------------------------------------
+  const demandThresholds = resolveDemandThresholds(settings.demandThresholds);
+
+  // --------------------------------------------------------------------------
+  // Payout Schedule
+  // --------------------------------------------------------------------------
+  const payoutPolicy = resolvePayoutPolicy(settings.payoutPolicy);
+  const cashLimit = resolveCashLimit(settings.cashLimit);
+
+  const updatePayoutPolicy = (patch: Partial<PayoutPolicy>) => {
+    setSettings({ ...settings, payoutPolicy: { ...payoutPolicy, ...patch } });
+  };
+
   // --------------------------------------------------------------------------
   // Save Platform Fee
   // --------------------------------------------------------------------------
@@ -213,27 +302,49 @@ export default function SettingsPage() {
   // Zone CRUD
   // --------------------------------------------------------------------------
   const handleSaveZone = async () => {
+    // A zone without a boundary is only used by id (or as the default)
+    const form = editingZone || newZone;
+    let boundary: PricingZone['boundary'] = [];
+    if (form.boundary?.length) {
+      const parsed = parseBoundary(form.boundary);
+      if ('error' in parsed) {
+        toast.error(parsed.error);
+        return;
+      }
+      boundary = parsed.boundary;
+    }
+    const placement = {
+      boundary,
+      priority: form.priority ?? 0,
+      isDefault: !!form.isDefault,
+    };
+
     setSavingZone(true);
     try {
+      let zoneId: string;
       if (editingZone) {
         // Update existing zone
-        await updateDoc(doc(db, 'pricingZones', editingZone.id), {
+        zoneId = editingZone.id;
+        await updateDoc(doc(db, 'pricing_zones', editingZone.id), {
           name: editingZone.name,
           basePrice: editingZone.basePrice,
           perKmRate: editingZone.perKmRate,
           surgeMultiplier: editingZone.surgeMultiplier,
           demandLevel: editingZone.demandLevel,
+          ...placement,
         });
         toast.success('Zone updated successfully');
       } else {
         // Create new zone
-        await addDoc(collection(db, 'pricingZones'), {
+        const created = await addDoc(collection(db, 'pricing_zones'), {
           name: newZone.name,
           basePrice: newZone.basePrice,
           perKmRate: newZone.perKmRate,
           surgeMultiplier: newZone.surgeMultiplier,
           demandLevel: newZone.demandLevel || 'normal',
+          ...placement,
         });
+        zoneId = created.id;
         toast.success('Zone created successfully');
         setNewZone({
           name: '',
@@ -241,8 +352,19 @@ export default function SettingsPage() {
           perKmRate: 10,
           surgeMultiplier: 1.5,
           demandLevel: 'normal',
+          boundary: [],
+          priority: 0,
+          isDefault: false,
         });
       }
+      // Only one zone prices points outside every boundary
+      if (placement.isDefault) {
+        for (const zone of zones) {
+          if (zone.isDefault && zone.id !== zoneId) {
+            await updateDoc(doc(db, 'pricing_zones', zone.id), { isDefault: false });
+          }
+        }
+      }
       setZoneModalOpen(false);
       setEditingZone(null);
     } catch (error) {
@@ -255,7 +377,7 @@ export default function SettingsPage() {
 
   const handleDeleteZone = async (zoneId: string) => {
     try {
-      await deleteDoc(doc(db, 'pricingZones', zoneId));
+      await deleteDoc(doc(db, 'pricing_zones', zoneId));
       toast.success('Zone deleted');
       setDeleteConfirmZone(null);
     } catch (error) {
@@ -277,12 +399,26 @@ export default function SettingsPage() {
       perKmRate: 10,
       surgeMultiplier: 1.5,
       demandLevel: 'normal',
+      boundary: [],
+      priority: 0,
+      isDefault: false,
     });
     setZoneModalOpen(true);
   };
 
   // Current zone form data (edit or new)
   const zoneForm = editingZone || newZone;
+  const editingZoneId = editingZone?.id;
+  const otherZones = useMemo(
+    () => zones.filter((z) => z.id !== editingZoneId),
+    [zones, editingZoneId]
+  );
+  const overlapping =
+    (zoneForm.boundary?.length ?? 0) >= 3
+      ? otherZones.filter(
+          (z) => (z.boundary?.length ?? 0) >= 3 && boundariesOverlap(zoneForm.boundary!, z.boundary!)
+        )
+      : [];
   const setZoneForm = (updates: Partial<PricingZone>) => {
     if (editingZone) {
       setEditingZone({ ...editingZone, ...updates });
@@ -366,28 +502,29 @@ export default function SettingsPage() {
       {/* ================================================================== */}
       <SettingsSection
         title="Surge Pricing Thresholds"
-        description="Configure when demand levels trigger higher pricing"
+        description="Demand is set every minute from searching orders per online supplier in each zone"
         icon={<Zap className="w-5 h-5 text-blue-600" />}
       >
         <div className="space-y-4">
-          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
             <div>
               <Input
                 label="High Demand Threshold"
                 type="number"
-                min={1}
-                max={100}
-                value={settings.surgeThresholds.high}
+                min={0.1}
+                max={50}
+                step={0.1}
+                value={demandThresholds.high}
                 onChange={(e) =>
                   setSettings({
                     ...settings,
-                    surgeThresholds: {
-                      ...settings.surgeThresholds,
-                      high: parseInt(e.target.value, 10) || 0,
+                    demandThresholds: {
+                      ...demandThresholds,
+                      high: parseFloat(e.target.value) || 0,
                     },
                   })
                 }
-                hint="Orders/hour for High demand"
+                hint="Searching orders per online supplier"
                 size="md"
               />
             </div>
@@ -395,19 +532,20 @@ export default function SettingsPage() {
               <Input
                 label="Surge Threshold"
                 type="number"
-                min={1}
-                max={200}
-                value={settings.surgeThresholds.surge}
+                min={0.1}
+                max={50}
+                step={0.1}
+                value={demandThresholds.surge}
                 onChange={(e) =>
                   setSettings({
                     ...settings,
-                    surgeThresholds: {
-                      ...settings.surgeThresholds,
-                      surge: parseInt(e.target.value, 10) || 0,
+                    demandThresholds: {
+                      ...demandThresholds,
+                      surge: parseFloat(e.target.value) || 0,
                     },
                   })
                 }
-                hint="Orders/hour for Surge pricing"
+                hint="Searching orders per online supplier"
                 size="md"
               />
             </div>
@@ -424,6 +562,24 @@ export default function SettingsPage() {
                 size="md"
               />
             </div>
+            <div>
+              <Input
+                label="Surge Cap"
+                type="number"
+                min={1}
+                max={5}
+                step={0.1}
+                value={settings.maxSurgeMultiplier ?? DEFAULT_MAX_SURGE_MULTIPLIER}
+                onChange={(e) =>
+                  setSettings({
+                    ...settings,
+                    maxSurgeMultiplier: parseFloat(e.target.value) || 1,
+                  })
+                }
+                hint="Highest multiplier in any zone"
+                size="md"
+              />
+            </div>
           </div>
 
           {/* Visual indicator */}
@@ -434,26 +590,55 @@ export default function SettingsPage() {
                 <div className="h-2 bg-green-400 rounded-l-full" />
                 <p className="text-[10px] text-gray-500 mt-1 text-center">Normal</p>
                 <p className="text-[10px] text-gray-400 text-center">
-                  &lt; {settings.surgeThresholds.high} orders/hr
+                  &lt; {demandThresholds.high} per supplier
                 </p>
               </div>
               <div className="flex-1">
                 <div className="h-2 bg-amber-400" />
                 <p className="text-[10px] text-gray-500 mt-1 text-center">High</p>
                 <p className="text-[10px] text-gray-400 text-center">
-                  {settings.surgeThresholds.high} - {settings.surgeThresholds.surge} orders/hr
+                  {demandThresholds.high} - {demandThresholds.surge} per supplier
                 </p>
               </div>
               <div className="flex-1">
                 <div className="h-2 bg-red-400 rounded-r-full" />
                 <p className="text-[10px] text-gray-500 mt-1 text-center">Surge</p>
                 <p className="text-[10px] text-gray-400 text-center">
-                  &gt; {settings.surgeThresholds.surge} orders/hr ({surgeMultiplier}x)
+                  &ge; {demandThresholds.surge} per supplier ({surgeMultiplier}x, at
+                  most {settings.maxSurgeMultiplier ?? DEFAULT_MAX_SURGE_MULTIPLIER}x)
                 </p>
               </div>
             </div>
           </div>
 
+          {/* Audit log of automatic changes */}
+          <div>
+            <p className="text-xs font-medium text-gray-500 mb-2">Recent Demand Changes</p>
+            {demandChanges.length === 0 ? (
+              <p className="text-xs text-gray-400">No automatic changes yet.</p>
+            ) : (
+              <ul className="divide-y divide-gray-100 text-xs">
+                {demandChanges.map((change) => (
+                  <li key={change.id} className="flex items-center justify-between py-1.5">
+                    <span className="text-gray-700">
+                      {zones.find((z) => z.id === change.zoneId)?.name || change.zoneId}:{' '}
+                      {change.from} → <span className="font-medium">{change.to}</span>
+                    </span>
+                    <span className="text-gray-400">
+                      {change.ratio} per supplier ·{' '}
+                      {new Date(change.at).toLocaleString('en-IN', {
+                        day: 'numeric',
+                        month: 'short',
+                        hour: '2-digit',
+                        minute: '2-digit',
+                      })}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
           <div className="flex justify-end">
             <Button
               variant="primary"
@@ -528,6 +713,187 @@ export default function SettingsPage() {
         </div>
       </SettingsSection>
 
+      {/* ================================================================== */}
+      {/* Cancellation Policy                                                */}
+      {/* ================================================================== */}
+      <SettingsSection
+        title="Cancellation Policy"
+        description="Customer cancellation fees by order status. Cancelling is free while searching or accepted, and always free when the supplier or system cancels."
+        icon={<XCircle className="w-5 h-5 text-blue-600" />}
+      >
+        <div className="space-y-4">
+          {FEE_STATUSES.map(({ status, label }) => {
+            const rule = cancellationPolicy.customerFees[status] ?? { flat: 0, percent: 0 };
+            return (
+              <div key={status} className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <Input
+                  label={`${label}: Flat Fee (INR)`}
+                  type="number"
+                  min={0}
+                  value={rule.flat}
+                  onChange={(e) =>
+                    updateCancellationFee(status, {
+                      ...rule,
+                      flat: parseInt(e.target.value, 10) || 0,
+                    })
+                  }
+                  size="md"
+                />
+                <Input
+                  label={`${label}: Percent of Order (%)`}
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={rule.percent}
+                  onChange={(e) =>
+                    updateCancellationFee(status, {
+                      ...rule,
+                      percent: parseFloat(e.target.value) || 0,
+                    })
+                  }
+                  size="md"
+                />
+              </div>
+            );
+          })}
+          <div className="max-w-xs">
+            <Input
+              label="Supplier Compensation (% of fee)"
+              type="number"
+              min={0}
+              max={100}
+              value={cancellationPolicy.supplierCompensationPercent}
+              onChange={(e) =>
+                setSettings({
+                  ...settings,
+                  cancellationPolicy: {
+                    ...cancellationPolicy,
+                    supplierCompensationPercent: parseFloat(e.target.value) || 0,
+                  },
+                })
+              }
+              hint="Paid to the supplier for a wasted trip"
+              size="md"
+            />
+          </div>
+        </div>
+        <div className="flex justify-end mt-4">
+          <Button
+            variant="primary"
+            size="md"
+            leftIcon={<Save className="w-4 h-4" />}
+            loading={savingSettings}
+            onClick={handleSaveSettings}
+          >
+            Save
+          </Button>
+        </div>
+      </SettingsSection>
+
+      {/* ================================================================== */}
+      {/* Payout Schedule                                                    */}
+      {/* ================================================================== */}
+      <SettingsSection
+        title="Payout Schedule"
+        description="When supplier wallet balances are paid to their bank accounts, how much of each online earning is held back for disputes, and how much cash a supplier may hold."
+        icon={<Landmark className="w-5 h-5 text-blue-600" />}
+      >
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="flex flex-col gap-1.5">
+            <label htmlFor="payout-frequency" className="text-sm font-medium text-gray-700">
+              Frequency
+            </label>
+            <select
+              id="payout-frequency"
+              value={payoutPolicy.frequency}
+              onChange={(e) =>
+                updatePayoutPolicy({ frequency: e.target.value as PayoutPolicy['frequency'] })
+              }
+              className="w-full rounded-xl border border-gray-200 bg-white text-gray-900 text-base py-2.5 px-4 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all"
+            >
+              <option value="daily">Daily</option>
+              <option value="weekly">Weekly</option>
+            </select>
+          </div>
+          <div className="flex flex-col gap-1.5">
+            <label htmlFor="payout-weekday" className="text-sm font-medium text-gray-700">
+              Weekly Payout Day
+            </label>
+            <select
+              id="payout-weekday"
+              value={payoutPolicy.weekday}
+              disabled={payoutPolicy.frequency !== 'weekly'}
+              onChange={(e) => updatePayoutPolicy({ weekday: parseInt(e.target.value, 10) })}
+              className="w-full rounded-xl border border-gray-200 bg-white text-gray-900 text-base py-2.5 px-4 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all disabled:bg-gray-50 disabled:text-gray-400"
+            >
+              {['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'].map(
+                (day, i) => (
+                  <option key={day} value={i}>
+                    {day}
+                  </option>
+                )
+              )}
+            </select>
+          </div>
+          <Input
+            label="Minimum Payout (INR)"
+            type="number"
+            min={0}
+            value={payoutPolicy.minimumAmount}
+            onChange={(e) =>
+              updatePayoutPolicy({ minimumAmount: parseInt(e.target.value, 10) || 0 })
+            }
+            hint="Smaller balances carry over to the next payout"
+            size="md"
+          />
+          <Input
+            label="Cash Limit per Supplier (INR)"
+            type="number"
+            min={0}
+            value={cashLimit}
+            onChange={(e) =>
+              setSettings({ ...settings, cashLimit: parseInt(e.target.value, 10) || 0 })
+            }
+            hint="Unremitted cash commission above this is flagged for blocking"
+            size="md"
+          />
+          <div className="grid grid-cols-2 gap-4">
+            <Input
+              label="Dispute Reserve (%)"
+              type="number"
+              min={0}
+              max={100}
+              value={payoutPolicy.reservePercent}
+              onChange={(e) =>
+                updatePayoutPolicy({ reservePercent: parseFloat(e.target.value) || 0 })
+              }
+              size="md"
+            />
+            <Input
+              label="Hold (days)"
+              type="number"
+              min={0}
+              value={payoutPolicy.reserveDays}
+              onChange={(e) =>
+                updatePayoutPolicy({ reserveDays: parseInt(e.target.value, 10) || 0 })
+              }
+              size="md"
+            />
+          </div>
+        </div>
+        <div className="flex justify-end mt-4">
+          <Button
+            variant="primary"
+            size="md"
+            leftIcon={<Save className="w-4 h-4" />}
+            loading={savingSettings}
+            onClick={handleSaveSettings}
+          >
+            Save
+          </Button>
+        </div>
+      </SettingsSection>
+
       {/* ================================================================== */}
       {/* Platform Fee                                                       */}
       {/* ================================================================== */}
@@ -568,7 +934,7 @@ export default function SettingsPage() {
       {/* ================================================================== */}
       <SettingsSection
         title="Zone Pricing"
-        description="Manage base prices and per-km rates for different delivery zones"
+        description="Draw delivery zones on the map and set their base prices and per-km rates"
         icon={<MapPin className="w-5 h-5 text-blue-600" />}
       >
         <div className="space-y-4">
@@ -600,6 +966,9 @@ export default function SettingsPage() {
                     Tanker (base)
                   </th>
                   <th className="text-left px-4 py-3 font-medium text-gray-500">Per km</th>
+                  <th className="text-left px-4 py-3 font-medium text-gray-500 hidden md:table-cell">
+                    Area
+                  </th>
                   <th className="text-left px-4 py-3 font-medium text-gray-500 hidden lg:table-cell">
                     Demand
                   </th>
@@ -609,13 +978,13 @@ export default function SettingsPage() {
               <tbody className="divide-y divide-gray-100">
                 {zonesLoading ? (
                   <tr>
-                    <td colSpan={7} className="px-4 py-8 text-center text-gray-400">
+                    <td colSpan={8} className="px-4 py-8 text-center text-gray-400">
                       Loading zones...
                     </td>
                   </tr>
                 ) : zones.length === 0 ? (
                   <tr>
-                    <td colSpan={7} className="px-4 py-8 text-center text-gray-400">
+                    <td colSpan={8} className="px-4 py-8 text-center text-gray-400">
                       <MapPin className="w-6 h-6 mx-auto mb-2 text-gray-300" />
                       No zones configured. Add your first zone.
                     </td>
@@ -625,6 +994,11 @@ export default function SettingsPage() {
                     <tr key={zone.id} className="hover:bg-gray-50">
                       <td className="px-4 py-3 font-medium text-gray-900">
                         {zone.name}
+                        {zone.isDefault && (
+                          <span className="ml-2 text-xs font-medium px-2 py-0.5 rounded-full bg-blue-100 text-blue-700">
+                            Default
+                          </span>
+                        )}
                       </td>
                       <td className="px-4 py-3 text-gray-700 hidden sm:table-cell">
                         {formatCurrency(zone.basePrice.ro)}
@@ -638,6 +1012,18 @@ export default function SettingsPage() {
                       <td className="px-4 py-3 text-gray-700">
                         {formatCurrency(zone.perKmRate)}/km
                       </td>
+                      <td className="px-4 py-3 text-gray-700 hidden md:table-cell">
+                        {zone.boundary?.length ? (
+                          <>
+                            {boundaryAreaKm2(zone.boundary).toFixed(1)} km²
+                            {!!zone.priority && (
+                              <span className="text-xs text-gray-400"> · priority {zone.priority}</span>
+                            )}
+                          </>
+                        ) : (
+                          <span className="text-gray-400">No boundary</span>
+                        )}
+                      </td>
                       <td className="px-4 py-3 hidden lg:table-cell">
                         <span
                           className={cn(
@@ -703,6 +1089,51 @@ export default function SettingsPage() {
             size="md"
           />
 
+          {/* Boundary */}
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-2">Boundary</p>
+            <ZoneBoundaryMap
+              key={editingZoneId ?? 'new'}
+              value={zoneForm.boundary ?? []}
+              onChange={(boundary) => setZoneForm({ boundary })}
+              otherZones={otherZones}
+            />
+            {overlapping.length > 0 && (
+              <div className="flex items-start gap-2 mt-2 p-3 rounded-xl bg-amber-50 text-xs text-amber-700">
+                <AlertTriangle className="w-4 h-4 shrink-0" />
+                <p>
+                  Overlaps {overlapping.map((z) => `${z.name} (priority ${z.priority ?? 0})`).join(', ')}.
+                  Where zones overlap the higher priority prices the order; on a tie, the
+                  smaller zone does.
+                </p>
+              </div>
+            )}
+          </div>
+
+          {/* Priority & Default */}
+          <div className="grid grid-cols-2 gap-4 items-end">
+            <Input
+              label="Priority"
+              type="number"
+              step={1}
+              value={zoneForm.priority ?? 0}
+              onChange={(e) =>
+                setZoneForm({ priority: parseInt(e.target.value, 10) || 0 })
+              }
+              hint="Higher wins where zones overlap"
+              size="md"
+            />
+            <label className="flex items-center gap-2 min-h-[44px] text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={!!zoneForm.isDefault}
+                onChange={(e) => setZoneForm({ isDefault: e.target.checked })}
+                className="w-4 h-4 rounded border-gray-300"
+              />
+              Default zone (prices orders outside every boundary)
+            </label>
+          </div>
+
           {/* Base Prices */}
           <div>
             <p className="text-sm font-medium text-gray-700 mb-3">
@@ -5,10 +5,12 @@ export const dynamic = 'force-dynamic';
 // JalSeva - Supplier Management Page
 // =============================================================================
 // Full CRUD management for suppliers: table view with filters, search,
-// side-panel details, approve/reject with confirmation modal, document viewing.
+// side-panel details, per-document KYC review (approve, or reject with a
+// reason), document viewing, and the lab certificate review queue with the
+// accredited lab registry. Verification status follows from the documents.
 // =============================================================================
 
-import { useState, useEffect, useMemo } from 'react';
+import { useState, useEffect, useMemo, useCallback } from 'react';
 import Image from 'next/image';
 import {
   collection,
@@ -16,7 +18,6 @@ import {
   orderBy,
   onSnapshot,
   doc,
-  updateDoc,
   getDoc,
 } from 'firebase/firestore';
 import {
@@ -32,7 +33,11 @@ import {
   Eye,
   Users,
   AlertTriangle,
+  FlaskConical,
+  Plus,
+  Trash2,
 } from 'lucide-react';
+import { toast } from 'sonner';
 import { db } from '@/lib/firebase';
 import { cn } from '@/lib/utils';
 import { Card } from '@/components/ui/Card';
@@ -40,7 +45,15 @@ import { Badge } from '@/components/ui/Badge';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { Modal } from '@/components/ui/Modal';
-import type { Supplier, VerificationStatus, } from '@/types';
+import { KYC_DOCUMENTS, KYC_DOCUMENT_TYPES, type DocumentState, documentState } from '@/lib/kyc';
+import { useAuthStore } from '@/store/authStore';
+import type {
+  AccreditedLab,
+  KycDocumentType,
+  QualityReportRecord,
+  SpotCheckMismatch,
+  Supplier,
+} from '@/types';
 
 // =============================================================================
 // Types
@@ -53,6 +66,29 @@ interface SupplierWithUser extends Supplier {
   userPhone?: string;
 }
 
+const DOCUMENT_STATE_STYLES: Record<DocumentState, { label: string; className: string }> = {
+  missing: { label: 'Not uploaded', className: 'text-gray-400' },
+  pending: { label: 'Awaiting review', className: 'text-amber-600' },
+  approved: { label: 'Approved', className: 'text-green-600' },
+  rejected: { label: 'Rejected', className: 'text-red-600' },
+  expired: { label: 'Expired', className: 'text-red-600' },
+};
+
+function describeMismatch(mismatch: SpotCheckMismatch): string {
+  const parts = mismatch.params.map((param) =>
+    param === 'tds'
+      ? `TDS ${mismatch.tdsMedian} ppm vs lab ${mismatch.labTds}`
+      : `pH ${mismatch.phMedian} vs lab ${mismatch.labPh}`
+  );
+  return `Customer spot checks disagree with the lab report: ${parts.join(', ')} (median of ${mismatch.readings} readings)`;
+}
+
+/** /api/quality/reviews queue entry. */
+interface CertificateReviewItem {
+  report: QualityReportRecord;
+  lab: AccreditedLab | null;
+}
+
 // =============================================================================
 // Filter Tabs
 // =============================================================================
@@ -64,6 +100,304 @@ const FILTER_TABS: { key: FilterTab; label: string; count?: number }[] = [
   { key: 'rejected', label: 'Rejected' },
 ];
 
+// =============================================================================
+// Certificate Review Queue
+// =============================================================================
+
+function CertificateReviewQueue({
+  suppliers,
+  adminId,
+}: {
+  suppliers: SupplierWithUser[];
+  adminId?: string;
+}) {
+  const [queue, setQueue] = useState<CertificateReviewItem[]>([]);
+  const [labs, setLabs] = useState<AccreditedLab[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyReportId, setBusyReportId] = useState<string | null>(null);
+  const [rejecting, setRejecting] = useState<CertificateReviewItem | null>(null);
+  const [rejectNote, setRejectNote] = useState('');
+  const [labName, setLabName] = useState('');
+  const [labAccreditationNo, setLabAccreditationNo] = useState('');
+  const [addingLab, setAddingLab] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const [queueRes, labsRes] = await Promise.all([
+        fetch('/api/quality/reviews'),
+        fetch('/api/quality/labs'),
+      ]);
+      const [queueData, labsData] = await Promise.all([queueRes.json(), labsRes.json()]);
+      if (!queueRes.ok) throw new Error(queueData.error || 'Failed to load the review queue');
+      if (!labsRes.ok) throw new Error(labsData.error || 'Failed to load labs');
+      setQueue(queueData.queue);
+      setLabs(labsData.labs);
+    } catch (error) {
+      console.error('Error loading certificate reviews:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const supplierName = (supplierId: string) =>
+    suppliers.find((s) => s.id === supplierId)?.userName || supplierId;
+
+  const review = async (item: CertificateReviewItem, decision: 'verified' | 'rejected', note?: string) => {
+    if (!adminId) return;
+    setBusyReportId(item.report.id);
+    try {
+      const res = await fetch(`/api/quality/reviews/${item.report.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ adminId, decision, note }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Review failed');
+      setQueue((prev) => prev.filter((q) => q.report.id !== item.report.id));
+      toast.success(decision === 'verified' ? 'Certificate verified' : 'Certificate rejected');
+      setRejecting(null);
+      setRejectNote('');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Review failed');
+    } finally {
+      setBusyReportId(null);
+    }
+  };
+
+  const addLab = async () => {
+    if (!adminId || !labName.trim()) return;
+    setAddingLab(true);
+    try {
+      const res = await fetch('/api/quality/labs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ adminId, name: labName, accreditationNo: labAccreditationNo }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to add lab');
+      setLabName('');
+      setLabAccreditationNo('');
+      await load();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to add lab');
+    } finally {
+      setAddingLab(false);
+    }
+  };
+
+  const removeLab = async (lab: AccreditedLab) => {
+    try {
+      const res = await fetch(`/api/quality/labs/${lab.id}`, { method: 'DELETE' });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to remove lab');
+      await load();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to remove lab');
+    }
+  };
+
+  return (
+    <Card padding="md">
+      <div className="flex items-center gap-2 mb-1">
+        <FlaskConical className="w-5 h-5 text-blue-600" />
+        <h2 className="text-lg font-semibold text-gray-900">Lab Certificates to Review</h2>
+        <span className="ml-auto bg-amber-50 text-amber-700 px-2.5 py-1 rounded-lg text-xs font-medium">
+          {queue.length} Pending
+        </span>
+      </div>
+      <p className="text-sm text-gray-500 mb-4">
+        Reports earn FSSAI and freshness points only once their certificate is verified.
+        Certificates can only be verified for labs on the accredited registry below.
+      </p>
+
+      {loading ? (
+        <p className="text-sm text-gray-400 py-4 text-center">Loading certificates...</p>
+      ) : queue.length === 0 ? (
+        <p className="text-sm text-gray-400 py-4 text-center">No certificates waiting for review</p>
+      ) : (
+        <div className="divide-y divide-gray-100">
+          {queue.map((item) => {
+            const { report, lab } = item;
+            return (
+              <div
+                key={report.id}
+                className="py-3 flex flex-col sm:flex-row sm:items-center gap-3"
+              >
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-gray-900">{supplierName(report.supplierId)}</p>
+                  <p className="text-xs text-gray-500">
+                    {report.labName} · pH {report.ph} · TDS {report.tds} ppm · tested{' '}
+                    {new Date(report.testedAt).toLocaleDateString('en-IN')}
+                    {report.fssaiCompliant && ' · claims FSSAI compliance'}
+                  </p>
+                  <p
+                    className={cn(
+                      'text-xs font-medium mt-0.5',
+                      lab ? 'text-green-600' : 'text-red-600'
+                    )}
+                  >
+                    {lab
+                      ? `Accredited lab${lab.accreditationNo ? ` (${lab.accreditationNo})` : ''}`
+                      : 'Lab is not on the accredited registry'}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  {report.certificatePath ? (
+                    <a
+                      href={`/api/quality/reviews/${report.id}/certificate`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-xs text-blue-600 hover:text-blue-700 font-medium flex items-center gap-1"
+                    >
+                      <Eye className="w-3.5 h-3.5" />
+                      Certificate
+                    </a>
+                  ) : report.certificateUrl ? (
+                    <a
+                      href={report.certificateUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-xs text-blue-600 hover:text-blue-700 font-medium flex items-center gap-1"
+                    >
+                      <Eye className="w-3.5 h-3.5" />
+                      Certificate link
+                    </a>
+                  ) : (
+                    <span className="text-xs text-gray-400">No certificate</span>
+                  )}
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    leftIcon={<CheckCircle className="w-4 h-4" />}
+                    disabled={!lab || !(report.certificatePath || report.certificateUrl)}
+                    loading={busyReportId === report.id}
+                    onClick={() => review(item, 'verified')}
+                  >
+                    Verify
+                  </Button>
+                  <Button
+                    variant="danger"
+                    size="sm"
+                    leftIcon={<XCircle className="w-4 h-4" />}
+                    disabled={busyReportId === report.id}
+                    onClick={() => setRejecting(item)}
+                  >
+                    Reject
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Accredited lab registry */}
+      <div className="border-t border-gray-100 mt-4 pt-4">
+        <h3 className="text-sm font-semibold text-gray-900 mb-3">Accredited Labs</h3>
+        <div className="flex flex-wrap gap-2 mb-3">
+          {labs.length === 0 ? (
+            <span className="text-xs text-gray-400">No labs on the registry yet</span>
+          ) : (
+            labs.map((lab) => (
+              <span
+                key={lab.id}
+                className="inline-flex items-center gap-1.5 bg-gray-50 border border-gray-200 rounded-lg pl-3 pr-1 py-1 text-xs text-gray-700"
+              >
+                {lab.name}
+                {lab.accreditationNo && <span className="text-gray-400">{lab.accreditationNo}</span>}
+                <button
+                  onClick={() => removeLab(lab)}
+                  className="p-1 rounded text-gray-400 hover:text-red-600 hover:bg-red-50"
+                  title="Remove from registry"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </span>
+            ))
+          )}
+        </div>
+        <div className="flex flex-col sm:flex-row gap-2">
+          <div className="flex-1">
+            <Input
+              placeholder="Lab name as printed on certificates"
+              value={labName}
+              onChange={(e) => setLabName(e.target.value)}
+              size="sm"
+            />
+          </div>
+          <div className="sm:w-48">
+            <Input
+              placeholder="Accreditation no."
+              value={labAccreditationNo}
+              onChange={(e) => setLabAccreditationNo(e.target.value)}
+              size="sm"
+            />
+          </div>
+          <Button
+            variant="primary"
+            size="sm"
+            leftIcon={<Plus className="w-4 h-4" />}
+            loading={addingLab}
+            disabled={!labName.trim()}
+            onClick={addLab}
+          >
+            Add Lab
+          </Button>
+        </div>
+      </div>
+
+      {/* Reject reason */}
+      <Modal
+        isOpen={!!rejecting}
+        onClose={() => {
+          setRejecting(null);
+          setRejectNote('');
+        }}
+        title="Reject Certificate"
+        size="sm"
+      >
+        <div className="space-y-4">
+          <p className="text-sm text-gray-700">
+            The report keeps earning no FSSAI or freshness points. Tell the supplier why so they
+            can submit a new report.
+          </p>
+          <Input
+            placeholder="e.g. Certificate is for a different sample date"
+            value={rejectNote}
+            onChange={(e) => setRejectNote(e.target.value)}
+            size="md"
+          />
+          <div className="flex gap-3">
+            <Button
+              variant="ghost"
+              fullWidth
+              onClick={() => {
+                setRejecting(null);
+                setRejectNote('');
+              }}
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="danger"
+              fullWidth
+              disabled={!rejectNote.trim()}
+              loading={!!rejecting && busyReportId === rejecting.report.id}
+              onClick={() => rejecting && review(rejecting, 'rejected', rejectNote)}
+            >
+              Reject
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </Card>
+  );
+}
+
 // =============================================================================
 // Supplier Management Component
 // =============================================================================
@@ -79,13 +413,19 @@ export default function SuppliersPage() {
   const [selectedSupplier, setSelectedSupplier] = useState<SupplierWithUser | null>(null);
   const [sidePanelOpen, setSidePanelOpen] = useState(false);
 
-  // Confirmation modal
-  const [confirmAction, setConfirmAction] = useState<'approve' | 'reject' | null>(null);
-  const [confirmSupplierId, setConfirmSupplierId] = useState<string | null>(null);
-  const [actionLoading, setActionLoading] = useState(false);
+  // Document review
+  const [reviewingType, setReviewingType] = useState<KycDocumentType | null>(null);
+  const [rejectingType, setRejectingType] = useState<KycDocumentType | null>(null);
+  const [rejectReason, setRejectReason] = useState('');
 
   // Document preview
-  const [previewDoc, setPreviewDoc] = useState<{ name: string; url: string } | null>(null);
+  const [previewDoc, setPreviewDoc] = useState<{
+    name: string;
+    url: string;
+    contentType?: string;
+  } | null>(null);
+
+  const user = useAuthStore((s) => s.user);
 
   // --------------------------------------------------------------------------
   // Firestore listener
@@ -113,6 +453,7 @@ export default function SuppliersPage() {
           waterTypes: data.waterTypes || [],
           rating: data.rating || { average: 0, count: 0 },
           bankDetails: data.bankDetails || undefined,
+          spotChecks: data.spotChecks || undefined,
           supportsSubscription: data.supportsSubscription ?? false,
           userName: data.userName || data.name || '',
           userPhone: data.userPhone || data.phone || '',
@@ -183,36 +524,44 @@ export default function SuppliersPage() {
   // --------------------------------------------------------------------------
   // Actions
   // --------------------------------------------------------------------------
-  const handleApproveReject = (supplierId: string, action: 'approve' | 'reject') => {
-    setConfirmSupplierId(supplierId);
-    setConfirmAction(action);
-  };
-
-  const executeAction = async () => {
-    if (!confirmSupplierId || !confirmAction) return;
-    setActionLoading(true);
-
+  const reviewDocument = async (
+    supplier: SupplierWithUser,
+    type: KycDocumentType,
+    decision: 'approved' | 'rejected',
+    reason?: string
+  ) => {
+    if (!user?.id) return;
+    setReviewingType(type);
     try {
-      const newStatus: VerificationStatus =
-        confirmAction === 'approve' ? 'verified' : 'rejected';
-
-      await updateDoc(doc(db, 'suppliers', confirmSupplierId), {
-        verificationStatus: newStatus,
+      const res = await fetch(`/api/suppliers/${supplier.id}/documents/${type}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ adminId: user.id, decision, reason }),
       });
-
-      // Update local selected supplier if it's the same
-      if (selectedSupplier?.id === confirmSupplierId) {
-        setSelectedSupplier({
-          ...selectedSupplier,
-          verificationStatus: newStatus,
-        });
-      }
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Review failed');
+      const updated: Supplier = data.supplier;
+      setSelectedSupplier((prev) =>
+        prev?.id === supplier.id
+          ? {
+              ...prev,
+              documents: updated.documents,
+              verificationStatus: updated.verificationStatus,
+              isOnline: updated.isOnline,
+            }
+          : prev
+      );
+      toast.success(
+        decision === 'approved'
+          ? `${KYC_DOCUMENTS[type].label} approved`
+          : `${KYC_DOCUMENTS[type].label} rejected`
+      );
+      setRejectingType(null);
+      setRejectReason('');
     } catch (error) {
-      console.error('Error updating supplier status:', error);
+      toast.error(error instanceof Error ? error.message : 'Review failed');
     } finally {
-      setActionLoading(false);
-      setConfirmAction(null);
-      setConfirmSupplierId(null);
+      setReviewingType(null);
     }
   };
 
@@ -222,17 +571,18 @@ export default function SuppliersPage() {
   };
 
   // --------------------------------------------------------------------------
-  // Document list helper
+  // Document file links
   // --------------------------------------------------------------------------
-  const getDocumentList = (supplier: SupplierWithUser) => {
-    const docs: { name: string; key: string; info: { url: string; verified: boolean; uploadedAt?: Date } | undefined }[] = [
-      { name: 'Aadhaar Card', key: 'aadhaar', info: supplier.documents?.aadhaar },
-      { name: 'Vehicle RC', key: 'vehicleRC', info: supplier.documents?.vehicleRC },
-      { name: 'Driving License', key: 'license', info: supplier.documents?.license },
-      { name: 'FSSAI License', key: 'fssai', info: supplier.documents?.fssai },
-      { name: 'Water Quality Report', key: 'waterQuality', info: supplier.documents?.waterQuality },
-    ];
-    return docs;
+  const documentFiles = (supplier: SupplierWithUser, type: KycDocumentType) => {
+    const info = supplier.documents?.[type];
+    if (!info) return [];
+    if (!info.storagePaths?.length) {
+      return info.url ? [{ url: info.url, contentType: undefined }] : [];
+    }
+    return info.storagePaths.map((_, i) => ({
+      url: `/api/suppliers/${supplier.id}/documents/${type}/${i}`,
+      contentType: info.contentTypes?.[i],
+    }));
   };
 
   // --------------------------------------------------------------------------
@@ -379,6 +729,11 @@ export default function SuppliersPage() {
                         <span className="text-xs text-gray-400">
                           ({supplier.rating.count})
                         </span>
+                        {supplier.spotChecks?.mismatch && (
+                          <span title="Customer readings disagree with the lab report">
+                            <AlertTriangle className="w-3.5 h-3.5 text-amber-500" />
+                          </span>
+                        )}
                       </div>
                     </td>
                     <td className="px-4 py-3 hidden lg:table-cell">
@@ -399,24 +754,6 @@ export default function SuppliersPage() {
                     </td>
                     <td className="px-4 py-3 text-right">
                       <div className="flex items-center justify-end gap-1" onClick={(e) => e.stopPropagation()}>
-                        {supplier.verificationStatus === 'pending' && (
-                          <>
-                            <button
-                              onClick={() => handleApproveReject(supplier.id, 'approve')}
-                              className="min-w-[44px] min-h-[44px] flex items-center justify-center rounded-lg text-green-600 hover:bg-green-50 transition-colors focus:outline-none focus:ring-2 focus:ring-green-500"
-                              title="Approve"
-                            >
-                              <CheckCircle className="w-4 h-4" />
-                            </button>
-                            <button
-                              onClick={() => handleApproveReject(supplier.id, 'reject')}
-                              className="min-w-[44px] min-h-[44px] flex items-center justify-center rounded-lg text-red-600 hover:bg-red-50 transition-colors focus:outline-none focus:ring-2 focus:ring-red-500"
-                              title="Reject"
-                            >
-                              <XCircle className="w-4 h-4" />
-                            </button>
-                          </>
-                        )}
                         <button
                           onClick={() => openDetails(supplier)}
                           className="min-w-[44px] min-h-[44px] flex items-center justify-center rounded-lg text-gray-500 hover:bg-gray-100 transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500"
@@ -434,6 +771,11 @@ export default function SuppliersPage() {
         </div>
       </Card>
 
+      {/* ================================================================== */}
+      {/* Lab Certificate Reviews                                            */}
+      {/* ================================================================== */}
+      <CertificateReviewQueue suppliers={suppliers} adminId={user?.id} />
+
       {/* ================================================================== */}
       {/* Side Panel - Supplier Details                                      */}
       {/* ================================================================== */}
@@ -494,6 +836,14 @@ export default function SuppliersPage() {
                     {selectedSupplier.rating.average.toFixed(1)} rating ({selectedSupplier.rating.count} reviews)
                   </span>
                 </div>
+                {selectedSupplier.spotChecks?.mismatch && (
+                  <div className="flex items-start gap-3">
+                    <AlertTriangle className="w-4 h-4 text-amber-500 shrink-0 mt-0.5" />
+                    <span className="text-sm text-amber-700">
+                      {describeMismatch(selectedSupplier.spotChecks.mismatch)}
+                    </span>
+                  </div>
+                )}
               </div>
 
               {/* Vehicle Info */}
@@ -537,47 +887,94 @@ export default function SuppliersPage() {
               <div>
                 <h5 className="text-sm font-semibold text-gray-900 mb-3">Documents</h5>
                 <div className="space-y-2">
-                  {getDocumentList(selectedSupplier).map((docItem) => (
-                    <div
-                      key={docItem.key}
-                      className={cn(
-                        'flex items-center justify-between p-3 rounded-xl border',
-                        docItem.info
-                          ? 'bg-white border-gray-200'
-                          : 'bg-gray-50 border-gray-100'
-                      )}
-                    >
-                      <div className="flex items-center gap-3">
-                        <FileText
-                          className={cn(
-                            'w-4 h-4',
-                            docItem.info ? 'text-blue-500' : 'text-gray-300'
-                          )}
-                        />
-                        <div>
-                          <p className="text-sm font-medium text-gray-700">
-                            {docItem.name}
-                          </p>
-                          {docItem.info?.verified && (
-                            <p className="text-xs text-green-600">Verified</p>
-                          )}
+                  {KYC_DOCUMENT_TYPES.map((type) => {
+                    const spec = KYC_DOCUMENTS[type];
+                    const info = selectedSupplier.documents?.[type];
+                    const state = documentState(info);
+                    const files = documentFiles(selectedSupplier, type);
+                    return (
+                      <div
+                        key={type}
+                        className={cn(
+                          'p-3 rounded-xl border',
+                          info ? 'bg-white border-gray-200' : 'bg-gray-50 border-gray-100'
+                        )}
+                      >
+                        <div className="flex items-center justify-between">
+                          <div className="flex items-center gap-3">
+                            <FileText
+                              className={cn('w-4 h-4', info ? 'text-blue-500' : 'text-gray-300')}
+                            />
+                            <div>
+                              <p className="text-sm font-medium text-gray-700">
+                                {spec.label}
+                                {!spec.required && (
+                                  <span className="ml-1 text-xs font-normal text-gray-400">
+                                    (optional)
+                                  </span>
+                                )}
+                              </p>
+                              <p className={cn('text-xs', DOCUMENT_STATE_STYLES[state].className)}>
+                                {DOCUMENT_STATE_STYLES[state].label}
+                              </p>
+                            </div>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            {files.map((file, i) => (
+                              <button
+                                key={file.url}
+                                onClick={() =>
+                                  setPreviewDoc({
+                                    name: files.length > 1 ? `${spec.label} (${i === 0 ? 'Front' : 'Back'})` : spec.label,
+                                    url: file.url,
+                                    contentType: file.contentType,
+                                  })
+                                }
+                                className="text-xs text-blue-600 hover:text-blue-700 font-medium flex items-center gap-1"
+                              >
+                                <Eye className="w-3.5 h-3.5" />
+                                {files.length > 1 ? (i === 0 ? 'Front' : 'Back') : 'View'}
+                              </button>
+                            ))}
+                          </div>
                         </div>
+                        {info && (info.maskedNumber || info.expiresAt || info.rejectionReason) && (
+                          <div className="mt-2 pl-7 space-y-0.5 text-xs text-gray-500">
+                            {info.maskedNumber && <p className="font-mono">{info.maskedNumber}</p>}
+                            {info.expiresAt && (
+                              <p>Expires {new Date(info.expiresAt).toLocaleDateString('en-IN')}</p>
+                            )}
+                            {state === 'rejected' && info.rejectionReason && (
+                              <p className="text-red-600">Reason: {info.rejectionReason}</p>
+                            )}
+                          </div>
+                        )}
+                        {state === 'pending' && (
+                          <div className="flex gap-2 mt-3 pl-7">
+                            <Button
+                              variant="secondary"
+                              size="sm"
+                              leftIcon={<CheckCircle className="w-4 h-4" />}
+                              loading={reviewingType === type && !rejectingType}
+                              disabled={!!reviewingType}
+                              onClick={() => reviewDocument(selectedSupplier, type, 'approved')}
+                            >
+                              Approve
+                            </Button>
+                            <Button
+                              variant="danger"
+                              size="sm"
+                              leftIcon={<XCircle className="w-4 h-4" />}
+                              disabled={!!reviewingType}
+                              onClick={() => setRejectingType(type)}
+                            >
+                              Reject
+                            </Button>
+                          </div>
+                        )}
                       </div>
-                      {docItem.info?.url ? (
-                        <button
-                          onClick={() =>
-                            setPreviewDoc({ name: docItem.name, url: docItem.info!.url })
-                          }
-                          className="text-xs text-blue-600 hover:text-blue-700 font-medium flex items-center gap-1"
-                        >
-                          <Eye className="w-3.5 h-3.5" />
-                          View
-                        </button>
-                      ) : (
-                        <span className="text-xs text-gray-400">Not uploaded</span>
-                      )}
-                    </div>
-                  ))}
+                    );
+                  })}
                 </div>
               </div>
 
@@ -608,88 +1005,60 @@ export default function SuppliersPage() {
                 </div>
               )}
 
-              {/* Action Buttons */}
-              {selectedSupplier.verificationStatus === 'pending' && (
-                <div className="flex gap-3 pt-2">
-                  <Button
-                    variant="secondary"
-                    fullWidth
-                    leftIcon={<CheckCircle className="w-4 h-4" />}
-                    onClick={() => handleApproveReject(selectedSupplier.id, 'approve')}
-                  >
-                    Approve Supplier
-                  </Button>
-                  <Button
-                    variant="danger"
-                    fullWidth
-                    leftIcon={<XCircle className="w-4 h-4" />}
-                    onClick={() => handleApproveReject(selectedSupplier.id, 'reject')}
-                  >
-                    Reject
-                  </Button>
-                </div>
-              )}
-
-              {selectedSupplier.verificationStatus === 'rejected' && (
-                <div className="pt-2">
-                  <Button
-                    variant="secondary"
-                    fullWidth
-                    leftIcon={<CheckCircle className="w-4 h-4" />}
-                    onClick={() => handleApproveReject(selectedSupplier.id, 'approve')}
-                  >
-                    Re-approve Supplier
-                  </Button>
-                </div>
-              )}
             </div>
           </div>
         </div>
       )}
 
       {/* ================================================================== */}
-      {/* Confirmation Modal                                                 */}
+      {/* Document Rejection Modal                                           */}
       {/* ================================================================== */}
       <Modal
-        isOpen={!!confirmAction}
+        isOpen={!!rejectingType}
         onClose={() => {
-          setConfirmAction(null);
-          setConfirmSupplierId(null);
+          setRejectingType(null);
+          setRejectReason('');
         }}
-        title={confirmAction === 'approve' ? 'Approve Supplier' : 'Reject Supplier'}
+        title={rejectingType ? `Reject ${KYC_DOCUMENTS[rejectingType].label}` : 'Reject Document'}
         size="sm"
       >
         <div className="space-y-4">
           <div className="flex items-center gap-3 p-4 rounded-xl bg-gray-50">
-            {confirmAction === 'approve' ? (
-              <CheckCircle className="w-8 h-8 text-green-500 shrink-0" />
-            ) : (
-              <AlertTriangle className="w-8 h-8 text-red-500 shrink-0" />
-            )}
+            <AlertTriangle className="w-8 h-8 text-red-500 shrink-0" />
             <p className="text-sm text-gray-700">
-              {confirmAction === 'approve'
-                ? 'This will verify the supplier and allow them to accept orders on the platform. Please ensure all documents have been reviewed.'
-                : 'This will reject the supplier application. The supplier will be notified and can re-apply after addressing issues.'}
+              The supplier sees this reason and must upload the document again. Rejecting a
+              required document takes the supplier offline.
             </p>
           </div>
+          <Input
+            placeholder="e.g. Photo is blurred, number not readable"
+            value={rejectReason}
+            onChange={(e) => setRejectReason(e.target.value)}
+            size="md"
+          />
           <div className="flex gap-3">
             <Button
               variant="ghost"
               fullWidth
               onClick={() => {
-                setConfirmAction(null);
-                setConfirmSupplierId(null);
+                setRejectingType(null);
+                setRejectReason('');
               }}
             >
               Cancel
             </Button>
             <Button
-              variant={confirmAction === 'approve' ? 'secondary' : 'danger'}
+              variant="danger"
               fullWidth
-              loading={actionLoading}
-              onClick={executeAction}
+              disabled={!rejectReason.trim()}
+              loading={!!rejectingType && reviewingType === rejectingType}
+              onClick={() =>
+                selectedSupplier &&
+                rejectingType &&
+                reviewDocument(selectedSupplier, rejectingType, 'rejected', rejectReason)
+              }
             >
-              {confirmAction === 'approve' ? 'Approve' : 'Reject'}
+              Reject
             </Button>
           </div>
         </div>
@@ -707,7 +1076,8 @@ export default function SuppliersPage() {
         {previewDoc && (
           <div className="space-y-4">
             <div className="bg-gray-100 rounded-xl p-2 min-h-[300px] flex items-center justify-center">
-              {previewDoc.url.match(/\.(jpg|jpeg|png|gif|webp)$/i) ? (
+              {previewDoc.contentType?.startsWith('image/') ||
+              previewDoc.url.match(/\.(jpg|jpeg|png|gif|webp)$/i) ? (
                 <Image
                   src={previewDoc.url}
                   alt={previewDoc.name}
@@ -716,7 +1086,7 @@ export default function SuppliersPage() {
                   className="max-w-full max-h-[400px] rounded-lg object-contain"
                   unoptimized
                 />
-              ) : previewDoc.url.match(/\.pdf$/i) ? (
+              ) : previewDoc.contentType === 'application/pdf' || previewDoc.url.match(/\.pdf$/i) ? (
                 <iframe
                   src={previewDoc.url}
                   className="w-full h-[400px] rounded-lg"
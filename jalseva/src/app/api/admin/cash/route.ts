@@ -0,0 +1,100 @@
+// =============================================================================
+// JalSeva API - Admin Cash Reconciliation
+// =============================================================================
+// GET  /api/admin/cash
+//   → { limit, positions } suppliers holding unremitted cash commission
+// POST /api/admin/cash
+//   { adminId, supplierId, action: 'block' | 'unblock' }
+//   { adminId, supplierId, action: 'remit', amount, note? }
+//   → { success, position }
+//
+// Only admins (by the `users/{adminId}` record) can block, unblock or record
+// remittances.
+// =============================================================================
+
+import { type NextRequest, NextResponse } from 'next/server';
+import { isAdmin } from '@/lib/auth/server';
+import {
+  type CashResult,
+  listCashPositions,
+  recordCashRemittance,
+  setCashBlocked,
+} from '@/lib/cash/server';
+
+// ---------------------------------------------------------------------------
+// GET - Outstanding cash by supplier
+// ---------------------------------------------------------------------------
+
+export async function GET(_request: NextRequest) {
+  try {
+    return NextResponse.json(await listCashPositions());
+  } catch (error) {
+    console.error('[GET /api/admin/cash] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error while loading cash balances.' },
+      { status: 500 }
+    );
+  }
+}
+
+// ---------------------------------------------------------------------------
+// POST - Block, unblock or record a remittance
+// ---------------------------------------------------------------------------
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    const { supplierId, action, amount, note, adminId } = (body ?? {}) as {
+      supplierId?: string;
+      action?: string;
+      amount?: number;
+      note?: string;
+      adminId?: string;
+    };
+
+    if (!supplierId || !action || !adminId) {
+      return NextResponse.json(
+        { error: 'Missing required fields: supplierId, action, adminId' },
+        { status: 400 }
+      );
+    }
+    if (!(await isAdmin(adminId))) {
+      return NextResponse.json(
+        { error: 'Unauthorized. Admin access required.' },
+        { status: 403 }
+      );
+    }
+
+    let result: CashResult;
+    if (action === 'block' || action === 'unblock') {
+      result = await setCashBlocked(supplierId, action === 'block');
+    } else if (action === 'remit') {
+      if (typeof amount !== 'number') {
+        return NextResponse.json(
+          { error: 'amount is required to record a remittance.' },
+          { status: 400 }
+        );
+      }
+      result = await recordCashRemittance(supplierId, amount, {
+        recordedBy: adminId,
+        note,
+      });
+    } else {
+      return NextResponse.json(
+        { error: `Unknown action '${action}'.` },
+        { status: 400 }
+      );
+    }
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    return NextResponse.json({ success: true, position: result.position });
+  } catch (error) {
+    console.error('[POST /api/admin/cash] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error while updating cash balance.' },
+      { status: 500 }
+    );
+  }
+}
@@ -11,7 +11,14 @@ import { type NextRequest, NextResponse } from 'next/server';
 import { adminDb } from '@/lib/firebase-admin';
 import { firestoreBreaker } from '@/lib/circuit-breaker';
 import { batchWriter } from '@/lib/batch-writer';
-import type { GeoLocation, WaterType, PaymentMethod, OrderPrice } from '@/types';
+import { toBecknQuote } from '@/lib/pricing';
+import { quoteOrder } from '@/lib/pricing/server';
+import {
+  applyOrderPatch,
+  planTransition,
+  recordOrderEvent,
+} from '@/lib/order-lifecycle';
+import type { GeoLocation, WaterType, PaymentMethod } from '@/types';
 
 // ---------------------------------------------------------------------------
 // Simulated Beckn Context Builder
@@ -93,33 +100,18 @@ export async function POST(request: NextRequest) {
       if (itemCode.includes('ro')) waterType = 'ro';
       else if (itemCode.includes('mineral')) waterType = 'mineral';
 
-      const qty = parseInt(items[0].quantity?.count || '1', 10);
+      const qty = parseInt(
+        items[0].quantity?.selected?.count || items[0].quantity?.count || '1',
+        10
+      );
       quantityLitres = qty > 0 ? qty * 500 : 500;
     }
 
     // Extract supplier ID
     const supplierId = provider.id || null;
 
-    // --- Calculate price ---
-    const basePrice = waterType === 'ro' ? 150 : waterType === 'mineral' ? 200 : 500;
-    const price: OrderPrice = {
-      base: basePrice,
-      distance: 0,
-      surge: 0,
-      total: basePrice,
-      commission: Math.round(basePrice * 0.15),
-      supplierEarning: Math.round(basePrice * 0.85),
-    };
-
-    // If items have a quoted price, use it
-    if (orderRequest.quote?.price?.value) {
-      const quotedPrice = parseFloat(orderRequest.quote.price.value);
-      if (!Number.isNaN(quotedPrice) && quotedPrice > 0) {
-        price.total = Math.round(quotedPrice);
-        price.commission = Math.round(quotedPrice * 0.15);
-        price.supplierEarning = Math.round(quotedPrice * 0.85);
-      }
-    }
+    // --- Calculate price (shared engine; BAP-quoted values are ignored) ---
+    const { price } = await quoteOrder({ waterType, quantityLitres }, gps ? deliveryLocation : undefined);
 
     // --- Create or find customer ---
     const customerPhone = billing.phone || '';
@@ -189,7 +181,7 @@ export async function POST(request: NextRequest) {
         waterType,
         quantityLitres,
         price,
-        status: supplierId ? 'accepted' : 'searching',
+        status: 'searching' as const,
         deliveryLocation,
         payment: {
           method: 'upi' as PaymentMethod,
@@ -204,10 +196,29 @@ export async function POST(request: NextRequest) {
         },
         simulated: true,
         createdAt: now,
-        acceptedAt: supplierId ? now : null,
       };
 
-      batchWriter.set('orders', orderId, jalsevaOrder as unknown as Record<string, unknown>);
+      // A pre-selected provider accepts at creation time: apply the
+      // searching → accepted transition through the lifecycle so the order
+      // is stamped and audited like any other acceptance.
+      let orderDoc: Record<string, unknown> = jalsevaOrder;
+      if (supplierId) {
+        const plan = planTransition({ id: orderId, status: 'searching' }, 'accepted', {
+          actor: { id: supplierId, role: 'supplier' },
+          patch: { supplierId },
+          metadata: { source: 'beckn', transactionId: transaction_id },
+        });
+        if (plan.success) {
+          orderDoc = applyOrderPatch(jalsevaOrder, {
+            ...plan.patch,
+            updatedAt: now,
+            acceptedAt: now,
+          });
+          recordOrderEvent(plan.event);
+        }
+      }
+
+      batchWriter.set('orders', orderId, orderDoc);
     } catch (orderError) {
       console.warn('[Beckn Sim] Firestore order creation failed, using sim ID:', orderError);
       orderId = `sim_order_${Date.now()}`;
@@ -265,26 +276,7 @@ export async function POST(request: NextRequest) {
             },
             tracking: true,
           },
-          quote: {
-            price: {
-              currency: 'INR',
-              value: price.total.toString(),
-            },
-            breakup: [
-              {
-                title: 'Base Price',
-                price: { currency: 'INR', value: price.base.toString() },
-              },
-              {
-                title: 'Distance Charge',
-                price: { currency: 'INR', value: price.distance.toString() },
-              },
-              {
-                title: 'Surge',
-                price: { currency: 'INR', value: price.surge.toString() },
-              },
-            ],
-          },
+          quote: toBecknQuote(price),
           payment: {
             type: 'POST-FULFILLMENT',
             status: 'NOT-PAID',
@@ -7,6 +7,9 @@
 // =============================================================================
 
 import { type NextRequest, NextResponse } from 'next/server';
+import { toBecknQuote } from '@/lib/pricing';
+import { quoteOrder } from '@/lib/pricing/server';
+import type { WaterType, ZoneVertex } from '@/types';
 
 function buildBecknContext(
   action: string,
@@ -33,6 +36,41 @@ interface BecknItem {
   id?: string;
   descriptor?: { name?: string; code?: string };
   price?: { value?: string; currency?: string };
+  quantity?: { count?: string; selected?: { count?: string } };
+}
+
+/**
+ * Maps Beckn items onto a JalSeva water type and quantity. Mirrors the
+ * item parsing in /api/beckn/confirm so every stage quotes the same order.
+ */
+function resolveBecknItems(items: BecknItem[]): {
+  waterType: WaterType;
+  quantityLitres: number;
+} {
+  let waterType: WaterType = 'tanker';
+  let quantityLitres = 500;
+
+  if (items.length > 0) {
+    const itemCode = items[0].descriptor?.code || items[0].id || '';
+    if (itemCode.includes('ro')) waterType = 'ro';
+    else if (itemCode.includes('mineral')) waterType = 'mineral';
+
+    const qty = parseInt(items[0].quantity?.selected?.count || items[0].quantity?.count || '1', 10);
+    quantityLitres = qty > 0 ? qty * 500 : 500;
+  }
+
+  return { waterType, quantityLitres };
+}
+
+/**
+ * The delivery point of a Beckn fulfillment ("lat,lng" gps), which picks the
+ * pricing zone. Mirrors the location parsing in /api/beckn/confirm.
+ */
+function becknDeliveryPoint(
+  fulfillment: { end?: { location?: { gps?: string } } } | undefined
+): ZoneVertex | undefined {
+  const [lat, lng] = (fulfillment?.end?.location?.gps || '').split(',').map(Number);
+  return Number.isFinite(lat) && Number.isFinite(lng) ? { lat, lng } : undefined;
 }
 
 export async function POST(request: NextRequest) {
@@ -63,10 +101,9 @@ export async function POST(request: NextRequest) {
       (Array.isArray(order.fulfillments) ? order.fulfillments[0] : {}) ||
       {};
 
-    const totalValue = items.reduce((sum, item) => {
-      const v = parseFloat(item.price?.value || '0');
-      return sum + (Number.isFinite(v) ? v : 0);
-    }, 0);
+    // Quote from the shared pricing engine, never from BAP-supplied prices
+    const { price } = await quoteOrder(resolveBecknItems(items), becknDeliveryPoint(fulfillment));
+    const quote = toBecknQuote(price);
 
     return NextResponse.json({
       context: buildBecknContext('on_init', transaction_id, message_id),
@@ -81,7 +118,7 @@ export async function POST(request: NextRequest) {
             tracking: true,
           },
           quote: {
-            price: { currency: 'INR', value: totalValue.toFixed(2) },
+            ...quote,
             ttl: 'PT15M',
           },
           payment: {
@@ -89,7 +126,7 @@ export async function POST(request: NextRequest) {
             tl_method: 'http/get',
             params: {
               transaction_id,
-              amount: totalValue.toFixed(2),
+              amount: quote.price.value,
               currency: 'INR',
             },
             type: 'POST-FULFILLMENT',
@@ -0,0 +1,52 @@
+// =============================================================================
+// JalSeva API - Complaint Attachment
+// =============================================================================
+// GET /api/complaints/[complaintId]/attachments/[index]
+//   → the image, for the complaint's customer or an admin
+//
+// Attachments are stored privately and only ever served through this route,
+// to the user in the `jalseva_auth` session cookie.
+// =============================================================================
+
+import { type NextRequest, NextResponse } from 'next/server';
+import { sessionUserId } from '@/lib/auth/server';
+import { complaintViewer, readComplaintAttachment } from '@/lib/complaints/server';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ complaintId: string; index: string }> }
+) {
+  try {
+    const { complaintId, index } = await params;
+    const viewer = sessionUserId(request);
+    const position = Number(index);
+
+    if (!complaintId || !Number.isInteger(position) || position < 0) {
+      return NextResponse.json(
+        { error: 'complaintId and an index are required.' },
+        { status: 400 }
+      );
+    }
+    if (!viewer) {
+      return NextResponse.json({ error: 'Sign in to view the attachment.' }, { status: 401 });
+    }
+
+    const result = await readComplaintAttachment(complaintId, position, await complaintViewer(viewer));
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return new NextResponse(Buffer.from(result.bytes), {
+      headers: {
+        'Content-Type': result.contentType,
+        'Cache-Control': 'private, max-age=300',
+      },
+    });
+  } catch (error) {
+    console.error('[GET /api/complaints/:id/attachments] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error while fetching the attachment.' },
+      { status: 500 }
+    );
+  }
+}
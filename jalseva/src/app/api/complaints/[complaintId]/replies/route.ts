@@ -0,0 +1,53 @@
+// =============================================================================
+// JalSeva API - Complaint Replies
+// =============================================================================
+// POST /api/complaints/[complaintId]/replies
+//   { text, internal? }
+//   → { success, complaint }
+//
+// The author is the user in the `jalseva_auth` session cookie, replying as
+// an admin only when their user record says so. Internal notes (admins
+// only) are never shown to the customer. The first public admin reply stops
+// the complaint's response timer.
+// =============================================================================
+
+import { type NextRequest, NextResponse } from 'next/server';
+import { sessionUserId } from '@/lib/auth/server';
+import { addComplaintReply, complaintViewer } from '@/lib/complaints/server';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ complaintId: string }> }
+) {
+  try {
+    const { complaintId } = await params;
+    const body = await request.json().catch(() => null);
+    const authorId = sessionUserId(request);
+    const { text, internal } = (body ?? {}) as {
+      text?: string;
+      internal?: boolean;
+    };
+
+    if (!complaintId) {
+      return NextResponse.json({ error: 'complaintId is required.' }, { status: 400 });
+    }
+    if (!authorId) {
+      return NextResponse.json({ error: 'Sign in to reply.' }, { status: 401 });
+    }
+
+    const author = await complaintViewer(authorId);
+    const result = await addComplaintReply(complaintId, author, text ?? '', {
+      internal: internal === true,
+    });
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    return NextResponse.json({ success: true, complaint: result.complaint }, { status: 201 });
+  } catch (error) {
+    console.error('[POST /api/complaints/:id/replies] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error while posting the reply.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,109 @@
+// =============================================================================
+// JalSeva API - Complaint
+// =============================================================================
+// GET   /api/complaints/[complaintId]   - The complaint and its thread, for
+//   its customer (internal notes removed) or an admin
+// PATCH /api/complaints/[complaintId]   - Admin handling
+//   { action: 'assign', assigneeId | null }
+//   { action: 'status', status, note? }
+//
+// The viewer (and the admin handling it) is the user in the `jalseva_auth`
+// session cookie; admins are recognised by their user record.
+// =============================================================================
+
+import { type NextRequest, NextResponse } from 'next/server';
+import { sessionUserId } from '@/lib/auth/server';
+import { COMPLAINT_STATUSES } from '@/lib/complaints';
+import {
+  type ComplaintResult,
+  assignComplaint,
+  complaintViewer,
+  getComplaint,
+  setComplaintStatus,
+} from '@/lib/complaints/server';
+import type { ComplaintStatus } from '@/types';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ complaintId: string }> }
+) {
+  try {
+    const { complaintId } = await params;
+    const viewer = sessionUserId(request);
+
+    if (!complaintId) {
+      return NextResponse.json({ error: 'complaintId is required.' }, { status: 400 });
+    }
+    if (!viewer) {
+      return NextResponse.json({ error: 'Sign in to view the complaint.' }, { status: 401 });
+    }
+
+    const result = await getComplaint(complaintId, await complaintViewer(viewer));
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    return NextResponse.json({ complaint: result.complaint });
+  } catch (error) {
+    console.error('[GET /api/complaints/:id] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error while loading the complaint.' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ complaintId: string }> }
+) {
+  try {
+    const { complaintId } = await params;
+    const body = await request.json().catch(() => null);
+    const adminId = sessionUserId(request);
+    const { action, assigneeId, status, note } = (body ?? {}) as {
+      action?: string;
+      assigneeId?: string | null;
+      status?: string;
+      note?: string;
+    };
+
+    if (!complaintId || !action) {
+      return NextResponse.json(
+        { error: 'complaintId and action are required.' },
+        { status: 400 }
+      );
+    }
+    if (!adminId) {
+      return NextResponse.json({ error: 'Sign in to handle complaints.' }, { status: 401 });
+    }
+
+    let result: ComplaintResult;
+    if (action === 'assign') {
+      result = await assignComplaint(complaintId, adminId, assigneeId || null);
+    } else if (action === 'status') {
+      if (!COMPLAINT_STATUSES.includes(status as ComplaintStatus)) {
+        return NextResponse.json(
+          { error: `status must be one of: ${COMPLAINT_STATUSES.join(', ')}` },
+          { status: 400 }
+        );
+      }
+      result = await setComplaintStatus(complaintId, adminId, status as ComplaintStatus, note);
+    } else {
+      return NextResponse.json(
+        { error: "action must be 'assign' or 'status'." },
+        { status: 400 }
+      );
+    }
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    return NextResponse.json({ success: true, complaint: result.complaint });
+  } catch (error) {
+    console.error('[PATCH /api/complaints/:id] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error while updating the complaint.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,26 @@
+// =============================================================================
+// JalSeva API - Complaint Escalation
+// =============================================================================
+// POST /api/complaints/escalate       - Escalate every unresolved complaint
+//      body: {}                         past an SLA deadline (cron trigger)
+//
+// A missed response deadline escalates to level 1, a missed resolution
+// deadline to level 2. Safe to call repeatedly: a complaint is escalated to
+// each level once.
+// =============================================================================
+
+import { NextResponse } from 'next/server';
+import { escalateOverdueComplaints } from '@/lib/complaints/server';
+
+export async function POST() {
+  try {
+    const results = await escalateOverdueComplaints();
+    return NextResponse.json({ success: true, escalated: results.length, results });
+  } catch (error) {
+    console.error('[POST /api/complaints/escalate] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error while escalating complaints.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,79 @@
+// =============================================================================
+// JalSeva API - Complaints
+// =============================================================================
+// GET  /api/complaints                - The signed-in customer's complaints,
+//                                       or all of them for an admin
+// POST /api/complaints                - Customer files a complaint
+//   multipart/form-data: orderId, customerId, category, text,
+//   attachments (up to 3 image files)
+//
+// The viewer is the user in the `jalseva_auth` session cookie. Categories
+// and their SLA timers are defined in '@/lib/complaints'.
+// =============================================================================
+
+import { type NextRequest, NextResponse } from 'next/server';
+import { sessionUserId } from '@/lib/auth/server';
+import { complaintViewer, fileComplaint, listComplaints } from '@/lib/complaints/server';
+
+export async function GET(request: NextRequest) {
+  try {
+    const userId = sessionUserId(request);
+    if (!userId) {
+      return NextResponse.json({ error: 'Sign in to view complaints.' }, { status: 401 });
+    }
+
+    const complaints = await listComplaints(await complaintViewer(userId));
+    return NextResponse.json({ complaints });
+  } catch (error) {
+    console.error('[GET /api/complaints] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error while loading complaints.' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const form = await request.formData().catch(() => null);
+    const field = (name: string) => {
+      const value = form?.get(name);
+      return typeof value === 'string' ? value : '';
+    };
+    const orderId = field('orderId');
+    const customerId = field('customerId');
+
+    if (!orderId || !customerId) {
+      return NextResponse.json(
+        { error: 'orderId and customerId are required.' },
+        { status: 400 }
+      );
+    }
+
+    const files = (form?.getAll('attachments') ?? []).filter(
+      (value): value is File => value instanceof File && value.size > 0
+    );
+    const attachments = await Promise.all(
+      files.map(async (file) => new Uint8Array(await file.arrayBuffer()))
+    );
+
+    const result = await fileComplaint({
+      orderId,
+      customerId,
+      category: field('category'),
+      text: field('text'),
+      attachments,
+    });
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({ success: true, complaint: result.complaint }, { status: 201 });
+  } catch (error) {
+    console.error('[POST /api/complaints] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error while filing the complaint.' },
+      { status: 500 }
+    );
+  }
+}
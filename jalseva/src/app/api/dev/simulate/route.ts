@@ -12,7 +12,9 @@
 //                                    coalescer that real GPS uses, so the
 //                                    customer's tracking page sees the
 //                                    identical real-time experience.
-// POST  /api/dev/simulate/deliver - Mark the simulated order delivered.
+// POST  /api/dev/simulate/deliver - Mark the simulated order delivered, after
+//                                    entering the customer's delivery OTP
+//                                    as the supplier would.
 // =============================================================================
 
 import { type NextRequest, NextResponse } from 'next/server';
@@ -23,6 +25,8 @@ import { hotCache, locationCache } from '@/lib/cache';
 import { trackingCoalescer } from '@/lib/firestore-shard';
 import { supplierIndex } from '@/lib/geohash';
 import { batchWriter } from '@/lib/batch-writer';
+import { SYSTEM_ACTOR, loadOrder, transitionFirestoreOrder } from '@/lib/order-lifecycle';
+import { getCustomerOtp, verifyDeliveryOtp } from '@/lib/delivery-otp/server';
 import type { GeoLocation, TrackingInfo } from '@/types';
 
 let _coalescerWired = false;
@@ -185,7 +189,10 @@ async function tick(body: {
 
   // Move through state machine on first tick (accepted → en_route)
   if (order.status === 'accepted') {
-    await orderRef.set({ status: 'en_route' }, { merge: true });
+    await transitionFirestoreOrder(orderId, 'en_route', {
+      actor: SYSTEM_ACTOR,
+      metadata: { simulated: true },
+    });
   }
 
   const supplierLocation: GeoLocation = { lat, lng, address: '' };
@@ -223,10 +230,26 @@ async function tick(body: {
 async function deliver(body: { orderId: string }) {
   const { orderId } = body;
   if (!orderId) return NextResponse.json({ error: 'orderId required' }, { status: 400 });
-  await adminDb.collection('orders').doc(orderId).set(
-    { status: 'delivered', deliveredAt: FieldValue.serverTimestamp() },
-    { merge: true }
-  );
+  const order = await loadOrder(orderId);
+  if (!order?.supplierId) {
+    return NextResponse.json({ error: 'Order not found' }, { status: 404 });
+  }
+  const otp = await getCustomerOtp(orderId, order.customerId);
+  if (otp.success && !otp.verified) {
+    const verified = await verifyDeliveryOtp(orderId, otp.code, order.supplierId);
+    if (!verified.success) {
+      return NextResponse.json({ error: verified.error }, { status: verified.status });
+    }
+  }
+  const result = await transitionFirestoreOrder(orderId, 'delivered', {
+    actor: SYSTEM_ACTOR,
+    metadata: { simulated: true },
+    // The simulated driver collects cash orders in full
+    cashCollected: order.payment.amount || order.price.total,
+  });
+  if (!result.success) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
   return NextResponse.json({ success: true });
 }
 
@@ -0,0 +1,140 @@
+// =============================================================================
+// JalSeva API - Order Dispatch
+// =============================================================================
+// GET  /api/dispatch?orderId=X     - Current dispatch state for an order
+// GET  /api/dispatch?supplierId=X[&driverId=Y]
+//                                  - Order ids currently offered to a supplier
+//                                    (or to a fleet driver's vehicle)
+// POST /api/dispatch
+//      body: { action, orderId, supplierId?, driverId? }
+//      actions: start | accept | reject | stop
+//
+// Thin HTTP surface over the in-process dispatcher in '@/lib/dispatch'.
+// =============================================================================
+
+import { type NextRequest, NextResponse } from 'next/server';
+import { dispatcher } from '@/lib/dispatch';
+import { loadOrder } from '@/lib/order-lifecycle';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const orderId = searchParams.get('orderId');
+    const supplierId = searchParams.get('supplierId');
+    const driverId = searchParams.get('driverId') ?? undefined;
+
+    if (supplierId) {
+      return NextResponse.json({
+        success: true,
+        supplierId,
+        orderIds: dispatcher.offersFor(supplierId, driverId),
+      });
+    }
+
+    if (!orderId) {
+      return NextResponse.json(
+        { error: 'Must provide either orderId or supplierId query parameter.' },
+        { status: 400 }
+      );
+    }
+
+    // Live state while dispatching; the mirrored copy on the order afterwards.
+    const live = dispatcher.getState(orderId);
+    if (live) {
+      return NextResponse.json({ success: true, orderId, dispatch: live });
+    }
+
+    const order = await loadOrder(orderId);
+    if (!order) {
+      return NextResponse.json({ error: 'Order not found.' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, orderId, dispatch: order.dispatch ?? null });
+  } catch (error) {
+    console.error('[GET /api/dispatch] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error while fetching dispatch state.' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    let body: unknown;
+    try { body = await request.json(); } catch {
+      return NextResponse.json({ error: 'Invalid or missing JSON body.' }, { status: 400 });
+    }
+    const { action, orderId, supplierId, driverId } = (body || {}) as {
+      action?: string;
+      orderId?: string;
+      supplierId?: string;
+      driverId?: string;
+    };
+
+    if (!action || !orderId) {
+      return NextResponse.json(
+        { error: 'action and orderId are required.' },
+        { status: 400 }
+      );
+    }
+
+    switch (action) {
+      case 'start': {
+        const order = await loadOrder(orderId);
+        if (!order) {
+          return NextResponse.json({ error: 'Order not found.' }, { status: 404 });
+        }
+        if (order.status !== 'searching') {
+          return NextResponse.json(
+            { error: `Only searching orders can be dispatched (order is '${order.status}').` },
+            { status: 409 }
+          );
+        }
+        const dispatch = await dispatcher.dispatch(order);
+        return NextResponse.json({ success: true, orderId, dispatch });
+      }
+
+      case 'accept':
+      case 'reject': {
+        if (!supplierId) {
+          return NextResponse.json(
+            { error: `supplierId is required to ${action} an offer.` },
+            { status: 400 }
+          );
+        }
+        const result = await dispatcher.respond(
+          orderId,
+          supplierId,
+          action === 'accept',
+          driverId
+        );
+        if (!result.success) {
+          return NextResponse.json({ error: result.error }, { status: result.status });
+        }
+        return NextResponse.json({
+          success: true,
+          orderId,
+          dispatch: result.info,
+          ...(result.order ? { order: result.order } : {}),
+        });
+      }
+
+      case 'stop': {
+        const stopped = dispatcher.stop(orderId);
+        return NextResponse.json({ success: true, orderId, stopped });
+      }
+
+      default:
+        return NextResponse.json(
+          { error: `Unknown action: ${action}` },
+          { status: 400 }
+        );
+    }
+  } catch (error) {
+    console.error('[POST /api/dispatch] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error while dispatching order.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+// =============================================================================
+// JalSeva API - Order Vehicle Assignment
+// =============================================================================
+// POST /api/orders/[orderId]/assign
+//   body: { supplierId, vehicleId }
+//   → { success, order }
+//
+// Moves an accepted order to another vehicle of the supplier's fleet and to
+// that vehicle's driver, e.g. when a truck breaks down. See '@/lib/fleet'.
+// =============================================================================
+
+import { type NextRequest, NextResponse } from 'next/server';
+import { assignOrderVehicle } from '@/lib/fleet/server';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> }
+) {
+  try {
+    const { orderId } = await params;
+    const body = (await request.json().catch(() => null)) as {
+      supplierId?: string;
+      vehicleId?: string;
+    } | null;
+    if (!body?.supplierId || !body.vehicleId) {
+      return NextResponse.json(
+        { error: 'supplierId and vehicleId are required.' },
+        { status: 400 }
+      );
+    }
+
+    const result = await assignOrderVehicle(orderId, body.supplierId, body.vehicleId);
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    return NextResponse.json({ success: true, order: result.order });
+  } catch (error) {
+    console.error('[POST /api/orders/:id/assign] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error while assigning the order.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+// =============================================================================
+// JalSeva API - Order Audit Trail
+// =============================================================================
+// GET /api/orders/[orderId]/events  - Status transitions for an order,
+//                                     oldest first (who, from, to, why, when)
+// =============================================================================
+
+import { type NextRequest, NextResponse } from 'next/server';
+import { listOrderEvents } from '@/lib/order-lifecycle';
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> }
+) {
+  try {
+    const { orderId } = await params;
+
+    if (!orderId) {
+      return NextResponse.json(
+        { error: 'Missing orderId parameter.' },
+        { status: 400 }
+      );
+    }
+
+    const events = await listOrderEvents(orderId);
+
+    return NextResponse.json({ success: true, orderId, events });
+  } catch (error) {
+    console.error('[GET /api/orders/events] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error while fetching order events.' },
+      { status: 500 }
+    );
+  }
+}
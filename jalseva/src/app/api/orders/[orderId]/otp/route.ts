@@ -0,0 +1,98 @@
+// =============================================================================
+// JalSeva API - Delivery OTP
+// =============================================================================
+// GET  /api/orders/[orderId]/otp                 - The OTP, for the signed-in
+//                                                  customer who placed the order
+// POST /api/orders/[orderId]/otp                 - Supplier verifies the code
+//                                                  given at the door
+//   { otp, supplierId }
+//
+// Wrong codes count towards a lockout (429 with lockedUntil); a 400 carries
+// the attempts left. Multi-trip orders have a code per trip; GET returns the
+// current trip's with `trip` { legId, index, of }. See '@/lib/delivery-otp'.
+// =============================================================================
+
+import { type NextRequest, NextResponse } from 'next/server';
+import { sessionUserId } from '@/lib/auth/server';
+import { getCustomerOtp, verifyDeliveryOtp } from '@/lib/delivery-otp/server';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> }
+) {
+  try {
+    const { orderId } = await params;
+    const customerId = sessionUserId(request);
+
+    if (!orderId) {
+      return NextResponse.json({ error: 'orderId is required.' }, { status: 400 });
+    }
+    if (!customerId) {
+      return NextResponse.json({ error: 'Sign in to view the delivery OTP.' }, { status: 401 });
+    }
+
+    const result = await getCustomerOtp(orderId, customerId);
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        orderId,
+        otp: result.code,
+        verified: result.verified,
+        ...(result.trip ? { trip: result.trip } : {}),
+      },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    console.error('[GET /api/orders/otp] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error while fetching the delivery OTP.' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> }
+) {
+  try {
+    const { orderId } = await params;
+    const body = await request.json().catch(() => null);
+    const { otp, supplierId } = (body ?? {}) as { otp?: string; supplierId?: string };
+
+    if (!orderId || !supplierId) {
+      return NextResponse.json(
+        { error: 'orderId and supplierId are required.' },
+        { status: 400 }
+      );
+    }
+
+    const result = await verifyDeliveryOtp(orderId, String(otp ?? ''), supplierId);
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          error: result.error,
+          ...(result.attemptsLeft !== undefined ? { attemptsLeft: result.attemptsLeft } : {}),
+          ...(result.lockedUntil ? { lockedUntil: result.lockedUntil.toISOString() } : {}),
+        },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      orderId,
+      verifiedAt: result.verifiedAt.toISOString(),
+    });
+  } catch (error) {
+    console.error('[POST /api/orders/otp] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error while verifying the delivery OTP.' },
+      { status: 500 }
+    );
+  }
+}
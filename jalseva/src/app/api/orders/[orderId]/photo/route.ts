@@ -0,0 +1,138 @@
+// =============================================================================
+// JalSeva API - Delivery Photo Proof
+// =============================================================================
+// POST  /api/orders/[orderId]/photo                 - Supplier uploads the photo
+//   multipart/form-data: photo (image file), supplierId
+// GET   /api/orders/[orderId]/photo?variant=thumb|full - The photo, for the
+//   signed-in customer or supplier of the order, or an admin
+// PATCH /api/orders/[orderId]/photo                 - Admin review
+//   { decision: 'approved' | 'rejected', adminId, note? }
+//
+// Photos are stored privately and only ever served through this route. The
+// viewer is the user in the `jalseva_auth` session cookie; only admins (by
+// their user record) can review. See
+// '@/lib/delivery-proof' for the EXIF time and location checks.
+// =============================================================================
+
+import { type NextRequest, NextResponse } from 'next/server';
+import {
+  readDeliveryPhoto,
+  reviewDeliveryPhoto,
+  uploadDeliveryPhoto,
+} from '@/lib/delivery-proof/server';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> }
+) {
+  try {
+    const { orderId } = await params;
+    const form = await request.formData().catch(() => null);
+    const photo = form?.get('photo');
+    const supplierId = form?.get('supplierId');
+
+    if (!orderId || typeof supplierId !== 'string' || !supplierId) {
+      return NextResponse.json(
+        { error: 'orderId and supplierId are required.' },
+        { status: 400 }
+      );
+    }
+    if (!(photo instanceof File)) {
+      return NextResponse.json({ error: 'A photo file is required.' }, { status: 400 });
+    }
+
+    const bytes = new Uint8Array(await photo.arrayBuffer());
+    const result = await uploadDeliveryPhoto(orderId, supplierId, bytes);
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json(
+      { success: true, orderId, photoProofUrl: result.photoProofUrl, proof: result.proof },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('[POST /api/orders/photo] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error while uploading the delivery photo.' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> }
+) {
+  try {
+    const { orderId } = await params;
+    const viewer = request.cookies.get('jalseva_auth')?.value;
+    const variant = request.nextUrl.searchParams.get('variant') === 'thumb' ? 'thumb' : 'full';
+
+    if (!orderId) {
+      return NextResponse.json({ error: 'orderId is required.' }, { status: 400 });
+    }
+    if (!viewer) {
+      return NextResponse.json({ error: 'Sign in to view the delivery photo.' }, { status: 401 });
+    }
+
+    const result = await readDeliveryPhoto(orderId, viewer, variant);
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return new NextResponse(Buffer.from(result.bytes), {
+      headers: {
+        'Content-Type': result.contentType,
+        'Cache-Control': 'private, max-age=300',
+      },
+    });
+  } catch (error) {
+    console.error('[GET /api/orders/photo] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error while fetching the delivery photo.' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> }
+) {
+  try {
+    const { orderId } = await params;
+    const body = await request.json().catch(() => null);
+    const { decision, adminId, note } = (body ?? {}) as {
+      decision?: string;
+      adminId?: string;
+      note?: string;
+    };
+
+    if (!orderId || !adminId) {
+      return NextResponse.json(
+        { error: 'orderId and adminId are required.' },
+        { status: 400 }
+      );
+    }
+    if (decision !== 'approved' && decision !== 'rejected') {
+      return NextResponse.json(
+        { error: "decision must be 'approved' or 'rejected'." },
+        { status: 400 }
+      );
+    }
+
+    const result = await reviewDeliveryPhoto(orderId, decision, adminId, note);
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({ success: true, orderId, proof: result.proof });
+  } catch (error) {
+    console.error('[PATCH /api/orders/photo] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error while reviewing the delivery photo.' },
+      { status: 500 }
+    );
+  }
+}
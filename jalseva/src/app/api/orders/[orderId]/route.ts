@@ -3,25 +3,71 @@
 // =============================================================================
 // GET /api/orders/[orderId]  - Fetch a single order by ID
 // PUT /api/orders/[orderId]  - Update order (status changes, accept, reject, etc.)
+//
+// Status changes are validated and audited by '@/lib/order-lifecycle';
+// cancellations are settled (fee, compensation, refund) by
+// '@/lib/cancellation/server'. Cash orders need the supplier to confirm the
+// cash collected (`cashCollected`) before they can be marked delivered, and
+// suppliers blocked for unremitted cash cannot accept them (both enforced by
+// the lifecycle). Delivery needs the OTP verified at
+// POST /api/orders/[orderId]/otp, unless an admin passes `otpOverride` with
+// a `reason`. On a multi-trip order en_route, arriving and delivered move the
+// current trip ('@/lib/delivery-legs/server'), and cash is collected with the
+// last one.
 // =============================================================================
 
 import { type NextRequest, NextResponse } from 'next/server';
+import { isAdmin } from '@/lib/auth/server';
 import { firestoreBreaker } from '@/lib/circuit-breaker';
-import { batchWriter } from '@/lib/batch-writer';
-import type { OrderStatus } from '@/types';
-
-// ---------------------------------------------------------------------------
-// Valid status transitions
-// ---------------------------------------------------------------------------
-
-const VALID_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
-  searching: ['accepted', 'cancelled'],
-  accepted: ['en_route', 'cancelled'],
-  en_route: ['arriving', 'delivered', 'cancelled'],
-  arriving: ['delivered', 'cancelled'],
-  delivered: [],
-  cancelled: [],
-};
+import {
+  loadOrder,
+  transitionFirestoreOrder,
+  transitionStoreOrder,
+  type OrderPatch,
+} from '@/lib/order-lifecycle';
+import { processCancellation } from '@/lib/cancellation/server';
+import { currentLeg, isLegStatus, legLabel } from '@/lib/delivery-legs';
+import { advanceDeliveryLeg } from '@/lib/delivery-legs/server';
+import * as store from '@/lib/demo-store';
+import type { OrderActor, OrderActorRole, OrderStatus } from '@/types';
+
+/** Roles a request can act as; 'system' is reserved for server-side jobs. */
+const CALLER_ROLES: OrderActorRole[] = ['customer', 'supplier', 'admin'];
+
+type ActorResolution =
+  | { success: true; actor: OrderActor }
+  | { success: false; error: string; status: number };
+
+/**
+ * Who is making the change. Callers pass actorId/actorRole; older clients
+ * that only send supplierId are attributed to that supplier. A request never
+ * acts as the system, and the admin role is only taken once the actor's user
+ * record confirms it.
+ */
+async function resolveActor(body: {
+  actorId?: string;
+  actorRole?: OrderActorRole;
+  supplierId?: string;
+}): Promise<ActorResolution> {
+  const role =
+    body.actorRole && CALLER_ROLES.includes(body.actorRole)
+      ? body.actorRole
+      : !body.actorRole && body.supplierId
+        ? 'supplier'
+        : null;
+  const id = body.actorId || (role === 'supplier' ? body.supplierId : undefined);
+  if (!role || !id) {
+    return {
+      success: false,
+      error: "actorId and an actorRole of 'customer', 'supplier' or 'admin' are required.",
+      status: 400,
+    };
+  }
+  if (role === 'admin' && !(await isAdmin(id))) {
+    return { success: false, error: 'Unauthorized. Admin access required.', status: 403 };
+  }
+  return { success: true, actor: { id, role } };
+}
 
 function hasAdminCredentials(): boolean {
   return !!(
@@ -111,10 +157,26 @@ export async function PUT(
     }
 
     const body = await request.json();
-    const { status, supplierId, cancellationReason } = body as {
+    const {
+      status,
+      supplierId,
+      cancellationReason,
+      reasonCode,
+      actorId,
+      actorRole,
+      cashCollected,
+      otpOverride,
+      reason,
+    } = body as {
       status?: OrderStatus;
       supplierId?: string;
       cancellationReason?: string;
+      reasonCode?: string;
+      actorId?: string;
+      actorRole?: OrderActorRole;
+      cashCollected?: number;
+      otpOverride?: boolean;
+      reason?: string;
     };
 
     if (!status) {
@@ -124,126 +186,146 @@ export async function PUT(
       );
     }
 
-    if (hasAdminCredentials()) {
-      try {
-        const adminDb = await getAdminDb();
-        const orderRef = adminDb.collection('orders').doc(orderId);
-        const orderDoc = await orderRef.get();
-
-        if (!orderDoc.exists) {
-          return NextResponse.json(
-            { error: 'Order not found.' },
-            { status: 404 }
-          );
-        }
+    const resolved = await resolveActor({ actorId, actorRole, supplierId });
+    if (!resolved.success) {
+      return NextResponse.json(
+        { error: resolved.error },
+        { status: resolved.status }
+      );
+    }
+    const { actor } = resolved;
+    const options = {
+      actor,
+      reason: cancellationReason ?? reason,
+      otpOverride: otpOverride === true,
+      cashCollected,
+    };
 
-        const currentOrder = orderDoc.data()!;
-        const currentStatus = currentOrder.status as OrderStatus;
-        const now = new Date().toISOString();
+    if (status === 'cancelled') {
+      const result = await processCancellation(orderId, {
+        by: actor.role === 'customer' || actor.role === 'supplier' ? actor.role : 'system',
+        actorId: actor.id,
+        reasonCode,
+        note: cancellationReason,
+      });
+      if (!result.success) {
+        return NextResponse.json(
+          { error: result.error },
+          { status: result.status }
+        );
+      }
+      return NextResponse.json({
+        success: true,
+        order: result.order,
+        event: result.event,
+        message: `Order status updated to '${status}'.`,
+      });
+    }
 
-        // Validate status transition
-        const allowedTransitions = VALID_TRANSITIONS[currentStatus];
-        if (!allowedTransitions || !allowedTransitions.includes(status)) {
-          return NextResponse.json(
-            {
-              error: `Invalid status transition from '${currentStatus}' to '${status}'. Allowed: ${allowedTransitions?.join(', ') || 'none'}.`,
-            },
-            { status: 400 }
-          );
-        }
+    // --- Multi-trip orders: the current trip moves, and the order with it ---
+    const current = isLegStatus(status) ? await loadOrder(orderId) : null;
+    const leg = current ? currentLeg(current) : undefined;
+    if (current && leg && isLegStatus(status)) {
+      const result = await advanceDeliveryLeg(orderId, status, options);
+      if (!result.success) {
+        return NextResponse.json(
+          { error: result.error },
+          { status: result.status }
+        );
+      }
+      return NextResponse.json({
+        success: true,
+        order: result.order,
+        event: result.event,
+        message: `${legLabel(current, leg)} updated to '${status}'.`,
+      });
+    }
 
-        const updateData: Record<string, unknown> = {
-          status,
-          updatedAt: now,
-        };
-
-        switch (status) {
-          case 'accepted': {
-            if (!supplierId) {
-              return NextResponse.json(
-                { error: 'supplierId is required when accepting an order.' },
-                { status: 400 }
-              );
-            }
-
-            const supplierDoc = await adminDb
-              .collection('suppliers')
-              .doc(supplierId)
-              .get();
-
-            if (!supplierDoc.exists) {
-              return NextResponse.json(
-                { error: 'Supplier not found.' },
-                { status: 404 }
-              );
-            }
-
-            const supplierData = supplierDoc.data()!;
-            if (supplierData.verificationStatus !== 'verified') {
-              return NextResponse.json(
-                { error: 'Supplier is not verified.' },
-                { status: 403 }
-              );
-            }
-
-            updateData.supplierId = supplierId;
-            updateData.acceptedAt = now;
-
-            if (supplierData.currentLocation) {
-              updateData.supplierLocation = supplierData.currentLocation;
-            }
-            break;
+    if (hasAdminCredentials()) {
+      try {
+        const adminDb = await getAdminDb();
+        const patch: OrderPatch = {};
+
+        if (status === 'accepted') {
+          if (!supplierId) {
+            return NextResponse.json(
+              { error: 'supplierId is required when accepting an order.' },
+              { status: 400 }
+            );
           }
 
-          case 'en_route': {
-            updateData.pickedAt = now;
-            break;
-          }
+          const supplierDoc = await adminDb
+            .collection('suppliers')
+            .doc(supplierId)
+            .get();
 
-          case 'arriving': {
-            updateData.arrivingAt = now;
-            break;
+          if (!supplierDoc.exists) {
+            return NextResponse.json(
+              { error: 'Supplier not found.' },
+              { status: 404 }
+            );
           }
 
-          case 'delivered': {
-            updateData.deliveredAt = now;
-            updateData['payment.status'] = 'paid';
-            break;
+          const supplierData = supplierDoc.data()!;
+          if (supplierData.verificationStatus !== 'verified') {
+            return NextResponse.json(
+              { error: 'Supplier is not verified.' },
+              { status: 403 }
+            );
           }
 
-          case 'cancelled': {
-            updateData.cancelledAt = now;
-            if (cancellationReason) {
-              updateData.cancellationReason = cancellationReason;
-            }
-            if (currentOrder.payment?.status === 'paid') {
-              updateData['payment.status'] = 'refunded';
-            }
-            break;
+          patch.supplierId = supplierId;
+          if (supplierData.currentLocation) {
+            patch.supplierLocation = supplierData.currentLocation;
           }
         }
 
-        batchWriter.update('orders', orderId, updateData);
-        const updatedDoc = await firestoreBreaker.execute(
-          () => orderRef.get(),
-          () => null
-        );
+        const result = await transitionFirestoreOrder(orderId, status, {
+          ...options,
+          patch,
+        });
+
+        if (!result.success) {
+          return NextResponse.json(
+            { error: result.error },
+            { status: result.status }
+          );
+        }
 
         return NextResponse.json({
           success: true,
-          order: updatedDoc ? { id: updatedDoc.id, ...updatedDoc.data() } : { id: orderId, ...updateData },
+          order: result.order,
+          event: result.event,
           message: `Order status updated to '${status}'.`,
         });
       } catch (dbError) {
         console.warn(`[PUT /api/orders/${orderId}] Firestore error:`, dbError);
-        // Fall through to demo response
+        // Fall through to demo store
+      }
+    }
+
+    // Demo mode: same state machine against the in-memory store
+    const patch: OrderPatch = {};
+    if (status === 'accepted' && supplierId) {
+      patch.supplierId = supplierId;
+      const supplier = store.getSupplier(supplierId);
+      if (supplier?.currentLocation) {
+        patch.supplierLocation = supplier.currentLocation;
       }
     }
 
-    // Demo mode: return success with the requested status
+    const result = transitionStoreOrder(orderId, status, { ...options, patch });
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, demo: true },
+        { status: result.status }
+      );
+    }
+
     return NextResponse.json({
       success: true,
-      order: { id: orderId, status },
+      order: result.order,
+      event: result.event,
       message: `Order status updated to '${status}' (demo mode).`,
       demo: true,
     });
@@ -0,0 +1,66 @@
+// =============================================================================
+// JalSeva API - Customer Spot Check
+// =============================================================================
+// POST /api/orders/[orderId]/spot-check - Customer logs their own meter
+//   { customerId, tds?, ph? }              reading of the delivered water
+//   → { success, spotCheck, inRange }
+//
+// Allowed once per order, within a day of delivery. The reading counts
+// towards the supplier's quality score, and readings that disagree with the
+// lab certificate flag the supplier for admins (not shown to the customer);
+// see '@/lib/spot-check'.
+// =============================================================================
+
+import { type NextRequest, NextResponse } from 'next/server';
+import { recordSpotCheck } from '@/lib/spot-check/server';
+
+function optionalNumber(value: unknown): unknown {
+  if (value === undefined || value === null || value === '') return undefined;
+  return typeof value === 'string' ? Number(value) : value;
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> }
+) {
+  try {
+    const { orderId } = await params;
+    const body = await request.json().catch(() => null);
+    const { customerId, tds, ph } = (body ?? {}) as {
+      customerId?: string;
+      tds?: unknown;
+      ph?: unknown;
+    };
+
+    if (!orderId || !customerId) {
+      return NextResponse.json(
+        { error: 'orderId and customerId are required.' },
+        { status: 400 }
+      );
+    }
+
+    const result = await recordSpotCheck(orderId, customerId, {
+      tds: optionalNumber(tds),
+      ph: optionalNumber(ph),
+    });
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        orderId,
+        spotCheck: result.spotCheck,
+        inRange: result.inRange,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('[POST /api/orders/spot-check] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error while saving the reading.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,113 @@
+// =============================================================================
+// JalSeva API - Delivered Volume
+// =============================================================================
+// POST  /api/orders/[orderId]/volume  - Supplier records the litres delivered
+//   { supplierId, litres } or { supplierId, meterStart, meterEnd }
+// PATCH /api/orders/[orderId]/volume  - Customer confirms or disputes it
+//   { customerId, response: 'confirmed' | 'disputed', litres?, note?, legId? }
+//
+// A shortfall beyond the tolerance pro-rates the order price; see
+// '@/lib/delivery-volume'. On a multi-trip order the supplier records the
+// trip under way and the customer responds per trip (`legId`).
+// =============================================================================
+
+import { type NextRequest, NextResponse } from 'next/server';
+import { recordDeliveredVolume, respondToVolume } from '@/lib/delivery-volume/server';
+
+function optionalNumber(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  return Number(value);
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> }
+) {
+  try {
+    const { orderId } = await params;
+    const body = await request.json().catch(() => null);
+    const { supplierId, litres, meterStart, meterEnd } = (body ?? {}) as {
+      supplierId?: string;
+      litres?: unknown;
+      meterStart?: unknown;
+      meterEnd?: unknown;
+    };
+
+    if (!orderId || !supplierId) {
+      return NextResponse.json(
+        { error: 'orderId and supplierId are required.' },
+        { status: 400 }
+      );
+    }
+
+    const result = await recordDeliveredVolume(orderId, supplierId, {
+      litres: optionalNumber(litres),
+      meterStart: optionalNumber(meterStart),
+      meterEnd: optionalNumber(meterEnd),
+    });
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({
+      success: true,
+      orderId,
+      volume: result.volume,
+      price: result.price,
+      paymentAmount: result.paymentAmount,
+    });
+  } catch (error) {
+    console.error('[POST /api/orders/volume] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error while recording the delivered volume.' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> }
+) {
+  try {
+    const { orderId } = await params;
+    const body = await request.json().catch(() => null);
+    const { customerId, response, litres, note, legId } = (body ?? {}) as {
+      customerId?: string;
+      response?: string;
+      litres?: unknown;
+      note?: string;
+      legId?: string;
+    };
+
+    if (!orderId || !customerId) {
+      return NextResponse.json(
+        { error: 'orderId and customerId are required.' },
+        { status: 400 }
+      );
+    }
+    if (response !== 'confirmed' && response !== 'disputed') {
+      return NextResponse.json(
+        { error: "response must be 'confirmed' or 'disputed'." },
+        { status: 400 }
+      );
+    }
+
+    const result = await respondToVolume(orderId, customerId, response, {
+      litres: optionalNumber(litres),
+      note: typeof note === 'string' ? note : undefined,
+      legId: typeof legId === 'string' ? legId : undefined,
+    });
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({ success: true, orderId, response: result.response });
+  } catch (error) {
+    console.error('[PATCH /api/orders/volume] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error while saving the volume response.' },
+      { status: 500 }
+    );
+  }
+}
@@ -10,26 +10,19 @@ import { haversineDistance } from '@/lib/maps';
 import { firestoreBreaker } from '@/lib/circuit-breaker';
 import { batchWriter } from '@/lib/batch-writer';
 import { supplierIndex } from '@/lib/geohash';
+import { calculateOrderPrice, DEFAULT_DISTANCE_KM } from '@/lib/pricing';
+import { loadPricingContext } from '@/lib/pricing/server';
+import { dispatcher } from '@/lib/dispatch';
 import type {
   WaterType,
   PaymentMethod,
   GeoLocation,
-  OrderPrice,
 } from '@/types';
 
 // ---------------------------------------------------------------------------
 // Constants
 // ---------------------------------------------------------------------------
 
-const DEFAULT_BASE_PRICES: Record<WaterType, number> = {
-  ro: 150,
-  mineral: 200,
-  tanker: 500,
-};
-
-const DEFAULT_PER_KM_RATE = 15;
-const DEFAULT_SURGE_MULTIPLIER = 1.0;
-const DEFAULT_COMMISSION_PERCENT = 15;
 const DEFAULT_SEARCH_RADIUS_KM = 10;
 
 // ---------------------------------------------------------------------------
@@ -48,36 +41,6 @@ async function getAdminDb() {
   return adminDb;
 }
 
-// ---------------------------------------------------------------------------
-// Pricing Calculation
-// ---------------------------------------------------------------------------
-
-function calculateOrderPrice(
-  waterType: WaterType,
-  quantityLitres: number,
-  distanceKm: number,
-  surgeMultiplier: number = DEFAULT_SURGE_MULTIPLIER,
-  basePrices: Record<WaterType, number> = DEFAULT_BASE_PRICES,
-  perKmRate: number = DEFAULT_PER_KM_RATE,
-  commissionPercent: number = DEFAULT_COMMISSION_PERCENT
-): OrderPrice {
-  const base = basePrices[waterType];
-  const distanceCharge = distanceKm * perKmRate * (quantityLitres / 20);
-  const subtotal = (base + distanceCharge) * surgeMultiplier;
-  const total = Math.round(subtotal);
-  const commission = Math.round(total * (commissionPercent / 100));
-  const supplierEarning = total - commission;
-
-  return {
-    base,
-    distance: Math.round(distanceCharge),
-    surge: Math.round(subtotal - base - distanceCharge),
-    total,
-    commission,
-    supplierEarning,
-  };
-}
-
 // ---------------------------------------------------------------------------
 // POST - Create a new order
 // ---------------------------------------------------------------------------
@@ -141,12 +104,14 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // --- Calculate price with defaults ---
-    const price = calculateOrderPrice(
+    // --- Calculate price (zone at the delivery location, commission and live demand) ---
+    const pricingContext = await loadPricingContext(deliveryLocation);
+    const price = calculateOrderPrice({
       waterType,
       quantityLitres,
-      5, // default 5km distance
-    );
+      distanceKm: DEFAULT_DISTANCE_KM,
+      ...pricingContext,
+    });
 
     // --- Try Firestore, fall back to demo mode ---
     if (hasAdminCredentials()) {
@@ -162,19 +127,6 @@ export async function POST(request: NextRequest) {
           );
         }
 
-        // Fetch zone pricing if available
-        let surgeMultiplier = DEFAULT_SURGE_MULTIPLIER;
-        let basePrices = DEFAULT_BASE_PRICES;
-        let perKmRate = DEFAULT_PER_KM_RATE;
-
-        const zonesSnapshot = await adminDb.collection('pricing_zones').limit(1).get();
-        if (!zonesSnapshot.empty) {
-          const zone = zonesSnapshot.docs[0].data();
-          if (zone.surgeMultiplier) surgeMultiplier = zone.surgeMultiplier;
-          if (zone.basePrice) basePrices = zone.basePrice as Record<WaterType, number>;
-          if (zone.perKmRate) perKmRate = zone.perKmRate;
-        }
-
         // Find nearby available suppliers (geohash index first, Firestore fallback)
         const nearbySuppliers: Array<{ id: string; distance: number }> = [];
 
@@ -225,25 +177,21 @@ export async function POST(request: NextRequest) {
 
         nearbySuppliers.sort((a, b) => a.distance - b.distance);
 
-        const avgDistanceKm = nearbySuppliers.length > 0 ? nearbySuppliers[0].distance : 5;
+        const avgDistanceKm =
+          nearbySuppliers.length > 0 ? nearbySuppliers[0].distance : DEFAULT_DISTANCE_KM;
 
-        const zonedPrice = calculateOrderPrice(
+        const zonedPrice = calculateOrderPrice({
           waterType,
           quantityLitres,
-          avgDistanceKm,
-          surgeMultiplier,
-          basePrices,
-          perKmRate
-        );
+          distanceKm: avgDistanceKm,
+          ...pricingContext,
+        });
 
         // Create order document
         const orderRef = adminDb.collection('orders').doc();
         const orderId = orderRef.id;
         const now = new Date().toISOString();
 
-        // Generate delivery OTP (inspired by Tankerwala/BWSSB verification)
-        const deliveryOtp = String(Math.floor(1000 + Math.random() * 9000));
-
         const order = {
           id: orderId,
           customerId,
@@ -257,17 +205,20 @@ export async function POST(request: NextRequest) {
             status: 'pending' as const,
             amount: zonedPrice.total,
           },
-          deliveryVerification: {
-            otp: deliveryOtp,
-          },
           nearbySupplierIds: nearbySuppliers.map((s) => s.id),
           createdAt: now,
         };
 
         batchWriter.set('orders', orderId, order as unknown as Record<string, unknown>);
 
+        // Start automatic matching; the first offer goes out immediately.
+        const dispatch = await dispatcher.dispatch(order).catch((err) => {
+          console.warn(`[POST /api/orders] Dispatch failed for ${orderId}:`, err);
+          return null;
+        });
+
         return NextResponse.json(
-          { success: true, order, nearbySupplierCount: nearbySuppliers.length },
+          { success: true, order, dispatch, nearbySupplierCount: nearbySuppliers.length },
           { status: 201 }
         );
       } catch (dbError) {
@@ -279,7 +230,6 @@ export async function POST(request: NextRequest) {
     // --- Demo mode: create order without Firestore ---
     const orderId = `demo_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
     const now = new Date().toISOString();
-    const demoDeliveryOtp = String(Math.floor(1000 + Math.random() * 9000));
 
     const order = {
       id: orderId,
@@ -294,9 +244,6 @@ export async function POST(request: NextRequest) {
         status: 'pending' as const,
         amount: price.total,
       },
-      deliveryVerification: {
-        otp: demoDeliveryOtp,
-      },
       createdAt: now,
     };
 
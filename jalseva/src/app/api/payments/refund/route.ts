@@ -0,0 +1,81 @@
+// =============================================================================
+// JalSeva API - Refund Payment (Simulated Razorpay)
+// =============================================================================
+// POST /api/payments/refund
+// Refunds all or part of an order's captured payment. Omit `amount` for a
+// full refund of the remaining balance; pass rupees for a partial refund
+// (e.g. a short delivery). Returns the RefundRecord and updated payment.
+// Only admins (by the `users/{adminId}` record) can issue refunds.
+// =============================================================================
+
+import { type NextRequest, NextResponse } from 'next/server';
+import { isAdmin } from '@/lib/auth/server';
+import { refundOrder } from '@/lib/refunds/server';
+
+// ---------------------------------------------------------------------------
+// POST - Issue a refund
+// ---------------------------------------------------------------------------
+
+export async function POST(request: NextRequest) {
+  try {
+    let body: unknown;
+    try { body = await request.json(); } catch {
+      return NextResponse.json({ error: 'Invalid or missing JSON body.' }, { status: 400 });
+    }
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return NextResponse.json({ error: 'Request body must be a JSON object.' }, { status: 400 });
+    }
+    const { orderId, amount, reason, note, adminId } = body as {
+      orderId: string;
+      amount?: number;
+      reason?: string;
+      note?: string;
+      adminId?: string;
+    };
+
+    // --- Validation ---
+    if (!orderId || !adminId) {
+      return NextResponse.json(
+        { error: 'Missing required fields: orderId, adminId' },
+        { status: 400 }
+      );
+    }
+
+    if (amount !== undefined && typeof amount !== 'number') {
+      return NextResponse.json(
+        { error: 'Amount must be a number (in rupees).' },
+        { status: 400 }
+      );
+    }
+
+    if (!(await isAdmin(adminId))) {
+      return NextResponse.json(
+        { error: 'Unauthorized. Admin access required.' },
+        { status: 403 }
+      );
+    }
+
+    const result = await refundOrder(orderId, {
+      amount,
+      reason: reason || 'other',
+      note,
+      initiatedBy: adminId,
+    });
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({
+      success: true,
+      refund: result.refund,
+      payment: result.order.payment,
+    });
+  } catch (error) {
+    console.error('[POST /api/payments/refund] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error while processing refund.' },
+      { status: 500 }
+    );
+  }
+}
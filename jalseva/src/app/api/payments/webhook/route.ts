@@ -0,0 +1,74 @@
+// =============================================================================
+// JalSeva API - Razorpay Webhook Receiver
+// =============================================================================
+// POST /api/payments/webhook
+// Receives payment.captured, payment.failed and refund.processed events.
+// The X-Razorpay-Signature header is verified against the raw body before
+// anything is parsed; each X-Razorpay-Event-Id is applied at most once.
+// Responds 2xx once an event is handled (or deliberately ignored) so
+// Razorpay stops retrying; 404 for events with no matching order so the
+// redelivery can catch up with a not-yet-written order.
+// =============================================================================
+
+import { type NextRequest, NextResponse } from 'next/server';
+import { verifyWebhookSignature } from '@/lib/razorpay';
+import {
+  handlePaymentWebhook,
+  type RazorpayWebhookEvent,
+} from '@/lib/payment-webhook';
+
+// ---------------------------------------------------------------------------
+// POST - Handle a webhook delivery
+// ---------------------------------------------------------------------------
+
+export async function POST(request: NextRequest) {
+  try {
+    const rawBody = await request.text();
+    const signature = request.headers.get('x-razorpay-signature');
+
+    // --- Verify signature ---
+    if (!signature || !verifyWebhookSignature(rawBody, signature)) {
+      console.warn('[Payment Webhook] Rejected delivery with an invalid signature.');
+      return NextResponse.json(
+        { error: 'Invalid webhook signature.' },
+        { status: 400 }
+      );
+    }
+
+    let event: RazorpayWebhookEvent;
+    try { event = JSON.parse(rawBody); } catch {
+      return NextResponse.json({ error: 'Invalid JSON body.' }, { status: 400 });
+    }
+    if (!event || typeof event.event !== 'string' || !event.payload) {
+      return NextResponse.json(
+        { error: 'Webhook body must contain event and payload.' },
+        { status: 400 }
+      );
+    }
+
+    const eventId = request.headers.get('x-razorpay-event-id');
+    if (!eventId) {
+      return NextResponse.json(
+        { error: 'Missing X-Razorpay-Event-Id header.' },
+        { status: 400 }
+      );
+    }
+
+    const result = await handlePaymentWebhook(eventId, event);
+
+    if (result.outcome === 'unmatched') {
+      return NextResponse.json(
+        { error: 'No order matches this event.', eventId },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, eventId, ...result });
+  } catch (error) {
+    console.error('[POST /api/payments/webhook] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error while processing webhook.' },
+      { status: 500 }
+    );
+  }
+}
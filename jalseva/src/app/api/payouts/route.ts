@@ -0,0 +1,48 @@
+// =============================================================================
+// JalSeva API - Supplier Payouts
+// =============================================================================
+// POST /api/payouts                      - Run the payout schedule for every
+//      body: {}                            verified supplier (cron trigger)
+// POST /api/payouts
+//      body: { supplierId }              - Run it for one supplier
+//
+// Each supplier is paid their available balance at most once per payout
+// period (daily, or weekly on the configured weekday), and only once it
+// reaches the minimum in AdminSettings.payoutPolicy. Safe to call repeatedly.
+// =============================================================================
+
+import { type NextRequest, NextResponse } from 'next/server';
+import { runScheduledPayouts, runSupplierPayout } from '@/lib/ledger/server';
+
+export async function POST(request: NextRequest) {
+  try {
+    let body: unknown = {};
+    const text = await request.text();
+    if (text) {
+      try { body = JSON.parse(text); } catch {
+        return NextResponse.json({ error: 'Invalid JSON body.' }, { status: 400 });
+      }
+    }
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return NextResponse.json({ error: 'Request body must be a JSON object.' }, { status: 400 });
+    }
+    const { supplierId } = body as { supplierId?: string };
+
+    const results = supplierId
+      ? [await runSupplierPayout(supplierId)]
+      : await runScheduledPayouts();
+
+    return NextResponse.json({
+      success: true,
+      paid: results.filter((r) => r.outcome === 'paid').length,
+      failed: results.filter((r) => r.outcome === 'failed').length,
+      results,
+    });
+  } catch (error) {
+    console.error('[POST /api/payouts] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error while running payouts.' },
+      { status: 500 }
+    );
+  }
+}
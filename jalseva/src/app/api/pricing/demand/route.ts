@@ -0,0 +1,60 @@
+// =============================================================================
+// JalSeva API - Demand Levels
+// =============================================================================
+// GET  /api/pricing/demand?zoneId=&limit=
+//   → { changes } audit log of automatic demand level changes, newest first
+// POST /api/pricing/demand
+//   body: {}
+//   → { success, updates } sample every zone and move its demand level
+//     (cron trigger)
+//
+// The same run also happens on a timer in every server process; see
+// '@/lib/demand/server'.
+// =============================================================================
+
+import { type NextRequest, NextResponse } from 'next/server';
+import { listDemandChanges, runDemandMonitor } from '@/lib/demand/server';
+
+// ---------------------------------------------------------------------------
+// GET - Audit log
+// ---------------------------------------------------------------------------
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const zoneId = searchParams.get('zoneId') || undefined;
+    const limit = parseInt(searchParams.get('limit') || '50', 10);
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > 500) {
+      return NextResponse.json(
+        { error: 'limit must be a whole number from 1 to 500.' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ changes: await listDemandChanges(zoneId, limit) });
+  } catch (error) {
+    console.error('[GET /api/pricing/demand] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error while loading demand changes.' },
+      { status: 500 }
+    );
+  }
+}
+
+// ---------------------------------------------------------------------------
+// POST - Run the demand monitor once
+// ---------------------------------------------------------------------------
+
+export async function POST() {
+  try {
+    const updates = await runDemandMonitor();
+    return NextResponse.json({ success: true, updates });
+  } catch (error) {
+    console.error('[POST /api/pricing/demand] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error while updating demand levels.' },
+      { status: 500 }
+    );
+  }
+}
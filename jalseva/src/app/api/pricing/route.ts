@@ -1,38 +1,23 @@
 // =============================================================================
 // JalSeva API - Pricing
 // =============================================================================
-// GET  /api/pricing  - Calculate dynamic price for given parameters
-// POST /api/pricing  - Admin: update zone pricing configuration
+// GET  /api/pricing  - Calculate dynamic price for given parameters. The
+//                      zone is `zone` (an id) or, given `lat` and `lng`, the
+//                      zone whose boundary contains that point
+// POST /api/pricing  - Admin: update zone pricing configuration, including
+//                      its `boundary` polygon, overlap `priority` and whether
+//                      it `isDefault` for points outside every zone
 // =============================================================================
 
 import { type NextRequest, NextResponse } from 'next/server';
 import { adminDb } from '@/lib/firebase-admin';
-import { getDemandLevel } from '@/lib/redis';
 import { firestoreBreaker } from '@/lib/circuit-breaker';
-import { hotCache, cacheAside, type LRUCache } from '@/lib/cache';
+import { calculateOrderPrice } from '@/lib/pricing';
+import { type ZoneRef, loadPricingContext } from '@/lib/pricing/server';
+import { parseBoundary } from '@/lib/pricing-zones';
+import { invalidatePricingZone } from '@/lib/pricing-zones/server';
 import type { WaterType, DemandLevel } from '@/types';
 
-// ---------------------------------------------------------------------------
-// Default Pricing Constants
-// ---------------------------------------------------------------------------
-
-const DEFAULT_BASE_PRICES: Record<WaterType, number> = {
-  ro: 150,
-  mineral: 200,
-  tanker: 500,
-};
-
-const DEFAULT_PER_KM_RATE = 15;
-
-const SURGE_MULTIPLIERS: Record<DemandLevel, number> = {
-  low: 0.9,
-  normal: 1.0,
-  high: 1.3,
-  surge: 1.8,
-};
-
-const DEFAULT_COMMISSION_PERCENT = 15;
-
 // ---------------------------------------------------------------------------
 // GET - Calculate price for given parameters
 // ---------------------------------------------------------------------------
@@ -44,6 +29,8 @@ export async function GET(request: NextRequest) {
     const quantity = parseFloat(searchParams.get('quantity') || '0');
     const distance = parseFloat(searchParams.get('distance') || '0');
     const zone = searchParams.get('zone') || 'default';
+    const lat = searchParams.get('lat');
+    const lng = searchParams.get('lng');
 
     // --- Validation ---
     const validWaterTypes: WaterType[] = ['ro', 'mineral', 'tanker'];
@@ -68,84 +55,50 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // --- Fetch zone pricing if available ---
-    let basePrices = DEFAULT_BASE_PRICES;
-    let perKmRate = DEFAULT_PER_KM_RATE;
-    let demandLevel: DemandLevel = 'normal';
-    let surgeMultiplier = SURGE_MULTIPLIERS.normal;
-
-    // Try to get zone-specific pricing from Firestore (with L1 cache)
-    const zoneData = await cacheAside<Record<string, unknown> | null>(
-      hotCache as LRUCache<Record<string, unknown> | null>,
-      `pricing_zone:${zone}`,
-      async () => {
-        const zoneDoc = await firestoreBreaker.execute(
-          () => adminDb.collection('pricing_zones').doc(zone).get(),
-          () => null
+    let where: ZoneRef = zone;
+    if (lat !== null || lng !== null) {
+      const point = { lat: parseFloat(lat ?? ''), lng: parseFloat(lng ?? '') };
+      if (!Number.isFinite(point.lat) || !Number.isFinite(point.lng)) {
+        return NextResponse.json(
+          { error: 'lat and lng must both be numbers.' },
+          { status: 400 }
         );
-        if (zoneDoc?.exists) return zoneDoc.data() as Record<string, unknown>;
-        return null;
-      },
-      120 // 2 minute TTL for zone pricing
-    );
-
-    if (zoneData) {
-      if (zoneData.basePrice) basePrices = zoneData.basePrice as Record<WaterType, number>;
-      if (zoneData.perKmRate) perKmRate = zoneData.perKmRate as number;
-      if (zoneData.surgeMultiplier) surgeMultiplier = zoneData.surgeMultiplier as number;
-      if (zoneData.demandLevel) demandLevel = zoneData.demandLevel as DemandLevel;
-    }
-
-    // Try to get real-time demand level (L1 cache first, then Redis with timeout)
-    const demandCacheKey = `demand:${zone}`;
-    const cachedDemand = hotCache.get(demandCacheKey) as DemandLevel | undefined;
-    if (cachedDemand) {
-      demandLevel = cachedDemand;
-      surgeMultiplier = SURGE_MULTIPLIERS[demandLevel];
-    } else {
-      try {
-        const redisDemandLevel = await Promise.race([
-          getDemandLevel(zone),
-          new Promise<null>((resolve) => setTimeout(() => resolve(null), 200)),
-        ]);
-        if (redisDemandLevel) {
-          demandLevel = redisDemandLevel;
-          surgeMultiplier = SURGE_MULTIPLIERS[demandLevel];
-          hotCache.set(demandCacheKey, demandLevel, 60);
-        }
-      } catch {
-        // Redis unavailable - use default demand level
       }
+      where = point;
     }
 
-    // --- Calculate price ---
-    const basePrice = basePrices[waterType] || DEFAULT_BASE_PRICES[waterType];
-    const distanceCharge = distance * perKmRate * (quantity / 20);
-    const subtotal = basePrice + distanceCharge;
-    const surgeAmount = subtotal * (surgeMultiplier - 1);
-    const total = Math.round(subtotal * surgeMultiplier);
-    const commission = Math.round(total * (DEFAULT_COMMISSION_PERCENT / 100));
-    const supplierEarning = total - commission;
+    // --- Calculate price (zone, commission and live demand) ---
+    const { zone: pricingZone, settings, demandLevel } = await loadPricingContext(where);
+    const price = calculateOrderPrice({
+      waterType,
+      quantityLitres: quantity,
+      distanceKm: distance,
+      zone: pricingZone,
+      settings,
+      demandLevel,
+    });
 
     return NextResponse.json({
       success: true,
       pricing: {
         breakdown: {
-          base: basePrice,
-          distance: Math.round(distanceCharge),
-          surge: Math.round(surgeAmount),
-          total,
+          base: price.base,
+          distance: price.distance,
+          surge: price.surge,
+          total: price.total,
         },
-        commission,
-        supplierEarning,
+        commission: price.commission,
+        supplierEarning: price.supplierEarning,
+        trace: price.trace,
         metadata: {
           waterType,
           quantityLitres: quantity,
           distanceKm: distance,
-          zone,
+          zone: pricingZone.id,
+          zoneName: pricingZone.name,
           demandLevel,
-          surgeMultiplier,
-          perKmRate,
+          surgeMultiplier: price.trace?.surgeMultiplier,
+          perKmRate: pricingZone.perKmRate,
         },
       },
     });
@@ -173,6 +126,9 @@ export async function POST(request: NextRequest) {
       perKmRate,
       surgeMultiplier,
       demandLevel,
+      boundary,
+      priority,
+      isDefault,
     } = body;
 
     // --- Validate admin ---
@@ -254,13 +210,59 @@ export async function POST(request: NextRequest) {
       updateData.demandLevel = demandLevel;
     }
 
+    if (boundary !== undefined) {
+      // null removes the boundary; the zone is then only used by id
+      if (boundary === null) {
+        updateData.boundary = null;
+      } else {
+        const parsed = parseBoundary(boundary);
+        if ('error' in parsed) {
+          return NextResponse.json({ error: parsed.error }, { status: 400 });
+        }
+        updateData.boundary = parsed.boundary;
+      }
+    }
+
+    if (priority !== undefined) {
+      if (!Number.isInteger(priority)) {
+        return NextResponse.json(
+          { error: 'priority must be a whole number.' },
+          { status: 400 }
+        );
+      }
+      updateData.priority = priority;
+    }
+
+    if (isDefault !== undefined) {
+      if (typeof isDefault !== 'boolean') {
+        return NextResponse.json(
+          { error: 'isDefault must be true or false.' },
+          { status: 400 }
+        );
+      }
+      updateData.isDefault = isDefault;
+    }
+
     // --- Upsert zone pricing ---
     await firestoreBreaker.execute(
       () => adminDb.collection('pricing_zones').doc(zoneId).set(updateData, { merge: true })
     );
 
-    // Invalidate L1 cache for this zone
-    hotCache.delete(`pricing_zone:${zoneId}`);
+    // Only one zone prices points outside every boundary
+    if (isDefault === true) {
+      const previous = await firestoreBreaker.execute(
+        () => adminDb.collection('pricing_zones').where('isDefault', '==', true).get(),
+        () => null
+      );
+      for (const doc of previous?.docs ?? []) {
+        if (doc.id === zoneId) continue;
+        await firestoreBreaker.execute(() => doc.ref.update({ isDefault: false }));
+        invalidatePricingZone(doc.id);
+      }
+    }
+
+    // Invalidate L1 cache for this zone and the zone list
+    invalidatePricingZone(zoneId);
 
     const updatedDoc = await firestoreBreaker.execute(
       () => adminDb.collection('pricing_zones').doc(zoneId).get(),
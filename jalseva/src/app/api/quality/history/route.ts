@@ -0,0 +1,30 @@
+// =============================================================================
+// JalSeva API - Water Quality History
+// =============================================================================
+// GET /api/quality/history?supplierId=X
+//   → { success, reports, trend, status, alerts, qualityScore, suspension }
+//
+// Every report the supplier has submitted (newest first), the pH/TDS trend
+// oldest first for charting, and the status and alerts of the latest one.
+// =============================================================================
+
+import { type NextRequest, NextResponse } from 'next/server';
+import { getQualityHistory } from '@/lib/quality/server';
+
+export async function GET(request: NextRequest) {
+  try {
+    const supplierId = new URL(request.url).searchParams.get('supplierId');
+    if (!supplierId) {
+      return NextResponse.json({ error: 'supplierId is required.' }, { status: 400 });
+    }
+
+    const history = await getQualityHistory(supplierId);
+    return NextResponse.json({ success: true, ...history });
+  } catch (error) {
+    console.error('[GET /api/quality/history] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error while loading quality history.' },
+      { status: 500 }
+    );
+  }
+}
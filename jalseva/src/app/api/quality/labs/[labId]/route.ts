@@ -0,0 +1,38 @@
+// =============================================================================
+// JalSeva API - Accredited Lab
+// =============================================================================
+// DELETE /api/quality/labs/[labId]   → { success }
+//
+// Admin only: the admin is the user in the `jalseva_auth` session cookie,
+// recognised by their user record. Reports already verified keep their
+// status; new certificates from the lab can no longer be verified.
+// =============================================================================
+
+import { type NextRequest, NextResponse } from 'next/server';
+import { sessionUserId } from '@/lib/auth/server';
+import { removeAccreditedLab } from '@/lib/quality/server';
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ labId: string }> }
+) {
+  try {
+    const { labId } = await params;
+    const adminId = sessionUserId(request);
+    if (!adminId) {
+      return NextResponse.json({ error: 'Sign in to manage labs.' }, { status: 401 });
+    }
+
+    const result = await removeAccreditedLab(labId, adminId);
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[DELETE /api/quality/labs/:id] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error while removing the lab.' },
+      { status: 500 }
+    );
+  }
+}
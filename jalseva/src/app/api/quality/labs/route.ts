@@ -0,0 +1,54 @@
+// =============================================================================
+// JalSeva API - Accredited Lab Registry
+// =============================================================================
+// GET  /api/quality/labs                              → { success, labs }
+// POST /api/quality/labs  { adminId, name, accreditationNo? }
+//   → 201 { success, lab }
+//
+// Only certificates from labs on this registry can be verified, and only
+// admins (by their user record) maintain it. Removing a lab:
+// DELETE /api/quality/labs/[labId].
+// =============================================================================
+
+import { type NextRequest, NextResponse } from 'next/server';
+import { addAccreditedLab, listAccreditedLabs } from '@/lib/quality/server';
+
+export async function GET() {
+  try {
+    const labs = await listAccreditedLabs();
+    return NextResponse.json({ success: true, labs });
+  } catch (error) {
+    console.error('[GET /api/quality/labs] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error while loading labs.' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    const { adminId, name, accreditationNo } = (body ?? {}) as {
+      adminId?: string;
+      name?: string;
+      accreditationNo?: string;
+    };
+
+    if (!adminId) {
+      return NextResponse.json({ error: 'adminId is required.' }, { status: 400 });
+    }
+
+    const result = await addAccreditedLab({ name, accreditationNo, addedBy: adminId });
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    return NextResponse.json({ success: true, lab: result.lab }, { status: 201 });
+  } catch (error) {
+    console.error('[POST /api/quality/labs] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error while adding the lab.' },
+      { status: 500 }
+    );
+  }
+}
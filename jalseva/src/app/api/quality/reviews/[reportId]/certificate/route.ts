@@ -0,0 +1,49 @@
+// =============================================================================
+// JalSeva API - Quality Certificate File
+// =============================================================================
+// GET /api/quality/reviews/[reportId]/certificate
+//   → the uploaded certificate, for an admin or the supplier who filed it
+//
+// Certificates are stored privately and only ever served through this route,
+// to the user in the `jalseva_auth` session cookie; admins are recognised by
+// their user record.
+// =============================================================================
+
+import { type NextRequest, NextResponse } from 'next/server';
+import { sessionUserId } from '@/lib/auth/server';
+import { readQualityCertificate } from '@/lib/quality/server';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ reportId: string }> }
+) {
+  try {
+    const { reportId } = await params;
+    const viewer = sessionUserId(request);
+
+    if (!reportId) {
+      return NextResponse.json({ error: 'reportId is required.' }, { status: 400 });
+    }
+    if (!viewer) {
+      return NextResponse.json({ error: 'Sign in to view the certificate.' }, { status: 401 });
+    }
+
+    const result = await readQualityCertificate(reportId, viewer);
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return new NextResponse(Buffer.from(result.bytes), {
+      headers: {
+        'Content-Type': result.contentType,
+        'Cache-Control': 'private, max-age=300',
+      },
+    });
+  } catch (error) {
+    console.error('[GET /api/quality/reviews/:id/certificate] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error while fetching the certificate.' },
+      { status: 500 }
+    );
+  }
+}
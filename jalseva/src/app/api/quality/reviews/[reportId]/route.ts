@@ -0,0 +1,52 @@
+// =============================================================================
+// JalSeva API - Certificate Review Decision
+// =============================================================================
+// PATCH /api/quality/reviews/[reportId]
+//   { adminId, decision: 'verified' | 'rejected', note? }
+//   → { success, report, qualityScore }
+//
+// Only admins (by their user record) can review. Verifying needs the lab on
+// the accredited registry; rejecting needs a note. qualityScore is the supplier's new score when the report is their
+// latest, else null.
+// =============================================================================
+
+import { type NextRequest, NextResponse } from 'next/server';
+import { reviewQualityReport } from '@/lib/quality/server';
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ reportId: string }> }
+) {
+  try {
+    const { reportId } = await params;
+    const body = await request.json().catch(() => null);
+    const { adminId, decision, note } = (body ?? {}) as {
+      adminId?: string;
+      decision?: string;
+      note?: string;
+    };
+
+    if (!reportId || !adminId || !decision) {
+      return NextResponse.json(
+        { error: 'reportId, adminId and decision are required.' },
+        { status: 400 }
+      );
+    }
+
+    const result = await reviewQualityReport(reportId, { adminId, decision, note });
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    return NextResponse.json({
+      success: true,
+      report: result.report,
+      qualityScore: result.qualityScore,
+    });
+  } catch (error) {
+    console.error('[PATCH /api/quality/reviews/:id] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error while reviewing the certificate.' },
+      { status: 500 }
+    );
+  }
+}
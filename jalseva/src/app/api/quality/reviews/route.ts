@@ -0,0 +1,26 @@
+// =============================================================================
+// JalSeva API - Certificate Review Queue
+// =============================================================================
+// GET /api/quality/reviews
+//   → { success, queue: [{ report, lab }] }
+//
+// Quality reports whose lab certificate awaits an admin, oldest first. `lab`
+// is the accredited registry entry the report's lab name matches, or null.
+// Decisions: PATCH /api/quality/reviews/[reportId].
+// =============================================================================
+
+import { NextResponse } from 'next/server';
+import { listCertificateQueue } from '@/lib/quality/server';
+
+export async function GET() {
+  try {
+    const queue = await listCertificateQueue();
+    return NextResponse.json({ success: true, queue });
+  } catch (error) {
+    console.error('[GET /api/quality/reviews] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error while loading the review queue.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,26 @@
+// =============================================================================
+// JalSeva API - Water Quality Expiry Sweep
+// =============================================================================
+// POST /api/quality/sweep             - Suspend the water types of every
+//      body: {}                         supplier whose latest report has
+//                                       expired (cron trigger)
+//
+// Safe to call repeatedly: suppliers already suspended are skipped. A new
+// safe report restores the suspended water types.
+// =============================================================================
+
+import { NextResponse } from 'next/server';
+import { sweepExpiredReports } from '@/lib/quality/server';
+
+export async function POST() {
+  try {
+    const results = await sweepExpiredReports();
+    return NextResponse.json({ success: true, suspended: results.length, results });
+  } catch (error) {
+    console.error('[POST /api/quality/sweep] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error while sweeping quality reports.' },
+      { status: 500 }
+    );
+  }
+}
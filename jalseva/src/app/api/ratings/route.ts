@@ -2,12 +2,17 @@
 // JalSeva API - Ratings
 // =============================================================================
 // POST /api/ratings - Submit a rating for a completed order
+//   { orderId, ratedBy: 'customer' | 'supplier', raterId, rating, feedback?,
+//     dimensions?: { punctuality?, waterQuality?, behavior? } }
+//   → { success, rating, rated }
+//
+// The rating is added to the rated party's sharded running totals, and their
+// Rating (average, Bayesian score, per-dimension averages) and, for
+// suppliers, qualityScore are recalculated. See '@/lib/ratings/server'.
 // =============================================================================
 
 import { type NextRequest, NextResponse } from 'next/server';
-import { adminDb } from '@/lib/firebase-admin';
-import { firestoreBreaker } from '@/lib/circuit-breaker';
-import { batchWriter } from '@/lib/batch-writer';
+import { submitOrderRating } from '@/lib/ratings/server';
 
 // ---------------------------------------------------------------------------
 // POST - Submit a rating for an order
@@ -22,12 +27,14 @@ export async function POST(request: NextRequest) {
       raterId, // userId of the person giving the rating
       rating,
       feedback,
+      dimensions,
     } = body as {
       orderId: string;
       ratedBy: 'customer' | 'supplier';
       raterId: string;
       rating: number;
       feedback?: string;
+      dimensions?: unknown;
     };
 
     // --- Validation ---
@@ -52,129 +59,16 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (typeof rating !== 'number' || rating < 1 || rating > 5) {
-      return NextResponse.json(
-        { error: 'Rating must be a number between 1 and 5.' },
-        { status: 400 }
-      );
-    }
-
-    // --- Fetch order ---
-    const orderRef = adminDb.collection('orders').doc(orderId);
-    const orderDoc = await firestoreBreaker.execute(
-      () => orderRef.get(),
-      () => null
-    );
-
-    if (!orderDoc || !orderDoc.exists) {
-      return NextResponse.json(
-        { error: 'Order not found.' },
-        { status: 404 }
-      );
-    }
-
-    const order = orderDoc.data()!;
-
-    // Only allow ratings for delivered orders
-    if (order.status !== 'delivered') {
-      return NextResponse.json(
-        { error: 'Ratings can only be submitted for delivered orders.' },
-        { status: 400 }
-      );
-    }
-
-    // Verify the rater is part of this order
-    if (ratedBy === 'customer' && order.customerId !== raterId) {
-      return NextResponse.json(
-        { error: 'You are not the customer for this order.' },
-        { status: 403 }
-      );
-    }
-
-    if (ratedBy === 'supplier' && order.supplierId !== raterId) {
-      return NextResponse.json(
-        { error: 'You are not the supplier for this order.' },
-        { status: 403 }
-      );
-    }
-
-    // Check if already rated by this party
-    const existingRating = order.rating || {};
-    if (ratedBy === 'customer' && existingRating.customerRating) {
-      return NextResponse.json(
-        { error: 'Customer has already rated this order.' },
-        { status: 409 }
-      );
-    }
-    if (ratedBy === 'supplier' && existingRating.supplierRating) {
-      return NextResponse.json(
-        { error: 'Supplier has already rated this order.' },
-        { status: 409 }
-      );
-    }
-
-    // --- Update order with rating ---
-    const ratingUpdate: Record<string, unknown> = {
-      updatedAt: new Date().toISOString(),
-    };
-
-    if (ratedBy === 'customer') {
-      ratingUpdate['rating.customerRating'] = rating;
-      if (feedback) ratingUpdate['rating.customerFeedback'] = feedback;
-    } else {
-      ratingUpdate['rating.supplierRating'] = rating;
-      if (feedback) ratingUpdate['rating.supplierFeedback'] = feedback;
-    }
-
-    batchWriter.update('orders', orderId, ratingUpdate);
-
-    // --- Recalculate and update the rated party's average rating ---
-    // If customer rated, update supplier's average. If supplier rated, update customer's average.
-    const ratedEntityId =
-      ratedBy === 'customer' ? order.supplierId : order.customerId;
-    const ratingField =
-      ratedBy === 'customer' ? 'customerRating' : 'supplierRating';
-
-    if (ratedEntityId) {
-      // Query all delivered orders for this entity to recalculate average
-      const entityField = ratedBy === 'customer' ? 'supplierId' : 'customerId';
-      const ratingsSnapshot = await adminDb
-        .collection('orders')
-        .where(entityField, '==', ratedEntityId)
-        .where('status', '==', 'delivered')
-        .get();
-
-      let totalRating = 0;
-      let ratingCount = 0;
-
-      ratingsSnapshot.forEach((doc) => {
-        const orderData = doc.data();
-        // For the current order, use the just-submitted rating since the
-        // Firestore query may not yet reflect the update we made above.
-        const orderRating =
-          doc.id === orderId ? rating : orderData.rating?.[ratingField];
-        if (typeof orderRating === 'number') {
-          totalRating += orderRating;
-          ratingCount++;
-        }
-      });
-
-      const newAverage = parseFloat((totalRating / ratingCount).toFixed(2));
-
-      // Update the rated entity's rating
-      if (ratedBy === 'customer' && order.supplierId) {
-        // Update supplier rating
-        batchWriter.update('suppliers', order.supplierId as string, {
-          'rating.average': newAverage,
-          'rating.count': ratingCount,
-        });
-      } else if (ratedBy === 'supplier' && order.customerId) {
-        // Update customer (user) rating
-        batchWriter.update('users', order.customerId as string, {
-          'rating.average': newAverage,
-          'rating.count': ratingCount,
-        });
-      }
+    const result = await submitOrderRating({
+      orderId,
+      ratedBy,
+      raterId,
+      rating,
+      feedback,
+      dimensions,
+    });
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
     }
 
     return NextResponse.json({
@@ -185,7 +79,9 @@ export async function POST(request: NextRequest) {
         ratedBy,
         rating,
         feedback: feedback || null,
+        dimensions: result.orderRating.customerDimensions ?? null,
       },
+      rated: result.rated,
     });
   } catch (error) {
     console.error('[POST /api/ratings] Error:', error);
@@ -0,0 +1,146 @@
+// =============================================================================
+// JalSeva API - Subscription Billing (prepaid monthly, UPI AutoPay)
+// =============================================================================
+// GET  /api/subscriptions/billing?subscriptionId=
+//      - The plan's billing state and its invoices, latest month first
+// POST /api/subscriptions/billing  - Manage UPI AutoPay:
+//      { subscriptionId, action: 'setup_mandate', vpa }
+//                                     register a mandate (awaits approval)
+//      { subscriptionId, action: 'confirm_mandate' }
+//                                     the customer approved it in their UPI
+//                                     app; bills the rest of this month
+//      { subscriptionId, action: 'cancel_mandate' }
+//                                     back to paying per delivery
+//      { subscriptionId, action: 'pay_now' }
+//                                     charge the overdue invoice now;
+//                                     resumes a plan paused for non-payment
+//
+// Cycles, proration and dunning are described in '@/lib/subscription-billing'.
+// =============================================================================
+
+import { type NextRequest, NextResponse } from 'next/server';
+import { getSubscription } from '@/lib/demo-store';
+import {
+  type BillingResult,
+  cancelMandate,
+  confirmMandate,
+  listSubscriptionInvoices,
+  payInvoice,
+  setupMandate,
+} from '@/lib/subscription-billing/server';
+
+// ---------------------------------------------------------------------------
+// Firebase Admin - lazy import with fallback
+// ---------------------------------------------------------------------------
+
+function hasAdminCredentials(): boolean {
+  return !!(
+    process.env.FIREBASE_ADMIN_CLIENT_EMAIL &&
+    process.env.FIREBASE_ADMIN_PRIVATE_KEY
+  );
+}
+
+async function getAdminDb() {
+  const { adminDb } = await import('@/lib/firebase-admin');
+  return adminDb;
+}
+
+// ---------------------------------------------------------------------------
+// GET - Billing state and history
+// ---------------------------------------------------------------------------
+
+export async function GET(request: NextRequest) {
+  try {
+    const subscriptionId = new URL(request.url).searchParams.get('subscriptionId');
+    if (!subscriptionId) {
+      return NextResponse.json({ error: 'subscriptionId is required.' }, { status: 400 });
+    }
+
+    let billing: unknown = null;
+    if (hasAdminCredentials()) {
+      const adminDb = await getAdminDb();
+      const snap = await adminDb.collection('subscriptions').doc(subscriptionId).get();
+      if (!snap.exists) {
+        return NextResponse.json({ error: 'Subscription not found.' }, { status: 404 });
+      }
+      billing = snap.data()?.billing ?? null;
+    } else {
+      const subscription = getSubscription(subscriptionId);
+      if (!subscription) {
+        return NextResponse.json({ error: 'Subscription not found.' }, { status: 404 });
+      }
+      billing = subscription.billing ?? null;
+    }
+
+    const invoices = await listSubscriptionInvoices(subscriptionId);
+    return NextResponse.json({ success: true, subscriptionId, billing, invoices });
+  } catch (error) {
+    console.error('[GET /api/subscriptions/billing] Error:', error);
+    return NextResponse.json({ error: 'Internal server error.' }, { status: 500 });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// POST - AutoPay actions
+// ---------------------------------------------------------------------------
+
+const VALID_ACTIONS = ['setup_mandate', 'confirm_mandate', 'cancel_mandate', 'pay_now'] as const;
+type BillingAction = (typeof VALID_ACTIONS)[number];
+
+export async function POST(request: NextRequest) {
+  try {
+    let body: unknown;
+    try { body = await request.json(); } catch {
+      return NextResponse.json({ error: 'Invalid JSON body.' }, { status: 400 });
+    }
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return NextResponse.json({ error: 'Body must be a JSON object.' }, { status: 400 });
+    }
+
+    const { subscriptionId, action, vpa } = body as {
+      subscriptionId: string;
+      action: BillingAction;
+      vpa?: string;
+    };
+
+    if (!subscriptionId) {
+      return NextResponse.json({ error: 'subscriptionId is required.' }, { status: 400 });
+    }
+    if (!action || !VALID_ACTIONS.includes(action)) {
+      return NextResponse.json(
+        { error: `action must be one of ${VALID_ACTIONS.join(', ')}.` },
+        { status: 400 }
+      );
+    }
+
+    let result: BillingResult;
+    switch (action) {
+      case 'setup_mandate':
+        result = await setupMandate(subscriptionId, vpa ?? '');
+        break;
+      case 'confirm_mandate':
+        result = await confirmMandate(subscriptionId);
+        break;
+      case 'cancel_mandate':
+        result = await cancelMandate(subscriptionId);
+        break;
+      case 'pay_now':
+        result = await payInvoice(subscriptionId);
+        break;
+    }
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({
+      success: true,
+      subscriptionId,
+      action,
+      billing: result.subscription.billing ?? null,
+      ...(result.invoice ? { invoice: result.invoice } : {}),
+    });
+  } catch (error) {
+    console.error('[POST /api/subscriptions/billing] Error:', error);
+    return NextResponse.json({ error: 'Internal server error.' }, { status: 500 });
+  }
+}
@@ -3,18 +3,42 @@
 // =============================================================================
 // POST /api/subscriptions     - Create a recurring delivery subscription
 // GET  /api/subscriptions     - List subscriptions for a customer
-// PUT  /api/subscriptions     - Update/pause/cancel a subscription
+// PUT  /api/subscriptions     - Change a subscription:
+//      { subscriptionId, action: 'pause' | 'resume' | 'cancel' | 'release_hold' }
+//      { subscriptionId, action: 'update', frequency?, weekdays?, deliveryWindow? }
+//      { subscriptionId, action: 'skip' | 'unskip' | 'clear_override', date }
+//      { subscriptionId, action: 'hold', from, until }
+//      { subscriptionId, action: 'override', date, quantityLitres?, deliveryLocation? }
+//
+// Dates are India dates (YYYY-MM-DD); see '@/lib/subscriptions'.
+// Deliveries are generated from `nextDeliveryDate` by the subscription
+// scheduler ('@/lib/subscriptions/server'), assigned to the optional
+// preferred `supplierId` or dispatched like any other order. Plans can be
+// prepaid monthly over UPI AutoPay (/api/subscriptions/billing); one paused
+// for an unpaid invoice cannot be resumed (402) until it is paid.
 // =============================================================================
 // Inspired by: Tankerwala's bulk order/scheduling feature and DrinkPrime's
 // subscription model. JalSeva adds AI-powered delivery optimization.
 // =============================================================================
 
 import { type NextRequest, NextResponse } from 'next/server';
+import * as store from '@/lib/demo-store';
+import { quoteOrder } from '@/lib/pricing/server';
+import {
+  SUBSCRIPTION_DISCOUNT,
+  type SubscriptionChange,
+  calculateNextDeliveryDate,
+  isDeliveryWindow,
+  isWeekday,
+} from '@/lib/subscriptions';
+import { updateSubscription } from '@/lib/subscriptions/server';
 import type {
   WaterType,
   PaymentMethod,
   SubscriptionFrequency,
   GeoLocation,
+  DeliveryWindow,
+  Weekday,
 } from '@/types';
 
 // ---------------------------------------------------------------------------
@@ -37,32 +61,10 @@ async function getAdminDb() {
 // Helpers
 // ---------------------------------------------------------------------------
 
-const FREQUENCY_DAYS: Record<SubscriptionFrequency, number> = {
-  daily: 1,
-  weekly: 7,
-  biweekly: 14,
-  monthly: 30,
-};
-
-function calculateNextDeliveryDate(frequency: SubscriptionFrequency): string {
-  const next = new Date();
-  next.setDate(next.getDate() + FREQUENCY_DAYS[frequency]);
-  return next.toISOString();
-}
-
 const VALID_WATER_TYPES: WaterType[] = ['ro', 'mineral', 'tanker'];
 const VALID_FREQUENCIES: SubscriptionFrequency[] = ['daily', 'weekly', 'biweekly', 'monthly'];
 const VALID_PAYMENT_METHODS: PaymentMethod[] = ['upi', 'card', 'wallet', 'cash'];
 
-const BASE_PRICES: Record<WaterType, number> = {
-  ro: 150,
-  mineral: 200,
-  tanker: 500,
-};
-
-// Subscription discount: 10% off per-delivery price
-const SUBSCRIPTION_DISCOUNT = 0.10;
-
 // ---------------------------------------------------------------------------
 // POST - Create subscription
 // ---------------------------------------------------------------------------
@@ -77,11 +79,24 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Body must be a JSON object.' }, { status: 400 });
     }
 
-    const { customerId, waterType, quantityLitres, frequency, deliveryLocation, paymentMethod } = body as {
+    const {
+      customerId,
+      supplierId,
+      waterType,
+      quantityLitres,
+      frequency,
+      weekdays,
+      deliveryWindow,
+      deliveryLocation,
+      paymentMethod,
+    } = body as {
       customerId: string;
+      supplierId?: string;
       waterType: WaterType;
       quantityLitres: number;
       frequency: SubscriptionFrequency;
+      weekdays?: Weekday[];
+      deliveryWindow?: DeliveryWindow;
       deliveryLocation: GeoLocation;
       paymentMethod: PaymentMethod;
     };
@@ -105,13 +120,42 @@ export async function POST(request: NextRequest) {
     if (!paymentMethod || !VALID_PAYMENT_METHODS.includes(paymentMethod)) {
       return NextResponse.json({ error: 'Invalid paymentMethod.' }, { status: 400 });
     }
+    if (supplierId !== undefined && (typeof supplierId !== 'string' || !supplierId)) {
+      return NextResponse.json({ error: 'supplierId must be a non-empty string.' }, { status: 400 });
+    }
+    if (weekdays !== undefined) {
+      if (frequency !== 'weekly') {
+        return NextResponse.json({ error: 'Weekdays can only be set on a weekly plan.' }, { status: 400 });
+      }
+      if (!Array.isArray(weekdays) || !weekdays.every(isWeekday)) {
+        return NextResponse.json({ error: 'weekdays must be days of the week, 0 (Sunday) to 6.' }, { status: 400 });
+      }
+    }
+    if (deliveryWindow !== undefined && !isDeliveryWindow(deliveryWindow)) {
+      return NextResponse.json(
+        { error: 'deliveryWindow must be { start, end } as HH:MM, start before end.' },
+        { status: 400 }
+      );
+    }
+    const schedule = {
+      frequency,
+      ...(weekdays?.length ? { weekdays: [...new Set(weekdays)].sort() } : {}),
+      ...(deliveryWindow ? { deliveryWindow } : {}),
+    };
 
-    // Calculate discounted price
-    const basePrice = BASE_PRICES[waterType];
-    const pricePerDelivery = Math.round(basePrice * (1 - SUBSCRIPTION_DISCOUNT));
+    // Calculate discounted price through the shared pricing engine
+    const { price } = await quoteOrder(
+      {
+        waterType,
+        quantityLitres,
+        discountPercent: SUBSCRIPTION_DISCOUNT * 100,
+      },
+      deliveryLocation
+    );
+    const pricePerDelivery = price.total;
 
     const now = new Date().toISOString();
-    const nextDeliveryDate = calculateNextDeliveryDate(frequency);
+    const nextDeliveryDate = calculateNextDeliveryDate(schedule);
 
     // Try Firestore
     if (hasAdminCredentials()) {
@@ -121,14 +165,16 @@ export async function POST(request: NextRequest) {
         const subscription = {
           id: subRef.id,
           customerId,
+          ...(supplierId ? { supplierId } : {}),
           waterType,
           quantityLitres,
-          frequency,
+          ...schedule,
           deliveryLocation,
           nextDeliveryDate,
           isActive: true,
           paymentMethod,
           pricePerDelivery,
+          price,
           createdAt: now,
         };
 
@@ -140,23 +186,30 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Demo mode
+    // Demo mode: kept in the demo store so the scheduler can deliver it
     const subscriptionId = `sub_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
     const subscription = {
       id: subscriptionId,
       customerId,
+      ...(supplierId ? { supplierId } : {}),
       waterType,
       quantityLitres,
-      frequency,
+      ...schedule,
       deliveryLocation,
       nextDeliveryDate,
       isActive: true,
       paymentMethod,
       pricePerDelivery,
+      price,
       savingsPercent: SUBSCRIPTION_DISCOUNT * 100,
       createdAt: now,
       demo: true,
     };
+    store.saveSubscription({
+      ...subscription,
+      nextDeliveryDate: new Date(nextDeliveryDate),
+      createdAt: new Date(now),
+    });
 
     return NextResponse.json({ success: true, subscription }, { status: 201 });
   } catch (error) {
@@ -200,7 +253,8 @@ export async function GET(request: NextRequest) {
     }
 
     // Demo mode
-    return NextResponse.json({ success: true, subscriptions: [], count: 0, demo: true });
+    const subscriptions = store.listSubscriptions(customerId);
+    return NextResponse.json({ success: true, subscriptions, count: subscriptions.length, demo: true });
   } catch (error) {
     console.error('[GET /api/subscriptions] Error:', error);
     return NextResponse.json({ error: 'Internal server error.' }, { status: 500 });
@@ -208,9 +262,22 @@ export async function GET(request: NextRequest) {
 }
 
 // ---------------------------------------------------------------------------
-// PUT - Update subscription (pause/cancel/update frequency)
+// PUT - Change a subscription (pause, schedule, skip, hold, one-off changes)
 // ---------------------------------------------------------------------------
 
+const VALID_ACTIONS: SubscriptionChange['action'][] = [
+  'pause',
+  'resume',
+  'cancel',
+  'update',
+  'skip',
+  'unskip',
+  'hold',
+  'release_hold',
+  'override',
+  'clear_override',
+];
+
 export async function PUT(request: NextRequest) {
   try {
     let body: unknown;
@@ -221,64 +288,44 @@ export async function PUT(request: NextRequest) {
       return NextResponse.json({ error: 'Body must be a JSON object.' }, { status: 400 });
     }
 
-    const { subscriptionId, action, frequency } = body as {
+    const { subscriptionId, action, ...fields } = body as {
       subscriptionId: string;
-      action: 'pause' | 'resume' | 'cancel' | 'update';
+      action: SubscriptionChange['action'];
       frequency?: SubscriptionFrequency;
+      weekdays?: Weekday[];
+      deliveryWindow?: DeliveryWindow | null;
+      date?: string;
+      from?: string;
+      until?: string;
+      quantityLitres?: number;
+      deliveryLocation?: GeoLocation;
     };
 
     if (!subscriptionId) {
       return NextResponse.json({ error: 'subscriptionId is required.' }, { status: 400 });
     }
-
-    const validActions = ['pause', 'resume', 'cancel', 'update'];
-    if (!action || !validActions.includes(action)) {
-      return NextResponse.json({ error: 'action must be pause, resume, cancel, or update.' }, { status: 400 });
+    if (!action || !VALID_ACTIONS.includes(action)) {
+      return NextResponse.json(
+        { error: `action must be one of ${VALID_ACTIONS.join(', ')}.` },
+        { status: 400 }
+      );
+    }
+    if (fields.frequency !== undefined && !VALID_FREQUENCIES.includes(fields.frequency)) {
+      return NextResponse.json({ error: 'Invalid frequency. Use daily, weekly, biweekly, or monthly.' }, { status: 400 });
     }
 
-    if (hasAdminCredentials()) {
-      try {
-        const adminDb = await getAdminDb();
-        const subRef = adminDb.collection('subscriptions').doc(subscriptionId);
-        const subDoc = await subRef.get();
-
-        if (!subDoc.exists) {
-          return NextResponse.json({ error: 'Subscription not found.' }, { status: 404 });
-        }
-
-        const updates: Record<string, unknown> = { updatedAt: new Date().toISOString() };
-
-        if (action === 'pause') updates.isActive = false;
-        if (action === 'resume') {
-          updates.isActive = true;
-          updates.nextDeliveryDate = calculateNextDeliveryDate(
-            (subDoc.data()?.frequency || 'weekly') as SubscriptionFrequency
-          );
-        }
-        if (action === 'cancel') {
-          updates.isActive = false;
-          updates.cancelledAt = new Date().toISOString();
-        }
-        if (action === 'update' && frequency && VALID_FREQUENCIES.includes(frequency)) {
-          updates.frequency = frequency;
-          updates.nextDeliveryDate = calculateNextDeliveryDate(frequency);
-        }
-
-        await subRef.update(updates);
-
-        return NextResponse.json({ success: true, subscriptionId, action, updates });
-      } catch (dbError) {
-        console.warn('[PUT /api/subscriptions] Firestore error:', dbError);
-      }
+    // Shape-checked by applySubscriptionChange
+    const change = { action, ...fields } as SubscriptionChange;
+    const result = await updateSubscription(subscriptionId, change);
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
     }
 
-    // Demo mode
     return NextResponse.json({
       success: true,
       subscriptionId,
       action,
-      demo: true,
-      message: `Subscription ${action}d successfully.`,
+      subscription: result.subscription,
     });
   } catch (error) {
     console.error('[PUT /api/subscriptions] Error:', error);
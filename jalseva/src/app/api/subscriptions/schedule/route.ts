@@ -0,0 +1,35 @@
+// =============================================================================
+// JalSeva API - Subscription Scheduler
+// =============================================================================
+// POST /api/subscriptions/schedule  - Bill prepaid plans that are due, then
+//      body: {}                       generate orders for subscription
+//                                     deliveries due within the lead time
+//                                     (cron trigger)
+//
+// Safe to call repeatedly and from several instances: each invoice is
+// issued and each delivery slot generated once. The same run also happens
+// on a timer in every server process; see '@/lib/subscriptions/server'.
+// =============================================================================
+
+import { NextResponse } from 'next/server';
+import { runSubscriptionBilling } from '@/lib/subscription-billing/server';
+import { runSubscriptionScheduler } from '@/lib/subscriptions/server';
+
+export async function POST() {
+  try {
+    const billing = await runSubscriptionBilling();
+    const results = await runSubscriptionScheduler();
+    return NextResponse.json({
+      success: true,
+      billing,
+      generated: results.filter((r) => r.orderId).length,
+      results,
+    });
+  } catch (error) {
+    console.error('[POST /api/subscriptions/schedule] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error while scheduling subscription deliveries.' },
+      { status: 500 }
+    );
+  }
+}
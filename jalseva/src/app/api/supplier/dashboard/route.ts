@@ -2,10 +2,21 @@
 // JalSeva API - Supplier Dashboard (in-memory demo)
 // =============================================================================
 // GET  /api/supplier/dashboard?supplierId=X
-//      → { supplier, isOnline, pendingOrders, activeOrder, todayEarnings }
+//      → { supplier, isOnline, pendingOrders, activeOrder, todayEarnings,
+//          driver?, fleet? }
 // POST /api/supplier/dashboard
-//      body: { action, supplierId, orderId?, online? }
-//      actions: toggleOnline | acceptOrder | rejectOrder
+//      body: { action, supplierId, orderId?, online?, vehicleId? }
+//      actions: toggleOnline | acceptOrder | rejectOrder | assignVehicle
+//
+// supplierId may also be a fleet driver's user id (see '@/lib/fleet'): the
+// driver gets their fleet's dashboard narrowed to their own vehicle, its
+// offers and the orders assigned to them. Fleet suppliers go online per
+// vehicle, and manually accepted orders go to a vehicle with a driver.
+//
+// Only verified suppliers can go online (see '@/lib/kyc'). Online suppliers
+// are kept in the geohash supplierIndex so the dispatcher can offer them
+// orders; an order under a dispatcher offer is shown only to the supplier
+// holding the offer, and accept/reject answer that offer.
 //
 // Reads/writes the singleton in-memory store on the Cloud Run instance. No
 // Firestore involved — the demo runs for a few minutes; when the container
@@ -14,6 +25,51 @@
 
 import { type NextRequest, NextResponse } from 'next/server';
 import * as store from '@/lib/demo-store';
+import { transitionStoreOrder } from '@/lib/order-lifecycle';
+import { dispatcher, toIndexData } from '@/lib/dispatch';
+import { supplierIndex } from '@/lib/geohash';
+import { chooseVehicle, driverVehicle, fleetEarnings, hasFleet } from '@/lib/fleet';
+import { canDeliverInTrips } from '@/lib/delivery-legs';
+import {
+  assignOrderVehicle,
+  driverCanSee,
+  setFleetOnline,
+  setVehicleOnline,
+  syncFleetIndex,
+} from '@/lib/fleet/server';
+import type { DispatchInfo, Supplier } from '@/types';
+
+/** Keeps the dispatcher's view of a demo supplier in sync with the store. */
+function syncSupplierIndex(supplier: Supplier): void {
+  if (hasFleet(supplier)) {
+    syncFleetIndex(supplier);
+    return;
+  }
+  if (!supplier.isOnline) {
+    supplierIndex.remove(supplier.id);
+    return;
+  }
+  const { lat, lng } = supplier.currentLocation ?? store.DEMO_IDS.hub;
+  supplierIndex.upsert(supplier.id, lat, lng, toIndexData(supplier));
+}
+
+/** The supplier behind a dashboard id, and the driver when it is a fleet driver's. */
+function resolveSupplier(id: string): { supplier: Supplier | null; driverId?: string } {
+  const fleet = store.findSupplierByDriver(id);
+  if (fleet) return { supplier: fleet, driverId: id };
+  return { supplier: store.getSupplier(id) };
+}
+
+/** Whether a dispatcher offer is held by this supplier, or by this driver's vehicle. */
+function holdsOffer(
+  dispatch: DispatchInfo | null | undefined,
+  supplierId: string,
+  driverId?: string,
+): boolean {
+  const offer = dispatch?.offer;
+  if (!offer || offer.supplierId !== supplierId) return false;
+  return !driverId || offer.driverId === driverId;
+}
 
 export async function GET(request: NextRequest) {
   try {
@@ -26,7 +82,9 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    let supplier = store.getSupplier(supplierId);
+    const resolved = resolveSupplier(supplierId);
+    const { driverId } = resolved;
+    let supplier = resolved.supplier;
 
     // If the demo supplier doesn't exist yet (e.g. someone signed in with a
     // non-seeded number while choosing Supplier), auto-create a minimal
@@ -45,16 +103,39 @@ export async function GET(request: NextRequest) {
       }
     }
 
-    const pendingOrders = supplier.isOnline ? store.listPendingOrders() : [];
-    const activeOrders = store.listActiveOrdersForSupplier(supplierId);
-    const todayEarnings = store.getTodayEarningsForSupplier(supplierId);
+    syncSupplierIndex(supplier);
+    const owner = supplier;
+    const vehicle = driverId ? driverVehicle(owner, driverId) : undefined;
+    const isOnline = driverId ? !!vehicle?.isOnline : owner.isOnline;
+
+    // Orders under a dispatcher offer are visible only to the offered
+    // supplier, and cash orders not at all to one blocked from cash.
+    const pendingOrders = isOnline
+      ? store
+          .listPendingOrders()
+          .filter((o) => !o.dispatch?.offer || holdsOffer(o.dispatch, owner.id))
+          .filter((o) => !owner.cashBlocked || o.payment.method !== 'cash')
+          .filter((o) => !driverId || driverCanSee(owner, driverId, o))
+      : [];
+    const activeOrders = store
+      .listActiveOrdersForSupplier(owner.id)
+      .filter((o) => !driverId || o.driverId === driverId);
+    const fleet = hasFleet(owner)
+      ? fleetEarnings(owner, store.listOrdersBySupplier(owner.id))
+      : undefined;
+    const todayEarnings = driverId
+      ? (fleet?.vehicles.find((v) => v.vehicleId === vehicle?.id)?.today.earnings ?? 0)
+      : store.getTodayEarningsForSupplier(owner.id);
 
     return NextResponse.json({
-      supplier,
-      isOnline: supplier.isOnline,
+      supplier: owner,
+      isOnline,
       pendingOrders,
       activeOrder: activeOrders[0] || null,
       todayEarnings,
+      ...(driverId ? { driver: { id: driverId, vehicleId: vehicle?.id ?? null } } : {}),
+      // Drivers see their own vehicle's figures only
+      ...(fleet && !driverId ? { fleet } : {}),
     });
   } catch (error) {
     console.error('[GET /api/supplier/dashboard] Error:', error);
@@ -68,11 +149,12 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { action, supplierId, orderId, online } = body as {
+    const { action, supplierId, orderId, online, vehicleId } = body as {
       action?: string;
       supplierId?: string;
       orderId?: string;
       online?: boolean;
+      vehicleId?: string;
     };
 
     if (!action || !supplierId) {
@@ -82,16 +164,46 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const { supplier, driverId } = resolveSupplier(supplierId);
+
     if (action === 'toggleOnline') {
-      const supplier = store.getSupplier(supplierId);
       if (!supplier) {
         return NextResponse.json(
           { error: 'supplier not found' },
           { status: 404 },
         );
       }
+      if (hasFleet(supplier)) {
+        // Drivers switch their own vehicle; the owner one vehicle or all
+        const target = driverId ? driverVehicle(supplier, driverId)?.id : vehicleId;
+        if (driverId && !target) {
+          return NextResponse.json(
+            { error: 'You are not assigned to a vehicle.' },
+            { status: 409 },
+          );
+        }
+        const current = target ? !!supplier.fleet?.[target]?.isOnline : supplier.isOnline;
+        const next = typeof online === 'boolean' ? online : !current;
+        const result = target
+          ? await setVehicleOnline(supplier.id, target, next)
+          : await setFleetOnline(supplier.id, next);
+        if (!result.success) {
+          return NextResponse.json(
+            { error: result.error },
+            { status: result.status },
+          );
+        }
+        return NextResponse.json({ success: true, isOnline: next });
+      }
       const next = typeof online === 'boolean' ? online : !supplier.isOnline;
-      store.setSupplierOnline(supplierId, next);
+      if (next && supplier.verificationStatus !== 'verified') {
+        return NextResponse.json(
+          { error: 'Your documents must be verified before you can go online.' },
+          { status: 403 },
+        );
+      }
+      store.setSupplierOnline(supplier.id, next);
+      syncSupplierIndex({ ...supplier, isOnline: next });
       return NextResponse.json({ success: true, isOnline: next });
     }
 
@@ -102,14 +214,56 @@ export async function POST(request: NextRequest) {
           { status: 400 },
         );
       }
-      const updated = store.acceptOrderInStore(orderId, supplierId);
-      if (!updated) {
+      if (!supplier) {
         return NextResponse.json(
-          { error: 'order not pending or not found' },
-          { status: 400 },
+          { error: 'supplier not found' },
+          { status: 404 },
         );
       }
-      return NextResponse.json({ success: true, order: updated });
+      if (holdsOffer(dispatcher.getState(orderId), supplier.id, driverId)) {
+        const response = await dispatcher.respond(orderId, supplier.id, true, driverId);
+        if (!response.success) {
+          return NextResponse.json(
+            { error: response.error },
+            { status: response.status },
+          );
+        }
+        return NextResponse.json({ success: true, order: response.order });
+      }
+
+      let assignment: { vehicleId: string; driverId?: string } | undefined;
+      if (hasFleet(supplier)) {
+        const quantity = store.getOrder(orderId)?.quantityLitres ?? 0;
+        const vehicle = chooseVehicle(supplier, quantity, driverId);
+        if (!vehicle?.driverId || !canDeliverInTrips(quantity, vehicle.capacity)) {
+          return NextResponse.json(
+            { error: 'No online vehicle with a driver can carry this order.' },
+            { status: 409 },
+          );
+        }
+        assignment = { vehicleId: vehicle.id, driverId: vehicle.driverId };
+      }
+      const supplierLoc =
+        (assignment && supplier.fleet?.[assignment.vehicleId]?.currentLocation) ??
+        supplier.currentLocation ??
+        store.DEMO_IDS.hub;
+      const result = transitionStoreOrder(orderId, 'accepted', {
+        actor: { id: driverId ?? supplier.id, role: 'supplier' },
+        patch: {
+          supplierId: supplier.id,
+          ...assignment,
+          supplierLocation: supplierLoc,
+          tracking: { supplierLocation: supplierLoc, eta: 600, distance: 1500 },
+        },
+      });
+      if (!result.success) {
+        return NextResponse.json(
+          { error: result.error },
+          { status: result.status },
+        );
+      }
+      dispatcher.stop(orderId);
+      return NextResponse.json({ success: true, order: result.order });
     }
 
     if (action === 'rejectOrder') {
@@ -119,10 +273,39 @@ export async function POST(request: NextRequest) {
           { status: 400 },
         );
       }
+      const offerHolder = supplier?.id ?? supplierId;
+      if (holdsOffer(dispatcher.getState(orderId), offerHolder, driverId)) {
+        // Cascade to the next candidate instead of dropping the order.
+        await dispatcher.respond(orderId, offerHolder, false, driverId);
+        return NextResponse.json({ success: true });
+      }
       store.rejectOrderInStore(orderId);
       return NextResponse.json({ success: true });
     }
 
+    if (action === 'assignVehicle') {
+      if (!orderId || !vehicleId) {
+        return NextResponse.json(
+          { error: 'orderId and vehicleId required for assignVehicle' },
+          { status: 400 },
+        );
+      }
+      if (driverId) {
+        return NextResponse.json(
+          { error: 'Only the fleet owner can reassign orders.' },
+          { status: 403 },
+        );
+      }
+      const result = await assignOrderVehicle(orderId, supplierId, vehicleId);
+      if (!result.success) {
+        return NextResponse.json(
+          { error: result.error },
+          { status: result.status },
+        );
+      }
+      return NextResponse.json({ success: true, order: result.order });
+    }
+
     return NextResponse.json(
       { error: `unknown action: ${action}` },
       { status: 400 },
@@ -0,0 +1,34 @@
+// =============================================================================
+// JalSeva API - Supplier Wallet
+// =============================================================================
+// GET /api/supplier/earnings?supplierId=X
+//     → { balance, transactions, payouts, policy, period }
+//
+// Reads the supplier's ledger and payout history. Reserve holds past their
+// dispute window are released before the balance is computed.
+// =============================================================================
+
+import { type NextRequest, NextResponse } from 'next/server';
+import { getSupplierWallet } from '@/lib/ledger/server';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const supplierId = searchParams.get('supplierId');
+    if (!supplierId) {
+      return NextResponse.json(
+        { error: 'supplierId required' },
+        { status: 400 },
+      );
+    }
+
+    const wallet = await getSupplierWallet(supplierId);
+    return NextResponse.json({ success: true, ...wallet });
+  } catch (error) {
+    console.error('[GET /api/supplier/earnings] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 },
+    );
+  }
+}
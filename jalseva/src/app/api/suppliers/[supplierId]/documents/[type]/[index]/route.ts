@@ -0,0 +1,50 @@
+// =============================================================================
+// JalSeva API - Supplier KYC Document File
+// =============================================================================
+// GET /api/suppliers/[supplierId]/documents/[type]/[index]
+//   → one uploaded file of the document (index 0 is the front), for an admin
+//     or the supplier it belongs to
+//
+// KYC documents are stored privately and only ever served through this route,
+// to the user in the `jalseva_auth` session cookie.
+// =============================================================================
+
+import { type NextRequest, NextResponse } from 'next/server';
+import { sessionUserId } from '@/lib/auth/server';
+import { readSupplierDocument } from '@/lib/kyc/server';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ supplierId: string; type: string; index: string }> }
+) {
+  try {
+    const { supplierId, type, index } = await params;
+    const viewer = sessionUserId(request);
+    const position = Number(index);
+
+    if (!Number.isInteger(position) || position < 0) {
+      return NextResponse.json({ error: 'A file index is required.' }, { status: 400 });
+    }
+    if (!viewer) {
+      return NextResponse.json({ error: 'Sign in to view the document.' }, { status: 401 });
+    }
+
+    const result = await readSupplierDocument(supplierId, type, position, viewer);
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return new NextResponse(Buffer.from(result.bytes), {
+      headers: {
+        'Content-Type': result.contentType,
+        'Cache-Control': 'private, max-age=300',
+      },
+    });
+  } catch (error) {
+    console.error('[GET /api/suppliers/:id/documents/:type/:index] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error while fetching the document.' },
+      { status: 500 }
+    );
+  }
+}
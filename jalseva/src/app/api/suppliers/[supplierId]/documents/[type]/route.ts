@@ -0,0 +1,49 @@
+// =============================================================================
+// JalSeva API - Supplier KYC Document Review
+// =============================================================================
+// PATCH /api/suppliers/[supplierId]/documents/[type]
+//   { adminId, decision: 'approved' | 'rejected', reason? }
+//   → { success, supplier }
+//
+// Only admins (by their user record) can review. A rejection needs a
+// reason, shown to the supplier. Approving the last outstanding required
+// document verifies the supplier; rejecting a required one rejects them
+// until they upload it again.
+// =============================================================================
+
+import { type NextRequest, NextResponse } from 'next/server';
+import { reviewSupplierDocument } from '@/lib/kyc/server';
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ supplierId: string; type: string }> }
+) {
+  try {
+    const { supplierId, type } = await params;
+    const body = await request.json().catch(() => null);
+    const { adminId, decision, reason } = (body ?? {}) as {
+      adminId?: string;
+      decision?: string;
+      reason?: string;
+    };
+
+    if (!adminId || !decision) {
+      return NextResponse.json(
+        { error: 'adminId and decision are required.' },
+        { status: 400 }
+      );
+    }
+
+    const result = await reviewSupplierDocument(supplierId, type, { adminId, decision, reason });
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    return NextResponse.json({ success: true, supplier: result.supplier });
+  } catch (error) {
+    console.error('[PATCH /api/suppliers/:id/documents/:type] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error while reviewing the document.' },
+      { status: 500 }
+    );
+  }
+}
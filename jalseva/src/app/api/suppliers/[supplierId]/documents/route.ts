@@ -0,0 +1,60 @@
+// =============================================================================
+// JalSeva API - Supplier KYC Document Upload
+// =============================================================================
+// POST /api/suppliers/[supplierId]/documents
+//   multipart/form-data: type, files (one or two PDF or image files),
+//   number (Aadhaar only), expiresAt (ISO date, for expiring documents)
+//   → 201 { success, supplier }
+//
+// Each upload replaces the document and waits for an admin's review
+// (PATCH /api/suppliers/[supplierId]/documents/[type]). The supplier's
+// verificationStatus is re-derived from the documents; see '@/lib/kyc'.
+// =============================================================================
+
+import { type NextRequest, NextResponse } from 'next/server';
+import { uploadSupplierDocument } from '@/lib/kyc/server';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ supplierId: string }> }
+) {
+  try {
+    const { supplierId } = await params;
+    if (!request.headers.get('content-type')?.startsWith('multipart/form-data')) {
+      return NextResponse.json(
+        { error: 'Documents must be sent as multipart/form-data.' },
+        { status: 415 }
+      );
+    }
+
+    const form = await request.formData().catch(() => null);
+    const field = (name: string) => {
+      const value = form?.get(name);
+      return typeof value === 'string' ? value.trim() : '';
+    };
+    const files: Uint8Array[] = [];
+    for (const file of form?.getAll('files') ?? []) {
+      if (file instanceof File && file.size > 0) {
+        files.push(new Uint8Array(await file.arrayBuffer()));
+      }
+    }
+
+    const result = await uploadSupplierDocument({
+      supplierId,
+      type: field('type'),
+      files,
+      number: field('number') || undefined,
+      expiresAt: field('expiresAt') || undefined,
+    });
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    return NextResponse.json({ success: true, supplier: result.supplier }, { status: 201 });
+  } catch (error) {
+    console.error('[POST /api/suppliers/:id/documents] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error while uploading the document.' },
+      { status: 500 }
+    );
+  }
+}
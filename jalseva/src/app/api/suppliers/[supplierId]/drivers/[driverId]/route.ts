@@ -0,0 +1,31 @@
+// =============================================================================
+// JalSeva API - Fleet Driver
+// =============================================================================
+// DELETE /api/suppliers/[supplierId]/drivers/[driverId]
+//   → { success, supplier }
+//
+// The driver's vehicle is left without a driver and goes offline.
+// =============================================================================
+
+import { type NextRequest, NextResponse } from 'next/server';
+import { removeDriver } from '@/lib/fleet/server';
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ supplierId: string; driverId: string }> }
+) {
+  try {
+    const { supplierId, driverId } = await params;
+    const result = await removeDriver(supplierId, driverId);
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    return NextResponse.json({ success: true, supplier: result.supplier });
+  } catch (error) {
+    console.error('[DELETE /api/suppliers/:id/drivers/:driverId] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error while removing the driver.' },
+      { status: 500 }
+    );
+  }
+}
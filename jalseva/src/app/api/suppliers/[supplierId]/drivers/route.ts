@@ -0,0 +1,45 @@
+// =============================================================================
+// JalSeva API - Fleet Drivers
+// =============================================================================
+// POST /api/suppliers/[supplierId]/drivers
+//   body: { name, phone }
+//   → 201 { success, driver, supplier }
+//
+// Drivers are JalSeva users: the number must have signed in once, and a
+// driver can be on only one supplier's team. They then use the supplier
+// panel with their own number, limited to their vehicle.
+// =============================================================================
+
+import { type NextRequest, NextResponse } from 'next/server';
+import { addDriver } from '@/lib/fleet/server';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ supplierId: string }> }
+) {
+  try {
+    const { supplierId } = await params;
+    const body = (await request.json().catch(() => null)) as {
+      name?: string;
+      phone?: string;
+    } | null;
+    if (!body) {
+      return NextResponse.json({ error: 'Invalid or missing JSON body.' }, { status: 400 });
+    }
+
+    const result = await addDriver(supplierId, body);
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    return NextResponse.json(
+      { success: true, driver: result.driver, supplier: result.supplier },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('[POST /api/suppliers/:id/drivers] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error while adding the driver.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+// =============================================================================
+// JalSeva API - Fleet Vehicle
+// =============================================================================
+// PATCH  /api/suppliers/[supplierId]/fleet/[vehicleId]
+//   body: { driverId?: string | null, online?: boolean }
+//   → { success, supplier }
+// DELETE /api/suppliers/[supplierId]/fleet/[vehicleId]
+//   → { success, supplier }
+//
+// A vehicle goes online only with a driver, and is removed only while
+// offline. Setting driverId moves that driver off any other vehicle; null
+// clears the vehicle's driver and takes it offline.
+// =============================================================================
+
+import { type NextRequest, NextResponse } from 'next/server';
+import { assignDriver, removeVehicle, setVehicleOnline } from '@/lib/fleet/server';
+import type { Supplier } from '@/types';
+
+type Params = { params: Promise<{ supplierId: string; vehicleId: string }> };
+
+export async function PATCH(request: NextRequest, { params }: Params) {
+  try {
+    const { supplierId, vehicleId } = await params;
+    const body = (await request.json().catch(() => null)) as {
+      driverId?: string | null;
+      online?: boolean;
+    } | null;
+    if (!body || (body.driverId === undefined && typeof body.online !== 'boolean')) {
+      return NextResponse.json(
+        { error: 'Provide driverId or online.' },
+        { status: 400 }
+      );
+    }
+
+    let supplier: Supplier | undefined;
+    if (body.driverId !== undefined) {
+      const result = await assignDriver(supplierId, vehicleId, body.driverId || null);
+      if (!result.success) {
+        return NextResponse.json({ error: result.error }, { status: result.status });
+      }
+      supplier = result.supplier;
+    }
+    if (typeof body.online === 'boolean') {
+      const result = await setVehicleOnline(supplierId, vehicleId, body.online);
+      if (!result.success) {
+        return NextResponse.json({ error: result.error }, { status: result.status });
+      }
+      supplier = result.supplier;
+    }
+    return NextResponse.json({ success: true, supplier });
+  } catch (error) {
+    console.error('[PATCH /api/suppliers/:id/fleet/:vehicleId] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error while updating the vehicle.' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: Params) {
+  try {
+    const { supplierId, vehicleId } = await params;
+    const result = await removeVehicle(supplierId, vehicleId);
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    return NextResponse.json({ success: true, supplier: result.supplier });
+  } catch (error) {
+    console.error('[DELETE /api/suppliers/:id/fleet/:vehicleId] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error while removing the vehicle.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+// =============================================================================
+// JalSeva API - Supplier Fleet
+// =============================================================================
+// GET  /api/suppliers/[supplierId]/fleet
+//   → { success, vehicles, drivers, rollup }
+// POST /api/suppliers/[supplierId]/fleet
+//   body: { type, capacity, number }
+//   → 201 { success, vehicle, supplier }
+//
+// The rollup holds each vehicle's deliveries and earnings for today and the
+// last 7 days; see '@/lib/fleet'. Adding the first vehicle also brings the
+// registered vehicle into the fleet.
+// =============================================================================
+
+import { type NextRequest, NextResponse } from 'next/server';
+import { addVehicle, getFleet, type VehicleInput } from '@/lib/fleet/server';
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ supplierId: string }> }
+) {
+  try {
+    const { supplierId } = await params;
+    const fleet = await getFleet(supplierId);
+    if (!fleet) {
+      return NextResponse.json({ error: 'Supplier not found.' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, ...fleet });
+  } catch (error) {
+    console.error('[GET /api/suppliers/:id/fleet] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error while fetching the fleet.' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ supplierId: string }> }
+) {
+  try {
+    const { supplierId } = await params;
+    const body = (await request.json().catch(() => null)) as VehicleInput | null;
+    if (!body) {
+      return NextResponse.json({ error: 'Invalid or missing JSON body.' }, { status: 400 });
+    }
+
+    const result = await addVehicle(supplierId, body);
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    return NextResponse.json(
+      { success: true, vehicle: result.vehicle, supplier: result.supplier },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('[POST /api/suppliers/:id/fleet] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error while adding the vehicle.' },
+      { status: 500 }
+    );
+  }
+}
@@ -4,13 +4,18 @@
 // GET   /api/suppliers/[supplierId]  - Get supplier details
 // PUT   /api/suppliers/[supplierId]  - Update supplier (toggle online, location, verify)
 // PATCH /api/suppliers/[supplierId]  - Admin-only: update verification status
+//
+// Documents are reviewed one at a time through
+// /api/suppliers/[supplierId]/documents/[type], which keeps the status in
+// step; the PATCH override cannot verify a supplier with outstanding ones.
 // =============================================================================
 
 import { type NextRequest, NextResponse } from 'next/server';
 import { adminDb } from '@/lib/firebase-admin';
 import { firestoreBreaker } from '@/lib/circuit-breaker';
 import { batchWriter } from '@/lib/batch-writer';
-import type { VerificationStatus } from '@/types';
+import { KYC_DOCUMENTS, outstandingDocuments } from '@/lib/kyc';
+import type { SupplierDocuments, VerificationStatus } from '@/types';
 
 // ---------------------------------------------------------------------------
 // GET - Get supplier details
@@ -147,7 +152,12 @@ export async function PUT(
           { status: 400 }
         );
       }
-      updateData.waterTypes = waterTypes;
+      // While quality-suspended, edits change what comes back on restore
+      if (supplierDoc.data()!.qualitySuspension) {
+        updateData['qualitySuspension.waterTypes'] = waterTypes;
+      } else {
+        updateData.waterTypes = waterTypes;
+      }
     }
 
     // Update service area
@@ -261,6 +271,22 @@ export async function PATCH(
       );
     }
 
+    if (verificationStatus === 'verified') {
+      const outstanding = outstandingDocuments(
+        supplierDoc.data()?.documents as SupplierDocuments | undefined
+      );
+      if (outstanding.length > 0) {
+        return NextResponse.json(
+          {
+            error: `Approve these documents first: ${outstanding
+              .map((type) => KYC_DOCUMENTS[type].label)
+              .join(', ')}.`,
+          },
+          { status: 409 }
+        );
+      }
+    }
+
     const now = new Date().toISOString();
     const updateData: Record<string, unknown> = {
       verificationStatus,
@@ -273,8 +299,8 @@ export async function PATCH(
       updateData.rejectionReason = rejectionReason;
     }
 
-    // If rejecting, force offline
-    if (verificationStatus === 'rejected') {
+    // Only verified suppliers stay online
+    if (verificationStatus !== 'verified') {
       updateData.isOnline = false;
     }
 
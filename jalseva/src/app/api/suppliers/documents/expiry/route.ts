@@ -0,0 +1,26 @@
+// =============================================================================
+// JalSeva API - KYC Document Expiry Sweep
+// =============================================================================
+// POST /api/suppliers/documents/expiry  - Send expiry reminders and move
+//      body: {}                           suppliers with an expired required
+//                                         document back to pending (cron)
+//
+// Safe to call repeatedly: each reminder is sent once per document. Uploading
+// a renewed document and having it approved verifies the supplier again.
+// =============================================================================
+
+import { NextResponse } from 'next/server';
+import { sweepDocumentExpiry } from '@/lib/kyc/server';
+
+export async function POST() {
+  try {
+    const results = await sweepDocumentExpiry();
+    return NextResponse.json({ success: true, updated: results.length, results });
+  } catch (error) {
+    console.error('[POST /api/suppliers/documents/expiry] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error while sweeping document expiry.' },
+      { status: 500 }
+    );
+  }
+}
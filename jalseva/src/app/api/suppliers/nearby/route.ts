@@ -160,6 +160,7 @@ export async function GET(request: NextRequest) {
           waterTypes: supplier.waterTypes,
           vehicle: supplier.vehicle,
           rating: supplier.rating,
+          qualityScore: supplier.qualityScore,
           serviceArea: supplier.serviceArea,
           name: supplier.name,
         });
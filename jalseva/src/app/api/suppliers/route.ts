@@ -23,7 +23,6 @@ export async function POST(request: NextRequest) {
       vehicle,
       waterTypes,
       serviceArea,
-      documents,
       bankDetails,
     } = body;
 
@@ -115,7 +114,8 @@ export async function POST(request: NextRequest) {
     const supplierData = {
       id: supplierId,
       userId,
-      documents: documents || {},
+      // Documents are uploaded and reviewed through /api/suppliers/[id]/documents
+      documents: {},
       verificationStatus: 'pending' as VerificationStatus,
       vehicle: {
         type: vehicle.type,
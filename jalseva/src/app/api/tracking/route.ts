@@ -2,6 +2,8 @@
 // JalSeva API - Order Tracking (Optimized for 50K RPS)
 // =============================================================================
 // POST /api/tracking       - Update supplier location for active order
+//                            (fleet orders: the assigned vehicle's location;
+//                            multi-trip orders: also the current trip's)
 // GET  /api/tracking       - Get tracking info for an order
 //
 // Optimizations:
@@ -20,7 +22,10 @@ import { locationCache, hotCache } from '@/lib/cache';
 import { batchWriter } from '@/lib/batch-writer';
 import { trackingCoalescer } from '@/lib/firestore-shard';
 import { supplierIndex } from '@/lib/geohash';
-import type { GeoLocation, TrackingInfo } from '@/types';
+import { deliversOrder } from '@/lib/fleet';
+import { updateVehicleLocation } from '@/lib/fleet/server';
+import { currentLeg } from '@/lib/delivery-legs';
+import type { GeoLocation, Order, TrackingInfo } from '@/types';
 
 // Wire up coalescer -> batch writer on first import
 let _coalescerWired = false;
@@ -48,10 +53,11 @@ export async function POST(request: NextRequest) {
     if (!body || typeof body !== 'object' || Array.isArray(body)) {
       return NextResponse.json({ error: 'Request body must be a JSON object.' }, { status: 400 });
     }
-    const { orderId, supplierId, location } = body as {
+    const { orderId, supplierId, location, vehicleId } = body as {
       orderId: string;
       supplierId: string;
       location: GeoLocation;
+      vehicleId?: string;
     };
 
     // --- Validation ---
@@ -102,13 +108,23 @@ export async function POST(request: NextRequest) {
       hotCache.set(orderCacheKey, order, 60);
     }
 
-    // Verify this is the assigned supplier
-    if (order.supplierId !== supplierId) {
+    // Verify this is the assigned supplier, or the fleet driver delivering it
+    if (!deliversOrder(order as Pick<Order, 'supplierId' | 'driverId'>, supplierId)) {
       return NextResponse.json(
         { error: 'Supplier is not assigned to this order.' },
         { status: 403 }
       );
     }
+    const ownerId = order.supplierId as string;
+
+    // Fleet orders are tracked from the assigned vehicle
+    const orderVehicleId = order.vehicleId as string | undefined;
+    if (vehicleId && vehicleId !== orderVehicleId) {
+      return NextResponse.json(
+        { error: 'Vehicle is not assigned to this order.' },
+        { status: 403 }
+      );
+    }
 
     // Verify order is in a trackable state
     const trackableStatuses = ['accepted', 'en_route', 'arriving'];
@@ -159,33 +175,45 @@ export async function POST(request: NextRequest) {
     };
 
     // --- Update caches (instant, no network for L1) ---
-    locationCache.set(`supplier:${supplierId}`, { lat: location.lat, lng: location.lng }, 60);
+    locationCache.set(`supplier:${ownerId}`, { lat: location.lat, lng: location.lng }, 60);
     hotCache.set(`tracking:${orderId}`, trackingInfo, 30);
 
     // --- Update geohash spatial index ---
     // Merge with existing indexed data to preserve metadata (verificationStatus,
     // waterTypes, etc.) that geohash lookup filters depend on.
-    const existingEntry = supplierIndex.get(supplierId);
-    supplierIndex.upsert(supplierId, location.lat, location.lng, {
-      ...existingEntry?.data,
-      isOnline: true,
-      lastTrackingUpdate: Date.now(),
-    });
+    if (orderVehicleId) {
+      updateVehicleLocation(ownerId, orderVehicleId, location);
+    } else {
+      const existingEntry = supplierIndex.get(ownerId);
+      supplierIndex.upsert(ownerId, location.lat, location.lng, {
+        ...existingEntry?.data,
+        isOnline: true,
+        lastTrackingUpdate: Date.now(),
+      });
+    }
 
     // --- Coalesce Firestore writes (many updates -> 1 write) ---
+    // Multi-trip orders keep each trip's last position on its leg as well
+    const leg = currentLeg(order as Pick<Order, 'legs'>);
     trackingCoalescer.write('orders', orderId, {
       tracking: trackingInfo as unknown as Record<string, unknown>,
+      ...(leg ? { [`legs.${leg.id}.tracking`]: trackingInfo } : {}),
       supplierLocation: trackingInfo.supplierLocation,
       updatedAt: new Date().toISOString(),
     });
 
-    trackingCoalescer.write('suppliers', supplierId, {
-      currentLocation: {
-        lat: location.lat,
-        lng: location.lng,
-        address: location.address || '',
-      },
-    });
+    const currentLocation = {
+      lat: location.lat,
+      lng: location.lng,
+      address: location.address || '',
+    };
+    trackingCoalescer.write(
+      'suppliers',
+      supplierId,
+      orderVehicleId
+        ? { [`fleet.${orderVehicleId}.currentLocation`]: currentLocation }
+        : { currentLocation }
+    );
 
     // --- Cache in Redis (L2) - fire-and-forget for latency ---
     cacheSet(`tracking:${orderId}`, trackingInfo, 30).catch(() => {});
@@ -23,6 +23,7 @@ import {
 import { toast } from 'sonner';
 import { Button } from '@/components/ui/Button';
 import { Card } from '@/components/ui/Card';
+import { CancelOrderModal } from '@/components/shared/CancelOrderModal';
 import { useAuthStore } from '@/store/authStore';
 import { useOrderStore } from '@/store/orderStore';
 import { cancelOrder } from '@/actions/orders';
@@ -260,6 +261,7 @@ export default function BookingPage() {
   const [stage, setStage] = useState<SearchStage>('idle');
   const [matchedCount, setMatchedCount] = useState(0);
   const [isCancelling, startCancelTransition] = useTransition();
+  const [showCancel, setShowCancel] = useState(false);
 
   // Track which orderId has already been simulated so we don't restart on
   // every state update inside the effect.
@@ -596,11 +598,21 @@ export default function BookingPage() {
   }, [searching]);
 
   // --- Cancel order (React 19 useTransition + Server Action) ---
+  // The reason and fee are confirmed in CancelOrderModal first
   const handleCancel = () => {
+    if (currentOrder) setShowCancel(true);
+  };
+
+  const confirmCancel = (reasonCode: string) => {
     if (!currentOrder) return;
 
     startCancelTransition(async () => {
-      await cancelOrder(currentOrder.id);
+      const result = await cancelOrder(currentOrder.id, currentOrder.customerId, reasonCode);
+      if (!result.success) {
+        toast.error(result.error);
+        return;
+      }
+      setShowCancel(false);
       setCurrentOrder(null);
       toast.success('Order cancelled.\nऑर्डर रद्द हो गया।');
       router.push('/');
@@ -829,6 +841,16 @@ export default function BookingPage() {
           )}
         </AnimatePresence>
       </main>
+
+      {currentOrder && (
+        <CancelOrderModal
+          isOpen={showCancel}
+          onClose={() => setShowCancel(false)}
+          orderId={currentOrder.id}
+          onConfirm={confirmCancel}
+          loading={isCancelling}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,482 @@
+'use client';
+export const dynamic = 'force-dynamic';
+
+// =============================================================================
+// JalSeva - Customer Complaints
+// =============================================================================
+// Lists the customer's complaints with their replies from support, and files
+// a new one when opened with ?orderId= (the "Report a problem" link on an
+// order). Internal admin notes are removed by the API before they get here.
+// =============================================================================
+
+import type React from 'react';
+import { useState, useEffect, useCallback } from 'react';
+import Image from 'next/image';
+import { useRouter, useSearchParams } from 'next/navigation';
+import {
+  ArrowLeft,
+  MessageSquareWarning,
+  Camera,
+  X,
+  Send,
+  CheckCircle2,
+  Clock,
+  AlertCircle,
+  Package,
+  ChevronRight,
+} from 'lucide-react';
+import { toast } from 'sonner';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import {
+  COMPLAINT_CATEGORIES,
+  MAX_ATTACHMENT_BYTES,
+  MAX_COMPLAINT_ATTACHMENTS,
+} from '@/lib/complaints';
+import { useAuthStore } from '@/store/authStore';
+import type { Complaint, ComplaintCategory, ComplaintStatus } from '@/types';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const STATUS_LABELS: Record<ComplaintStatus, { label: string; hindi: string; className: string }> = {
+  open: { label: 'Open', hindi: 'खुली', className: 'bg-red-50 text-red-600' },
+  in_progress: { label: 'In progress', hindi: 'जारी', className: 'bg-amber-50 text-amber-700' },
+  resolved: { label: 'Resolved', hindi: 'हल', className: 'bg-green-50 text-green-700' },
+};
+
+const CATEGORY_KEYS = Object.keys(COMPLAINT_CATEGORIES) as ComplaintCategory[];
+
+function formatDateTime(date: Date | string): string {
+  return new Date(date).toLocaleString('en-IN', {
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: true,
+  });
+}
+
+// ---------------------------------------------------------------------------
+// New Complaint Form
+// ---------------------------------------------------------------------------
+
+function NewComplaintForm({
+  orderId,
+  customerId,
+  onFiled,
+}: {
+  orderId: string;
+  customerId: string;
+  onFiled: (complaint: Complaint) => void;
+}) {
+  const [category, setCategory] = useState<ComplaintCategory | null>(null);
+  const [text, setText] = useState('');
+  const [photos, setPhotos] = useState<File[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handlePhotos = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    const tooLarge = picked.find((file) => file.size > MAX_ATTACHMENT_BYTES);
+    if (tooLarge) {
+      toast.error(`Each photo must be under ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB`);
+      return;
+    }
+    setPhotos((prev) => [...prev, ...picked].slice(0, MAX_COMPLAINT_ATTACHMENTS));
+  };
+
+  const handleSubmit = async () => {
+    if (!category || !text.trim()) return;
+    setSubmitting(true);
+    try {
+      const form = new FormData();
+      form.append('orderId', orderId);
+      form.append('customerId', customerId);
+      form.append('category', category);
+      form.append('text', text.trim());
+      for (const photo of photos) form.append('attachments', photo);
+
+      const res = await fetch('/api/complaints', { method: 'POST', body: form });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Could not file the complaint');
+
+      toast.success('Complaint filed / शिकायत दर्ज हुई');
+      onFiled(data.complaint);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not file the complaint');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Card padding="md" className="space-y-4">
+      <div>
+        <h2 className="text-base font-semibold text-gray-900">
+          Report a problem / शिकायत करें
+        </h2>
+        <p className="text-xs text-gray-400 font-mono mt-0.5">Order #{orderId.slice(-8)}</p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        {CATEGORY_KEYS.map((key) => {
+          const info = COMPLAINT_CATEGORIES[key];
+          const active = category === key;
+          return (
+            <button
+              key={key}
+              type="button"
+              onClick={() => setCategory(key)}
+              className={`text-left rounded-xl border-2 px-3 py-2 min-h-[56px] transition-colors ${
+                active ? 'border-blue-600 bg-blue-50' : 'border-gray-100 hover:border-gray-200'
+              }`}
+            >
+              <p className="text-sm font-medium text-gray-900">{info.label}</p>
+              <p className="text-[11px] text-gray-500">{info.labelHi}</p>
+            </button>
+          );
+        })}
+      </div>
+
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        placeholder="What went wrong? / क्या समस्या हुई?"
+        rows={4}
+        className="w-full rounded-xl border border-gray-200 bg-white text-gray-900 text-sm py-2.5 px-4 placeholder:text-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 resize-none"
+      />
+
+      <div className="flex items-center gap-2 flex-wrap">
+        {photos.map((photo, index) => (
+          <span
+            key={`${photo.name}-${photo.lastModified}-${photo.size}`}
+            className="inline-flex items-center gap-1 text-xs bg-gray-100 text-gray-700 rounded-full pl-3 pr-1 py-1"
+          >
+            {photo.name.slice(0, 18)}
+            <button
+              type="button"
+              onClick={() => setPhotos((prev) => prev.filter((_, i) => i !== index))}
+              className="p-1 rounded-full hover:bg-gray-200"
+              aria-label="Remove photo"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+        {photos.length < MAX_COMPLAINT_ATTACHMENTS && (
+          <label className="inline-flex items-center gap-1.5 text-sm text-blue-600 font-medium cursor-pointer px-2 py-1 rounded-lg hover:bg-blue-50">
+            <Camera className="w-4 h-4" />
+            Add photo / फोटो
+            <input
+              type="file"
+              accept="image/jpeg,image/png,image/webp"
+              multiple
+              onChange={handlePhotos}
+              className="hidden"
+            />
+          </label>
+        )}
+      </div>
+
+      <Button
+        variant="primary"
+        size="lg"
+        fullWidth
+        loading={submitting}
+        disabled={!category || !text.trim()}
+        onClick={handleSubmit}
+        className="rounded-2xl"
+      >
+        Submit / भेजें
+      </Button>
+    </Card>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Complaint Thread
+// ---------------------------------------------------------------------------
+
+function ComplaintThread({
+  complaint,
+  onUpdated,
+}: {
+  complaint: Complaint;
+  onUpdated: (complaint: Complaint) => void;
+}) {
+  const [reply, setReply] = useState('');
+  const [sending, setSending] = useState(false);
+  const status = STATUS_LABELS[complaint.status];
+  const category = COMPLAINT_CATEGORIES[complaint.category];
+
+  const handleSend = async () => {
+    if (!reply.trim()) return;
+    setSending(true);
+    try {
+      const res = await fetch(`/api/complaints/${complaint.id}/replies`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ text: reply.trim() }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Could not send your reply');
+      setReply('');
+      onUpdated(data.complaint);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not send your reply');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card padding="md" className="space-y-3">
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-semibold text-gray-900">
+            {category?.label} / {category?.labelHi}
+          </span>
+          <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${status.className}`}>
+            {status.label} / {status.hindi}
+          </span>
+        </div>
+        <p className="text-xs text-gray-400 flex items-center gap-1">
+          <Package className="w-3 h-3" />
+          Order #{complaint.orderId.slice(-8)} · {formatDateTime(complaint.createdAt)}
+        </p>
+        <p className="text-sm text-gray-700 whitespace-pre-wrap">{complaint.text}</p>
+
+        {complaint.attachments.length > 0 && (
+          <div className="grid grid-cols-3 gap-2">
+            {complaint.attachments.map((attachment, index) => {
+              const url = `/api/complaints/${complaint.id}/attachments/${index}`;
+              return (
+                <a key={attachment.storagePath} href={url} target="_blank" rel="noreferrer">
+                  <Image
+                    src={url}
+                    alt={`Your photo ${index + 1}`}
+                    width={160}
+                    height={160}
+                    className="w-full aspect-square rounded-lg object-cover"
+                    unoptimized
+                  />
+                </a>
+              );
+            })}
+          </div>
+        )}
+
+        {!complaint.firstRespondedAt && complaint.status !== 'resolved' && (
+          <p className="text-xs text-blue-600 bg-blue-50 rounded-lg p-2 flex items-center gap-1.5">
+            <Clock className="w-3.5 h-3.5" />
+            Support will reply by {formatDateTime(complaint.responseDueAt)}
+          </p>
+        )}
+      </Card>
+
+      {complaint.replies.map((message) => {
+        const mine = message.authorRole === 'customer';
+        return (
+          <div key={message.id} className={`flex ${mine ? 'justify-end' : 'justify-start'}`}>
+            <div
+              className={`max-w-[85%] rounded-2xl px-4 py-2.5 ${
+                mine ? 'bg-blue-600 text-white' : 'bg-white border border-gray-100 text-gray-800'
+              }`}
+            >
+              {!mine && <p className="text-[11px] font-semibold text-blue-600 mb-0.5">JalSeva Support</p>}
+              <p className="text-sm whitespace-pre-wrap">{message.text}</p>
+              <p className={`text-[10px] mt-1 ${mine ? 'text-blue-100' : 'text-gray-400'}`}>
+                {formatDateTime(message.at)}
+              </p>
+            </div>
+          </div>
+        );
+      })}
+
+      {complaint.status === 'resolved' ? (
+        <p className="text-sm text-green-700 bg-green-50 rounded-xl p-3 flex items-center gap-2">
+          <CheckCircle2 className="w-4 h-4" />
+          Resolved {complaint.resolvedAt ? formatDateTime(complaint.resolvedAt) : ''} / हल हो गई
+        </p>
+      ) : (
+        <div className="flex gap-2">
+          <textarea
+            value={reply}
+            onChange={(e) => setReply(e.target.value)}
+            placeholder="Reply / जवाब लिखें"
+            rows={2}
+            className="flex-1 rounded-xl border border-gray-200 bg-white text-gray-900 text-sm py-2.5 px-4 placeholder:text-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 resize-none"
+          />
+          <Button
+            variant="primary"
+            size="sm"
+            loading={sending}
+            disabled={!reply.trim()}
+            onClick={handleSend}
+            leftIcon={<Send className="w-4 h-4" />}
+          >
+            Send
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Main Complaints Page
+// ---------------------------------------------------------------------------
+
+export default function ComplaintsPage() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const newOrderId = searchParams.get('orderId');
+  const { user } = useAuthStore();
+
+  const [complaints, setComplaints] = useState<Complaint[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(!!newOrderId);
+
+  // --- Redirect if not logged in ---
+  useEffect(() => {
+    if (!user) {
+      router.push('/login?redirect=/complaints');
+    }
+  }, [user, router]);
+
+  // --- Fetch complaints ---
+  const fetchComplaints = useCallback(async () => {
+    if (!user) return;
+    try {
+      const res = await fetch('/api/complaints');
+      if (res.ok) {
+        const data = await res.json();
+        setComplaints(data.complaints || []);
+      }
+    } catch {
+      // Keep what we have
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (user) fetchComplaints();
+  }, [user, fetchComplaints]);
+
+  const upsert = (complaint: Complaint) => {
+    setComplaints((prev) => [complaint, ...prev.filter((c) => c.id !== complaint.id)]);
+  };
+
+  const selected = complaints.find((c) => c.id === selectedId) ?? null;
+
+  return (
+    <div className="min-h-screen bg-slate-50 pb-10">
+      {/* Header */}
+      <header className="sticky top-0 z-40 bg-white/95 backdrop-blur-md border-b border-gray-100 safe-top">
+        <div className="flex items-center gap-2 px-4 h-16">
+          <button
+            onClick={() => (selected ? setSelectedId(null) : router.push('/history'))}
+            className="p-2 rounded-xl hover:bg-gray-100 min-w-[44px] min-h-[44px] flex items-center justify-center"
+            aria-label="Back"
+          >
+            <ArrowLeft className="w-5 h-5 text-gray-700" />
+          </button>
+          <div>
+            <h1 className="text-lg font-bold text-gray-900">Complaints</h1>
+            <p className="text-[10px] text-gray-400 -mt-0.5">शिकायतें</p>
+          </div>
+        </div>
+      </header>
+
+      <main className="px-4 pt-4 space-y-3 app-container">
+        {user && selected ? (
+          <ComplaintThread complaint={selected} onUpdated={upsert} />
+        ) : (
+          <>
+            {user && newOrderId && showForm && (
+              <NewComplaintForm
+                orderId={newOrderId}
+                customerId={user.id}
+                onFiled={(complaint) => {
+                  upsert(complaint);
+                  setShowForm(false);
+                  setSelectedId(complaint.id);
+                }}
+              />
+            )}
+
+            {loading ? (
+              <div className="space-y-3">
+                {[1, 2].map((i) => (
+                  <div key={i} className="bg-white rounded-2xl p-4 shadow-sm border border-gray-100">
+                    <div className="h-4 skeleton w-1/2 rounded mb-2" />
+                    <div className="h-3 skeleton w-3/4 rounded" />
+                  </div>
+                ))}
+              </div>
+            ) : complaints.length === 0 ? (
+              !showForm && (
+                <div className="text-center pt-16">
+                  <div className="w-20 h-20 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
+                    <MessageSquareWarning className="w-10 h-10 text-gray-300" />
+                  </div>
+                  <p className="text-gray-500 font-medium">No complaints</p>
+                  <p className="text-sm text-gray-400 mt-1">
+                    Use &quot;Report a problem&quot; on an order / किसी ऑर्डर पर शिकायत करें
+                  </p>
+                </div>
+              )
+            ) : (
+              complaints.map((complaint) => {
+                const status = STATUS_LABELS[complaint.status];
+                const supportReplies = complaint.replies.filter((r) => r.authorRole !== 'customer');
+                return (
+                  <Card
+                    key={complaint.id}
+                    padding="md"
+                    hover
+                    onClick={() => setSelectedId(complaint.id)}
+                  >
+                    <div className="flex items-start gap-3">
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2 mb-1">
+                          <span className="text-sm font-semibold text-gray-900">
+                            {COMPLAINT_CATEGORIES[complaint.category]?.label}
+                          </span>
+                          <span className={`text-[11px] font-medium px-2 py-0.5 rounded-full ${status.className}`}>
+                            {status.label}
+                          </span>
+                        </div>
+                        <p className="text-sm text-gray-600 line-clamp-2">{complaint.text}</p>
+                        <p className="text-xs text-gray-400 mt-1 flex items-center gap-1">
+                          {supportReplies.length > 0 ? (
+                            <>
+                              <CheckCircle2 className="w-3 h-3 text-blue-500" />
+                              Support replied
+                            </>
+                          ) : (
+                            <>
+                              <AlertCircle className="w-3 h-3" />
+                              Awaiting reply
+                            </>
+                          )}
+                          {' · '}
+                          {formatDateTime(complaint.createdAt)}
+                        </p>
+                      </div>
+                      <ChevronRight className="w-5 h-5 text-gray-300 shrink-0 mt-1" />
+                    </div>
+                  </Card>
+                );
+              })
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
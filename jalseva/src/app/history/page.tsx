@@ -22,6 +22,8 @@ import {
   ScrollText,
   User,
   RefreshCw,
+  Receipt,
+  MessageSquareWarning,
 } from 'lucide-react';
 import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
@@ -329,12 +331,32 @@ function OrderDetailModal({
           )}
         </div>
 
+        {order.status === 'delivered' && (
+          <a
+            href={`/invoice/${order.id}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="mt-6 flex items-center justify-center gap-2 w-full py-3 rounded-2xl border-2 border-blue-600 text-blue-600 font-semibold hover:bg-blue-50 transition-colors"
+          >
+            <Receipt className="w-5 h-5" />
+            {order.invoice ? `Invoice ${order.invoice.number}` : 'Download Invoice'} / बिल
+          </a>
+        )}
+
+        <a
+          href={`/complaints?orderId=${encodeURIComponent(order.id)}`}
+          className={`${order.status === 'delivered' ? 'mt-3' : 'mt-6'} flex items-center justify-center gap-2 w-full py-3 rounded-2xl border-2 border-gray-200 text-gray-700 font-semibold hover:bg-gray-50 transition-colors`}
+        >
+          <MessageSquareWarning className="w-5 h-5" />
+          Report a problem / शिकायत करें
+        </a>
+
         <Button
           variant="primary"
           size="lg"
           fullWidth
           onClick={onClose}
-          className="mt-6 rounded-2xl"
+          className="mt-3 rounded-2xl"
         >
           Close / बंद करें
         </Button>
@@ -0,0 +1,232 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { getOrderInvoice } from '@/lib/invoice/server';
+import type { Invoice, InvoiceParty } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+// Printable GST invoice (or bill of supply) for a delivered order, rendered
+// to one A4 page like the /report renderer; "Print / Save as PDF" produces
+// the PDF. The invoice is issued on first view if delivery did not issue it.
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function inr(amount: number): string {
+  return amount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function partyBlock(title: string, party: InvoiceParty): string {
+  return `<div class="party">
+    <h3>${title}</h3>
+    <p class="name">${escapeHtml(party.name)}</p>
+    ${party.address ? `<p>${escapeHtml(party.address)}</p>` : ''}
+    <p>State: ${escapeHtml(party.stateName)} (${party.stateCode})</p>
+    <p>GSTIN: ${party.gstin ? escapeHtml(party.gstin) : 'Unregistered'}</p>
+  </div>`;
+}
+
+function renderInvoice(invoice: Invoice): string {
+  const taxInvoice = invoice.kind === 'tax_invoice';
+  const intra = invoice.supplyType === 'intra_state';
+  const title = taxInvoice ? 'Tax Invoice' : 'Bill of Supply';
+  const issued = new Date(invoice.issuedAt).toLocaleDateString('en-IN', {
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+    timeZone: 'Asia/Kolkata',
+  });
+
+  const rows = invoice.lines
+    .map((line, i) => {
+      const rate = line.gstRate;
+      const tax = taxInvoice ? (intra ? invoice.cgst + invoice.sgst : invoice.igst) : 0;
+      return `<tr>
+        <td>${i + 1}</td>
+        <td>${escapeHtml(line.description)}</td>
+        <td>${line.hsn}</td>
+        <td class="num">${line.quantity.toLocaleString('en-IN')} ${line.unit}</td>
+        <td class="num">${inr(line.taxableValue)}</td>
+        <td class="num">${rate}%</td>
+        <td class="num">${inr(tax)}</td>
+        <td class="num">${inr(line.taxableValue + tax)}</td>
+      </tr>`;
+    })
+    .join('');
+
+  const taxRows = taxInvoice
+    ? intra
+      ? `<tr><td>CGST @ ${invoice.lines[0].gstRate / 2}%</td><td class="num">${inr(invoice.cgst)}</td></tr>
+         <tr><td>SGST @ ${invoice.lines[0].gstRate / 2}%</td><td class="num">${inr(invoice.sgst)}</td></tr>`
+      : `<tr><td>IGST @ ${invoice.lines[0].gstRate}%</td><td class="num">${inr(invoice.igst)}</td></tr>`
+    : '';
+
+  const note = taxInvoice
+    ? 'Prices are inclusive of GST. Delivery is part of a composite supply taxed at the rate of the water supplied.'
+    : invoice.seller.gstin
+      ? 'Supply of water exempt from GST (HSN 2201, not in sealed container). No tax is charged.'
+      : 'Seller is not registered under GST. No tax is charged.';
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1.0" />
+<title>${title} ${escapeHtml(invoice.number)} | JalSeva</title>
+<meta name="robots" content="noindex" />
+<style>
+@page { size: A4; margin: 16mm; }
+
+* { box-sizing: border-box; margin: 0; padding: 0; }
+html, body {
+  background: #e7e8ec;
+  font-family: -apple-system, system-ui, 'Segoe UI', Roboto, sans-serif;
+  font-size: 10.5pt;
+  color: #111827;
+  line-height: 1.45;
+}
+body { padding: 24px 0 60px; }
+
+.toolbar {
+  position: sticky; top: 0; z-index: 100;
+  background: rgba(15,23,42,.92); color: #fff;
+  font-size: 13px; padding: 10px 16px;
+  display: flex; gap: 14px; align-items: center; justify-content: center;
+}
+.toolbar a, .toolbar button {
+  font: inherit; color: inherit; text-decoration: none;
+  background: rgba(255,255,255,.12); border: 1px solid rgba(255,255,255,.18);
+  border-radius: 999px; padding: 5px 14px; cursor: pointer;
+}
+.toolbar a:hover, .toolbar button:hover { background: rgba(255,255,255,.22); }
+.toolbar .label { opacity: .7; font-size: 12px; }
+
+.page {
+  width: 210mm; min-height: 297mm;
+  padding: 16mm;
+  margin: 24px auto;
+  background: #fff;
+  box-shadow: 0 1px 2px rgba(0,0,0,.08), 0 12px 32px -12px rgba(0,0,0,.25);
+}
+
+header { display: flex; justify-content: space-between; align-items: flex-start; border-bottom: 2px solid #2563eb; padding-bottom: 4mm; margin-bottom: 6mm; }
+header h1 { font-size: 18pt; letter-spacing: .02em; text-transform: uppercase; }
+header .brand { color: #2563eb; font-weight: 700; font-size: 12pt; }
+.meta { text-align: right; }
+.meta p { margin-bottom: 1mm; }
+
+.parties { display: grid; grid-template-columns: 1fr 1fr; gap: 8mm; margin-bottom: 6mm; }
+.party h3 { font-size: 9pt; text-transform: uppercase; color: #6b7280; letter-spacing: .05em; margin-bottom: 1.5mm; }
+.party .name { font-weight: 700; font-size: 11.5pt; }
+
+table { width: 100%; border-collapse: collapse; margin-bottom: 5mm; }
+th, td { border: 1px solid #d1d5db; padding: 2mm 2.5mm; text-align: left; vertical-align: top; }
+th { background: #f3f4f6; font-size: 9pt; text-transform: uppercase; letter-spacing: .03em; }
+.num { text-align: right; white-space: nowrap; }
+
+.totals { width: 45%; margin-left: auto; }
+.totals td { border: none; border-bottom: 1px solid #e5e7eb; }
+.totals tr.grand td { font-weight: 700; font-size: 12pt; border-bottom: 2px solid #111827; }
+
+.note { font-size: 9pt; color: #4b5563; margin-top: 6mm; }
+footer { margin-top: 12mm; font-size: 8.5pt; color: #6b7280; border-top: 1px solid #e5e7eb; padding-top: 3mm; }
+
+@media print {
+  body { background: #fff; padding: 0; }
+  .toolbar { display: none; }
+  .page { margin: 0; box-shadow: none; min-height: auto; }
+}
+</style>
+</head>
+<body>
+
+<div class="toolbar" role="navigation" aria-label="Invoice toolbar">
+  <span class="label">${title} · ${escapeHtml(invoice.number)}</span>
+  <button onclick="window.print()">Print / Save as PDF</button>
+  <a href="/history">My orders</a>
+</div>
+
+<section class="page" aria-label="${title}">
+  <header>
+    <div>
+      <p class="brand">JalSeva (जलसेवा)</p>
+      <h1>${title}</h1>
+    </div>
+    <div class="meta">
+      <p><strong>${taxInvoice ? 'Invoice' : 'Bill'} No:</strong> ${escapeHtml(invoice.number)}</p>
+      <p><strong>Date:</strong> ${issued}</p>
+      <p><strong>Order:</strong> ${escapeHtml(invoice.orderId)}</p>
+      <p><strong>Place of supply:</strong> ${escapeHtml(invoice.buyer.stateName)} (${invoice.placeOfSupply})</p>
+      <p><strong>Reverse charge:</strong> No</p>
+    </div>
+  </header>
+
+  <div class="parties">
+    ${partyBlock('Sold by', invoice.seller)}
+    ${partyBlock('Billed to', invoice.buyer)}
+  </div>
+
+  <table>
+    <thead>
+      <tr>
+        <th>#</th>
+        <th>Description</th>
+        <th>HSN</th>
+        <th class="num">Qty</th>
+        <th class="num">Taxable value (₹)</th>
+        <th class="num">GST</th>
+        <th class="num">Tax (₹)</th>
+        <th class="num">Amount (₹)</th>
+      </tr>
+    </thead>
+    <tbody>${rows}</tbody>
+  </table>
+
+  <table class="totals">
+    <tr><td>Taxable value</td><td class="num">${inr(invoice.taxableValue)}</td></tr>
+    ${taxRows}
+    <tr class="grand"><td>Total</td><td class="num">₹${inr(invoice.total)}</td></tr>
+    <tr><td>Paid by</td><td class="num">${escapeHtml(invoice.paymentMethod.toUpperCase())}</td></tr>
+  </table>
+
+  <p class="note">${note}</p>
+
+  <footer>
+    Issued through JalSeva on behalf of the seller. This is a computer-generated document and does not require a signature.
+  </footer>
+</section>
+
+</body>
+</html>`;
+}
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> }
+) {
+  try {
+    const { orderId } = await params;
+    const result = await getOrderInvoice(orderId);
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return new NextResponse(renderInvoice(result.invoice), {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/html; charset=utf-8',
+        'Cache-Control': 'private, max-age=300',
+      },
+    });
+  } catch (error) {
+    console.error('[GET /invoice] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error while rendering invoice.' },
+      { status: 500 }
+    );
+  }
+}
@@ -32,9 +32,10 @@ import { Button } from '@/components/ui/Button';
 import { Card } from '@/components/ui/Card';
 import { useAuthStore } from '@/store/authStore';
 import { useOrderStore } from '@/store/orderStore';
-import { createOrder } from '@/actions/orders';
+import { createOrder, getOrderQuote } from '@/actions/orders';
 import { formatCurrency } from '@/lib/utils';
-import type { WaterType, GeoLocation, CreateOrderRequest } from '@/types';
+import { calculateOrderPrice } from '@/lib/pricing';
+import type { WaterType, GeoLocation, CreateOrderRequest, OrderPrice } from '@/types';
 import { LANGUAGES, getLanguage, getSpeechLocale } from '@/lib/languages';
 import { useT } from '@/lib/i18n';
 import { VoiceConversation } from '@/components/shared/VoiceConversation';
@@ -81,13 +82,6 @@ const QUANTITY_OPTIONS: { litres: number; label: string }[] = [
   { litres: 10000, label: '10kL' },
 ];
 
-// Base prices (per litre approximation) for estimation
-const BASE_PRICES: Record<WaterType, number> = {
-  ro: 1.5,
-  mineral: 3.0,
-  tanker: 0.8,
-};
-
 // ---------------------------------------------------------------------------
 // Voice recognition hook
 // ---------------------------------------------------------------------------
@@ -374,11 +368,30 @@ export default function HomePage() {
   const [showVoiceConversation, setShowVoiceConversation] = useState(false);
   const langDropdownRef = useRef<HTMLDivElement>(null);
 
-  // --- Calculated price ---
-  const basePrice = BASE_PRICES[waterType] * quantity;
-  const deliveryFee = quantity <= 200 ? 30 : quantity <= 1000 ? 50 : 100;
-  const surgeAmount = 0; // Will come from API in production
-  const totalPrice = basePrice + deliveryFee + surgeAmount;
+  // --- Price quote (the zone, commission and demand createOrder charges
+  // with); the local default-zone price stands in until it arrives ---
+  const quoteKey = `${waterType}:${quantity}:${location ? `${location.lat},${location.lng}` : ''}`;
+  const [quote, setQuote] = useState<{ key: string; price: OrderPrice } | null>(null);
+  useEffect(() => {
+    let cancelled = false;
+    getOrderQuote(waterType, quantity, location)
+      .then((result) => {
+        if (!cancelled && result.success) setQuote({ key: quoteKey, price: result.price });
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [waterType, quantity, location, quoteKey]);
+
+  const estimate =
+    quote?.key === quoteKey
+      ? quote.price
+      : calculateOrderPrice({ waterType, quantityLitres: quantity });
+  const basePrice = estimate.base;
+  const deliveryFee = estimate.distance;
+  const surgeAmount = estimate.surge;
+  const totalPrice = estimate.total;
 
   // --- Voice recognition ---
   const handleVoiceResult = useCallback(
@@ -540,14 +553,7 @@ export default function HomePage() {
             customerId: user.id,
             waterType,
             quantityLitres: quantity,
-            price: {
-              base: basePrice,
-              distance: deliveryFee,
-              surge: surgeAmount,
-              total: totalPrice,
-              commission: Math.round(totalPrice * 0.15),
-              supplierEarning: totalPrice - Math.round(totalPrice * 0.15),
-            },
+            price: estimate,
             status: 'searching',
             deliveryLocation: location,
             payment: {
@@ -2,8 +2,8 @@
 export const dynamic = 'force-dynamic';
 
 import type React from 'react';
-import { useState } from 'react';
-import { useRouter } from 'next/navigation';
+import { useEffect, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
 import { motion, AnimatePresence } from 'motion/react';
 import {
   Droplets,
@@ -22,12 +22,16 @@ import {
   Award,
   FlaskConical,
   ThermometerSun,
+  TrendingUp,
+  Ban,
 } from 'lucide-react';
 import { toast } from 'sonner';
 import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { useAuthStore } from '@/store/authStore';
 import { useT } from '@/lib/i18n';
+import { QUALITY_RANGES, type QualityTrendPoint } from '@/lib/quality';
+import type { QualityAlert, QualityReportRecord, QualityStatus, QualitySuspension } from '@/types';
 
 // ---------------------------------------------------------------------------
 // Constants & Demo Data
@@ -39,6 +43,28 @@ const TDS_VALUE = 180;
 const LAST_TESTED = '3 days ago';
 const FSSAI_COMPLIANT = true;
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** /api/quality/history, with dates as JSON strings. */
+interface QualityHistoryResponse {
+  reports: (Omit<QualityReportRecord, 'testedAt' | 'createdAt'> & { testedAt: string })[];
+  trend: (Omit<QualityTrendPoint, 'testedAt'> & { testedAt: string })[];
+  status: QualityStatus;
+  alerts: QualityAlert[];
+  qualityScore: number | null;
+  suspension: (Omit<QualitySuspension, 'since'> & { since: string }) | null;
+}
+
+function testedAgo(testedAt: string): string {
+  const days = Math.floor((Date.now() - new Date(testedAt).getTime()) / DAY_MS);
+  if (days <= 0) return 'today';
+  return days === 1 ? '1 day ago' : `${days} days ago`;
+}
+
+function shortDate(iso: string): string {
+  return new Date(iso).toLocaleDateString('en-IN', { day: 'numeric', month: 'short' });
+}
+
 const SUPPLIERS = [
   {
     id: 1,
@@ -353,6 +379,72 @@ function TdsBar({ value }: { value: number }) {
   );
 }
 
+// ---------------------------------------------------------------------------
+// Trend Chart (SVG line with the safe band shaded)
+// ---------------------------------------------------------------------------
+
+function TrendChart({
+  points,
+  param,
+}: {
+  points: QualityHistoryResponse['trend'];
+  param: keyof typeof QUALITY_RANGES;
+}) {
+  const width = 300;
+  const height = 96;
+  const pad = 8;
+  const range = QUALITY_RANGES[param];
+  const values = points.map((p) => p[param]);
+  const inRangeKey = param === 'ph' ? 'phInRange' : 'tdsInRange';
+  const yMin = param === 'ph' ? Math.min(5, ...values) : 0;
+  const yMax = param === 'ph' ? Math.max(10, ...values) : Math.max(600, ...values);
+
+  const x = (i: number) =>
+    points.length === 1 ? width / 2 : pad + (i * (width - 2 * pad)) / (points.length - 1);
+  const y = (v: number) => height - pad - ((v - yMin) / (yMax - yMin)) * (height - 2 * pad);
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-1">
+        <span className="text-xs font-medium text-gray-700">
+          {param === 'ph' ? 'pH' : 'TDS (ppm)'}
+        </span>
+        <span className="text-[10px] text-green-600">
+          Safe {range.min}-{range.max}
+        </span>
+      </div>
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-24" role="img" aria-label={`${param} trend`}>
+        <rect
+          x={0}
+          y={y(range.max)}
+          width={width}
+          height={y(range.min) - y(range.max)}
+          fill="#dcfce7"
+        />
+        <polyline
+          points={points.map((p, i) => `${x(i)},${y(p[param])}`).join(' ')}
+          fill="none"
+          stroke="#3b82f6"
+          strokeWidth={2}
+        />
+        {points.map((p, i) => (
+          <circle
+            key={p.testedAt}
+            cx={x(i)}
+            cy={y(p[param])}
+            r={3.5}
+            fill={p[inRangeKey] ? '#3b82f6' : '#ef4444'}
+          />
+        ))}
+      </svg>
+      <div className="flex justify-between text-[10px] text-gray-400">
+        <span>{shortDate(points[0].testedAt)}</span>
+        {points.length > 1 && <span>{shortDate(points[points.length - 1].testedAt)}</span>}
+      </div>
+    </div>
+  );
+}
+
 // ---------------------------------------------------------------------------
 // Supplier Card
 // ---------------------------------------------------------------------------
@@ -500,9 +592,41 @@ function TipAccordion({
 
 export default function QualityPage() {
   const router = useRouter();
+  const searchParams = useSearchParams();
   const { user } = useAuthStore();
   const { t } = useT();
 
+  // A supplier's own history, or the one in ?supplierId=
+  const supplierId =
+    searchParams.get('supplierId') ?? (user?.role === 'supplier' ? user.id : null);
+  const [history, setHistory] = useState<QualityHistoryResponse | null>(null);
+
+  useEffect(() => {
+    if (!supplierId) return;
+    let cancelled = false;
+    fetch(`/api/quality/history?supplierId=${encodeURIComponent(supplierId)}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data: QualityHistoryResponse | null) => {
+        if (!cancelled && data) setHistory(data);
+      })
+      .catch(() => {
+        // Keep the area overview
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [supplierId]);
+
+  const latest = history?.reports[0];
+  const phValue = latest?.ph ?? PH_VALUE;
+  const tdsValue = latest?.tds ?? TDS_VALUE;
+  const lastTested = latest ? testedAgo(latest.testedAt) : LAST_TESTED;
+  // FSSAI compliance only counts once an admin has verified the lab certificate
+  const certificateStatus = latest?.verification?.status;
+  const fssaiVerified = latest
+    ? latest.fssaiCompliant && certificateStatus === 'verified'
+    : FSSAI_COMPLIANT;
+
   // Report issue state
   const [issueType, setIssueType] = useState<string>('');
   const [issueDescription, setIssueDescription] = useState('');
@@ -554,7 +678,7 @@ export default function QualityPage() {
           </div>
 
           {/* FSSAI badge */}
-          {FSSAI_COMPLIANT && (
+          {fssaiVerified && (
             <div className="flex items-center gap-1.5 px-3 py-1.5 bg-green-50 rounded-full border border-green-200">
               <Shield className="w-3.5 h-3.5 text-green-600" />
               <span className="text-[10px] font-semibold text-green-700">
@@ -595,7 +719,7 @@ export default function QualityPage() {
               <div className="flex items-center gap-1.5">
                 <ThermometerSun className="w-3.5 h-3.5 text-blue-500" />
                 <span className="text-xs text-gray-500">
-                  Tested {LAST_TESTED}
+                  Tested {lastTested}
                 </span>
               </div>
             </div>
@@ -619,35 +743,108 @@ export default function QualityPage() {
             </div>
 
             <div className="space-y-5">
-              <PhBar value={PH_VALUE} />
+              <PhBar value={phValue} />
               <div className="border-t border-gray-100" />
-              <TdsBar value={TDS_VALUE} />
+              <TdsBar value={tdsValue} />
             </div>
 
             {/* FSSAI / Last tested row */}
             <div className="grid grid-cols-2 gap-3 mt-5 pt-4 border-t border-gray-100">
-              <div className="bg-green-50 rounded-xl p-3 text-center">
-                <Shield className="w-5 h-5 text-green-600 mx-auto mb-1" />
-                <p className="text-xs font-semibold text-green-700">
-                  FSSAI Compliant
-                </p>
-                <p className="text-[10px] text-green-600">
-                  अनुपालित
-                </p>
-              </div>
+              {fssaiVerified ? (
+                <div className="bg-green-50 rounded-xl p-3 text-center">
+                  <Shield className="w-5 h-5 text-green-600 mx-auto mb-1" />
+                  <p className="text-xs font-semibold text-green-700">
+                    FSSAI Compliant
+                  </p>
+                  <p className="text-[10px] text-green-600">
+                    अनुपालित
+                  </p>
+                </div>
+              ) : (
+                <div className="bg-amber-50 rounded-xl p-3 text-center">
+                  <Shield className="w-5 h-5 text-amber-600 mx-auto mb-1" />
+                  <p className="text-xs font-semibold text-amber-700">
+                    {certificateStatus === 'pending'
+                      ? 'Certificate in Review'
+                      : certificateStatus === 'rejected'
+                        ? 'Certificate Rejected'
+                        : 'Not Verified'}
+                  </p>
+                  <p className="text-[10px] text-amber-600">
+                    {latest?.verification?.note ?? 'प्रमाणपत्र सत्यापित नहीं'}
+                  </p>
+                </div>
+              )}
               <div className="bg-blue-50 rounded-xl p-3 text-center">
                 <ThermometerSun className="w-5 h-5 text-blue-600 mx-auto mb-1" />
                 <p className="text-xs font-semibold text-blue-700">
                   Last Tested
                 </p>
                 <p className="text-[10px] text-blue-600">
-                  {LAST_TESTED}
+                  {lastTested}
                 </p>
               </div>
             </div>
           </Card>
         </motion.div>
 
+        {/* ---- Report History & Trend ---- */}
+        {history && history.trend.length > 0 && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.5, delay: 0.15 }}
+          >
+            <Card shadow="sm" padding="lg">
+              <div className="flex items-center gap-2 mb-4">
+                <TrendingUp className="w-4 h-4 text-blue-500" />
+                <div>
+                  <h3 className="text-sm font-bold text-gray-900">
+                    Test History ({history.reports.length})
+                  </h3>
+                  <p className="text-[10px] text-gray-400">जांच का इतिहास</p>
+                </div>
+              </div>
+
+              {history.suspension && (
+                <div className="flex items-start gap-2 bg-red-50 border border-red-200 rounded-xl p-3 mb-4">
+                  <Ban className="w-4 h-4 text-red-600 shrink-0 mt-0.5" />
+                  <div>
+                    <p className="text-xs font-semibold text-red-700">
+                      {history.suspension.reason === 'expired'
+                        ? 'Suspended: water test expired'
+                        : 'Suspended: last test out of safe range'}
+                    </p>
+                    <p className="text-[10px] text-red-600">
+                      {history.suspension.waterTypes.join(', ').toUpperCase()} paused since{' '}
+                      {shortDate(history.suspension.since)} until a safe report is submitted.
+                    </p>
+                  </div>
+                </div>
+              )}
+
+              {history.alerts.length > 0 && (
+                <ul className="space-y-1.5 mb-4">
+                  {history.alerts.map((alert) => (
+                    <li
+                      key={alert.kind}
+                      className="flex items-start gap-2 text-xs text-amber-800 bg-amber-50 rounded-lg px-3 py-2"
+                    >
+                      <AlertTriangle className="w-3.5 h-3.5 shrink-0 mt-0.5" />
+                      {alert.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              <div className="space-y-4">
+                <TrendChart points={history.trend} param="ph" />
+                <TrendChart points={history.trend} param="tds" />
+              </div>
+            </Card>
+          </motion.div>
+        )}
+
         {/* ---- Quality Comparison ---- */}
         <motion.div
           initial={{ opacity: 0, y: 20 }}
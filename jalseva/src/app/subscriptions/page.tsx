@@ -31,18 +31,52 @@ import {
   Pencil,
   Trash2,
   Sparkles,
+  Plane,
+  SkipForward,
+  Undo2,
+  AlertTriangle,
+  Receipt,
+  Zap,
 } from 'lucide-react';
 import { toast } from 'sonner';
 import { Button } from '@/components/ui/Button';
 import { Card } from '@/components/ui/Card';
+import { LocationPicker } from '@/components/shared/LocationPicker';
 import { useAuthStore } from '@/store/authStore';
 import { formatCurrency } from '@/lib/utils';
+import { calculateOrderPrice } from '@/lib/pricing';
+import {
+  DELIVERY_WINDOWS,
+  SUBSCRIPTION_DISCOUNT,
+  WEEKDAY_LABELS,
+  type SubscriptionChange,
+  type UpcomingDelivery,
+  applySubscriptionChange,
+  calculateNextDeliveryDate,
+  deliveryDateKey,
+  upcomingDeliveries,
+} from '@/lib/subscriptions';
+import {
+  DUNNING_RETRY_HOURS,
+  MANDATE_MAX_AMOUNT,
+  billingPeriod,
+  chargeOutcome,
+  isVpa,
+  maxMonthlyAmount,
+  planInvoice,
+} from '@/lib/subscription-billing';
 import { useT } from '@/lib/i18n';
 import type {
   WaterType,
   PaymentMethod,
   SubscriptionFrequency,
   SubscriptionPlan,
+  DeliveryWindow,
+  GeoLocation,
+  Weekday,
+  SubscriptionBilling,
+  SubscriptionChargeAttempt,
+  SubscriptionInvoice,
 } from '@/types';
 
 // ---------------------------------------------------------------------------
@@ -114,20 +148,15 @@ const PAYMENT_OPTIONS: {
   { key: 'cash', label: 'Cash', hindi: 'नकद', icon: <Banknote className="w-5 h-5" /> },
 ];
 
-const BASE_PRICES: Record<WaterType, number> = {
-  ro: 150,
-  mineral: 200,
-  tanker: 500,
-};
+/** Undiscounted per-delivery price from the shared pricing engine. */
+function listPrice(waterType: WaterType, quantityLitres: number): number {
+  return calculateOrderPrice({ waterType, quantityLitres }).total;
+}
 
-const SUBSCRIPTION_DISCOUNT = 0.10;
+type ScheduleFields = Pick<SubscriptionPlan, 'frequency' | 'weekdays' | 'deliveryWindow'>;
 
-const FREQUENCY_DAYS: Record<SubscriptionFrequency, number> = {
-  daily: 1,
-  weekly: 7,
-  biweekly: 14,
-  monthly: 30,
-};
+/** One upcoming delivery on the timeline, with the plan it belongs to. */
+type UpcomingEntry = UpcomingDelivery & { waterType: WaterType; subscriptionId: string };
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -139,34 +168,13 @@ function getNextDeliveryDate(frequency: SubscriptionFrequency, daysFromNow: numb
   return d;
 }
 
-function generateUpcomingDeliveries(subscriptions: SubscriptionPlan[]): {
-  date: Date;
-  waterType: WaterType;
-  quantity: number;
-  status: 'scheduled' | 'completed';
-  subscriptionId: string;
-}[] {
-  const deliveries: {
-    date: Date;
-    waterType: WaterType;
-    quantity: number;
-    status: 'scheduled' | 'completed';
-    subscriptionId: string;
-  }[] = [];
+function generateUpcomingDeliveries(subscriptions: SubscriptionPlan[]): UpcomingEntry[] {
+  const deliveries: UpcomingEntry[] = [];
 
   for (const sub of subscriptions) {
     if (!sub.isActive) continue;
-    const days = FREQUENCY_DAYS[sub.frequency];
-    for (let i = 0; i < 5; i++) {
-      const d = new Date(sub.nextDeliveryDate);
-      d.setDate(d.getDate() + days * i);
-      deliveries.push({
-        date: d,
-        waterType: sub.waterType,
-        quantity: sub.quantityLitres,
-        status: 'scheduled',
-        subscriptionId: sub.id,
-      });
+    for (const delivery of upcomingDeliveries(sub, 5)) {
+      deliveries.push({ ...delivery, waterType: sub.waterType, subscriptionId: sub.id });
     }
   }
 
@@ -182,6 +190,33 @@ function formatDate(date: Date): string {
   });
 }
 
+/** Formats an India date key (YYYY-MM-DD) like formatDate. */
+function formatDateKey(dateKey: string): string {
+  return formatDate(new Date(`${dateKey}T12:00:00+05:30`));
+}
+
+function formatWeekdays(weekdays: Weekday[]): string {
+  return weekdays.map((day) => WEEKDAY_LABELS[day]).join(' · ');
+}
+
+function isSameWindow(a?: DeliveryWindow | null, b?: DeliveryWindow | null): boolean {
+  return (a?.start ?? null) === (b?.start ?? null) && (a?.end ?? null) === (b?.end ?? null);
+}
+
+function formatWindow(window: DeliveryWindow): string {
+  const preset = DELIVERY_WINDOWS.find((w) => isSameWindow(w.window, window));
+  const range = `${window.start}–${window.end}`;
+  return preset ? `${preset.label} ${range}` : range;
+}
+
+/** Formats a billing month (YYYY-MM) like "October 2026". */
+function formatPeriod(period: string): string {
+  return new Date(`${period}-15T12:00:00+05:30`).toLocaleDateString('en-IN', {
+    month: 'long',
+    year: 'numeric',
+  });
+}
+
 function getWaterTypeConfig(type: WaterType) {
   return WATER_TYPES.find((w) => w.key === type) || WATER_TYPES[0];
 }
@@ -222,13 +257,71 @@ function createDemoSubscriptions(): SubscriptionPlan[] {
       deliveryLocation: { lat: 28.6139, lng: 77.209, address: 'Connaught Place, New Delhi' },
       nextDeliveryDate: threeDays,
       isActive: true,
-      paymentMethod: 'card',
+      paymentMethod: 'upi',
       pricePerDelivery: 180,
       createdAt: new Date(Date.now() - 15 * 24 * 60 * 60 * 1000),
     },
   ];
 }
 
+/** A charge to the plan's mandate; the demo declines only when asked to. */
+function demoAttempt(success = true): SubscriptionChargeAttempt {
+  return success
+    ? { at: new Date(), success, paymentId: `pay_demo_${Date.now().toString(36)}` }
+    : { at: new Date(), success, error: 'Insufficient funds' };
+}
+
+/**
+ * Bills the rest of this month and charges it, as the billing run does once
+ * a mandate is approved. The demo approves mandates straight away.
+ */
+function demoBill(
+  subscription: SubscriptionPlan,
+  billing: SubscriptionBilling,
+  attempt: SubscriptionChargeAttempt = demoAttempt()
+): { subscription: SubscriptionPlan; invoice: SubscriptionInvoice } {
+  const planned = planInvoice({ ...subscription, billing });
+  if (planned.invoice.status === 'paid') {
+    return { subscription: { ...subscription, billing: planned.billing }, invoice: planned.invoice };
+  }
+  const outcome = chargeOutcome({ ...subscription, billing: planned.billing }, planned.invoice, attempt);
+  return {
+    subscription: { ...subscription, ...outcome.subscription },
+    invoice: { ...planned.invoice, ...outcome.invoice },
+  };
+}
+
+function demoMandate(vpa: string): SubscriptionBilling['mandate'] {
+  const now = new Date();
+  return {
+    id: `token_demo_${Math.random().toString(36).slice(2, 10)}`,
+    vpa,
+    maxAmount: MANDATE_MAX_AMOUNT,
+    status: 'active',
+    createdAt: now,
+    authorizedAt: now,
+  };
+}
+
+/** The demo plans with their billing: one prepaid, one whose charge was declined. */
+function createDemoBilling(): {
+  subscriptions: SubscriptionPlan[];
+  invoices: SubscriptionInvoice[];
+} {
+  const [daily, weekly] = createDemoSubscriptions();
+  const fresh = { status: 'active' as const, prepaidDeliveries: 0, credit: 0 };
+  const prepaid = demoBill(daily, { ...fresh, mandate: demoMandate('priya@okaxis') });
+  const pastDue = demoBill(
+    weekly,
+    { ...fresh, mandate: demoMandate('priya@oksbi') },
+    demoAttempt(false)
+  );
+  return {
+    subscriptions: [prepaid.subscription, pastDue.subscription],
+    invoices: [prepaid.invoice, pastDue.invoice],
+  };
+}
+
 // ---------------------------------------------------------------------------
 // Bottom Navigation
 // ---------------------------------------------------------------------------
@@ -272,6 +365,107 @@ function BottomNav({ active }: { active: string }) {
   );
 }
 
+// ---------------------------------------------------------------------------
+// Schedule Picker (weekdays and time window)
+// ---------------------------------------------------------------------------
+
+function SchedulePicker({
+  frequency,
+  weekdays,
+  onWeekdaysChange,
+  deliveryWindow,
+  onWindowChange,
+}: {
+  frequency: SubscriptionFrequency;
+  weekdays: Weekday[];
+  onWeekdaysChange: (weekdays: Weekday[]) => void;
+  deliveryWindow: DeliveryWindow | null;
+  onWindowChange: (window: DeliveryWindow | null) => void;
+}) {
+  const windowOptions = [
+    { key: 'any', label: 'Any time', range: 'Anytime', window: null },
+    ...DELIVERY_WINDOWS.map((w) => ({ ...w, range: `${w.window.start}–${w.window.end}` })),
+  ];
+
+  return (
+    <>
+      {frequency === 'weekly' && (
+        <div>
+          <p className="text-sm font-semibold text-gray-700 mb-2">
+            Delivery Days / डिलीवरी के दिन
+          </p>
+          <div className="flex gap-1.5">
+            {WEEKDAY_LABELS.map((label, index) => {
+              const day = index as Weekday;
+              const isSelected = weekdays.includes(day);
+              return (
+                <button
+                  key={label}
+                  type="button"
+                  aria-pressed={isSelected}
+                  onClick={() =>
+                    onWeekdaysChange(
+                      isSelected
+                        ? weekdays.filter((d) => d !== day)
+                        : [...weekdays, day].sort((a, b) => a - b)
+                    )
+                  }
+                  className={`flex-1 py-2 rounded-lg text-xs font-medium transition-colors min-h-[40px] ${
+                    isSelected
+                      ? 'bg-blue-600 text-white shadow-sm'
+                      : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                  }`}
+                >
+                  {label}
+                </button>
+              );
+            })}
+          </div>
+          <p className="text-[11px] text-gray-400 mt-1.5">
+            {weekdays.length > 0
+              ? `Every ${formatWeekdays(weekdays)}`
+              : 'Pick days, or leave empty for once a week'}
+          </p>
+        </div>
+      )}
+
+      <div>
+        <p className="text-sm font-semibold text-gray-700 mb-2">
+          Time Window / डिलीवरी का समय
+        </p>
+        <div className="grid grid-cols-2 gap-2">
+          {windowOptions.map((opt) => {
+            const isSelected = isSameWindow(opt.window, deliveryWindow);
+            return (
+              <button
+                key={opt.key}
+                type="button"
+                onClick={() => onWindowChange(opt.window)}
+                className={`rounded-xl p-2.5 border-2 transition-all text-left ${
+                  isSelected
+                    ? 'border-blue-500 bg-blue-50'
+                    : 'border-gray-200 bg-white hover:border-gray-300'
+                }`}
+              >
+                <p
+                  className={`text-sm font-semibold ${
+                    isSelected ? 'text-blue-700' : 'text-gray-700'
+                  }`}
+                >
+                  {opt.label}
+                </p>
+                <p className={`text-[11px] ${isSelected ? 'text-blue-500' : 'text-gray-400'}`}>
+                  {opt.range}
+                </p>
+              </button>
+            );
+          })}
+        </div>
+      </div>
+    </>
+  );
+}
+
 // ---------------------------------------------------------------------------
 // Subscription Card
 // ---------------------------------------------------------------------------
@@ -281,15 +475,25 @@ function SubscriptionCard({
   onToggle,
   onEditFrequency,
   onCancel,
+  onHold,
+  onReleaseHold,
+  onBilling,
+  onPayNow,
 }: {
   subscription: SubscriptionPlan;
   onToggle: (id: string) => void;
   onEditFrequency: (id: string) => void;
   onCancel: (id: string) => void;
+  onHold: (id: string) => void;
+  onReleaseHold: (id: string) => void;
+  onBilling: (id: string) => void;
+  onPayNow: (id: string) => void;
 }) {
   const waterConfig = getWaterTypeConfig(subscription.waterType);
+  const { billing } = subscription;
+  const autoPay = billing?.mandate.status === 'active';
   const freqConfig = FREQUENCY_OPTIONS.find((f) => f.key === subscription.frequency);
-  const originalPrice = BASE_PRICES[subscription.waterType];
+  const originalPrice = listPrice(subscription.waterType, subscription.quantityLitres);
 
   return (
     <Card shadow="sm" className="overflow-hidden">
@@ -358,6 +562,65 @@ function SubscriptionCard({
             </span>
           </div>
 
+          {/* Weekdays and time window */}
+          {(!!subscription.weekdays?.length || subscription.deliveryWindow || autoPay) && (
+            <div className="flex flex-wrap items-center gap-2 mt-2">
+              {!!subscription.weekdays?.length && (
+                <span className="text-xs text-blue-600 bg-blue-50 px-2 py-1 rounded-lg font-medium flex items-center gap-1">
+                  <CalendarDays className="w-3 h-3" />
+                  {formatWeekdays(subscription.weekdays)}
+                </span>
+              )}
+              {subscription.deliveryWindow && (
+                <span className="text-xs text-blue-600 bg-blue-50 px-2 py-1 rounded-lg font-medium flex items-center gap-1">
+                  <Clock className="w-3 h-3" />
+                  {formatWindow(subscription.deliveryWindow)}
+                </span>
+              )}
+              {autoPay && (
+                <span className="text-xs text-emerald-600 bg-emerald-50 px-2 py-1 rounded-lg font-medium flex items-center gap-1">
+                  <Zap className="w-3 h-3" />
+                  AutoPay
+                </span>
+              )}
+            </div>
+          )}
+
+          {/* Vacation hold */}
+          {subscription.hold && (
+            <div className="flex items-center justify-between gap-2 mt-3 px-3 py-2 rounded-xl bg-amber-50 text-amber-700 text-xs">
+              <span className="flex items-center gap-1.5">
+                <Plane className="w-3.5 h-3.5" />
+                On hold {formatDateKey(subscription.hold.from)} –{' '}
+                {formatDateKey(subscription.hold.until)}
+              </span>
+              <button
+                onClick={() => onReleaseHold(subscription.id)}
+                className="font-semibold underline min-h-[32px]"
+              >
+                End hold
+              </button>
+            </div>
+          )}
+
+          {/* Overdue monthly invoice */}
+          {billing?.dunning && (
+            <div className="flex items-center justify-between gap-2 mt-3 px-3 py-2 rounded-xl bg-red-50 text-red-600 text-xs">
+              <span className="flex items-center gap-1.5">
+                <AlertTriangle className="w-3.5 h-3.5 shrink-0" />
+                {billing.status === 'suspended'
+                  ? 'Paused: monthly payment failed'
+                  : `Payment failed · paused ${formatDate(new Date(billing.dunning.graceEndsAt))} if unpaid`}
+              </span>
+              <button
+                onClick={() => onPayNow(subscription.id)}
+                className="font-semibold underline min-h-[32px] shrink-0"
+              >
+                Pay now
+              </button>
+            </div>
+          )}
+
           {/* Next delivery and price */}
           <div className="flex items-center justify-between mt-3 pt-3 border-t border-gray-100">
             <div className="flex items-center gap-1.5 text-xs text-gray-500">
@@ -383,7 +646,7 @@ function SubscriptionCard({
           </div>
 
           {/* Action buttons */}
-          <div className="flex items-center gap-2 mt-3">
+          <div className="flex flex-wrap items-center gap-2 mt-3">
             <button
               onClick={() => onToggle(subscription.id)}
               className={`flex items-center gap-1.5 px-3 py-2 rounded-xl text-xs font-medium transition-colors min-h-[36px] ${
@@ -411,6 +674,22 @@ function SubscriptionCard({
               <Pencil className="w-3.5 h-3.5" />
               Edit
             </button>
+            {subscription.isActive && !subscription.hold && (
+              <button
+                onClick={() => onHold(subscription.id)}
+                className="flex items-center gap-1.5 px-3 py-2 rounded-xl text-xs font-medium bg-amber-50 text-amber-600 hover:bg-amber-100 transition-colors min-h-[36px]"
+              >
+                <Plane className="w-3.5 h-3.5" />
+                Vacation
+              </button>
+            )}
+            <button
+              onClick={() => onBilling(subscription.id)}
+              className="flex items-center gap-1.5 px-3 py-2 rounded-xl text-xs font-medium bg-emerald-50 text-emerald-600 hover:bg-emerald-100 transition-colors min-h-[36px]"
+            >
+              <Receipt className="w-3.5 h-3.5" />
+              Billing
+            </button>
             <button
               onClick={() => onCancel(subscription.id)}
               className="flex items-center gap-1.5 px-3 py-2 rounded-xl text-xs font-medium bg-red-50 text-red-500 hover:bg-red-100 transition-colors min-h-[36px]"
@@ -442,27 +721,36 @@ function CreateSubscriptionModal({
   const [waterType, setWaterType] = useState<WaterType>('ro');
   const [quantity, setQuantity] = useState<number>(20);
   const [frequency, setFrequency] = useState<SubscriptionFrequency>('weekly');
+  const [weekdays, setWeekdays] = useState<Weekday[]>([]);
+  const [deliveryWindow, setDeliveryWindow] = useState<DeliveryWindow | null>(null);
   const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('upi');
   const [creating, setCreating] = useState(false);
 
-  const originalPrice = BASE_PRICES[waterType];
-  const discountedPrice = Math.round(originalPrice * (1 - SUBSCRIPTION_DISCOUNT));
+  const originalPrice = listPrice(waterType, quantity);
+  const discountedPrice = calculateOrderPrice({
+    waterType,
+    quantityLitres: quantity,
+    discountPercent: SUBSCRIPTION_DISCOUNT * 100,
+  }).total;
   const savings = originalPrice - discountedPrice;
 
   const handleCreate = async () => {
     setCreating(true);
 
-    const nextDate = new Date();
-    nextDate.setDate(nextDate.getDate() + FREQUENCY_DAYS[frequency]);
+    const schedule: ScheduleFields = {
+      frequency,
+      weekdays: frequency === 'weekly' && weekdays.length > 0 ? weekdays : undefined,
+      deliveryWindow,
+    };
 
     await new Promise((resolve) => setTimeout(resolve, 800));
 
     onCreate({
       waterType,
       quantityLitres: quantity,
-      frequency,
+      ...schedule,
       deliveryLocation: { lat: 28.6139, lng: 77.209, address: 'Current Location' },
-      nextDeliveryDate: nextDate,
+      nextDeliveryDate: new Date(calculateNextDeliveryDate(schedule)),
       isActive: true,
       paymentMethod,
       pricePerDelivery: discountedPrice,
@@ -475,6 +763,8 @@ function CreateSubscriptionModal({
     setWaterType('ro');
     setQuantity(20);
     setFrequency('weekly');
+    setWeekdays([]);
+    setDeliveryWindow(null);
     setPaymentMethod('upi');
   };
 
@@ -615,6 +905,14 @@ function CreateSubscriptionModal({
               </div>
             </div>
 
+            <SchedulePicker
+              frequency={frequency}
+              weekdays={weekdays}
+              onWeekdaysChange={setWeekdays}
+              deliveryWindow={deliveryWindow}
+              onWindowChange={setDeliveryWindow}
+            />
+
             {/* Delivery address */}
             <div>
               <p className="text-sm font-semibold text-gray-700 mb-2">
@@ -718,21 +1016,25 @@ function CreateSubscriptionModal({
 }
 
 // ---------------------------------------------------------------------------
-// Edit Frequency Modal
+// Edit Schedule Modal
 // ---------------------------------------------------------------------------
 
-function EditFrequencyModal({
+function EditScheduleModal({
   isOpen,
   onClose,
-  currentFrequency,
+  current,
   onSave,
 }: {
   isOpen: boolean;
   onClose: () => void;
-  currentFrequency: SubscriptionFrequency;
-  onSave: (frequency: SubscriptionFrequency) => void;
+  current: ScheduleFields;
+  onSave: (schedule: ScheduleFields) => void;
 }) {
-  const [selected, setSelected] = useState<SubscriptionFrequency>(currentFrequency);
+  const [selected, setSelected] = useState<SubscriptionFrequency>(current.frequency);
+  const [weekdays, setWeekdays] = useState<Weekday[]>(current.weekdays ?? []);
+  const [deliveryWindow, setDeliveryWindow] = useState<DeliveryWindow | null>(
+    current.deliveryWindow ?? null
+  );
 
   if (!isOpen) return null;
 
@@ -749,15 +1051,15 @@ function EditFrequencyModal({
         animate={{ y: 0, opacity: 1 }}
         exit={{ y: 100, opacity: 0 }}
         transition={{ type: 'spring', damping: 25 }}
-        className="bg-white rounded-t-3xl sm:rounded-3xl w-full max-w-md p-6"
+        className="bg-white rounded-t-3xl sm:rounded-3xl w-full max-w-md max-h-[90vh] overflow-y-auto p-6"
         onClick={(e) => e.stopPropagation()}
       >
         <div className="flex items-center justify-between mb-5">
           <div>
             <h3 className="text-lg font-bold text-gray-900">
-              Change Frequency
+              Change Schedule
             </h3>
-            <p className="text-xs text-gray-400">आवृत्ति बदलें</p>
+            <p className="text-xs text-gray-400">शेड्यूल बदलें</p>
           </div>
           <button
             onClick={onClose}
@@ -807,13 +1109,26 @@ function EditFrequencyModal({
           })}
         </div>
 
+        <div className="space-y-5 mt-5">
+          <SchedulePicker
+            frequency={selected}
+            weekdays={weekdays}
+            onWeekdaysChange={setWeekdays}
+            deliveryWindow={deliveryWindow}
+            onWindowChange={setDeliveryWindow}
+          />
+        </div>
+
         <Button
           variant="primary"
           size="lg"
           fullWidth
           onClick={() => {
-            onSave(selected);
-            onClose();
+            onSave({
+              frequency: selected,
+              weekdays: selected === 'weekly' ? weekdays : [],
+              deliveryWindow,
+            });
           }}
           className="mt-5 rounded-2xl"
         >
@@ -824,6 +1139,370 @@ function EditFrequencyModal({
   );
 }
 
+// ---------------------------------------------------------------------------
+// Vacation Hold Modal
+// ---------------------------------------------------------------------------
+
+function HoldModal({
+  onClose,
+  onSave,
+}: {
+  onClose: () => void;
+  onSave: (from: string, until: string) => void;
+}) {
+  const today = deliveryDateKey(new Date());
+  const [from, setFrom] = useState(today);
+  const [until, setUntil] = useState(today);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/50 z-50 flex items-end sm:items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ y: 100, opacity: 0 }}
+        animate={{ y: 0, opacity: 1 }}
+        exit={{ y: 100, opacity: 0 }}
+        transition={{ type: 'spring', damping: 25 }}
+        className="bg-white rounded-t-3xl sm:rounded-3xl w-full max-w-md p-6"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-5">
+          <div>
+            <h3 className="text-lg font-bold text-gray-900">Vacation Hold</h3>
+            <p className="text-xs text-gray-400">छुट्टी पर डिलीवरी रोकें</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-full hover:bg-gray-100 min-w-[44px] min-h-[44px] flex items-center justify-center"
+          >
+            <X className="w-5 h-5 text-gray-400" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <label className="text-sm font-semibold text-gray-700">
+            From / से
+            <input
+              type="date"
+              value={from}
+              min={today}
+              onChange={(e) => setFrom(e.target.value)}
+              className="mt-1 w-full rounded-xl border border-gray-200 px-3 py-2.5 text-sm font-normal"
+            />
+          </label>
+          <label className="text-sm font-semibold text-gray-700">
+            Until / तक
+            <input
+              type="date"
+              value={until}
+              min={from}
+              onChange={(e) => setUntil(e.target.value)}
+              className="mt-1 w-full rounded-xl border border-gray-200 px-3 py-2.5 text-sm font-normal"
+            />
+          </label>
+        </div>
+        <p className="text-xs text-gray-400 mt-3">
+          No deliveries on these days. Your plan resumes on its own afterwards.
+        </p>
+
+        <Button
+          variant="primary"
+          size="lg"
+          fullWidth
+          onClick={() => onSave(from, until)}
+          className="mt-5 rounded-2xl"
+        >
+          Pause Deliveries / डिलीवरी रोकें
+        </Button>
+      </motion.div>
+    </motion.div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// One-off Delivery Change Modal
+// ---------------------------------------------------------------------------
+
+function DeliveryChangeModal({
+  delivery,
+  onClose,
+  onSave,
+  onReset,
+}: {
+  delivery: UpcomingEntry;
+  onClose: () => void;
+  onSave: (change: { quantityLitres?: number; deliveryLocation?: GeoLocation }) => void;
+  onReset: () => void;
+}) {
+  const [quantity, setQuantity] = useState(delivery.quantityLitres);
+  const [location, setLocation] = useState<GeoLocation | undefined>(delivery.deliveryLocation);
+
+  const handleSave = () => {
+    const locationChanged =
+      !!location &&
+      (location.lat !== delivery.deliveryLocation.lat ||
+        location.lng !== delivery.deliveryLocation.lng);
+    onSave({
+      quantityLitres: quantity !== delivery.quantityLitres ? quantity : undefined,
+      deliveryLocation: locationChanged ? location : undefined,
+    });
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/50 z-50 flex items-end sm:items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ y: 100, opacity: 0 }}
+        animate={{ y: 0, opacity: 1 }}
+        exit={{ y: 100, opacity: 0 }}
+        transition={{ type: 'spring', damping: 25 }}
+        className="bg-white rounded-t-3xl sm:rounded-3xl w-full max-w-md p-6"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-5">
+          <div>
+            <h3 className="text-lg font-bold text-gray-900">
+              Change {formatDate(delivery.date)}
+            </h3>
+            <p className="text-xs text-gray-400">केवल इस डिलीवरी के लिए</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-full hover:bg-gray-100 min-w-[44px] min-h-[44px] flex items-center justify-center"
+          >
+            <X className="w-5 h-5 text-gray-400" />
+          </button>
+        </div>
+
+        <p className="text-sm font-semibold text-gray-700 mb-2">Quantity / मात्रा</p>
+        <div className="flex gap-2 flex-wrap mb-5">
+          {QUANTITY_OPTIONS.map((opt) => (
+            <button
+              key={opt.litres}
+              onClick={() => setQuantity(opt.litres)}
+              className={`px-4 py-2.5 rounded-xl text-sm font-medium transition-all min-h-[44px] ${
+                quantity === opt.litres
+                  ? 'bg-blue-600 text-white shadow-sm'
+                  : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+              }`}
+            >
+              {opt.label}
+            </button>
+          ))}
+        </div>
+
+        <p className="text-sm font-semibold text-gray-700 mb-2">Address / पता</p>
+        <LocationPicker value={location} onChange={setLocation} />
+
+        <div className="flex gap-2 mt-5">
+          {delivery.overridden && (
+            <Button variant="outline" size="lg" onClick={onReset} className="rounded-2xl">
+              Reset
+            </Button>
+          )}
+          <Button variant="primary" size="lg" fullWidth onClick={handleSave} className="rounded-2xl">
+            Save / सहेजें
+          </Button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Billing & AutoPay Modal
+// ---------------------------------------------------------------------------
+
+const INVOICE_BADGES: Record<SubscriptionInvoice['status'], { label: string; className: string }> = {
+  paid: { label: 'Paid', className: 'bg-green-50 text-green-600' },
+  pending: { label: 'Due', className: 'bg-amber-50 text-amber-600' },
+  failed: { label: 'Unpaid', className: 'bg-red-50 text-red-500' },
+};
+
+function BillingModal({
+  subscription,
+  invoices,
+  onClose,
+  onSetup,
+  onTurnOff,
+  onPayNow,
+}: {
+  subscription: SubscriptionPlan;
+  invoices: SubscriptionInvoice[];
+  onClose: () => void;
+  onSetup: (vpa: string) => void;
+  onTurnOff: () => void;
+  onPayNow: () => void;
+}) {
+  const [vpa, setVpa] = useState('');
+  const { billing } = subscription;
+  const autoPay = billing?.mandate.status === 'active';
+  const monthly = maxMonthlyAmount(subscription);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/50 z-50 flex items-end sm:items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ y: 100, opacity: 0 }}
+        animate={{ y: 0, opacity: 1 }}
+        exit={{ y: 100, opacity: 0 }}
+        transition={{ type: 'spring', damping: 25 }}
+        className="bg-white rounded-t-3xl sm:rounded-3xl w-full max-w-md p-6 max-h-[85vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-5">
+          <div>
+            <h3 className="text-lg font-bold text-gray-900">Billing & AutoPay</h3>
+            <p className="text-xs text-gray-400">बिलिंग और ऑटोपे</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-full hover:bg-gray-100 min-w-[44px] min-h-[44px] flex items-center justify-center"
+          >
+            <X className="w-5 h-5 text-gray-400" />
+          </button>
+        </div>
+
+        {/* Overdue invoice */}
+        {billing?.dunning && (
+          <div className="mb-4 p-3 rounded-2xl bg-red-50 text-red-600 text-xs">
+            <p className="font-semibold flex items-center gap-1.5">
+              <AlertTriangle className="w-4 h-4" />
+              {billing.status === 'suspended'
+                ? 'Plan paused until this month is paid'
+                : 'Your monthly payment failed'}
+            </p>
+            <p className="mt-1 text-red-500">
+              {billing.dunning.failures} of {DUNNING_RETRY_HOURS.length + 1} attempts
+              {billing.dunning.nextRetryAt
+                ? ` · next try ${formatDate(new Date(billing.dunning.nextRetryAt))}`
+                : ''}
+              {billing.status !== 'suspended' &&
+                ` · deliveries continue until ${formatDate(new Date(billing.dunning.graceEndsAt))}`}
+            </p>
+            <Button variant="danger" size="sm" onClick={onPayNow} className="mt-3 rounded-xl">
+              Pay now / अभी भुगतान करें
+            </Button>
+          </div>
+        )}
+
+        {/* Mandate */}
+        {autoPay && billing ? (
+          <div className="p-4 rounded-2xl bg-emerald-50 border border-emerald-100">
+            <p className="text-sm font-semibold text-emerald-700 flex items-center gap-1.5">
+              <Zap className="w-4 h-4" />
+              UPI AutoPay on
+            </p>
+            <p className="text-xs text-emerald-600 mt-1">
+              {billing.mandate.vpa} · up to {formatCurrency(billing.mandate.maxAmount)} a month
+            </p>
+            <p className="text-xs text-emerald-600 mt-1">
+              {billing.prepaidDeliveries} prepaid{' '}
+              {billing.prepaidDeliveries === 1 ? 'delivery' : 'deliveries'} left this month
+              {billing.credit > 0 && ` · ${formatCurrency(billing.credit)} credit`}
+            </p>
+            <button
+              onClick={onTurnOff}
+              className="mt-2 text-xs font-semibold text-red-500 underline min-h-[32px]"
+            >
+              Turn off AutoPay
+            </button>
+          </div>
+        ) : (
+          <div className="p-4 rounded-2xl bg-gray-50">
+            <p className="text-sm font-semibold text-gray-700">Prepay monthly with UPI AutoPay</p>
+            <p className="text-xs text-gray-400 mt-1">
+              Pay for the month's deliveries in one go. Skipped days come back as credit next
+              month. Up to {formatCurrency(monthly)} a month.
+            </p>
+            <input
+              type="text"
+              value={vpa}
+              onChange={(e) => setVpa(e.target.value.trim())}
+              placeholder="name@okaxis"
+              className="mt-3 w-full rounded-xl border border-gray-200 px-3 py-2.5 text-sm"
+              aria-label="UPI id"
+            />
+            <Button
+              variant="primary"
+              size="md"
+              fullWidth
+              disabled={!isVpa(vpa)}
+              onClick={() => onSetup(vpa)}
+              className="mt-3 rounded-xl"
+            >
+              Set up AutoPay / ऑटोपे शुरू करें
+            </Button>
+          </div>
+        )}
+
+        {/* Invoices */}
+        <p className="text-sm font-semibold text-gray-700 mt-5 mb-2">
+          Invoices / बिल
+        </p>
+        {invoices.length === 0 ? (
+          <p className="text-xs text-gray-400">
+            No invoices yet. You are paying for each delivery.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {invoices.map((invoice) => {
+              const badge = INVOICE_BADGES[invoice.status];
+              const failures = invoice.attempts.filter((a) => !a.success).length;
+              return (
+                <div key={invoice.id} className="p-3 rounded-xl border border-gray-100">
+                  <div className="flex items-center justify-between">
+                    <p className="text-sm font-medium text-gray-800 flex items-center gap-1.5">
+                      {formatPeriod(invoice.period)}
+                      {invoice.prorated && (
+                        <span className="text-[10px] bg-blue-50 text-blue-600 px-1.5 py-0.5 rounded-full">
+                          Prorated
+                        </span>
+                      )}
+                    </p>
+                    <span
+                      className={`text-[10px] px-2 py-1 rounded-full font-medium ${badge.className}`}
+                    >
+                      {badge.label}
+                    </span>
+                  </div>
+                  <div className="flex items-center justify-between mt-1 text-xs text-gray-400">
+                    <span>
+                      {invoice.deliveries} × {formatCurrency(invoice.pricePerDelivery)}
+                      {invoice.credit > 0 && ` − ${formatCurrency(invoice.credit)} credit`}
+                    </span>
+                    <span className="text-sm font-bold text-gray-900">
+                      {formatCurrency(invoice.amount)}
+                    </span>
+                  </div>
+                  <p className="text-[11px] text-gray-400 mt-0.5">
+                    {formatDateKey(invoice.from)} – {formatDateKey(invoice.until)}
+                    {failures > 0 && ` · ${failures} failed ${failures === 1 ? 'charge' : 'charges'}`}
+                  </p>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </motion.div>
+    </motion.div>
+  );
+}
+
 // ---------------------------------------------------------------------------
 // Main Subscriptions Page
 // ---------------------------------------------------------------------------
@@ -833,14 +1512,17 @@ export default function SubscriptionsPage() {
   const { user } = useAuthStore();
   const { t } = useT();
 
-  const [subscriptions, setSubscriptions] = useState<SubscriptionPlan[]>(
-    createDemoSubscriptions
-  );
+  const [demo] = useState(createDemoBilling);
+  const [subscriptions, setSubscriptions] = useState<SubscriptionPlan[]>(demo.subscriptions);
+  const [invoices, setInvoices] = useState<SubscriptionInvoice[]>(demo.invoices);
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [editingSubId, setEditingSubId] = useState<string | null>(null);
+  const [holdSubId, setHoldSubId] = useState<string | null>(null);
+  const [changingDelivery, setChangingDelivery] = useState<UpcomingEntry | null>(null);
+  const [billingSubId, setBillingSubId] = useState<string | null>(null);
 
   // --- Upcoming deliveries ---
-  const upcomingDeliveries = useMemo(
+  const timeline = useMemo(
     () => generateUpcomingDeliveries(subscriptions),
     [subscriptions]
   );
@@ -849,7 +1531,7 @@ export default function SubscriptionsPage() {
   const savingsData = useMemo(() => {
     const activeSubs = subscriptions.filter((s) => s.isActive);
     const totalSavingsPerDelivery = activeSubs.reduce((sum, sub) => {
-      const original = BASE_PRICES[sub.waterType];
+      const original = listPrice(sub.waterType, sub.quantityLitres);
       return sum + (original - sub.pricePerDelivery);
     }, 0);
     // Simulate 30 days of savings
@@ -865,47 +1547,198 @@ export default function SubscriptionsPage() {
   }, [subscriptions]);
 
   // --- Handlers ---
-  const handleToggle = useCallback(
-    (id: string) => {
+  // Every change goes through the same rules the API applies.
+  const applyChange = useCallback(
+    (id: string, change: SubscriptionChange, message: string) => {
+      const sub = subscriptions.find((s) => s.id === id);
+      if (!sub) return false;
+      const result = applySubscriptionChange(sub, change);
+      if (!result.success) {
+        toast.error(result.error);
+        return false;
+      }
       setSubscriptions((prev) =>
-        prev.map((sub) => {
-          if (sub.id !== id) return sub;
-          const newActive = !sub.isActive;
-          if (newActive) {
-            const nextDate = new Date();
-            nextDate.setDate(nextDate.getDate() + FREQUENCY_DAYS[sub.frequency]);
-            toast.success('Subscription resumed!\nसब्सक्रिप्शन फिर शुरू!');
-            return { ...sub, isActive: true, nextDeliveryDate: nextDate };
-          }
-          toast.info('Subscription paused.\nसब्सक्रिप्शन रोका गया।');
-          return { ...sub, isActive: false };
-        })
+        prev.map((s) => (s.id === id ? { ...s, ...result.patch } : s))
       );
+      toast.success(message);
+      return true;
     },
-    []
+    [subscriptions]
+  );
+
+  const handleToggle = useCallback(
+    (id: string) => {
+      const sub = subscriptions.find((s) => s.id === id);
+      if (!sub) return;
+      if (sub.isActive) {
+        applyChange(id, { action: 'pause' }, 'Subscription paused.\nसब्सक्रिप्शन रोका गया।');
+      } else {
+        applyChange(id, { action: 'resume' }, 'Subscription resumed!\nसब्सक्रिप्शन फिर शुरू!');
+      }
+    },
+    [subscriptions, applyChange]
   );
 
   const handleEditFrequency = useCallback((id: string) => {
     setEditingSubId(id);
   }, []);
 
-  const handleSaveFrequency = useCallback(
-    (newFrequency: SubscriptionFrequency) => {
+  const handleSaveSchedule = useCallback(
+    (schedule: ScheduleFields) => {
       if (!editingSubId) return;
-      setSubscriptions((prev) =>
-        prev.map((sub) => {
-          if (sub.id !== editingSubId) return sub;
-          const nextDate = new Date();
-          nextDate.setDate(nextDate.getDate() + FREQUENCY_DAYS[newFrequency]);
-          return { ...sub, frequency: newFrequency, nextDeliveryDate: nextDate };
-        })
+      const saved = applyChange(
+        editingSubId,
+        { action: 'update', ...schedule },
+        'Schedule updated!\nशेड्यूल अपडेट हो गया!'
+      );
+      if (saved) setEditingSubId(null);
+    },
+    [editingSubId, applyChange]
+  );
+
+  const handleSkip = useCallback(
+    (delivery: UpcomingEntry) => {
+      if (delivery.status === 'skipped') {
+        applyChange(
+          delivery.subscriptionId,
+          { action: 'unskip', date: delivery.dateKey },
+          'Delivery restored.\nडिलीवरी वापस जोड़ी गई।'
+        );
+      } else {
+        applyChange(
+          delivery.subscriptionId,
+          { action: 'skip', date: delivery.dateKey },
+          'Delivery skipped.\nडिलीवरी छोड़ी गई।'
+        );
+      }
+    },
+    [applyChange]
+  );
+
+  const handleHold = useCallback(
+    (from: string, until: string) => {
+      if (!holdSubId) return;
+      const saved = applyChange(
+        holdSubId,
+        { action: 'hold', from, until },
+        'Deliveries on hold.\nडिलीवरी रोकी गई।'
+      );
+      if (saved) setHoldSubId(null);
+    },
+    [holdSubId, applyChange]
+  );
+
+  const handleReleaseHold = useCallback(
+    (id: string) => {
+      applyChange(id, { action: 'release_hold' }, 'Hold ended.\nडिलीवरी फिर शुरू।');
+    },
+    [applyChange]
+  );
+
+  const handleChangeDelivery = useCallback(
+    (change: { quantityLitres?: number; deliveryLocation?: GeoLocation }) => {
+      if (!changingDelivery) return;
+      if (change.quantityLitres === undefined && !change.deliveryLocation) {
+        setChangingDelivery(null);
+        return;
+      }
+      const saved = applyChange(
+        changingDelivery.subscriptionId,
+        { action: 'override', date: changingDelivery.dateKey, ...change },
+        'Delivery updated.\nडिलीवरी बदली गई।'
       );
-      toast.success('Frequency updated!\nआवृत्ति अपडेट हो गई!');
-      setEditingSubId(null);
+      if (saved) setChangingDelivery(null);
+    },
+    [changingDelivery, applyChange]
+  );
+
+  const handleResetDelivery = useCallback(() => {
+    if (!changingDelivery) return;
+    const saved = applyChange(
+      changingDelivery.subscriptionId,
+      { action: 'clear_override', date: changingDelivery.dateKey },
+      'Delivery reset.\nडिलीवरी पहले जैसी।'
+    );
+    if (saved) setChangingDelivery(null);
+  }, [changingDelivery, applyChange]);
+
+  // --- Billing ---
+  const saveBilling = useCallback(
+    (subscription: SubscriptionPlan, invoice?: SubscriptionInvoice) => {
+      setSubscriptions((prev) => prev.map((s) => (s.id === subscription.id ? subscription : s)));
+      if (invoice) {
+        setInvoices((prev) => [invoice, ...prev.filter((i) => i.id !== invoice.id)]);
+      }
+    },
+    []
+  );
+
+  const payInvoice = useCallback(
+    (sub: SubscriptionPlan) => {
+      const { billing } = sub;
+      const invoice = invoices.find((i) => i.id === billing?.dunning?.invoiceId);
+      if (!billing || !invoice) return;
+      const outcome = chargeOutcome({ ...sub, billing }, invoice, demoAttempt());
+      saveBilling({ ...sub, ...outcome.subscription }, { ...invoice, ...outcome.invoice });
+      toast.success(`${formatCurrency(invoice.amount)} paid.\nभुगतान हो गया।`);
+    },
+    [invoices, saveBilling]
+  );
+
+  const handlePayNow = useCallback(
+    (id: string) => {
+      const sub = subscriptions.find((s) => s.id === id);
+      if (!sub) return;
+      if (sub.billing?.mandate.status !== 'active') {
+        toast.error('Set up UPI AutoPay again to pay this invoice.');
+        setBillingSubId(id);
+        return;
+      }
+      payInvoice(sub);
+    },
+    [subscriptions, payInvoice]
+  );
+
+  const handleSetupAutoPay = useCallback(
+    (vpa: string) => {
+      const sub = subscriptions.find((s) => s.id === billingSubId);
+      if (!sub) return;
+      const monthly = maxMonthlyAmount(sub);
+      if (monthly > MANDATE_MAX_AMOUNT) {
+        toast.error(
+          `This plan can cost up to ₹${monthly} a month, over the ₹${MANDATE_MAX_AMOUNT} UPI AutoPay limit.`
+        );
+        return;
+      }
+      // Credit, prepaid deliveries and any unpaid invoice carry over
+      const billing: SubscriptionBilling = {
+        status: 'active',
+        prepaidDeliveries: 0,
+        credit: 0,
+        ...sub.billing,
+        mandate: demoMandate(vpa),
+      };
+      if (billing.dunning) {
+        payInvoice({ ...sub, billing });
+      } else if (billing.period === billingPeriod(new Date()) || !sub.isActive) {
+        saveBilling({ ...sub, billing });
+      } else {
+        const billed = demoBill(sub, billing);
+        saveBilling(billed.subscription, billed.invoice);
+      }
+      toast.success('UPI AutoPay set up!\nऑटोपे शुरू हो गया!');
     },
-    [editingSubId]
+    [subscriptions, billingSubId, payInvoice, saveBilling]
   );
 
+  const handleTurnOffAutoPay = useCallback(() => {
+    const sub = subscriptions.find((s) => s.id === billingSubId);
+    if (!sub?.billing) return;
+    const mandate = { ...sub.billing.mandate, status: 'revoked' as const, revokedAt: new Date() };
+    saveBilling({ ...sub, billing: { ...sub.billing, mandate } });
+    toast.success('AutoPay turned off.\nऑटोपे बंद किया गया।');
+  }, [subscriptions, billingSubId, saveBilling]);
+
   const handleCancel = useCallback((id: string) => {
     setSubscriptions((prev) => prev.filter((sub) => sub.id !== id));
     toast.success('Subscription cancelled.\nसब्सक्रिप्शन रद्द हो गया।');
@@ -926,6 +1759,7 @@ export default function SubscriptionsPage() {
   );
 
   const editingSub = subscriptions.find((s) => s.id === editingSubId);
+  const billingSub = subscriptions.find((s) => s.id === billingSubId);
 
   return (
     <div className="min-h-screen bg-slate-50 pb-20">
@@ -1032,6 +1866,10 @@ export default function SubscriptionsPage() {
                       onToggle={handleToggle}
                       onEditFrequency={handleEditFrequency}
                       onCancel={handleCancel}
+                      onHold={setHoldSubId}
+                      onReleaseHold={handleReleaseHold}
+                      onBilling={setBillingSubId}
+                      onPayNow={handlePayNow}
                     />
                   </motion.div>
                 ))}
@@ -1066,7 +1904,7 @@ export default function SubscriptionsPage() {
         )}
 
         {/* --- Upcoming Deliveries Timeline --- */}
-        {upcomingDeliveries.length > 0 && (
+        {timeline.length > 0 && (
           <motion.div
             initial={{ opacity: 0, y: 10 }}
             animate={{ opacity: 1, y: 0 }}
@@ -1083,16 +1921,24 @@ export default function SubscriptionsPage() {
 
             <Card shadow="sm">
               <div className="space-y-0">
-                {upcomingDeliveries.map((delivery, index) => {
+                {timeline.map((delivery, index) => {
                   const waterConfig = getWaterTypeConfig(delivery.waterType);
-                  const isLast = index === upcomingDeliveries.length - 1;
+                  const isLast = index === timeline.length - 1;
+                  const isNext = index === 0 && delivery.status === 'scheduled';
+                  const badge = {
+                    scheduled: isNext
+                      ? { label: 'Next', className: 'bg-blue-50 text-blue-600' }
+                      : { label: 'Scheduled', className: 'bg-gray-50 text-gray-400' },
+                    skipped: { label: 'Skipped', className: 'bg-red-50 text-red-500' },
+                    on_hold: { label: 'On hold', className: 'bg-amber-50 text-amber-600' },
+                  }[delivery.status];
                   return (
-                    <div key={`${delivery.subscriptionId}-${index}`} className="flex gap-3">
+                    <div key={`${delivery.subscriptionId}-${delivery.dateKey}`} className="flex gap-3">
                       {/* Timeline */}
                       <div className="flex flex-col items-center">
                         <div
                           className={`w-3 h-3 rounded-full shrink-0 mt-1 ${
-                            index === 0
+                            isNext
                               ? 'bg-blue-500 ring-4 ring-blue-100'
                               : 'bg-gray-300'
                           }`}
@@ -1117,23 +1963,52 @@ export default function SubscriptionsPage() {
                             </span>
                           </div>
                           <div>
-                            <p className="text-sm font-medium text-gray-800">
-                              {waterConfig.label} - {delivery.quantity}L
+                            <p
+                              className={`text-sm font-medium ${
+                                delivery.status === 'scheduled'
+                                  ? 'text-gray-800'
+                                  : 'text-gray-400 line-through'
+                              }`}
+                            >
+                              {waterConfig.label} - {delivery.quantityLitres}L
                             </p>
                             <p className="text-xs text-gray-400">
                               {formatDate(delivery.date)}
+                              {delivery.overridden && (
+                                <span className="text-blue-500"> · Changed</span>
+                              )}
                             </p>
                           </div>
                         </div>
-                        <span
-                          className={`text-[10px] px-2 py-1 rounded-full font-medium ${
-                            index === 0
-                              ? 'bg-blue-50 text-blue-600'
-                              : 'bg-gray-50 text-gray-400'
-                          }`}
-                        >
-                          {index === 0 ? 'Next' : 'Scheduled'}
-                        </span>
+                        <div className="flex items-center gap-1.5">
+                          <span
+                            className={`text-[10px] px-2 py-1 rounded-full font-medium ${badge.className}`}
+                          >
+                            {badge.label}
+                          </span>
+                          {delivery.status !== 'on_hold' && (
+                            <button
+                              onClick={() => handleSkip(delivery)}
+                              className="p-1.5 rounded-lg text-gray-400 hover:bg-gray-100 min-w-[32px] min-h-[32px] flex items-center justify-center"
+                              aria-label={delivery.status === 'skipped' ? 'Undo skip' : 'Skip delivery'}
+                            >
+                              {delivery.status === 'skipped' ? (
+                                <Undo2 className="w-4 h-4" />
+                              ) : (
+                                <SkipForward className="w-4 h-4" />
+                              )}
+                            </button>
+                          )}
+                          {delivery.status === 'scheduled' && (
+                            <button
+                              onClick={() => setChangingDelivery(delivery)}
+                              className="p-1.5 rounded-lg text-gray-400 hover:bg-gray-100 min-w-[32px] min-h-[32px] flex items-center justify-center"
+                              aria-label="Change this delivery"
+                            >
+                              <Pencil className="w-4 h-4" />
+                            </button>
+                          )}
+                        </div>
                       </div>
                     </div>
                   );
@@ -1240,11 +2115,41 @@ export default function SubscriptionsPage() {
 
       <AnimatePresence>
         {editingSubId && editingSub && (
-          <EditFrequencyModal
+          <EditScheduleModal
             isOpen={!!editingSubId}
             onClose={() => setEditingSubId(null)}
-            currentFrequency={editingSub.frequency}
-            onSave={handleSaveFrequency}
+            current={editingSub}
+            onSave={handleSaveSchedule}
+          />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {holdSubId && (
+          <HoldModal onClose={() => setHoldSubId(null)} onSave={handleHold} />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {changingDelivery && (
+          <DeliveryChangeModal
+            delivery={changingDelivery}
+            onClose={() => setChangingDelivery(null)}
+            onSave={handleChangeDelivery}
+            onReset={handleResetDelivery}
+          />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {billingSub && (
+          <BillingModal
+            subscription={billingSub}
+            invoices={invoices.filter((i) => i.subscriptionId === billingSub.id)}
+            onClose={() => setBillingSubId(null)}
+            onSetup={handleSetupAutoPay}
+            onTurnOff={handleTurnOffAutoPay}
+            onPayNow={() => handlePayNow(billingSub.id)}
           />
         )}
       </AnimatePresence>
@@ -20,6 +20,9 @@ import {
   Flag,
   PackageCheck,
   Loader2,
+  Banknote,
+  KeyRound,
+  Gauge,
 } from 'lucide-react';
 import { toast } from 'sonner';
 import { Card } from '@/components/ui/Card';
@@ -27,7 +30,20 @@ import { Button } from '@/components/ui/Button';
 import { cn, formatCurrency } from '@/lib/utils';
 import { useAuthStore } from '@/store/authStore';
 import { useSupplierStore } from '@/store/supplierStore';
-import type { Order, WaterType, OrderStatus } from '@/types';
+import { needsCashCollection } from '@/lib/cash';
+import { OTP_LENGTH } from '@/lib/delivery-otp';
+import { currentLeg, isFinalLeg, legLabel } from '@/lib/delivery-legs';
+import { photoCheckIssues } from '@/lib/delivery-proof';
+import type { VolumeEntry } from '@/lib/delivery-volume';
+import type {
+  DeliveryLegStatus,
+  DeliveryPhotoProof,
+  DeliveryVolume,
+  Order,
+  OrderStatus,
+  VolumeSource,
+  WaterType,
+} from '@/types';
 
 // =============================================================================
 // Constants
@@ -47,8 +63,8 @@ const DELIVERY_STEPS: { key: DeliveryStatus; label: string; icon: typeof Navigat
   { key: 'delivered', label: 'Delivered', icon: PackageCheck },
 ];
 
-// Map order status -> UI delivery step
-function statusToStep(status: OrderStatus | undefined): DeliveryStatus {
+// Map order (or current trip) status -> UI delivery step
+function statusToStep(status: OrderStatus | DeliveryLegStatus | undefined): DeliveryStatus {
   if (status === 'arriving') return 'arrived';
   if (status === 'delivered') return 'delivered';
   return 'navigate';
@@ -156,10 +172,16 @@ function DeliveryStatusStepper({ currentStatus }: { currentStatus: DeliveryStatu
 
 function DeliveryPhotoUpload({
   photo,
+  uploading,
+  proof,
+  error,
   onUpload,
   onRemove,
 }: {
   photo: string | null;
+  uploading: boolean;
+  proof: DeliveryPhotoProof | undefined;
+  error: string | null;
   onUpload: (file: File) => void;
   onRemove: () => void;
 }) {
@@ -171,32 +193,55 @@ function DeliveryPhotoUpload({
     if (inputRef.current) inputRef.current.value = '';
   };
 
+  const issues = proof ? photoCheckIssues(proof) : [];
+
   return (
     <div>
       <input
         ref={inputRef}
         type="file"
-        accept="image/*"
+        accept="image/jpeg,image/png,image/webp"
         capture="environment"
         onChange={handleChange}
         className="hidden"
         id="delivery-photo"
       />
 
-      {photo ? (
+      {photo || proof ? (
         <div className="relative">
-          <div className="h-32 bg-green-50 border-2 border-green-200 rounded-xl flex items-center justify-center">
-            <div className="flex flex-col items-center gap-1 text-green-600">
-              <CheckCircle2 className="w-8 h-8" />
-              <span className="text-xs font-medium">Photo captured</span>
-            </div>
-          </div>
-          <button
-            onClick={onRemove}
-            className="absolute top-2 right-2 w-6 h-6 rounded-full bg-red-500 text-white flex items-center justify-center"
+          <div
+            className={cn(
+              'h-32 border-2 rounded-xl flex items-center justify-center',
+              uploading ? 'bg-gray-50 border-gray-200' : 'bg-green-50 border-green-200'
+            )}
           >
-            <X className="w-3.5 h-3.5" />
-          </button>
+            {uploading ? (
+              <div className="flex flex-col items-center gap-1 text-gray-500">
+                <Loader2 className="w-8 h-8 animate-spin" />
+                <span className="text-xs font-medium">Uploading photo...</span>
+              </div>
+            ) : (
+              <div className="flex flex-col items-center gap-1 text-green-600">
+                <CheckCircle2 className="w-8 h-8" />
+                <span className="text-xs font-medium">Photo uploaded</span>
+              </div>
+            )}
+          </div>
+          {!uploading && (
+            <button
+              type="button"
+              onClick={onRemove}
+              aria-label="Retake photo"
+              className="absolute top-2 right-2 w-6 h-6 rounded-full bg-red-500 text-white flex items-center justify-center"
+            >
+              <X className="w-3.5 h-3.5" />
+            </button>
+          )}
+          {proof?.review === 'needs_review' && issues.length > 0 && (
+            <p className="text-[11px] text-amber-600 mt-1.5">
+              Saved for admin review: {issues.join('; ')}
+            </p>
+          )}
         </div>
       ) : (
         <label
@@ -210,10 +255,274 @@ function DeliveryPhotoUpload({
           <p className="text-[10px] text-gray-400 mt-0.5">Required for delivery confirmation</p>
         </label>
       )}
+      {error && <p className="text-xs text-red-600 mt-1.5">{error}</p>}
     </div>
   );
 }
 
+// =============================================================================
+// Litres Delivered (typed in or from a flow meter)
+// =============================================================================
+
+function DeliveredVolumeStep({
+  quantityLitres,
+  volume,
+  saving,
+  error,
+  onSave,
+}: {
+  quantityLitres: number;
+  volume: DeliveryVolume | undefined;
+  saving: boolean;
+  error: string | null;
+  onSave: (entry: VolumeEntry) => Promise<boolean>;
+}) {
+  const [editing, setEditing] = useState(false);
+  const [source, setSource] = useState<VolumeSource>('manual');
+  const [litres, setLitres] = useState(String(quantityLitres));
+  const [meterStart, setMeterStart] = useState('');
+  const [meterEnd, setMeterEnd] = useState('');
+
+  if (volume && !editing) {
+    return (
+      <div
+        className={cn(
+          'p-3 rounded-xl border-2 flex items-center gap-3',
+          volume.adjustment ? 'bg-amber-50 border-amber-200' : 'bg-green-50 border-green-200'
+        )}
+      >
+        <div
+          className={cn(
+            'w-10 h-10 rounded-full text-white flex items-center justify-center shrink-0',
+            volume.adjustment ? 'bg-amber-500' : 'bg-green-500'
+          )}
+        >
+          <Gauge className="w-5 h-5" />
+        </div>
+        <div className="flex-1">
+          <p className="text-sm font-semibold text-gray-900">
+            {volume.litres}L of {quantityLitres}L delivered
+          </p>
+          <p className="text-xs text-gray-500">
+            {volume.adjustment
+              ? `Short by ${volume.adjustment.shortLitres}L — price adjusted`
+              : volume.source === 'flow_meter'
+                ? 'From flow meter'
+                : 'Entered manually'}
+          </p>
+        </div>
+        {!volume.customerResponse && (
+          <button
+            type="button"
+            onClick={() => setEditing(true)}
+            className="text-xs font-medium text-blue-600 hover:underline"
+          >
+            Edit
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const entry: VolumeEntry =
+      source === 'flow_meter'
+        ? { meterStart: Number(meterStart), meterEnd: Number(meterEnd) }
+        : { litres: Number(litres) };
+    if (await onSave(entry)) setEditing(false);
+  };
+
+  const inputClass =
+    'w-full min-w-0 rounded-xl border border-gray-200 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="p-3 rounded-xl border-2 border-dashed border-gray-300 bg-white space-y-2"
+    >
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-semibold text-gray-900 flex items-center gap-2">
+          <Gauge className="w-4 h-4 text-blue-600" />
+          Litres delivered
+        </p>
+        <div className="flex rounded-lg bg-gray-100 p-0.5 text-xs">
+          {(['manual', 'flow_meter'] as const).map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setSource(option)}
+              className={cn(
+                'px-2 py-1 rounded-md',
+                source === option ? 'bg-white shadow-sm font-medium text-gray-900' : 'text-gray-500'
+              )}
+            >
+              {option === 'manual' ? 'Manual' : 'Flow meter'}
+            </button>
+          ))}
+        </div>
+      </div>
+      {source === 'manual' ? (
+        <input
+          type="number"
+          inputMode="decimal"
+          min={0}
+          step="0.1"
+          value={litres}
+          onChange={(e) => setLitres(e.target.value)}
+          aria-label="Litres delivered"
+          className={inputClass}
+        />
+      ) : (
+        <div className="flex gap-2">
+          <input
+            type="number"
+            inputMode="decimal"
+            min={0}
+            step="0.1"
+            value={meterStart}
+            onChange={(e) => setMeterStart(e.target.value)}
+            placeholder="Opening reading"
+            aria-label="Opening meter reading"
+            className={inputClass}
+          />
+          <input
+            type="number"
+            inputMode="decimal"
+            min={0}
+            step="0.1"
+            value={meterEnd}
+            onChange={(e) => setMeterEnd(e.target.value)}
+            placeholder="Closing reading"
+            aria-label="Closing meter reading"
+            className={inputClass}
+          />
+        </div>
+      )}
+      <Button type="submit" variant="primary" size="sm" fullWidth loading={saving}>
+        Save volume
+      </Button>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </form>
+  );
+}
+
+// =============================================================================
+// Cash Collection (cash orders)
+// =============================================================================
+
+function CashCollectionStep({
+  amount,
+  collected,
+  onToggle,
+}: {
+  amount: number;
+  collected: boolean;
+  onToggle: () => void;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onToggle}
+      aria-pressed={collected}
+      className={cn(
+        'w-full p-3 rounded-xl border-2 flex items-center gap-3 text-left transition-all focus:outline-none focus:ring-2 focus:ring-green-500',
+        collected
+          ? 'bg-green-50 border-green-200'
+          : 'bg-white border-dashed border-gray-300 hover:border-green-400'
+      )}
+    >
+      <div
+        className={cn(
+          'w-10 h-10 rounded-full flex items-center justify-center shrink-0',
+          collected ? 'bg-green-500 text-white' : 'bg-gray-100 text-gray-500'
+        )}
+      >
+        {collected ? <CheckCircle2 className="w-5 h-5" /> : <Banknote className="w-5 h-5" />}
+      </div>
+      <div className="flex-1">
+        <p className="text-sm font-semibold text-gray-900">
+          {collected ? 'Cash collected' : 'Collect cash from customer'}
+        </p>
+        <p className="text-xs text-gray-500">
+          {formatCurrency(amount)}
+          {collected ? ' received — tap to undo' : ' — tap once you have the full amount'}
+        </p>
+      </div>
+    </button>
+  );
+}
+
+// =============================================================================
+// Delivery OTP (asked from the customer at the door)
+// =============================================================================
+
+function DeliveryOtpStep({
+  verified,
+  verifying,
+  error,
+  onVerify,
+}: {
+  verified: boolean;
+  verifying: boolean;
+  error: string | null;
+  onVerify: (code: string) => void;
+}) {
+  const [code, setCode] = useState('');
+
+  if (verified) {
+    return (
+      <div className="p-3 rounded-xl border-2 bg-green-50 border-green-200 flex items-center gap-3">
+        <div className="w-10 h-10 rounded-full bg-green-500 text-white flex items-center justify-center shrink-0">
+          <CheckCircle2 className="w-5 h-5" />
+        </div>
+        <div>
+          <p className="text-sm font-semibold text-gray-900">OTP verified</p>
+          <p className="text-xs text-gray-500">Customer confirmed the delivery</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        onVerify(code);
+      }}
+      className="p-3 rounded-xl border-2 border-dashed border-gray-300 bg-white space-y-2"
+    >
+      <div className="flex items-center gap-2">
+        <KeyRound className="w-4 h-4 text-blue-600" />
+        <label htmlFor="delivery-otp" className="text-sm font-semibold text-gray-900">
+          Ask the customer for the delivery OTP
+        </label>
+      </div>
+      <div className="flex gap-2">
+        <input
+          id="delivery-otp"
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          maxLength={OTP_LENGTH}
+          value={code}
+          onChange={(e) => setCode(e.target.value.replace(/\D/g, '').slice(0, OTP_LENGTH))}
+          placeholder={'•'.repeat(OTP_LENGTH)}
+          className="flex-1 min-w-0 rounded-xl border border-gray-200 px-4 py-2.5 text-center text-xl font-mono tracking-[0.5em] focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <Button
+          type="submit"
+          variant="primary"
+          loading={verifying}
+          disabled={code.length !== OTP_LENGTH}
+        >
+          Verify
+        </Button>
+      </div>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </form>
+  );
+}
+
 // =============================================================================
 // Active Delivery Page (Live)
 // =============================================================================
@@ -234,10 +543,26 @@ export default function ActiveDeliveryPage() {
   const [orderError, setOrderError] = useState<string | null>(null);
 
   const [deliveryPhoto, setDeliveryPhoto] = useState<string | null>(null);
+  const [photoUploading, setPhotoUploading] = useState(false);
+  const [photoError, setPhotoError] = useState<string | null>(null);
+  const [volumeSaving, setVolumeSaving] = useState(false);
+  const [volumeError, setVolumeError] = useState<string | null>(null);
+  const [cashCollected, setCashCollected] = useState(false);
+  const [otpVerifying, setOtpVerifying] = useState(false);
+  const [otpError, setOtpError] = useState<string | null>(null);
   const [isStatusUpdating, setIsStatusUpdating] = useState(false);
   const [showDeliveredSuccess, setShowDeliveredSuccess] = useState(false);
 
-  const deliveryStatus = statusToStep(order?.status);
+  // Multi-trip orders: the steps, OTP and volume are the current trip's
+  const leg = order ? currentLeg(order) : undefined;
+  const lastTrip = !order || !leg || isFinalLeg(order, leg);
+  const deliveryStatus = statusToStep(leg ? leg.status : order?.status);
+  const collectCash = !!order && lastTrip && needsCashCollection(order);
+  const cashAmount = order ? order.payment.amount || order.price.total : 0;
+  const otpVerified = leg ? !!leg.otpVerifiedAt : !!order?.deliveryVerification?.otpVerifiedAt;
+  const photoProof = order?.deliveryVerification?.photoProof;
+  const photoUploaded = !!photoProof && !photoUploading;
+  const deliveredVolume = leg ? leg.volume : order?.deliveryVerification?.volume;
 
   // GPS broadcast state
   const watchIdRef = useRef<number | null>(null);
@@ -364,34 +689,37 @@ export default function ActiveDeliveryPage() {
   // Status update helpers (PUT /api/orders/:id with status transition)
   // --------------------------------------------------------------------------
   const updateOrderStatus = useCallback(
-    async (next: OrderStatus): Promise<boolean> => {
-      if (!order) return false;
+    async (next: OrderStatus, extra: Record<string, unknown> = {}): Promise<Order | null> => {
+      if (!order) return null;
       setIsStatusUpdating(true);
       try {
         const res = await fetch(`/api/orders/${order.id}`, {
           method: 'PUT',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ status: next }),
+          body: JSON.stringify({
+            status: next,
+            actorId: user?.id,
+            actorRole: 'supplier',
+            ...extra,
+          }),
         });
         if (!res.ok) {
           const detail = await res.text().catch(() => '');
           throw new Error(detail || `update failed (${res.status})`);
         }
-        const updated: Order = await res.json().catch(() => ({
-          ...order,
-          status: next,
-        }));
+        const data: { order?: Order } = await res.json().catch(() => ({}));
+        const updated: Order = data.order ?? { ...order, status: next };
         setOrder(updated);
         setActiveOrder(updated);
-        return true;
+        return updated;
       } catch (err) {
         toast.error(err instanceof Error ? err.message : 'Status update failed');
-        return false;
+        return null;
       } finally {
         setIsStatusUpdating(false);
       }
     },
-    [order, setActiveOrder]
+    [order, user, setActiveOrder]
   );
 
   // --------------------------------------------------------------------------
@@ -399,8 +727,8 @@ export default function ActiveDeliveryPage() {
   // --------------------------------------------------------------------------
   const handleStartNavigation = async () => {
     if (!order) return;
-    // Bump to en_route on first navigation start
-    if (order.status === 'accepted') {
+    // Bump to en_route on first navigation start (of each trip)
+    if (leg ? leg.status === 'pending' : order.status === 'accepted') {
       await updateOrderStatus('en_route');
     }
     const dest = order.deliveryLocation;
@@ -418,15 +746,131 @@ export default function ActiveDeliveryPage() {
     await updateOrderStatus('arriving');
   };
 
-  const handlePhotoUpload = (file: File) => {
+  const handlePhotoUpload = async (file: File) => {
+    if (!order || !user) return;
     const reader = new FileReader();
     reader.onloadend = () => setDeliveryPhoto(reader.result as string);
     reader.readAsDataURL(file);
+
+    setPhotoUploading(true);
+    setPhotoError(null);
+    try {
+      const form = new FormData();
+      form.append('photo', file);
+      form.append('supplierId', user.id);
+      const res = await fetch(`/api/orders/${order.id}/photo`, { method: 'POST', body: form });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setDeliveryPhoto(null);
+        setPhotoError(data.error || 'Photo upload failed.');
+        return;
+      }
+      const updated: Order = {
+        ...order,
+        deliveryVerification: {
+          ...order.deliveryVerification,
+          photoProofUrl: data.photoProofUrl,
+          photoProof: data.proof,
+        },
+      };
+      setOrder(updated);
+      setActiveOrder(updated);
+    } catch {
+      setDeliveryPhoto(null);
+      setPhotoError('Photo upload failed. Check your connection.');
+    } finally {
+      setPhotoUploading(false);
+    }
+  };
+
+  const handleRetakePhoto = () => {
+    setDeliveryPhoto(null);
+    document.getElementById('delivery-photo')?.click();
+  };
+
+  const handleSaveVolume = async (entry: VolumeEntry): Promise<boolean> => {
+    if (!order || !user) return false;
+    setVolumeSaving(true);
+    setVolumeError(null);
+    try {
+      const res = await fetch(`/api/orders/${order.id}/volume`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...entry, supplierId: user.id }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setVolumeError(data.error || 'Could not save the volume.');
+        return false;
+      }
+      const updated: Order = {
+        ...order,
+        price: data.price,
+        payment: { ...order.payment, amount: data.paymentAmount },
+        ...(leg
+          ? { legs: { ...order.legs, [leg.id]: { ...leg, volume: data.volume } } }
+          : {
+              deliveryVerification: {
+                ...order.deliveryVerification,
+                volumeConfirmed: data.volume.litres,
+                volume: data.volume,
+              },
+            }),
+      };
+      setOrder(updated);
+      setActiveOrder(updated);
+      // A trip's reading carries no adjustment; the order price shows it
+      if (leg ? data.price.total < order.price.total : data.volume.adjustment) {
+        toast(`Short delivery: order total is now ${formatCurrency(data.price.total)}`);
+      }
+      return true;
+    } catch {
+      setVolumeError('Could not save the volume. Check your connection.');
+      return false;
+    } finally {
+      setVolumeSaving(false);
+    }
+  };
+
+  const handleVerifyOtp = async (code: string) => {
+    if (!order || !user) return;
+    setOtpVerifying(true);
+    setOtpError(null);
+    try {
+      const res = await fetch(`/api/orders/${order.id}/otp`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ otp: code, supplierId: user.id }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setOtpError(data.error || 'OTP verification failed.');
+        return;
+      }
+      const verifiedAt = new Date(data.verifiedAt);
+      const updated: Order = leg
+        ? { ...order, legs: { ...order.legs, [leg.id]: { ...leg, otpVerifiedAt: verifiedAt } } }
+        : { ...order, deliveryVerification: { ...order.deliveryVerification, otpVerifiedAt: verifiedAt } };
+      setOrder(updated);
+      setActiveOrder(updated);
+      toast.success('OTP verified');
+    } catch {
+      setOtpError('OTP verification failed. Check your connection.');
+    } finally {
+      setOtpVerifying(false);
+    }
   };
 
   const handleMarkDelivered = async () => {
-    const ok = await updateOrderStatus('delivered');
-    if (!ok) return;
+    const updated = await updateOrderStatus(
+      'delivered',
+      collectCash ? { cashCollected: cashAmount } : {}
+    );
+    if (!updated) return;
+    if (order && leg && updated.status !== 'delivered') {
+      toast.success(`${legLabel(order, leg)} delivered. Head back to refill for the next trip.`);
+      return;
+    }
     setShowDeliveredSuccess(true);
     if (watchIdRef.current != null) {
       navigator.geolocation.clearWatch(watchIdRef.current);
@@ -682,6 +1126,7 @@ export default function ActiveDeliveryPage() {
                   </p>
                   <p className="text-xs text-gray-400">
                     {order.quantityLitres.toLocaleString()} Litres
+                    {leg && ` · ${legLabel(order, leg)} (${leg.litres.toLocaleString()}L)`}
                   </p>
                 </div>
               </div>
@@ -744,23 +1189,54 @@ export default function ActiveDeliveryPage() {
                     You have arrived at the delivery location
                   </p>
                   <p className="text-xs text-yellow-600 mt-0.5">
-                    Take a photo of the delivery and confirm completion
+                    Verify the customer's OTP, take a photo and confirm completion
                   </p>
                 </div>
               </div>
 
+              <DeliveryOtpStep
+                verified={otpVerified}
+                verifying={otpVerifying}
+                error={otpError}
+                onVerify={handleVerifyOtp}
+              />
+
               <DeliveryPhotoUpload
                 photo={deliveryPhoto}
+                uploading={photoUploading}
+                proof={photoProof}
+                error={photoError}
                 onUpload={handlePhotoUpload}
-                onRemove={() => setDeliveryPhoto(null)}
+                onRemove={handleRetakePhoto}
+              />
+
+              <DeliveredVolumeStep
+                quantityLitres={leg ? leg.litres : order.quantityLitres}
+                volume={deliveredVolume}
+                saving={volumeSaving}
+                error={volumeError}
+                onSave={handleSaveVolume}
               />
 
+              {collectCash && (
+                <CashCollectionStep
+                  amount={cashAmount}
+                  collected={cashCollected}
+                  onToggle={() => setCashCollected((v) => !v)}
+                />
+              )}
+
               <Button
                 variant="secondary"
                 size="xl"
                 fullWidth
                 onClick={handleMarkDelivered}
-                disabled={!deliveryPhoto}
+                disabled={
+                  !otpVerified ||
+                  !photoUploaded ||
+                  !deliveredVolume ||
+                  (collectCash && !cashCollected)
+                }
                 loading={isStatusUpdating}
                 leftIcon={!isStatusUpdating ? <PackageCheck className="w-6 h-6" /> : undefined}
                 className="text-lg"
@@ -768,10 +1244,25 @@ export default function ActiveDeliveryPage() {
                 Mark as Delivered
               </Button>
 
-              {!deliveryPhoto && (
+              {!otpVerified ? (
+                <p className="text-center text-xs text-gray-400">
+                  Verify the delivery OTP to continue
+                </p>
+              ) : !photoUploaded ? (
                 <p className="text-center text-xs text-gray-400">
                   Please take a delivery photo to confirm
                 </p>
+              ) : !deliveredVolume ? (
+                <p className="text-center text-xs text-gray-400">
+                  Record the litres delivered to continue
+                </p>
+              ) : (
+                collectCash &&
+                !cashCollected && (
+                  <p className="text-center text-xs text-gray-400">
+                    Confirm the cash collected to complete delivery
+                  </p>
+                )
               )}
             </div>
           )}
@@ -1,7 +1,7 @@
 'use client';
 export const dynamic = 'force-dynamic';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { motion, AnimatePresence } from 'motion/react';
 import {
   Calendar,
@@ -19,7 +19,13 @@ import {
 } from 'lucide-react';
 import { Card } from '@/components/ui/Card';
 import { cn, formatCurrency } from '@/lib/utils';
-import type { WaterType } from '@/types';
+import { useAuthStore } from '@/store/authStore';
+import type {
+  PayoutPolicy,
+  SupplierBalance,
+  SupplierPayout,
+  WaterType,
+} from '@/types';
 
 // =============================================================================
 // Types
@@ -39,13 +45,10 @@ interface EarningEntry {
   customerArea: string;
 }
 
-interface PayoutEntry {
-  id: string;
-  amount: number;
-  date: Date;
-  status: 'completed' | 'processing' | 'failed';
-  bankRef?: string;
-  accountLast4: string;
+interface WalletResponse {
+  balance: SupplierBalance;
+  payouts: SupplierPayout[];
+  policy: PayoutPolicy;
 }
 
 // =============================================================================
@@ -64,6 +67,24 @@ const PERIOD_LABELS: Record<EarningsPeriod, string> = {
   month: 'This Month',
 };
 
+const WEEKDAY_LABELS = [
+  'Sunday',
+  'Monday',
+  'Tuesday',
+  'Wednesday',
+  'Thursday',
+  'Friday',
+  'Saturday',
+];
+
+function scheduleLabel(policy: PayoutPolicy): string {
+  const when =
+    policy.frequency === 'daily'
+      ? 'Paid daily'
+      : `Paid every ${WEEKDAY_LABELS[policy.weekday] ?? 'week'}`;
+  return `${when} once your balance reaches ${formatCurrency(policy.minimumAmount)}`;
+}
+
 // =============================================================================
 // Mock Data
 // =============================================================================
@@ -145,40 +166,6 @@ const MOCK_EARNINGS: EarningEntry[] = [
   },
 ];
 
-const MOCK_PAYOUTS: PayoutEntry[] = [
-  {
-    id: 'p1',
-    amount: 12500,
-    date: new Date(Date.now() - 2 * 86400000),
-    status: 'completed',
-    bankRef: 'IMPS/234567890',
-    accountLast4: '4521',
-  },
-  {
-    id: 'p2',
-    amount: 8200,
-    date: new Date(Date.now() - 5 * 86400000),
-    status: 'completed',
-    bankRef: 'IMPS/234567889',
-    accountLast4: '4521',
-  },
-  {
-    id: 'p3',
-    amount: 15600,
-    date: new Date(Date.now() - 9 * 86400000),
-    status: 'completed',
-    bankRef: 'IMPS/234567788',
-    accountLast4: '4521',
-  },
-  {
-    id: 'p4',
-    amount: 3400,
-    date: new Date(Date.now() - 1 * 86400000),
-    status: 'processing',
-    accountLast4: '4521',
-  },
-];
-
 // =============================================================================
 // CSS-only Bar Chart Component
 // =============================================================================
@@ -344,8 +331,8 @@ function EarningRow({ entry }: { entry: EarningEntry }) {
 // PayoutCard Component
 // =============================================================================
 
-function PayoutCard({ payout }: { payout: PayoutEntry }) {
-  const dateStr = new Date(payout.date).toLocaleDateString('en-IN', {
+function PayoutCard({ payout }: { payout: SupplierPayout }) {
+  const dateStr = new Date(payout.createdAt).toLocaleDateString('en-IN', {
     day: 'numeric',
     month: 'short',
     year: 'numeric',
@@ -387,6 +374,7 @@ function PayoutCard({ payout }: { payout: PayoutEntry }) {
         <p className="text-xs text-gray-400">
           {dateStr}
           {payout.bankRef && ` | ${payout.bankRef}`}
+          {payout.failureReason && ` | ${payout.failureReason}`}
         </p>
       </div>
       <div className="text-right shrink-0">
@@ -414,6 +402,28 @@ function PayoutCard({ payout }: { payout: PayoutEntry }) {
 
 export default function SupplierEarningsPage() {
   const [period, setPeriod] = useState<EarningsPeriod>('today');
+  const user = useAuthStore((s) => s.user);
+  const [wallet, setWallet] = useState<WalletResponse | null>(null);
+
+  useEffect(() => {
+    if (!user?.id) return;
+    let cancelled = false;
+    fetch(`/api/supplier/earnings?supplierId=${encodeURIComponent(user.id)}`, {
+      cache: 'no-store',
+    })
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data: WalletResponse | null) => {
+        if (!cancelled && data) setWallet(data);
+      })
+      .catch(() => {
+        // Keep the page usable; the wallet card stays in its loading state.
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.id]);
+
+  const payouts = wallet ? [...wallet.payouts].reverse() : [];
 
   const summary = MOCK_SUMMARY[period];
   const trendUp = summary.trend >= 0;
@@ -514,6 +524,41 @@ export default function SupplierEarningsPage() {
         </div>
       </Card>
 
+      {/* ================================================================ */}
+      {/* Wallet Balance                                                   */}
+      {/* ================================================================ */}
+      <Card padding="md" shadow="sm">
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-xs text-gray-400 font-medium">Wallet Balance</p>
+            <p className="text-2xl font-bold text-gray-900 mt-0.5">
+              {wallet ? formatCurrency(wallet.balance.available) : '—'}
+            </p>
+          </div>
+          <div className="text-right">
+            <p className="text-xs text-gray-400 font-medium">On Hold</p>
+            <p className="text-sm font-semibold text-gray-700 mt-0.5">
+              {wallet ? formatCurrency(wallet.balance.reserve) : '—'}
+            </p>
+          </div>
+        </div>
+        {wallet && (
+          <p className="text-[10px] text-gray-400 mt-2">
+            {scheduleLabel(wallet.policy)}. {wallet.policy.reservePercent}% of each
+            online payment is held for {wallet.policy.reserveDays} days in case of
+            disputes.
+          </p>
+        )}
+        {wallet && wallet.balance.cashDue > 0 && (
+          <div className="mt-2 pt-2 border-t border-gray-100 flex items-center justify-between">
+            <p className="text-xs text-amber-700 font-medium">Cash commission owed</p>
+            <p className="text-sm font-semibold text-amber-700">
+              {formatCurrency(wallet.balance.cashDue)}
+            </p>
+          </div>
+        )}
+      </Card>
+
       {/* ================================================================ */}
       {/* Commission Transparency Note                                     */}
       {/* ================================================================ */}
@@ -568,9 +613,11 @@ export default function SupplierEarningsPage() {
         </div>
 
         <Card padding="sm" shadow="sm">
-          {MOCK_PAYOUTS.map((payout) => (
-            <PayoutCard key={payout.id} payout={payout} />
-          ))}
+          {payouts.length === 0 ? (
+            <p className="text-xs text-gray-400 text-center py-4">No payouts yet</p>
+          ) : (
+            payouts.map((payout) => <PayoutCard key={payout.id} payout={payout} />)
+          )}
         </Card>
 
         {/* Total Paid Out */}
@@ -582,12 +629,7 @@ export default function SupplierEarningsPage() {
             </span>
           </div>
           <span className="text-lg font-bold text-purple-700">
-            {formatCurrency(
-              MOCK_PAYOUTS.filter((p) => p.status === 'completed').reduce(
-                (s, p) => s + p.amount,
-                0
-              )
-            )}
+            {formatCurrency(wallet?.balance.totalPaidOut ?? 0)}
           </span>
         </div>
       </section>
@@ -0,0 +1,307 @@
+'use client';
+export const dynamic = 'force-dynamic';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { ArrowLeft, Truck, UserPlus, Plus, Trash2, Users } from 'lucide-react';
+import { toast } from 'sonner';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { MAX_VEHICLE_CAPACITY, MIN_VEHICLE_CAPACITY, type FleetRollup } from '@/lib/fleet';
+import { cn, formatCurrency } from '@/lib/utils';
+import { useAuthStore } from '@/store/authStore';
+import type { FleetDriver, FleetVehicle } from '@/types';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface FleetResponse {
+  vehicles: FleetVehicle[];
+  drivers: FleetDriver[];
+  rollup: FleetRollup;
+}
+
+const VEHICLE_TYPES = ['Tanker', 'Mini Tanker', 'Tractor Tanker', 'Pickup'];
+
+// =============================================================================
+// Supplier Fleet Page
+// =============================================================================
+
+export default function SupplierFleetPage() {
+  const router = useRouter();
+  const user = useAuthStore((s) => s.user);
+  const supplierId = user?.id;
+
+  const [fleet, setFleet] = useState<FleetResponse | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [vehicle, setVehicle] = useState({ type: VEHICLE_TYPES[0], capacity: '', number: '' });
+  const [driver, setDriver] = useState({ name: '', phone: '' });
+
+  const load = useCallback(async () => {
+    if (!supplierId) return;
+    try {
+      const res = await fetch(`/api/suppliers/${encodeURIComponent(supplierId)}/fleet`, {
+        cache: 'no-store',
+      });
+      if (res.ok) setFleet(await res.json());
+    } catch {
+      // Keep the last loaded fleet; the next action reloads it.
+    }
+  }, [supplierId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  /** Sends a fleet change and reloads; errors surface as toasts. */
+  const send = useCallback(
+    async (path: string, method: string, body?: unknown, success?: string) => {
+      if (!supplierId) return false;
+      setBusy(true);
+      try {
+        const res = await fetch(`/api/suppliers/${encodeURIComponent(supplierId)}/${path}`, {
+          method,
+          headers: { 'Content-Type': 'application/json' },
+          ...(body ? { body: JSON.stringify(body) } : {}),
+        });
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) {
+          toast.error(data.error || 'Something went wrong.');
+          return false;
+        }
+        if (success) toast.success(success);
+        await load();
+        return true;
+      } catch {
+        toast.error('Network error. Please try again.');
+        return false;
+      } finally {
+        setBusy(false);
+      }
+    },
+    [supplierId, load]
+  );
+
+  const addVehicle = async () => {
+    const ok = await send(
+      'fleet',
+      'POST',
+      { type: vehicle.type, capacity: Number(vehicle.capacity), number: vehicle.number },
+      `Vehicle ${vehicle.number.toUpperCase()} added`
+    );
+    if (ok) setVehicle({ type: VEHICLE_TYPES[0], capacity: '', number: '' });
+  };
+
+  const addDriver = async () => {
+    const ok = await send('drivers', 'POST', driver, `${driver.name} added to your team`);
+    if (ok) setDriver({ name: '', phone: '' });
+  };
+
+  const earnings = new Map(fleet?.rollup.vehicles.map((v) => [v.vehicleId, v]));
+
+  return (
+    <div className="px-4 py-4 space-y-5">
+      <div className="flex items-center gap-3">
+        <button
+          type="button"
+          onClick={() => router.push('/supplier')}
+          className="w-9 h-9 rounded-xl bg-white border border-gray-100 flex items-center justify-center"
+          aria-label="Back to dashboard"
+        >
+          <ArrowLeft className="w-4 h-4 text-gray-600" />
+        </button>
+        <div>
+          <h1 className="text-lg font-bold text-gray-900">Fleet</h1>
+          <p className="text-xs text-gray-400">Vehicles, drivers and what each truck earns</p>
+        </div>
+      </div>
+
+      {/* ================================================================ */}
+      {/* Totals                                                           */}
+      {/* ================================================================ */}
+      {fleet && fleet.vehicles.length > 0 && (
+        <div className="grid grid-cols-2 gap-3">
+          <Card padding="md">
+            <p className="text-xs text-gray-500">Today</p>
+            <p className="text-xl font-bold text-gray-900">
+              {formatCurrency(fleet.rollup.totals.today.earnings)}
+            </p>
+            <p className="text-[10px] text-gray-400">
+              {fleet.rollup.totals.today.deliveries} deliveries
+            </p>
+          </Card>
+          <Card padding="md">
+            <p className="text-xs text-gray-500">Last 7 days</p>
+            <p className="text-xl font-bold text-gray-900">
+              {formatCurrency(fleet.rollup.totals.week.earnings)}
+            </p>
+            <p className="text-[10px] text-gray-400">
+              {fleet.rollup.totals.week.deliveries} deliveries ·{' '}
+              {(fleet.rollup.totals.week.litres / 1000).toFixed(1)}kL
+            </p>
+          </Card>
+        </div>
+      )}
+
+      {/* ================================================================ */}
+      {/* Vehicles                                                         */}
+      {/* ================================================================ */}
+      <section className="space-y-3">
+        <h2 className="text-sm font-semibold text-gray-700 uppercase tracking-wide">Vehicles</h2>
+        {fleet?.vehicles.map((v) => {
+          const stats = earnings.get(v.id);
+          return (
+            <Card key={v.id} padding="md" className="space-y-3">
+              <div className="flex items-start gap-3">
+                <Truck className={cn('w-5 h-5 mt-0.5', v.isOnline ? 'text-green-500' : 'text-gray-300')} />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-semibold text-gray-800">{v.number}</p>
+                  <p className="text-xs text-gray-400">
+                    {v.type} · {v.capacity.toLocaleString('en-IN')}L ·{' '}
+                    {v.isOnline ? 'Online' : 'Offline'}
+                  </p>
+                </div>
+                <div className="text-right">
+                  <p className="text-sm font-semibold text-gray-800">
+                    {formatCurrency(stats?.week.earnings ?? 0)}
+                  </p>
+                  <p className="text-[10px] text-gray-400">
+                    {stats?.week.deliveries ?? 0} this week
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <select
+                  aria-label={`Driver for ${v.number}`}
+                  value={v.driverId ?? ''}
+                  disabled={busy}
+                  onChange={(e) =>
+                    send(`fleet/${v.id}`, 'PATCH', { driverId: e.target.value || null })
+                  }
+                  className="flex-1 text-sm border border-gray-200 rounded-xl px-3 py-2 bg-white"
+                >
+                  <option value="">No driver</option>
+                  <option value={supplierId}>Me</option>
+                  {fleet.drivers.map((d) => (
+                    <option key={d.id} value={d.id}>
+                      {d.name}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  disabled={busy || v.isOnline}
+                  onClick={() => send(`fleet/${v.id}`, 'DELETE', undefined, `${v.number} removed`)}
+                  className="w-9 h-9 rounded-xl border border-gray-200 flex items-center justify-center disabled:opacity-40"
+                  aria-label={`Remove ${v.number}`}
+                >
+                  <Trash2 className="w-4 h-4 text-red-500" />
+                </button>
+              </div>
+            </Card>
+          );
+        })}
+
+        <Card padding="md" className="space-y-3">
+          <p className="text-sm font-semibold text-gray-800">Add a vehicle</p>
+          <select
+            aria-label="Vehicle type"
+            value={vehicle.type}
+            onChange={(e) => setVehicle({ ...vehicle, type: e.target.value })}
+            className="w-full text-sm border border-gray-200 rounded-xl px-3 py-2.5 bg-white"
+          >
+            {VEHICLE_TYPES.map((type) => (
+              <option key={type}>{type}</option>
+            ))}
+          </select>
+          <Input
+            label="Registration number"
+            placeholder="MH 12 AB 1234"
+            value={vehicle.number}
+            onChange={(e) => setVehicle({ ...vehicle, number: e.target.value })}
+          />
+          <Input
+            label="Capacity (litres)"
+            type="number"
+            inputMode="numeric"
+            hint={`${MIN_VEHICLE_CAPACITY.toLocaleString('en-IN')} – ${MAX_VEHICLE_CAPACITY.toLocaleString('en-IN')} litres`}
+            value={vehicle.capacity}
+            onChange={(e) => setVehicle({ ...vehicle, capacity: e.target.value })}
+          />
+          <Button
+            variant="secondary"
+            fullWidth
+            loading={busy}
+            disabled={!vehicle.number || !vehicle.capacity}
+            onClick={addVehicle}
+          >
+            <Plus className="w-4 h-4" />
+            Add vehicle
+          </Button>
+        </Card>
+      </section>
+
+      {/* ================================================================ */}
+      {/* Drivers                                                          */}
+      {/* ================================================================ */}
+      <section className="space-y-3">
+        <h2 className="text-sm font-semibold text-gray-700 uppercase tracking-wide">Drivers</h2>
+        {fleet?.drivers.map((d) => {
+          const assigned = fleet.vehicles.find((v) => v.driverId === d.id);
+          return (
+            <Card key={d.id} padding="md" className="flex items-center gap-3">
+              <Users className="w-5 h-5 text-blue-500" />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-semibold text-gray-800">{d.name}</p>
+                <p className="text-xs text-gray-400">
+                  {d.phone} · {assigned ? assigned.number : 'Not assigned'}
+                </p>
+              </div>
+              <button
+                type="button"
+                disabled={busy}
+                onClick={() => send(`drivers/${d.id}`, 'DELETE', undefined, `${d.name} removed`)}
+                className="w-9 h-9 rounded-xl border border-gray-200 flex items-center justify-center disabled:opacity-40"
+                aria-label={`Remove ${d.name}`}
+              >
+                <Trash2 className="w-4 h-4 text-red-500" />
+              </button>
+            </Card>
+          );
+        })}
+
+        <Card padding="md" className="space-y-3">
+          <p className="text-sm font-semibold text-gray-800">Add a driver</p>
+          <p className="text-xs text-gray-400">
+            Drivers sign in to JalSeva with their own number and see only their vehicle&apos;s orders.
+          </p>
+          <Input
+            label="Name"
+            value={driver.name}
+            onChange={(e) => setDriver({ ...driver, name: e.target.value })}
+          />
+          <Input
+            label="Phone number"
+            type="tel"
+            inputMode="numeric"
+            placeholder="98765 43210"
+            value={driver.phone}
+            onChange={(e) => setDriver({ ...driver, phone: e.target.value })}
+          />
+          <Button
+            variant="outline"
+            fullWidth
+            loading={busy}
+            disabled={!driver.name || !driver.phone}
+            onClick={addDriver}
+          >
+            <UserPlus className="w-4 h-4" />
+            Add driver
+          </Button>
+        </Card>
+      </section>
+    </div>
+  );
+}
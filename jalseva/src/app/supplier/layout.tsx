@@ -95,7 +95,11 @@ export default function SupplierLayout({
       await toggleOnline();
     } catch (err) {
       console.error('[supplier-layout] toggleOnline failed:', err);
-      toast.error('Could not change status. Please try again.');
+      toast.error(
+        err instanceof Error && err.message !== 'toggle_failed'
+          ? err.message
+          : 'Could not change status. Please try again.'
+      );
     }
   };
 
@@ -22,12 +22,21 @@ import {
   ChevronRight,
   User,
   Truck,
+  FileWarning,
+  Users,
 } from 'lucide-react';
 import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
+import {
+  EXPIRY_REMINDER_DAYS,
+  KYC_DOCUMENTS,
+  KYC_DOCUMENT_TYPES,
+  documentState,
+} from '@/lib/kyc';
+import type { FleetRollup } from '@/lib/fleet';
 import { cn, formatCurrency } from '@/lib/utils';
 import { useSupplierStore } from '@/store/supplierStore';
-import type { Order, WaterType } from '@/types';
+import type { Order, Supplier, WaterType } from '@/types';
 
 // =============================================================================
 // Constants & Helpers
@@ -41,6 +50,14 @@ const WATER_TYPE_LABELS: Record<WaterType, string> = {
 
 const ORDER_COUNTDOWN_SECONDS = 30;
 
+/** Seconds left on a dispatcher offer, or the default countdown. */
+function initialCountdown(order: Order): number {
+  const expiresAt = order.dispatch?.offer?.expiresAt;
+  if (!expiresAt) return ORDER_COUNTDOWN_SECONDS;
+  const remaining = Math.ceil((new Date(expiresAt).getTime() - Date.now()) / 1000);
+  return Math.max(0, Math.min(remaining, ORDER_COUNTDOWN_SECONDS));
+}
+
 
 // =============================================================================
 // IncomingOrderCard component
@@ -53,7 +70,7 @@ interface IncomingOrderCardProps {
 }
 
 function IncomingOrderCard({ order, onAccept, onReject }: IncomingOrderCardProps) {
-  const [countdown, setCountdown] = useState(ORDER_COUNTDOWN_SECONDS);
+  const [countdown, setCountdown] = useState(() => initialCountdown(order));
   const [isExpired, setIsExpired] = useState(false);
 
   useEffect(() => {
@@ -145,7 +162,9 @@ function IncomingOrderCard({ order, onAccept, onReject }: IncomingOrderCardProps
                 {order.deliveryLocation.address || 'Unknown location'}
               </p>
               <p className="text-xs text-gray-400 mt-0.5">
-                ~{order.tracking?.distance
+                ~{order.dispatch?.offer
+                  ? `${order.dispatch.offer.distanceKm.toFixed(1)} km`
+                  : order.tracking?.distance
                   ? `${(order.tracking.distance / 1000).toFixed(1)} km`
                   : '2.5 km'}{' '}
                 away
@@ -339,17 +358,141 @@ function StatCard({ icon, label, value, subtext, color }: StatCardProps) {
   );
 }
 
+// =============================================================================
+// FleetCard component
+// =============================================================================
+
+interface FleetCardProps {
+  fleet: FleetRollup;
+  ownerId: string;
+  onToggle: (vehicleId: string, online: boolean) => void;
+  onManage: () => void;
+}
+
+function FleetCard({ fleet, ownerId, onToggle, onManage }: FleetCardProps) {
+  const online = fleet.vehicles.filter((v) => v.isOnline).length;
+
+  return (
+    <Card padding="md">
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <p className="text-sm font-semibold text-gray-800">Fleet</p>
+          <p className="text-xs text-gray-400">
+            {online} of {fleet.vehicles.length} vehicles online
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={onManage}
+          className="flex items-center gap-1 text-xs font-medium text-green-600"
+        >
+          <Users className="w-3.5 h-3.5" />
+          Manage
+        </button>
+      </div>
+
+      <div className="divide-y divide-gray-100">
+        {fleet.vehicles.map((v) => (
+          <div key={v.vehicleId} className="flex items-center gap-3 py-2.5">
+            <Truck className={cn('w-4 h-4 shrink-0', v.isOnline ? 'text-green-500' : 'text-gray-300')} />
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium text-gray-800 truncate">
+                {v.number}{' '}
+                <span className="text-xs text-gray-400">
+                  {(v.capacity / 1000).toFixed(v.capacity % 1000 ? 1 : 0)}kL
+                </span>
+              </p>
+              <p className="text-xs text-gray-400 truncate">
+                {v.driverId === ownerId ? 'You' : (v.driverName ?? 'No driver')}
+                {v.activeOrderId ? ' · on delivery' : ''}
+              </p>
+            </div>
+            <div className="text-right">
+              <p className="text-sm font-semibold text-gray-800">
+                {formatCurrency(v.today.earnings)}
+              </p>
+              <p className="text-[10px] text-gray-400">
+                {v.today.deliveries} today · {v.week.deliveries} this week
+              </p>
+            </div>
+            <button
+              type="button"
+              role="switch"
+              aria-checked={v.isOnline}
+              aria-label={`${v.number} online`}
+              disabled={!v.driverId}
+              onClick={() => onToggle(v.vehicleId, !v.isOnline)}
+              className={cn(
+                'relative w-9 h-5 rounded-full transition-colors disabled:opacity-40',
+                v.isOnline ? 'bg-green-500' : 'bg-gray-300'
+              )}
+            >
+              <span
+                className={cn(
+                  'absolute top-0.5 w-4 h-4 rounded-full bg-white shadow transition-all',
+                  v.isOnline ? 'left-[18px]' : 'left-0.5'
+                )}
+              />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex justify-between pt-3 mt-1 border-t border-gray-100 text-xs">
+        <span className="text-gray-500">
+          Fleet today: {fleet.totals.today.deliveries} deliveries
+        </span>
+        <span className="font-semibold text-gray-800">
+          {formatCurrency(fleet.totals.today.earnings)} · week{' '}
+          {formatCurrency(fleet.totals.week.earnings)}
+        </span>
+      </div>
+    </Card>
+  );
+}
+
 // =============================================================================
 // Supplier Dashboard Page
 // =============================================================================
 
+// =============================================================================
+// KYC Notices
+// =============================================================================
+
+/** Documents the supplier needs to act on: rejected, expired, expiring soon or awaiting review. */
+function kycNotices(supplier: Supplier | null): { key: string; text: string; urgent: boolean }[] {
+  if (!supplier) return [];
+  const now = Date.now();
+  return KYC_DOCUMENT_TYPES.flatMap((type) => {
+    const { label, required } = KYC_DOCUMENTS[type];
+    const doc = supplier.documents?.[type];
+    switch (documentState(doc)) {
+      case 'rejected':
+        return [{ key: type, text: `${label} rejected: ${doc?.rejectionReason ?? 'upload it again'}`, urgent: true }];
+      case 'expired':
+        return [{ key: type, text: `${label} has expired. Upload the renewed document.`, urgent: true }];
+      case 'pending':
+        return [{ key: type, text: `${label} is awaiting review`, urgent: false }];
+      case 'missing':
+        return required ? [{ key: type, text: `${label} not uploaded`, urgent: true }] : [];
+      default: {
+        if (!doc?.expiresAt) return [];
+        const daysLeft = Math.ceil((new Date(doc.expiresAt).getTime() - now) / 86_400_000);
+        return daysLeft <= EXPIRY_REMINDER_DAYS[0]
+          ? [{ key: type, text: `${label} expires in ${daysLeft} day${daysLeft === 1 ? '' : 's'}`, urgent: daysLeft <= 7 }]
+          : [];
+      }
+    }
+  });
+}
+
 export default function SupplierDashboard() {
   const router = useRouter();
   const { isOnline, todayEarnings, pendingOrders, activeOrder, supplier } =
     useSupplierStore();
 
   // Real Firestore-backed accept / reject + live listeners
-  const { acceptOrder, rejectOrder } = useSupplier();
+  const { acceptOrder, rejectOrder, fleet, driver, toggleVehicle } = useSupplier();
 
   const stats = {
     todayEarnings,
@@ -385,8 +528,20 @@ export default function SupplierDashboard() {
     [rejectOrder]
   );
 
+  const handleToggleVehicle = useCallback(
+    async (vehicleId: string, online: boolean) => {
+      try {
+        await toggleVehicle(vehicleId, online);
+      } catch (err) {
+        toast.error(err instanceof Error ? err.message : 'Could not update vehicle.');
+      }
+    },
+    [toggleVehicle]
+  );
+
   const currentArea =
     supplier?.serviceArea?.center?.address || 'Service area not set';
+  const notices = kycNotices(supplier);
 
   return (
     <div className="px-4 py-4 space-y-5">
@@ -435,6 +590,60 @@ export default function SupplierDashboard() {
         <ChevronRight className="w-4 h-4 text-gray-300" />
       </div>
 
+      {/* ================================================================ */}
+      {/* KYC Documents                                                    */}
+      {/* ================================================================ */}
+      {notices.length > 0 && (
+        <div
+          className={cn(
+            'rounded-xl p-4 border space-y-1.5',
+            notices.some((n) => n.urgent)
+              ? 'bg-red-50 border-red-100'
+              : 'bg-amber-50 border-amber-100'
+          )}
+        >
+          <div className="flex items-center gap-2">
+            <FileWarning className="w-4 h-4 text-amber-600 shrink-0" />
+            <p className="text-sm font-semibold text-gray-800">
+              {supplier?.verificationStatus === 'verified'
+                ? 'Documents need attention'
+                : 'You can go online once your documents are verified'}
+            </p>
+          </div>
+          {notices.map((notice) => (
+            <p
+              key={notice.key}
+              className={cn('text-xs pl-6', notice.urgent ? 'text-red-700' : 'text-amber-700')}
+            >
+              {notice.text}
+            </p>
+          ))}
+        </div>
+      )}
+
+      {/* ================================================================ */}
+      {/* Fleet                                                            */}
+      {/* ================================================================ */}
+      {fleet && !driver && supplier && (
+        <FleetCard
+          fleet={fleet}
+          ownerId={supplier.id}
+          onToggle={handleToggleVehicle}
+          onManage={() => router.push('/supplier/fleet')}
+        />
+      )}
+      {!fleet && !driver && supplier && (
+        <button
+          type="button"
+          onClick={() => router.push('/supplier/fleet')}
+          className="w-full flex items-center gap-2 px-3 py-2.5 bg-white rounded-xl border border-gray-100 shadow-sm text-left"
+        >
+          <Users className="w-4 h-4 text-green-500 shrink-0" />
+          <p className="flex-1 text-sm text-gray-700">Run more trucks? Add vehicles and drivers</p>
+          <ChevronRight className="w-4 h-4 text-gray-300" />
+        </button>
+      )}
+
       {/* ================================================================ */}
       {/* Offline Banner                                                   */}
       {/* ================================================================ */}
@@ -23,11 +23,15 @@ import {
   Building,
   X,
   Shield,
+  CalendarDays,
 } from 'lucide-react';
+import { toast } from 'sonner';
 import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
+import { KYC_DOCUMENTS, isValidAadhaar, maskAadhaar } from '@/lib/kyc';
 import { cn } from '@/lib/utils';
 import { useAuthStore } from '@/store/authStore';
+import type { KycDocumentType } from '@/types';
 
 // =============================================================================
 // Types
@@ -61,6 +65,9 @@ interface DocumentUploads {
   waterQuality: DocumentUpload;
 }
 
+/** Expiry dates (yyyy-mm-dd) of the documents that expire. */
+type DocumentExpiries = Record<'license' | 'vehicleRC' | 'fssai' | 'waterQuality', string>;
+
 interface ServiceAreaInfo {
   pincode: string;
   area: string;
@@ -104,6 +111,50 @@ const INITIAL_DOCUMENTS: DocumentUploads = {
   waterQuality: { file: null, preview: null, name: 'Water Quality Certificate (Optional)' },
 };
 
+/** Which uploads make up each KYC document, front first. */
+const KYC_UPLOADS: { type: KycDocumentType; keys: (keyof DocumentUploads)[] }[] = [
+  { type: 'aadhaar', keys: ['aadhaarFront', 'aadhaarBack'] },
+  { type: 'license', keys: ['license'] },
+  { type: 'vehicleRC', keys: ['vehicleRC'] },
+  { type: 'fssai', keys: ['fssai'] },
+  { type: 'waterQuality', keys: ['waterQuality'] },
+];
+
+// =============================================================================
+// Expiry Date Input
+// =============================================================================
+
+function ExpiryInput({
+  id,
+  label,
+  value,
+  onChange,
+}: {
+  id: string;
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+}) {
+  return (
+    <div>
+      <label htmlFor={id} className="block text-xs font-medium text-gray-600 mb-1">
+        {label} valid until <span className="text-red-500">*</span>
+      </label>
+      <div className="relative">
+        <CalendarDays className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+        <input
+          id={id}
+          type="date"
+          value={value}
+          min={new Date().toISOString().slice(0, 10)}
+          onChange={(e) => onChange(e.target.value)}
+          className="w-full pl-9 pr-3 py-2.5 rounded-xl border border-gray-200 focus:border-green-500 focus:ring-2 focus:ring-green-200 outline-none text-gray-900 text-sm transition-all"
+        />
+      </div>
+    </div>
+  );
+}
+
 // =============================================================================
 // File Upload Component
 // =============================================================================
@@ -139,7 +190,7 @@ function FileUploadArea({
       <input
         ref={inputRef}
         type="file"
-        accept="image/*"
+        accept="image/*,application/pdf"
         capture="environment"
         onChange={handleFileChange}
         className="hidden"
@@ -290,6 +341,13 @@ export default function SupplierRegisterPage() {
   });
 
   const [documents, setDocuments] = useState<DocumentUploads>(INITIAL_DOCUMENTS);
+  const [aadhaarNumber, setAadhaarNumber] = useState('');
+  const [expiries, setExpiries] = useState<DocumentExpiries>({
+    license: '',
+    vehicleRC: '',
+    fssai: '',
+    waterQuality: '',
+  });
 
   const [serviceArea, setServiceArea] = useState<ServiceAreaInfo>({
     pincode: '',
@@ -319,11 +377,16 @@ export default function SupplierRegisterPage() {
           vehicle.number.trim().length >= 4
         );
       case 3:
-        // At minimum, Aadhaar front, license, and RC are required
+        // Aadhaar (front and number), license and RC are required; every
+        // uploaded document that expires needs its expiry date
         return (
           documents.aadhaarFront.file !== null &&
+          isValidAadhaar(aadhaarNumber) &&
           documents.license.file !== null &&
-          documents.vehicleRC.file !== null
+          documents.vehicleRC.file !== null &&
+          (Object.keys(expiries) as (keyof DocumentExpiries)[]).every(
+            (key) => documents[key].file === null || expiries[key] !== ''
+          )
         );
       case 4:
         return (
@@ -391,12 +454,41 @@ export default function SupplierRegisterPage() {
   };
 
   const handleSubmit = async () => {
+    if (!user?.id) return;
     setIsSubmitting(true);
-    // Simulate API call
-    await new Promise((resolve) => setTimeout(resolve, 2000));
-    setIsSubmitting(false);
-    // Navigate to supplier dashboard
-    router.replace('/supplier');
+    try {
+      // The demo creates the supplier record on first dashboard load
+      await fetch(`/api/supplier/dashboard?supplierId=${encodeURIComponent(user.id)}`);
+
+      // Upload each document for review; the supplier stays pending (and
+      // offline) until the required ones are approved
+      for (const { type, keys } of KYC_UPLOADS) {
+        const files = keys.map((key) => documents[key].file).filter((f): f is File => f !== null);
+        if (files.length === 0) continue;
+
+        const form = new FormData();
+        form.append('type', type);
+        for (const file of files) form.append('files', file);
+        if (type === 'aadhaar') form.append('number', aadhaarNumber);
+        if (type !== 'aadhaar') form.append('expiresAt', expiries[type]);
+
+        const res = await fetch(`/api/suppliers/${user.id}/documents`, {
+          method: 'POST',
+          body: form,
+        });
+        if (!res.ok) {
+          const data = await res.json().catch(() => ({}));
+          throw new Error(data.error || `Could not upload the ${KYC_DOCUMENTS[type].label}.`);
+        }
+      }
+
+      // Navigate to supplier dashboard
+      router.replace('/supplier');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Could not submit your documents.');
+    } finally {
+      setIsSubmitting(false);
+    }
   };
 
   // --------------------------------------------------------------------------
@@ -623,6 +715,50 @@ export default function SupplierRegisterPage() {
               </div>
             </div>
 
+            {/* Aadhaar number and expiry dates */}
+            <div className="space-y-3">
+              <div>
+                <label htmlFor="reg-aadhaar" className="block text-sm font-medium text-gray-700 mb-1.5">
+                  Aadhaar Number <span className="text-red-500">*</span>
+                </label>
+                <div className="relative">
+                  <CreditCard className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400" />
+                  <input
+                    id="reg-aadhaar"
+                    type="text"
+                    inputMode="numeric"
+                    autoComplete="off"
+                    value={aadhaarNumber}
+                    onChange={(e) =>
+                      setAadhaarNumber(e.target.value.replace(/[^\d\s]/g, '').slice(0, 14))
+                    }
+                    placeholder="XXXX XXXX XXXX"
+                    className="w-full pl-11 pr-4 py-3 rounded-xl border border-gray-200 focus:border-green-500 focus:ring-2 focus:ring-green-200 outline-none text-gray-900 text-base tracking-wider transition-all"
+                  />
+                </div>
+                {aadhaarNumber.replace(/\s/g, '').length === 12 && !isValidAadhaar(aadhaarNumber) && (
+                  <p className="text-xs text-red-500 mt-1">This is not a valid Aadhaar number</p>
+                )}
+                <p className="text-[10px] text-gray-400 mt-1">
+                  Only the last 4 digits are kept after verification
+                </p>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <ExpiryInput
+                  id="reg-license-expiry"
+                  label="License"
+                  value={expiries.license}
+                  onChange={(license) => setExpiries((e) => ({ ...e, license }))}
+                />
+                <ExpiryInput
+                  id="reg-rc-expiry"
+                  label="RC"
+                  value={expiries.vehicleRC}
+                  onChange={(vehicleRC) => setExpiries((e) => ({ ...e, vehicleRC }))}
+                />
+              </div>
+            </div>
+
             {/* Optional documents */}
             <div>
               <p className="text-xs font-semibold text-gray-500 uppercase tracking-wide mb-2">
@@ -643,6 +779,22 @@ export default function SupplierRegisterPage() {
                   onUpload={handleDocUpload}
                   onRemove={handleDocRemove}
                 />
+                {documents.fssai.file && (
+                  <ExpiryInput
+                    id="reg-fssai-expiry"
+                    label="FSSAI"
+                    value={expiries.fssai}
+                    onChange={(fssai) => setExpiries((e) => ({ ...e, fssai }))}
+                  />
+                )}
+                {documents.waterQuality.file && (
+                  <ExpiryInput
+                    id="reg-water-quality-expiry"
+                    label="Report"
+                    value={expiries.waterQuality}
+                    onChange={(waterQuality) => setExpiries((e) => ({ ...e, waterQuality }))}
+                  />
+                )}
               </div>
             </div>
 
@@ -1014,6 +1166,11 @@ export default function SupplierRegisterPage() {
                     </span>
                   </div>
                 ))}
+                {isValidAadhaar(aadhaarNumber) && (
+                  <p className="text-xs text-gray-500 pl-6">
+                    Aadhaar: <span className="font-mono">{maskAadhaar(aadhaarNumber)}</span>
+                  </p>
+                )}
               </div>
             </Card>
 
@@ -3,6 +3,7 @@ export const dynamic = 'force-dynamic';
 
 import React, { useState, useEffect, useRef, useTransition } from 'react';
 import { useRouter, useParams } from 'next/navigation';
+import Image from 'next/image';
 import { motion, AnimatePresence } from 'motion/react';
 import {
   ArrowLeft,
@@ -17,8 +18,12 @@ import {
   ChevronDown,
   Loader2,
   AlertCircle,
+  KeyRound,
+  Gauge,
+  Beaker,
 } from 'lucide-react';
 import { LiveTrackingMap } from '@/components/shared/LiveTrackingMap';
+import { CancelOrderModal } from '@/components/shared/CancelOrderModal';
 import { loadGoogleMaps, haversineMeters } from '@/lib/google-maps-loader';
 import { toast } from 'sonner';
 import { Button } from '@/components/ui/Button';
@@ -26,7 +31,19 @@ import { useOrderStore } from '@/store/orderStore';
 import { cancelOrder } from '@/actions/orders';
 import { submitRating } from '@/actions/ratings';
 import { formatCurrency } from '@/lib/utils';
-import type { Order, OrderStatus, TrackingInfo } from '@/types';
+import { OTP_STATUSES } from '@/lib/delivery-otp';
+import { deliveryLegs } from '@/lib/delivery-legs';
+import { VOLUME_RESPONSE_STATUSES } from '@/lib/delivery-volume';
+import { RATING_DIMENSIONS } from '@/lib/ratings';
+import { spotCheckBlocker } from '@/lib/spot-check';
+import type {
+  DeliveryVolume,
+  Order,
+  OrderStatus,
+  RatingDimension,
+  SpotCheckReading,
+  TrackingInfo,
+} from '@/types';
 
 // ---------------------------------------------------------------------------
 // Status step definitions
@@ -360,9 +377,14 @@ function RatingModal({
 }: {
   isOpen: boolean;
   onClose: () => void;
-  onSubmit: (rating: number, feedback: string) => void;
+  onSubmit: (
+    rating: number,
+    feedback: string,
+    dimensions: Partial<Record<RatingDimension, number>>
+  ) => void;
 }) {
   const [rating, setRating] = useState(5);
+  const [dimensions, setDimensions] = useState<Partial<Record<RatingDimension, number>>>({});
   const [feedback, setFeedback] = useState('');
 
   if (!isOpen) return null;
@@ -407,6 +429,39 @@ function RatingModal({
           ))}
         </div>
 
+        {/* Optional per-dimension ratings */}
+        <div className="space-y-2 mb-5">
+          {(Object.keys(RATING_DIMENSIONS) as RatingDimension[]).map((dimension) => (
+            <div key={dimension} className="flex items-center justify-between">
+              <span className="text-sm text-gray-700">
+                {RATING_DIMENSIONS[dimension].label}
+                <span className="text-xs text-gray-400 ml-1">
+                  {RATING_DIMENSIONS[dimension].labelHi}
+                </span>
+              </span>
+              <div className="flex gap-1">
+                {[1, 2, 3, 4, 5].map((star) => (
+                  <button
+                    key={star}
+                    type="button"
+                    aria-label={`${RATING_DIMENSIONS[dimension].label}: ${star}`}
+                    onClick={() => setDimensions((prev) => ({ ...prev, [dimension]: star }))}
+                    className="p-1 min-w-[32px] min-h-[32px] flex items-center justify-center"
+                  >
+                    <Star
+                      className={`w-5 h-5 transition-colors ${
+                        star <= (dimensions[dimension] ?? 0)
+                          ? 'text-yellow-400 fill-yellow-400'
+                          : 'text-gray-200'
+                      }`}
+                    />
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
         {/* Feedback */}
         <textarea
           value={feedback}
@@ -420,7 +475,7 @@ function RatingModal({
           variant="primary"
           size="xl"
           fullWidth
-          onClick={() => onSubmit(rating, feedback)}
+          onClick={() => onSubmit(rating, feedback, dimensions)}
           className="mt-4 rounded-2xl"
         >
           Submit Rating / रेटिंग दें
@@ -430,6 +485,195 @@ function RatingModal({
   );
 }
 
+// ---------------------------------------------------------------------------
+// Delivered Volume (confirm or dispute the supplier's reading)
+// ---------------------------------------------------------------------------
+
+function VolumeCard({
+  volume,
+  quantityLitres,
+  total,
+  saving,
+  onRespond,
+}: {
+  volume: DeliveryVolume;
+  quantityLitres: number;
+  total: number;
+  saving: boolean;
+  onRespond: (response: 'confirmed' | 'disputed', litres?: number, note?: string) => void;
+}) {
+  const [disputing, setDisputing] = useState(false);
+  const [litres, setLitres] = useState('');
+  const [note, setNote] = useState('');
+  const { adjustment, customerResponse } = volume;
+
+  return (
+    <div className="mb-4 rounded-xl border border-gray-100 bg-gray-50 p-4 space-y-3">
+      <div className="flex items-center gap-3">
+        <Gauge className="w-6 h-6 text-blue-600 shrink-0" />
+        <div className="flex-1">
+          <p className="text-sm font-medium text-gray-900">
+            {volume.litres}L of {quantityLitres}L delivered
+          </p>
+          <p className="text-[11px] text-gray-500">
+            {volume.source === 'flow_meter' ? 'Flow-meter reading' : 'Recorded by the supplier'} /
+            सप्लायर द्वारा दर्ज
+          </p>
+        </div>
+      </div>
+
+      {adjustment && (
+        <p className="text-xs text-amber-700 bg-amber-50 rounded-lg p-2">
+          Short by {adjustment.shortLitres}L: total adjusted to {formatCurrency(total)}
+          {adjustment.refundDue > 0
+            ? `, ${formatCurrency(adjustment.refundDue)} refunded to you`
+            : ''}
+          .
+        </p>
+      )}
+
+      {customerResponse ? (
+        <p className="text-xs text-gray-500">
+          {customerResponse.response === 'confirmed'
+            ? 'You confirmed this amount. / आपने पुष्टि की।'
+            : `You reported ${customerResponse.litres !== undefined ? `${customerResponse.litres}L` : 'less water'}; our team will review it. / हम जांच करेंगे।`}
+        </p>
+      ) : disputing ? (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            onRespond('disputed', litres === '' ? undefined : Number(litres), note);
+          }}
+          className="space-y-2"
+        >
+          <input
+            type="number"
+            inputMode="decimal"
+            min={0}
+            step="0.1"
+            value={litres}
+            onChange={(e) => setLitres(e.target.value)}
+            placeholder="Litres you received / मिला पानी (L)"
+            className="w-full px-3 py-2 bg-white border border-gray-200 rounded-xl text-sm focus:outline-none focus:border-blue-500"
+          />
+          <textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="What happened? (Optional) / क्या हुआ?"
+            rows={2}
+            className="w-full px-3 py-2 bg-white border border-gray-200 rounded-xl text-sm focus:outline-none focus:border-blue-500 resize-none"
+          />
+          <div className="flex gap-2">
+            <Button type="button" variant="ghost" fullWidth onClick={() => setDisputing(false)}>
+              Back
+            </Button>
+            <Button type="submit" variant="danger" fullWidth loading={saving}>
+              Report / रिपोर्ट करें
+            </Button>
+          </div>
+        </form>
+      ) : (
+        <div className="flex gap-2">
+          <Button
+            variant="primary"
+            fullWidth
+            loading={saving}
+            onClick={() => onRespond('confirmed')}
+          >
+            Confirm / सही है
+          </Button>
+          <Button variant="outline" fullWidth onClick={() => setDisputing(true)}>
+            Got less / कम मिला
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Spot Check (customer's own TDS / pH meter reading)
+// ---------------------------------------------------------------------------
+
+function SpotCheckCard({
+  spotCheck,
+  saving,
+  onSubmit,
+}: {
+  spotCheck?: SpotCheckReading;
+  saving: boolean;
+  onSubmit: (tds?: number, ph?: number) => void;
+}) {
+  const [tds, setTds] = useState('');
+  const [ph, setPh] = useState('');
+
+  return (
+    <div className="mb-4 rounded-xl border border-gray-100 bg-gray-50 p-4 space-y-3">
+      <div className="flex items-center gap-3">
+        <Beaker className="w-6 h-6 text-blue-600 shrink-0" />
+        <div className="flex-1">
+          <p className="text-sm font-medium text-gray-900">Have a TDS meter?</p>
+          <p className="text-[11px] text-gray-500">
+            Log your reading (optional) / अपनी जांच दर्ज करें
+          </p>
+        </div>
+      </div>
+
+      {spotCheck ? (
+        <p className="text-xs text-gray-500">
+          You logged
+          {spotCheck.tds !== undefined ? ` TDS ${spotCheck.tds} ppm` : ''}
+          {spotCheck.tds !== undefined && spotCheck.ph !== undefined ? ',' : ''}
+          {spotCheck.ph !== undefined ? ` pH ${spotCheck.ph}` : ''}. Thank you! / धन्यवाद!
+        </p>
+      ) : (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            onSubmit(tds === '' ? undefined : Number(tds), ph === '' ? undefined : Number(ph));
+          }}
+          className="space-y-2"
+        >
+          <div className="flex gap-2">
+            <input
+              type="number"
+              inputMode="numeric"
+              min={0}
+              max={5000}
+              value={tds}
+              onChange={(e) => setTds(e.target.value)}
+              placeholder="TDS (ppm)"
+              aria-label="TDS in ppm"
+              className="w-full px-3 py-2 bg-white border border-gray-200 rounded-xl text-sm focus:outline-none focus:border-blue-500"
+            />
+            <input
+              type="number"
+              inputMode="decimal"
+              min={0}
+              max={14}
+              step="0.1"
+              value={ph}
+              onChange={(e) => setPh(e.target.value)}
+              placeholder="pH"
+              aria-label="pH"
+              className="w-full px-3 py-2 bg-white border border-gray-200 rounded-xl text-sm focus:outline-none focus:border-blue-500"
+            />
+          </div>
+          <Button
+            type="submit"
+            variant="outline"
+            fullWidth
+            loading={saving}
+            disabled={tds === '' && ph === ''}
+          >
+            Save reading / दर्ज करें
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+}
+
 // ---------------------------------------------------------------------------
 // Main Tracking Page
 // ---------------------------------------------------------------------------
@@ -447,12 +691,18 @@ export default function TrackingPage() {
   const [sheetExpanded, setSheetExpanded] = useState(true);
   const [showRating, setShowRating] = useState(false);
   const [isCancelling, startCancelTransition] = useTransition();
+  const [showCancel, setShowCancel] = useState(false);
   const [etaMinutes, setEtaMinutes] = useState<number | null>(null);
   // Real road-following path fetched once per order via DirectionsService.
   const [routePath, setRoutePath] = useState<
     { lat: number; lng: number }[] | null
   >(null);
   const routeFetchedRef = useRef<string | null>(null);
+  const [deliveryOtp, setDeliveryOtp] = useState<string | null>(null);
+  // Multi-trip orders: the trip the OTP is for
+  const [otpTrip, setOtpTrip] = useState<{ index: number; of: number } | null>(null);
+  const [volumeSaving, setVolumeSaving] = useState(false);
+  const [spotCheckSaving, setSpotCheckSaving] = useState(false);
 
   // --- Fetch order if not in store ---
   useEffect(() => {
@@ -526,6 +776,71 @@ export default function TrackingPage() {
     return () => clearInterval(interval);
   }, [order, updateTracking, updateOrderStatus]);
 
+  // --- Delivery OTP (issued on acceptance, shown only to the customer) ---
+  const otpOrderId = order && OTP_STATUSES.includes(order.status) ? order.id : null;
+  useEffect(() => {
+    if (!otpOrderId) {
+      setDeliveryOtp(null);
+      setOtpTrip(null);
+      return;
+    }
+    let cancelled = false;
+    let interval: ReturnType<typeof setInterval> | undefined;
+    const loadOtp = async (): Promise<boolean> => {
+      try {
+        const res = await fetch(`/api/orders/${otpOrderId}/otp`, { cache: 'no-store' });
+        if (!res.ok) return false;
+        const data = await res.json();
+        if (!cancelled) {
+          setDeliveryOtp(data.verified ? null : data.otp);
+          setOtpTrip(data.trip ?? null);
+        }
+        return !!data.trip;
+      } catch {
+        // Leave the OTP card hidden
+        return false;
+      }
+    };
+    // Each trip of a multi-trip order has its own code; follow the trips
+    loadOtp().then((multiTrip) => {
+      if (multiTrip && !cancelled) interval = setInterval(loadOtp, 15000);
+    });
+    return () => {
+      cancelled = true;
+      if (interval) clearInterval(interval);
+    };
+  }, [otpOrderId]);
+
+  // --- Delivery proof (volume, photo) is written at the door; reload the
+  // full order once the supplier arrives and again once it is delivered ---
+  const proofOrderId =
+    order && (otpTrip || VOLUME_RESPONSE_STATUSES.includes(order.status)) ? order.id : null;
+  const proofStatus = `${order?.status}:${otpTrip?.index ?? ''}`;
+  const volumeTrip = order ? deliveryLegs(order).filter((leg) => leg.volume).pop() : undefined;
+  useEffect(() => {
+    if (!proofOrderId || !proofStatus) return;
+    let cancelled = false;
+    (async () => {
+      try {
+        const res = await fetch(`/api/orders/${proofOrderId}`, { cache: 'no-store' });
+        if (!res.ok) return;
+        const data: Order = await res.json();
+        if (!cancelled) {
+          setOrder((prev) =>
+            prev
+              ? { ...prev, deliveryVerification: data.deliveryVerification, price: data.price, legs: data.legs }
+              : prev
+          );
+        }
+      } catch {
+        // Keep what we have
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [proofOrderId, proofStatus]);
+
   // (Removed) Previous 15s-tick status auto-progress timer. Status now
   // transitions in lockstep with the movement simulator below so the
   // rider doesn't show "Delivered" while still visibly mid-route.
@@ -778,9 +1093,21 @@ export default function TrackingPage() {
       return;
     }
 
+    // The reason and fee are confirmed in CancelOrderModal first
+    setShowCancel(true);
+  };
+
+  const confirmCancel = (reasonCode: string) => {
+    if (!order) return;
+
     startCancelTransition(async () => {
       // Use Server Action instead of fetch
-      await cancelOrder(order.id);
+      const result = await cancelOrder(order.id, order.customerId, reasonCode);
+      if (!result.success) {
+        toast.error(result.error);
+        return;
+      }
+      setShowCancel(false);
       updateOrderStatus(order.id, 'cancelled');
       setCurrentOrder(null);
       toast.success('Order cancelled.\nऑर्डर रद्द हो गया।');
@@ -789,12 +1116,105 @@ export default function TrackingPage() {
   };
 
   // --- Submit rating (Server Action) ---
-  const handleSubmitRating = async (rating: number, feedback: string) => {
+  const handleVolumeResponse = async (
+    response: 'confirmed' | 'disputed',
+    litres?: number,
+    note?: string
+  ) => {
+    if (!order) return;
+    setVolumeSaving(true);
+    const legId = volumeTrip?.id;
+    try {
+      const res = await fetch(`/api/orders/${order.id}/volume`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ customerId: order.customerId, response, litres, note, legId }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        toast.error(data.error || 'Could not save your response.');
+        return;
+      }
+      setOrder((prev) => {
+        const trip = legId ? prev?.legs?.[legId] : undefined;
+        if (prev && trip?.volume) {
+          return {
+            ...prev,
+            legs: {
+              ...prev.legs,
+              [trip.id]: { ...trip, volume: { ...trip.volume, customerResponse: data.response } },
+            },
+          };
+        }
+        const volume = prev?.deliveryVerification?.volume;
+        if (!prev || !volume) return prev;
+        return {
+          ...prev,
+          deliveryVerification: {
+            ...prev.deliveryVerification,
+            volume: { ...volume, customerResponse: data.response },
+          },
+        };
+      });
+      toast.success(
+        response === 'confirmed'
+          ? 'Thanks for confirming!\nपुष्टि के लिए धन्यवाद!'
+          : 'Reported. Our team will review it.\nहम जांच करेंगे।'
+      );
+    } catch {
+      toast.error('Could not save your response.');
+    } finally {
+      setVolumeSaving(false);
+    }
+  };
+
+  const handleSpotCheck = async (tds?: number, ph?: number) => {
+    if (!order) return;
+    setSpotCheckSaving(true);
+    try {
+      const res = await fetch(`/api/orders/${order.id}/spot-check`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ customerId: order.customerId, tds, ph }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        toast.error(data.error || 'Could not save your reading.');
+        return;
+      }
+      setOrder((prev) =>
+        prev
+          ? {
+              ...prev,
+              deliveryVerification: { ...prev.deliveryVerification, spotCheck: data.spotCheck },
+            }
+          : prev
+      );
+      const outOfRange = data.inRange?.tds === false || data.inRange?.ph === false;
+      toast.success(
+        outOfRange
+          ? 'Saved. This reading is outside the safe range; we will look into it.\nसुरक्षित सीमा से बाहर, हम जांच करेंगे।'
+          : 'Reading saved. Thank you!\nधन्यवाद!'
+      );
+    } catch {
+      toast.error('Could not save your reading.');
+    } finally {
+      setSpotCheckSaving(false);
+    }
+  };
+
+  const handleSubmitRating = async (
+    rating: number,
+    feedback: string,
+    dimensions: Partial<Record<RatingDimension, number>>
+  ) => {
     if (order?.id) {
       await submitRating({
         orderId: order.id,
+        raterId: order.customerId,
         rating,
         feedback,
+        dimensions,
         type: 'customer',
       });
     }
@@ -953,6 +1373,58 @@ export default function TrackingPage() {
             <p className="text-sm text-gray-500">{statusText.hi}</p>
           </div>
 
+          {/* Delivery OTP */}
+          {deliveryOtp && (
+            <div className="mb-4 rounded-xl border border-blue-100 bg-blue-50 p-4 flex items-center gap-3">
+              <KeyRound className="w-6 h-6 text-blue-600 shrink-0" />
+              <div className="flex-1">
+                <p className="text-xs font-medium text-blue-700">
+                  Delivery OTP / डिलीवरी OTP
+                  {otpTrip && ` · Trip ${otpTrip.index} of ${otpTrip.of} / ट्रिप ${otpTrip.index}/${otpTrip.of}`}
+                </p>
+                <p className="text-[11px] text-blue-500">
+                  Share only when your water arrives / पानी पहुंचने पर ही बताएं
+                </p>
+              </div>
+              <p className="text-2xl font-bold font-mono tracking-[0.3em] text-blue-900">
+                {deliveryOtp}
+              </p>
+            </div>
+          )}
+
+          {/* Delivered volume (multi-trip orders: the latest trip's reading) */}
+          {volumeTrip?.volume && VOLUME_RESPONSE_STATUSES.includes(volumeTrip.status) ? (
+            <VolumeCard
+              volume={volumeTrip.volume}
+              quantityLitres={volumeTrip.litres}
+              total={order.price.total}
+              saving={volumeSaving}
+              onRespond={handleVolumeResponse}
+            />
+          ) : (
+            !volumeTrip &&
+            order.deliveryVerification?.volume &&
+            VOLUME_RESPONSE_STATUSES.includes(order.status) && (
+              <VolumeCard
+                volume={order.deliveryVerification.volume}
+                quantityLitres={order.quantityLitres}
+                total={order.price.total}
+                saving={volumeSaving}
+                onRespond={handleVolumeResponse}
+              />
+            )
+          )}
+
+          {/* Customer spot check */}
+          {order.status === 'delivered' &&
+            (order.deliveryVerification?.spotCheck || !spotCheckBlocker(order)) && (
+              <SpotCheckCard
+                spotCheck={order.deliveryVerification?.spotCheck}
+                saving={spotCheckSaving}
+                onSubmit={handleSpotCheck}
+              />
+            )}
+
           <AnimatePresence>
             {sheetExpanded && (
               <motion.div
@@ -1024,6 +1496,32 @@ export default function TrackingPage() {
                   </div>
                 </div>
 
+                {/* Delivery photo (private; served through the photo route) */}
+                {order.status === 'delivered' && order.deliveryVerification?.photoProofUrl && (
+                  <div className="bg-gray-50 rounded-xl p-4">
+                    <p className="text-xs font-medium text-gray-400 uppercase tracking-wider mb-2">
+                      Delivery Photo / डिलीवरी फोटो
+                    </p>
+                    <a
+                      href={order.deliveryVerification.photoProofUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                    >
+                      <Image
+                        src={`${order.deliveryVerification.photoProofUrl}?variant=thumb`}
+                        alt="Photo taken by the supplier at delivery"
+                        width={320}
+                        height={240}
+                        className="w-full max-h-48 rounded-lg object-cover"
+                        unoptimized
+                      />
+                    </a>
+                    <p className="text-[11px] text-gray-400 mt-1.5">
+                      Tap to view full size / पूरा देखने के लिए टैप करें
+                    </p>
+                  </div>
+                )}
+
                 {/* Action buttons */}
                 {order.status === 'accepted' && (
                   <Button
@@ -1079,6 +1577,15 @@ export default function TrackingPage() {
         onClose={() => setShowRating(false)}
         onSubmit={handleSubmitRating}
       />
+
+      {/* Cancel Modal */}
+      <CancelOrderModal
+        isOpen={showCancel}
+        onClose={() => setShowCancel(false)}
+        orderId={order.id}
+        onConfirm={confirmCancel}
+        loading={isCancelling}
+      />
     </div>
   );
 }
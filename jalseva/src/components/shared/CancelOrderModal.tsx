@@ -0,0 +1,138 @@
+'use client';
+
+import type React from 'react';
+import { useEffect, useState } from 'react';
+import { AlertTriangle, Loader2 } from 'lucide-react';
+import { Modal } from '@/components/ui/Modal';
+import { Button } from '@/components/ui/Button';
+import { getCancellationQuote } from '@/actions/orders';
+import { CANCELLATION_REASONS, type CancellationQuote } from '@/lib/cancellation';
+import { cn, formatCurrency } from '@/lib/utils';
+
+export interface CancelOrderModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  orderId: string;
+  /** Called with the chosen reason code once the customer confirms. */
+  onConfirm: (reasonCode: string) => void;
+  loading?: boolean;
+}
+
+/**
+ * Asks the customer why they are cancelling and shows what it will cost
+ * (the fee and any refund, quoted by the server) before they confirm.
+ */
+const CancelOrderModal: React.FC<CancelOrderModalProps> = ({
+  isOpen,
+  onClose,
+  orderId,
+  onConfirm,
+  loading = false,
+}) => {
+  const [reasonCode, setReasonCode] = useState('');
+  const [quote, setQuote] = useState<CancellationQuote | null>(null);
+  const [quoteError, setQuoteError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    setReasonCode('');
+    setQuote(null);
+    setQuoteError(null);
+    getCancellationQuote(orderId).then((result) => {
+      if (cancelled) return;
+      if (result.success) setQuote(result.quote);
+      else setQuoteError(result.error);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, orderId]);
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Cancel Order / ऑर्डर रद्द करें" size="sm">
+      <div className="space-y-4">
+        <fieldset className="space-y-2">
+          <legend className="text-sm font-medium text-gray-700 mb-2">
+            Why are you cancelling? / रद्द करने का कारण?
+          </legend>
+          {CANCELLATION_REASONS.customer.map((reason) => (
+            <label
+              key={reason.code}
+              className={cn(
+                'flex items-center gap-3 min-h-[44px] px-4 rounded-xl border cursor-pointer transition-colors',
+                reasonCode === reason.code
+                  ? 'border-red-300 bg-red-50 text-red-700'
+                  : 'border-gray-200 text-gray-700 hover:bg-gray-50'
+              )}
+            >
+              <input
+                type="radio"
+                name="cancellation-reason"
+                value={reason.code}
+                checked={reasonCode === reason.code}
+                onChange={() => setReasonCode(reason.code)}
+                className="accent-red-500"
+              />
+              <span className="text-sm">{reason.label}</span>
+            </label>
+          ))}
+        </fieldset>
+
+        {quote ? (
+          <div
+            className={cn(
+              'rounded-xl p-4 text-sm',
+              quote.fee > 0 ? 'bg-amber-50 text-amber-800' : 'bg-green-50 text-green-800'
+            )}
+          >
+            {quote.fee > 0 ? (
+              <p className="flex items-start gap-2">
+                <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                <span>
+                  A cancellation fee of <span className="font-semibold">{formatCurrency(quote.fee)}</span>{' '}
+                  applies. / रद्द करने का शुल्क लगेगा।
+                </span>
+              </p>
+            ) : (
+              <p>Free cancellation. / रद्द करना मुफ़्त है।</p>
+            )}
+            {quote.refundAmount > 0 && (
+              <p className="mt-1">
+                {formatCurrency(quote.refundAmount)} will be refunded to your payment method.
+              </p>
+            )}
+          </div>
+        ) : quoteError ? (
+          <p className="text-sm text-red-600 bg-red-50 rounded-xl p-4">
+            Could not load the cancellation fee: {quoteError}
+          </p>
+        ) : (
+          <div className="flex items-center gap-2 text-sm text-gray-500">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Checking the cancellation fee…
+          </div>
+        )}
+
+        <div className="flex gap-3">
+          <Button variant="ghost" fullWidth onClick={onClose}>
+            Keep Order
+          </Button>
+          <Button
+            variant="danger"
+            fullWidth
+            loading={loading}
+            disabled={!reasonCode || !quote}
+            onClick={() => onConfirm(reasonCode)}
+          >
+            Confirm Cancellation
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+CancelOrderModal.displayName = 'CancelOrderModal';
+
+export { CancelOrderModal };
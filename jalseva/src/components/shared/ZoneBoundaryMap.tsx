@@ -0,0 +1,237 @@
+'use client';
+
+// =============================================================================
+// JalSeva - Zone Boundary Map (admin pricing zones)
+// =============================================================================
+// Draws a pricing zone's polygon: each click on the map adds a corner, and
+// the other zones are shown greyed out so overlaps are visible while
+// drawing. Uses the same plain script-tag loader as LiveTrackingMap. When
+// Maps is unavailable the corners can be typed in as "lat, lng" lines.
+// =============================================================================
+
+import { useRef, useEffect, useState } from 'react';
+import { AlertCircle, Loader2, Undo2, Trash2 } from 'lucide-react';
+import { loadGoogleMaps } from '@/lib/google-maps-loader';
+import type { PricingZone, ZoneVertex } from '@/types';
+
+/** Where the map opens when there is nothing drawn yet. */
+const DEFAULT_CENTER: ZoneVertex = { lat: 28.6139, lng: 77.209 };
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface ZoneBoundaryMapProps {
+  value: ZoneVertex[];
+  onChange: (boundary: ZoneVertex[]) => void;
+  /** Zones drawn for reference; the one being edited should be left out. */
+  otherZones?: PricingZone[];
+  className?: string;
+}
+
+function formatVertices(boundary: ZoneVertex[]): string {
+  return boundary.map((v) => `${v.lat}, ${v.lng}`).join('\n');
+}
+
+function parseVertices(text: string): ZoneVertex[] {
+  return text
+    .split('\n')
+    .map((line) => line.split(',').map((part) => parseFloat(part)))
+    .filter(([lat, lng]) => Number.isFinite(lat) && Number.isFinite(lng))
+    .map(([lat, lng]) => ({ lat, lng }));
+}
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+export function ZoneBoundaryMap({
+  value,
+  onChange,
+  otherZones = [],
+  className = '',
+}: ZoneBoundaryMapProps) {
+  const mapRef = useRef<HTMLDivElement>(null);
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  type GMap = any;
+  const googleMapRef = useRef<GMap>(null);
+  const polygonRef = useRef<GMap>(null);
+  const othersRef = useRef<GMap[]>([]);
+  // The click listener is bound once; it reads the latest props from here
+  const latest = useRef({ value, onChange });
+  latest.current = { value, onChange };
+
+  const [mapLoaded, setMapLoaded] = useState(false);
+  const [mapError, setMapError] = useState(false);
+  const [text, setText] = useState(() => formatVertices(value));
+
+  // -----------------------------------------------------------------------
+  // Initialize map once
+  // -----------------------------------------------------------------------
+
+  // biome-ignore lint/correctness/useExhaustiveDependencies: the map is created once; later props arrive through `latest`
+  useEffect(() => {
+    if (!mapRef.current) return;
+
+    const apiKey = process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY;
+    if (!apiKey) {
+      setMapError(true);
+      return;
+    }
+
+    let cancelled = false;
+
+    loadGoogleMaps(apiKey)
+      .then(() => {
+        if (cancelled || !mapRef.current) return;
+        try {
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          const g = (window as any).google;
+          const start = latest.current.value;
+
+          const map = new g.maps.Map(mapRef.current, {
+            center: start[0] ?? otherZones[0]?.boundary?.[0] ?? DEFAULT_CENTER,
+            zoom: 12,
+            disableDefaultUI: true,
+            zoomControl: true,
+            gestureHandling: 'greedy',
+            draggableCursor: 'crosshair',
+          });
+
+          polygonRef.current = new g.maps.Polygon({
+            map,
+            paths: start,
+            clickable: false,
+            strokeColor: '#2563EB',
+            strokeWeight: 2,
+            fillColor: '#3B82F6',
+            fillOpacity: 0.2,
+          });
+
+          map.addListener('click', (e: GMap) => {
+            const { value: current, onChange: change } = latest.current;
+            change([...current, { lat: e.latLng.lat(), lng: e.latLng.lng() }]);
+          });
+
+          if (start.length > 0) {
+            const bounds = new g.maps.LatLngBounds();
+            for (const v of start) bounds.extend(v);
+            map.fitBounds(bounds, 40);
+          }
+
+          googleMapRef.current = map;
+          setMapLoaded(true);
+        } catch (err) {
+          console.error('[ZoneBoundaryMap] Map init failed:', err);
+          setMapError(true);
+        }
+      })
+      .catch((err) => {
+        console.error('[ZoneBoundaryMap] Maps script failed:', err);
+        if (!cancelled) setMapError(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // -----------------------------------------------------------------------
+  // Keep the drawn polygon and the reference zones in sync
+  // -----------------------------------------------------------------------
+
+  useEffect(() => {
+    polygonRef.current?.setPaths(value);
+  }, [value]);
+
+  useEffect(() => {
+    if (!mapLoaded) return;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const g = (window as any).google;
+    for (const polygon of othersRef.current) polygon.setMap(null);
+    othersRef.current = otherZones
+      .filter((zone) => (zone.boundary?.length ?? 0) >= 3)
+      .map(
+        (zone) =>
+          new g.maps.Polygon({
+            map: googleMapRef.current,
+            paths: zone.boundary,
+            clickable: false,
+            strokeColor: '#9CA3AF',
+            strokeWeight: 1,
+            fillColor: '#9CA3AF',
+            fillOpacity: 0.15,
+          })
+      );
+  }, [otherZones, mapLoaded]);
+
+  // -----------------------------------------------------------------------
+  // Fallback when Maps is unavailable: type the corners in
+  // -----------------------------------------------------------------------
+
+  if (mapError) {
+    return (
+      <div className={className}>
+        <div className="flex items-center gap-2 text-xs text-gray-500 mb-2">
+          <AlertCircle className="w-4 h-4 text-gray-400" />
+          Map unavailable. Enter one corner per line as “lat, lng”.
+        </div>
+        <textarea
+          value={text}
+          onChange={(e) => {
+            setText(e.target.value);
+            onChange(parseVertices(e.target.value));
+          }}
+          rows={6}
+          placeholder={'28.6304, 77.2177\n28.6129, 77.2295\n28.6010, 77.2110'}
+          className="w-full rounded-xl border border-gray-200 px-3 py-2 text-sm font-mono"
+          aria-label="Zone boundary corners"
+        />
+        <p className="text-xs text-gray-400 mt-1">{value.length} corners</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className={className}>
+      <div className="relative h-72 rounded-xl overflow-hidden border border-gray-200">
+        <div
+          ref={mapRef}
+          className="w-full h-full"
+          role="application"
+          aria-label="Zone boundary map. Click to add a corner."
+        />
+        {!mapLoaded && (
+          <div className="absolute inset-0 bg-gray-100 flex items-center justify-center">
+            <Loader2 className="w-8 h-8 animate-spin text-blue-500" />
+          </div>
+        )}
+      </div>
+      <div className="flex items-center justify-between mt-2">
+        <p className="text-xs text-gray-400">
+          Click the map to add corners · {value.length} corners
+        </p>
+        <div className="flex gap-1">
+          <button
+            type="button"
+            onClick={() => onChange(value.slice(0, -1))}
+            disabled={value.length === 0}
+            className="min-h-[36px] px-2 flex items-center gap-1 rounded-lg text-xs text-gray-600 hover:bg-gray-100 disabled:opacity-40"
+          >
+            <Undo2 className="w-3.5 h-3.5" />
+            Undo
+          </button>
+          <button
+            type="button"
+            onClick={() => onChange([])}
+            disabled={value.length === 0}
+            className="min-h-[36px] px-2 flex items-center gap-1 rounded-lg text-xs text-red-600 hover:bg-red-50 disabled:opacity-40"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+            Clear
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -4,14 +4,16 @@
 // JalSeva - Supplier Hook (in-memory demo store)
 // =============================================================================
 // Polls /api/supplier/dashboard every 5 s for the supplier profile, pending
-// queue, active order, and today's earnings. No Firestore client subscriptions
-// — the demo runs against the singleton in-memory store on the Cloud Run
-// instance, so the supplier dashboard works without Firebase Auth.
+// queue, active order, today's earnings and the fleet rollup. No Firestore
+// client subscriptions — the demo runs against the singleton in-memory store
+// on the Cloud Run instance, so the supplier dashboard works without Firebase
+// Auth.
 // =============================================================================
 
 import { useEffect, useCallback } from 'react';
 import { useAuthStore } from '@/store/authStore';
 import { useSupplierStore } from '@/store/supplierStore';
+import type { FleetRollup } from '@/lib/fleet';
 import type { Supplier, Order } from '@/types';
 
 interface DashboardResponse {
@@ -20,6 +22,8 @@ interface DashboardResponse {
   pendingOrders: Order[];
   activeOrder: Order | null;
   todayEarnings: number;
+  driver?: { id: string; vehicleId: string | null };
+  fleet?: FleetRollup;
 }
 
 const POLL_INTERVAL_MS = 5000;
@@ -32,11 +36,14 @@ export function useSupplier() {
     pendingOrders,
     activeOrder,
     todayEarnings,
+    fleet,
+    driver,
     setSupplier,
     setOnline,
     setPendingOrders,
     setActiveOrder,
     setTodayEarnings,
+    setFleet,
     removePendingOrder,
   } = useSupplierStore();
 
@@ -50,6 +57,7 @@ export function useSupplier() {
       setPendingOrders([]);
       setActiveOrder(null);
       setTodayEarnings(0);
+      setFleet(null);
       return;
     }
 
@@ -70,6 +78,7 @@ export function useSupplier() {
         setPendingOrders(data.pendingOrders || []);
         setActiveOrder(data.activeOrder || null);
         setTodayEarnings(data.todayEarnings || 0);
+        setFleet(data.fleet ?? null, data.driver ?? null);
       } catch {
         // Network blip — keep last good state, retry on next tick.
       }
@@ -90,6 +99,7 @@ export function useSupplier() {
     setPendingOrders,
     setActiveOrder,
     setTodayEarnings,
+    setFleet,
   ]);
 
   // --------------------------------------------------------------------------
@@ -109,7 +119,11 @@ export function useSupplier() {
           online: next,
         }),
       });
-      if (!res.ok) throw new Error('toggle_failed');
+      if (!res.ok) {
+        // 403 until the supplier's KYC documents are verified
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || 'toggle_failed');
+      }
       setOnline(next);
     } catch (err) {
       console.error('[useSupplier] Error toggling online status:', err);
@@ -117,6 +131,39 @@ export function useSupplier() {
     }
   }, [user, isOnline, setOnline]);
 
+  // --------------------------------------------------------------------------
+  // Toggle one fleet vehicle online / offline (fleet owners)
+  // --------------------------------------------------------------------------
+
+  const toggleVehicle = useCallback(
+    async (vehicleId: string, online: boolean) => {
+      if (!user) return;
+      const res = await fetch('/api/supplier/dashboard', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          action: 'toggleOnline',
+          supplierId: user.id,
+          vehicleId,
+          online,
+        }),
+      });
+      if (!res.ok) {
+        // 409 while the vehicle has no driver
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || 'toggle_failed');
+      }
+      if (fleet) {
+        const vehicles = fleet.vehicles.map((v) =>
+          v.vehicleId === vehicleId ? { ...v, isOnline: online } : v,
+        );
+        setFleet({ ...fleet, vehicles }, driver);
+        setOnline(vehicles.some((v) => v.isOnline));
+      }
+    },
+    [user, fleet, driver, setFleet, setOnline],
+  );
+
   // --------------------------------------------------------------------------
   // Accept an order — moves it from pending queue to active
   // --------------------------------------------------------------------------
@@ -134,7 +181,11 @@ export function useSupplier() {
             orderId,
           }),
         });
-        if (!res.ok) throw new Error('accept_failed');
+        if (!res.ok) {
+          // 409 when no fleet vehicle can carry the order
+          const data = await res.json().catch(() => ({}));
+          throw new Error(data.error || 'accept_failed');
+        }
         const data: { order: Order } = await res.json();
         removePendingOrder(orderId);
         setActiveOrder(data.order);
@@ -179,6 +230,9 @@ export function useSupplier() {
     pendingOrders,
     activeOrder,
     todayEarnings,
+    fleet,
+    driver,
+    toggleVehicle,
     acceptOrder,
     rejectOrder,
   };
@@ -0,0 +1,20 @@
+// =============================================================================
+// JalSeva - Server Startup
+// =============================================================================
+// Next.js calls register() once when each server process starts. Background
+// jobs that must run without a request to trigger them are started here.
+// =============================================================================
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  if (process.env.SUBSCRIPTION_SCHEDULER !== 'off') {
+    const { startSubscriptionScheduler } = await import('@/lib/subscriptions/server');
+    startSubscriptionScheduler();
+  }
+
+  if (process.env.DEMAND_MONITOR !== 'off') {
+    const { startDemandMonitor } = await import('@/lib/demand/server');
+    startDemandMonitor();
+  }
+}
@@ -0,0 +1,33 @@
+// =============================================================================
+// Test: Request Identity — Session Cookie and Admin Role From the User Record
+// Covers: Test plan item #7 (order status state machine: admin overrides)
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import { isAdmin, loadUserRole, sessionUserId } from '../auth/server';
+import * as store from '../demo-store';
+
+function withCookie(value?: string) {
+  return {
+    cookies: {
+      get: (name: string) => (name === 'jalseva_auth' && value ? { name, value } : undefined),
+    },
+  } as unknown as Parameters<typeof sessionUserId>[0];
+}
+
+describe('sessionUserId', () => {
+  it('reads the uid from the session cookie', () => {
+    expect(sessionUserId(withCookie('sim_9999900001'))).toBe('sim_9999900001');
+    expect(sessionUserId(withCookie())).toBeNull();
+  });
+});
+
+describe('isAdmin (demo store)', () => {
+  it('trusts only the role on the user record', async () => {
+    expect(await loadUserRole(store.DEMO_IDS.customer)).toBe('customer');
+    expect(await isAdmin(store.DEMO_IDS.admin)).toBe(true);
+    expect(await isAdmin(store.DEMO_IDS.customer)).toBe(false);
+    expect(await isAdmin('usr_unknown')).toBe(false);
+    expect(await isAdmin(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,130 @@
+// =============================================================================
+// Test: Cancellation Policy — Fees, Compensation, Reasons, Refunds
+// Covers: Test plan item #6 (order flow: cancellation and refund)
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_CANCELLATION_POLICY,
+  getReasonLabel,
+  quoteCancellation,
+  resolveCancellationPolicy,
+} from '../cancellation';
+import { processCancellation } from '../cancellation/server';
+import * as store from '../demo-store';
+import type { Order, OrderStatus, PaymentInfo } from '@/types';
+
+function makeOrder(
+  status: OrderStatus,
+  payment: Partial<PaymentInfo> = {},
+  overrides: Partial<Order> = {}
+): Order {
+  return {
+    id: `ord_cancel_${Math.random().toString(36).slice(2, 8)}`,
+    customerId: 'cust_1',
+    supplierId: status === 'searching' ? undefined : 'sup_1',
+    waterType: 'ro',
+    quantityLitres: 200,
+    price: { base: 300, distance: 100, surge: 0, total: 400, commission: 60, supplierEarning: 340 },
+    status,
+    deliveryLocation: { lat: 28.61, lng: 77.2 },
+    payment: { method: 'upi', status: 'paid', amount: 400, razorpayPaymentId: 'pay_sim_1', ...payment },
+    createdAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe('quoteCancellation', () => {
+  it('is free for customers before the tanker leaves', () => {
+    for (const status of ['searching', 'accepted'] as const) {
+      const quote = quoteCancellation(makeOrder(status), 'customer');
+      expect(quote).toEqual({ fee: 0, supplierCompensation: 0, refundAmount: 400 });
+    }
+  });
+
+  it('charges a flat + percentage fee once en route and compensates the supplier', () => {
+    // 50 + 10% of 400
+    const quote = quoteCancellation(makeOrder('en_route'), 'customer');
+    expect(quote.fee).toBe(90);
+    expect(quote.supplierCompensation).toBe(72); // 80% of the fee
+    expect(quote.refundAmount).toBe(310);
+  });
+
+  it('never charges for supplier or system cancellations', () => {
+    expect(quoteCancellation(makeOrder('arriving'), 'supplier').fee).toBe(0);
+    expect(quoteCancellation(makeOrder('arriving'), 'system').refundAmount).toBe(400);
+  });
+
+  it('refunds nothing for unpaid or cash orders', () => {
+    expect(
+      quoteCancellation(makeOrder('en_route', { status: 'pending' }), 'customer').refundAmount
+    ).toBe(0);
+    expect(
+      quoteCancellation(makeOrder('accepted', { method: 'cash' }), 'customer').refundAmount
+    ).toBe(0);
+  });
+
+  it('caps the fee at the order total', () => {
+    const policy = resolveCancellationPolicy({
+      customerFees: { arriving: { flat: 1000, percent: 0 } },
+    });
+    expect(quoteCancellation(makeOrder('arriving'), 'customer', policy).fee).toBe(400);
+  });
+});
+
+describe('resolveCancellationPolicy', () => {
+  it('merges a partial stored policy over the defaults', () => {
+    const policy = resolveCancellationPolicy({ supplierCompensationPercent: 50 });
+    expect(policy.customerFees).toEqual(DEFAULT_CANCELLATION_POLICY.customerFees);
+    expect(policy.supplierCompensationPercent).toBe(50);
+  });
+});
+
+describe('getReasonLabel', () => {
+  it('only accepts reasons valid for the actor', () => {
+    expect(getReasonLabel('system', 'no_supplier')).toBe('No supplier available');
+    expect(getReasonLabel('customer', 'no_supplier')).toBeNull();
+  });
+});
+
+describe('processCancellation (demo store)', () => {
+  it('records the settlement and refunds a prepaid order less the fee', async () => {
+    const order = makeOrder('en_route');
+    store.upsertOrder(order);
+
+    const result = await processCancellation(order.id, {
+      by: 'customer',
+      actorId: 'cust_1',
+      reasonCode: 'delivery_delayed',
+    });
+
+    expect(result.success).toBe(true);
+    const stored = store.getOrder(order.id)!;
+    expect(stored.status).toBe('cancelled');
+    expect(stored.cancellationReason).toBe('Delivery is taking too long');
+    expect(stored.cancellation).toMatchObject({
+      by: 'customer',
+      reasonCode: 'delivery_delayed',
+      statusAtCancel: 'en_route',
+      fee: 90,
+      refundAmount: 310,
+    });
+    // The fee is kept, so the payment is only partially refunded
+    expect(stored.payment.status).toBe('partially_refunded');
+    expect(stored.payment.refundedAmount).toBe(310);
+    expect(stored.payment.refundId).toMatch(/^rfnd_sim_/);
+    expect(stored.cancellation?.refundId).toBe(stored.payment.refundId);
+    expect(stored.payment.refunds).toMatchObject([
+      { amount: 310, status: 'processed', reason: 'cancellation', initiatedBy: 'cust_1' },
+    ]);
+  });
+
+  it('rejects a reason that does not belong to the actor', async () => {
+    const order = makeOrder('accepted');
+    store.upsertOrder(order);
+
+    const result = await processCancellation(order.id, { by: 'supplier', reasonCode: 'changed_mind' });
+    expect(result).toMatchObject({ success: false, status: 400 });
+    expect(store.getOrder(order.id)!.status).toBe('accepted');
+  });
+});
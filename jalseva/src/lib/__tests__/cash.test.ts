@@ -0,0 +1,136 @@
+// =============================================================================
+// Test: Cash Collection — Confirmation, Remittance, Limits, Blocking
+// Covers: Test plan item #8 (supplier earnings and payouts: cash orders)
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_CASH_LIMIT,
+  isOverCashLimit,
+  needsCashCollection,
+  planCashCollection,
+  resolveCashLimit,
+} from '../cash';
+import {
+  isCashBlocked,
+  listCashPositions,
+  recordCashRemittance,
+  setCashBlocked,
+} from '../cash/server';
+import { cashOffsetTransaction, computeBalance, deliveryTransactions, isBalanced } from '../ledger';
+import { recordDeliveryEarnings } from '../ledger/server';
+import * as store from '../demo-store';
+import type { Order, PaymentInfo } from '@/types';
+
+const NOW = new Date('2026-10-19T10:00:00.000Z');
+
+function makeOrder(supplierId: string, payment: Partial<PaymentInfo> = {}): Order {
+  return {
+    id: `ord_cash_${Math.random().toString(36).slice(2, 8)}`,
+    customerId: 'cust_1',
+    supplierId,
+    waterType: 'tanker',
+    quantityLitres: 5000,
+    price: { base: 900, distance: 100, surge: 0, total: 1000, commission: 150, supplierEarning: 850 },
+    status: 'delivered',
+    deliveryLocation: { lat: 28.61, lng: 77.2 },
+    payment: { method: 'cash', status: 'pending', amount: 1000, ...payment },
+    createdAt: NOW,
+    deliveredAt: NOW,
+  };
+}
+
+function makeSupplier(): string {
+  const seeded = store.getSupplier(store.DEMO_IDS.supplier)!;
+  const id = `sup_cash_${Math.random().toString(36).slice(2, 8)}`;
+  store.upsertSupplier({ ...seeded, id, userId: id, cashBlocked: false });
+  return id;
+}
+
+describe('cash collection at the door', () => {
+  it('requires the full amount on cash orders only', () => {
+    const order = makeOrder('sup_1');
+    expect(needsCashCollection(order)).toBe(true);
+    expect(needsCashCollection(makeOrder('sup_1', { method: 'upi' }))).toBe(false);
+
+    expect(planCashCollection(order, undefined, 'sup_1')).toHaveProperty('error');
+    expect(planCashCollection(order, 900, 'sup_1')).toHaveProperty('error');
+    expect(planCashCollection(order, 1000, 'sup_1', NOW)).toMatchObject({
+      patch: {
+        'payment.status': 'paid',
+        'payment.paidAt': NOW,
+        'payment.cashCollection': { amount: 1000, collectedAt: NOW, collectedBy: 'sup_1' },
+      },
+    });
+  });
+
+  it('is not needed again once recorded', () => {
+    const order = makeOrder('sup_1', {
+      cashCollection: { amount: 1000, collectedAt: NOW, collectedBy: 'sup_1' },
+    });
+    expect(needsCashCollection(order)).toBe(false);
+  });
+});
+
+describe('cash limits and offsets', () => {
+  it('falls back to the default limit and flags balances above it', () => {
+    expect(resolveCashLimit(undefined)).toBe(DEFAULT_CASH_LIMIT);
+    expect(resolveCashLimit(500)).toBe(500);
+    expect(isOverCashLimit(500, 500)).toBe(false);
+    expect(isOverCashLimit(500.01, 500)).toBe(true);
+  });
+
+  it('nets only as much cash due as the available balance covers', () => {
+    const cash = deliveryTransactions(makeOrder('sup_1'), undefined, NOW);
+    expect(cashOffsetTransaction(cash, NOW)).toBeNull();
+
+    const earning = {
+      ...cash[0],
+      id: 'tx_small_earning',
+      kind: 'delivery_earning' as const,
+      entries: [
+        { account: 'platform_clearing' as const, debit: 100, credit: 0 },
+        { account: 'supplier_available' as const, debit: 0, credit: 100 },
+      ],
+    };
+    const offset = cashOffsetTransaction([...cash, earning], NOW)!;
+    expect(isBalanced(offset)).toBe(true);
+    expect(computeBalance([...cash, earning, offset])).toMatchObject({ available: 0, cashDue: 50 });
+  });
+});
+
+describe('reconciliation (demo store)', () => {
+  it('lists suppliers holding cash and records remittances up to what is owed', async () => {
+    const supplierId = makeSupplier();
+    await recordDeliveryEarnings(makeOrder(supplierId), NOW);
+
+    const { positions } = await listCashPositions();
+    expect(positions.find((p) => p.supplierId === supplierId)).toMatchObject({
+      cashDue: 150,
+      overLimit: false,
+      blocked: false,
+    });
+
+    const tooMuch = await recordCashRemittance(supplierId, 200, { recordedBy: 'admin_1' }, NOW);
+    expect(tooMuch).toMatchObject({ success: false, status: 400 });
+
+    const paid = await recordCashRemittance(supplierId, 150, { recordedBy: 'admin_1' }, NOW);
+    expect(paid).toMatchObject({ success: true, position: { cashDue: 0 } });
+    const after = await listCashPositions();
+    expect(after.positions.some((p) => p.supplierId === supplierId)).toBe(false);
+  });
+
+  it('blocks and unblocks a supplier from cash orders', async () => {
+    const supplierId = makeSupplier();
+    expect(await setCashBlocked(supplierId, true)).toMatchObject({
+      success: true,
+      position: { blocked: true },
+    });
+    expect(await isCashBlocked(supplierId)).toBe(true);
+    expect(store.getSupplier(supplierId)?.cashBlocked).toBe(true);
+
+    await setCashBlocked(supplierId, false);
+    expect(await isCashBlocked(supplierId)).toBe(false);
+    expect(await setCashBlocked('sup_missing', true)).toMatchObject({ success: false, status: 404 });
+  });
+});
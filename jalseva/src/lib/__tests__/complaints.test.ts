@@ -0,0 +1,209 @@
+// =============================================================================
+// Test: Complaints — Filing, SLA Timers, Threaded Replies, Escalation
+// Covers: Test plan item #7 (order status state machine: after delivery)
+// =============================================================================
+
+import { mkdtempSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { beforeAll, describe, it, expect } from 'vitest';
+import { complaintDeadlines, complaintSla, planEscalation } from '../complaints';
+import {
+  addComplaintReply,
+  assignComplaint,
+  complaintViewer,
+  escalateOverdueComplaints,
+  fileComplaint,
+  getComplaint,
+  readComplaintAttachment,
+  setComplaintStatus,
+} from '../complaints/server';
+import * as store from '../demo-store';
+import type { Complaint, Order } from '@/types';
+
+const NOW = new Date('2026-10-19T10:00:00.000Z');
+const HOUR = 3_600_000;
+const JPEG = new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 0, 0x10, 0xff, 0xd9]);
+
+function makeOrder(): Order {
+  return {
+    id: `ord_cmp_${Math.random().toString(36).slice(2, 8)}`,
+    customerId: 'cust_cmp',
+    supplierId: 'sup_cmp',
+    waterType: 'tanker',
+    quantityLitres: 1000,
+    price: { base: 400, distance: 100, surge: 0, total: 500, commission: 75, supplierEarning: 425 },
+    status: 'delivered',
+    deliveryLocation: { lat: 28.61, lng: 77.2, address: 'Test' },
+    payment: { method: 'upi', status: 'paid', amount: 500 },
+    createdAt: NOW,
+  };
+}
+
+async function fileFor(order: Order, category = 'quality'): Promise<Complaint> {
+  const result = await fileComplaint(
+    { orderId: order.id, customerId: order.customerId, category, text: 'Water smelled of diesel' },
+    NOW
+  );
+  if (!result.success) throw new Error(result.error);
+  return result.complaint;
+}
+
+describe('complaint SLA rules', () => {
+  const filed = {
+    status: 'open' as const,
+    ...complaintDeadlines('quality', NOW),
+  };
+
+  it('sets deadlines from the category', () => {
+    expect(filed.responseDueAt).toEqual(new Date(NOW.getTime() + 2 * HOUR));
+    expect(filed.resolutionDueAt).toEqual(new Date(NOW.getTime() + 24 * HOUR));
+    expect(complaintDeadlines('overcharge', NOW).resolutionDueAt).toEqual(
+      new Date(NOW.getTime() + 72 * HOUR)
+    );
+  });
+
+  it('tracks each timer as on track, due soon, breached or met', () => {
+    expect(complaintSla(filed, NOW)).toMatchObject({ response: 'on_track', resolution: 'on_track' });
+    expect(complaintSla(filed, new Date(NOW.getTime() + 100 * 60_000)).response).toBe('due_soon');
+    expect(complaintSla(filed, new Date(NOW.getTime() + 3 * HOUR)).response).toBe('breached');
+
+    const answered = { ...filed, firstRespondedAt: new Date(NOW.getTime() + HOUR) };
+    expect(complaintSla(answered, new Date(NOW.getTime() + 3 * HOUR))).toMatchObject({
+      response: 'met',
+      nextDueAt: filed.resolutionDueAt,
+    });
+  });
+
+  it('plans one escalation per level', () => {
+    const complaint = { ...filed, id: 'CMP-1', replies: [], escalationLevel: 0 };
+    expect(planEscalation(complaint, NOW)).toBeNull();
+    expect(planEscalation(complaint, new Date(NOW.getTime() + 3 * HOUR))?.level).toBe(1);
+    expect(
+      planEscalation({ ...complaint, escalationLevel: 1 }, new Date(NOW.getTime() + 3 * HOUR))
+    ).toBeNull();
+    expect(
+      planEscalation({ ...complaint, escalationLevel: 1 }, new Date(NOW.getTime() + 25 * HOUR))
+    ).toMatchObject({ level: 2, note: { authorRole: 'system', internal: true } });
+  });
+});
+
+describe('complaints (demo store, local disk)', () => {
+  beforeAll(() => {
+    process.env.PRIVATE_FILES_DIR = mkdtempSync(join(tmpdir(), 'jalseva-complaint-test-'));
+  });
+
+  it('files a complaint on the customer’s own order with photos', async () => {
+    const order = makeOrder();
+    store.upsertOrder(order);
+    const input = { orderId: order.id, customerId: order.customerId, category: 'short_volume', text: ' Only half ' };
+
+    expect(await fileComplaint({ ...input, customerId: 'cust_other' }, NOW)).toMatchObject({ status: 403 });
+    expect(await fileComplaint({ ...input, category: 'other' }, NOW)).toMatchObject({ status: 400 });
+    expect(
+      await fileComplaint({ ...input, attachments: [new TextEncoder().encode('<svg/>')] }, NOW)
+    ).toMatchObject({ status: 415 });
+
+    const result = await fileComplaint({ ...input, attachments: [JPEG] }, NOW);
+    expect(result).toMatchObject({
+      success: true,
+      complaint: {
+        orderId: order.id,
+        supplierId: 'sup_cmp',
+        text: 'Only half',
+        status: 'open',
+        escalationLevel: 0,
+        attachments: [{ contentType: 'image/jpeg', sizeBytes: JPEG.length }],
+      },
+    });
+    expect(await fileComplaint(input, NOW)).toMatchObject({ status: 409 });
+
+    const id = result.success ? result.complaint.id : '';
+    const file = await readComplaintAttachment(id, 0, { id: order.customerId, role: 'customer' });
+    expect(file.success && Array.from(file.bytes)).toEqual(Array.from(JPEG));
+    expect(await readComplaintAttachment(id, 0, { id: 'cust_other', role: 'customer' })).toMatchObject({
+      status: 403,
+    });
+  });
+
+  it('threads replies and hides internal notes from the customer', async () => {
+    const order = makeOrder();
+    store.upsertOrder(order);
+    const complaint = await fileFor(order);
+    const admin = { id: 'admin_cmp', role: 'admin' as const };
+    const customer = { id: order.customerId, role: 'customer' as const };
+
+    await addComplaintReply(complaint.id, admin, 'Check supplier tank logs', { internal: true }, NOW);
+    expect(store.getComplaint(complaint.id)).toMatchObject({ status: 'open' });
+    expect(store.getComplaint(complaint.id)?.firstRespondedAt).toBeUndefined();
+
+    const later = new Date(NOW.getTime() + HOUR);
+    const replied = await addComplaintReply(complaint.id, admin, 'Sorry, we are checking.', {}, later);
+    expect(replied).toMatchObject({
+      success: true,
+      complaint: { status: 'in_progress', firstRespondedAt: later, assignedTo: 'admin_cmp' },
+    });
+
+    await addComplaintReply(complaint.id, customer, 'Thanks', {}, later);
+    const seen = await getComplaint(complaint.id, customer);
+    expect(seen.success && seen.complaint.replies.map((r) => r.text)).toEqual([
+      'Sorry, we are checking.',
+      'Thanks',
+    ]);
+    expect(seen.success && seen.complaint.assignedTo).toBeUndefined();
+    expect(await getComplaint(complaint.id, { id: 'cust_other', role: 'customer' })).toMatchObject({
+      status: 403,
+    });
+  });
+
+  it('assigns, resolves and closes the thread to the customer', async () => {
+    const order = makeOrder();
+    store.upsertOrder(order);
+    const complaint = await fileFor(order, 'overcharge');
+
+    // Only a user whose record makes them an admin can handle it
+    expect(await complaintViewer(order.customerId)).toEqual({ id: order.customerId, role: 'customer' });
+    expect(await assignComplaint(complaint.id, order.customerId, order.customerId, NOW)).toMatchObject({
+      status: 403,
+    });
+    expect(await setComplaintStatus(complaint.id, order.customerId, 'resolved', undefined, NOW)).toMatchObject({
+      status: 403,
+    });
+
+    const admin = store.DEMO_IDS.admin;
+    expect(await assignComplaint(complaint.id, admin, 'admin_2', NOW)).toMatchObject({
+      complaint: { assignedTo: 'admin_2' },
+    });
+    const resolved = await setComplaintStatus(complaint.id, admin, 'resolved', 'Refunded ₹50', NOW);
+    expect(resolved).toMatchObject({ complaint: { status: 'resolved', resolvedAt: NOW } });
+    expect(resolved.success && resolved.complaint.replies.at(-1)).toMatchObject({
+      text: 'Refunded ₹50',
+      authorRole: 'admin',
+    });
+
+    expect(
+      await addComplaintReply(complaint.id, { id: order.customerId, role: 'customer' }, 'Still wrong', {}, NOW)
+    ).toMatchObject({ status: 409 });
+  });
+
+  it('escalates overdue complaints once per level', async () => {
+    const order = makeOrder();
+    store.upsertOrder(order);
+    const complaint = await fileFor(order, 'late');
+
+    const afterResponse = new Date(NOW.getTime() + 5 * HOUR);
+    const first = await escalateOverdueComplaints(afterResponse);
+    expect(first).toContainEqual({ complaintId: complaint.id, level: 1 });
+    expect(await escalateOverdueComplaints(afterResponse)).not.toContainEqual(
+      expect.objectContaining({ complaintId: complaint.id })
+    );
+
+    const afterResolution = new Date(NOW.getTime() + 49 * HOUR);
+    expect(await escalateOverdueComplaints(afterResolution)).toContainEqual({
+      complaintId: complaint.id,
+      level: 2,
+    });
+    const stored = store.getComplaint(complaint.id);
+    expect(stored?.replies.filter((r) => r.authorRole === 'system')).toHaveLength(2);
+  });
+});
@@ -0,0 +1,158 @@
+// =============================================================================
+// Test: Delivery Legs — Capacity Split, Per-Trip OTP and Volume, Parent Status
+// Covers: Test plan item #7 (order status state machine: multi-trip delivery)
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import {
+  MAX_DELIVERY_LEGS,
+  canDeliverInTrips,
+  planDeliveryLegs,
+  planLegTransition,
+} from '../delivery-legs';
+import { advanceDeliveryLeg } from '../delivery-legs/server';
+import { getCustomerOtp, verifyDeliveryOtp } from '../delivery-otp/server';
+import { recordDeliveredVolume, respondToVolume } from '../delivery-volume/server';
+import { transitionStoreOrder } from '../order-lifecycle';
+import * as store from '../demo-store';
+import type { Order } from '@/types';
+
+const NOW = new Date('2026-10-19T10:00:00.000Z');
+
+function makeSupplier(capacity: number): string {
+  const seeded = store.getSupplier(store.DEMO_IDS.supplier)!;
+  const id = `sup_legs_${Math.random().toString(36).slice(2, 8)}`;
+  store.upsertSupplier({
+    ...seeded,
+    id,
+    userId: id,
+    verificationStatus: 'verified',
+    vehicle: { type: 'Tanker', capacity, number: 'DL 01 AB 1234' },
+    fleet: undefined,
+    drivers: undefined,
+  });
+  return id;
+}
+
+function makeOrder(quantityLitres: number): Order {
+  return {
+    id: `ord_legs_${Math.random().toString(36).slice(2, 8)}`,
+    customerId: 'cust_legs',
+    waterType: 'tanker',
+    quantityLitres,
+    price: { base: 2000, distance: 400, surge: 0, total: 2400, commission: 360, supplierEarning: 2040 },
+    status: 'searching',
+    deliveryLocation: { lat: 28.61, lng: 77.2, address: 'Test' },
+    payment: { method: 'cash', status: 'pending', amount: 2400 },
+    createdAt: NOW,
+  };
+}
+
+describe('planDeliveryLegs', () => {
+  it('balances the litres across the fewest trips', () => {
+    const legs = planDeliveryLegs(20000, 6000)!;
+    expect(Object.values(legs).map((leg) => leg.litres)).toEqual([5000, 5000, 5000, 5000]);
+    expect(legs.leg1).toMatchObject({ index: 1, status: 'pending' });
+
+    expect(Object.values(planDeliveryLegs(10001, 5000)!).map((leg) => leg.litres)).toEqual([
+      3334, 3334, 3333,
+    ]);
+    expect(planDeliveryLegs(5000, 5000)).toBeNull();
+  });
+
+  it('caps an order at MAX_DELIVERY_LEGS trips', () => {
+    expect(canDeliverInTrips(20000, 5000)).toBe(true);
+    expect(canDeliverInTrips(20000, 4000)).toBe(false);
+    expect(planDeliveryLegs(5000 * (MAX_DELIVERY_LEGS + 1), 5000)).toBeNull();
+  });
+
+  it('lets only an admin with a reason deliver a trip without its OTP', () => {
+    const order = {
+      status: 'en_route' as const,
+      legs: planDeliveryLegs(10000, 5000)!,
+    };
+    order.legs.leg1.status = 'arriving';
+    const supplier = { id: 'sup_1', role: 'supplier' as const };
+    const admin = { id: 'adm_1', role: 'admin' as const };
+
+    expect(planLegTransition(order, 'delivered', { actor: supplier }, NOW)).toMatchObject({ status: 409 });
+    expect(planLegTransition(order, 'delivered', { actor: supplier, otpOverride: true, reason: 'x' }, NOW))
+      .toMatchObject({ status: 403 });
+    const plan = planLegTransition(order, 'delivered', { actor: admin, otpOverride: true, reason: 'Phone dead' }, NOW);
+    expect(plan).toMatchObject({ success: true, patch: { 'legs.leg1.status': 'delivered' } });
+    expect(plan.success && plan.parentTo).toBeUndefined();
+  });
+});
+
+describe('multi-trip delivery (demo store)', () => {
+  it('splits on acceptance and delivers the order with its last trip', async () => {
+    const supplierId = makeSupplier(5000);
+    const actor = { id: supplierId, role: 'supplier' as const };
+    const order = makeOrder(12000);
+    store.upsertOrder(order);
+
+    transitionStoreOrder(order.id, 'accepted', { actor, patch: { supplierId } });
+    expect(Object.values(store.getOrder(order.id)!.legs!).map((leg) => leg.litres)).toEqual([
+      4000, 4000, 4000,
+    ]);
+
+    // Trip 1: the order goes en_route with it, and stays en_route after it
+    expect((await advanceDeliveryLeg(order.id, 'en_route', { actor }, NOW)).success).toBe(true);
+    expect(store.getOrder(order.id)?.status).toBe('en_route');
+    await advanceDeliveryLeg(order.id, 'arriving', { actor }, NOW);
+    expect(store.getOrder(order.id)?.status).toBe('en_route');
+    expect(await advanceDeliveryLeg(order.id, 'delivered', { actor }, NOW)).toMatchObject({ status: 409 });
+
+    const first = await getCustomerOtp(order.id, order.customerId);
+    expect(first).toMatchObject({ success: true, trip: { legId: 'leg1', index: 1, of: 3 } });
+    await verifyDeliveryOtp(order.id, first.success ? first.code : '', supplierId, NOW);
+    expect(store.getOrder(order.id)?.deliveryVerification?.otpVerifiedAt).toBeUndefined();
+
+    const delivered = await advanceDeliveryLeg(order.id, 'delivered', { actor }, NOW);
+    expect(delivered.success && delivered.event.id).toBe(`${order.id}_leg1_delivered`);
+    expect(store.getOrder(order.id)).toMatchObject({ status: 'en_route', legs: { leg1: { status: 'delivered' } } });
+    expect(store.getDeliveryOtp(order.id, 'leg2')).not.toBeNull();
+    expect(transitionStoreOrder(order.id, 'delivered', { actor })).toMatchObject({ status: 409 });
+
+    // Trip 2 comes up short; the customer disputes that trip alone
+    await advanceDeliveryLeg(order.id, 'en_route', { actor }, NOW);
+    await advanceDeliveryLeg(order.id, 'arriving', { actor }, NOW);
+    const short = await recordDeliveredVolume(order.id, supplierId, { litres: 3000 }, NOW);
+    expect(short.success && short.volume.litres).toBe(3000);
+    expect(store.getOrder(order.id)?.deliveryVerification?.volumeConfirmed).toBe(11000);
+    expect(store.getOrder(order.id)?.payment.amount).toBe(2200);
+    expect((await respondToVolume(order.id, order.customerId, 'disputed', { litres: 2500 }, NOW)).success)
+      .toBe(true);
+    expect(store.getOrder(order.id)?.legs?.leg2.volume?.customerResponse?.litres).toBe(2500);
+
+    const second = await getCustomerOtp(order.id, order.customerId);
+    await verifyDeliveryOtp(order.id, second.success ? second.code : '', supplierId, NOW);
+    await advanceDeliveryLeg(order.id, 'delivered', { actor }, NOW);
+
+    // Trip 3: its OTP verifies the order, and delivering it with the cash
+    // delivers the order
+    await advanceDeliveryLeg(order.id, 'en_route', { actor }, NOW);
+    const third = await getCustomerOtp(order.id, order.customerId);
+    expect(third).toMatchObject({ trip: { index: 3, of: 3 } });
+    await verifyDeliveryOtp(order.id, third.success ? third.code : '', supplierId, NOW);
+    expect(await advanceDeliveryLeg(order.id, 'delivered', { actor }, NOW)).toMatchObject({ status: 400 });
+    const last = await advanceDeliveryLeg(order.id, 'delivered', { actor, cashCollected: 2200 }, NOW);
+    expect(last.success && last.order).toMatchObject({
+      status: 'delivered',
+      payment: { status: 'paid', cashCollection: { amount: 2200 } },
+      deliveryVerification: { otpVerifiedAt: NOW },
+    });
+    expect(await advanceDeliveryLeg(order.id, 'en_route', { actor }, NOW)).toMatchObject({ status: 409 });
+  });
+
+  it('leaves orders that fit the vehicle as a single trip', () => {
+    const supplierId = makeSupplier(10000);
+    const order = makeOrder(8000);
+    store.upsertOrder(order);
+    transitionStoreOrder(order.id, 'accepted', {
+      actor: { id: supplierId, role: 'supplier' },
+      patch: { supplierId },
+    });
+    expect(store.getOrder(order.id)?.legs).toBeUndefined();
+  });
+});
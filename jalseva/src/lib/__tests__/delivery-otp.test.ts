@@ -0,0 +1,132 @@
+// =============================================================================
+// Test: Delivery OTP — Issue on Accept, Customer-Only View, Attempts, Lockout
+// Covers: Test plan item #7 (order status state machine: delivery proof)
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import {
+  MAX_OTP_ATTEMPTS,
+  OTP_LENGTH,
+  OTP_LOCKOUT_MINUTES,
+  checkOtp,
+  createDeliveryOtp,
+  generateOtpCode,
+} from '../delivery-otp';
+import { getCustomerOtp, verifyDeliveryOtp } from '../delivery-otp/server';
+import { transitionStoreOrder } from '../order-lifecycle';
+import * as store from '../demo-store';
+import type { Order } from '@/types';
+
+const NOW = new Date('2026-10-19T10:00:00.000Z');
+const SUPPLIER = { id: 'sup_otp', role: 'supplier' as const };
+
+function makeOrder(): Order {
+  return {
+    id: `ord_otp_${Math.random().toString(36).slice(2, 8)}`,
+    customerId: 'cust_otp',
+    waterType: 'ro',
+    quantityLitres: 20,
+    price: { base: 150, distance: 75, surge: 0, total: 225, commission: 34, supplierEarning: 191 },
+    status: 'searching',
+    deliveryLocation: { lat: 28.61, lng: 77.2, address: 'Test' },
+    payment: { method: 'upi', status: 'pending', amount: 225 },
+    createdAt: NOW,
+  };
+}
+
+function wrongCode(code: string): string {
+  return code === '0000' ? '1111' : '0000';
+}
+
+describe('checkOtp', () => {
+  const otp = createDeliveryOtp({ id: 'ord_1', customerId: 'cust_1' }, NOW, '4821');
+
+  it('generates numeric codes of the configured length', () => {
+    expect(generateOtpCode()).toMatch(new RegExp(`^\\d{${OTP_LENGTH}}$`));
+  });
+
+  it('verifies the right code and counts wrong ones', () => {
+    expect(checkOtp(otp, '4821', NOW)).toMatchObject({
+      outcome: 'verified',
+      otp: { verifiedAt: NOW },
+    });
+    expect(checkOtp(otp, '1234', NOW)).toMatchObject({
+      outcome: 'invalid',
+      attemptsLeft: MAX_OTP_ATTEMPTS - 1,
+      otp: { attempts: 1 },
+    });
+  });
+
+  it('locks after the last attempt and unlocks once the lockout passes', () => {
+    const last = checkOtp({ ...otp, attempts: MAX_OTP_ATTEMPTS - 1 }, '1234', NOW);
+    expect(last.outcome).toBe('locked');
+    const lockedUntil = new Date(NOW.getTime() + OTP_LOCKOUT_MINUTES * 60_000);
+    expect(last.outcome === 'locked' && last.lockedUntil).toEqual(lockedUntil);
+
+    // Even the right code is refused while locked
+    expect(checkOtp(last.otp, '4821', NOW).outcome).toBe('locked');
+    expect(checkOtp(last.otp, '4821', lockedUntil)).toMatchObject({
+      outcome: 'verified',
+      otp: { attempts: 0 },
+    });
+  });
+});
+
+describe('delivery OTP flow (demo store)', () => {
+  it('is issued on acceptance and shown only to the customer', async () => {
+    const order = makeOrder();
+    store.upsertOrder(order);
+    expect(await getCustomerOtp(order.id, order.customerId)).toMatchObject({ status: 409 });
+
+    transitionStoreOrder(order.id, 'accepted', { actor: SUPPLIER, patch: { supplierId: SUPPLIER.id } });
+    expect(store.getDeliveryOtp(order.id)?.code).toMatch(/^\d{4}$/);
+
+    expect(await getCustomerOtp(order.id, 'someone_else')).toMatchObject({ status: 403 });
+    expect(await getCustomerOtp(order.id, order.customerId)).toMatchObject({
+      success: true,
+      code: store.getDeliveryOtp(order.id)?.code,
+      verified: false,
+    });
+  });
+
+  it('gates delivery on the supplier entering the code', async () => {
+    const order = makeOrder();
+    store.upsertOrder(order);
+    transitionStoreOrder(order.id, 'accepted', { actor: SUPPLIER, patch: { supplierId: SUPPLIER.id } });
+    transitionStoreOrder(order.id, 'en_route', { actor: SUPPLIER });
+    const code = store.getDeliveryOtp(order.id)!.code;
+
+    expect(transitionStoreOrder(order.id, 'delivered', { actor: SUPPLIER })).toMatchObject({
+      success: false,
+      status: 409,
+    });
+    expect(await verifyDeliveryOtp(order.id, code, 'sup_other', NOW)).toMatchObject({ status: 403 });
+    expect(await verifyDeliveryOtp(order.id, wrongCode(code), SUPPLIER.id, NOW)).toMatchObject({
+      success: false,
+      status: 400,
+      attemptsLeft: MAX_OTP_ATTEMPTS - 1,
+    });
+
+    expect(await verifyDeliveryOtp(order.id, code, SUPPLIER.id, NOW)).toEqual({
+      success: true,
+      verifiedAt: NOW,
+    });
+    expect(store.getOrder(order.id)?.deliveryVerification?.otpVerifiedAt).toEqual(NOW);
+    expect(transitionStoreOrder(order.id, 'delivered', { actor: SUPPLIER }).success).toBe(true);
+  });
+
+  it('locks out after repeated wrong codes', async () => {
+    const order = makeOrder();
+    store.upsertOrder(order);
+    transitionStoreOrder(order.id, 'accepted', { actor: SUPPLIER, patch: { supplierId: SUPPLIER.id } });
+    const code = store.getDeliveryOtp(order.id)!.code;
+
+    for (let i = 0; i < MAX_OTP_ATTEMPTS - 1; i++) {
+      await verifyDeliveryOtp(order.id, wrongCode(code), SUPPLIER.id, NOW);
+    }
+    const locked = await verifyDeliveryOtp(order.id, wrongCode(code), SUPPLIER.id, NOW);
+    expect(locked).toMatchObject({ success: false, status: 429 });
+    expect(await verifyDeliveryOtp(order.id, code, SUPPLIER.id, NOW)).toMatchObject({ status: 429 });
+    expect(await verifyDeliveryOtp(order.id, '12', SUPPLIER.id, NOW)).toMatchObject({ status: 400 });
+  });
+});
@@ -0,0 +1,274 @@
+// =============================================================================
+// Test: Delivery Photo Proof — EXIF Parsing, Time/Location Checks, Storage
+// Covers: Test plan item #7 (order status state machine: delivery proof)
+// =============================================================================
+
+import { mkdtempSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { beforeAll, describe, it, expect } from 'vitest';
+import {
+  PHOTO_MAX_DISTANCE_METRES,
+  checkPhotoProof,
+  photoCheckIssues,
+  readExif,
+  sniffImageType,
+} from '../delivery-proof';
+import {
+  readDeliveryPhoto,
+  reviewDeliveryPhoto,
+  uploadDeliveryPhoto,
+} from '../delivery-proof/server';
+import * as store from '../demo-store';
+import type { Order } from '@/types';
+
+const NOW = new Date('2026-10-19T10:00:00.000Z');
+const ACCEPTED = new Date('2026-10-19T09:30:00.000Z');
+const DROP = { lat: 28.6139, lng: 77.209, address: 'Connaught Place' };
+
+// ---------------------------------------------------------------------------
+// Builds a JPEG holding only an EXIF segment (little-endian TIFF) with
+// DateTimeOriginal, OffsetTimeOriginal and GPS latitude/longitude.
+// ---------------------------------------------------------------------------
+
+function exifJpeg(opts: { taken?: string; offset?: string; gps?: { lat: number; lng: number } }): Uint8Array {
+  const tiff = new DataView(new ArrayBuffer(256));
+  let end = 8;
+  const ascii = (text: string) => {
+    const at = end;
+    for (let i = 0; i < text.length; i++) tiff.setUint8(at + i, text.charCodeAt(i));
+    tiff.setUint8(at + text.length, 0);
+    end += text.length + 1 + ((text.length + 1) % 2);
+    return { at, count: text.length + 1 };
+  };
+  const dms = (value: number) => {
+    const at = end;
+    const abs = Math.abs(value);
+    const deg = Math.floor(abs);
+    const min = Math.floor((abs - deg) * 60);
+    const sec = Math.round(((abs - deg) * 60 - min) * 60 * 1000);
+    [[deg, 1], [min, 1], [sec, 1000]].forEach(([num, den], i) => {
+      tiff.setUint32(at + i * 8, num, true);
+      tiff.setUint32(at + i * 8 + 4, den, true);
+    });
+    end += 24;
+    return at;
+  };
+  /** Writes an IFD of [tag, type, count, value-or-offset] entries. */
+  const ifd = (entries: [number, number, number, number][]) => {
+    const at = end;
+    tiff.setUint16(at, entries.length, true);
+    entries.forEach(([tag, type, count, value], i) => {
+      const e = at + 2 + i * 12;
+      tiff.setUint16(e, tag, true);
+      tiff.setUint16(e + 2, type, true);
+      tiff.setUint32(e + 4, count, true);
+      if (type === 2 && count <= 4) tiff.setUint8(e + 8, value);
+      else tiff.setUint32(e + 8, value, true);
+    });
+    tiff.setUint32(at + 2 + entries.length * 12, 0, true);
+    end += 2 + entries.length * 12 + 4;
+    return at;
+  };
+
+  tiff.setUint16(0, 0x4949);
+  tiff.setUint16(2, 42, true);
+  tiff.setUint32(4, 8, true);
+
+  // IFD0 first, with pointers patched once the sub-IFDs are written
+  const ifd0 = ifd([
+    [0x8769, 4, 1, 0],
+    [0x8825, 4, 1, 0],
+  ]);
+
+  const exifEntries: [number, number, number, number][] = [];
+  if (opts.taken) {
+    const taken = ascii(opts.taken);
+    exifEntries.push([0x9003, 2, taken.count, taken.at]);
+  }
+  if (opts.offset) {
+    const offset = ascii(opts.offset);
+    exifEntries.push([0x9011, 2, offset.count, offset.at]);
+  }
+  tiff.setUint32(ifd0 + 2 + 8, ifd(exifEntries), true);
+
+  if (opts.gps) {
+    const lat = dms(opts.gps.lat);
+    const lng = dms(opts.gps.lng);
+    const gpsIfd = ifd([
+      [0x0001, 2, 2, (opts.gps.lat < 0 ? 'S' : 'N').charCodeAt(0)],
+      [0x0002, 5, 3, lat],
+      [0x0003, 2, 2, (opts.gps.lng < 0 ? 'W' : 'E').charCodeAt(0)],
+      [0x0004, 5, 3, lng],
+    ]);
+    tiff.setUint32(ifd0 + 2 + 12 + 8, gpsIfd, true);
+  }
+
+  const block = new Uint8Array(tiff.buffer, 0, end);
+  const segmentLength = 2 + 6 + block.length;
+  return new Uint8Array([
+    0xff, 0xd8,
+    0xff, 0xe1, segmentLength >> 8, segmentLength & 0xff,
+    ...Array.from('Exif', (c) => c.charCodeAt(0)), 0, 0,
+    ...block,
+    0xff, 0xd9,
+  ]);
+}
+
+function makeOrder(): Order {
+  return {
+    id: `ord_photo_${Math.random().toString(36).slice(2, 8)}`,
+    customerId: 'cust_photo',
+    supplierId: 'sup_photo',
+    waterType: 'ro',
+    quantityLitres: 20,
+    price: { base: 150, distance: 75, surge: 0, total: 225, commission: 34, supplierEarning: 191 },
+    status: 'arriving',
+    deliveryLocation: DROP,
+    payment: { method: 'upi', status: 'paid', amount: 225 },
+    createdAt: new Date('2026-10-19T09:25:00.000Z'),
+    acceptedAt: ACCEPTED,
+  };
+}
+
+describe('readExif', () => {
+  it('reads the capture time with its offset and the GPS position', () => {
+    const exif = readExif(
+      exifJpeg({ taken: '2026:10:19 15:20:00', offset: '+05:30', gps: { lat: 28.6141, lng: 77.2093 } })
+    );
+    expect(exif.takenAt).toEqual(new Date('2026-10-19T09:50:00.000Z'));
+    expect(exif.gps?.lat).toBeCloseTo(28.6141, 4);
+    expect(exif.gps?.lng).toBeCloseTo(77.2093, 4);
+  });
+
+  it('assumes IST without an offset and handles southern/western refs', () => {
+    const exif = readExif(exifJpeg({ taken: '2026:10:19 15:20:00', gps: { lat: -12.5, lng: -45.25 } }));
+    expect(exif.takenAt).toEqual(new Date('2026-10-19T09:50:00.000Z'));
+    expect(exif.gps).toEqual({ lat: -12.5, lng: -45.25 });
+  });
+
+  it('returns nothing for images without EXIF or malformed files', () => {
+    expect(readExif(new Uint8Array([0xff, 0xd8, 0xff, 0xd9]))).toEqual({});
+    expect(readExif(new Uint8Array([0x89, 0x50, 0x4e, 0x47]))).toEqual({});
+    const truncated = exifJpeg({ taken: '2026:10:19 15:20:00', gps: DROP }).subarray(0, 40);
+    expect(() => readExif(truncated)).not.toThrow();
+  });
+});
+
+describe('sniffImageType', () => {
+  it('trusts magic bytes only', () => {
+    expect(sniffImageType(exifJpeg({}))).toBe('image/jpeg');
+    expect(sniffImageType(new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))).toBe('image/png');
+    const webp = new TextEncoder().encode('RIFF\0\0\0\0WEBPVP8 ');
+    expect(sniffImageType(webp)).toBe('image/webp');
+    expect(sniffImageType(new TextEncoder().encode('<svg></svg>'))).toBeNull();
+  });
+});
+
+describe('checkPhotoProof', () => {
+  const order = { deliveryLocation: DROP, acceptedAt: ACCEPTED, createdAt: ACCEPTED };
+
+  it('passes a photo taken near the drop point after acceptance', () => {
+    const checks = checkPhotoProof(
+      { takenAt: new Date('2026-10-19T09:55:00.000Z'), gps: { lat: 28.6141, lng: 77.2093 } },
+      order,
+      NOW
+    );
+    expect(checks).toMatchObject({ timestampCheck: 'ok', locationCheck: 'ok', review: 'auto_passed' });
+    expect(checks.distanceMetres).toBeLessThan(PHOTO_MAX_DISTANCE_METRES);
+  });
+
+  it('flags old or distant photos for review', () => {
+    const checks = checkPhotoProof(
+      { takenAt: new Date('2026-10-18T09:55:00.000Z'), gps: { lat: 28.7041, lng: 77.1025 } },
+      order,
+      NOW
+    );
+    expect(checks).toMatchObject({
+      timestampCheck: 'mismatch',
+      locationCheck: 'mismatch',
+      review: 'needs_review',
+    });
+    expect(photoCheckIssues(checks)).toHaveLength(2);
+  });
+
+  it('flags photos with no EXIF rather than rejecting them', () => {
+    const checks = checkPhotoProof({}, order, NOW);
+    expect(checks).toMatchObject({ timestampCheck: 'missing', locationCheck: 'missing', review: 'needs_review' });
+    expect(photoCheckIssues(checks)).toEqual(['No capture time in photo', 'No GPS position in photo']);
+  });
+});
+
+describe('delivery photo upload (demo store, local disk)', () => {
+  beforeAll(() => {
+    process.env.PRIVATE_FILES_DIR = mkdtempSync(join(tmpdir(), 'jalseva-proof-test-'));
+  });
+
+  const photo = () =>
+    exifJpeg({ taken: '2026:10:19 15:25:00', offset: '+05:30', gps: { lat: 28.6141, lng: 77.2093 } });
+
+  it('accepts only the assigned supplier and real images', async () => {
+    const order = makeOrder();
+    store.upsertOrder(order);
+
+    expect(await uploadDeliveryPhoto(order.id, 'sup_other', photo(), NOW)).toMatchObject({ status: 403 });
+    expect(
+      await uploadDeliveryPhoto(order.id, 'sup_photo', new TextEncoder().encode('not an image'), NOW)
+    ).toMatchObject({ status: 415 });
+    expect(await uploadDeliveryPhoto(order.id, 'sup_photo', new Uint8Array(), NOW)).toMatchObject({
+      status: 400,
+    });
+
+    store.upsertOrder({ ...order, id: `${order.id}_done`, status: 'delivered' });
+    expect(await uploadDeliveryPhoto(`${order.id}_done`, 'sup_photo', photo(), NOW)).toMatchObject({
+      status: 409,
+    });
+  });
+
+  it('stores the photo, records the checks and serves it to allowed viewers', async () => {
+    const order = makeOrder();
+    store.upsertOrder(order);
+    const bytes = photo();
+
+    const result = await uploadDeliveryPhoto(order.id, 'sup_photo', bytes, NOW);
+    expect(result).toMatchObject({
+      success: true,
+      photoProofUrl: `/api/orders/${order.id}/photo`,
+      proof: { review: 'auto_passed', contentType: 'image/jpeg', sizeBytes: bytes.length },
+    });
+
+    const saved = store.getOrder(order.id)?.deliveryVerification;
+    expect(saved?.photoProofUrl).toBe(`/api/orders/${order.id}/photo`);
+    expect(saved?.photoProof?.storagePath).toMatch(new RegExp(`^delivery-proofs/${order.id}/`));
+
+    const asCustomer = await readDeliveryPhoto(order.id, 'cust_photo');
+    expect(asCustomer).toMatchObject({ success: true, contentType: 'image/jpeg' });
+    expect(asCustomer.success && Array.from(asCustomer.bytes)).toEqual(Array.from(bytes));
+
+    expect(await readDeliveryPhoto(order.id, 'sup_photo')).toMatchObject({ success: true });
+    // Admins are recognised by their user record
+    expect(await readDeliveryPhoto(order.id, store.DEMO_IDS.admin, 'thumb')).toMatchObject({
+      success: true,
+    });
+    expect(await readDeliveryPhoto(order.id, 'cust_other')).toMatchObject({ status: 403 });
+  });
+
+  it('lets an admin review a flagged photo', async () => {
+    const order = makeOrder();
+    store.upsertOrder(order);
+    const result = await uploadDeliveryPhoto(order.id, 'sup_photo', exifJpeg({}), NOW);
+    expect(result.success && result.proof.review).toBe('needs_review');
+
+    expect(
+      await reviewDeliveryPhoto(order.id, 'approved', 'sup_photo', undefined, NOW)
+    ).toMatchObject({ status: 403 });
+
+    const admin = store.DEMO_IDS.admin;
+    const reviewed = await reviewDeliveryPhoto(order.id, 'approved', admin, ' Customer confirmed ', NOW);
+    expect(reviewed).toMatchObject({
+      success: true,
+      proof: { review: 'approved', reviewedBy: admin, reviewNote: 'Customer confirmed' },
+    });
+    expect(store.getOrder(order.id)?.deliveryVerification?.photoProof?.review).toBe('approved');
+  });
+});
@@ -0,0 +1,170 @@
+// =============================================================================
+// Test: Delivered Volume — Readings, Tolerance, Pro-rata Price, Refund, Disputes
+// Covers: Test plan item #7 (order status state machine: delivery proof)
+// =============================================================================
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  billedLitres,
+  isShortDelivery,
+  planVolumeRecord,
+  resolveDeliveredLitres,
+} from '../delivery-volume';
+import { recordDeliveredVolume, respondToVolume } from '../delivery-volume/server';
+import { shortDeliveryRefund } from '../refunds';
+import { transitionStoreOrder } from '../order-lifecycle';
+import * as store from '../demo-store';
+import type { Order, PaymentInfo } from '@/types';
+
+const NOW = new Date('2026-10-19T10:00:00.000Z');
+const SUPPLIER = { id: 'sup_vol', role: 'supplier' as const };
+
+function makeOrder(payment: Partial<PaymentInfo> = {}): Order {
+  const id = `ord_vol_${Math.random().toString(36).slice(2, 8)}`;
+  return {
+    id,
+    customerId: 'cust_vol',
+    supplierId: SUPPLIER.id,
+    waterType: 'tanker',
+    quantityLitres: 1000,
+    price: { base: 400, distance: 100, surge: 0, total: 500, commission: 75, supplierEarning: 425 },
+    status: 'arriving',
+    deliveryLocation: { lat: 28.61, lng: 77.2, address: 'Test' },
+    payment: { method: 'upi', status: 'paid', amount: 500, razorpayPaymentId: `pay_${id}`, ...payment },
+    deliveryVerification: { otpVerifiedAt: NOW },
+    createdAt: NOW,
+  };
+}
+
+describe('resolveDeliveredLitres / isShortDelivery', () => {
+  it('takes a manual entry or the difference of two meter readings', () => {
+    expect(resolveDeliveredLitres({ litres: 950 }, 1000)).toEqual({ litres: 950, source: 'manual' });
+    expect(resolveDeliveredLitres({ meterStart: 12040.5, meterEnd: 13020.5 }, 1000)).toEqual({
+      litres: 980,
+      source: 'flow_meter',
+    });
+  });
+
+  it('rejects missing, negative, reversed and implausible readings', () => {
+    expect(resolveDeliveredLitres({}, 1000)).toHaveProperty('error');
+    expect(resolveDeliveredLitres({ litres: -5 }, 1000)).toHaveProperty('error');
+    expect(resolveDeliveredLitres({ meterStart: 200 }, 1000)).toHaveProperty('error');
+    expect(resolveDeliveredLitres({ meterStart: 200, meterEnd: 100 }, 1000)).toHaveProperty('error');
+    expect(resolveDeliveredLitres({ litres: 10_000 }, 1000)).toHaveProperty('error');
+  });
+
+  it('ignores shortfalls within the tolerance', () => {
+    expect(isShortDelivery(1000, 980)).toBe(false);
+    expect(isShortDelivery(1000, 979)).toBe(true);
+    expect(isShortDelivery(1000, 1010)).toBe(false);
+  });
+});
+
+describe('planVolumeRecord', () => {
+  it('pro-rates the price of a short prepaid delivery and owes the difference', () => {
+    const { patch, volume } = planVolumeRecord(makeOrder(), { litres: 800, source: 'manual' }, 'sup', NOW);
+    expect(patch.price).toEqual({
+      base: 320,
+      distance: 80,
+      surge: 0,
+      total: 400,
+      commission: 60,
+      supplierEarning: 340,
+    });
+    expect(volume.adjustment).toMatchObject({ shortLitres: 200, refundDue: 100 });
+    expect(patch).not.toHaveProperty(['payment.amount']);
+    expect(billedLitres({ quantityLitres: 1000, deliveryVerification: { volume } })).toBe(800);
+  });
+
+  it('lowers the cash to collect instead of refunding on a cash order', () => {
+    const { patch, volume } = planVolumeRecord(
+      makeOrder({ method: 'cash', status: 'pending' }),
+      { litres: 500, source: 'manual' },
+      'sup',
+      NOW
+    );
+    expect(patch['payment.amount']).toBe(250);
+    expect(volume.adjustment?.refundDue).toBe(0);
+  });
+
+  it('restores the original price when a corrected reading is within tolerance', () => {
+    const order = makeOrder();
+    const first = planVolumeRecord(order, { litres: 800, source: 'manual' }, 'sup', NOW);
+    const adjusted = {
+      ...order,
+      price: first.price,
+      deliveryVerification: { volumeConfirmed: 800, volume: first.volume },
+    };
+    const second = planVolumeRecord(adjusted, { litres: 990, source: 'manual' }, 'sup', NOW);
+    expect(second.price.total).toBe(500);
+    expect(second.volume.adjustment).toBeUndefined();
+    expect(billedLitres({ quantityLitres: 1000, deliveryVerification: { volume: second.volume } })).toBe(1000);
+  });
+});
+
+describe('delivered volume flow (demo store)', () => {
+  it('only lets the assigned supplier record while delivering', async () => {
+    const order = makeOrder();
+    store.upsertOrder(order);
+    expect(await recordDeliveredVolume(order.id, 'sup_other', { litres: 900 }, NOW)).toMatchObject({
+      status: 403,
+    });
+    expect(await recordDeliveredVolume(order.id, SUPPLIER.id, { litres: -1 }, NOW)).toMatchObject({
+      status: 400,
+    });
+    store.upsertOrder({ ...order, id: `${order.id}_acc`, status: 'accepted' });
+    expect(await recordDeliveredVolume(`${order.id}_acc`, SUPPLIER.id, { litres: 900 }, NOW)).toMatchObject({
+      status: 409,
+    });
+  });
+
+  it('refunds the pro-rated difference once a short prepaid order is delivered', async () => {
+    const order = makeOrder();
+    store.upsertOrder(order);
+
+    const recorded = await recordDeliveredVolume(order.id, SUPPLIER.id, { litres: 800 }, NOW);
+    expect(recorded).toMatchObject({ success: true, price: { total: 400 }, paymentAmount: 500 });
+    expect(store.getOrder(order.id)?.price.supplierEarning).toBe(340);
+
+    expect(transitionStoreOrder(order.id, 'delivered', { actor: SUPPLIER }).success).toBe(true);
+    await vi.waitFor(() => {
+      expect(store.getOrder(order.id)?.deliveryVerification?.volume?.adjustment?.refundId).toBeTruthy();
+    });
+    const delivered = store.getOrder(order.id)!;
+    expect(delivered.payment).toMatchObject({ status: 'partially_refunded', refundedAmount: 100 });
+    expect(delivered.payment.refunds?.[0]).toMatchObject({ reason: 'short_delivery', initiatedBy: 'system' });
+    // Nothing more is owed unless the customer disputes the reading
+    expect(shortDeliveryRefund(delivered)).toBe(0);
+  });
+
+  it('records a customer dispute for an admin to settle', async () => {
+    const order = makeOrder();
+    store.upsertOrder(order);
+    expect(await respondToVolume(order.id, order.customerId, 'confirmed', {}, NOW)).toMatchObject({
+      status: 409,
+    });
+
+    await recordDeliveredVolume(order.id, SUPPLIER.id, { litres: 1000 }, NOW);
+    expect(await respondToVolume(order.id, 'cust_other', 'confirmed', {}, NOW)).toMatchObject({
+      status: 403,
+    });
+    expect(
+      await respondToVolume(order.id, order.customerId, 'disputed', { litres: 1000 }, NOW)
+    ).toMatchObject({ status: 400 });
+
+    expect(
+      await respondToVolume(order.id, order.customerId, 'disputed', { litres: 700, note: ' Tank half full ' }, NOW)
+    ).toMatchObject({
+      success: true,
+      response: { response: 'disputed', litres: 700, note: 'Tank half full', at: NOW },
+    });
+    expect(await respondToVolume(order.id, order.customerId, 'confirmed', {}, NOW)).toMatchObject({
+      status: 409,
+    });
+    // The supplier can no longer change a reading the customer responded to
+    expect(await recordDeliveredVolume(order.id, SUPPLIER.id, { litres: 700 }, NOW)).toMatchObject({
+      status: 409,
+    });
+    expect(shortDeliveryRefund(store.getOrder(order.id)!)).toBe(150);
+  });
+});
@@ -0,0 +1,161 @@
+// =============================================================================
+// Test: Demand Levels — Supply/Demand Ratio, Hysteresis, Monitor Audit Log
+// Covers: Test plan item #6 (order pricing: surge)
+// =============================================================================
+
+import { afterEach, describe, it, expect } from 'vitest';
+import {
+  DEMAND_MIN_HOLD_MS,
+  countDemand,
+  demandRatio,
+  nextDemandLevel,
+  resolveDemandThresholds,
+} from '../demand';
+import { resetDemandMonitor, runDemandMonitor } from '../demand/server';
+import { quoteOrder } from '../pricing/server';
+import { DEFAULT_ADMIN_SETTINGS, resolveZone } from '../pricing';
+import { hotCache } from '../cache';
+import * as store from '../demo-store';
+import type { FleetVehicle, Order, PricingZone, Supplier, ZoneVertex } from '@/types';
+
+const NOW = new Date('2026-10-19T10:00:00.000Z');
+const MINUTE = 60_000;
+const THRESHOLDS = { high: 1, surge: 2 };
+
+/** A square `size` degrees wide with its south-west corner at (lat, lng). */
+function square(lat: number, lng: number, size: number): ZoneVertex[] {
+  return [
+    { lat, lng },
+    { lat, lng: lng + size },
+    { lat: lat + size, lng: lng + size },
+    { lat: lat + size, lng },
+  ];
+}
+
+function zone(id: string, overrides: Partial<PricingZone> = {}): PricingZone {
+  return resolveZone({ id, name: id, ...overrides });
+}
+
+const PUNE = zone('test_pune', { boundary: square(18.5, 73.8, 0.1) });
+const IN_PUNE = { lat: 18.55, lng: 73.85, address: 'Pune' };
+
+describe('nextDemandLevel', () => {
+  it('rises at once but waits out the hold and the band to fall', () => {
+    expect(nextDemandLevel('normal', 2.5, THRESHOLDS, 0)).toBe('surge');
+    expect(nextDemandLevel('high', 2, THRESHOLDS, 0)).toBe('surge');
+
+    // Below the surge threshold, but not held long enough
+    expect(nextDemandLevel('surge', 0.5, THRESHOLDS, DEMAND_MIN_HOLD_MS - 1)).toBe('surge');
+    // Held, but still inside the 20% band under the threshold (2 * 0.8 = 1.6)
+    expect(nextDemandLevel('surge', 1.7, THRESHOLDS, DEMAND_MIN_HOLD_MS)).toBe('surge');
+    expect(nextDemandLevel('surge', 1.5, THRESHOLDS, DEMAND_MIN_HOLD_MS)).toBe('high');
+    expect(nextDemandLevel('high', 0.85, THRESHOLDS, DEMAND_MIN_HOLD_MS)).toBe('high');
+    expect(nextDemandLevel('surge', 0.5, THRESHOLDS, DEMAND_MIN_HOLD_MS)).toBe('normal');
+  });
+
+  it('falls back to the default thresholds when unset or invalid', () => {
+    expect(resolveDemandThresholds(null)).toEqual({ high: 1, surge: 2 });
+    expect(resolveDemandThresholds({ high: 3, surge: 0 })).toEqual({ high: 3, surge: 3 });
+  });
+
+  it('has no legacy orders-per-hour surge thresholds', () => {
+    expect(DEFAULT_ADMIN_SETTINGS).not.toHaveProperty('surgeThresholds');
+    expect(resolveDemandThresholds(DEFAULT_ADMIN_SETTINGS.demandThresholds)).toEqual(THRESHOLDS);
+  });
+});
+
+describe('countDemand', () => {
+  it('counts orders and each online fleet vehicle in the zone they are in', () => {
+    const vehicle = (id: string, isOnline: boolean): FleetVehicle => ({
+      id,
+      type: 'tanker',
+      capacity: 5000,
+      number: id,
+      isOnline,
+      currentLocation: { ...IN_PUNE },
+      addedAt: NOW,
+    });
+    const fleet = { fleet: { a: vehicle('a', true), b: vehicle('b', true), c: vehicle('c', false) } };
+    const counts = countDemand(
+      [PUNE, zone('by_id_only')],
+      [
+        { status: 'searching', deliveryLocation: IN_PUNE },
+        { status: 'searching', deliveryLocation: IN_PUNE },
+        { status: 'accepted', deliveryLocation: IN_PUNE },
+        { status: 'searching', deliveryLocation: { lat: 28.6, lng: 77.2, address: 'Delhi' } },
+      ],
+      [
+        { ...fleet, isOnline: true },
+        { isOnline: true, currentLocation: { lat: 28.6, lng: 77.2, address: 'Delhi' } },
+        { isOnline: false, currentLocation: { ...IN_PUNE } },
+      ]
+    );
+    // A zone without a boundary is only priced by id, so is not computed
+    expect(counts).toEqual({
+      test_pune: { searching: 2, online: 2 },
+      default: { searching: 1, online: 1 },
+    });
+    expect(
+      demandRatio([
+        { at: NOW, searching: 4, online: 0 },
+        { at: NOW, searching: 2, online: 2 },
+      ])
+    ).toBe(2); // nobody online counts as one supplier
+  });
+});
+
+describe('runDemandMonitor (demo store)', () => {
+  const orderIds = ['ord_demand_1', 'ord_demand_2', 'ord_demand_3'];
+  const supplierId = 'sup_demand_test';
+
+  afterEach(() => {
+    store.deletePricingZone(PUNE.id);
+    for (const id of orderIds) store.deleteOrder(id);
+    store.setSupplierOnline(supplierId, false);
+    hotCache.delete(`demand:${PUNE.id}`);
+    resetDemandMonitor();
+  });
+
+  it('surges a zone, prices at the new level and logs each change', async () => {
+    store.savePricingZone(PUNE);
+    const [template] = store.listAllOrders();
+    for (const id of orderIds) {
+      store.upsertOrder({ ...template, id, status: 'searching', deliveryLocation: IN_PUNE } as Order);
+    }
+    const supplier = store.getSupplier(store.DEMO_IDS.supplier)!;
+    store.upsertSupplier({
+      ...supplier,
+      id: supplierId,
+      isOnline: true,
+      currentLocation: { ...IN_PUNE },
+      fleet: undefined,
+    } as Supplier);
+
+    const at = (minutes: number) => new Date(NOW.getTime() + minutes * MINUTE);
+    const run = async (minutes: number) =>
+      (await runDemandMonitor(at(minutes))).find((u) => u.zoneId === PUNE.id);
+
+    expect(await run(0)).toMatchObject({ level: 'surge', previous: 'normal', ratio: 3, changed: true });
+    const { price } = await quoteOrder({ waterType: 'ro', quantityLitres: 20 }, IN_PUNE);
+    expect(price.trace).toMatchObject({ zoneId: PUNE.id, demandLevel: 'surge', surgeMultiplier: 1.8 });
+
+    // The orders are taken; the window still averages them in
+    for (const id of orderIds) store.deleteOrder(id);
+    expect(await run(1)).toMatchObject({ level: 'surge', ratio: 1.5, changed: false });
+    expect(await run(5)).toMatchObject({ level: 'high', ratio: 1, changed: true });
+    // The first sample has left the window
+    expect(await run(11)).toMatchObject({ level: 'normal', ratio: 0, changed: true });
+
+    expect(store.listDemandChanges(PUNE.id).map((c) => [c.from, c.to])).toEqual([
+      ['high', 'normal'],
+      ['surge', 'high'],
+      ['normal', 'surge'],
+    ]);
+    expect(store.listDemandChanges(PUNE.id)[2]).toMatchObject({
+      searchingOrders: 3,
+      onlineSuppliers: 1,
+      thresholds: THRESHOLDS,
+      at: at(0),
+    });
+  });
+});
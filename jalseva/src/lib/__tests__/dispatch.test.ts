@@ -0,0 +1,217 @@
+// =============================================================================
+// Test: Order Dispatcher — Ranking, Offers, Cascading, Radius Expansion
+// Covers: Test plan item #7 (supplier matching)
+// =============================================================================
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  OrderDispatcher,
+  rankCandidates,
+  nextRadius,
+  isEligible,
+  type DispatchCandidate,
+  type DispatchOrder,
+  type DispatcherDeps,
+} from '../dispatch';
+import type { DispatchInfo, Order, OrderStatus } from '@/types';
+
+const ORDER: DispatchOrder = {
+  id: 'ord_dispatch_1',
+  waterType: 'ro',
+  quantityLitres: 500,
+  deliveryLocation: { lat: 28.61, lng: 77.2 },
+};
+
+function candidate(overrides: Partial<DispatchCandidate>): DispatchCandidate {
+  return {
+    supplierId: 'sup',
+    distanceKm: 2,
+    waterTypes: ['ro', 'mineral'],
+    capacityLitres: 1000,
+    qualityScore: 80,
+    rating: 4.5,
+    ...overrides,
+  };
+}
+
+describe('rankCandidates', () => {
+  it('skips suppliers that cannot carry the water type or quantity', () => {
+    expect(isEligible(ORDER, candidate({ waterTypes: ['tanker'] }))).toBe(false);
+    // 500 L takes five trips in a 100 L vehicle, past MAX_DELIVERY_LEGS
+    expect(isEligible(ORDER, candidate({ capacityLitres: 100 }))).toBe(false);
+    expect(isEligible(ORDER, candidate({ capacityLitres: 200 }))).toBe(true);
+    expect(isEligible(ORDER, candidate({ verificationStatus: 'pending' }))).toBe(false);
+    expect(isEligible(ORDER, candidate({}))).toBe(true);
+  });
+
+  it('keeps cash-blocked suppliers off cash orders only', () => {
+    const blocked = candidate({ cashBlocked: true });
+    expect(isEligible({ ...ORDER, payment: { method: 'cash' } }, blocked)).toBe(false);
+    expect(isEligible({ ...ORDER, payment: { method: 'upi' } }, blocked)).toBe(true);
+  });
+
+  it('prefers nearer, higher-quality, better-rated suppliers', () => {
+    const ranked = rankCandidates(
+      ORDER,
+      [
+        candidate({ supplierId: 'far', distanceKm: 4.5 }),
+        candidate({ supplierId: 'near', distanceKm: 0.5 }),
+        candidate({ supplierId: 'near_low_quality', distanceKm: 0.5, qualityScore: 20, rating: 2 }),
+      ],
+      5
+    );
+    expect(ranked.map((c) => c.supplierId)).toEqual(['near', 'near_low_quality', 'far']);
+  });
+
+  it('prefers the tightest capacity fit when all else is equal', () => {
+    const ranked = rankCandidates(
+      ORDER,
+      [
+        candidate({ supplierId: 'big', capacityLitres: 10000 }),
+        candidate({ supplierId: 'snug', capacityLitres: 500 }),
+      ],
+      5
+    );
+    expect(ranked[0].supplierId).toBe('snug');
+  });
+
+  it('drops candidates outside the radius or already tried', () => {
+    const ranked = rankCandidates(
+      ORDER,
+      [
+        candidate({ supplierId: 'a', distanceKm: 6 }),
+        candidate({ supplierId: 'b' }),
+        candidate({ supplierId: 'c' }),
+      ],
+      5,
+      ['b']
+    );
+    expect(ranked.map((c) => c.supplierId)).toEqual(['c']);
+  });
+});
+
+describe('nextRadius', () => {
+  it('doubles up to the maximum, then stops', () => {
+    expect(nextRadius(5, 25)).toBe(10);
+    expect(nextRadius(20, 25)).toBe(25);
+    expect(nextRadius(25, 25)).toBeNull();
+  });
+});
+
+describe('OrderDispatcher', () => {
+  let status: OrderStatus;
+  let persisted: DispatchInfo[];
+  let suppliers: DispatchCandidate[];
+  let deps: DispatcherDeps;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    status = 'searching';
+    persisted = [];
+    suppliers = [
+      candidate({ supplierId: 'best', distanceKm: 1 }),
+      candidate({ supplierId: 'second', distanceKm: 3 }),
+      candidate({ supplierId: 'wide', distanceKm: 12 }),
+    ];
+    deps = {
+      findCandidates: (_order, radiusKm) => suppliers.filter((s) => s.distanceKm <= radiusKm),
+      loadOrder: async () => ({ status }),
+      accept: vi.fn(async (orderId: string, supplierId: string) => {
+        status = 'accepted';
+        return {
+          success: true as const,
+          order: { id: orderId, supplierId, status } as Order,
+          event: {} as never,
+        };
+      }),
+      noSupplier: vi.fn(async () => {
+        status = 'cancelled';
+      }),
+      persist: (_id, info) => {
+        persisted.push(structuredClone(info));
+      },
+      maxRadiusKm: async () => 20,
+    };
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('offers the order to the best candidate with a countdown', async () => {
+    const dispatcher = new OrderDispatcher(deps, { offerTimeoutMs: 1000 });
+    const info = await dispatcher.dispatch(ORDER);
+
+    expect(info.status).toBe('offering');
+    expect(info.offer?.supplierId).toBe('best');
+    expect(info.offer!.expiresAt.getTime() - info.offer!.offeredAt.getTime()).toBe(1000);
+    expect(dispatcher.offersFor('best')).toEqual([ORDER.id]);
+  });
+
+  it('cascades to the next candidate on reject', async () => {
+    const dispatcher = new OrderDispatcher(deps, { offerTimeoutMs: 1000 });
+    await dispatcher.dispatch(ORDER);
+
+    const result = await dispatcher.respond(ORDER.id, 'best', false);
+    expect(result.success && result.info.offer?.supplierId).toBe('second');
+    expect(result.success && result.info.tried).toEqual(['best']);
+  });
+
+  it('cascades on timeout and expands the radius when a ring is exhausted', async () => {
+    const dispatcher = new OrderDispatcher(deps, { offerTimeoutMs: 1000 });
+    await dispatcher.dispatch(ORDER);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(dispatcher.getState(ORDER.id)?.offer?.supplierId).toBe('second');
+
+    await vi.advanceTimersByTimeAsync(1000);
+    const state = dispatcher.getState(ORDER.id);
+    expect(state?.offer?.supplierId).toBe('wide');
+    expect(state?.radiusKm).toBe(20);
+    expect(state?.attempts).toBe(3);
+  });
+
+  it('ends with a no-supplier outcome once the max radius is exhausted', async () => {
+    const dispatcher = new OrderDispatcher(deps, { offerTimeoutMs: 1000 });
+    await dispatcher.dispatch(ORDER);
+
+    await vi.advanceTimersByTimeAsync(3000);
+
+    expect(deps.noSupplier).toHaveBeenCalledWith(ORDER.id);
+    expect(dispatcher.getState(ORDER.id)).toBeNull();
+    expect(persisted.at(-1)?.status).toBe('no_supplier');
+  });
+
+  it('accepts through the lifecycle and stops the countdown', async () => {
+    const dispatcher = new OrderDispatcher(deps, { offerTimeoutMs: 1000 });
+    await dispatcher.dispatch(ORDER);
+
+    const result = await dispatcher.respond(ORDER.id, 'best', true);
+    expect(result.success).toBe(true);
+    expect(deps.accept).toHaveBeenCalledWith(ORDER.id, 'best');
+    expect(persisted.at(-1)?.status).toBe('matched');
+
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(deps.noSupplier).not.toHaveBeenCalled();
+  });
+
+  it('rejects answers from suppliers not holding the offer', async () => {
+    const dispatcher = new OrderDispatcher(deps, { offerTimeoutMs: 1000 });
+    await dispatcher.dispatch(ORDER);
+
+    const result = await dispatcher.respond(ORDER.id, 'second', true);
+    expect(result).toMatchObject({ success: false, status: 409 });
+  });
+
+  it('stops when the order leaves searching through another path', async () => {
+    const dispatcher = new OrderDispatcher(deps, { offerTimeoutMs: 1000 });
+    await dispatcher.dispatch(ORDER);
+
+    status = 'cancelled';
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(dispatcher.getState(ORDER.id)).toBeNull();
+    expect(persisted.at(-1)?.status).toBe('stopped');
+    expect(deps.noSupplier).not.toHaveBeenCalled();
+  });
+});
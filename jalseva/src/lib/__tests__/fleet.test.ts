@@ -0,0 +1,256 @@
+// =============================================================================
+// Test: Supplier Fleets — Vehicle Index Entries, Per-Vehicle Dispatch, Rollup
+// Covers: Test plan item #7 (supplier matching: fleet vehicles are offered orders one at a time)
+// =============================================================================
+
+import { mkdtempSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, it, expect, vi } from 'vitest';
+import { chooseVehicle, fleetEarnings, fleetIndexId } from '../fleet';
+import {
+  addDriver,
+  addVehicle,
+  assignDriver,
+  assignOrderVehicle,
+  removeVehicle,
+  setVehicleOnline,
+} from '../fleet/server';
+import { OrderDispatcher, type DispatchCandidate, type DispatcherDeps } from '../dispatch';
+import { verifyDeliveryOtp } from '../delivery-otp/server';
+import { uploadDeliveryPhoto } from '../delivery-proof/server';
+import { recordDeliveredVolume } from '../delivery-volume/server';
+import { transitionStoreOrder } from '../order-lifecycle';
+import { GeoSpatialIndex, supplierIndex } from '../geohash';
+import * as store from '../demo-store';
+import type { FleetVehicle, Order, OrderStatus } from '@/types';
+
+const NOW = new Date('2026-10-19T10:00:00.000Z');
+const DAY = 86_400_000;
+
+function vehicle(id: string, overrides: Partial<FleetVehicle> = {}): FleetVehicle {
+  return {
+    id,
+    type: 'Tanker',
+    capacity: 10000,
+    number: `MH 12 ${id.toUpperCase()}`,
+    isOnline: true,
+    driverId: `drv_${id}`,
+    addedAt: new Date(NOW.getTime() - DAY),
+    ...overrides,
+  };
+}
+
+function makeOrder(overrides: Partial<Order>): Order {
+  return {
+    id: `ord_fleet_${Math.random().toString(36).slice(2, 8)}`,
+    customerId: 'cust_1',
+    supplierId: 'sup_fleet',
+    waterType: 'tanker',
+    quantityLitres: 5000,
+    price: { base: 900, distance: 100, surge: 0, total: 1000, commission: 150, supplierEarning: 850 },
+    status: 'delivered',
+    deliveryLocation: { lat: 28.61, lng: 77.2 },
+    payment: { method: 'upi', status: 'paid', amount: 1000 },
+    createdAt: NOW,
+    deliveredAt: NOW,
+    ...overrides,
+  };
+}
+
+function makeSupplier(): string {
+  const seeded = store.getSupplier(store.DEMO_IDS.supplier)!;
+  const id = `sup_fleet_${Math.random().toString(36).slice(2, 8)}`;
+  store.upsertSupplier({
+    ...seeded,
+    id,
+    userId: id,
+    verificationStatus: 'verified',
+    isOnline: true,
+    vehicle: { type: 'Tanker', capacity: 10000, number: 'DL 01 AB 1234' },
+    fleet: undefined,
+    drivers: undefined,
+  });
+  return id;
+}
+
+describe('fleet index entries', () => {
+  it('groups vehicle entries under their supplier', () => {
+    const index = new GeoSpatialIndex();
+    index.upsert('sup_a:v1', 28.61, 77.2, { supplierId: 'sup_a', qualityScore: 60 });
+    index.upsert('sup_a:v2', 28.62, 77.21, { supplierId: 'sup_a', qualityScore: 60 });
+    index.upsert('sup_b', 28.61, 77.2, { qualityScore: 60 });
+
+    expect(index.entriesOf('sup_a').map((e) => e.id).sort()).toEqual(['sup_a:v1', 'sup_a:v2']);
+    expect(index.patchOwner('sup_a', { qualityScore: 90 })).toBe(2);
+    expect(index.get('sup_a:v2')?.data.qualityScore).toBe(90);
+    expect(index.get('sup_b')?.data.qualityScore).toBe(60);
+
+    expect(index.removeOwner('sup_a')).toBe(2);
+    expect(index.entriesOf('sup_a')).toEqual([]);
+    expect(index.get('sup_b')).toBeDefined();
+  });
+});
+
+describe('per-vehicle dispatch', () => {
+  it('cascades a declined offer to another truck of the same fleet', async () => {
+    vi.useFakeTimers();
+    let status: OrderStatus = 'searching';
+    const candidates: DispatchCandidate[] = [
+      { supplierId: 'sup_f', vehicleId: 'v1', driverId: 'drv_1', distanceKm: 1, capacityLitres: 5000 },
+      { supplierId: 'sup_f', vehicleId: 'v2', driverId: 'drv_2', distanceKm: 2, capacityLitres: 5000 },
+    ];
+    const deps: DispatcherDeps = {
+      findCandidates: () => candidates,
+      loadOrder: async () => ({ status }),
+      accept: vi.fn(async (orderId: string, supplierId: string) => {
+        status = 'accepted';
+        return { success: true as const, order: { id: orderId, supplierId } as Order, event: {} as never };
+      }),
+      noSupplier: vi.fn(async () => {}),
+      persist: () => {},
+      maxRadiusKm: async () => 20,
+    };
+    const order = makeOrder({ status: 'searching', quantityLitres: 5000 });
+    const dispatcher = new OrderDispatcher(deps, { offerTimeoutMs: 1000 });
+
+    const info = await dispatcher.dispatch(order);
+    expect(info.offer).toMatchObject({ supplierId: 'sup_f', vehicleId: 'v1', driverId: 'drv_1' });
+    expect(dispatcher.offersFor('sup_f', 'drv_2')).toEqual([]);
+
+    const declined = await dispatcher.respond(order.id, 'sup_f', false, 'drv_1');
+    expect(declined.success && declined.info.tried).toEqual([fleetIndexId('sup_f', 'v1')]);
+    expect(declined.success && declined.info.offer?.vehicleId).toBe('v2');
+
+    expect(await dispatcher.respond(order.id, 'sup_f', true, 'drv_1')).toMatchObject({
+      success: false,
+      status: 409,
+    });
+    // The fleet owner can answer for any of their vehicles
+    expect((await dispatcher.respond(order.id, 'sup_f', true)).success).toBe(true);
+    expect(deps.accept).toHaveBeenCalledWith(order.id, 'sup_f', { vehicleId: 'v2', driverId: 'drv_2' });
+    vi.useRealTimers();
+  });
+
+  it('picks the smallest online vehicle with a driver for manual accepts', () => {
+    const fleet = {
+      big: vehicle('big', { capacity: 20000 }),
+      small: vehicle('small', { capacity: 6000 }),
+      idle: vehicle('idle', { capacity: 5000, isOnline: false }),
+      spare: vehicle('spare', { capacity: 5000, driverId: undefined }),
+    };
+    expect(chooseVehicle({ fleet }, 5000)?.id).toBe('small');
+    expect(chooseVehicle({ fleet }, 8000)?.id).toBe('big');
+    // Too big for any one vehicle: the fewest trips wins
+    expect(chooseVehicle({ fleet }, 25000)?.id).toBe('big');
+    expect(chooseVehicle({ fleet }, 90000)).toBeUndefined();
+    expect(chooseVehicle({ fleet }, 5000, 'drv_big')?.id).toBe('big');
+  });
+});
+
+describe('fleet earnings rollup', () => {
+  it('totals deliveries per vehicle for today and the last 7 days', () => {
+    const supplier = {
+      fleet: { v1: vehicle('v1'), v2: vehicle('v2', { isOnline: false }) },
+      drivers: { drv_v1: { id: 'drv_v1', name: 'Suresh', phone: '+919800000001', addedAt: NOW } },
+    };
+    const rollup = fleetEarnings(
+      supplier,
+      [
+        makeOrder({ vehicleId: 'v1' }),
+        makeOrder({ vehicleId: 'v1', deliveredAt: new Date(NOW.getTime() - 3 * DAY) }),
+        makeOrder({ vehicleId: 'v2', deliveredAt: new Date(NOW.getTime() - 10 * DAY) }),
+        makeOrder({}),
+        makeOrder({ id: 'ord_active', vehicleId: 'v2', status: 'en_route', deliveredAt: undefined }),
+      ],
+      NOW
+    );
+
+    const [v1, v2] = rollup.vehicles;
+    expect(v1).toMatchObject({
+      driverName: 'Suresh',
+      today: { deliveries: 1, litres: 5000, earnings: 850 },
+      week: { deliveries: 2, earnings: 1700 },
+    });
+    expect(v2).toMatchObject({ activeOrderId: 'ord_active', week: { deliveries: 0 } });
+    expect(rollup.unassigned.today.deliveries).toBe(1);
+    expect(rollup.totals).toMatchObject({ today: { deliveries: 2 }, week: { deliveries: 3, earnings: 2550 } });
+  });
+});
+
+describe('fleet management', () => {
+  it('indexes each online vehicle with a driver and routes orders to it', async () => {
+    const supplierId = makeSupplier();
+    supplierIndex.upsert(supplierId, 28.61, 77.2, { isOnline: true });
+
+    const added = await addVehicle(supplierId, { type: 'Tanker', capacity: 12000, number: 'dl 01 cd 5678' }, NOW);
+    expect(added.success).toBe(true);
+    expect(await addVehicle(supplierId, { type: 'Tanker', capacity: 12000, number: 'DL 01 CD 5678' }, NOW))
+      .toMatchObject({ success: false, status: 409 });
+    expect(await addVehicle(supplierId, { type: 'Tanker', capacity: 100, number: 'DL 01 EF 1' }, NOW))
+      .toMatchObject({ success: false, status: 400 });
+
+    // The registered vehicle joins the fleet, driven by the owner and still online
+    let supplier = store.getSupplier(supplierId)!;
+    const [primary, second] = Object.values(supplier.fleet!).sort(
+      (a, b) => new Date(a.addedAt).getTime() - new Date(b.addedAt).getTime()
+    );
+    expect(primary).toMatchObject({ number: 'DL 01 AB 1234', driverId: supplierId, isOnline: true });
+    expect(second).toMatchObject({ number: 'DL 01 CD 5678', isOnline: false });
+    expect(supplierIndex.get(supplierId)).toBeUndefined();
+    expect(supplierIndex.get(fleetIndexId(supplierId, primary.id))?.data).toMatchObject({
+      supplierId,
+      vehicleId: primary.id,
+      driverId: supplierId,
+    });
+
+    expect(await setVehicleOnline(supplierId, second.id, true)).toMatchObject({ success: false, status: 409 });
+    const phone = `98${Math.floor(10_000_000 + Math.random() * 89_999_999)}`;
+    const driver = await addDriver(supplierId, { name: 'Ramesh', phone }, NOW);
+    expect(driver.success && driver.driver?.id).toBe(`sim_${phone}`);
+    expect(await addDriver(supplierId, { name: 'Ramesh', phone }, NOW)).toMatchObject({ status: 409 });
+
+    const driverId = `sim_${phone}`;
+    await assignDriver(supplierId, second.id, driverId);
+    expect((await setVehicleOnline(supplierId, second.id, true)).success).toBe(true);
+    expect(supplierIndex.entriesOf(supplierId)).toHaveLength(2);
+    expect(await removeVehicle(supplierId, second.id)).toMatchObject({ success: false, status: 409 });
+
+    const order = makeOrder({ supplierId, status: 'accepted', vehicleId: primary.id, driverId: supplierId });
+    store.upsertOrder(order);
+    const moved = await assignOrderVehicle(order.id, supplierId, second.id, NOW);
+    expect(moved.success && moved.order).toMatchObject({ vehicleId: second.id, driverId });
+    expect(await assignOrderVehicle(order.id, 'sup_other', second.id, NOW)).toMatchObject({ status: 403 });
+
+    // Taking the driver off takes the vehicle offline and out of the index
+    await assignDriver(supplierId, second.id, null);
+    supplier = store.getSupplier(supplierId)!;
+    expect(supplier.fleet![second.id].isOnline).toBe(false);
+    expect(supplierIndex.get(fleetIndexId(supplierId, second.id))).toBeUndefined();
+    expect(supplier.isOnline).toBe(true);
+  });
+
+  it('lets the driver of an order complete it at the door', async () => {
+    process.env.PRIVATE_FILES_DIR = mkdtempSync(join(tmpdir(), 'jalseva-fleet-test-'));
+    const supplierId = makeSupplier();
+    const driverId = `drv_door_${Math.random().toString(36).slice(2, 8)}`;
+    const order = makeOrder({ supplierId: undefined, status: 'searching', deliveredAt: undefined });
+    store.upsertOrder(order);
+    const driver = { id: driverId, role: 'supplier' as const };
+    transitionStoreOrder(order.id, 'accepted', {
+      actor: driver,
+      patch: { supplierId, vehicleId: 'v1', driverId },
+    });
+    transitionStoreOrder(order.id, 'en_route', { actor: driver });
+    const code = store.getDeliveryOtp(order.id)!.code;
+
+    // Another driver of the same fleet is not delivering it
+    expect(await verifyDeliveryOtp(order.id, code, 'drv_other', NOW)).toMatchObject({ status: 403 });
+
+    const jpeg = new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46]);
+    expect((await uploadDeliveryPhoto(order.id, driverId, jpeg, NOW)).success).toBe(true);
+    expect((await recordDeliveredVolume(order.id, driverId, { litres: 5000 }, NOW)).success).toBe(true);
+    expect(await verifyDeliveryOtp(order.id, code, driverId, NOW)).toEqual({ success: true, verifiedAt: NOW });
+    expect(transitionStoreOrder(order.id, 'delivered', { actor: driver }).success).toBe(true);
+  });
+});
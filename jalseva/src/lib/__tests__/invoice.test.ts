@@ -0,0 +1,137 @@
+// =============================================================================
+// Test: GST Invoices — Tax Split, Numbering, Issuing
+// Covers: Test plan item #6 (order flow: invoice on delivery)
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildInvoice,
+  financialYear,
+  formatInvoiceNumber,
+  isValidGstin,
+  stateFromAddress,
+  type InvoiceInput,
+} from '../invoice';
+import { getOrderInvoice, issueInvoice } from '../invoice/server';
+import * as store from '../demo-store';
+import type { Order, WaterType } from '@/types';
+
+const NOW = new Date('2026-10-19T10:00:00.000Z');
+const DELHI_GSTIN = '07ABCDE1234F1Z5';
+
+function makeOrder(waterType: WaterType = 'ro', address = 'Connaught Place, New Delhi 110001'): Order {
+  return {
+    id: `ord_invoice_${Math.random().toString(36).slice(2, 8)}`,
+    customerId: store.DEMO_IDS.customer,
+    supplierId: store.DEMO_IDS.supplier,
+    waterType,
+    quantityLitres: 20,
+    price: { base: 100, distance: 18, surge: 0, total: 118, commission: 18, supplierEarning: 100 },
+    status: 'delivered',
+    deliveryLocation: { lat: 28.61, lng: 77.2, address },
+    payment: { method: 'upi', status: 'paid', amount: 118 },
+    createdAt: NOW,
+    deliveredAt: NOW,
+  };
+}
+
+function input(order: Order, sellerGstin: string | null = DELHI_GSTIN): InvoiceInput {
+  return {
+    order,
+    seller: { name: 'Demo Water Supply Co.', gstin: sellerGstin ?? undefined },
+    buyer: { name: 'Green Park RWA' },
+    sequence: 42,
+    issuedAt: NOW,
+  };
+}
+
+describe('invoice numbering', () => {
+  it('follows the April–March financial year in IST', () => {
+    expect(financialYear(NOW)).toBe('2026-27');
+    expect(financialYear(new Date('2027-03-31T18:00:00.000Z'))).toBe('2026-27');
+    // 1 April 00:00 IST is still 31 March in UTC
+    expect(financialYear(new Date('2027-03-31T18:30:00.000Z'))).toBe('2027-28');
+    expect(formatInvoiceNumber('2026-27', 42)).toEqual({
+      id: 'JS-2026-27-000042',
+      number: 'JS/2026-27/000042',
+    });
+  });
+});
+
+describe('buildInvoice', () => {
+  it('splits GST into CGST and SGST within the seller state', () => {
+    const invoice = buildInvoice(input(makeOrder()));
+    expect(invoice).toMatchObject({
+      number: 'JS/2026-27/000042',
+      kind: 'tax_invoice',
+      supplyType: 'intra_state',
+      placeOfSupply: '07',
+      taxableValue: 100,
+      cgst: 9,
+      sgst: 9,
+      igst: 0,
+      total: 118,
+    });
+    expect(invoice.lines[0]).toMatchObject({ hsn: '2201', gstRate: 18, quantity: 20 });
+  });
+
+  it('charges IGST when delivering into another state', () => {
+    const invoice = buildInvoice(input(makeOrder('mineral', 'Sector 29, Gurugram, Haryana 122001')));
+    expect(invoice).toMatchObject({
+      supplyType: 'inter_state',
+      placeOfSupply: '06',
+      cgst: 0,
+      sgst: 0,
+      igst: 18,
+    });
+    expect(invoice.buyer.stateName).toBe('Haryana');
+  });
+
+  it('issues a bill of supply for tanker water and unregistered sellers', () => {
+    expect(buildInvoice(input(makeOrder('tanker')))).toMatchObject({
+      kind: 'bill_of_supply',
+      taxableValue: 118,
+      cgst: 0,
+      sgst: 0,
+      igst: 0,
+    });
+    const unregistered = buildInvoice(input(makeOrder(), null));
+    expect(unregistered).toMatchObject({ kind: 'bill_of_supply', taxableValue: 118 });
+    expect(unregistered.seller.gstin).toBeUndefined();
+  });
+
+  it('reads the delivery state from the address name or PIN code', () => {
+    expect(stateFromAddress('Koramangala, Bengaluru 560034')).toBe('29');
+    expect(stateFromAddress('Panaji 403001')).toBe('30');
+    expect(stateFromAddress('Salt Lake, West Bengal')).toBe('19');
+    expect(stateFromAddress('near the water tank')).toBeNull();
+    expect(isValidGstin(DELHI_GSTIN)).toBe(true);
+    expect(isValidGstin('99ABCDE1234F1Z5')).toBe(false);
+  });
+});
+
+describe('issuing (demo store)', () => {
+  it('numbers invoices sequentially and issues each order once', async () => {
+    const first = makeOrder();
+    const second = makeOrder();
+    store.upsertOrder(first);
+    store.upsertOrder(second);
+
+    const a = await issueInvoice(first, NOW);
+    const b = await issueInvoice(second, NOW);
+    expect(b!.sequence).toBe(a!.sequence + 1);
+    expect(store.getOrder(first.id)!.invoice).toEqual({ id: a!.id, number: a!.number });
+
+    const again = await issueInvoice(store.getOrder(first.id)!, NOW);
+    expect(again!.id).toBe(a!.id);
+    expect(a!.seller).toMatchObject({ name: 'Demo Water Supply Co.', gstin: DELHI_GSTIN });
+  });
+
+  it('only invoices delivered orders', async () => {
+    const pending = { ...makeOrder(), status: 'en_route' as const };
+    store.upsertOrder(pending);
+    expect(await issueInvoice(pending)).toBeNull();
+    expect(await getOrderInvoice(pending.id)).toMatchObject({ success: false, status: 409 });
+    expect(await getOrderInvoice('ord_missing')).toMatchObject({ success: false, status: 404 });
+  });
+});
@@ -0,0 +1,249 @@
+// =============================================================================
+// Test: Supplier Ledger — Double Entry, Reserves, Payout Schedule, Payouts
+// Covers: Test plan item #8 (supplier earnings and payouts)
+// =============================================================================
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  DEFAULT_PAYOUT_POLICY,
+  compensationTransaction,
+  computeBalance,
+  deliveryTransactions,
+  dueReserveReleases,
+  isBalanced,
+  payoutPeriod,
+  planPayout,
+  refundClawbackTransaction,
+  resolvePayoutPolicy,
+} from '../ledger';
+import {
+  getSupplierWallet,
+  recordDeliveryEarnings,
+  runSupplierPayout,
+} from '../ledger/server';
+import * as razorpay from '../razorpay';
+import * as store from '../demo-store';
+import type { Order, PaymentInfo } from '@/types';
+
+vi.mock('../razorpay', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../razorpay')>();
+  return { ...actual, createPayout: vi.fn(actual.createPayout) };
+});
+
+const NOW = new Date('2026-10-21T09:00:00.000Z'); // a Wednesday
+const DAY_MS = 86_400_000;
+
+function makeOrder(supplierId: string, payment: Partial<PaymentInfo> = {}): Order {
+  return {
+    id: `ord_ledger_${Math.random().toString(36).slice(2, 8)}`,
+    customerId: 'cust_1',
+    supplierId,
+    waterType: 'tanker',
+    quantityLitres: 5000,
+    price: { base: 900, distance: 100, surge: 0, total: 1000, commission: 150, supplierEarning: 850 },
+    status: 'delivered',
+    deliveryLocation: { lat: 28.61, lng: 77.2 },
+    payment: { method: 'upi', status: 'paid', amount: 1000, ...payment },
+    createdAt: NOW,
+    deliveredAt: NOW,
+  };
+}
+
+function makeSupplier(withBank = true): string {
+  const seeded = store.getSupplier(store.DEMO_IDS.supplier)!;
+  const id = `sup_ledger_${Math.random().toString(36).slice(2, 8)}`;
+  store.upsertSupplier({
+    ...seeded,
+    id,
+    userId: id,
+    bankDetails: withBank ? seeded.bankDetails : undefined,
+  });
+  return id;
+}
+
+describe('ledger postings', () => {
+  it('credits a prepaid earning and holds the dispute reserve', () => {
+    const txs = deliveryTransactions(makeOrder('sup_1'), DEFAULT_PAYOUT_POLICY, NOW);
+    expect(txs.map((t) => t.kind)).toEqual(['delivery_earning', 'reserve_hold']);
+    expect(txs.every(isBalanced)).toBe(true);
+    expect(txs[1].releaseAt).toEqual(new Date(NOW.getTime() + 7 * DAY_MS));
+
+    expect(computeBalance(txs)).toEqual({
+      available: 765, // 850 less the 10% reserve
+      reserve: 85,
+      cashDue: 0,
+      lifetimeEarnings: 850,
+      totalPaidOut: 0,
+    });
+  });
+
+  it('records commission owed on cash orders', () => {
+    const txs = deliveryTransactions(makeOrder('sup_1', { method: 'cash' }), DEFAULT_PAYOUT_POLICY, NOW);
+    expect(txs).toHaveLength(1);
+    expect(txs[0].kind).toBe('cash_commission');
+    expect(computeBalance(txs)).toMatchObject({ available: 0, cashDue: 150 });
+  });
+
+  it('credits cancellation compensation only when the fee was collected', () => {
+    const cancellation = {
+      by: 'customer' as const,
+      reasonCode: 'changed_mind',
+      statusAtCancel: 'en_route' as const,
+      fee: 150,
+      supplierCompensation: 120,
+      refundAmount: 850,
+    };
+    const paid = { ...makeOrder('sup_1', { status: 'partially_refunded' }), cancellation };
+    const tx = compensationTransaction(paid, NOW);
+    expect(tx && isBalanced(tx)).toBe(true);
+    expect(computeBalance([tx!]).available).toBe(120);
+
+    const cash = { ...makeOrder('sup_1', { method: 'cash' }), cancellation };
+    expect(compensationTransaction(cash, NOW)).toBeNull();
+  });
+
+  it('releases reserves once their window has passed, exactly once', () => {
+    const txs = deliveryTransactions(makeOrder('sup_1'), DEFAULT_PAYOUT_POLICY, NOW);
+    expect(dueReserveReleases(txs, new Date(NOW.getTime() + 6 * DAY_MS))).toEqual([]);
+
+    const later = new Date(NOW.getTime() + 7 * DAY_MS);
+    const releases = dueReserveReleases(txs, later);
+    expect(releases).toHaveLength(1);
+    expect(computeBalance([...txs, ...releases])).toMatchObject({ available: 850, reserve: 0 });
+    expect(dueReserveReleases([...txs, ...releases], later)).toEqual([]);
+  });
+
+  it('claws a refund back from the reserve first and releases only the rest', () => {
+    const order = makeOrder('sup_1', { refundedAmount: 50 });
+    const txs = deliveryTransactions(order, DEFAULT_PAYOUT_POLICY, NOW);
+    const small = refundClawbackTransaction(txs, order, { id: 'rfnd_1', amount: 50 }, NOW)!;
+    expect(isBalanced(small)).toBe(true);
+    // 85% of the refund is the supplier's, all of it still in reserve
+    expect(computeBalance([...txs, small])).toMatchObject({ available: 765, reserve: 42.5 });
+
+    const refunded = { ...order, payment: { ...order.payment, refundedAmount: 150 } };
+    const big = refundClawbackTransaction([...txs, small], refunded, { id: 'rfnd_2', amount: 100 }, NOW)!;
+    expect(computeBalance([...txs, small, big])).toMatchObject({
+      available: 722.5,
+      reserve: 0,
+      lifetimeEarnings: 722.5,
+    });
+    expect(dueReserveReleases([...txs, small, big], new Date(NOW.getTime() + 7 * DAY_MS))).toEqual([]);
+
+    const partly = dueReserveReleases([...txs, small], new Date(NOW.getTime() + 7 * DAY_MS));
+    expect(computeBalance([...txs, small, ...partly])).toMatchObject({ available: 807.5, reserve: 0 });
+  });
+
+  it('does not claw back a refund of an overpayment, or on cash orders', () => {
+    // A short delivery pro-rated the price below what was paid
+    const order = makeOrder('sup_1', { refundedAmount: 200 });
+    order.price = { ...order.price, total: 800, commission: 120, supplierEarning: 680 };
+    const txs = deliveryTransactions(order, DEFAULT_PAYOUT_POLICY, NOW);
+    expect(refundClawbackTransaction(txs, order, { id: 'rfnd_1', amount: 200 }, NOW)).toBeNull();
+
+    const more = { ...order, payment: { ...order.payment, refundedAmount: 300 } };
+    const tx = refundClawbackTransaction(txs, more, { id: 'rfnd_2', amount: 100 }, NOW);
+    expect(tx?.entries).toContainEqual({ account: 'platform_clearing', debit: 0, credit: 100 });
+
+    const cash = makeOrder('sup_1', { method: 'cash', refundedAmount: 100 });
+    expect(refundClawbackTransaction([], cash, { id: 'rfnd_3', amount: 100 }, NOW)).toBeNull();
+  });
+});
+
+describe('payout schedule', () => {
+  it('settles daily by date and weekly by the last scheduled weekday', () => {
+    expect(payoutPeriod(resolvePayoutPolicy({ frequency: 'daily' }), NOW)).toBe('2026-10-21');
+    expect(payoutPeriod(DEFAULT_PAYOUT_POLICY, NOW)).toBe('2026-10-19'); // Monday
+    expect(payoutPeriod(resolvePayoutPolicy({ weekday: 3 }), NOW)).toBe('2026-10-21');
+  });
+
+  it('pays the full available balance once it meets the minimum', () => {
+    const balance = { available: 765, reserve: 85, cashDue: 0, lifetimeEarnings: 850, totalPaidOut: 0 };
+    const input = { balance, policy: DEFAULT_PAYOUT_POLICY, hasBankDetails: true, paidPeriods: [], now: NOW };
+
+    expect(planPayout(input)).toEqual({ due: true, amount: 765, period: '2026-10-19' });
+    expect(planPayout({ ...input, balance: { ...balance, available: 499 } })).toMatchObject({
+      due: false,
+      reason: 'below_minimum',
+    });
+    expect(planPayout({ ...input, hasBankDetails: false })).toMatchObject({ reason: 'no_bank_details' });
+    expect(planPayout({ ...input, paidPeriods: ['2026-10-19'] })).toMatchObject({ reason: 'already_paid' });
+  });
+});
+
+describe('payouts (demo store)', () => {
+  afterEach(() => {
+    vi.mocked(razorpay.createPayout).mockClear();
+  });
+
+  it('posts delivery earnings idempotently', async () => {
+    const supplierId = makeSupplier();
+    const order = makeOrder(supplierId);
+
+    expect(await recordDeliveryEarnings(order, NOW)).toHaveLength(2);
+    expect(await recordDeliveryEarnings(order, NOW)).toHaveLength(0);
+    expect((await getSupplierWallet(supplierId, NOW)).balance.available).toBe(765);
+  });
+
+  it('pays out once per period through createPayout', async () => {
+    const supplierId = makeSupplier();
+    await recordDeliveryEarnings(makeOrder(supplierId), NOW);
+
+    const first = await runSupplierPayout(supplierId, NOW);
+    expect(first.outcome).toBe('paid');
+    if (first.outcome === 'paid') {
+      expect(first.payout).toMatchObject({ amount: 765, status: 'completed', accountLast4: '4521' });
+    }
+    expect(razorpay.createPayout).toHaveBeenCalledWith(
+      supplierId,
+      76500,
+      expect.objectContaining({ ifsc: 'HDFC0001234' })
+    );
+
+    const second = await runSupplierPayout(supplierId, NOW);
+    expect(second).toMatchObject({ outcome: 'skipped', reason: 'already_paid' });
+
+    const wallet = await getSupplierWallet(supplierId, NOW);
+    expect(wallet.balance).toMatchObject({ available: 0, reserve: 85, totalPaidOut: 765 });
+    expect(wallet.payouts).toHaveLength(1);
+  });
+
+  it('reverses a failed transfer and lets the period be retried', async () => {
+    const supplierId = makeSupplier();
+    await recordDeliveryEarnings(makeOrder(supplierId), NOW);
+    vi.mocked(razorpay.createPayout).mockRejectedValueOnce(new Error('Beneficiary bank offline'));
+
+    const failed = await runSupplierPayout(supplierId, NOW);
+    expect(failed.outcome).toBe('failed');
+    expect((await getSupplierWallet(supplierId, NOW)).balance.available).toBe(765);
+
+    const retried = await runSupplierPayout(supplierId, NOW);
+    expect(retried.outcome).toBe('paid');
+    const wallet = await getSupplierWallet(supplierId, NOW);
+    expect(wallet.payouts.map((p) => p.status)).toEqual(['failed', 'completed']);
+    expect(wallet.balance.available).toBe(0);
+  });
+
+  it('nets cash commission owed off the payout', async () => {
+    const supplierId = makeSupplier();
+    await recordDeliveryEarnings(makeOrder(supplierId), NOW);
+    await recordDeliveryEarnings(makeOrder(supplierId, { method: 'cash' }), NOW);
+
+    const result = await runSupplierPayout(supplierId, NOW);
+    expect(result).toMatchObject({ outcome: 'paid', payout: { amount: 615 } });
+    expect((await getSupplierWallet(supplierId, NOW)).balance).toMatchObject({
+      available: 0,
+      cashDue: 0,
+    });
+  });
+
+  it('skips suppliers without bank details', async () => {
+    const supplierId = makeSupplier(false);
+    await recordDeliveryEarnings(makeOrder(supplierId), NOW);
+    expect(await runSupplierPayout(supplierId, NOW)).toMatchObject({
+      outcome: 'skipped',
+      reason: 'no_bank_details',
+    });
+    expect(razorpay.createPayout).not.toHaveBeenCalled();
+  });
+});
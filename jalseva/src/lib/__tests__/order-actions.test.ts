@@ -0,0 +1,86 @@
+// =============================================================================
+// Test: Order Server Actions — Booking Starts Dispatch, Callers Need an Actor
+// Covers: Test plan items #6 (order flow), #7 (supplier matching)
+// =============================================================================
+
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { createOrder, updateOrderStatus } from '@/actions/orders';
+import { dispatcher } from '../dispatch';
+import * as store from '../demo-store';
+import type { CreateOrderRequest, DispatchInfo } from '@/types';
+
+const REQUEST: CreateOrderRequest = {
+  customerId: store.DEMO_IDS.customer,
+  waterType: 'ro',
+  quantityLitres: 500,
+  deliveryLocation: { lat: 28.61, lng: 77.2 },
+  paymentMethod: 'cash',
+};
+
+const OFFERING: DispatchInfo = {
+  status: 'offering',
+  radiusKm: 2,
+  maxRadiusKm: 10,
+  attempts: 1,
+  tried: [],
+};
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('createOrder (demo store)', () => {
+  it('stores the order and hands it to the dispatcher', async () => {
+    const dispatch = vi.spyOn(dispatcher, 'dispatch').mockResolvedValue(OFFERING);
+
+    const result = await createOrder(REQUEST);
+    if (!result.success) throw new Error(result.error);
+
+    expect(store.getOrder(result.order.id)).toMatchObject({
+      status: 'searching',
+      customerId: REQUEST.customerId,
+    });
+    expect(dispatch).toHaveBeenCalledWith(expect.objectContaining({ id: result.order.id }));
+    expect(result.dispatch).toEqual(OFFERING);
+  });
+
+  it('still books the order when dispatch fails', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(dispatcher, 'dispatch').mockRejectedValue(new Error('Redis down'));
+
+    const result = await createOrder(REQUEST);
+    if (!result.success) throw new Error(result.error);
+
+    expect(result.dispatch).toBeNull();
+    expect(store.getOrder(result.order.id)?.status).toBe('searching');
+  });
+});
+
+describe('updateOrderStatus (demo store)', () => {
+  it('never cancels on behalf of the system or an unconfirmed admin', async () => {
+    vi.spyOn(dispatcher, 'dispatch').mockResolvedValue(OFFERING);
+    const created = await createOrder(REQUEST);
+    if (!created.success) throw new Error(created.error);
+    const orderId = created.order.id;
+
+    expect(await updateOrderStatus(orderId, 'cancelled')).toMatchObject({ success: false });
+    expect(
+      await updateOrderStatus(orderId, 'cancelled', undefined, { id: 'system', role: 'system' })
+    ).toMatchObject({ success: false });
+    expect(
+      await updateOrderStatus(orderId, 'cancelled', undefined, {
+        id: REQUEST.customerId,
+        role: 'admin',
+      })
+    ).toMatchObject({ success: false, error: 'Unauthorized. Admin access required.' });
+    expect(store.getOrder(orderId)?.status).toBe('searching');
+
+    expect(
+      await updateOrderStatus(orderId, 'cancelled', undefined, {
+        id: REQUEST.customerId,
+        role: 'customer',
+      })
+    ).toEqual({ success: true });
+    expect(store.getOrder(orderId)?.status).toBe('cancelled');
+  });
+});
@@ -0,0 +1,267 @@
+// =============================================================================
+// Test: Order Lifecycle — Transition Table, Stamps, Side Effects, Audit Trail
+// Covers: Test plan item #7 (order status state machine)
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import {
+  ORDER_TRANSITIONS,
+  SYSTEM_ACTOR,
+  applyOrderPatch,
+  canTransition,
+  planTransition,
+  transitionStoreOrder,
+} from '../order-lifecycle';
+import * as store from '../demo-store';
+import type { Order, OrderStatus } from '@/types';
+
+const SUPPLIER = { id: 'sup_1', role: 'supplier' as const };
+const NOW = new Date('2026-10-19T10:00:00.000Z');
+
+function makeOrder(overrides: Partial<Order> = {}): Order {
+  return {
+    id: `ord_test_${Math.random().toString(36).slice(2, 8)}`,
+    customerId: 'cust_1',
+    waterType: 'ro',
+    quantityLitres: 20,
+    price: { base: 150, distance: 75, surge: 0, total: 225, commission: 34, supplierEarning: 191 },
+    status: 'searching',
+    deliveryLocation: { lat: 28.61, lng: 77.2, address: 'Test' },
+    payment: { method: 'upi', status: 'pending', amount: 225 },
+    createdAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe('canTransition', () => {
+  it('follows the transition table', () => {
+    expect(canTransition('searching', 'accepted')).toBe(true);
+    expect(canTransition('en_route', 'delivered')).toBe(true);
+    expect(canTransition('searching', 'delivered')).toBe(false);
+    expect(canTransition('accepted', 'searching')).toBe(false);
+  });
+
+  it('treats delivered and cancelled as terminal', () => {
+    for (const status of Object.keys(ORDER_TRANSITIONS) as OrderStatus[]) {
+      expect(canTransition('delivered', status)).toBe(false);
+      expect(canTransition('cancelled', status)).toBe(false);
+    }
+  });
+});
+
+describe('planTransition', () => {
+  it('rejects invalid transitions with the allowed list', () => {
+    const plan = planTransition(makeOrder({ status: 'delivered' }), 'cancelled', {
+      actor: SYSTEM_ACTOR,
+    });
+    expect(plan.success).toBe(false);
+    if (!plan.success) {
+      expect(plan.status).toBe(400);
+      expect(plan.error).toBe(
+        "Invalid status transition from 'delivered' to 'cancelled'. Allowed: none."
+      );
+    }
+  });
+
+  it('requires a supplier to accept', () => {
+    const plan = planTransition(makeOrder(), 'accepted', { actor: SUPPLIER });
+    expect(plan.success).toBe(false);
+  });
+
+  it('stamps the status timestamp and records the event', () => {
+    const order = makeOrder({ status: 'accepted', supplierId: 'sup_1' });
+    const plan = planTransition(order, 'en_route', { actor: SUPPLIER }, NOW);
+    expect(plan.success).toBe(true);
+    if (plan.success) {
+      expect(plan.patch).toMatchObject({ status: 'en_route', pickedAt: NOW, updatedAt: NOW });
+      expect(plan.event).toEqual({
+        id: `${order.id}_en_route`,
+        orderId: order.id,
+        from: 'accepted',
+        to: 'en_route',
+        actor: SUPPLIER,
+        at: NOW,
+      });
+    }
+  });
+
+  it('marks payment paid on delivery', () => {
+    const plan = planTransition(
+      makeOrder({
+        status: 'arriving',
+        supplierId: 'sup_1',
+        deliveryVerification: { otpVerifiedAt: NOW },
+      }),
+      'delivered',
+      { actor: SUPPLIER },
+      NOW
+    );
+    expect(plan.success && plan.patch).toMatchObject({
+      deliveredAt: NOW,
+      'payment.status': 'paid',
+    });
+  });
+
+  it('requires a verified delivery OTP unless an admin overrides with a reason', () => {
+    const order = makeOrder({ status: 'arriving', supplierId: 'sup_1' });
+    expect(planTransition(order, 'delivered', { actor: SUPPLIER })).toMatchObject({
+      success: false,
+      status: 409,
+    });
+    expect(
+      planTransition(order, 'delivered', { actor: SUPPLIER, otpOverride: true, reason: 'x' })
+    ).toMatchObject({ success: false, status: 403 });
+
+    const admin = { id: 'admin_1', role: 'admin' as const };
+    expect(planTransition(order, 'delivered', { actor: admin, otpOverride: true })).toMatchObject({
+      success: false,
+      status: 403,
+    });
+    const plan = planTransition(
+      order,
+      'delivered',
+      { actor: admin, otpOverride: true, reason: 'Confirmed on call' },
+      NOW
+    );
+    expect(plan.success && plan.patch['deliveryVerification.otpOverride']).toEqual({
+      by: 'admin_1',
+      reason: 'Confirmed on call',
+      at: NOW,
+    });
+    expect(plan.success && plan.event).toMatchObject({
+      reason: 'Confirmed on call',
+      metadata: { otpOverride: true },
+    });
+  });
+
+  it('keeps blocked suppliers off cash orders and delivers them with the cash collected', () => {
+    const order = makeOrder({ payment: { method: 'cash', status: 'pending', amount: 225 } });
+    const accept = { actor: SUPPLIER, patch: { supplierId: 'sup_1' } };
+    expect(planTransition(order, 'accepted', accept, NOW, { cashBlocked: true })).toMatchObject({
+      success: false,
+      status: 403,
+    });
+    expect(planTransition(order, 'accepted', accept, NOW, { cashBlocked: false }).success).toBe(true);
+    expect(
+      planTransition({ ...order, payment: { ...order.payment, method: 'upi' } }, 'accepted', accept, NOW, {
+        cashBlocked: true,
+      }).success
+    ).toBe(true);
+
+    const arrived = {
+      ...order,
+      status: 'arriving' as const,
+      supplierId: 'sup_1',
+      deliveryVerification: { otpVerifiedAt: NOW },
+    };
+    expect(planTransition(arrived, 'delivered', { actor: SUPPLIER }, NOW)).toMatchObject({
+      success: false,
+      status: 400,
+    });
+    expect(
+      planTransition(arrived, 'delivered', { actor: SUPPLIER, cashCollected: 200 }, NOW)
+    ).toMatchObject({ success: false, status: 400 });
+    const plan = planTransition(arrived, 'delivered', { actor: SUPPLIER, cashCollected: 225 }, NOW);
+    expect(plan.success && plan.patch).toMatchObject({
+      'payment.status': 'paid',
+      'payment.cashCollection': { amount: 225, collectedBy: 'sup_1', collectedAt: NOW },
+    });
+  });
+
+  it('keeps the cancellation reason and leaves payment to the cancellation policy', () => {
+    const order = makeOrder({
+      status: 'accepted',
+      supplierId: 'sup_1',
+      payment: { method: 'upi', status: 'paid', amount: 225 },
+    });
+    const plan = planTransition(order, 'cancelled', {
+      actor: { id: 'cust_1', role: 'customer' },
+      reason: 'Changed my mind',
+    });
+    expect(plan.success).toBe(true);
+    if (plan.success) {
+      expect(plan.patch.cancellationReason).toBe('Changed my mind');
+      expect(plan.patch['payment.status']).toBeUndefined();
+      expect(plan.event.reason).toBe('Changed my mind');
+    }
+  });
+
+  it('evaluates a patch function against the current order', () => {
+    const order = makeOrder({ status: 'accepted', supplierId: 'sup_1' });
+    const plan = planTransition(order, 'cancelled', {
+      actor: SYSTEM_ACTOR,
+      patch: (current) => ({ 'cancellation.statusAtCancel': current.status }),
+    });
+    expect(plan.success && plan.patch['cancellation.statusAtCancel']).toBe('accepted');
+  });
+});
+
+describe('applyOrderPatch', () => {
+  it('applies dot-notation keys without mutating the input', () => {
+    const order = makeOrder();
+    const next = applyOrderPatch(order, { status: 'delivered', 'payment.status': 'paid' });
+    expect(next.status).toBe('delivered');
+    expect(next.payment).toEqual({ method: 'upi', status: 'paid', amount: 225 });
+    expect(order.payment.status).toBe('pending');
+  });
+});
+
+describe('transitionStoreOrder', () => {
+  it('walks an order through its lifecycle with a full audit trail', () => {
+    const order = makeOrder({ deliveryVerification: { otpVerifiedAt: NOW } });
+    store.upsertOrder(order);
+
+    const steps: OrderStatus[] = ['accepted', 'en_route', 'arriving', 'delivered'];
+    for (const to of steps) {
+      const result = transitionStoreOrder(order.id, to, {
+        actor: SUPPLIER,
+        patch: to === 'accepted' ? { supplierId: 'sup_1' } : undefined,
+      });
+      expect(result.success).toBe(true);
+    }
+
+    const stored = store.getOrder(order.id)!;
+    expect(stored.status).toBe('delivered');
+    expect(stored.supplierId).toBe('sup_1');
+    expect(stored.acceptedAt).toBeInstanceOf(Date);
+    expect(stored.deliveredAt).toBeInstanceOf(Date);
+    expect(stored.payment.status).toBe('paid');
+    expect(store.listOrderEvents(order.id).map((e) => `${e.from}>${e.to}`)).toEqual([
+      'searching>accepted',
+      'accepted>en_route',
+      'en_route>arriving',
+      'arriving>delivered',
+    ]);
+  });
+
+  it('leaves the order untouched when the transition is invalid', () => {
+    const order = makeOrder();
+    store.upsertOrder(order);
+
+    const result = transitionStoreOrder(order.id, 'delivered', { actor: SYSTEM_ACTOR });
+    expect(result.success).toBe(false);
+    expect(store.getOrder(order.id)!.status).toBe('searching');
+    expect(store.listOrderEvents(order.id)).toEqual([]);
+  });
+
+  it('reads the cash block of the supplier accepting a cash order', () => {
+    const supplier = store.getSupplier(store.DEMO_IDS.supplier)!;
+    const supplierId = 'sup_lifecycle_cash';
+    store.upsertSupplier({ ...supplier, id: supplierId, cashBlocked: true });
+    const order = makeOrder({ payment: { method: 'cash', status: 'pending', amount: 225 } });
+    store.upsertOrder(order);
+
+    const result = transitionStoreOrder(order.id, 'accepted', {
+      actor: { id: supplierId, role: 'supplier' },
+      patch: { supplierId },
+    });
+    expect(result).toMatchObject({ success: false, status: 403 });
+    expect(store.getOrder(order.id)!.status).toBe('searching');
+    store.upsertSupplier({ ...supplier, id: supplierId, cashBlocked: false });
+  });
+
+  it('returns 404 for unknown orders', () => {
+    const result = transitionStoreOrder('missing', 'cancelled', { actor: SYSTEM_ACTOR });
+    expect(result).toMatchObject({ success: false, status: 404 });
+  });
+});
@@ -0,0 +1,193 @@
+// =============================================================================
+// Test: Payment Webhooks — Signatures, Reconciliation, Idempotency
+// Covers: Test plan item #6 (order flow: payment confirmation)
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import {
+  handlePaymentWebhook,
+  reconcilePayment,
+  type RazorpayWebhookEvent,
+} from '../payment-webhook';
+import { simulateWebhook, verifyWebhookSignature } from '../razorpay';
+import * as store from '../demo-store';
+import type { Order, PaymentInfo } from '@/types';
+
+const NOW = new Date('2026-10-19T10:00:00.000Z');
+
+function makeOrder(payment: Partial<PaymentInfo> = {}): Order {
+  const id = `ord_webhook_${Math.random().toString(36).slice(2, 8)}`;
+  return {
+    id,
+    customerId: 'cust_1',
+    waterType: 'ro',
+    quantityLitres: 20,
+    price: { base: 150, distance: 75, surge: 0, total: 225, commission: 34, supplierEarning: 191 },
+    status: 'searching',
+    deliveryLocation: { lat: 28.61, lng: 77.2 },
+    payment: { method: 'upi', status: 'pending', amount: 225, razorpayOrderId: `order_${id}`, ...payment },
+    createdAt: new Date(),
+  };
+}
+
+function captured(order: Order, paymentId = `pay_${order.id}`): RazorpayWebhookEvent {
+  return {
+    event: 'payment.captured',
+    payload: {
+      payment: { entity: { id: paymentId, order_id: order.payment.razorpayOrderId, amount: 22500 } },
+    },
+  };
+}
+
+function failed(order: Order): RazorpayWebhookEvent {
+  return {
+    event: 'payment.failed',
+    payload: {
+      payment: {
+        entity: {
+          id: `pay_failed_${order.id}`,
+          order_id: order.payment.razorpayOrderId,
+          amount: 22500,
+          error_description: 'Bank declined',
+        },
+      },
+    },
+  };
+}
+
+function refundProcessed(paymentId: string, refundId: string, paise: number): RazorpayWebhookEvent {
+  return {
+    event: 'refund.processed',
+    payload: { refund: { entity: { id: refundId, payment_id: paymentId, amount: paise } } },
+  };
+}
+
+describe('webhook signatures', () => {
+  it('accepts a simulated delivery and rejects a tampered body', () => {
+    const delivery = simulateWebhook('payment.captured', {
+      payment: { entity: { id: 'pay_sig', amount: 100 } },
+    });
+    expect(verifyWebhookSignature(delivery.body, delivery.signature)).toBe(true);
+    expect(verifyWebhookSignature(delivery.body.replace('100', '999'), delivery.signature)).toBe(false);
+    expect(verifyWebhookSignature(delivery.body, 'not-hex')).toBe(false);
+  });
+
+  it('gives a redelivered event the same id', () => {
+    const payload = { payment: { entity: { id: 'pay_same', amount: 100 } } };
+    expect(simulateWebhook('payment.captured', payload).eventId).toBe(
+      simulateWebhook('payment.captured', payload).eventId
+    );
+  });
+});
+
+describe('reconcilePayment', () => {
+  it('marks a pending or failed payment paid on capture', () => {
+    const order = makeOrder();
+    expect(reconcilePayment(order, captured(order, 'pay_1'), NOW)).toEqual({
+      'payment.status': 'paid',
+      'payment.razorpayPaymentId': 'pay_1',
+      'payment.transactionId': 'pay_1',
+      'payment.paidAt': NOW,
+    });
+    expect(reconcilePayment(makeOrder({ status: 'failed' }), captured(order), NOW)).not.toBeNull();
+  });
+
+  it('never downgrades a paid or refunded payment', () => {
+    const paid = makeOrder({ status: 'paid' });
+    expect(reconcilePayment(paid, captured(paid))).toBeNull();
+    expect(reconcilePayment(paid, failed(paid))).toBeNull();
+    expect(reconcilePayment(makeOrder({ status: 'refunded' }), captured(paid))).toBeNull();
+  });
+
+  it('records the failure reason on a pending payment', () => {
+    const order = makeOrder();
+    expect(reconcilePayment(order, failed(order))).toMatchObject({
+      'payment.status': 'failed',
+      'payment.failureReason': 'Bank declined',
+    });
+  });
+
+  it('marks a pending refund processed', () => {
+    const order = makeOrder({
+      status: 'partially_refunded',
+      razorpayPaymentId: 'pay_r',
+      refundedAmount: 50,
+      refunds: [
+        { id: 'rfnd_1', amount: 50, status: 'pending', reason: 'goodwill', initiatedBy: 'admin_1', createdAt: NOW },
+      ],
+    });
+    const patch = reconcilePayment(order, refundProcessed('pay_r', 'rfnd_1', 5000), NOW);
+    expect(patch).toEqual({
+      'payment.refunds': [{ ...order.payment.refunds![0], status: 'processed', processedAt: NOW }],
+    });
+  });
+
+  it('records a refund issued outside JalSeva and moves the balance', () => {
+    const order = makeOrder({ status: 'paid', razorpayPaymentId: 'pay_r' });
+    const patch = reconcilePayment(order, refundProcessed('pay_r', 'rfnd_ext', 22500), NOW);
+    expect(patch).toMatchObject({
+      'payment.status': 'refunded',
+      'payment.refundedAmount': 225,
+      'payment.refundId': 'rfnd_ext',
+    });
+  });
+});
+
+describe('handlePaymentWebhook (demo store)', () => {
+  it('reconciles the order and ignores redeliveries of the same event', async () => {
+    const order = makeOrder();
+    store.upsertOrder(order);
+
+    const first = await handlePaymentWebhook(`evt_1_${order.id}`, captured(order));
+    expect(first).toEqual({ outcome: 'processed', orderId: order.id });
+    expect(store.getOrder(order.id)!.payment.status).toBe('paid');
+
+    // A late failure for the same order must not undo the capture
+    const late = await handlePaymentWebhook(`evt_2_${order.id}`, failed(order));
+    expect(late.outcome).toBe('unchanged');
+
+    const again = await handlePaymentWebhook(`evt_1_${order.id}`, captured(order));
+    expect(again.outcome).toBe('duplicate');
+    expect(store.getOrder(order.id)!.payment.status).toBe('paid');
+  });
+
+  it('finds refunded orders by payment id', async () => {
+    const order = makeOrder({ status: 'paid', razorpayPaymentId: 'pay_lookup_refund' });
+    store.upsertOrder(order);
+
+    const result = await handlePaymentWebhook(
+      `evt_refund_${order.id}`,
+      refundProcessed('pay_lookup_refund', 'rfnd_lookup', 10000)
+    );
+    expect(result.outcome).toBe('processed');
+    expect(store.getOrder(order.id)!.payment).toMatchObject({
+      status: 'partially_refunded',
+      refundedAmount: 100,
+    });
+  });
+
+  it('applies a redelivery racing the first delivery only once', async () => {
+    const order = makeOrder({ status: 'paid', razorpayPaymentId: 'pay_race_refund' });
+    store.upsertOrder(order);
+    const event = refundProcessed('pay_race_refund', 'rfnd_race', 5000);
+
+    const outcomes = await Promise.all([
+      handlePaymentWebhook(`evt_race_${order.id}`, event),
+      handlePaymentWebhook(`evt_race_${order.id}`, event),
+    ]);
+    expect(outcomes.map((r) => r.outcome).sort()).toEqual(['duplicate', 'processed']);
+    expect(store.getOrder(order.id)!.payment).toMatchObject({ refundedAmount: 50 });
+    expect(store.getOrder(order.id)!.payment.refunds).toHaveLength(1);
+  });
+
+  it('leaves unmatched events open for redelivery but settles unknown types', async () => {
+    const ghost = makeOrder();
+    const unmatched = await handlePaymentWebhook('evt_ghost', captured(ghost));
+    expect(unmatched.outcome).toBe('unmatched');
+    expect(store.hasWebhookEvent('evt_ghost')).toBe(false);
+
+    const other = await handlePaymentWebhook('evt_other', { event: 'order.paid', payload: {} });
+    expect(other.outcome).toBe('ignored');
+    expect(store.hasWebhookEvent('evt_other')).toBe(true);
+  });
+});
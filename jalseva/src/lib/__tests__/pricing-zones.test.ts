@@ -0,0 +1,123 @@
+// =============================================================================
+// Test: Pricing Zones — Polygon Boundaries, Overlap Priority, Default Zone
+// Covers: Test plan item #6 (order pricing)
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import {
+  boundariesOverlap,
+  isInsideBoundary,
+  parseBoundary,
+  zoneForLocation,
+} from '../pricing-zones';
+import { quoteOrder } from '../pricing/server';
+import { DEFAULT_ZONE, resolveZone } from '../pricing';
+import * as store from '../demo-store';
+import type { PricingZone, ZoneVertex } from '@/types';
+
+/** A square `size` degrees wide with its south-west corner at (lat, lng). */
+function square(lat: number, lng: number, size: number): ZoneVertex[] {
+  return [
+    { lat, lng },
+    { lat, lng: lng + size },
+    { lat: lat + size, lng: lng + size },
+    { lat: lat + size, lng },
+  ];
+}
+
+function zone(id: string, overrides: Partial<PricingZone> = {}): PricingZone {
+  return resolveZone({ id, name: id, ...overrides });
+}
+
+describe('zone boundaries', () => {
+  it('contains points inside a concave polygon and not in its notch', () => {
+    // An L: the square 0–2, less its north-east quarter
+    const ell = [
+      { lat: 0, lng: 0 },
+      { lat: 0, lng: 2 },
+      { lat: 1, lng: 2 },
+      { lat: 1, lng: 1 },
+      { lat: 2, lng: 1 },
+      { lat: 2, lng: 0 },
+    ];
+    expect(isInsideBoundary({ lat: 0.5, lng: 1.5 }, ell)).toBe(true);
+    expect(isInsideBoundary({ lat: 1.5, lng: 0.5 }, ell)).toBe(true);
+    expect(isInsideBoundary({ lat: 1.5, lng: 1.5 }, ell)).toBe(false);
+    expect(isInsideBoundary({ lat: 3, lng: 0.5 }, ell)).toBe(false);
+  });
+
+  it('rejects boundaries that are too short, cross themselves or enclose nothing', () => {
+    expect(parseBoundary('not a list')).toHaveProperty('error');
+    expect(parseBoundary(square(28, 77, 0.1).slice(0, 2))).toHaveProperty('error');
+    const bowtie = [
+      { lat: 28, lng: 77 },
+      { lat: 28.1, lng: 77.1 },
+      { lat: 28, lng: 77.1 },
+      { lat: 28.1, lng: 77 },
+    ];
+    expect(parseBoundary(bowtie)).toEqual({ error: 'The zone boundary crosses itself.' });
+    const line = [
+      { lat: 28, lng: 77 },
+      { lat: 28.05, lng: 77.05 },
+      { lat: 28.1, lng: 77.1 },
+    ];
+    expect(parseBoundary(line)).toEqual({ error: 'The zone boundary encloses no area.' });
+
+    // A repeated closing corner is dropped
+    const closed = [...square(28, 77, 0.1), { lat: 28, lng: 77 }];
+    expect(parseBoundary(closed)).toEqual({ boundary: square(28, 77, 0.1) });
+  });
+});
+
+describe('zoneForLocation', () => {
+  const city = zone('city', { boundary: square(28.4, 76.9, 0.5) });
+  const market = zone('market', { boundary: square(28.6, 77.2, 0.05) });
+  const airport = zone('airport', { boundary: square(28.55, 77.05, 0.1), priority: 5 });
+  const point = (lat: number, lng: number) => ({ lat, lng });
+
+  it('prefers the higher priority, then the smaller zone, where zones overlap', () => {
+    const zones = [city, market, airport];
+    expect(boundariesOverlap(city.boundary!, market.boundary!)).toBe(true);
+    expect(zoneForLocation(zones, point(28.62, 77.22)).id).toBe('market');
+    expect(zoneForLocation(zones, point(28.6, 77.1)).id).toBe('airport');
+    expect(zoneForLocation(zones, point(28.5, 77.3)).id).toBe('city');
+
+    // A lower-priority zone loses even when smaller
+    const lowMarket = { ...market, priority: -1 };
+    expect(zoneForLocation([city, lowMarket], point(28.62, 77.22)).id).toBe('city');
+  });
+
+  it('falls back to the default zone outside every boundary', () => {
+    const outside = point(19.07, 72.87);
+    expect(zoneForLocation([city, market], outside)).toEqual(DEFAULT_ZONE);
+
+    const fallback = zone('rest_of_india', { isDefault: true, perKmRate: 20 });
+    expect(zoneForLocation([city, fallback], outside)).toMatchObject({
+      id: 'rest_of_india',
+      perKmRate: 20,
+    });
+    // A zone without a boundary is never matched by location
+    expect(zoneForLocation([fallback], point(28.62, 77.22)).id).toBe('rest_of_india');
+  });
+
+  it('prices orders by the zone at the delivery location (demo store)', async () => {
+    store.savePricingZone(
+      zone('test_cp', {
+        boundary: square(28.6, 77.2, 0.05),
+        basePrice: { ro: 100, mineral: 0, tanker: 0 },
+      })
+    );
+    try {
+      const inside = await quoteOrder({ waterType: 'ro', quantityLitres: 20 }, point(28.62, 77.22));
+      expect(inside.context.zone.id).toBe('test_cp');
+      expect(inside.price.base).toBe(100);
+      expect(inside.price.trace?.zoneId).toBe('test_cp');
+
+      const outside = await quoteOrder({ waterType: 'ro', quantityLitres: 20 }, point(19.07, 72.87));
+      expect(outside.context.zone.id).toBe('default');
+      expect(outside.price.base).toBe(DEFAULT_ZONE.basePrice.ro);
+    } finally {
+      store.deletePricingZone('test_cp');
+    }
+  });
+});
@@ -0,0 +1,142 @@
+// =============================================================================
+// Test: Pricing Engine — Formula, Rule Trace, Zones, Demand, Beckn Quote
+// Covers: Test plan item #6 (order pricing)
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import {
+  calculateOrderPrice,
+  resolveZone,
+  getSurgeMultiplier,
+  toBecknQuote,
+  DEFAULT_ZONE,
+  DEFAULT_DISTANCE_KM,
+  DEFAULT_MAX_SURGE_MULTIPLIER,
+  PRICING_VERSION,
+} from '../pricing';
+
+describe('calculateOrderPrice', () => {
+  it('uses the default zone and distance when none given', () => {
+    const price = calculateOrderPrice({ waterType: 'ro', quantityLitres: 20 });
+    expect(price.base).toBe(150);
+    // 5km * 15/km * (20/20)
+    expect(price.distance).toBe(DEFAULT_DISTANCE_KM * 15);
+    expect(price.surge).toBe(0);
+    expect(price.total).toBe(225);
+  });
+
+  it('records a versioned rule trace whose lines sum to the total', () => {
+    const price = calculateOrderPrice({
+      waterType: 'mineral',
+      quantityLitres: 40,
+      distanceKm: 3,
+      demandLevel: 'high',
+    });
+    expect(price.trace?.version).toBe(PRICING_VERSION);
+    expect(price.trace?.zoneId).toBe('default');
+    expect(price.trace?.demandLevel).toBe('high');
+    expect(price.trace?.lines.map((l) => l.rule)).toEqual(['base', 'distance', 'surge']);
+
+    const sum = price.trace!.lines.reduce((s, l) => s + l.amount, 0);
+    expect(Math.abs(sum - price.total)).toBeLessThanOrEqual(1); // rounding
+  });
+
+  it('applies demand multipliers, using the zone multiplier for surge', () => {
+    const zone = { surgeMultiplier: 2 };
+    const low = calculateOrderPrice({ waterType: 'ro', quantityLitres: 20, demandLevel: 'low' });
+    const surge = calculateOrderPrice({
+      waterType: 'ro',
+      quantityLitres: 20,
+      zone,
+      demandLevel: 'surge',
+    });
+    expect(low.surge).toBeLessThan(0);
+    expect(surge.total).toBe(450); // 225 * 2
+    expect(surge.trace?.surgeMultiplier).toBe(2);
+  });
+
+  it('caps the surge multiplier at the admin maximum', () => {
+    const zone = { surgeMultiplier: 4 };
+    const capped = calculateOrderPrice({ waterType: 'ro', quantityLitres: 20, zone, demandLevel: 'surge' });
+    expect(capped.trace?.surgeMultiplier).toBe(DEFAULT_MAX_SURGE_MULTIPLIER);
+
+    const price = calculateOrderPrice({
+      waterType: 'ro',
+      quantityLitres: 20,
+      zone,
+      demandLevel: 'surge',
+      settings: { maxSurgeMultiplier: 1.5 },
+    });
+    expect(price.total).toBe(338); // 225 * 1.5, not * 4
+    expect(price.trace?.lines.find((l) => l.rule === 'surge')?.detail).toBe(
+      'surge demand x1.5 (capped from x4)'
+    );
+  });
+
+  it('falls back to the zone demand level', () => {
+    const price = calculateOrderPrice({
+      waterType: 'ro',
+      quantityLitres: 20,
+      zone: { demandLevel: 'high' },
+    });
+    expect(price.trace?.demandLevel).toBe('high');
+    expect(price.trace?.surgeMultiplier).toBe(1.3);
+  });
+
+  it('applies a percentage discount after surge', () => {
+    const price = calculateOrderPrice({
+      waterType: 'ro',
+      quantityLitres: 20,
+      discountPercent: 10,
+    });
+    expect(price.discount).toBe(23); // round(225 * 0.1)
+    expect(price.total).toBe(202);
+    expect(price.trace?.lines.at(-1)).toMatchObject({ rule: 'discount', amount: -23 });
+  });
+
+  it('uses admin commission settings', () => {
+    const price = calculateOrderPrice({
+      waterType: 'tanker',
+      quantityLitres: 500,
+      distanceKm: 2,
+      settings: { commissionPercent: 20 },
+    });
+    expect(price.commission).toBe(Math.round(price.total * 0.2));
+    expect(price.commission + price.supplierEarning).toBe(price.total);
+  });
+});
+
+describe('resolveZone', () => {
+  it('returns the default zone for null', () => {
+    expect(resolveZone(null)).toEqual(DEFAULT_ZONE);
+  });
+
+  it('keeps default base prices for missing or zero entries', () => {
+    const zone = resolveZone({ id: 'north', basePrice: { ro: 180, mineral: 0, tanker: 0 } });
+    expect(zone.id).toBe('north');
+    expect(zone.basePrice).toEqual({ ro: 180, mineral: 200, tanker: 500 });
+    expect(zone.perKmRate).toBe(15);
+  });
+});
+
+describe('getSurgeMultiplier', () => {
+  it('maps demand levels to multipliers', () => {
+    expect(getSurgeMultiplier('low')).toBe(0.9);
+    expect(getSurgeMultiplier('normal')).toBe(1.0);
+    expect(getSurgeMultiplier('high')).toBe(1.3);
+    expect(getSurgeMultiplier('surge', { ...DEFAULT_ZONE, surgeMultiplier: 2.5 })).toBe(2.5);
+  });
+});
+
+describe('toBecknQuote', () => {
+  it('builds the quote breakup from the rule trace', () => {
+    const price = calculateOrderPrice({ waterType: 'ro', quantityLitres: 20 });
+    const quote = toBecknQuote(price);
+    expect(quote.price).toEqual({ currency: 'INR', value: '225.00' });
+    expect(quote.breakup.map((b) => b.title)).toEqual([
+      'Base Price',
+      'Distance Charge',
+      'Surge',
+    ]);
+  });
+});
@@ -0,0 +1,268 @@
+// =============================================================================
+// Test: Water Quality — Report History, Drift Alerts, Suspension, Certificates
+// Covers: Test plan item #6 (dispatch: only suppliers offering the water type)
+// =============================================================================
+
+import { beforeAll, describe, it, expect } from 'vitest';
+import {
+  calculateQualityScore,
+  findAccreditedLab,
+  planSuspension,
+  qualityTrend,
+  reportAlerts,
+  reportStatus,
+} from '../quality';
+import {
+  addAccreditedLab,
+  getQualityHistory,
+  listCertificateQueue,
+  readQualityCertificate,
+  removeAccreditedLab,
+  reviewQualityReport,
+  submitQualityReport,
+  sweepExpiredReports,
+} from '../quality/server';
+import * as store from '../demo-store';
+
+const NOW = new Date('2026-10-19T10:00:00.000Z');
+const DAY = 86_400_000;
+const PDF = new TextEncoder().encode('%PDF-1.4 lab certificate');
+const ADMIN = store.DEMO_IDS.admin;
+
+beforeAll(async () => {
+  // Already registered when the store is shared with an earlier run
+  await addAccreditedLab({ name: 'NABL Lab', addedBy: ADMIN });
+});
+
+function makeSupplier(testedDaysAgo = 5): string {
+  const seeded = store.getSupplier(store.DEMO_IDS.supplier)!;
+  const id = `sup_quality_${Math.random().toString(36).slice(2, 8)}`;
+  store.upsertSupplier({
+    ...seeded,
+    id,
+    userId: id,
+    waterTypes: ['ro', 'mineral'],
+    qualitySuspension: undefined,
+    waterQualityReport: {
+      ph: 7.2,
+      tds: 180,
+      testedAt: new Date(NOW.getTime() - testedDaysAgo * DAY),
+      labName: 'Test Lab',
+      fssaiCompliant: true,
+    },
+  });
+  return id;
+}
+
+describe('quality report rules', () => {
+  const reading = { ph: 7.2, tds: 180, testedAt: NOW };
+
+  it('classifies the latest report', () => {
+    expect(reportStatus(undefined, NOW)).toBe('missing');
+    expect(reportStatus(reading, NOW)).toBe('safe');
+    expect(reportStatus({ ...reading, tds: 620 }, NOW)).toBe('unsafe');
+    expect(reportStatus({ ...reading, ph: 6.4 }, NOW)).toBe('unsafe');
+    expect(reportStatus({ ...reading, testedAt: new Date(NOW.getTime() - 91 * DAY) }, NOW)).toBe(
+      'expired'
+    );
+  });
+
+  it('flags readings that drift out of range', () => {
+    expect(reportAlerts(reading, undefined, NOW)).toEqual([]);
+    expect(reportAlerts({ ...reading, tds: 540 }, reading, NOW)).toEqual([
+      expect.objectContaining({ kind: 'tds_out_of_range', value: 540, previousValue: 180 }),
+    ]);
+    const still = reportAlerts({ ...reading, ph: 9 }, { ...reading, ph: 8.9 }, NOW);
+    expect(still[0]).toMatchObject({ kind: 'ph_out_of_range' });
+    expect(still[0]).not.toHaveProperty('previousValue');
+  });
+
+  it('charts reports oldest first', () => {
+    const trend = qualityTrend([
+      { ...reading, tds: 600 },
+      { ...reading, testedAt: new Date(NOW.getTime() - 30 * DAY) },
+    ]);
+    expect(trend.map((p) => p.tds)).toEqual([180, 600]);
+    expect(trend[1]).toMatchObject({ phInRange: true, tdsInRange: false });
+  });
+
+  it('suspends every water type and restores them when safe', () => {
+    const supplier = { waterTypes: ['ro' as const, 'tanker' as const] };
+    const suspended = planSuspension(supplier, 'unsafe', NOW, 'qr_1');
+    expect(suspended).toEqual({
+      waterTypes: [],
+      qualitySuspension: { waterTypes: ['ro', 'tanker'], reason: 'unsafe', since: NOW, reportId: 'qr_1' },
+    });
+    const after = { waterTypes: [], qualitySuspension: suspended!.qualitySuspension! };
+    expect(planSuspension(after, 'unsafe', NOW)).toBeNull();
+    expect(planSuspension(after, 'safe', NOW)).toEqual({
+      waterTypes: ['ro', 'tanker'],
+      qualitySuspension: null,
+    });
+    expect(planSuspension(supplier, 'missing', NOW)).toBeNull();
+  });
+
+  it('gives FSSAI and freshness points to verified certificates only', () => {
+    const report = { ...reading, fssaiCompliant: true, supplierRating: 4.6 };
+    expect(calculateQualityScore(report, NOW)).toBe(45);
+    expect(calculateQualityScore({ ...report, verification: { status: 'pending' } }, NOW)).toBe(45);
+    expect(calculateQualityScore({ ...report, verification: { status: 'verified' } }, NOW)).toBe(100);
+  });
+
+  it('matches lab names ignoring case and punctuation', () => {
+    const labs = [{ name: 'Aqua Testing Labs Pvt. Ltd.' }];
+    expect(findAccreditedLab(labs, 'AQUA testing labs pvt ltd')).toBe(labs[0]);
+    expect(findAccreditedLab(labs, 'Aqua Testing')).toBeNull();
+    expect(findAccreditedLab(labs, '  ')).toBeNull();
+  });
+});
+
+describe('quality reports (demo store)', () => {
+  it('keeps the history and suspends on an unsafe report until a verified safe one', async () => {
+    const supplierId = makeSupplier();
+    const input = { supplierId, ph: 7.1, tds: 200, labName: 'NABL Lab', fssaiCompliant: true };
+
+    const first = await submitQualityReport(input, new Date(NOW.getTime() - 30 * DAY));
+    expect(first).toMatchObject({ success: true, suspension: null, report: { status: 'safe' } });
+
+    const unsafe = await submitQualityReport({ ...input, tds: 650 }, NOW);
+    expect(unsafe).toMatchObject({
+      success: true,
+      report: { status: 'unsafe', alerts: [{ kind: 'tds_out_of_range', previousValue: 200 }] },
+      suspension: { reason: 'unsafe', waterTypes: ['ro', 'mineral'] },
+    });
+    expect(store.getSupplier(supplierId)?.waterTypes).toEqual([]);
+
+    const history = await getQualityHistory(supplierId, NOW);
+    expect(history).toMatchObject({ status: 'unsafe', suspension: { reason: 'unsafe' } });
+    expect(history.trend.map((p) => p.tds)).toEqual([200, 650]);
+
+    const safe = await submitQualityReport(
+      { ...input, certificate: PDF },
+      new Date(NOW.getTime() + DAY)
+    );
+    if (!safe.success) throw new Error(safe.error);
+    // Stays suspended until an admin verifies the certificate
+    expect(safe).toMatchObject({ suspension: { reason: 'unsafe' } });
+    expect(store.getSupplier(supplierId)?.waterTypes).toEqual([]);
+
+    await reviewQualityReport(safe.report.id, { adminId: ADMIN, decision: 'verified' }, NOW);
+    expect(store.getSupplier(supplierId)).toMatchObject({ waterTypes: ['ro', 'mineral'] });
+    expect(store.getSupplier(supplierId)?.qualitySuspension).toBeUndefined();
+  });
+
+  it('rejects bad readings and unknown suppliers', async () => {
+    const input = { supplierId: makeSupplier(), ph: 7, tds: 200, labName: 'Lab' };
+    expect(await submitQualityReport({ ...input, ph: 15 }, NOW)).toMatchObject({ status: 400 });
+    expect(await submitQualityReport({ ...input, labName: ' ' }, NOW)).toMatchObject({ status: 400 });
+    expect(await submitQualityReport({ ...input, supplierId: 'sup_missing' }, NOW)).toMatchObject({
+      status: 404,
+    });
+  });
+
+  it('suspends suppliers whose report has expired, once', async () => {
+    const stale = makeSupplier(120);
+    const fresh = makeSupplier(10);
+
+    const results = await sweepExpiredReports(NOW);
+    expect(results).toContainEqual(
+      expect.objectContaining({ supplierId: stale, suspended: expect.objectContaining({ reason: 'expired' }) })
+    );
+    expect(results).not.toContainEqual(expect.objectContaining({ supplierId: fresh }));
+    expect(store.getSupplier(stale)?.waterTypes).toEqual([]);
+
+    expect(await sweepExpiredReports(NOW)).not.toContainEqual(
+      expect.objectContaining({ supplierId: stale })
+    );
+  });
+});
+
+describe('certificate review (demo store)', () => {
+  it('stores the certificate and scores it once verified', async () => {
+    const supplierId = makeSupplier();
+    const input = { supplierId, ph: 7.2, tds: 180, labName: 'NABL Lab', fssaiCompliant: true };
+
+    expect(
+      await submitQualityReport({ ...input, certificate: new TextEncoder().encode('not a pdf') }, NOW)
+    ).toMatchObject({ status: 415 });
+
+    const pending = await submitQualityReport({ ...input, certificate: PDF }, NOW);
+    if (!pending.success) throw new Error(pending.error);
+    expect(pending.report).toMatchObject({
+      certificateContentType: 'application/pdf',
+      verification: { status: 'pending' },
+    });
+    expect(await listCertificateQueue()).toContainEqual({
+      report: expect.objectContaining({ id: pending.report.id }),
+      lab: expect.objectContaining({ name: 'NABL Lab' }),
+    });
+
+    const file = await readQualityCertificate(pending.report.id, supplierId);
+    expect(file).toMatchObject({ success: true, contentType: 'application/pdf' });
+    expect(await readQualityCertificate(pending.report.id, ADMIN)).toMatchObject({ success: true });
+    expect(await readQualityCertificate(pending.report.id, 'sup_other')).toMatchObject({ status: 403 });
+
+    // Only a user whose record makes them an admin can review
+    expect(
+      await reviewQualityReport(pending.report.id, { adminId: supplierId, decision: 'verified' }, NOW)
+    ).toMatchObject({ status: 403 });
+
+    const verified = await reviewQualityReport(
+      pending.report.id,
+      { adminId: ADMIN, decision: 'verified' },
+      NOW
+    );
+    expect(verified).toMatchObject({
+      success: true,
+      report: { verification: { status: 'verified', reviewedBy: ADMIN } },
+      qualityScore: pending.qualityScore + 55,
+    });
+    expect(store.getSupplier(supplierId)?.qualityScore).toBe(pending.qualityScore + 55);
+  });
+
+  it('only verifies registered labs and needs a reason to reject', async () => {
+    const supplierId = makeSupplier();
+    const pending = await submitQualityReport(
+      { supplierId, ph: 7.2, tds: 180, labName: 'Backyard Lab', fssaiCompliant: true, certificate: PDF },
+      NOW
+    );
+    if (!pending.success) throw new Error(pending.error);
+    const reportId = pending.report.id;
+
+    expect(
+      (await listCertificateQueue()).find((item) => item.report.id === reportId)
+    ).toMatchObject({ lab: null });
+    expect(
+      await reviewQualityReport(reportId, { adminId: ADMIN, decision: 'verified' }, NOW)
+    ).toMatchObject({ status: 409 });
+    expect(
+      await reviewQualityReport(reportId, { adminId: ADMIN, decision: 'rejected' }, NOW)
+    ).toMatchObject({ status: 400 });
+
+    const rejected = await reviewQualityReport(
+      reportId,
+      { adminId: ADMIN, decision: 'rejected', note: 'Lab is not accredited' },
+      NOW
+    );
+    expect(rejected).toMatchObject({
+      success: true,
+      report: { verification: { status: 'rejected', note: 'Lab is not accredited' } },
+    });
+    expect((await listCertificateQueue()).map((item) => item.report.id)).not.toContain(reportId);
+    expect(
+      await reviewQualityReport(reportId, { adminId: ADMIN, decision: 'verified' }, NOW)
+    ).toMatchObject({ status: 409 });
+  });
+
+  it('lets only admins maintain the lab registry', async () => {
+    const customer = store.DEMO_IDS.customer;
+    expect(await addAccreditedLab({ name: 'Rogue Lab', addedBy: customer })).toMatchObject({
+      status: 403,
+    });
+
+    const added = await addAccreditedLab({ name: `Lab ${Date.now()}`, addedBy: ADMIN });
+    if (!added.success) throw new Error(added.error);
+    expect(await removeAccreditedLab(added.lab.id, customer)).toMatchObject({ status: 403 });
+    expect(await removeAccreditedLab(added.lab.id, ADMIN)).toEqual({ success: true });
+  });
+});
@@ -0,0 +1,140 @@
+// =============================================================================
+// Test: Ratings — Running Totals, Bayesian Scores, Per-Dimension Averages
+// Covers: Test plan item #7 (order status state machine: after delivery)
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import {
+  addTotals,
+  bayesianScore,
+  cleanDimensions,
+  rankingRating,
+  ratingIncrement,
+  seedTotals,
+  summarizeRating,
+} from '../ratings';
+import { submitOrderRating } from '../ratings/server';
+import * as store from '../demo-store';
+import type { Order } from '@/types';
+
+const NOW = new Date('2026-10-19T10:00:00.000Z');
+
+function makeSupplier(): string {
+  const seeded = store.getSupplier(store.DEMO_IDS.supplier)!;
+  const id = `sup_rate_${Math.random().toString(36).slice(2, 8)}`;
+  store.upsertSupplier({
+    ...seeded,
+    id,
+    userId: id,
+    rating: { average: 3, count: 3 },
+    waterQualityReport: {
+      fssaiCompliant: true,
+      ph: 7.2,
+      tds: 150,
+      testedAt: new Date(NOW.getTime() - 2 * 86_400_000),
+      labName: 'Test Lab',
+      verification: { status: 'verified' },
+    },
+  });
+  return id;
+}
+
+function makeOrder(supplierId: string): Order {
+  return {
+    id: `ord_rate_${Math.random().toString(36).slice(2, 8)}`,
+    customerId: 'cust_rate',
+    supplierId,
+    waterType: 'ro',
+    quantityLitres: 1000,
+    price: { base: 400, distance: 100, surge: 0, total: 500, commission: 75, supplierEarning: 425 },
+    status: 'delivered',
+    deliveryLocation: { lat: 28.61, lng: 77.2, address: 'Test' },
+    payment: { method: 'upi', status: 'paid', amount: 500 },
+    createdAt: NOW,
+  };
+}
+
+describe('rating aggregation rules', () => {
+  it('smooths new suppliers toward the prior', () => {
+    expect(bayesianScore(5, 1)).toBe(4.17);
+    expect(bayesianScore(0, 0)).toBe(4);
+    // 200 five-star ratings outweigh the prior
+    expect(bayesianScore(1000, 200)).toBeGreaterThan(4.9);
+  });
+
+  it('summarizes totals into overall and per-dimension averages', () => {
+    const totals = addTotals(
+      ratingIncrement(5, { punctuality: 4, waterQuality: 5 }),
+      ratingIncrement(3, { punctuality: 2 })
+    );
+    expect(summarizeRating(totals)).toEqual({
+      average: 4,
+      count: 2,
+      score: 4,
+      dimensions: {
+        punctuality: { average: 3, count: 2 },
+        waterQuality: { average: 5, count: 1 },
+      },
+    });
+  });
+
+  it('seeds totals from a Rating recorded before aggregation', () => {
+    expect(seedTotals({ average: 4.5, count: 4 })).toEqual({ sum: 18, count: 4 });
+    expect(seedTotals(undefined)).toEqual({});
+    expect(rankingRating({ average: 4.8 })).toBe(4.8);
+    expect(rankingRating({ average: 5, score: 4.17 })).toBe(4.17);
+  });
+
+  it('rejects unknown dimensions and out-of-range stars', () => {
+    expect(cleanDimensions({ punctuality: 4 })).toEqual({ dimensions: { punctuality: 4 } });
+    expect(cleanDimensions({ speed: 4 })).toHaveProperty('error');
+    expect(cleanDimensions({ behavior: 6 })).toHaveProperty('error');
+  });
+});
+
+describe('submitOrderRating (demo store)', () => {
+  it('updates the supplier rating and quality score once per order', async () => {
+    const supplierId = makeSupplier();
+    const order = makeOrder(supplierId);
+    store.upsertOrder(order);
+
+    const input = {
+      orderId: order.id,
+      ratedBy: 'customer' as const,
+      raterId: order.customerId,
+      rating: 5,
+      dimensions: { waterQuality: 5, behavior: 4 },
+    };
+    expect(await submitOrderRating({ ...input, raterId: 'cust_other' }, NOW)).toMatchObject({
+      status: 403,
+    });
+    expect(await submitOrderRating({ ...input, rating: 0 }, NOW)).toMatchObject({ status: 400 });
+
+    const result = await submitOrderRating(input, NOW);
+    // Seeded from 3 × 3 stars, plus one 5: average 3.5, score (20 + 14) / 9
+    expect(result).toMatchObject({
+      success: true,
+      orderRating: { customerRating: 5, customerDimensions: { waterQuality: 5, behavior: 4 } },
+      rated: { kind: 'supplier', rating: { average: 3.5, count: 4, score: 3.78 } },
+    });
+    // 30 FSSAI + 25 fresh test + 15 pH + 15 TDS + 8 for a 3.78 rating
+    expect(store.getSupplier(supplierId)).toMatchObject({
+      rating: { average: 3.5, count: 4, dimensions: { behavior: { average: 4, count: 1 } } },
+      qualityScore: 93,
+    });
+
+    expect(await submitOrderRating(input, NOW)).toMatchObject({ status: 409 });
+    expect(store.getSupplier(supplierId)?.rating.count).toBe(4);
+  });
+
+  it('requires a delivered order', async () => {
+    const order = { ...makeOrder(makeSupplier()), status: 'en_route' as const };
+    store.upsertOrder(order);
+    expect(
+      await submitOrderRating(
+        { orderId: order.id, ratedBy: 'customer', raterId: order.customerId, rating: 4 },
+        NOW
+      )
+    ).toMatchObject({ status: 400 });
+  });
+});
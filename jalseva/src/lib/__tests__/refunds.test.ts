@@ -0,0 +1,180 @@
+// =============================================================================
+// Test: Refunds — Balances, Short Delivery, Simulated Gateway, Bookkeeping
+// Covers: Test plan item #6 (order flow: payment and refund)
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import {
+  paymentStatusAfterRefund,
+  refundableAmount,
+  shortDeliveryRefund,
+  validateRefundAmount,
+} from '../refunds';
+import { refundOrder } from '../refunds/server';
+import { computeBalance } from '../ledger';
+import { listLedger, recordDeliveryEarnings } from '../ledger/server';
+import { createRefund, fetchRefund, listRefunds } from '../razorpay';
+import * as store from '../demo-store';
+import type { Order, PaymentInfo } from '@/types';
+
+function makeOrder(payment: Partial<PaymentInfo> = {}, overrides: Partial<Order> = {}): Order {
+  const id = `ord_refund_${Math.random().toString(36).slice(2, 8)}`;
+  return {
+    id,
+    customerId: 'cust_1',
+    supplierId: 'sup_1',
+    waterType: 'tanker',
+    quantityLitres: 1000,
+    price: { base: 400, distance: 100, surge: 0, total: 500, commission: 75, supplierEarning: 425 },
+    status: 'delivered',
+    deliveryLocation: { lat: 28.61, lng: 77.2 },
+    payment: { method: 'upi', status: 'paid', amount: 500, razorpayPaymentId: `pay_${id}`, ...payment },
+    createdAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe('refundableAmount', () => {
+  it('is the amount paid less earlier refunds', () => {
+    expect(refundableAmount(makeOrder().payment)).toBe(500);
+    expect(
+      refundableAmount(makeOrder({ status: 'partially_refunded', refundedAmount: 120.5 }).payment)
+    ).toBe(379.5);
+  });
+
+  it('is zero for cash, unpaid and fully refunded payments', () => {
+    expect(refundableAmount(makeOrder({ method: 'cash' }).payment)).toBe(0);
+    expect(refundableAmount(makeOrder({ status: 'pending' }).payment)).toBe(0);
+    expect(refundableAmount(makeOrder({ status: 'refunded', refundedAmount: 500 }).payment)).toBe(0);
+  });
+});
+
+describe('shortDeliveryRefund', () => {
+  it('pro-rates the total by the litres not delivered', () => {
+    const order = makeOrder({}, { deliveryVerification: { volumeConfirmed: 800 } });
+    expect(shortDeliveryRefund(order)).toBe(100);
+  });
+
+  it('is zero when the full quantity arrived or nothing was confirmed', () => {
+    expect(shortDeliveryRefund(makeOrder())).toBe(0);
+    expect(
+      shortDeliveryRefund(
+        makeOrder({}, { deliveryVerification: { volumeConfirmed: 1000 } })
+      )
+    ).toBe(0);
+  });
+
+  it('never exceeds what is still refundable', () => {
+    const order = makeOrder(
+      { status: 'partially_refunded', refundedAmount: 450 },
+      { deliveryVerification: { volumeConfirmed: 500 } }
+    );
+    expect(shortDeliveryRefund(order)).toBe(50);
+  });
+});
+
+describe('validateRefundAmount / paymentStatusAfterRefund', () => {
+  it('rejects non-positive amounts and amounts over the balance', () => {
+    expect(validateRefundAmount(0, 500)).toHaveProperty('error');
+    expect(validateRefundAmount(500.01, 500)).toHaveProperty('error');
+    expect(validateRefundAmount(99.999, 500)).toEqual({ amount: 100 });
+  });
+
+  it('reports a partial refund until the full amount is returned', () => {
+    expect(paymentStatusAfterRefund(500, 100)).toBe('partially_refunded');
+    expect(paymentStatusAfterRefund(500, 500)).toBe('refunded');
+  });
+});
+
+describe('simulated Razorpay refunds', () => {
+  it('issues deterministic, sequential ids per payment and can fetch them back', async () => {
+    const first = await createRefund('pay_deterministic', 5000);
+    const second = await createRefund('pay_deterministic', 2500);
+
+    expect(first.id).toMatch(/^rfnd_sim_[0-9a-f]{16}$/);
+    expect(second.id).not.toBe(first.id);
+    expect(await fetchRefund(second.id)).toMatchObject({ amount: 2500, status: 'processed' });
+    expect((await listRefunds('pay_deterministic')).map((r) => r.id)).toEqual([first.id, second.id]);
+  });
+
+  it('rejects invalid amounts', async () => {
+    await expect(createRefund('pay_x', 0)).rejects.toThrow();
+    await expect(createRefund('pay_x', 10.5)).rejects.toThrow();
+  });
+});
+
+describe('refundOrder (demo store)', () => {
+  it('records partial then full refunds against the payment', async () => {
+    const order = makeOrder();
+    store.upsertOrder(order);
+
+    const partial = await refundOrder(order.id, {
+      amount: 100,
+      reason: 'short_delivery',
+      initiatedBy: 'admin_1',
+    });
+    expect(partial.success).toBe(true);
+    expect(store.getOrder(order.id)!.payment).toMatchObject({
+      status: 'partially_refunded',
+      refundedAmount: 100,
+    });
+
+    const rest = await refundOrder(order.id, { reason: 'goodwill', initiatedBy: 'admin_1' });
+    expect(rest.success && rest.refund.amount).toBe(400);
+
+    const payment = store.getOrder(order.id)!.payment;
+    expect(payment.status).toBe('refunded');
+    expect(payment.refundedAmount).toBe(500);
+    expect(payment.refunds?.map((r) => r.reason)).toEqual(['short_delivery', 'goodwill']);
+    expect(payment.refundId).toBe(payment.refunds?.[1].id);
+  });
+
+  it('refuses to refund more than the balance, cash orders, or unknown reasons', async () => {
+    const order = makeOrder({ status: 'partially_refunded', refundedAmount: 450 });
+    const cash = makeOrder({ method: 'cash' });
+    store.upsertOrder(order);
+    store.upsertOrder(cash);
+
+    expect(
+      await refundOrder(order.id, { amount: 100, reason: 'other', initiatedBy: 'admin_1' })
+    ).toMatchObject({ success: false, status: 400 });
+    expect(
+      await refundOrder(cash.id, { reason: 'other', initiatedBy: 'admin_1' })
+    ).toMatchObject({ success: false, status: 409 });
+    expect(
+      await refundOrder(order.id, { reason: 'because', initiatedBy: 'admin_1' })
+    ).toMatchObject({ success: false, status: 400 });
+    expect(store.getOrder(order.id)!.payment.refundedAmount).toBe(450);
+  });
+
+  it('refunds once when two full refunds for the same order race', async () => {
+    const order = makeOrder();
+    store.upsertOrder(order);
+
+    const [first, second] = await Promise.all([
+      refundOrder(order.id, { reason: 'goodwill', initiatedBy: 'admin_1' }),
+      refundOrder(order.id, { reason: 'cancellation', initiatedBy: 'system' }),
+    ]);
+    expect(first.success).toBe(true);
+    expect(second).toMatchObject({ success: false, status: 409 });
+    expect(await listRefunds(order.payment.razorpayPaymentId!)).toHaveLength(1);
+
+    const payment = store.getOrder(order.id)!.payment;
+    expect(payment).toMatchObject({ status: 'refunded', refundedAmount: 500, refundPending: 0 });
+    expect(payment.refunds).toHaveLength(1);
+  });
+
+  it("takes the supplier's share of a refund on a delivered order out of their ledger", async () => {
+    const supplierId = `sup_refund_${Math.random().toString(36).slice(2, 8)}`;
+    const order = makeOrder({}, { supplierId });
+    store.upsertOrder(order);
+    await recordDeliveryEarnings(order);
+
+    const result = await refundOrder(order.id, { amount: 100, reason: 'goodwill', initiatedBy: 'admin_1' });
+    const ledger = await listLedger(supplierId);
+    expect(ledger.map((t) => t.kind)).toEqual(['delivery_earning', 'reserve_hold', 'refund_clawback']);
+    expect(ledger[2].id).toBe(`${result.success && result.refund.id}_clawback`);
+    // 85 of the 100 was the supplier's: the 42.5 reserve, then 42.5 available
+    expect(computeBalance(ledger)).toMatchObject({ available: 340, reserve: 0 });
+  });
+});
@@ -0,0 +1,141 @@
+// =============================================================================
+// Test: Spot Checks — Customer Meter Readings, Quality Score, Lab Mismatch
+// Covers: Test plan item #7 (order status state machine: after delivery)
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import { calculateQualityScore } from '../quality';
+import { submitQualityReport } from '../quality/server';
+import { cleanSpotCheck, spotCheckBlocker, spotCheckMismatch } from '../spot-check';
+import { recordSpotCheck } from '../spot-check/server';
+import * as store from '../demo-store';
+import type { Order } from '@/types';
+
+const NOW = new Date('2026-10-19T10:00:00.000Z');
+const HOUR = 3_600_000;
+const LAB = { ph: 7.2, tds: 150, testedAt: new Date(NOW.getTime() - 48 * HOUR) };
+
+function makeSupplier(): string {
+  const seeded = store.getSupplier(store.DEMO_IDS.supplier)!;
+  const id = `sup_spot_${Math.random().toString(36).slice(2, 8)}`;
+  store.upsertSupplier({
+    ...seeded,
+    id,
+    userId: id,
+    spotChecks: undefined,
+    waterQualityReport: {
+      ...LAB,
+      labName: 'Lab',
+      fssaiCompliant: true,
+      verification: { status: 'verified' },
+    },
+  });
+  return id;
+}
+
+function makeOrder(supplierId: string): string {
+  const order: Order = {
+    id: `ord_spot_${Math.random().toString(36).slice(2, 8)}`,
+    customerId: 'cust_spot',
+    supplierId,
+    waterType: 'ro',
+    quantityLitres: 20,
+    price: { base: 80, distance: 20, surge: 0, total: 100, commission: 15, supplierEarning: 85 },
+    status: 'delivered',
+    deliveryLocation: { lat: 28.61, lng: 77.2, address: 'Test' },
+    payment: { method: 'upi', status: 'paid', amount: 100 },
+    createdAt: new Date(NOW.getTime() - 2 * HOUR),
+    deliveredAt: new Date(NOW.getTime() - HOUR),
+  };
+  store.upsertOrder(order);
+  return order.id;
+}
+
+describe('spot-check rules', () => {
+  it('validates readings and the delivery window', () => {
+    expect(cleanSpotCheck({ tds: 182.4 })).toEqual({ reading: { tds: 182 } });
+    expect(cleanSpotCheck({})).toHaveProperty('error');
+    expect(cleanSpotCheck({ ph: 15 })).toHaveProperty('error');
+
+    const delivered = { status: 'delivered' as const, deliveredAt: new Date(NOW.getTime() - HOUR) };
+    expect(spotCheckBlocker(delivered, NOW)).toBeNull();
+    expect(spotCheckBlocker({ ...delivered, status: 'arriving' }, NOW)).toMatch(/delivered/);
+    expect(spotCheckBlocker(delivered, new Date(NOW.getTime() + 24 * HOUR))).toMatch(/24 hours/);
+  });
+
+  it('flags a median far from the lab report, ignoring older readings', () => {
+    const at = NOW;
+    const high = [420, 450, 90].map((tds, i) => ({ orderId: `o${i}`, tds, at }));
+    expect(spotCheckMismatch(high.slice(0, 2), LAB, NOW)).toBeNull();
+    expect(spotCheckMismatch(high, LAB, NOW)).toMatchObject({
+      params: ['tds'],
+      tdsMedian: 420,
+      labTds: 150,
+      readings: 3,
+    });
+
+    const beforeLab = high.map((r) => ({ ...r, at: new Date(LAB.testedAt.getTime() - HOUR) }));
+    expect(spotCheckMismatch(beforeLab, LAB, NOW)).toBeNull();
+    // One bad meter does not move the median
+    const agreeing = [140, 160, 900].map((tds, i) => ({ orderId: `o${i}`, tds, at }));
+    expect(spotCheckMismatch(agreeing, LAB, NOW)).toBeNull();
+  });
+
+  it('counts customer readings towards the pH and TDS points', () => {
+    const report = {
+      ...LAB,
+      testedAt: NOW,
+      fssaiCompliant: true,
+      supplierRating: 4.6,
+      verification: { status: 'verified' as const },
+    };
+    expect(calculateQualityScore(report, NOW)).toBe(100);
+    // 10 readings at 650 ppm take half the 15 TDS points
+    const bad = Array.from({ length: 10 }, () => ({ tds: 650 }));
+    expect(calculateQualityScore({ ...report, spotChecks: bad }, NOW)).toBe(93);
+    // Two readings carry a tenth of the weight
+    expect(calculateQualityScore({ ...report, spotChecks: bad.slice(0, 2) }, NOW)).toBe(99);
+  });
+});
+
+describe('recordSpotCheck (demo store)', () => {
+  it('stores the reading once and updates the supplier', async () => {
+    const supplierId = makeSupplier();
+    const orderId = makeOrder(supplierId);
+
+    expect(await recordSpotCheck(orderId, 'cust_other', { tds: 160 }, NOW)).toMatchObject({ status: 403 });
+
+    const result = await recordSpotCheck(orderId, 'cust_spot', { tds: 620, ph: 7 }, NOW);
+    expect(result).toMatchObject({
+      success: true,
+      spotCheck: { tds: 620, ph: 7, recordedBy: 'cust_spot' },
+      inRange: { tds: false, ph: true },
+      mismatch: null,
+    });
+    expect(store.getOrder(orderId)?.deliveryVerification?.spotCheck).toMatchObject({ tds: 620 });
+    expect(store.getSupplier(supplierId)?.spotChecks?.recent).toEqual([
+      { orderId, tds: 620, ph: 7, at: NOW },
+    ]);
+    expect(await recordSpotCheck(orderId, 'cust_spot', { tds: 600 }, NOW)).toMatchObject({ status: 409 });
+  });
+
+  it('flags the supplier and clears the flag on a new lab report', async () => {
+    const supplierId = makeSupplier();
+    for (const tds of [480, 510, 495]) {
+      await recordSpotCheck(makeOrder(supplierId), 'cust_spot', { tds }, NOW);
+    }
+    expect(store.getSupplier(supplierId)?.spotChecks?.mismatch).toMatchObject({
+      params: ['tds'],
+      tdsMedian: 495,
+      flaggedAt: NOW,
+    });
+
+    await submitQualityReport(
+      { supplierId, ph: 7.1, tds: 490, labName: 'Lab', fssaiCompliant: true },
+      new Date(NOW.getTime() + HOUR)
+    );
+    const supplier = store.getSupplier(supplierId);
+    expect(supplier?.spotChecks?.mismatch).toBeUndefined();
+    expect(supplier?.spotChecks?.recent).toHaveLength(3);
+  });
+});
@@ -0,0 +1,256 @@
+// =============================================================================
+// Test: Subscription Billing — Prorated Invoices, UPI AutoPay, Dunning
+// Covers: Test plan item #6 (order flow: prepaid recurring deliveries)
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import {
+  CHARGE_CLAIM_MINUTES,
+  GRACE_PERIOD_DAYS,
+  chargeOutcome,
+  claimCharge,
+  planBilling,
+  planInvoice,
+  suspension,
+} from '../subscription-billing';
+import {
+  cancelMandate,
+  confirmMandate,
+  payInvoice,
+  runSubscriptionBilling,
+  setupMandate,
+} from '../subscription-billing/server';
+import { runSubscriptionScheduler, updateSubscription } from '../subscriptions/server';
+import { FAILURE_VPA } from '../razorpay';
+import * as store from '../demo-store';
+import type { SubscriptionBilling, SubscriptionPlan } from '@/types';
+
+const NOW = new Date('2026-10-19T06:00:00.000Z'); // Monday 11:30 IST
+const HOUR = 60 * 60_000;
+
+function makeSubscription(overrides: Partial<SubscriptionPlan> = {}): SubscriptionPlan {
+  const subscription: SubscriptionPlan = {
+    id: `sub_bill_${Math.random().toString(36).slice(2, 8)}`,
+    customerId: 'cust_billing',
+    waterType: 'ro',
+    quantityLitres: 40,
+    frequency: 'daily',
+    deliveryLocation: { lat: 28.61, lng: 77.2, address: 'Test' },
+    nextDeliveryDate: new Date(NOW.getTime() + HOUR),
+    isActive: true,
+    paymentMethod: 'upi',
+    pricePerDelivery: 90,
+    price: { base: 100, distance: 0, surge: 0, total: 90, commission: 14, supplierEarning: 76 },
+    createdAt: new Date('2026-10-01T00:00:00.000Z'),
+    ...overrides,
+  };
+  store.saveSubscription(subscription);
+  return subscription;
+}
+
+const BILLING: SubscriptionBilling = {
+  mandate: {
+    id: 'token_test',
+    vpa: 'priya@okaxis',
+    maxAmount: 15000,
+    status: 'active',
+    createdAt: NOW,
+  },
+  status: 'active',
+  period: '2026-09',
+  prepaidDeliveries: 0,
+  credit: 0,
+};
+
+describe('planInvoice', () => {
+  it('bills the rest of the month, less skips, with last month left over as credit', () => {
+    const subscription = {
+      ...makeSubscription({ skippedDates: ['2026-10-20'] }),
+      billing: { ...BILLING, prepaidDeliveries: 2, credit: 100 },
+    };
+    const { invoice, billing } = planInvoice(subscription, NOW);
+
+    // 19–31 Oct is 13 daily deliveries, one skipped
+    expect(invoice).toMatchObject({
+      period: '2026-10',
+      from: '2026-10-19',
+      until: '2026-10-31',
+      prorated: true,
+      deliveries: 12,
+      subtotal: 1080,
+      credit: 280,
+      amount: 800,
+      status: 'pending',
+    });
+    expect(billing).toMatchObject({ period: '2026-10', prepaidDeliveries: 0, credit: 0 });
+    expect(planBilling({ ...subscription, billing }, NOW)).toBeNull();
+  });
+});
+
+describe('dunning', () => {
+  it('retries on schedule, then suspends the plan when the grace period runs out', () => {
+    const subscription = { ...makeSubscription(), billing: { ...BILLING, period: '2026-10' } };
+    const { invoice } = planInvoice({ ...subscription, billing: BILLING }, NOW);
+    const failed = { at: NOW, success: false, error: 'Insufficient funds' };
+
+    const first = chargeOutcome(subscription, invoice, failed, NOW).subscription.billing!;
+    expect(first).toMatchObject({
+      status: 'past_due',
+      dunning: {
+        failures: 1,
+        nextRetryAt: new Date(NOW.getTime() + 24 * HOUR),
+        graceEndsAt: new Date(NOW.getTime() + GRACE_PERIOD_DAYS * 24 * HOUR),
+      },
+    });
+    expect(planBilling({ ...subscription, billing: first }, new Date(NOW.getTime() + 24 * HOUR)))
+      .toBe('retry');
+
+    let billing = first;
+    for (const hours of [24, 72, 120]) {
+      const at = new Date(NOW.getTime() + hours * HOUR);
+      billing = chargeOutcome({ ...subscription, billing }, invoice, { ...failed, at }, at)
+        .subscription.billing!;
+    }
+    expect(billing.dunning).toMatchObject({ failures: 4, nextRetryAt: null });
+    const graceOver = new Date(NOW.getTime() + GRACE_PERIOD_DAYS * 24 * HOUR);
+    expect(planBilling({ ...subscription, billing }, graceOver)).toBe('suspend');
+    expect(suspension({ billing }, graceOver)).toMatchObject({
+      invoice: { status: 'failed' },
+      subscription: { isActive: false, billing: { status: 'suspended' } },
+    });
+  });
+
+  it('lets one charge at a time claim an invoice, reusing the receipt of a lost one', () => {
+    const { invoice } = planInvoice({ ...makeSubscription(), billing: BILLING }, NOW);
+    const claim = claimCharge(invoice, NOW);
+    expect(claim).toEqual({ receipt: `${invoice.id}_1`, at: NOW });
+
+    const charging = { ...invoice, charging: claim };
+    expect(claimCharge(charging, new Date(NOW.getTime() + 60_000))).toBeNull();
+    const lapsed = new Date(NOW.getTime() + CHARGE_CLAIM_MINUTES * 60_000);
+    expect(claimCharge(charging, lapsed)?.receipt).toBe(`${invoice.id}_1`);
+    expect(claimCharge({ ...invoice, status: 'paid' }, NOW)).toBeNull();
+  });
+});
+
+describe('UPI AutoPay (demo store)', () => {
+  it('prepays the month on approval and creates the orders already paid', async () => {
+    const subscription = makeSubscription({ supplierId: store.DEMO_IDS.supplier });
+    expect(await setupMandate(subscription.id, 'not-a-vpa', NOW)).toMatchObject({ status: 400 });
+    expect((await setupMandate(subscription.id, 'priya@okaxis', NOW)).success).toBe(true);
+    expect(store.getSubscription(subscription.id)?.billing?.mandate.status).toBe('pending');
+
+    const confirmed = await confirmMandate(subscription.id, NOW);
+    expect(confirmed.success && confirmed.invoice).toMatchObject({
+      deliveries: 13,
+      amount: 1170,
+      status: 'paid',
+    });
+    expect(store.getSubscription(subscription.id)?.billing).toMatchObject({
+      status: 'active',
+      period: '2026-10',
+      prepaidDeliveries: 13,
+    });
+    expect(await runSubscriptionBilling(NOW)).toEqual([]);
+
+    const [result] = (await runSubscriptionScheduler(NOW)).filter(
+      (r) => r.subscriptionId === subscription.id
+    );
+    expect(store.getOrder(result.orderId ?? '')?.payment).toMatchObject({
+      method: 'upi',
+      status: 'paid',
+      razorpayPaymentId: confirmed.success ? confirmed.invoice?.paymentId : '',
+      transactionId: `${subscription.id}_2026-10`,
+    });
+    expect(store.getSubscription(subscription.id)?.billing?.prepaidDeliveries).toBe(12);
+  });
+
+  it('pauses the plan after failed retries until the invoice is paid', async () => {
+    const subscription = makeSubscription();
+    await setupMandate(subscription.id, FAILURE_VPA, NOW);
+    const confirmed = await confirmMandate(subscription.id, NOW);
+    expect(confirmed.success && confirmed.invoice?.status).toBe('pending');
+    expect(store.getSubscription(subscription.id)?.billing?.status).toBe('past_due');
+
+    for (const hours of [24, 72, 120]) {
+      const runs = await runSubscriptionBilling(new Date(NOW.getTime() + hours * HOUR));
+      expect(runs.find((r) => r.subscriptionId === subscription.id)).toMatchObject({
+        action: 'retry',
+        invoiceStatus: 'pending',
+      });
+    }
+    const graceOver = new Date(NOW.getTime() + GRACE_PERIOD_DAYS * 24 * HOUR);
+    const runs = await runSubscriptionBilling(graceOver);
+    expect(runs.find((r) => r.subscriptionId === subscription.id)).toMatchObject({
+      action: 'suspend',
+      invoiceStatus: 'failed',
+    });
+    expect(store.getSubscription(subscription.id)).toMatchObject({
+      isActive: false,
+      billing: { status: 'suspended' },
+    });
+    expect(await updateSubscription(subscription.id, { action: 'resume' }, graceOver))
+      .toMatchObject({ status: 402 });
+    expect(await payInvoice(subscription.id, graceOver)).toMatchObject({ status: 402 });
+
+    // A working mandate pays the overdue invoice and resumes the plan
+    await cancelMandate(subscription.id, graceOver);
+    await setupMandate(subscription.id, 'priya@okaxis', graceOver);
+    const paid = await confirmMandate(subscription.id, graceOver);
+    expect(paid.success && paid.invoice).toMatchObject({ status: 'paid' });
+    expect(paid.success && paid.invoice?.attempts).toHaveLength(6);
+    expect(store.getSubscription(subscription.id)).toMatchObject({
+      isActive: true,
+      billing: { status: 'active', dunning: null, prepaidDeliveries: 13 },
+    });
+  });
+
+  it('charges an overdue invoice once when the customer pays during a retry', async () => {
+    const subscription = makeSubscription();
+    const invoiceId = `${subscription.id}_2026-10`;
+    store.saveSubscriptionInvoice({
+      id: invoiceId,
+      subscriptionId: subscription.id,
+      customerId: subscription.customerId,
+      period: '2026-10',
+      from: '2026-10-19',
+      until: '2026-10-31',
+      prorated: true,
+      deliveries: 13,
+      pricePerDelivery: 90,
+      subtotal: 1170,
+      credit: 0,
+      amount: 1170,
+      status: 'pending',
+      attempts: [{ at: NOW, success: false, error: 'Insufficient funds in the linked account.' }],
+      createdAt: NOW,
+    });
+    store.saveSubscription({
+      ...subscription,
+      billing: {
+        ...BILLING,
+        status: 'past_due',
+        period: '2026-10',
+        dunning: {
+          invoiceId,
+          failures: 1,
+          since: NOW,
+          nextRetryAt: new Date(NOW.getTime() + 24 * HOUR),
+          graceEndsAt: new Date(NOW.getTime() + GRACE_PERIOD_DAYS * 24 * HOUR),
+        },
+      },
+    });
+
+    const retryAt = new Date(NOW.getTime() + 24 * HOUR);
+    const [, paid] = await Promise.all([
+      runSubscriptionBilling(retryAt),
+      payInvoice(subscription.id, retryAt),
+    ]);
+    // Whichever claimed the invoice first charged it
+    if (!paid.success) expect(paid.status).toBe(409);
+    const invoice = store.getSubscriptionInvoice(invoiceId);
+    expect(invoice).toMatchObject({ status: 'paid', charging: null });
+    expect(invoice?.attempts.filter((a) => a.success)).toHaveLength(1);
+    expect(invoice?.attempts).toHaveLength(2);
+  });
+});
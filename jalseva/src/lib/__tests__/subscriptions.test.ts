@@ -0,0 +1,222 @@
+// =============================================================================
+// Test: Subscription Scheduler — Slot Planning, Idempotent Order Generation,
+//       Weekday Patterns, Skips, Holds and One-off Changes
+// Covers: Test plan item #6 (order flow: recurring subscription deliveries)
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import {
+  MISSED_SLOT_GRACE_MS,
+  SCHEDULE_LEAD_MS,
+  applySubscriptionChange,
+  deliveryDateKey,
+  nextSlot,
+  planSlot,
+  subscriptionOrderId,
+} from '../subscriptions';
+import { runSubscriptionScheduler, updateSubscription } from '../subscriptions/server';
+import { resolveZone } from '../pricing';
+import * as store from '../demo-store';
+import type { SubscriptionPlan } from '@/types';
+
+const NOW = new Date('2026-10-19T06:00:00.000Z');
+const HOUR = 60 * 60_000;
+
+function makeSubscription(overrides: Partial<SubscriptionPlan> = {}): SubscriptionPlan {
+  const subscription: SubscriptionPlan = {
+    id: `sub_test_${Math.random().toString(36).slice(2, 8)}`,
+    customerId: 'cust_subs',
+    waterType: 'ro',
+    quantityLitres: 40,
+    frequency: 'daily',
+    deliveryLocation: { lat: 28.61, lng: 77.2, address: 'Test' },
+    nextDeliveryDate: new Date(NOW.getTime() + HOUR),
+    isActive: true,
+    paymentMethod: 'upi',
+    pricePerDelivery: 90,
+    price: { base: 100, distance: 0, surge: 0, total: 90, commission: 14, supplierEarning: 76 },
+    createdAt: new Date('2026-10-01T00:00:00.000Z'),
+    ...overrides,
+  };
+  store.saveSubscription(subscription);
+  return subscription;
+}
+
+describe('planSlot', () => {
+  it('generates a slot within the lead time and moves on by the frequency', () => {
+    const slot = new Date(NOW.getTime() + HOUR);
+    const plan = planSlot({ isActive: true, frequency: 'weekly', nextDeliveryDate: slot }, NOW);
+    expect(plan).toEqual({
+      deliverAt: slot,
+      next: new Date(slot.getTime() + 7 * 24 * HOUR),
+      skipped: [],
+    });
+
+    const later = new Date(NOW.getTime() + SCHEDULE_LEAD_MS + 1);
+    expect(planSlot({ isActive: true, frequency: 'weekly', nextDeliveryDate: later }, NOW)).toBeNull();
+    expect(planSlot({ isActive: false, frequency: 'weekly', nextDeliveryDate: slot }, NOW)).toBeNull();
+  });
+
+  it('skips slots missed beyond the grace period instead of delivering them late', () => {
+    // Down since 56h ago: the slots 56h, 32h and 8h ago are gone; the next is 16h away
+    const missed = new Date(NOW.getTime() - 56 * HOUR);
+    const plan = planSlot({ isActive: true, frequency: 'daily', nextDeliveryDate: missed }, NOW)!;
+    expect(plan.skipped).toHaveLength(3);
+    expect(plan.deliverAt).toBeNull();
+    expect(plan.next).toEqual(new Date(NOW.getTime() + 16 * HOUR));
+
+    const late = new Date(NOW.getTime() - MISSED_SLOT_GRACE_MS + HOUR);
+    expect(planSlot({ isActive: true, frequency: 'daily', nextDeliveryDate: late }, NOW)).toMatchObject({
+      deliverAt: late,
+      skipped: [],
+    });
+  });
+});
+
+describe('weekday patterns, skips and holds', () => {
+  it('moves to the next pattern weekday at the start of the window', () => {
+    // NOW is Monday 11:30 IST; Mon/Thu mornings next deliver Thursday 06:00 IST
+    const schedule: Pick<SubscriptionPlan, 'frequency' | 'weekdays' | 'deliveryWindow'> = {
+      frequency: 'weekly',
+      weekdays: [1, 4],
+      deliveryWindow: { start: '06:00', end: '09:00' },
+    };
+    const thursday = nextSlot(schedule, NOW);
+    expect(thursday).toEqual(new Date('2026-10-22T00:30:00.000Z'));
+    expect(nextSlot(schedule, thursday)).toEqual(new Date('2026-10-26T00:30:00.000Z'));
+  });
+
+  it('passes over skipped and held slots without generating them', () => {
+    const slot = new Date(NOW.getTime() + HOUR);
+    const base = { isActive: true, frequency: 'daily' as const, nextDeliveryDate: slot };
+    const next = new Date(slot.getTime() + 24 * HOUR);
+
+    expect(planSlot({ ...base, skippedDates: [deliveryDateKey(slot)] }, NOW)).toEqual({
+      deliverAt: null,
+      next,
+      skipped: [slot],
+    });
+    const hold = { from: deliveryDateKey(slot), until: deliveryDateKey(next) };
+    expect(planSlot({ ...base, hold }, NOW)).toEqual({ deliverAt: null, next, skipped: [slot] });
+  });
+
+  it('rejects changes the plan cannot take', () => {
+    const subscription = makeSubscription();
+    const tomorrow = deliveryDateKey(new Date(NOW.getTime() + 25 * HOUR));
+
+    expect(applySubscriptionChange(subscription, { action: 'update', weekdays: [1] }, NOW))
+      .toMatchObject({ success: false, status: 400 });
+    expect(applySubscriptionChange(subscription, { action: 'skip', date: '2027-06-01' }, NOW))
+      .toMatchObject({ success: false, status: 400 });
+    expect(applySubscriptionChange(subscription, { action: 'hold', from: '2026-10-18', until: tomorrow }, NOW))
+      .toMatchObject({ success: false, status: 400 });
+    expect(applySubscriptionChange(subscription, { action: 'skip', date: tomorrow }, NOW))
+      .toMatchObject({ success: true, patch: { skippedDates: [tomorrow] } });
+    expect(
+      applySubscriptionChange({ ...subscription, cancelledAt: NOW }, { action: 'resume' }, NOW)
+    ).toMatchObject({ success: false, status: 409 });
+  });
+});
+
+describe('runSubscriptionScheduler (demo store)', () => {
+  it('assigns the preferred supplier and never generates a slot twice', async () => {
+    const subscription = makeSubscription({ supplierId: store.DEMO_IDS.supplier });
+    const slot = new Date(subscription.nextDeliveryDate);
+    const orderId = subscriptionOrderId(subscription.id, slot);
+
+    // Two overlapping runs, e.g. the timer and the cron trigger
+    const [first, second] = await Promise.all([
+      runSubscriptionScheduler(NOW),
+      runSubscriptionScheduler(NOW),
+    ]);
+    const generated = [...first, ...second].filter((r) => r.subscriptionId === subscription.id);
+    expect(generated).toEqual([
+      { subscriptionId: subscription.id, orderId, deliverAt: slot, skipped: 0, assignment: 'preferred_supplier' },
+    ]);
+
+    expect(store.getOrder(orderId)).toMatchObject({
+      status: 'accepted',
+      supplierId: store.DEMO_IDS.supplier,
+      subscriptionId: subscription.id,
+      scheduledFor: slot,
+      payment: { method: 'upi', amount: 90 },
+    });
+    expect(store.getSubscription(subscription.id)).toMatchObject({
+      nextDeliveryDate: new Date(slot.getTime() + 24 * HOUR),
+      lastOrderId: orderId,
+    });
+
+    const rerun = await runSubscriptionScheduler(NOW);
+    expect(rerun.some((r) => r.subscriptionId === subscription.id)).toBe(false);
+  });
+
+  it('dispatches when the preferred supplier cannot take the delivery', async () => {
+    const seeded = store.getSupplier(store.DEMO_IDS.supplier)!;
+    const supplierId = `sup_subs_${Math.random().toString(36).slice(2, 8)}`;
+    store.upsertSupplier({ ...seeded, id: supplierId, userId: supplierId, waterTypes: ['tanker'] });
+    const subscription = makeSubscription({ supplierId });
+
+    const results = await runSubscriptionScheduler(NOW);
+    const result = results.find((r) => r.subscriptionId === subscription.id);
+    expect(result?.assignment).toBe('dispatch');
+    expect(store.getOrder(result?.orderId ?? '')?.supplierId).toBeUndefined();
+  });
+
+  it('delivers a one-off change to its slot only, then drops it', async () => {
+    const subscription = makeSubscription();
+    const slot = new Date(subscription.nextDeliveryDate);
+    const changed = await updateSubscription(
+      subscription.id,
+      { action: 'override', date: deliveryDateKey(slot), quantityLitres: 60 },
+      NOW
+    );
+    expect(changed.success && changed.subscription.overrides).toEqual({
+      [deliveryDateKey(slot)]: { quantityLitres: 60 },
+    });
+    expect(await updateSubscription('sub_missing', { action: 'pause' }, NOW)).toMatchObject({ status: 404 });
+
+    const results = await runSubscriptionScheduler(NOW);
+    const result = results.find((r) => r.subscriptionId === subscription.id);
+    expect(store.getOrder(result?.orderId ?? '')).toMatchObject({ quantityLitres: 60 });
+    expect(store.getSubscription(subscription.id)).toMatchObject({
+      quantityLitres: 40,
+      overrides: {},
+    });
+  });
+
+  it('prices a one-off address change in the zone it delivers to', async () => {
+    const zone = resolveZone({
+      id: 'test_subs_far',
+      name: 'Far',
+      basePrice: { ro: 400, mineral: 400, tanker: 4000 },
+      boundary: [
+        { lat: 19, lng: 72.8 },
+        { lat: 19, lng: 72.9 },
+        { lat: 19.1, lng: 72.9 },
+        { lat: 19.1, lng: 72.8 },
+      ],
+    });
+    store.savePricingZone(zone);
+    try {
+      const subscription = makeSubscription();
+      const slot = new Date(subscription.nextDeliveryDate);
+      await updateSubscription(
+        subscription.id,
+        {
+          action: 'override',
+          date: deliveryDateKey(slot),
+          deliveryLocation: { lat: 19.05, lng: 72.85, address: 'Office' },
+        },
+        NOW
+      );
+
+      const results = await runSubscriptionScheduler(NOW);
+      const result = results.find((r) => r.subscriptionId === subscription.id);
+      const order = store.getOrder(result?.orderId ?? '');
+      expect(order?.price.trace).toMatchObject({ zoneId: zone.id });
+      expect(order?.price.total).toBeGreaterThan(subscription.price!.total);
+    } finally {
+      store.deletePricingZone(zone.id);
+    }
+  });
+});
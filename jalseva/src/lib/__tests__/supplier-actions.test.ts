@@ -0,0 +1,59 @@
+// =============================================================================
+// Test: Supplier Server Actions — Verification Gate, Dispatch Withdrawal
+// Covers: Test plan item #7 (supplier matching: only verified suppliers go online)
+// =============================================================================
+
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { acceptOrder, toggleSupplierOnline } from '@/actions/suppliers';
+import { dispatcher } from '../dispatch';
+import * as store from '../demo-store';
+import type { Order } from '@/types';
+
+function makeSupplier(verificationStatus: 'pending' | 'verified'): string {
+  const seeded = store.getSupplier(store.DEMO_IDS.supplier)!;
+  const id = `sup_action_${Math.random().toString(36).slice(2, 8)}`;
+  store.upsertSupplier({ ...seeded, id, userId: id, verificationStatus, isOnline: false });
+  return id;
+}
+
+function makeOrder(): Order {
+  const order: Order = {
+    id: `ord_action_${Math.random().toString(36).slice(2, 8)}`,
+    customerId: store.DEMO_IDS.customer,
+    waterType: 'ro',
+    quantityLitres: 20,
+    price: { base: 150, distance: 75, surge: 0, total: 225, commission: 34, supplierEarning: 191 },
+    status: 'searching',
+    deliveryLocation: { lat: 28.61, lng: 77.2 },
+    payment: { method: 'upi', status: 'paid', amount: 225 },
+    createdAt: new Date(),
+  };
+  store.upsertOrder(order);
+  return order;
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('supplier actions (demo store)', () => {
+  it('keeps unverified suppliers offline and off orders', async () => {
+    const supplierId = makeSupplier('pending');
+    const order = makeOrder();
+
+    expect(await toggleSupplierOnline(supplierId, true)).toMatchObject({ success: false });
+    expect(await toggleSupplierOnline(supplierId, false)).toEqual({ success: true });
+    expect(await acceptOrder(order.id, supplierId)).toMatchObject({ success: false });
+    expect(store.getOrder(order.id)?.status).toBe('searching');
+  });
+
+  it('withdraws the pending dispatch offer once a verified supplier accepts', async () => {
+    const supplierId = makeSupplier('verified');
+    const order = makeOrder();
+    const stop = vi.spyOn(dispatcher, 'stop');
+
+    expect(await acceptOrder(order.id, supplierId)).toEqual({ success: true });
+    expect(store.getOrder(order.id)).toMatchObject({ status: 'accepted', supplierId });
+    expect(stop).toHaveBeenCalledWith(order.id);
+  });
+});
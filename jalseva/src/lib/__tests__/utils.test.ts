@@ -1,5 +1,5 @@
 // =============================================================================
-// Test: Utility Functions — Pricing, Formatting, ID Generation
+// Test: Utility Functions — Formatting, ID Generation
 // Covers: Test plan items #6 (order pricing), #7 (supplier search)
 // =============================================================================
 
@@ -9,53 +9,9 @@ import {
   formatDistance,
   formatDuration,
   generateOrderId,
-  calculatePrice,
   formatLitres,
 } from '../utils';
 
-describe('calculatePrice', () => {
-  it('calculates base price for RO water', () => {
-    const price = calculatePrice('ro', 100, 0, 1.0);
-    expect(price.base).toBe(80); // 0.8 * 100
-    expect(price.distance).toBe(0);
-    expect(price.surge).toBe(0);
-    expect(price.total).toBe(80);
-    expect(price.commission).toBe(12); // 15% of 80
-    expect(price.supplierEarning).toBe(68);
-  });
-
-  it('calculates distance charge', () => {
-    const price = calculatePrice('ro', 100, 10_000, 1.0); // 10km
-    expect(price.base).toBe(80);
-    expect(price.distance).toBe(150); // 10km * 15/km
-    expect(price.total).toBe(230);
-  });
-
-  it('applies surge multiplier', () => {
-    const normal = calculatePrice('mineral', 100, 5_000, 1.0);
-    const surged = calculatePrice('mineral', 100, 5_000, 1.5);
-    expect(surged.total).toBeGreaterThan(normal.total);
-    expect(surged.surge).toBeGreaterThan(0);
-  });
-
-  it('clamps surge multiplier to minimum 1.0', () => {
-    const price = calculatePrice('ro', 100, 0, 0.5);
-    expect(price.surge).toBe(0); // Treated as 1.0
-  });
-
-  it('calculates tanker (bulk) pricing', () => {
-    const price = calculatePrice('tanker', 5000, 20_000, 1.0);
-    expect(price.base).toBe(2500); // 0.5 * 5000
-    expect(price.distance).toBe(300); // 20km * 15
-    expect(price.total).toBe(2800);
-  });
-
-  it('commission + supplierEarning = total', () => {
-    const price = calculatePrice('mineral', 200, 15_000, 1.3);
-    expect(price.commission + price.supplierEarning).toBe(price.total);
-  });
-});
-
 describe('formatPrice', () => {
   it('formats Indian Rupees', () => {
     expect(formatPrice(250)).toContain('250');
@@ -0,0 +1,56 @@
+// =============================================================================
+// JalSeva - Request Identity (Server-Side)
+// =============================================================================
+// Who is calling, as far as the server can tell. The sign-in actions
+// ('@/actions/auth') set the httpOnly `jalseva_auth` cookie to the user's
+// uid; a user's role is only ever read from their `users/{uid}` record (the
+// demo store without Firebase Admin credentials), never from the request.
+// =============================================================================
+
+import type { NextRequest } from 'next/server';
+import { firestoreBreaker } from '@/lib/circuit-breaker';
+import * as store from '@/lib/demo-store';
+import type { UserRole } from '@/types';
+
+export const SESSION_COOKIE = 'jalseva_auth';
+
+// ---------------------------------------------------------------------------
+// Firebase Admin - lazy import
+// ---------------------------------------------------------------------------
+
+function hasAdminCredentials(): boolean {
+  return !!(
+    process.env.FIREBASE_ADMIN_CLIENT_EMAIL &&
+    process.env.FIREBASE_ADMIN_PRIVATE_KEY
+  );
+}
+
+async function getAdminDb() {
+  const { adminDb } = await import('@/lib/firebase-admin');
+  return adminDb;
+}
+
+// ---------------------------------------------------------------------------
+// Identity
+// ---------------------------------------------------------------------------
+
+/** The signed-in user's uid, or null without a session cookie. */
+export function sessionUserId(request: Pick<NextRequest, 'cookies'>): string | null {
+  return request.cookies.get(SESSION_COOKIE)?.value || null;
+}
+
+/** The role on the user's record, or null when there is no such user. */
+export async function loadUserRole(userId: string): Promise<UserRole | null> {
+  if (!hasAdminCredentials()) return store.getUser(userId)?.role ?? null;
+  const adminDb = await getAdminDb();
+  const snap = await firestoreBreaker.execute(
+    () => adminDb.collection('users').doc(userId).get(),
+    () => null
+  );
+  return snap?.exists ? ((snap.data()?.role as UserRole | undefined) ?? null) : null;
+}
+
+/** Whether the user's record makes them an admin. */
+export async function isAdmin(userId: string | null | undefined): Promise<boolean> {
+  return !!userId && (await loadUserRole(userId)) === 'admin';
+}
@@ -0,0 +1,126 @@
+// =============================================================================
+// JalSeva - Cancellation Policy
+// =============================================================================
+// Who may cancel, for what reason, and what it costs. Pure and client-safe
+// so the tracking screen can show the fee before the customer confirms.
+//
+// Only customer cancellations carry a fee, and only once a supplier has
+// committed: free while `searching` and `accepted`, a flat + percentage fee
+// once the tanker is `en_route` or `arriving`. Part of the fee compensates
+// the supplier for the wasted trip. Supplier and system cancellations are
+// always free for the customer. Prepaid orders are refunded the amount paid
+// minus the fee; settlement is done by './server'.
+// =============================================================================
+
+import type {
+  CancellationActor,
+  CancellationPolicy,
+  Order,
+  OrderStatus,
+} from '@/types';
+
+// ---------------------------------------------------------------------------
+// Defaults
+// ---------------------------------------------------------------------------
+
+export const DEFAULT_CANCELLATION_POLICY: CancellationPolicy = {
+  customerFees: {
+    searching: { flat: 0, percent: 0 },
+    accepted: { flat: 0, percent: 0 },
+    en_route: { flat: 50, percent: 10 },
+    arriving: { flat: 50, percent: 25 },
+  },
+  supplierCompensationPercent: 80,
+};
+
+export const CANCELLATION_REASONS: Record<
+  CancellationActor,
+  { code: string; label: string }[]
+> = {
+  customer: [
+    { code: 'changed_mind', label: 'Changed my mind' },
+    { code: 'ordered_by_mistake', label: 'Ordered by mistake' },
+    { code: 'delivery_delayed', label: 'Delivery is taking too long' },
+    { code: 'found_alternative', label: 'Found water elsewhere' },
+    { code: 'other', label: 'Other' },
+  ],
+  supplier: [
+    { code: 'vehicle_breakdown', label: 'Vehicle breakdown' },
+    { code: 'water_unavailable', label: 'Water not available' },
+    { code: 'address_unreachable', label: 'Cannot reach the address' },
+    { code: 'customer_unreachable', label: 'Customer not reachable' },
+    { code: 'other', label: 'Other' },
+  ],
+  system: [
+    { code: 'no_supplier', label: 'No supplier available' },
+    { code: 'payment_failed', label: 'Payment failed' },
+    { code: 'admin', label: 'Cancelled by admin' },
+  ],
+};
+
+/** Fallback reason when a caller does not give one. */
+export const DEFAULT_REASON_CODE: Record<CancellationActor, string> = {
+  customer: 'other',
+  supplier: 'other',
+  system: 'admin',
+};
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Merges a stored (possibly partial) policy over the defaults. */
+export function resolveCancellationPolicy(
+  policy?: Partial<CancellationPolicy> | null
+): CancellationPolicy {
+  return {
+    customerFees: {
+      ...DEFAULT_CANCELLATION_POLICY.customerFees,
+      ...policy?.customerFees,
+    },
+    supplierCompensationPercent:
+      policy?.supplierCompensationPercent ??
+      DEFAULT_CANCELLATION_POLICY.supplierCompensationPercent,
+  };
+}
+
+/** Human-readable label for a reason code, or null if it is not valid for the actor. */
+export function getReasonLabel(by: CancellationActor, code: string): string | null {
+  return CANCELLATION_REASONS[by].find((r) => r.code === code)?.label ?? null;
+}
+
+export interface CancellationQuote {
+  fee: number;
+  supplierCompensation: number;
+  refundAmount: number;
+}
+
+/**
+ * Computes the fee, supplier compensation and refund for cancelling an
+ * order in its current status.
+ */
+export function quoteCancellation(
+  order: Pick<Order, 'status' | 'price' | 'payment'> & { supplierId?: string },
+  by: CancellationActor,
+  policy: CancellationPolicy = DEFAULT_CANCELLATION_POLICY
+): CancellationQuote {
+  const total = order.price.total;
+  const rule =
+    by === 'customer'
+      ? policy.customerFees[order.status as OrderStatus]
+      : undefined;
+
+  const fee = rule
+    ? Math.min(total, Math.round(rule.flat + (total * rule.percent) / 100))
+    : 0;
+
+  const supplierCompensation = order.supplierId
+    ? Math.round((fee * policy.supplierCompensationPercent) / 100)
+    : 0;
+
+  const prepaid = order.payment.method !== 'cash' && order.payment.status === 'paid';
+  const paid = order.payment.amount ?? total;
+  const refundAmount = prepaid ? Math.max(0, paid - fee) : 0;
+
+  return { fee, supplierCompensation, refundAmount };
+}
@@ -0,0 +1,120 @@
+// =============================================================================
+// JalSeva - Cancellation Settlement (Server-Side)
+// =============================================================================
+// Cancels an order under the cancellation policy: the fee and refund are
+// quoted against the order as read inside the lifecycle transaction, the
+// CancellationInfo is written with the status change, and prepaid orders
+// are then refunded through the refund service. The same quote is offered
+// before the customer confirms (quoteOrderCancellation).
+// =============================================================================
+
+import { loadAdminSettings } from '@/lib/pricing/server';
+import { refundOrder } from '@/lib/refunds/server';
+import { recordCancellationCompensation } from '@/lib/ledger/server';
+import {
+  loadOrder,
+  patchOrder,
+  transitionOrder,
+  type TransitionResult,
+} from '@/lib/order-lifecycle';
+import type { CancellationActor, CancellationInfo, Order } from '@/types';
+import {
+  type CancellationQuote,
+  DEFAULT_REASON_CODE,
+  getReasonLabel,
+  quoteCancellation,
+  resolveCancellationPolicy,
+} from './index';
+
+export interface CancelRequest {
+  by: CancellationActor;
+  /** User id of the canceller; defaults to the actor kind. */
+  actorId?: string;
+  reasonCode?: string;
+  note?: string;
+}
+
+/**
+ * What cancelling the order now would cost under the configured policy, or
+ * null when the order does not exist.
+ */
+export async function quoteOrderCancellation(
+  orderId: string,
+  by: CancellationActor
+): Promise<CancellationQuote | null> {
+  const order = await loadOrder(orderId);
+  if (!order) return null;
+  const settings = await loadAdminSettings();
+  return quoteCancellation(order, by, resolveCancellationPolicy(settings.cancellationPolicy));
+}
+
+/**
+ * Cancels an order, records its CancellationInfo, refunds prepaid payments
+ * (less any fee) and credits the supplier's compensation to their ledger. A
+ * failed refund leaves the order cancelled with its payment still `paid`, so
+ * it can be retried.
+ */
+export async function processCancellation(
+  orderId: string,
+  request: CancelRequest
+): Promise<TransitionResult> {
+  const { by, note } = request;
+  const reasonCode = request.reasonCode || DEFAULT_REASON_CODE[by];
+  const label = getReasonLabel(by, reasonCode);
+  if (!label) {
+    return {
+      success: false,
+      error: `Invalid cancellation reason '${reasonCode}' for ${by}.`,
+      status: 400,
+    };
+  }
+
+  const settings = await loadAdminSettings();
+  const policy = resolveCancellationPolicy(settings.cancellationPolicy);
+
+  const result = await transitionOrder(orderId, 'cancelled', {
+    actor: { id: request.actorId || by, role: by },
+    reason: note ? `${label}: ${note}` : label,
+    metadata: { reasonCode },
+    patch: (order: Order) => {
+      const cancellation: CancellationInfo = {
+        by,
+        reasonCode,
+        ...(note ? { note } : {}),
+        statusAtCancel: order.status,
+        ...quoteCancellation(order, by, policy),
+      };
+      return { cancellation };
+    },
+  });
+
+  if (!result.success) return result;
+
+  const { order } = result;
+  const cancellation = order.cancellation;
+
+  if (cancellation && cancellation.refundAmount > 0) {
+    const refunded = await refundOrder(orderId, {
+      amount: cancellation.refundAmount,
+      reason: 'cancellation',
+      note: reasonCode,
+      initiatedBy: request.actorId || by,
+    });
+
+    if (refunded.success) {
+      await patchOrder(orderId, { 'cancellation.refundId': refunded.refund.id });
+      order.payment = refunded.order.payment;
+      cancellation.refundId = refunded.refund.id;
+    } else {
+      console.error(`[Cancellation] Refund failed for order ${orderId}: ${refunded.error}`);
+    }
+  }
+
+  try {
+    await recordCancellationCompensation(order);
+  } catch (err) {
+    console.error(`[Cancellation] Compensation posting failed for order ${orderId}:`, err);
+  }
+
+  return result;
+}
@@ -0,0 +1,85 @@
+// =============================================================================
+// JalSeva - Cash Collection Rules
+// =============================================================================
+// Cash orders are paid to the supplier at the door. The supplier confirms the
+// amount on the delivery screen before the order can be marked delivered,
+// and the platform's commission on it becomes cash the supplier owes
+// (supplier_cash_due in the ledger) until it is remitted or netted off a
+// payout.
+//
+// Suppliers whose unremitted cash is over AdminSettings.cashLimit are flagged
+// for admins, who can block them from taking further cash orders. Pure and
+// client-safe; reconciliation and blocking live in './server'.
+// =============================================================================
+
+import type { CashCollection, Order } from '@/types';
+
+// ---------------------------------------------------------------------------
+// Limit
+// ---------------------------------------------------------------------------
+
+/** Unremitted cash commission (rupees) above which a supplier is flagged. */
+export const DEFAULT_CASH_LIMIT = 2000;
+
+export function resolveCashLimit(limit?: number | null): number {
+  return typeof limit === 'number' && Number.isFinite(limit) && limit >= 0
+    ? limit
+    : DEFAULT_CASH_LIMIT;
+}
+
+export function isOverCashLimit(cashDue: number, limit: number): boolean {
+  return cashDue > limit;
+}
+
+/** A supplier's outstanding cash, as shown on the admin reconciliation view. */
+export interface CashPosition {
+  supplierId: string;
+  name?: string;
+  cashDue: number;
+  /** Available wallet balance the next payout can net the cash against. */
+  available: number;
+  overLimit: boolean;
+  blocked: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Collection at the door
+// ---------------------------------------------------------------------------
+
+/** Whether the order still needs the supplier to confirm cash collection. */
+export function needsCashCollection(order: Pick<Order, 'payment'>): boolean {
+  return order.payment.method === 'cash' && !order.payment.cashCollection;
+}
+
+/**
+ * The payment patch recording cash handed to the supplier. The full order
+ * total must be collected; short payments are a complaint, not a delivery.
+ */
+export function planCashCollection(
+  order: Pick<Order, 'payment' | 'price'>,
+  amount: unknown,
+  collectedBy: string,
+  now: Date = new Date()
+): { patch: Record<string, unknown>; collection: CashCollection } | { error: string } {
+  if (order.payment.method !== 'cash') {
+    return { error: 'Order is not a cash order.' };
+  }
+  if (typeof amount !== 'number' || !Number.isFinite(amount)) {
+    return { error: 'Confirm the cash collected before marking the order delivered.' };
+  }
+  const collected = Math.round(amount * 100) / 100;
+  const due = order.payment.amount || order.price.total;
+  if (collected < due) {
+    return { error: `Collect the full ₹${due} before marking the order delivered.` };
+  }
+
+  const collection: CashCollection = { amount: collected, collectedAt: now, collectedBy };
+  return {
+    collection,
+    patch: {
+      'payment.status': 'paid',
+      'payment.paidAt': now,
+      'payment.cashCollection': collection,
+    },
+  };
+}
@@ -0,0 +1,189 @@
+// =============================================================================
+// JalSeva - Cash Reconciliation (Server-Side)
+// =============================================================================
+// Outstanding cash per supplier for the admin reconciliation view, recording
+// cash a supplier remits to the platform, and blocking suppliers from cash
+// orders. A block is stored on the supplier (`cashBlocked`) and mirrored into
+// the dispatcher's supplierIndex entry so it applies to the next offer.
+// =============================================================================
+
+import { firestoreBreaker } from '@/lib/circuit-breaker';
+import * as store from '@/lib/demo-store';
+import { supplierIndex } from '@/lib/geohash';
+import { loadAdminSettings } from '@/lib/pricing/server';
+import { cashRemittanceTransaction, computeBalance } from '@/lib/ledger';
+import { listLedger, postLedgerTransactions } from '@/lib/ledger/server';
+import { type CashPosition, isOverCashLimit, resolveCashLimit } from './index';
+
+// ---------------------------------------------------------------------------
+// Firebase Admin - lazy import
+// ---------------------------------------------------------------------------
+
+function hasAdminCredentials(): boolean {
+  return !!(
+    process.env.FIREBASE_ADMIN_CLIENT_EMAIL &&
+    process.env.FIREBASE_ADMIN_PRIVATE_KEY
+  );
+}
+
+async function getAdminDb() {
+  const { adminDb } = await import('@/lib/firebase-admin');
+  return adminDb;
+}
+
+export type CashResult =
+  | { success: true; position: CashPosition }
+  | { success: false; error: string; status: number };
+
+interface SupplierRef {
+  id: string;
+  name?: string;
+  blocked: boolean;
+}
+
+async function loadSupplierRefs(): Promise<SupplierRef[]> {
+  if (!hasAdminCredentials()) {
+    return store.listAllSuppliers().map((s) => ({
+      id: s.id,
+      name: store.getUser(s.userId)?.name,
+      blocked: !!s.cashBlocked,
+    }));
+  }
+
+  const adminDb = await getAdminDb();
+  const snap = await firestoreBreaker.execute(() => adminDb.collection('suppliers').get());
+  return snap.docs.map((d) => {
+    const data = d.data();
+    return {
+      id: d.id,
+      name: (data.userName || data.name || undefined) as string | undefined,
+      blocked: !!data.cashBlocked,
+    };
+  });
+}
+
+async function loadSupplierRef(supplierId: string): Promise<SupplierRef | null> {
+  if (!hasAdminCredentials()) {
+    const s = store.getSupplier(supplierId);
+    return s ? { id: s.id, name: store.getUser(s.userId)?.name, blocked: !!s.cashBlocked } : null;
+  }
+
+  const adminDb = await getAdminDb();
+  const snap = await firestoreBreaker.execute(() =>
+    adminDb.collection('suppliers').doc(supplierId).get()
+  );
+  if (!snap.exists) return null;
+  const data = snap.data() ?? {};
+  return {
+    id: snap.id,
+    name: (data.userName || data.name || undefined) as string | undefined,
+    blocked: !!data.cashBlocked,
+  };
+}
+
+async function positionFor(supplier: SupplierRef, limit: number): Promise<CashPosition> {
+  const { cashDue, available } = computeBalance(await listLedger(supplier.id));
+  return {
+    supplierId: supplier.id,
+    name: supplier.name,
+    cashDue,
+    available,
+    overLimit: isOverCashLimit(cashDue, limit),
+    blocked: supplier.blocked,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Reconciliation
+// ---------------------------------------------------------------------------
+
+export async function loadCashLimit(): Promise<number> {
+  return resolveCashLimit((await loadAdminSettings()).cashLimit);
+}
+
+/**
+ * Suppliers holding platform cash (or currently blocked), largest balance
+ * first.
+ */
+export async function listCashPositions(): Promise<{ limit: number; positions: CashPosition[] }> {
+  const [limit, suppliers] = await Promise.all([loadCashLimit(), loadSupplierRefs()]);
+  const positions: CashPosition[] = [];
+  for (const supplier of suppliers) {
+    const position = await positionFor(supplier, limit);
+    if (position.cashDue > 0 || position.blocked) positions.push(position);
+  }
+  positions.sort((a, b) => b.cashDue - a.cashDue);
+  return { limit, positions };
+}
+
+/** Records cash the supplier handed over, up to what they owe. */
+export async function recordCashRemittance(
+  supplierId: string,
+  amount: number,
+  options: { recordedBy: string; note?: string },
+  now: Date = new Date()
+): Promise<CashResult> {
+  const supplier = await loadSupplierRef(supplierId);
+  if (!supplier) return { success: false, error: 'Supplier not found.', status: 404 };
+
+  const remitted = Math.round(amount * 100) / 100;
+  if (!Number.isFinite(remitted) || remitted <= 0) {
+    return { success: false, error: 'Remittance amount must be greater than zero.', status: 400 };
+  }
+
+  const { cashDue } = computeBalance(await listLedger(supplierId));
+  if (remitted > cashDue) {
+    return {
+      success: false,
+      error: `Supplier only owes ₹${cashDue}; cannot record ₹${remitted}.`,
+      status: 400,
+    };
+  }
+
+  const memo = options.note
+    ? `Cash remitted to platform (${options.note})`
+    : 'Cash remitted to platform';
+  await postLedgerTransactions([
+    cashRemittanceTransaction(
+      supplierId,
+      `rmt_${supplierId}_${now.getTime()}_${options.recordedBy}`,
+      remitted,
+      memo,
+      now
+    ),
+  ]);
+
+  return { success: true, position: await positionFor(supplier, await loadCashLimit()) };
+}
+
+// ---------------------------------------------------------------------------
+// Blocking
+// ---------------------------------------------------------------------------
+
+/** Blocks or unblocks a supplier from cash orders. */
+export async function setCashBlocked(supplierId: string, blocked: boolean): Promise<CashResult> {
+  const supplier = await loadSupplierRef(supplierId);
+  if (!supplier) return { success: false, error: 'Supplier not found.', status: 404 };
+
+  if (hasAdminCredentials()) {
+    const adminDb = await getAdminDb();
+    await firestoreBreaker.execute(() =>
+      adminDb.collection('suppliers').doc(supplierId).update({ cashBlocked: blocked })
+    );
+  } else {
+    const current = store.getSupplier(supplierId);
+    if (current) store.upsertSupplier({ ...current, cashBlocked: blocked });
+  }
+
+  supplierIndex.patchOwner(supplierId, { cashBlocked: blocked });
+
+  return {
+    success: true,
+    position: await positionFor({ ...supplier, blocked }, await loadCashLimit()),
+  };
+}
+
+/** Whether the supplier is blocked from accepting cash orders. */
+export async function isCashBlocked(supplierId: string): Promise<boolean> {
+  return (await loadSupplierRef(supplierId))?.blocked ?? false;
+}
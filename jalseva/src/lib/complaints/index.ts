@@ -0,0 +1,178 @@
+// =============================================================================
+// JalSeva - Complaint Rules
+// =============================================================================
+// Customers file complaints against one of their orders. Each category has
+// two SLA timers that start when the complaint is filed: a first admin reply
+// is due within `respondHours` and resolution within `resolveHours`. A
+// complaint that misses the first is escalated to level 1, one that misses
+// the second to level 2; escalation adds an internal note to the thread so
+// the admin console can surface it.
+//
+// Pure rules; storage, attachments and the escalation sweep live in
+// './server'.
+// =============================================================================
+
+import type {
+  Complaint,
+  ComplaintCategory,
+  ComplaintReply,
+  ComplaintStatus,
+} from '@/types';
+
+// ---------------------------------------------------------------------------
+// Categories and limits
+// ---------------------------------------------------------------------------
+
+export interface ComplaintCategoryInfo {
+  label: string;
+  labelHi: string;
+  respondHours: number;
+  resolveHours: number;
+}
+
+export const COMPLAINT_CATEGORIES: Record<ComplaintCategory, ComplaintCategoryInfo> = {
+  quality: { label: 'Water quality', labelHi: 'पानी की गुणवत्ता', respondHours: 2, resolveHours: 24 },
+  short_volume: { label: 'Short volume', labelHi: 'कम पानी', respondHours: 2, resolveHours: 24 },
+  late: { label: 'Late delivery', labelHi: 'देर से डिलीवरी', respondHours: 4, resolveHours: 48 },
+  rude_behavior: { label: 'Rude behaviour', labelHi: 'बुरा व्यवहार', respondHours: 4, resolveHours: 48 },
+  overcharge: { label: 'Overcharged', labelHi: 'ज़्यादा पैसे लिए', respondHours: 4, resolveHours: 72 },
+};
+
+export const COMPLAINT_STATUSES: ComplaintStatus[] = ['open', 'in_progress', 'resolved'];
+
+export const MAX_COMPLAINT_ATTACHMENTS = 3;
+export const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+export const MAX_COMPLAINT_TEXT = 2000;
+
+/** An SLA timer this close to its deadline is shown as due soon. */
+export const SLA_WARNING_MINUTES = 30;
+
+export function isComplaintCategory(value: unknown): value is ComplaintCategory {
+  return typeof value === 'string' && value in COMPLAINT_CATEGORIES;
+}
+
+/** Both SLA deadlines for a complaint filed at `filedAt`. */
+export function complaintDeadlines(
+  category: ComplaintCategory,
+  filedAt: Date
+): Pick<Complaint, 'responseDueAt' | 'resolutionDueAt'> {
+  const { respondHours, resolveHours } = COMPLAINT_CATEGORIES[category];
+  return {
+    responseDueAt: new Date(filedAt.getTime() + respondHours * 3_600_000),
+    resolutionDueAt: new Date(filedAt.getTime() + resolveHours * 3_600_000),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// SLA state
+// ---------------------------------------------------------------------------
+
+export type SlaTimerState = 'met' | 'on_track' | 'due_soon' | 'breached';
+
+export interface ComplaintSla {
+  response: SlaTimerState;
+  resolution: SlaTimerState;
+  /** The deadline still running, if any. */
+  nextDueAt?: Date;
+}
+
+type SlaFields = Pick<
+  Complaint,
+  'status' | 'responseDueAt' | 'resolutionDueAt' | 'firstRespondedAt' | 'resolvedAt'
+>;
+
+function timerState(dueAt: Date, doneAt: Date | undefined, now: Date): SlaTimerState {
+  const due = new Date(dueAt).getTime();
+  if (doneAt) return new Date(doneAt).getTime() <= due ? 'met' : 'breached';
+  if (now.getTime() > due) return 'breached';
+  return due - now.getTime() <= SLA_WARNING_MINUTES * 60_000 ? 'due_soon' : 'on_track';
+}
+
+/** Where a complaint stands against its response and resolution deadlines. */
+export function complaintSla(complaint: SlaFields, now: Date = new Date()): ComplaintSla {
+  const response = timerState(complaint.responseDueAt, complaint.firstRespondedAt, now);
+  const resolution = timerState(
+    complaint.resolutionDueAt,
+    complaint.status === 'resolved' ? (complaint.resolvedAt ?? now) : undefined,
+    now
+  );
+
+  let nextDueAt: Date | undefined;
+  if (complaint.status !== 'resolved') {
+    nextDueAt = new Date(
+      complaint.firstRespondedAt ? complaint.resolutionDueAt : complaint.responseDueAt
+    );
+  }
+  return { response, resolution, ...(nextDueAt ? { nextDueAt } : {}) };
+}
+
+// ---------------------------------------------------------------------------
+// Escalation
+// ---------------------------------------------------------------------------
+
+/** 1 once the response deadline is missed, 2 once the resolution deadline is. */
+export function dueEscalationLevel(complaint: SlaFields, now: Date): number {
+  if (complaint.status === 'resolved') return 0;
+  if (now.getTime() > new Date(complaint.resolutionDueAt).getTime()) return 2;
+  if (!complaint.firstRespondedAt && now.getTime() > new Date(complaint.responseDueAt).getTime()) {
+    return 1;
+  }
+  return 0;
+}
+
+export interface EscalationPlan {
+  level: number;
+  note: ComplaintReply;
+}
+
+/**
+ * The escalation a complaint is due, or null if it is within its SLA or
+ * already escalated to that level.
+ */
+export function planEscalation(
+  complaint: Pick<Complaint, 'id' | 'replies' | 'escalationLevel'> & SlaFields,
+  now: Date
+): EscalationPlan | null {
+  const level = dueEscalationLevel(complaint, now);
+  if (level <= complaint.escalationLevel) return null;
+
+  const text =
+    level === 2
+      ? 'Escalated: resolution deadline missed.'
+      : 'Escalated: no reply within the response deadline.';
+  return {
+    level,
+    note: {
+      id: replyId(complaint),
+      authorId: 'system',
+      authorRole: 'system',
+      text,
+      internal: true,
+      at: now,
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Thread
+// ---------------------------------------------------------------------------
+
+export function replyId(complaint: Pick<Complaint, 'id' | 'replies'>): string {
+  return `${complaint.id}_r${complaint.replies.length + 1}`;
+}
+
+/** Trimmed reply or complaint text, or an error message. */
+export function cleanComplaintText(text: unknown): { text: string } | { error: string } {
+  const trimmed = typeof text === 'string' ? text.trim() : '';
+  if (!trimmed) return { error: 'Please describe the problem.' };
+  if (trimmed.length > MAX_COMPLAINT_TEXT) {
+    return { error: `Keep it under ${MAX_COMPLAINT_TEXT} characters.` };
+  }
+  return { text: trimmed };
+}
+
+/** A complaint as the customer sees it: no internal notes or assignee. */
+export function customerComplaintView(complaint: Complaint): Complaint {
+  const { assignedTo: _assignedTo, assignedAt: _assignedAt, ...rest } = complaint;
+  return { ...rest, replies: complaint.replies.filter((reply) => !reply.internal) };
+}
@@ -0,0 +1,473 @@
+// =============================================================================
+// JalSeva - Complaints (Server-Side)
+// =============================================================================
+// Stores complaints in `complaints` (or the demo store). Updates to a filed
+// complaint run as read-modify-write in a transaction so concurrent replies
+// are not lost. Attachments are kept in '@/lib/private-storage' and served
+// only to the complaint's customer and admins. Who is an admin comes from
+// their user record (complaintViewer), never from the request.
+//
+// escalateOverdueComplaints() is run on a schedule by
+// POST /api/complaints/escalate.
+// =============================================================================
+
+import { isAdmin } from '@/lib/auth/server';
+import { firestoreBreaker } from '@/lib/circuit-breaker';
+import { sniffImageType } from '@/lib/delivery-proof';
+import * as store from '@/lib/demo-store';
+import { loadOrder } from '@/lib/order-lifecycle';
+import { IMAGE_EXTENSIONS, privateStorage } from '@/lib/private-storage';
+import type {
+  Complaint,
+  ComplaintAttachment,
+  ComplaintCategory,
+  ComplaintReply,
+  ComplaintStatus,
+} from '@/types';
+import {
+  MAX_ATTACHMENT_BYTES,
+  MAX_COMPLAINT_ATTACHMENTS,
+  cleanComplaintText,
+  complaintDeadlines,
+  customerComplaintView,
+  isComplaintCategory,
+  planEscalation,
+  replyId,
+} from './index';
+
+// ---------------------------------------------------------------------------
+// Firebase Admin - lazy import
+// ---------------------------------------------------------------------------
+
+function hasAdminCredentials(): boolean {
+  return !!(
+    process.env.FIREBASE_ADMIN_CLIENT_EMAIL &&
+    process.env.FIREBASE_ADMIN_PRIVATE_KEY
+  );
+}
+
+async function getAdminDb() {
+  const { adminDb } = await import('@/lib/firebase-admin');
+  return adminDb;
+}
+
+function toStored(complaint: Complaint): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(complaint)) {
+    if (value === undefined) continue;
+    out[key] = value instanceof Date ? value.toISOString() : value;
+  }
+  out.replies = complaint.replies.map((reply) => ({ ...reply, at: new Date(reply.at).toISOString() }));
+  return out;
+}
+
+export type ComplaintResult =
+  | { success: true; complaint: Complaint }
+  | { success: false; error: string; status: number };
+
+export type ComplaintAttachmentResult =
+  | { success: true; bytes: Uint8Array; contentType: string }
+  | { success: false; error: string; status: number };
+
+export interface ComplaintViewer {
+  id: string;
+  role: 'customer' | 'admin';
+}
+
+const NOT_ADMIN = { success: false as const, error: 'Unauthorized. Admin access required.', status: 403 };
+
+/** The signed-in user as a viewer: an admin when their user record says so. */
+export async function complaintViewer(userId: string): Promise<ComplaintViewer> {
+  return { id: userId, role: (await isAdmin(userId)) ? 'admin' : 'customer' };
+}
+
+// ---------------------------------------------------------------------------
+// Storage
+// ---------------------------------------------------------------------------
+
+async function loadComplaint(complaintId: string): Promise<Complaint | null> {
+  if (!hasAdminCredentials()) return store.getComplaint(complaintId);
+
+  const adminDb = await getAdminDb();
+  const snap = await firestoreBreaker.execute(
+    () => adminDb.collection('complaints').doc(complaintId).get(),
+    () => null
+  );
+  if (!snap?.exists) return null;
+  return { ...snap.data(), id: snap.id } as Complaint;
+}
+
+type Mutation = (complaint: Complaint) => Complaint | { error: string; status: number };
+
+/** Applies `mutate` to the stored complaint and saves the result. */
+async function updateComplaint(complaintId: string, mutate: Mutation): Promise<ComplaintResult> {
+  if (!hasAdminCredentials()) {
+    const current = store.getComplaint(complaintId);
+    if (!current) return { success: false, error: 'Complaint not found.', status: 404 };
+    const next = mutate(current);
+    if ('error' in next) return { success: false, ...next };
+    store.saveComplaint(next);
+    return { success: true, complaint: next };
+  }
+
+  const adminDb = await getAdminDb();
+  const ref = adminDb.collection('complaints').doc(complaintId);
+  return firestoreBreaker.execute(() =>
+    adminDb.runTransaction(async (tx): Promise<ComplaintResult> => {
+      const snap = await tx.get(ref);
+      if (!snap.exists) return { success: false, error: 'Complaint not found.', status: 404 };
+      const next = mutate({ ...snap.data(), id: snap.id } as Complaint);
+      if ('error' in next) return { success: false, ...next };
+      tx.set(ref, toStored(next));
+      return { success: true, complaint: next };
+    })
+  );
+}
+
+async function customerContact(customerId: string): Promise<{ name: string; phone: string }> {
+  if (!hasAdminCredentials()) {
+    const user = store.getUser(customerId);
+    return { name: user?.name || 'Customer', phone: user?.phone || '' };
+  }
+  const adminDb = await getAdminDb();
+  const snap = await firestoreBreaker.execute(
+    () => adminDb.collection('users').doc(customerId).get(),
+    () => null
+  );
+  const user = snap?.exists ? snap.data() : undefined;
+  return { name: user?.name || 'Customer', phone: user?.phone || '' };
+}
+
+// ---------------------------------------------------------------------------
+// Filing
+// ---------------------------------------------------------------------------
+
+export interface NewComplaint {
+  orderId: string;
+  customerId: string;
+  category: ComplaintCategory | string;
+  text: string;
+  attachments?: Uint8Array[];
+}
+
+function newComplaintId(): string {
+  return `CMP-${crypto.randomUUID().replace(/-/g, '').substring(0, 8).toUpperCase()}`;
+}
+
+/**
+ * Files a complaint against one of the customer's orders. Only one open
+ * complaint per order and category is allowed.
+ */
+export async function fileComplaint(
+  input: NewComplaint,
+  now: Date = new Date()
+): Promise<ComplaintResult> {
+  const { category } = input;
+  if (!isComplaintCategory(category)) {
+    return { success: false, error: 'Unknown complaint category.', status: 400 };
+  }
+  const cleaned = cleanComplaintText(input.text);
+  if ('error' in cleaned) return { success: false, error: cleaned.error, status: 400 };
+
+  const files = input.attachments ?? [];
+  if (files.length > MAX_COMPLAINT_ATTACHMENTS) {
+    return {
+      success: false,
+      error: `Attach at most ${MAX_COMPLAINT_ATTACHMENTS} photos.`,
+      status: 400,
+    };
+  }
+  const types: string[] = [];
+  for (const bytes of files) {
+    if (bytes.byteLength === 0 || bytes.byteLength > MAX_ATTACHMENT_BYTES) {
+      return {
+        success: false,
+        error: `Each photo must be under ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB.`,
+        status: 413,
+      };
+    }
+    const type = sniffImageType(bytes);
+    if (!type) {
+      return { success: false, error: 'Attachments must be JPEG, PNG or WebP images.', status: 415 };
+    }
+    types.push(type);
+  }
+
+  const order = await loadOrder(input.orderId);
+  if (!order) return { success: false, error: 'Order not found.', status: 404 };
+  if (order.customerId !== input.customerId) {
+    return { success: false, error: 'You can only complain about your own orders.', status: 403 };
+  }
+
+  const existing = await listCustomerComplaints(input.customerId);
+  if (existing.some((c) => c.orderId === order.id && c.category === category && c.status !== 'resolved')) {
+    return {
+      success: false,
+      error: 'You already have an open complaint about this for the order.',
+      status: 409,
+    };
+  }
+
+  const id = newComplaintId();
+  const storage = privateStorage();
+  const attachments: ComplaintAttachment[] = [];
+  for (const [i, bytes] of files.entries()) {
+    const storagePath = `complaints/${id}/${i + 1}.${IMAGE_EXTENSIONS[types[i]]}`;
+    await storage.put(storagePath, bytes, types[i]);
+    attachments.push({ storagePath, contentType: types[i], sizeBytes: bytes.byteLength });
+  }
+
+  const contact = await customerContact(input.customerId);
+  const complaint: Complaint = {
+    id,
+    orderId: order.id,
+    customerId: input.customerId,
+    customerName: contact.name,
+    customerPhone: contact.phone,
+    ...(order.supplierId ? { supplierId: order.supplierId } : {}),
+    category,
+    text: cleaned.text,
+    status: 'open',
+    attachments,
+    replies: [],
+    ...complaintDeadlines(category, now),
+    escalationLevel: 0,
+    createdAt: now,
+  };
+
+  if (!hasAdminCredentials()) {
+    store.saveComplaint(complaint);
+  } else {
+    const adminDb = await getAdminDb();
+    await firestoreBreaker.execute(() =>
+      adminDb.collection('complaints').doc(id).create(toStored(complaint))
+    );
+  }
+  return { success: true, complaint };
+}
+
+// ---------------------------------------------------------------------------
+// Reading
+// ---------------------------------------------------------------------------
+
+async function listCustomerComplaints(customerId: string): Promise<Complaint[]> {
+  if (!hasAdminCredentials()) return store.listComplaints(customerId);
+
+  const adminDb = await getAdminDb();
+  const snap = await firestoreBreaker.execute(() =>
+    adminDb.collection('complaints').where('customerId', '==', customerId).get()
+  );
+  return snap.docs
+    .map((doc) => ({ ...doc.data(), id: doc.id }) as Complaint)
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+}
+
+/** A customer's complaints (without internal notes), or all complaints for an admin. */
+export async function listComplaints(viewer: ComplaintViewer): Promise<Complaint[]> {
+  if (viewer.role === 'customer') {
+    return (await listCustomerComplaints(viewer.id)).map(customerComplaintView);
+  }
+  if (!hasAdminCredentials()) return store.listComplaints();
+
+  const adminDb = await getAdminDb();
+  const snap = await firestoreBreaker.execute(() =>
+    adminDb.collection('complaints').orderBy('createdAt', 'desc').limit(500).get()
+  );
+  return snap.docs.map((doc) => ({ ...doc.data(), id: doc.id }) as Complaint);
+}
+
+/** One complaint, for its customer or an admin. */
+export async function getComplaint(
+  complaintId: string,
+  viewer: ComplaintViewer
+): Promise<ComplaintResult> {
+  const complaint = await loadComplaint(complaintId);
+  if (!complaint) return { success: false, error: 'Complaint not found.', status: 404 };
+  if (viewer.role === 'admin') return { success: true, complaint };
+  if (complaint.customerId !== viewer.id) {
+    return { success: false, error: 'Not allowed to view this complaint.', status: 403 };
+  }
+  return { success: true, complaint: customerComplaintView(complaint) };
+}
+
+/** An attachment's bytes, for the complaint's customer or an admin. */
+export async function readComplaintAttachment(
+  complaintId: string,
+  index: number,
+  viewer: ComplaintViewer
+): Promise<ComplaintAttachmentResult> {
+  const result = await getComplaint(complaintId, viewer);
+  if (!result.success) return result;
+
+  const attachment = result.complaint.attachments[index];
+  if (!attachment) return { success: false, error: 'Attachment not found.', status: 404 };
+  const bytes = await privateStorage().get(attachment.storagePath);
+  if (!bytes) return { success: false, error: 'Attachment file is missing.', status: 404 };
+  return { success: true, bytes, contentType: attachment.contentType };
+}
+
+// ---------------------------------------------------------------------------
+// Thread and handling
+// ---------------------------------------------------------------------------
+
+/**
+ * Adds a reply to the thread. The first public admin reply stops the
+ * response timer, moves the complaint to in_progress and, if nobody is
+ * assigned, assigns it to that admin. Internal notes are admin-only.
+ */
+export async function addComplaintReply(
+  complaintId: string,
+  author: ComplaintViewer,
+  text: string,
+  options: { internal?: boolean } = {},
+  now: Date = new Date()
+): Promise<ComplaintResult> {
+  const cleaned = cleanComplaintText(text);
+  if ('error' in cleaned) return { success: false, error: cleaned.error, status: 400 };
+  const internal = author.role === 'admin' && !!options.internal;
+
+  const result = await updateComplaint(complaintId, (complaint) => {
+    if (author.role === 'customer') {
+      if (complaint.customerId !== author.id) {
+        return { error: 'Not allowed to reply to this complaint.', status: 403 };
+      }
+      if (complaint.status === 'resolved') {
+        return {
+          error: 'This complaint is resolved. File a new one if the problem continues.',
+          status: 409,
+        };
+      }
+    }
+
+    const reply: ComplaintReply = {
+      id: replyId(complaint),
+      authorId: author.id,
+      authorRole: author.role,
+      text: cleaned.text,
+      ...(internal ? { internal: true } : {}),
+      at: now,
+    };
+    const next: Complaint = { ...complaint, replies: [...complaint.replies, reply], updatedAt: now };
+    if (author.role === 'admin' && !internal) {
+      if (!next.firstRespondedAt) next.firstRespondedAt = now;
+      if (next.status === 'open') next.status = 'in_progress';
+      if (!next.assignedTo) {
+        next.assignedTo = author.id;
+        next.assignedAt = now;
+      }
+    }
+    return next;
+  });
+
+  if (!result.success || author.role === 'admin') return result;
+  return { success: true, complaint: customerComplaintView(result.complaint) };
+}
+
+/** Assigns a complaint to an admin (or unassigns it with null). */
+export async function assignComplaint(
+  complaintId: string,
+  adminId: string,
+  assigneeId: string | null,
+  now: Date = new Date()
+): Promise<ComplaintResult> {
+  if (!(await isAdmin(adminId))) return NOT_ADMIN;
+  return updateComplaint(complaintId, (complaint) => {
+    const { assignedTo: _assignedTo, assignedAt: _assignedAt, ...rest } = complaint;
+    const note: ComplaintReply = {
+      id: replyId(complaint),
+      authorId: adminId,
+      authorRole: 'admin',
+      text: assigneeId ? `Assigned to ${assigneeId}.` : 'Unassigned.',
+      internal: true,
+      at: now,
+    };
+    return {
+      ...rest,
+      ...(assigneeId ? { assignedTo: assigneeId, assignedAt: now } : {}),
+      replies: [...complaint.replies, note],
+      updatedAt: now,
+    };
+  });
+}
+
+/**
+ * Moves a complaint between statuses. Resolving stops the resolution timer;
+ * an optional note is posted to the customer. A reopened complaint keeps
+ * its original deadlines.
+ */
+export async function setComplaintStatus(
+  complaintId: string,
+  adminId: string,
+  status: ComplaintStatus,
+  note?: string,
+  now: Date = new Date()
+): Promise<ComplaintResult> {
+  if (!(await isAdmin(adminId))) return NOT_ADMIN;
+  const text = note?.trim();
+  return updateComplaint(complaintId, (complaint) => {
+    const { resolvedAt: _resolvedAt, ...rest } = complaint;
+    const replies = text
+      ? [
+          ...complaint.replies,
+          { id: replyId(complaint), authorId: adminId, authorRole: 'admin' as const, text, at: now },
+        ]
+      : complaint.replies;
+    return {
+      ...rest,
+      status,
+      replies,
+      ...(status === 'resolved' ? { resolvedAt: now } : {}),
+      ...(text && !complaint.firstRespondedAt ? { firstRespondedAt: now } : {}),
+      updatedAt: now,
+    };
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Escalation sweep
+// ---------------------------------------------------------------------------
+
+export interface EscalationRunResult {
+  complaintId: string;
+  level: number;
+}
+
+/** Escalates every unresolved complaint that has missed an SLA deadline. */
+export async function escalateOverdueComplaints(
+  now: Date = new Date()
+): Promise<EscalationRunResult[]> {
+  let unresolved: Complaint[];
+  if (!hasAdminCredentials()) {
+    unresolved = store.listComplaints().filter((c) => c.status !== 'resolved');
+  } else {
+    const adminDb = await getAdminDb();
+    const snap = await firestoreBreaker.execute(() =>
+      adminDb.collection('complaints').where('status', 'in', ['open', 'in_progress']).get()
+    );
+    unresolved = snap.docs.map((doc) => ({ ...doc.data(), id: doc.id }) as Complaint);
+  }
+
+  const results: EscalationRunResult[] = [];
+  for (const candidate of unresolved) {
+    if (!planEscalation(candidate, now)) continue;
+    try {
+      const result = await updateComplaint(candidate.id, (complaint) => {
+        const plan = planEscalation(complaint, now);
+        if (!plan) return { error: 'Already escalated.', status: 409 };
+        return {
+          ...complaint,
+          escalationLevel: plan.level,
+          escalatedAt: now,
+          replies: [...complaint.replies, plan.note],
+          updatedAt: now,
+        };
+      });
+      if (result.success) {
+        results.push({ complaintId: candidate.id, level: result.complaint.escalationLevel });
+      }
+    } catch (err) {
+      console.error(`[Complaints] Escalation failed for ${candidate.id}:`, err);
+    }
+  }
+  return results;
+}
@@ -0,0 +1,305 @@
+// =============================================================================
+// JalSeva - Multi-Trip Delivery Legs
+// =============================================================================
+// An order larger than the delivering vehicle's capacity is split into
+// delivery legs when it is accepted: one trip per tankful, with the litres
+// balanced across trips (20,000 L on a 6,000 L tanker is 5,000 L × 4, not
+// 6,000 + 6,000 + 6,000 + 2,000). Orders are capped at MAX_DELIVERY_LEGS
+// trips, so a vehicle that would need more cannot take the order.
+//
+// Legs are delivered one after another. Each has its own tracking, delivery
+// OTP and volume reading, and moves pending → en_route → (arriving →)
+// delivered. The parent order follows the legs:
+//
+//   - it goes en_route when the first trip sets off,
+//   - it stays en_route between trips,
+//   - it goes arriving and delivered only with the last trip.
+//
+// Every leg must be delivered before the parent can be (see
+// '@/lib/order-lifecycle'), so payment, ledger postings and the invoice
+// settle once, for the whole order. Pure and client-safe; splitting and
+// advancing legs live in './server'.
+// =============================================================================
+
+import {
+  type VolumeEntry,
+  planVolumeRecord,
+} from '@/lib/delivery-volume';
+import type {
+  DeliveryLeg,
+  DeliveryLegStatus,
+  DeliveryVolume,
+  Order,
+  OrderActor,
+  OrderPrice,
+  OrderStatus,
+  Supplier,
+} from '@/types';
+
+// ---------------------------------------------------------------------------
+// Planning
+// ---------------------------------------------------------------------------
+
+/** The most trips one order may be split into. */
+export const MAX_DELIVERY_LEGS = 4;
+
+/** Trips a vehicle of the given capacity needs to carry the quantity. */
+export function tripsNeeded(quantityLitres: number, capacityLitres: number): number {
+  if (!(capacityLitres > 0)) return Number.POSITIVE_INFINITY;
+  return Math.max(1, Math.ceil(quantityLitres / capacityLitres));
+}
+
+/** Whether a vehicle can deliver the quantity within MAX_DELIVERY_LEGS trips. */
+export function canDeliverInTrips(quantityLitres: number, capacityLitres: number): boolean {
+  return tripsNeeded(quantityLitres, capacityLitres) <= MAX_DELIVERY_LEGS;
+}
+
+export function legId(index: number): string {
+  return `leg${index}`;
+}
+
+/**
+ * The legs for an order, with the litres balanced across trips (the first
+ * legs carry any remainder). Null when one trip is enough or the vehicle
+ * would need more than MAX_DELIVERY_LEGS.
+ */
+export function planDeliveryLegs(
+  quantityLitres: number,
+  capacityLitres: number
+): Record<string, DeliveryLeg> | null {
+  const trips = tripsNeeded(quantityLitres, capacityLitres);
+  if (trips <= 1 || trips > MAX_DELIVERY_LEGS) return null;
+
+  const base = Math.floor(quantityLitres / trips);
+  const remainder = quantityLitres - base * trips;
+  const legs: Record<string, DeliveryLeg> = {};
+  for (let index = 1; index <= trips; index++) {
+    const id = legId(index);
+    legs[id] = { id, index, litres: base + (index <= remainder ? 1 : 0), status: 'pending' };
+  }
+  return legs;
+}
+
+/** Capacity of the vehicle delivering an order: its fleet vehicle, or the supplier's registered one. */
+export function deliveringCapacity(
+  supplier: Pick<Supplier, 'fleet' | 'vehicle'>,
+  order: Pick<Order, 'vehicleId'>
+): number | undefined {
+  const vehicle = order.vehicleId ? supplier.fleet?.[order.vehicleId] : undefined;
+  return vehicle?.capacity ?? supplier.vehicle?.capacity;
+}
+
+/**
+ * The order with its legs planned for the supplier's delivering vehicle.
+ * Orders that fit in one trip, or were already split, come back unchanged.
+ */
+export function withDeliveryLegs<T extends Pick<Order, 'quantityLitres' | 'vehicleId' | 'legs'>>(
+  order: T,
+  supplier: Pick<Supplier, 'fleet' | 'vehicle'> | null | undefined
+): T {
+  if (!supplier || hasLegs(order)) return order;
+  const capacity = deliveringCapacity(supplier, order);
+  const legs = capacity ? planDeliveryLegs(order.quantityLitres, capacity) : null;
+  return legs ? { ...order, legs } : order;
+}
+
+// ---------------------------------------------------------------------------
+// Reading legs
+// ---------------------------------------------------------------------------
+
+/** An order's legs in trip order; empty for a single-trip order. */
+export function deliveryLegs(order: Pick<Order, 'legs'>): DeliveryLeg[] {
+  return Object.values(order.legs ?? {}).sort((a, b) => a.index - b.index);
+}
+
+export function hasLegs(order: Pick<Order, 'legs'>): boolean {
+  return Object.keys(order.legs ?? {}).length > 0;
+}
+
+/** The trip being delivered now, or next: the first not yet delivered. */
+export function currentLeg(order: Pick<Order, 'legs'>): DeliveryLeg | undefined {
+  return deliveryLegs(order).find((leg) => leg.status !== 'delivered');
+}
+
+/** Whether every other leg is delivered, so this one completes the order. */
+export function isFinalLeg(order: Pick<Order, 'legs'>, leg: Pick<DeliveryLeg, 'id'>): boolean {
+  return deliveryLegs(order).every((other) => other.id === leg.id || other.status === 'delivered');
+}
+
+/** "Trip 2 of 4", for the supplier and customer screens. */
+export function legLabel(order: Pick<Order, 'legs'>, leg: Pick<DeliveryLeg, 'index'>): string {
+  return `Trip ${leg.index} of ${deliveryLegs(order).length}`;
+}
+
+// ---------------------------------------------------------------------------
+// Advancing a leg
+// ---------------------------------------------------------------------------
+
+export interface LegTransitionOptions {
+  actor: OrderActor;
+  reason?: string;
+  /**
+   * As for the order: an admin (checked against their user record by the
+   * caller) may deliver a trip without its OTP.
+   */
+  otpOverride?: boolean;
+}
+
+export type LegTransitionPlan =
+  | {
+      success: true;
+      leg: DeliveryLeg;
+      /** Dot-notation fields for the leg, written with or without a status change. */
+      patch: Record<string, unknown>;
+      /** The status the parent order moves to, when it moves. */
+      parentTo?: OrderStatus;
+    }
+  | { success: false; error: string; status: number };
+
+/** Order statuses that, on a multi-trip order, move the current trip instead. */
+export function isLegStatus(
+  status: OrderStatus
+): status is Exclude<DeliveryLegStatus, 'pending'> & OrderStatus {
+  return status === 'en_route' || status === 'arriving' || status === 'delivered';
+}
+
+const LEG_TRANSITIONS: Record<DeliveryLegStatus, DeliveryLegStatus[]> = {
+  pending: ['en_route'],
+  en_route: ['arriving', 'delivered'],
+  arriving: ['delivered'],
+  delivered: [],
+};
+
+const LEG_TIMESTAMPS: Partial<Record<DeliveryLegStatus, keyof DeliveryLeg>> = {
+  en_route: 'startedAt',
+  arriving: 'arrivingAt',
+  delivered: 'deliveredAt',
+};
+
+/**
+ * Validates moving the current leg to `to` and computes the leg patch and
+ * whether the parent order's status follows. The parent's own checks (OTP,
+ * cash collection) still run when it transitions.
+ */
+export function planLegTransition(
+  order: Pick<Order, 'status' | 'legs' | 'deliveryVerification'>,
+  to: Exclude<DeliveryLegStatus, 'pending'>,
+  options: LegTransitionOptions,
+  now: Date = new Date()
+): LegTransitionPlan {
+  if (!['accepted', 'en_route', 'arriving'].includes(order.status)) {
+    return { success: false, error: `Order is ${order.status}.`, status: 409 };
+  }
+  const leg = currentLeg(order);
+  if (!leg) {
+    return { success: false, error: 'Every trip has already been delivered.', status: 409 };
+  }
+  if (!LEG_TRANSITIONS[leg.status].includes(to)) {
+    return {
+      success: false,
+      error: `${legLabel(order, leg)} is ${leg.status.replace('_', ' ')} and cannot move to ${to.replace('_', ' ')}.`,
+      status: 400,
+    };
+  }
+
+  const prefix = `legs.${leg.id}`;
+  const patch: Record<string, unknown> = { [`${prefix}.status`]: to };
+  const stampField = LEG_TIMESTAMPS[to];
+  if (stampField) patch[`${prefix}.${stampField}`] = now;
+  const final = isFinalLeg(order, leg);
+  let parentTo: OrderStatus | undefined;
+
+  switch (to) {
+    case 'en_route':
+      if (order.status === 'accepted') parentTo = 'en_route';
+      break;
+
+    case 'arriving':
+      if (final && order.status === 'en_route') parentTo = 'arriving';
+      break;
+
+    case 'delivered': {
+      if (!leg.otpVerifiedAt) {
+        if (!options.otpOverride) {
+          return {
+            success: false,
+            error: `The delivery OTP for ${legLabel(order, leg).toLowerCase()} has not been verified.`,
+            status: 409,
+          };
+        }
+        if (options.actor.role !== 'admin' || !options.reason?.trim()) {
+          return {
+            success: false,
+            error: 'Only an admin can deliver without the OTP, and must give a reason.',
+            status: 403,
+          };
+        }
+        patch[`${prefix}.otpOverride`] = {
+          by: options.actor.id,
+          reason: options.reason.trim(),
+          at: now,
+        };
+      }
+      if (final) parentTo = 'delivered';
+      break;
+    }
+  }
+
+  return { success: true, leg: { ...leg, status: to }, patch, ...(parentTo ? { parentTo } : {}) };
+}
+
+/** Legs not yet delivered once `patch` is applied, for the parent's delivery check. */
+export function undeliveredLegs(
+  order: Pick<Order, 'legs'>,
+  patch: Record<string, unknown> = {}
+): DeliveryLeg[] {
+  return deliveryLegs(order).filter(
+    (leg) => (patch[`legs.${leg.id}.status`] ?? leg.status) !== 'delivered'
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Volume
+// ---------------------------------------------------------------------------
+
+/**
+ * The patch recording one trip's volume reading. The leg keeps its own
+ * reading; the order's volume is the sum of every trip (trips not yet
+ * measured count at their planned litres), so a short trip pro-rates the
+ * order price the same way a short single delivery does.
+ */
+export function planLegVolumeRecord(
+  order: Pick<Order, 'legs' | 'quantityLitres' | 'price' | 'payment' | 'deliveryVerification'>,
+  leg: DeliveryLeg,
+  reading: { litres: number; source: DeliveryVolume['source'] } & VolumeEntry,
+  recordedBy: string,
+  now: Date = new Date()
+): { patch: Record<string, unknown>; volume: DeliveryVolume; price: OrderPrice } {
+  const volume: DeliveryVolume = {
+    litres: reading.litres,
+    source: reading.source,
+    ...(reading.source === 'flow_meter'
+      ? { meterStart: reading.meterStart, meterEnd: reading.meterEnd }
+      : {}),
+    recordedBy,
+    recordedAt: now,
+  };
+
+  const total = deliveryLegs(order).reduce(
+    (sum, other) =>
+      sum + (other.id === leg.id ? reading.litres : (other.volume?.litres ?? other.litres)),
+    0
+  );
+  const parent = planVolumeRecord(
+    order,
+    { litres: Math.round(total * 10) / 10, source: reading.source },
+    recordedBy,
+    now
+  );
+
+  return {
+    patch: { ...parent.patch, [`legs.${leg.id}.volume`]: volume },
+    volume,
+    price: parent.price,
+  };
+}
@@ -0,0 +1,138 @@
+// =============================================================================
+// JalSeva - Multi-Trip Delivery Legs (Server-Side)
+// =============================================================================
+// Splits an accepted order into legs by the delivering vehicle's capacity,
+// and moves the current leg along, taking the parent order with it when the
+// leg's move changes the order's status (see './index').
+//
+// A leg move that leaves the order's status alone is written as a plain
+// order patch with its own audit event (`${orderId}_${legId}_${status}`), so
+// the order's event trail shows every trip.
+// =============================================================================
+
+import { firestoreBreaker } from '@/lib/circuit-breaker';
+import * as store from '@/lib/demo-store';
+import { issueDeliveryOtp } from '@/lib/delivery-otp/server';
+import {
+  type TransitionResult,
+  applyOrderPatch,
+  loadOrder,
+  patchOrder,
+  recordOrderEvent,
+  transitionOrder,
+} from '@/lib/order-lifecycle';
+import type { DeliveryLegStatus, Order, OrderEvent, Supplier } from '@/types';
+import {
+  type LegTransitionOptions,
+  hasLegs,
+  planLegTransition,
+  withDeliveryLegs,
+} from './index';
+
+// ---------------------------------------------------------------------------
+// Firebase Admin - lazy import
+// ---------------------------------------------------------------------------
+
+function hasAdminCredentials(): boolean {
+  return !!(
+    process.env.FIREBASE_ADMIN_CLIENT_EMAIL &&
+    process.env.FIREBASE_ADMIN_PRIVATE_KEY
+  );
+}
+
+async function getAdminDb() {
+  const { adminDb } = await import('@/lib/firebase-admin');
+  return adminDb;
+}
+
+async function loadSupplier(supplierId: string): Promise<Supplier | null> {
+  if (!hasAdminCredentials()) return store.getSupplier(supplierId);
+  const adminDb = await getAdminDb();
+  const snap = await firestoreBreaker.execute(() =>
+    adminDb.collection('suppliers').doc(supplierId).get()
+  );
+  return snap.exists ? ({ ...snap.data(), id: snap.id } as Supplier) : null;
+}
+
+// ---------------------------------------------------------------------------
+// Splitting
+// ---------------------------------------------------------------------------
+
+/**
+ * Splits an accepted Firestore order into legs when it is larger than the
+ * delivering vehicle, and returns the order as it now stands. (The demo
+ * store plans the legs with the acceptance itself.)
+ */
+export async function splitOrderIntoLegs(order: Order): Promise<Order> {
+  if (!order.supplierId || hasLegs(order)) return order;
+
+  const split = withDeliveryLegs(order, await loadSupplier(order.supplierId));
+  if (!split.legs) return order;
+
+  await patchOrder(order.id, { legs: split.legs });
+  return split;
+}
+
+// ---------------------------------------------------------------------------
+// Advancing
+// ---------------------------------------------------------------------------
+
+export interface AdvanceLegOptions extends LegTransitionOptions {
+  /** Cash collected, confirmed with the last trip of a cash order. */
+  cashCollected?: number;
+}
+
+/**
+ * Moves the current leg of a multi-trip order to `to`. When the parent
+ * order's status follows, the leg is written inside its status transition;
+ * otherwise it is patched on its own and given its own audit event.
+ */
+export async function advanceDeliveryLeg(
+  orderId: string,
+  to: Exclude<DeliveryLegStatus, 'pending'>,
+  options: AdvanceLegOptions,
+  now: Date = new Date()
+): Promise<TransitionResult> {
+  const order = await loadOrder(orderId);
+  if (!order) return { success: false, error: 'Order not found.', status: 404 };
+
+  const plan = planLegTransition(order, to, options, now);
+  if (!plan.success) return plan;
+  const metadata = { legId: plan.leg.id, trip: plan.leg.index };
+
+  if (plan.parentTo) {
+    return transitionOrder(orderId, plan.parentTo, {
+      actor: options.actor,
+      reason: options.reason,
+      otpOverride: options.otpOverride,
+      cashCollected: options.cashCollected,
+      metadata,
+      patch: plan.patch,
+    });
+  }
+
+  const { patch } = plan;
+  await patchOrder(orderId, patch);
+  const event: OrderEvent = {
+    id: `${orderId}_${plan.leg.id}_${to}`,
+    orderId,
+    from: order.status,
+    to: order.status,
+    actor: options.actor,
+    at: now,
+    ...(options.reason ? { reason: options.reason } : {}),
+    metadata: { ...metadata, legStatus: to },
+  };
+  recordOrderEvent(event);
+
+  const updated = applyOrderPatch(order, patch);
+  if (to === 'delivered') {
+    // The next trip's OTP is otherwise issued when it is first asked for
+    try {
+      await issueDeliveryOtp(updated, now);
+    } catch (err) {
+      console.error(`[DeliveryLegs] Next trip OTP failed for order ${orderId}:`, err);
+    }
+  }
+  return { success: true, order: updated, event };
+}
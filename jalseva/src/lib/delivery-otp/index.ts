@@ -0,0 +1,100 @@
+// =============================================================================
+// JalSeva - Delivery OTP Rules
+// =============================================================================
+// A 4-digit code is issued when a supplier accepts an order. Only the customer
+// sees it (on the tracking page); the supplier asks for it at the door and
+// enters it on the delivery screen. The order cannot be marked delivered until
+// the code is verified, except by an admin override that is recorded on the
+// order and its audit event.
+//
+// A multi-trip order (see '@/lib/delivery-legs') has one code per trip, for
+// the trip currently being delivered.
+//
+// Wrong codes are counted. After MAX_OTP_ATTEMPTS the code is locked for
+// OTP_LOCKOUT_MINUTES, then the count starts again. Pure and client-safe;
+// storage and verification live in './server'.
+// =============================================================================
+
+import type { DeliveryOtp, Order, OrderStatus } from '@/types';
+
+// ---------------------------------------------------------------------------
+// Rules
+// ---------------------------------------------------------------------------
+
+export const OTP_LENGTH = 4;
+export const MAX_OTP_ATTEMPTS = 5;
+export const OTP_LOCKOUT_MINUTES = 15;
+
+/** Statuses in which an OTP is live: from acceptance until delivery. */
+export const OTP_STATUSES: OrderStatus[] = ['accepted', 'en_route', 'arriving'];
+
+/** A random numeric code from the platform CSPRNG. */
+export function generateOtpCode(length: number = OTP_LENGTH): string {
+  const digits = new Uint32Array(length);
+  globalThis.crypto.getRandomValues(digits);
+  return Array.from(digits, (d) => String(d % 10)).join('');
+}
+
+/** Storage id of an order's OTP, or of one trip's OTP on a multi-trip order. */
+export function deliveryOtpId(orderId: string, legId?: string): string {
+  return legId ? `${orderId}_${legId}` : orderId;
+}
+
+export function createDeliveryOtp(
+  order: Pick<Order, 'id' | 'customerId'>,
+  now: Date = new Date(),
+  code: string = generateOtpCode()
+): DeliveryOtp {
+  return { orderId: order.id, customerId: order.customerId, code, attempts: 0, issuedAt: now };
+}
+
+export function isOtpVerified(order: Pick<Order, 'deliveryVerification'>): boolean {
+  return !!order.deliveryVerification?.otpVerifiedAt;
+}
+
+// ---------------------------------------------------------------------------
+// Checking a code
+// ---------------------------------------------------------------------------
+
+export type OtpCheck =
+  | { outcome: 'verified'; otp: DeliveryOtp }
+  | { outcome: 'invalid'; otp: DeliveryOtp; attemptsLeft: number }
+  | { outcome: 'locked'; otp: DeliveryOtp; lockedUntil: Date };
+
+function sameCode(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+}
+
+/**
+ * Checks an entered code and returns the OTP record to store. A lockout that
+ * has passed is cleared first; the attempt that reaches the limit starts a
+ * new one.
+ */
+export function checkOtp(otp: DeliveryOtp, entered: string, now: Date = new Date()): OtpCheck {
+  if (otp.verifiedAt) return { outcome: 'verified', otp };
+
+  let current = otp;
+  if (current.lockedUntil) {
+    const lockedUntil = new Date(current.lockedUntil);
+    if (lockedUntil > now) return { outcome: 'locked', otp: current, lockedUntil };
+    current = { ...current, attempts: 0, lockedUntil: undefined };
+  }
+
+  if (sameCode(current.code, entered.trim())) {
+    return { outcome: 'verified', otp: { ...current, verifiedAt: now } };
+  }
+
+  const attempts = current.attempts + 1;
+  if (attempts >= MAX_OTP_ATTEMPTS) {
+    const lockedUntil = new Date(now.getTime() + OTP_LOCKOUT_MINUTES * 60_000);
+    return { outcome: 'locked', otp: { ...current, attempts, lockedUntil }, lockedUntil };
+  }
+  return {
+    outcome: 'invalid',
+    otp: { ...current, attempts },
+    attemptsLeft: MAX_OTP_ATTEMPTS - attempts,
+  };
+}
@@ -0,0 +1,243 @@
+// =============================================================================
+// JalSeva - Delivery OTP (Server-Side)
+// =============================================================================
+// Issues, reveals and verifies delivery OTPs. Codes live in `deliveryOtps`
+// (server-only in firestore.rules) or the demo store, never on the order
+// document the supplier can read. Verification stamps
+// Order.deliveryVerification.otpVerifiedAt, which the order lifecycle
+// requires before an order can be marked delivered. On a multi-trip order
+// each trip's code stamps its leg, and the last trip's code also stamps the
+// order.
+// =============================================================================
+
+import { firestoreBreaker } from '@/lib/circuit-breaker';
+import { hotCache } from '@/lib/cache';
+import * as store from '@/lib/demo-store';
+import { loadOrder, patchOrder } from '@/lib/order-lifecycle';
+import { currentLeg, deliveryLegs, isFinalLeg } from '@/lib/delivery-legs';
+import { deliversOrder } from '@/lib/fleet';
+import type { DeliveryOtp, Order } from '@/types';
+import {
+  OTP_LENGTH,
+  OTP_STATUSES,
+  type OtpCheck,
+  checkOtp,
+  createDeliveryOtp,
+  deliveryOtpId,
+} from './index';
+
+// ---------------------------------------------------------------------------
+// Firebase Admin - lazy import
+// ---------------------------------------------------------------------------
+
+function hasAdminCredentials(): boolean {
+  return !!(
+    process.env.FIREBASE_ADMIN_CLIENT_EMAIL &&
+    process.env.FIREBASE_ADMIN_PRIVATE_KEY
+  );
+}
+
+async function getAdminDb() {
+  const { adminDb } = await import('@/lib/firebase-admin');
+  return adminDb;
+}
+
+function toStored(otp: DeliveryOtp): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(otp)) {
+    if (value === undefined) continue;
+    out[key] = value instanceof Date ? value.toISOString() : value;
+  }
+  return out;
+}
+
+export type CustomerOtpResult =
+  | {
+      success: true;
+      code: string;
+      verified: boolean;
+      /** Multi-trip orders: the trip this code is for. */
+      trip?: { legId: string; index: number; of: number };
+    }
+  | { success: false; error: string; status: number };
+
+export type OtpVerifyResult =
+  | { success: true; verifiedAt: Date }
+  | {
+      success: false;
+      error: string;
+      status: number;
+      attemptsLeft?: number;
+      lockedUntil?: Date;
+    };
+
+// ---------------------------------------------------------------------------
+// Issuing
+// ---------------------------------------------------------------------------
+
+/**
+ * Issues the delivery OTP for an order (for a multi-trip order, its current
+ * trip), or returns the one it already has. Called by the order lifecycle on
+ * acceptance, after each trip, and lazily when the customer or supplier
+ * first needs it.
+ */
+export async function issueDeliveryOtp(
+  order: Pick<Order, 'id' | 'customerId' | 'legs'>,
+  now: Date = new Date()
+): Promise<DeliveryOtp> {
+  const legId = currentLeg(order)?.id;
+  const create = () => ({ ...createDeliveryOtp(order, now), ...(legId ? { legId } : {}) });
+
+  if (!hasAdminCredentials()) {
+    const existing = store.getDeliveryOtp(order.id, legId);
+    if (existing) return existing;
+    const otp = create();
+    store.saveDeliveryOtp(otp);
+    return otp;
+  }
+
+  const adminDb = await getAdminDb();
+  const ref = adminDb.collection('deliveryOtps').doc(deliveryOtpId(order.id, legId));
+  return firestoreBreaker.execute(() =>
+    adminDb.runTransaction(async (tx) => {
+      const snap = await tx.get(ref);
+      if (snap.exists) return snap.data() as DeliveryOtp;
+      const otp = create();
+      tx.set(ref, toStored(otp));
+      return otp;
+    })
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Customer view
+// ---------------------------------------------------------------------------
+
+/** The OTP for the customer who placed the order, while delivery is pending. */
+export async function getCustomerOtp(
+  orderId: string,
+  customerId: string
+): Promise<CustomerOtpResult> {
+  const order = await loadOrder(orderId);
+  if (!order) return { success: false, error: 'Order not found.', status: 404 };
+  if (order.customerId !== customerId) {
+    return { success: false, error: 'Only the customer can view the delivery OTP.', status: 403 };
+  }
+  if (!OTP_STATUSES.includes(order.status)) {
+    return {
+      success: false,
+      error: 'The delivery OTP is available once a supplier accepts the order.',
+      status: 409,
+    };
+  }
+
+  const otp = await issueDeliveryOtp(order);
+  const leg = currentLeg(order);
+  if (leg) {
+    return {
+      success: true,
+      code: otp.code,
+      verified: !!leg.otpVerifiedAt,
+      trip: { legId: leg.id, index: leg.index, of: deliveryLegs(order).length },
+    };
+  }
+  return { success: true, code: otp.code, verified: !!order.deliveryVerification?.otpVerifiedAt };
+}
+
+// ---------------------------------------------------------------------------
+// Supplier verification
+// ---------------------------------------------------------------------------
+
+function lockedError(lockedUntil: Date): OtpVerifyResult {
+  const at = lockedUntil.toLocaleTimeString('en-IN', {
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone: 'Asia/Kolkata',
+  });
+  return {
+    success: false,
+    error: `Too many incorrect OTPs. Try again after ${at}.`,
+    status: 429,
+    lockedUntil,
+  };
+}
+
+/**
+ * Verifies the code the supplier or their fleet driver entered at the door
+ * (on a multi-trip order, for the current trip). Wrong codes count towards
+ * the lockout; a verified order or trip stays verified.
+ */
+export async function verifyDeliveryOtp(
+  orderId: string,
+  code: string,
+  supplierId: string,
+  now: Date = new Date()
+): Promise<OtpVerifyResult> {
+  if (typeof code !== 'string' || !new RegExp(`^\\d{${OTP_LENGTH}}$`).test(code.trim())) {
+    return { success: false, error: `Enter the ${OTP_LENGTH}-digit OTP.`, status: 400 };
+  }
+
+  const order = await loadOrder(orderId);
+  if (!order) return { success: false, error: 'Order not found.', status: 404 };
+  if (!deliversOrder(order, supplierId)) {
+    return { success: false, error: 'Only the assigned supplier can verify this order.', status: 403 };
+  }
+  const leg = currentLeg(order);
+  const verifiedAt = leg ? leg.otpVerifiedAt : order.deliveryVerification?.otpVerifiedAt;
+  if (verifiedAt) return { success: true, verifiedAt: new Date(verifiedAt) };
+  if (!OTP_STATUSES.includes(order.status)) {
+    return { success: false, error: `Order is ${order.status}.`, status: 409 };
+  }
+
+  // The order itself is verified by its only code, or its last trip's
+  const stamps: string[] = [];
+  if (leg) stamps.push(`legs.${leg.id}.otpVerifiedAt`);
+  if (!leg || isFinalLeg(order, leg)) stamps.push('deliveryVerification.otpVerifiedAt');
+
+  if (!hasAdminCredentials()) {
+    const check = checkOtp(await issueDeliveryOtp(order, now), code, now);
+    store.saveDeliveryOtp(check.otp);
+    if (check.outcome === 'verified') {
+      await patchOrder(orderId, Object.fromEntries(stamps.map((field) => [field, now])));
+    }
+    return toResult(check, now);
+  }
+
+  await issueDeliveryOtp(order, now);
+  const adminDb = await getAdminDb();
+  const otpRef = adminDb.collection('deliveryOtps').doc(deliveryOtpId(orderId, leg?.id));
+  const orderRef = adminDb.collection('orders').doc(orderId);
+
+  const check = await firestoreBreaker.execute(() =>
+    adminDb.runTransaction(async (tx) => {
+      const snap = await tx.get(otpRef);
+      const result = checkOtp(snap.data() as DeliveryOtp, code, now);
+      tx.set(otpRef, toStored(result.otp));
+      if (result.outcome === 'verified') {
+        tx.update(orderRef, {
+          ...Object.fromEntries(stamps.map((field) => [field, now.toISOString()])),
+          updatedAt: now.toISOString(),
+        });
+      }
+      return result;
+    })
+  );
+  if (check.outcome === 'verified') hotCache.delete(`order:${orderId}`);
+  return toResult(check, now);
+}
+
+function toResult(check: OtpCheck, now: Date): OtpVerifyResult {
+  switch (check.outcome) {
+    case 'verified':
+      return { success: true, verifiedAt: check.otp.verifiedAt ? new Date(check.otp.verifiedAt) : now };
+    case 'locked':
+      return lockedError(check.lockedUntil);
+    case 'invalid':
+      return {
+        success: false,
+        error: `Incorrect OTP. ${check.attemptsLeft} ${check.attemptsLeft === 1 ? 'attempt' : 'attempts'} left.`,
+        status: 400,
+        attemptsLeft: check.attemptsLeft,
+      };
+  }
+}
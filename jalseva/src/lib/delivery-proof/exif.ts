@@ -0,0 +1,189 @@
+// =============================================================================
+// JalSeva - Minimal EXIF Reader
+// =============================================================================
+// Reads the two EXIF fields delivery photo checks need: when the photo was
+// taken (DateTimeOriginal + OffsetTimeOriginal) and where (GPS latitude and
+// longitude). JPEG only; PNG and WebP photos from the browser rarely carry
+// EXIF. Every read is bounds-checked, so a malformed file yields an empty
+// result rather than an exception.
+// =============================================================================
+
+export interface ExifData {
+  takenAt?: Date;
+  gps?: { lat: number; lng: number };
+}
+
+/** Offset assumed when the camera did not record one (phones in India). */
+export const DEFAULT_EXIF_OFFSET = '+05:30';
+
+const TAG_DATETIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATETIME_ORIGINAL = 0x9003;
+const TAG_OFFSET_TIME_ORIGINAL = 0x9011;
+const TAG_GPS_LAT_REF = 0x0001;
+const TAG_GPS_LAT = 0x0002;
+const TAG_GPS_LNG_REF = 0x0003;
+const TAG_GPS_LNG = 0x0004;
+
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+interface IfdEntry {
+  type: number;
+  count: number;
+  /** Absolute offset of the value within the TIFF block. */
+  offset: number;
+}
+
+class TiffReader {
+  private readonly view: DataView;
+  private readonly little: boolean;
+
+  constructor(bytes: Uint8Array, start: number, length: number) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset + start, length);
+    this.little = this.view.byteLength >= 2 && this.view.getUint16(0) === 0x4949;
+  }
+
+  private inBounds(offset: number, size: number): boolean {
+    return offset >= 0 && offset + size <= this.view.byteLength;
+  }
+
+  u16(offset: number): number | null {
+    return this.inBounds(offset, 2) ? this.view.getUint16(offset, this.little) : null;
+  }
+
+  u32(offset: number): number | null {
+    return this.inBounds(offset, 4) ? this.view.getUint32(offset, this.little) : null;
+  }
+
+  /** IFD0's offset, or null when the TIFF header is invalid. */
+  firstIfd(): number | null {
+    const order = this.u16(0);
+    if (order !== 0x4949 && order !== 0x4d4d) return null;
+    if (this.u16(2) !== 42) return null;
+    return this.u32(4);
+  }
+
+  ifd(offset: number): Map<number, IfdEntry> {
+    const entries = new Map<number, IfdEntry>();
+    const count = this.u16(offset);
+    if (count === null) return entries;
+
+    for (let i = 0; i < count; i++) {
+      const at = offset + 2 + i * 12;
+      const tag = this.u16(at);
+      const type = this.u16(at + 2);
+      const n = this.u32(at + 4);
+      if (tag === null || type === null || n === null) break;
+      const size = (TYPE_SIZES[type] ?? 0) * n;
+      const valueOffset = size <= 4 ? at + 8 : this.u32(at + 8);
+      if (valueOffset === null || !this.inBounds(valueOffset, size)) continue;
+      entries.set(tag, { type, count: n, offset: valueOffset });
+    }
+    return entries;
+  }
+
+  ascii(entry: IfdEntry | undefined): string | null {
+    if (!entry || entry.type !== 2) return null;
+    let out = '';
+    for (let i = 0; i < entry.count; i++) {
+      const c = this.view.getUint8(entry.offset + i);
+      if (c === 0) break;
+      out += String.fromCharCode(c);
+    }
+    return out.trim() || null;
+  }
+
+  rationals(entry: IfdEntry | undefined): number[] | null {
+    if (!entry || entry.type !== 5) return null;
+    const values: number[] = [];
+    for (let i = 0; i < entry.count; i++) {
+      const num = this.u32(entry.offset + i * 8);
+      const den = this.u32(entry.offset + i * 8 + 4);
+      if (num === null || den === null || den === 0) return null;
+      values.push(num / den);
+    }
+    return values;
+  }
+
+  long(entry: IfdEntry | undefined): number | null {
+    if (!entry) return null;
+    if (entry.type === 4) return this.u32(entry.offset);
+    if (entry.type === 3) return this.u16(entry.offset);
+    return null;
+  }
+}
+
+/** Finds the TIFF block inside a JPEG's APP1 "Exif" segment. */
+function findExifBlock(bytes: Uint8Array): { start: number; length: number } | null {
+  if (bytes.length < 4 || bytes[0] !== 0xff || bytes[1] !== 0xd8) return null;
+
+  let i = 2;
+  while (i + 4 <= bytes.length) {
+    if (bytes[i] !== 0xff) return null;
+    const marker = bytes[i + 1];
+    // Start of scan / end of image: no metadata after this point
+    if (marker === 0xda || marker === 0xd9) return null;
+    const length = (bytes[i + 2] << 8) | bytes[i + 3];
+    if (length < 2) return null;
+
+    if (
+      marker === 0xe1 &&
+      i + 10 <= bytes.length &&
+      String.fromCharCode(...bytes.subarray(i + 4, i + 8)) === 'Exif' &&
+      bytes[i + 8] === 0 &&
+      bytes[i + 9] === 0
+    ) {
+      const start = i + 10;
+      return { start, length: Math.min(length - 8, bytes.length - start) };
+    }
+    i += 2 + length;
+  }
+  return null;
+}
+
+function parseExifDate(value: string | null, offset: string | null): Date | undefined {
+  const match = value && /^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/.exec(value);
+  if (!match) return undefined;
+  const zone = offset && /^[+-]\d{2}:\d{2}$/.test(offset) ? offset : DEFAULT_EXIF_OFFSET;
+  const [, y, mo, d, h, mi, s] = match;
+  const date = new Date(`${y}-${mo}-${d}T${h}:${mi}:${s}${zone}`);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+function toDegrees(parts: number[] | null, ref: string | null, negative: string): number | null {
+  if (!parts || parts.length < 3) return null;
+  const degrees = parts[0] + parts[1] / 60 + parts[2] / 3600;
+  return ref?.toUpperCase() === negative ? -degrees : degrees;
+}
+
+/** Capture time and GPS position from a JPEG's EXIF, where present. */
+export function readExif(bytes: Uint8Array): ExifData {
+  const block = findExifBlock(bytes);
+  if (!block) return {};
+
+  const tiff = new TiffReader(bytes, block.start, block.length);
+  const ifd0Offset = tiff.firstIfd();
+  if (ifd0Offset === null) return {};
+  const ifd0 = tiff.ifd(ifd0Offset);
+  const result: ExifData = {};
+
+  const exifOffset = tiff.long(ifd0.get(TAG_EXIF_IFD));
+  const exif = exifOffset !== null ? tiff.ifd(exifOffset) : new Map<number, IfdEntry>();
+  const takenAt = parseExifDate(
+    tiff.ascii(exif.get(TAG_DATETIME_ORIGINAL)) ?? tiff.ascii(ifd0.get(TAG_DATETIME)),
+    tiff.ascii(exif.get(TAG_OFFSET_TIME_ORIGINAL))
+  );
+  if (takenAt) result.takenAt = takenAt;
+
+  const gpsOffset = tiff.long(ifd0.get(TAG_GPS_IFD));
+  if (gpsOffset !== null) {
+    const gps = tiff.ifd(gpsOffset);
+    const lat = toDegrees(tiff.rationals(gps.get(TAG_GPS_LAT)), tiff.ascii(gps.get(TAG_GPS_LAT_REF)), 'S');
+    const lng = toDegrees(tiff.rationals(gps.get(TAG_GPS_LNG)), tiff.ascii(gps.get(TAG_GPS_LNG_REF)), 'W');
+    if (lat !== null && lng !== null && Math.abs(lat) <= 90 && Math.abs(lng) <= 180) {
+      result.gps = { lat, lng };
+    }
+  }
+  return result;
+}
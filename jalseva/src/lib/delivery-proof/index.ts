@@ -0,0 +1,129 @@
+// =============================================================================
+// JalSeva - Delivery Photo Proof Rules
+// =============================================================================
+// The supplier photographs every delivery. The photo's EXIF capture time must
+// fall between acceptance and upload, and its GPS position must be within
+// PHOTO_MAX_DISTANCE_METRES of the delivery location. Photos that fail a
+// check, or carry no EXIF (many phones strip GPS), are still stored but
+// marked 'needs_review' for an admin, since a missing tag is not proof of
+// fraud.
+//
+// Pure checks; storage, thumbnails and review live in './server'.
+// =============================================================================
+
+import { haversineDistance } from '@/lib/maps';
+import type {
+  DeliveryPhotoProof,
+  Order,
+  OrderStatus,
+  PhotoCheckResult,
+  PhotoReviewStatus,
+} from '@/types';
+import type { ExifData } from './exif';
+
+export { readExif, type ExifData } from './exif';
+
+// ---------------------------------------------------------------------------
+// Limits
+// ---------------------------------------------------------------------------
+
+export const MAX_PHOTO_BYTES = 8 * 1024 * 1024;
+
+/** Photo taken further than this from the drop point is flagged. */
+export const PHOTO_MAX_DISTANCE_METRES = 300;
+
+/** Allowance for phone clocks running ahead of or behind the server. */
+export const PHOTO_CLOCK_SKEW_MINUTES = 10;
+
+/** A photo can be uploaded from acceptance until the order is delivered. */
+export const PHOTO_UPLOAD_STATUSES: OrderStatus[] = ['accepted', 'en_route', 'arriving'];
+
+export type PhotoContentType = 'image/jpeg' | 'image/png' | 'image/webp';
+
+/** Content type from the file's magic bytes; the declared type is not trusted. */
+export function sniffImageType(bytes: Uint8Array): PhotoContentType | null {
+  if (bytes.length >= 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+    return 'image/jpeg';
+  }
+  if (
+    bytes.length >= 8 &&
+    bytes[0] === 0x89 &&
+    bytes[1] === 0x50 &&
+    bytes[2] === 0x4e &&
+    bytes[3] === 0x47
+  ) {
+    return 'image/png';
+  }
+  if (
+    bytes.length >= 12 &&
+    String.fromCharCode(...bytes.subarray(0, 4)) === 'RIFF' &&
+    String.fromCharCode(...bytes.subarray(8, 12)) === 'WEBP'
+  ) {
+    return 'image/webp';
+  }
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Checks
+// ---------------------------------------------------------------------------
+
+export type PhotoChecks = Pick<
+  DeliveryPhotoProof,
+  'takenAt' | 'takenLocation' | 'distanceMetres' | 'timestampCheck' | 'locationCheck' | 'review'
+>;
+
+/**
+ * Compares a photo's EXIF with the order: taken after the order was
+ * accepted (less clock skew) and no later than now, and near the drop point.
+ */
+export function checkPhotoProof(
+  exif: ExifData,
+  order: Pick<Order, 'deliveryLocation' | 'acceptedAt' | 'createdAt'>,
+  now: Date = new Date()
+): PhotoChecks {
+  const skew = PHOTO_CLOCK_SKEW_MINUTES * 60_000;
+  const earliest = new Date(order.acceptedAt ?? order.createdAt).getTime() - skew;
+  const latest = now.getTime() + skew;
+
+  let timestampCheck: PhotoCheckResult = 'missing';
+  if (exif.takenAt) {
+    const taken = exif.takenAt.getTime();
+    timestampCheck = taken >= earliest && taken <= latest ? 'ok' : 'mismatch';
+  }
+
+  let locationCheck: PhotoCheckResult = 'missing';
+  let distanceMetres: number | undefined;
+  if (exif.gps) {
+    distanceMetres = Math.round(
+      haversineDistance({ ...exif.gps, address: '' }, order.deliveryLocation)
+    );
+    locationCheck = distanceMetres <= PHOTO_MAX_DISTANCE_METRES ? 'ok' : 'mismatch';
+  }
+
+  const review: PhotoReviewStatus =
+    timestampCheck === 'ok' && locationCheck === 'ok' ? 'auto_passed' : 'needs_review';
+
+  return {
+    ...(exif.takenAt ? { takenAt: exif.takenAt } : {}),
+    ...(exif.gps ? { takenLocation: exif.gps } : {}),
+    ...(distanceMetres !== undefined ? { distanceMetres } : {}),
+    timestampCheck,
+    locationCheck,
+    review,
+  };
+}
+
+/** Human-readable reasons a photo was flagged, for the review UI. */
+export function photoCheckIssues(
+  proof: Pick<DeliveryPhotoProof, 'timestampCheck' | 'locationCheck' | 'distanceMetres'>
+): string[] {
+  const issues: string[] = [];
+  if (proof.timestampCheck === 'missing') issues.push('No capture time in photo');
+  if (proof.timestampCheck === 'mismatch') issues.push('Taken outside the delivery window');
+  if (proof.locationCheck === 'missing') issues.push('No GPS position in photo');
+  if (proof.locationCheck === 'mismatch') {
+    issues.push(`Taken ${proof.distanceMetres ?? '?'} m from the drop point`);
+  }
+  return issues;
+}
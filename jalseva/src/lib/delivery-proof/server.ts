@@ -0,0 +1,190 @@
+// =============================================================================
+// JalSeva - Delivery Photo Proof (Server-Side)
+// =============================================================================
+// Stores the supplier's delivery photo and a thumbnail, runs the EXIF checks
+// and records the result on Order.deliveryVerification.photoProof. Photos are
+// kept in '@/lib/private-storage' and never made public: the customer, the
+// assigned supplier and admins read them through GET
+// /api/orders/[orderId]/photo.
+//
+// Thumbnails use `sharp` when it is installed; without it the full image is
+// served for both sizes.
+// =============================================================================
+
+import { isAdmin } from '@/lib/auth/server';
+import { deliversOrder } from '@/lib/fleet';
+import { loadOrder, patchOrder } from '@/lib/order-lifecycle';
+import { IMAGE_EXTENSIONS, privateStorage } from '@/lib/private-storage';
+import type { DeliveryPhotoProof } from '@/types';
+import {
+  MAX_PHOTO_BYTES,
+  PHOTO_UPLOAD_STATUSES,
+  checkPhotoProof,
+  readExif,
+  sniffImageType,
+} from './index';
+
+// ---------------------------------------------------------------------------
+// Thumbnails
+// ---------------------------------------------------------------------------
+
+const THUMBNAIL_SIZE = 320;
+
+/** A small JPEG preview, upright per EXIF orientation; null without sharp. */
+async function makeThumbnail(bytes: Uint8Array): Promise<Uint8Array | null> {
+  try {
+    const { default: sharp } = await import('sharp');
+    return await sharp(bytes)
+      .rotate()
+      .resize({ width: THUMBNAIL_SIZE, height: THUMBNAIL_SIZE, fit: 'inside' })
+      .jpeg({ quality: 70 })
+      .toBuffer();
+  } catch (err) {
+    console.warn('[DeliveryProof] Thumbnail skipped:', err instanceof Error ? err.message : err);
+    return null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Upload
+// ---------------------------------------------------------------------------
+
+export type PhotoProofResult =
+  | { success: true; proof: DeliveryPhotoProof; photoProofUrl: string }
+  | { success: false; error: string; status: number };
+
+export type PhotoFileResult =
+  | { success: true; bytes: Uint8Array; contentType: string }
+  | { success: false; error: string; status: number };
+
+export function photoProofUrl(orderId: string): string {
+  return `/api/orders/${orderId}/photo`;
+}
+
+/**
+ * Stores a delivery photo from the assigned supplier (or its fleet driver)
+ * while the delivery is in progress. A new upload replaces the previous photo on the order.
+ */
+export async function uploadDeliveryPhoto(
+  orderId: string,
+  supplierId: string,
+  bytes: Uint8Array,
+  now: Date = new Date()
+): Promise<PhotoProofResult> {
+  if (bytes.byteLength === 0) {
+    return { success: false, error: 'Photo is empty.', status: 400 };
+  }
+  if (bytes.byteLength > MAX_PHOTO_BYTES) {
+    return {
+      success: false,
+      error: `Photo is larger than ${MAX_PHOTO_BYTES / (1024 * 1024)} MB.`,
+      status: 413,
+    };
+  }
+  const contentType = sniffImageType(bytes);
+  if (!contentType) {
+    return { success: false, error: 'Photo must be a JPEG, PNG or WebP image.', status: 415 };
+  }
+
+  const order = await loadOrder(orderId);
+  if (!order) return { success: false, error: 'Order not found.', status: 404 };
+  if (!deliversOrder(order, supplierId)) {
+    return { success: false, error: 'Only the assigned supplier can upload the delivery photo.', status: 403 };
+  }
+  if (!PHOTO_UPLOAD_STATUSES.includes(order.status)) {
+    return { success: false, error: `Order is ${order.status}.`, status: 409 };
+  }
+
+  const checks = checkPhotoProof(readExif(bytes), order, now);
+  const base = `delivery-proofs/${orderId}/${now.getTime()}`;
+  const storage = privateStorage();
+  const storagePath = `${base}.${IMAGE_EXTENSIONS[contentType]}`;
+  await storage.put(storagePath, bytes, contentType);
+
+  const thumbnail = await makeThumbnail(bytes);
+  const thumbnailPath = thumbnail ? `${base}_thumb.jpg` : undefined;
+  if (thumbnail && thumbnailPath) await storage.put(thumbnailPath, thumbnail, 'image/jpeg');
+
+  const proof: DeliveryPhotoProof = {
+    storagePath,
+    ...(thumbnailPath ? { thumbnailPath } : {}),
+    contentType,
+    sizeBytes: bytes.byteLength,
+    uploadedBy: supplierId,
+    uploadedAt: now,
+    ...checks,
+  };
+  const url = photoProofUrl(orderId);
+  await patchOrder(orderId, {
+    'deliveryVerification.photoProof': proof,
+    'deliveryVerification.photoProofUrl': url,
+  });
+
+  return { success: true, proof, photoProofUrl: url };
+}
+
+// ---------------------------------------------------------------------------
+// Viewing and review
+// ---------------------------------------------------------------------------
+
+/**
+ * The photo (or its thumbnail) for the order's customer, supplier or an
+ * admin. `viewerId` is the signed-in user; whether they are an admin comes
+ * from their user record, never from the request.
+ */
+export async function readDeliveryPhoto(
+  orderId: string,
+  viewerId: string,
+  variant: 'full' | 'thumb' = 'full'
+): Promise<PhotoFileResult> {
+  const order = await loadOrder(orderId);
+  if (!order) return { success: false, error: 'Order not found.', status: 404 };
+
+  const allowed =
+    viewerId === order.customerId ||
+    deliversOrder(order, viewerId) ||
+    (await isAdmin(viewerId));
+  if (!allowed) {
+    return { success: false, error: 'Not allowed to view this delivery photo.', status: 403 };
+  }
+
+  const proof = order.deliveryVerification?.photoProof;
+  if (!proof) return { success: false, error: 'No delivery photo for this order.', status: 404 };
+
+  const useThumb = variant === 'thumb' && !!proof.thumbnailPath;
+  const path = useThumb ? (proof.thumbnailPath as string) : proof.storagePath;
+  const bytes = await privateStorage().get(path);
+  if (!bytes) return { success: false, error: 'Delivery photo file is missing.', status: 404 };
+
+  return { success: true, bytes, contentType: useThumb ? 'image/jpeg' : proof.contentType };
+}
+
+/**
+ * Records an admin's decision on a delivery photo. `adminId` must be an
+ * admin by their user record.
+ */
+export async function reviewDeliveryPhoto(
+  orderId: string,
+  decision: 'approved' | 'rejected',
+  adminId: string,
+  note?: string,
+  now: Date = new Date()
+): Promise<PhotoProofResult> {
+  if (!(await isAdmin(adminId))) {
+    return { success: false, error: 'Unauthorized. Admin access required.', status: 403 };
+  }
+  const order = await loadOrder(orderId);
+  if (!order) return { success: false, error: 'Order not found.', status: 404 };
+  const current = order.deliveryVerification?.photoProof;
+  if (!current) return { success: false, error: 'No delivery photo for this order.', status: 404 };
+
+  const proof: DeliveryPhotoProof = {
+    ...current,
+    review: decision,
+    reviewedBy: adminId,
+    reviewedAt: now,
+    ...(note?.trim() ? { reviewNote: note.trim() } : {}),
+  };
+  await patchOrder(orderId, { 'deliveryVerification.photoProof': proof });
+  return { success: true, proof, photoProofUrl: photoProofUrl(orderId) };
+}
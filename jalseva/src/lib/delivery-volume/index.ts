@@ -0,0 +1,192 @@
+// =============================================================================
+// JalSeva - Delivered Volume Rules
+// =============================================================================
+// At the door the supplier records how many litres were delivered, typed in
+// or as a flow-meter reading. A shortfall within
+// SHORT_DELIVERY_TOLERANCE_PERCENT of the ordered quantity is ignored (meters
+// and cans are not exact). Beyond it, the order price is pro-rated to the
+// litres delivered before the order is marked delivered, so cash collection,
+// the supplier's earning and the invoice all use the lower amount; a prepaid
+// customer is refunded the difference once the order is delivered.
+//
+// The customer then confirms the reading or disputes it with the litres they
+// say arrived; disputes go to an admin. Pure and client-safe; recording,
+// responses and the refund live in './server'.
+// =============================================================================
+
+import type {
+  DeliveryLegStatus,
+  DeliveryVolume,
+  Order,
+  OrderPrice,
+  OrderStatus,
+  VolumeAdjustment,
+} from '@/types';
+
+// ---------------------------------------------------------------------------
+// Limits
+// ---------------------------------------------------------------------------
+
+/** Shortfall (as a share of the ordered quantity) treated as a full delivery. */
+export const SHORT_DELIVERY_TOLERANCE_PERCENT = 2;
+
+/** A reading above this multiple of the ordered quantity is rejected as a typo. */
+export const MAX_OVERFILL_FACTOR = 1.5;
+
+/** The supplier records the volume on the way or at the door (of the order, or of a trip). */
+export const VOLUME_ENTRY_STATUSES: (OrderStatus | DeliveryLegStatus)[] = ['en_route', 'arriving'];
+
+/** The customer can respond once the volume is recorded. */
+export const VOLUME_RESPONSE_STATUSES: (OrderStatus | DeliveryLegStatus)[] = ['arriving', 'delivered'];
+
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+// ---------------------------------------------------------------------------
+// Readings
+// ---------------------------------------------------------------------------
+
+export interface VolumeEntry {
+  litres?: number;
+  meterStart?: number;
+  meterEnd?: number;
+}
+
+/**
+ * The litres delivered from a manual entry or a pair of flow-meter readings,
+ * or an error message.
+ */
+export function resolveDeliveredLitres(
+  entry: VolumeEntry,
+  quantityLitres: number
+): { litres: number; source: DeliveryVolume['source'] } | { error: string } {
+  const fromMeter = entry.meterStart !== undefined || entry.meterEnd !== undefined;
+  let litres: number;
+
+  if (fromMeter) {
+    const { meterStart, meterEnd } = entry;
+    if (
+      typeof meterStart !== 'number' ||
+      typeof meterEnd !== 'number' ||
+      !Number.isFinite(meterStart) ||
+      !Number.isFinite(meterEnd)
+    ) {
+      return { error: 'Both flow-meter readings are required.' };
+    }
+    if (meterEnd < meterStart) {
+      return { error: 'The closing meter reading is below the opening reading.' };
+    }
+    litres = meterEnd - meterStart;
+  } else {
+    if (typeof entry.litres !== 'number' || !Number.isFinite(entry.litres)) {
+      return { error: 'Enter the litres delivered.' };
+    }
+    litres = entry.litres;
+  }
+
+  litres = Math.round(litres * 10) / 10;
+  if (litres < 0) return { error: 'Litres delivered cannot be negative.' };
+  if (litres > quantityLitres * MAX_OVERFILL_FACTOR) {
+    return { error: `${litres}L is far more than the ${quantityLitres}L ordered; check the reading.` };
+  }
+  return { litres, source: fromMeter ? 'flow_meter' : 'manual' };
+}
+
+/** Whether the litres delivered fall short of the order beyond the tolerance. */
+export function isShortDelivery(quantityLitres: number, litres: number): boolean {
+  const shortfall = quantityLitres - litres;
+  return shortfall > (quantityLitres * SHORT_DELIVERY_TOLERANCE_PERCENT) / 100;
+}
+
+// ---------------------------------------------------------------------------
+// Price adjustment
+// ---------------------------------------------------------------------------
+
+/**
+ * Scales every component of a price by litres / quantityLitres. The
+ * supplier's earning is the adjusted total less the adjusted commission so
+ * the two still add up.
+ */
+export function prorateOrderPrice(
+  price: Omit<OrderPrice, 'trace'>,
+  quantityLitres: number,
+  litres: number
+): Omit<OrderPrice, 'trace'> {
+  const factor = quantityLitres > 0 ? Math.min(1, Math.max(0, litres / quantityLitres)) : 1;
+  const total = round(price.total * factor);
+  const commission = round(price.commission * factor);
+  return {
+    base: round(price.base * factor),
+    distance: round(price.distance * factor),
+    surge: round(price.surge * factor),
+    ...(price.discount !== undefined ? { discount: round(price.discount * factor) } : {}),
+    total,
+    commission,
+    supplierEarning: round(total - commission),
+  };
+}
+
+function withoutTrace(price: OrderPrice): Omit<OrderPrice, 'trace'> {
+  const { trace: _trace, ...rest } = price;
+  return rest;
+}
+
+/**
+ * The order patch recording a supplier's volume reading. A short delivery
+ * replaces the price with the pro-rated one (and, on a cash order, the
+ * amount to collect); a later reading starts again from the original price.
+ */
+export function planVolumeRecord(
+  order: Pick<Order, 'quantityLitres' | 'price' | 'payment' | 'deliveryVerification'>,
+  reading: { litres: number; source: DeliveryVolume['source'] } & VolumeEntry,
+  recordedBy: string,
+  now: Date = new Date()
+): { patch: Record<string, unknown>; volume: DeliveryVolume; price: OrderPrice } {
+  const previous = order.deliveryVerification?.volume?.adjustment;
+  const original = previous?.originalPrice ?? withoutTrace(order.price);
+  const trace = order.price.trace ? { trace: order.price.trace } : {};
+
+  let adjustment: VolumeAdjustment | undefined;
+  let price: OrderPrice = { ...original, ...trace };
+  if (isShortDelivery(order.quantityLitres, reading.litres)) {
+    price = { ...prorateOrderPrice(original, order.quantityLitres, reading.litres), ...trace };
+    adjustment = {
+      shortLitres: round(order.quantityLitres - reading.litres),
+      originalPrice: original,
+      refundDue: order.payment.method === 'cash' ? 0 : round(original.total - price.total),
+    };
+  }
+
+  const volume: DeliveryVolume = {
+    litres: reading.litres,
+    source: reading.source,
+    ...(reading.source === 'flow_meter' && reading.meterStart !== undefined
+      ? { meterStart: reading.meterStart, meterEnd: reading.meterEnd }
+      : {}),
+    recordedBy,
+    recordedAt: now,
+    ...(adjustment ? { adjustment } : {}),
+  };
+
+  const patch: Record<string, unknown> = {
+    'deliveryVerification.volumeConfirmed': reading.litres,
+    'deliveryVerification.volume': volume,
+  };
+  if (adjustment || previous) {
+    patch.price = price;
+    if (order.payment.method === 'cash') patch['payment.amount'] = price.total;
+  }
+  return { patch, volume, price };
+}
+
+/**
+ * Litres billed on the invoice: the delivered volume when the price was
+ * pro-rated to it, the ordered quantity otherwise.
+ */
+export function billedLitres(
+  order: Pick<Order, 'quantityLitres' | 'deliveryVerification'>
+): number {
+  const volume = order.deliveryVerification?.volume;
+  return volume?.adjustment ? volume.litres : order.quantityLitres;
+}
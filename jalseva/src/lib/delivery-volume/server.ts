@@ -0,0 +1,161 @@
+// =============================================================================
+// JalSeva - Delivered Volume (Server-Side)
+// =============================================================================
+// Records the supplier's litres-delivered reading (pro-rating the price of a
+// short delivery), the customer's confirmation or dispute, and the refund of
+// the pro-rated difference on prepaid orders once they are delivered.
+// Multi-trip orders take a reading and a response per trip; the order's
+// volume is their sum (see '@/lib/delivery-legs').
+// =============================================================================
+
+import { deliversOrder } from '@/lib/fleet';
+import { loadOrder, patchOrder } from '@/lib/order-lifecycle';
+import { currentLeg, deliveryLegs, legLabel, planLegVolumeRecord } from '@/lib/delivery-legs';
+import { refundableAmount } from '@/lib/refunds';
+import { refundOrder } from '@/lib/refunds/server';
+import type { DeliveryVolume, Order, OrderPrice, VolumeCustomerResponse } from '@/types';
+import {
+  VOLUME_ENTRY_STATUSES,
+  VOLUME_RESPONSE_STATUSES,
+  type VolumeEntry,
+  planVolumeRecord,
+  resolveDeliveredLitres,
+} from './index';
+
+export type VolumeRecordResult =
+  | { success: true; volume: DeliveryVolume; price: OrderPrice; paymentAmount: number }
+  | { success: false; error: string; status: number };
+
+export type VolumeResponseResult =
+  | { success: true; response: VolumeCustomerResponse }
+  | { success: false; error: string; status: number };
+
+/**
+ * Records the litres delivered, from the order's assigned supplier or its
+ * fleet driver. On a multi-trip order the reading is for the trip under way.
+ */
+export async function recordDeliveredVolume(
+  orderId: string,
+  supplierId: string,
+  entry: VolumeEntry,
+  now: Date = new Date()
+): Promise<VolumeRecordResult> {
+  const order = await loadOrder(orderId);
+  if (!order) return { success: false, error: 'Order not found.', status: 404 };
+  if (!deliversOrder(order, supplierId)) {
+    return { success: false, error: 'Only the assigned supplier can record the volume.', status: 403 };
+  }
+  if (!VOLUME_ENTRY_STATUSES.includes(order.status)) {
+    return { success: false, error: `Order is ${order.status}.`, status: 409 };
+  }
+  const leg = currentLeg(order);
+  if (leg && !VOLUME_ENTRY_STATUSES.includes(leg.status)) {
+    return { success: false, error: `${legLabel(order, leg)} has not set off yet.`, status: 409 };
+  }
+  if ((leg ? leg.volume : order.deliveryVerification?.volume)?.customerResponse) {
+    return {
+      success: false,
+      error: 'The customer has already responded to the recorded volume.',
+      status: 409,
+    };
+  }
+
+  const reading = resolveDeliveredLitres(entry, leg ? leg.litres : order.quantityLitres);
+  if ('error' in reading) return { success: false, error: reading.error, status: 400 };
+
+  const withMeter = { ...reading, meterStart: entry.meterStart, meterEnd: entry.meterEnd };
+  const { patch, volume, price } = leg
+    ? planLegVolumeRecord(order, leg, withMeter, supplierId, now)
+    : planVolumeRecord(order, withMeter, supplierId, now);
+  await patchOrder(orderId, patch);
+
+  const paymentAmount =
+    typeof patch['payment.amount'] === 'number' ? patch['payment.amount'] : order.payment.amount;
+  return { success: true, volume, price, paymentAmount };
+}
+
+/**
+ * The customer's response to the recorded volume. A dispute can name the
+ * litres the customer says arrived; it is left for an admin to settle. On a
+ * multi-trip order the response is for one trip: `legId`, or the latest
+ * trip with a reading.
+ */
+export async function respondToVolume(
+  orderId: string,
+  customerId: string,
+  response: VolumeCustomerResponse['response'],
+  details: { litres?: number; note?: string; legId?: string } = {},
+  now: Date = new Date()
+): Promise<VolumeResponseResult> {
+  const order = await loadOrder(orderId);
+  if (!order) return { success: false, error: 'Order not found.', status: 404 };
+  if (order.customerId !== customerId) {
+    return { success: false, error: 'Only the customer can respond to the volume.', status: 403 };
+  }
+
+  const legs = deliveryLegs(order);
+  const leg = details.legId
+    ? order.legs?.[details.legId]
+    : legs.filter((candidate) => candidate.volume).pop();
+  if (details.legId && !leg) {
+    return { success: false, error: 'Trip not found.', status: 404 };
+  }
+  const volume = leg ? leg.volume : order.deliveryVerification?.volume;
+  const status = leg ? leg.status : order.status;
+  if (!volume || !VOLUME_RESPONSE_STATUSES.includes(status)) {
+    return { success: false, error: 'No delivered volume to confirm yet.', status: 409 };
+  }
+  if (volume.customerResponse) {
+    return { success: false, error: 'You have already responded to this delivery.', status: 409 };
+  }
+
+  const { litres } = details;
+  if (response === 'disputed' && litres !== undefined) {
+    if (!Number.isFinite(litres) || litres < 0 || litres >= volume.litres) {
+      return {
+        success: false,
+        error: `Litres received must be between 0 and the ${volume.litres}L recorded.`,
+        status: 400,
+      };
+    }
+  }
+
+  const note = details.note?.trim().slice(0, 500);
+  const customerResponse: VolumeCustomerResponse = {
+    response,
+    ...(response === 'disputed' && litres !== undefined ? { litres } : {}),
+    ...(note ? { note } : {}),
+    at: now,
+  };
+  const field = leg
+    ? `legs.${leg.id}.volume.customerResponse`
+    : 'deliveryVerification.volume.customerResponse';
+  await patchOrder(orderId, { [field]: customerResponse });
+  return { success: true, response: customerResponse };
+}
+
+/**
+ * Refunds the pro-rated difference of a short prepaid delivery. Called after
+ * the order is delivered; a refund already made is not repeated.
+ */
+export async function refundShortDelivery(order: Order): Promise<void> {
+  const adjustment = order.deliveryVerification?.volume?.adjustment;
+  if (!adjustment || adjustment.refundDue <= 0 || adjustment.refundId) return;
+
+  const amount = Math.min(adjustment.refundDue, refundableAmount(order.payment));
+  if (amount <= 0) return;
+
+  const result = await refundOrder(order.id, {
+    amount,
+    reason: 'short_delivery',
+    note: `${order.deliveryVerification?.volumeConfirmed}L of ${order.quantityLitres}L delivered`,
+    initiatedBy: 'system',
+  });
+  if (!result.success) {
+    console.warn(`[DeliveryVolume] Short-delivery refund skipped for ${order.id}: ${result.error}`);
+    return;
+  }
+  await patchOrder(order.id, {
+    'deliveryVerification.volume.adjustment.refundId': result.refund.id,
+  });
+}
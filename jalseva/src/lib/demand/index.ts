@@ -0,0 +1,180 @@
+// =============================================================================
+// JalSeva - Automatic Demand Levels
+// =============================================================================
+// A zone's demand level drives its surge multiplier (see '@/lib/pricing').
+// Instead of being set by hand it is computed once a minute:
+//
+//   1. Every searching order is counted in the zone of its delivery
+//      location, and every online supplier (each online vehicle of a fleet)
+//      in the zone of its current location.
+//   2. The counts are kept over a sliding window, and the ratio is the
+//      window's searching orders per online supplier. A zone with nobody
+//      online counts as one supplier, so the ratio stays finite.
+//   3. The ratio maps to a level through AdminSettings.demandThresholds:
+//      'high' at or above `high`, 'surge' at or above `surge`.
+//   4. Rises apply at once. A level is only left for a lower one after it
+//      has held for DEMAND_MIN_HOLD_MS and the ratio has fallen
+//      DEMAND_HYSTERESIS below the level's threshold, so a ratio hovering
+//      at a threshold does not flap the price.
+//
+// Only zones a location can resolve to (zones with a boundary, and the
+// default zone) are computed; the automatic levels are normal, high and
+// surge. How far surge can raise a price is capped separately, in
+// calculateOrderPrice().
+//
+// Pure and client-safe; the monitor loop lives in './server'.
+// =============================================================================
+
+import type {
+  DemandLevel,
+  DemandThresholds,
+  Order,
+  PricingZone,
+  Supplier,
+  ZoneVertex,
+} from '@/types';
+import { defaultZone, zoneForLocation } from '@/lib/pricing-zones';
+import { fleetVehicles, hasFleet } from '@/lib/fleet';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** How often demand is sampled. */
+export const DEMAND_INTERVAL_MS = 60_000;
+
+/** Span of samples the ratio is taken over. */
+export const DEMAND_WINDOW_MS = 10 * 60_000;
+
+/** Fraction below a level's threshold the ratio must fall to leave it. */
+export const DEMAND_HYSTERESIS = 0.2;
+
+/** Least time a level holds before demand may step down from it. */
+export const DEMAND_MIN_HOLD_MS = 5 * 60_000;
+
+/** Used where AdminSettings.demandThresholds is not set. */
+export const DEFAULT_DEMAND_THRESHOLDS: DemandThresholds = { high: 1, surge: 2 };
+
+const LEVEL_RANK: Record<DemandLevel, number> = { low: 0, normal: 1, high: 2, surge: 3 };
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface DemandCounts {
+  searching: number;
+  online: number;
+}
+
+export interface DemandSample extends DemandCounts {
+  at: Date;
+}
+
+// ---------------------------------------------------------------------------
+// Counting
+// ---------------------------------------------------------------------------
+
+/** Where a supplier's online capacity is: one point per online vehicle. */
+export function supplyPoints(
+  supplier: Pick<Supplier, 'isOnline' | 'currentLocation' | 'fleet'>
+): ZoneVertex[] {
+  if (hasFleet(supplier)) {
+    return fleetVehicles(supplier)
+      .filter((v) => v.isOnline && v.currentLocation)
+      .map((v) => v.currentLocation!);
+  }
+  return supplier.isOnline && supplier.currentLocation ? [supplier.currentLocation] : [];
+}
+
+/** Zones whose demand is computed: those a location can resolve to. */
+export function demandZones(zones: PricingZone[]): PricingZone[] {
+  const located = zones.filter((zone) => (zone.boundary?.length ?? 0) >= 3);
+  const fallback = defaultZone(zones);
+  return located.some((zone) => zone.id === fallback.id) ? located : [...located, fallback];
+}
+
+/** Searching orders and online suppliers in each demand zone, by zone id. */
+export function countDemand(
+  zones: PricingZone[],
+  orders: Pick<Order, 'status' | 'deliveryLocation'>[],
+  suppliers: Pick<Supplier, 'isOnline' | 'currentLocation' | 'fleet'>[]
+): Record<string, DemandCounts> {
+  const counts: Record<string, DemandCounts> = {};
+  for (const zone of demandZones(zones)) counts[zone.id] = { searching: 0, online: 0 };
+
+  for (const order of orders) {
+    if (order.status !== 'searching' || !order.deliveryLocation) continue;
+    const zone = counts[zoneForLocation(zones, order.deliveryLocation).id];
+    if (zone) zone.searching++;
+  }
+  for (const supplier of suppliers) {
+    for (const point of supplyPoints(supplier)) {
+      const zone = counts[zoneForLocation(zones, point).id];
+      if (zone) zone.online++;
+    }
+  }
+  return counts;
+}
+
+/** Appends a sample and drops those older than the window. */
+export function slideWindow(
+  samples: DemandSample[],
+  sample: DemandSample,
+  windowMs: number = DEMAND_WINDOW_MS
+): DemandSample[] {
+  const since = sample.at.getTime() - windowMs;
+  return [...samples, sample].filter((s) => s.at.getTime() > since);
+}
+
+/** Searching orders per online supplier over the window. */
+export function demandRatio(samples: DemandSample[]): number {
+  const searching = samples.reduce((sum, s) => sum + s.searching, 0);
+  const online = samples.reduce((sum, s) => sum + Math.max(1, s.online), 0);
+  return online > 0 ? searching / online : 0;
+}
+
+// ---------------------------------------------------------------------------
+// Levels
+// ---------------------------------------------------------------------------
+
+/**
+ * The admin thresholds, falling back to the defaults where unset or not
+ * positive. `surge` is never below `high`.
+ */
+export function resolveDemandThresholds(
+  thresholds?: Partial<DemandThresholds> | null
+): DemandThresholds {
+  const fallback = DEFAULT_DEMAND_THRESHOLDS;
+  const high =
+    typeof thresholds?.high === 'number' && thresholds.high > 0 ? thresholds.high : fallback.high;
+  const surge =
+    typeof thresholds?.surge === 'number' && thresholds.surge > 0 ? thresholds.surge : fallback.surge;
+  return { high, surge: Math.max(high, surge) };
+}
+
+/** The level a ratio maps to, without hysteresis. */
+export function levelForRatio(ratio: number, thresholds: DemandThresholds): DemandLevel {
+  if (ratio >= thresholds.surge) return 'surge';
+  if (ratio >= thresholds.high) return 'high';
+  return 'normal';
+}
+
+/**
+ * The level a zone moves to from `current`. Rises apply at once; falls
+ * wait out the hold and the hysteresis band (see the header).
+ *
+ * @param heldMs - How long `current` has been in force.
+ */
+export function nextDemandLevel(
+  current: DemandLevel,
+  ratio: number,
+  thresholds: DemandThresholds,
+  heldMs: number
+): DemandLevel {
+  const target = levelForRatio(ratio, thresholds);
+  if (LEVEL_RANK[target] >= LEVEL_RANK[current]) return target;
+  if (heldMs < DEMAND_MIN_HOLD_MS) return current;
+  // Every level is kept until the ratio is a band below its threshold
+  const banded = levelForRatio(ratio / (1 - DEMAND_HYSTERESIS), thresholds);
+  return LEVEL_RANK[banded] < LEVEL_RANK[current] ? banded : current;
+}
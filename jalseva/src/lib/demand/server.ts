@@ -0,0 +1,239 @@
+// =============================================================================
+// JalSeva - Demand Monitor (Server-Side)
+// =============================================================================
+// Samples each zone's searching orders and online suppliers, moves its
+// demand level as './index' decides, and publishes the level where pricing
+// reads it: Redis (shared by every worker, 15 minute expiry, refreshed each
+// run) and this process's L1 hot cache.
+//
+// Each run reads the zone's current level from Redis before deciding, so
+// the workers of a cluster agree on it and a change is normally logged
+// once. Every change is appended to the `demand_changes` audit collection
+// (the demo store without Firebase Admin credentials) and logged.
+//
+// Samples and how long each level has held are kept in memory: after a
+// restart the window refills over DEMAND_WINDOW_MS and the level holds for
+// DEMAND_MIN_HOLD_MS before it can fall.
+//
+// The monitor runs on a timer in each server process (startDemandMonitor,
+// started from `src/instrumentation.ts`) and from the cron trigger
+// POST /api/pricing/demand.
+// =============================================================================
+
+import { hotCache } from '@/lib/cache';
+import { firestoreBreaker } from '@/lib/circuit-breaker';
+import * as store from '@/lib/demo-store';
+import { loadAdminSettings } from '@/lib/pricing/server';
+import { listPricingZones } from '@/lib/pricing-zones/server';
+import { getDemandLevel, setDemandLevel } from '@/lib/redis';
+import type { DemandChange, DemandLevel, Order, Supplier } from '@/types';
+import {
+  DEMAND_INTERVAL_MS,
+  type DemandSample,
+  countDemand,
+  demandRatio,
+  demandZones,
+  nextDemandLevel,
+  resolveDemandThresholds,
+  slideWindow,
+} from './index';
+
+// ---------------------------------------------------------------------------
+// Firebase Admin - lazy import
+// ---------------------------------------------------------------------------
+
+function hasAdminCredentials(): boolean {
+  return !!(
+    process.env.FIREBASE_ADMIN_CLIENT_EMAIL &&
+    process.env.FIREBASE_ADMIN_PRIVATE_KEY
+  );
+}
+
+async function getAdminDb() {
+  const { adminDb } = await import('@/lib/firebase-admin');
+  return adminDb;
+}
+
+function newId(prefix: string): string {
+  return `${prefix}_${crypto.randomUUID().replace(/-/g, '').slice(0, 12)}`;
+}
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface DemandUpdate {
+  zoneId: string;
+  level: DemandLevel;
+  previous: DemandLevel;
+  ratio: number;
+  searchingOrders: number;
+  onlineSuppliers: number;
+  changed: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Storage
+// ---------------------------------------------------------------------------
+
+async function listSearchingOrders(): Promise<Order[]> {
+  if (!hasAdminCredentials()) return store.listPendingOrders();
+  const adminDb = await getAdminDb();
+  const snap = await firestoreBreaker.execute(() =>
+    adminDb.collection('orders').where('status', '==', 'searching').limit(2000).get()
+  );
+  return snap.docs.map((d) => ({ ...d.data(), id: d.id }) as Order);
+}
+
+async function listOnlineSuppliers(): Promise<Supplier[]> {
+  if (!hasAdminCredentials()) return store.listAllSuppliers().filter((s) => s.isOnline);
+  const adminDb = await getAdminDb();
+  // Fleet suppliers are online while any of their vehicles is
+  const snap = await firestoreBreaker.execute(() =>
+    adminDb.collection('suppliers').where('isOnline', '==', true).limit(2000).get()
+  );
+  return snap.docs.map((d) => ({ ...d.data(), id: d.id }) as Supplier);
+}
+
+async function saveDemandChange(change: DemandChange): Promise<void> {
+  if (!hasAdminCredentials()) {
+    store.saveDemandChange(change);
+    return;
+  }
+  const adminDb = await getAdminDb();
+  const { id, at, ...rest } = change;
+  await firestoreBreaker.execute(() =>
+    adminDb.collection('demand_changes').doc(id).set({ ...rest, at: at.toISOString() })
+  );
+}
+
+/** Audit log of automatic demand changes, newest first. */
+export async function listDemandChanges(zoneId?: string, limit = 50): Promise<DemandChange[]> {
+  if (!hasAdminCredentials()) return store.listDemandChanges(zoneId).slice(0, limit);
+  const adminDb = await getAdminDb();
+  const changes = adminDb.collection('demand_changes');
+  const query = zoneId ? changes.where('zoneId', '==', zoneId) : changes;
+  const snap = await firestoreBreaker.execute(() =>
+    query.orderBy('at', 'desc').limit(limit).get()
+  );
+  return snap.docs.map((d) => ({ ...d.data(), id: d.id }) as DemandChange);
+}
+
+// ---------------------------------------------------------------------------
+// Monitor
+// ---------------------------------------------------------------------------
+
+/** Zone id → samples in the window. */
+const windows = new Map<string, DemandSample[]>();
+/** Zone id → the level this process last saw and since when. */
+const held = new Map<string, { level: DemandLevel; since: Date }>();
+
+/** Forgets the sampled windows and held levels. */
+export function resetDemandMonitor(): void {
+  windows.clear();
+  held.clear();
+}
+
+/**
+ * Takes one sample in every zone and moves each zone's demand level.
+ * Changes are published and audited; a failure for one zone is logged and
+ * does not stop the others.
+ */
+export async function runDemandMonitor(now: Date = new Date()): Promise<DemandUpdate[]> {
+  const [zones, orders, suppliers, settings] = await Promise.all([
+    listPricingZones(),
+    listSearchingOrders(),
+    listOnlineSuppliers(),
+    loadAdminSettings(),
+  ]);
+  const thresholds = resolveDemandThresholds(settings.demandThresholds);
+  const counts = countDemand(zones, orders, suppliers);
+  const updates: DemandUpdate[] = [];
+
+  for (const zone of demandZones(zones)) {
+    const { searching, online } = counts[zone.id];
+    const samples = slideWindow(windows.get(zone.id) ?? [], { at: now, searching, online });
+    windows.set(zone.id, samples);
+    const ratio = Math.round(demandRatio(samples) * 100) / 100;
+
+    try {
+      const current = (await getDemandLevel(zone.id)) ?? held.get(zone.id)?.level ?? zone.demandLevel;
+      const seen = held.get(zone.id);
+      const since = seen?.level === current ? seen.since : now;
+      const level = nextDemandLevel(current, ratio, thresholds, now.getTime() - since.getTime());
+      const changed = level !== current;
+      held.set(zone.id, { level, since: changed ? now : since });
+
+      await setDemandLevel(zone.id, level);
+      hotCache.set(`demand:${zone.id}`, level, (2 * DEMAND_INTERVAL_MS) / 1000);
+
+      if (changed) {
+        const change: DemandChange = {
+          id: newId('dem'),
+          zoneId: zone.id,
+          from: current,
+          to: level,
+          ratio,
+          searchingOrders: searching,
+          onlineSuppliers: online,
+          thresholds,
+          at: now,
+        };
+        console.log(
+          `[Demand] Zone ${zone.id}: ${current} -> ${level} (ratio ${ratio}, ${searching} searching / ${online} online)`
+        );
+        try {
+          await saveDemandChange(change);
+        } catch (err) {
+          console.error(`[Demand] Audit write failed for zone ${zone.id}:`, err);
+        }
+      }
+
+      updates.push({
+        zoneId: zone.id,
+        level,
+        previous: current,
+        ratio,
+        searchingOrders: searching,
+        onlineSuppliers: online,
+        changed,
+      });
+    } catch (err) {
+      console.error(`[Demand] Update failed for zone ${zone.id}:`, err);
+    }
+  }
+
+  return updates;
+}
+
+// ---------------------------------------------------------------------------
+// In-process timer
+// ---------------------------------------------------------------------------
+
+let timer: ReturnType<typeof setInterval> | null = null;
+let running = false;
+
+/**
+ * Runs the monitor every `intervalMs` in this process. Safe to call more
+ * than once; a run still in progress is not overlapped.
+ */
+export function startDemandMonitor(intervalMs: number = DEMAND_INTERVAL_MS): void {
+  if (timer) return;
+  timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await runDemandMonitor();
+    } catch (err) {
+      console.error('[Demand] Monitor run failed:', err);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+  if (timer.unref) timer.unref();
+}
+
+export function stopDemandMonitor(): void {
+  if (timer) clearInterval(timer);
+  timer = null;
+}
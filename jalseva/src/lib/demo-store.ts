@@ -11,7 +11,26 @@
 // store survives Next.js HMR in development.
 // =============================================================================
 
-import type { Supplier, User, Order, GeoLocation } from '@/types';
+import { deliveryTransactions } from '@/lib/ledger';
+import { deliveryOtpId } from '@/lib/delivery-otp';
+import type {
+  AccreditedLab,
+  Complaint,
+  Supplier,
+  User,
+  Order,
+  OrderEvent,
+  GeoLocation,
+  DeliveryOtp,
+  DemandChange,
+  Invoice,
+  LedgerTransaction,
+  PricingZone,
+  QualityReportRecord,
+  SubscriptionInvoice,
+  SubscriptionPlan,
+  SupplierPayout,
+} from '@/types';
 
 const DEMO_HUB: GeoLocation = {
   lat: 28.6139,
@@ -22,11 +41,33 @@ const DEMO_HUB: GeoLocation = {
 const DEMO_CUSTOMER_ID = 'sim_9999900001';
 const DEMO_SUPPLIER_ID = 'sim_9999900002';
 const DEMO_ADMIN_ID = 'sim_9999900003';
+const DEMO_LAB_ID = 'lab_sim_nabl';
 
 interface StoreState {
   users: Map<string, User>;
   suppliers: Map<string, Supplier>;
   orders: Map<string, Order>;
+  orderEvents: Map<string, OrderEvent[]>;
+  /** Processed payment webhook event ids → event type. */
+  webhookEvents: Map<string, string>;
+  /** Supplier id → ledger transactions, oldest first. */
+  ledger: Map<string, LedgerTransaction[]>;
+  /** Supplier id → payouts, oldest first. */
+  payouts: Map<string, SupplierPayout[]>;
+  invoices: Map<string, Invoice>;
+  /** Financial year → last invoice sequence issued. */
+  invoiceSequences: Map<string, number>;
+  /** Order id → delivery OTP. */
+  deliveryOtps: Map<string, DeliveryOtp>;
+  complaints: Map<string, Complaint>;
+  /** Rating counter key → running totals (see '@/lib/ratings'). */
+  ratingTotals: Map<string, Record<string, number>>;
+  qualityReports: Map<string, QualityReportRecord>;
+  accreditedLabs: Map<string, AccreditedLab>;
+  subscriptions: Map<string, SubscriptionPlan>;
+  subscriptionInvoices: Map<string, SubscriptionInvoice>;
+  pricingZones: Map<string, PricingZone>;
+  demandChanges: DemandChange[];
 }
 
 declare global {
@@ -40,35 +81,84 @@ declare global {
 
 function simDocs(now: number) {
   const uploadedAt = new Date(now - 86_400_000 * 30);
+  const expiresAt = new Date(now + 86_400_000 * 365);
+  const approved = { verified: true, status: 'approved' as const, uploadedAt };
   return {
     aadhaar: {
       url: 'sim://aadhaar/XXXX-XXXX-1234',
-      verified: true,
-      uploadedAt,
+      maskedNumber: 'XXXX XXXX 1234',
+      ...approved,
     },
     vehicleRC: {
       url: 'sim://rc/DL-01-XX-1234',
-      verified: true,
-      uploadedAt,
+      expiresAt,
+      ...approved,
     },
     license: {
       url: 'sim://license/DL-2026-XXXXX',
-      verified: true,
-      uploadedAt,
+      expiresAt,
+      ...approved,
     },
     fssai: {
       url: 'sim://fssai/12345678901234',
-      verified: true,
-      uploadedAt,
+      expiresAt,
+      ...approved,
     },
     waterQuality: {
       url: 'sim://waterqual/NABL-LAB-2026-001',
-      verified: true,
-      uploadedAt,
+      expiresAt,
+      ...approved,
     },
   };
 }
 
+/** Posts the seeded deliveries so the supplier wallet starts with a balance. */
+function seedLedger(orders: Map<string, Order>): Map<string, LedgerTransaction[]> {
+  const ledger = new Map<string, LedgerTransaction[]>();
+  for (const o of orders.values()) {
+    if (o.status !== 'delivered' || !o.supplierId) continue;
+    const txs = deliveryTransactions(o, undefined, o.deliveredAt);
+    ledger.set(o.supplierId, [...(ledger.get(o.supplierId) ?? []), ...txs]);
+  }
+  return ledger;
+}
+
+/** Monthly lab reports leading up to the supplier's current one, for the trend chart. */
+function seedQualityReports(supplier: Supplier): Map<string, QualityReportRecord> {
+  const reports = new Map<string, QualityReportRecord>();
+  const latest = supplier.waterQualityReport;
+  if (!latest) return reports;
+  const readings = [
+    { ph: 7.4, tds: 120, monthsAgo: 3 },
+    { ph: 7.3, tds: 135, monthsAgo: 2 },
+    { ph: 7.1, tds: 160, monthsAgo: 1 },
+  ];
+  for (const r of readings) {
+    const testedAt = new Date(latest.testedAt.getTime() - r.monthsAgo * 30 * 86_400_000);
+    const id = `qr_seed_${r.monthsAgo}`;
+    reports.set(id, {
+      ...latest,
+      id,
+      supplierId: supplier.id,
+      ph: r.ph,
+      tds: r.tds,
+      testedAt,
+      status: 'safe',
+      alerts: [],
+      createdAt: testedAt,
+    });
+  }
+  reports.set('qr_seed_0', {
+    ...latest,
+    id: 'qr_seed_0',
+    supplierId: supplier.id,
+    status: 'safe',
+    alerts: [],
+    createdAt: latest.testedAt,
+  });
+  return reports;
+}
+
 function seed(): StoreState {
   const now = Date.now();
 
@@ -122,9 +212,22 @@ function seed(): StoreState {
       labName: 'NABL-Accredited Lab (Simulated)',
       certificateUrl: 'sim://cert/water-quality-2026',
       fssaiCompliant: true,
+      verification: {
+        status: 'verified',
+        labId: DEMO_LAB_ID,
+        reviewedBy: DEMO_ADMIN_ID,
+        reviewedAt: new Date(now - 86_400_000 * 6),
+      },
     },
     qualityScore: 92,
     supportsSubscription: true,
+    bankDetails: {
+      accountNumber: '50100234564521',
+      ifsc: 'HDFC0001234',
+      accountHolderName: 'Demo Supplier',
+    },
+    gstin: '07ABCDE1234F1Z5',
+    businessName: 'Demo Water Supply Co.',
   };
 
   const orders = new Map<string, Order>();
@@ -207,7 +310,37 @@ function seed(): StoreState {
     });
   }
 
-  return { users, suppliers: new Map([[DEMO_SUPPLIER_ID, supplier]]), orders };
+  return {
+    users,
+    suppliers: new Map([[DEMO_SUPPLIER_ID, supplier]]),
+    orders,
+    orderEvents: new Map(),
+    webhookEvents: new Map(),
+    ledger: seedLedger(orders),
+    payouts: new Map(),
+    invoices: new Map(),
+    invoiceSequences: new Map(),
+    deliveryOtps: new Map(),
+    complaints: new Map(),
+    ratingTotals: new Map(),
+    qualityReports: seedQualityReports(supplier),
+    accreditedLabs: new Map([
+      [
+        DEMO_LAB_ID,
+        {
+          id: DEMO_LAB_ID,
+          name: 'NABL-Accredited Lab (Simulated)',
+          accreditationNo: 'TC-0000',
+          addedBy: DEMO_ADMIN_ID,
+          addedAt: new Date(now - 86_400_000 * 365),
+        },
+      ],
+    ]),
+    subscriptions: new Map(),
+    subscriptionInvoices: new Map(),
+    pricingZones: new Map(),
+    demandChanges: [],
+  };
 }
 
 const state: StoreState =
@@ -234,6 +367,14 @@ export function upsertSupplier(s: Supplier): void {
   state.suppliers.set(s.id, s);
 }
 
+/** The fleet supplier a driver drives for. */
+export function findSupplierByDriver(driverId: string): Supplier | null {
+  for (const s of state.suppliers.values()) {
+    if (s.drivers?.[driverId]) return s;
+  }
+  return null;
+}
+
 export function setSupplierOnline(id: string, online: boolean): boolean {
   const s = state.suppliers.get(id);
   if (!s) return false;
@@ -334,28 +475,40 @@ export function getTodayEarningsForSupplier(supplierId: string): number {
   return total;
 }
 
-export function acceptOrderInStore(
-  orderId: string,
-  supplierId: string,
-): Order | null {
-  const order = state.orders.get(orderId);
-  if (!order || order.status !== 'searching') return null;
-  const supplier = state.suppliers.get(supplierId);
-  const supplierLoc = supplier?.currentLocation ?? DEMO_HUB;
-  const updated: Order = {
-    ...order,
-    supplierId,
-    status: 'accepted',
-    acceptedAt: new Date(),
-    supplierLocation: supplierLoc,
-    tracking: {
-      supplierLocation: supplierLoc,
-      eta: 600,
-      distance: 1500,
-    },
-  };
-  state.orders.set(orderId, updated);
-  return updated;
+export function appendOrderEvent(event: OrderEvent): void {
+  const events = state.orderEvents.get(event.orderId) ?? [];
+  events.push(event);
+  state.orderEvents.set(event.orderId, events);
+}
+
+export function listOrderEvents(orderId: string): OrderEvent[] {
+  return state.orderEvents.get(orderId) ?? [];
+}
+
+export function findOrderByPayment(ref: {
+  razorpayOrderId?: string;
+  razorpayPaymentId?: string;
+}): Order | null {
+  for (const o of state.orders.values()) {
+    if (ref.razorpayOrderId && o.payment?.razorpayOrderId === ref.razorpayOrderId) return o;
+    if (ref.razorpayPaymentId && o.payment?.razorpayPaymentId === ref.razorpayPaymentId) return o;
+  }
+  return null;
+}
+
+export function hasWebhookEvent(eventId: string): boolean {
+  return state.webhookEvents.has(eventId);
+}
+
+/** Records the event id unless it already is; false when it was. */
+export function claimWebhookEvent(eventId: string, event: string): boolean {
+  if (state.webhookEvents.has(eventId)) return false;
+  state.webhookEvents.set(eventId, event);
+  return true;
+}
+
+export function releaseWebhookEvent(eventId: string): void {
+  state.webhookEvents.delete(eventId);
 }
 
 export function rejectOrderInStore(orderId: string): Order | null {
@@ -375,3 +528,181 @@ export const DEMO_IDS = {
   admin: DEMO_ADMIN_ID,
   hub: DEMO_HUB,
 } as const;
+
+/** Appends ledger transactions, skipping ids already posted. Returns those added. */
+export function appendLedgerTransactions(txs: LedgerTransaction[]): LedgerTransaction[] {
+  const added: LedgerTransaction[] = [];
+  for (const tx of txs) {
+    const existing = state.ledger.get(tx.supplierId) ?? [];
+    if (existing.some((t) => t.id === tx.id)) continue;
+    state.ledger.set(tx.supplierId, [...existing, tx]);
+    added.push(tx);
+  }
+  return added;
+}
+
+export function listLedgerTransactions(supplierId: string): LedgerTransaction[] {
+  return state.ledger.get(supplierId) ?? [];
+}
+
+export function upsertPayout(payout: SupplierPayout): void {
+  const payouts = state.payouts.get(payout.supplierId) ?? [];
+  const index = payouts.findIndex((p) => p.id === payout.id);
+  state.payouts.set(
+    payout.supplierId,
+    index === -1 ? [...payouts, payout] : payouts.map((p, i) => (i === index ? payout : p))
+  );
+}
+
+export function listPayouts(supplierId: string): SupplierPayout[] {
+  return state.payouts.get(supplierId) ?? [];
+}
+
+/** Reserves the next invoice sequence number in a financial year. */
+export function nextInvoiceSequence(financialYear: string): number {
+  const next = (state.invoiceSequences.get(financialYear) ?? 0) + 1;
+  state.invoiceSequences.set(financialYear, next);
+  return next;
+}
+
+export function saveInvoice(invoice: Invoice): void {
+  state.invoices.set(invoice.id, invoice);
+}
+
+export function getInvoice(id: string): Invoice | null {
+  return state.invoices.get(id) ?? null;
+}
+
+export function getDeliveryOtp(orderId: string, legId?: string): DeliveryOtp | null {
+  return state.deliveryOtps.get(deliveryOtpId(orderId, legId)) ?? null;
+}
+
+export function saveDeliveryOtp(otp: DeliveryOtp): void {
+  state.deliveryOtps.set(deliveryOtpId(otp.orderId, otp.legId), otp);
+}
+
+export function getComplaint(id: string): Complaint | null {
+  return state.complaints.get(id) ?? null;
+}
+
+export function saveComplaint(complaint: Complaint): void {
+  state.complaints.set(complaint.id, complaint);
+}
+
+/** Complaints newest first, optionally for one customer. */
+export function listComplaints(customerId?: string): Complaint[] {
+  return Array.from(state.complaints.values())
+    .filter((c) => !customerId || c.customerId === customerId)
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+}
+
+export function getRatingTotals(key: string): Record<string, number> | null {
+  return state.ratingTotals.get(key) ?? null;
+}
+
+export function saveRatingTotals(key: string, totals: Record<string, number>): void {
+  state.ratingTotals.set(key, totals);
+}
+
+export function saveQualityReport(report: QualityReportRecord): void {
+  state.qualityReports.set(report.id, report);
+}
+
+/** A supplier's quality reports, most recently tested first. */
+export function listQualityReports(supplierId: string): QualityReportRecord[] {
+  return Array.from(state.qualityReports.values())
+    .filter((r) => r.supplierId === supplierId)
+    .sort((a, b) => b.testedAt.getTime() - a.testedAt.getTime());
+}
+
+export function getQualityReport(id: string): QualityReportRecord | null {
+  return state.qualityReports.get(id) ?? null;
+}
+
+/** Reports whose certificate awaits review, oldest first. */
+export function listPendingQualityReports(): QualityReportRecord[] {
+  return Array.from(state.qualityReports.values())
+    .filter((r) => r.verification?.status === 'pending')
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+}
+
+export function listAccreditedLabs(): AccreditedLab[] {
+  return Array.from(state.accreditedLabs.values()).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function saveAccreditedLab(lab: AccreditedLab): void {
+  state.accreditedLabs.set(lab.id, lab);
+}
+
+export function deleteAccreditedLab(id: string): boolean {
+  return state.accreditedLabs.delete(id);
+}
+
+export function getSubscription(id: string): SubscriptionPlan | null {
+  return state.subscriptions.get(id) ?? null;
+}
+
+export function saveSubscription(subscription: SubscriptionPlan): void {
+  state.subscriptions.set(subscription.id, subscription);
+}
+
+/** A customer's subscriptions, newest first. */
+export function listSubscriptions(customerId: string): SubscriptionPlan[] {
+  return Array.from(state.subscriptions.values())
+    .filter((s) => s.customerId === customerId)
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+}
+
+/** Active subscriptions with a delivery slot at or before `before`. */
+export function listDueSubscriptions(before: Date): SubscriptionPlan[] {
+  return Array.from(state.subscriptions.values()).filter(
+    (s) => s.isActive && new Date(s.nextDeliveryDate).getTime() <= before.getTime()
+  );
+}
+
+/** Subscriptions billed monthly through a mandate (see '@/lib/subscription-billing'). */
+export function listBilledSubscriptions(): SubscriptionPlan[] {
+  return Array.from(state.subscriptions.values()).filter((s) => !!s.billing);
+}
+
+export function getSubscriptionInvoice(id: string): SubscriptionInvoice | null {
+  return state.subscriptionInvoices.get(id) ?? null;
+}
+
+export function saveSubscriptionInvoice(invoice: SubscriptionInvoice): void {
+  state.subscriptionInvoices.set(invoice.id, invoice);
+}
+
+/** A subscription's invoices, latest month first. */
+export function listSubscriptionInvoices(subscriptionId: string): SubscriptionInvoice[] {
+  return Array.from(state.subscriptionInvoices.values())
+    .filter((i) => i.subscriptionId === subscriptionId)
+    .sort((a, b) => b.period.localeCompare(a.period));
+}
+
+export function getPricingZone(id: string): PricingZone | null {
+  return state.pricingZones.get(id) ?? null;
+}
+
+export function savePricingZone(zone: PricingZone): void {
+  state.pricingZones.set(zone.id, zone);
+}
+
+export function deletePricingZone(id: string): boolean {
+  return state.pricingZones.delete(id);
+}
+
+export function listPricingZones(): PricingZone[] {
+  return Array.from(state.pricingZones.values());
+}
+
+export function saveDemandChange(change: DemandChange): void {
+  state.demandChanges.push(change);
+}
+
+/** Demand level changes, newest first, optionally for one zone. */
+export function listDemandChanges(zoneId?: string): DemandChange[] {
+  return state.demandChanges
+    .filter((c) => !zoneId || c.zoneId === zoneId)
+    .sort((a, b) => new Date(b.at).getTime() - new Date(a.at).getTime());
+}
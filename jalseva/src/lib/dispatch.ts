@@ -0,0 +1,504 @@
+// =============================================================================
+// JalSeva - Order Dispatcher (Supplier Matching)
+// =============================================================================
+// Matches a `searching` order to one supplier at a time instead of waiting
+// for someone to pick it from the open queue:
+//
+//   1. Pull online, verified suppliers near the delivery point from the
+//      geohash supplierIndex. Fleet suppliers appear once per online
+//      vehicle, and each vehicle is offered the order on its own.
+//   2. Rank them by distance, qualityScore, rating and how well the vehicle
+//      capacity fits the order (suppliers that cannot carry the water type,
+//      or the quantity within MAX_DELIVERY_LEGS trips, are skipped, as are
+//      suppliers blocked from cash orders when the order is paid in cash).
+//   3. Offer the order to the best candidate with a countdown. On reject or
+//      timeout, cascade to the next candidate.
+//   4. When a radius is exhausted, double it up to
+//      AdminSettings.maxDeliveryRadius. When that is exhausted too, the
+//      order is cancelled by the system with the `no_supplier` reason.
+//
+// Offers and timers live in-process, like the supplierIndex they read from.
+// The current DispatchInfo is mirrored onto `order.dispatch` so the
+// customer and supplier screens can show who holds the offer and for how
+// long. Acceptance and cancellation go through the order lifecycle.
+// =============================================================================
+
+import { haversineDistance } from '@/lib/maps';
+import { supplierIndex } from '@/lib/geohash';
+import { batchWriter } from '@/lib/batch-writer';
+import { hotCache } from '@/lib/cache';
+import * as store from '@/lib/demo-store';
+import { loadAdminSettings } from '@/lib/pricing/server';
+import { processCancellation } from '@/lib/cancellation/server';
+import { rankingRating } from '@/lib/ratings';
+import { fleetIndexId } from '@/lib/fleet';
+import { canDeliverInTrips, tripsNeeded } from '@/lib/delivery-legs';
+import {
+  loadOrder,
+  transitionOrder,
+  type TransitionResult,
+} from '@/lib/order-lifecycle';
+import type { DispatchInfo, Order, Supplier } from '@/types';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** How long a supplier has to accept an offer. */
+export const OFFER_TIMEOUT_MS = 30_000;
+
+/** First search radius; doubled on each expansion. */
+export const INITIAL_RADIUS_KM = 5;
+
+/** Relative weight of each ranking signal (sums to 1). */
+export const DISPATCH_WEIGHTS = {
+  distance: 0.4,
+  quality: 0.25,
+  rating: 0.2,
+  capacity: 0.15,
+} as const;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type DispatchOrder = Pick<
+  Order,
+  'id' | 'waterType' | 'quantityLitres' | 'deliveryLocation'
+> & { payment?: Pick<Order['payment'], 'method'> };
+
+export interface DispatchCandidate {
+  supplierId: string;
+  /** Fleet suppliers: the vehicle, and its driver, this candidate stands for. */
+  vehicleId?: string;
+  driverId?: string;
+  distanceKm: number;
+  isOnline?: boolean;
+  verificationStatus?: string;
+  waterTypes?: string[];
+  capacityLitres?: number;
+  qualityScore?: number;
+  rating?: number;
+  cashBlocked?: boolean;
+}
+
+export interface RankedCandidate extends DispatchCandidate {
+  score: number;
+}
+
+export type DispatchResponse =
+  | { success: true; info: DispatchInfo; order?: Order }
+  | { success: false; error: string; status: number };
+
+/** Side effects of the dispatcher, injectable for tests. */
+export interface DispatcherDeps {
+  findCandidates(order: DispatchOrder, radiusKm: number): DispatchCandidate[];
+  loadOrder(orderId: string): Promise<Pick<Order, 'status'> | null>;
+  accept(
+    orderId: string,
+    supplierId: string,
+    assignment?: { vehicleId: string; driverId?: string }
+  ): Promise<TransitionResult>;
+  noSupplier(orderId: string): Promise<unknown>;
+  persist(orderId: string, info: DispatchInfo): void;
+  maxRadiusKm(): Promise<number>;
+}
+
+// ---------------------------------------------------------------------------
+// Ranking (pure)
+// ---------------------------------------------------------------------------
+
+/** The key a candidate is tried under: the supplier, or one of its fleet vehicles. */
+export function candidateKey(candidate: Pick<DispatchCandidate, 'supplierId' | 'vehicleId'>): string {
+  return candidate.vehicleId
+    ? fleetIndexId(candidate.supplierId, candidate.vehicleId)
+    : candidate.supplierId;
+}
+
+/** Whether a supplier can take the order at all. */
+export function isEligible(order: DispatchOrder, candidate: DispatchCandidate): boolean {
+  if (candidate.isOnline === false) return false;
+  if (candidate.verificationStatus && candidate.verificationStatus !== 'verified') {
+    return false;
+  }
+  if (Array.isArray(candidate.waterTypes) && !candidate.waterTypes.includes(order.waterType)) {
+    return false;
+  }
+  if (
+    candidate.capacityLitres &&
+    !canDeliverInTrips(order.quantityLitres, candidate.capacityLitres)
+  ) {
+    return false;
+  }
+  if (candidate.cashBlocked && order.payment?.method === 'cash') return false;
+  return true;
+}
+
+/**
+ * Scores a candidate in [0, 1]. Closer, higher-quality, better-rated
+ * suppliers win; among vehicles that can carry the order, the tightest fit
+ * wins so large tankers stay free for large orders, and a vehicle that needs
+ * several trips scores less the more trips it needs.
+ */
+export function scoreCandidate(
+  order: DispatchOrder,
+  candidate: DispatchCandidate,
+  radiusKm: number
+): number {
+  const w = DISPATCH_WEIGHTS;
+  const proximity = 1 - Math.min(candidate.distanceKm / Math.max(radiusKm, 0.1), 1);
+  const quality = (candidate.qualityScore ?? 50) / 100;
+  const rating = (candidate.rating ?? 0) / 5;
+  let capacityFit = 0.5;
+  if (candidate.capacityLitres) {
+    const trips = tripsNeeded(order.quantityLitres, candidate.capacityLitres);
+    capacityFit = trips > 1 ? 1 / trips : order.quantityLitres / candidate.capacityLitres;
+  }
+
+  return (
+    w.distance * proximity +
+    w.quality * quality +
+    w.rating * rating +
+    w.capacity * capacityFit
+  );
+}
+
+/** Eligible candidates within the radius, best first. */
+export function rankCandidates(
+  order: DispatchOrder,
+  candidates: DispatchCandidate[],
+  radiusKm: number,
+  exclude: readonly string[] = []
+): RankedCandidate[] {
+  return candidates
+    .filter(
+      (c) =>
+        c.distanceKm <= radiusKm &&
+        !exclude.includes(candidateKey(c)) &&
+        isEligible(order, c)
+    )
+    .map((c) => ({ ...c, score: scoreCandidate(order, c, radiusKm) }))
+    .sort((a, b) => b.score - a.score || a.distanceKm - b.distanceKm);
+}
+
+/** Next search radius, or null once maxRadiusKm has been searched. */
+export function nextRadius(currentKm: number, maxRadiusKm: number): number | null {
+  if (currentKm >= maxRadiusKm) return null;
+  return Math.min(currentKm * 2, maxRadiusKm);
+}
+
+// ---------------------------------------------------------------------------
+// Supplier index helpers
+// ---------------------------------------------------------------------------
+
+/** The supplier fields the dispatcher reads from supplierIndex entries. */
+export function toIndexData(supplier: Supplier): Record<string, unknown> {
+  return {
+    isOnline: supplier.isOnline,
+    verificationStatus: supplier.verificationStatus,
+    waterTypes: supplier.waterTypes,
+    vehicle: supplier.vehicle,
+    rating: supplier.rating,
+    qualityScore: supplier.qualityScore,
+    serviceArea: supplier.serviceArea,
+    cashBlocked: supplier.cashBlocked ?? false,
+  };
+}
+
+function candidatesFromIndex(order: DispatchOrder, radiusKm: number): DispatchCandidate[] {
+  const { lat, lng } = order.deliveryLocation;
+  return supplierIndex
+    .findNearby(lat, lng, radiusKm, (data) => data.isOnline === true)
+    .map((entry) => {
+      const data = entry.data as {
+        supplierId?: string;
+        vehicleId?: string;
+        driverId?: string;
+        verificationStatus?: string;
+        waterTypes?: string[];
+        vehicle?: { capacity?: number };
+        rating?: { average: number; score?: number };
+        qualityScore?: number;
+        cashBlocked?: boolean;
+      };
+      return {
+        supplierId: data.supplierId ?? entry.id,
+        ...(data.vehicleId ? { vehicleId: data.vehicleId, driverId: data.driverId } : {}),
+        distanceKm: haversineDistance(order.deliveryLocation, { lat: entry.lat, lng: entry.lng }) / 1000,
+        isOnline: true,
+        verificationStatus: data.verificationStatus,
+        waterTypes: data.waterTypes,
+        capacityLitres: data.vehicle?.capacity,
+        qualityScore: data.qualityScore,
+        rating: rankingRating(data.rating),
+        cashBlocked: data.cashBlocked,
+      };
+    });
+}
+
+// ---------------------------------------------------------------------------
+// Default side effects
+// ---------------------------------------------------------------------------
+
+function hasAdminCredentials(): boolean {
+  return !!(
+    process.env.FIREBASE_ADMIN_CLIENT_EMAIL &&
+    process.env.FIREBASE_ADMIN_PRIVATE_KEY
+  );
+}
+
+function persistDispatch(orderId: string, info: DispatchInfo): void {
+  if (hasAdminCredentials()) {
+    const offer = info.offer && {
+      ...info.offer,
+      offeredAt: info.offer.offeredAt.toISOString(),
+      expiresAt: info.offer.expiresAt.toISOString(),
+    };
+    batchWriter.update('orders', orderId, {
+      dispatch: { ...info, offer: offer ?? null },
+    });
+  } else {
+    store.updateOrder(orderId, { dispatch: info });
+  }
+  hotCache.delete(`order:${orderId}`);
+}
+
+const defaultDeps: DispatcherDeps = {
+  findCandidates: candidatesFromIndex,
+  loadOrder,
+  accept(orderId, supplierId, assignment) {
+    const indexed = supplierIndex.get(
+      assignment ? fleetIndexId(supplierId, assignment.vehicleId) : supplierId
+    );
+    return transitionOrder(orderId, 'accepted', {
+      actor: { id: assignment?.driverId ?? supplierId, role: 'supplier' },
+      metadata: { via: 'dispatch' },
+      patch: {
+        supplierId,
+        ...(assignment ? { vehicleId: assignment.vehicleId, driverId: assignment.driverId } : {}),
+        ...(indexed ? { supplierLocation: { lat: indexed.lat, lng: indexed.lng } } : {}),
+      },
+    });
+  },
+  async noSupplier(orderId) {
+    // An order created moments ago may still be in the write buffer.
+    if (hasAdminCredentials()) await batchWriter.flush();
+    return processCancellation(orderId, { by: 'system', reasonCode: 'no_supplier' });
+  },
+  persist: persistDispatch,
+  async maxRadiusKm() {
+    return (await loadAdminSettings()).maxDeliveryRadius;
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Dispatcher
+// ---------------------------------------------------------------------------
+
+interface DispatchJob {
+  order: DispatchOrder;
+  info: DispatchInfo;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+export class OrderDispatcher {
+  private jobs = new Map<string, DispatchJob>();
+  private readonly deps: DispatcherDeps;
+  private readonly offerTimeoutMs: number;
+
+  constructor(deps: Partial<DispatcherDeps> = {}, options?: { offerTimeoutMs?: number }) {
+    this.deps = { ...defaultDeps, ...deps };
+    this.offerTimeoutMs = options?.offerTimeoutMs ?? OFFER_TIMEOUT_MS;
+  }
+
+  /**
+   * Starts matching an order. Restarting an order that is already being
+   * dispatched returns its current state.
+   */
+  async dispatch(order: DispatchOrder): Promise<DispatchInfo> {
+    const existing = this.jobs.get(order.id);
+    if (existing) return existing.info;
+
+    const maxRadiusKm = await this.deps.maxRadiusKm();
+    const info: DispatchInfo = {
+      status: 'offering',
+      radiusKm: Math.min(INITIAL_RADIUS_KM, maxRadiusKm),
+      maxRadiusKm,
+      attempts: 0,
+      tried: [],
+    };
+    this.jobs.set(order.id, { order, info, timer: null });
+    // The caller has just created or loaded the order as `searching`, and a
+    // buffered Firestore write may not have landed yet, so skip the re-read.
+    await this.advance(order.id, false);
+    return info;
+  }
+
+  /**
+   * A supplier's answer to the offer they currently hold. A fleet driver
+   * (driverId) can only answer offers for their own vehicle; the fleet
+   * owner can answer any.
+   */
+  async respond(
+    orderId: string,
+    supplierId: string,
+    accept: boolean,
+    driverId?: string
+  ): Promise<DispatchResponse> {
+    const job = this.jobs.get(orderId);
+    const offer = job?.info.offer;
+    if (!job || !offer || offer.supplierId !== supplierId) {
+      return { success: false, error: 'No active offer for this supplier.', status: 409 };
+    }
+    if (driverId && offer.driverId !== driverId) {
+      return { success: false, error: 'This offer is for another vehicle.', status: 409 };
+    }
+
+    this.clearTimer(job);
+
+    if (!accept) {
+      this.decline(job);
+      await this.advance(orderId);
+      return { success: true, info: job.info };
+    }
+
+    const result = offer.vehicleId
+      ? await this.deps.accept(orderId, supplierId, {
+          vehicleId: offer.vehicleId,
+          driverId: offer.driverId,
+        })
+      : await this.deps.accept(orderId, supplierId);
+    if (!result.success) {
+      this.finish(orderId, 'stopped');
+      return result;
+    }
+
+    job.info.offer = undefined;
+    this.finish(orderId, 'matched');
+    return { success: true, info: job.info, order: result.order };
+  }
+
+  /** Stops dispatching an order (e.g. it was accepted or cancelled elsewhere). */
+  stop(orderId: string): boolean {
+    const job = this.jobs.get(orderId);
+    if (!job) return false;
+    this.clearTimer(job);
+    job.info.offer = undefined;
+    this.finish(orderId, 'stopped');
+    return true;
+  }
+
+  getState(orderId: string): DispatchInfo | null {
+    return this.jobs.get(orderId)?.info ?? null;
+  }
+
+  /** Ids of orders currently offered to a supplier, or to one fleet driver. */
+  offersFor(supplierId: string, driverId?: string): string[] {
+    const ids: string[] = [];
+    for (const [orderId, job] of this.jobs) {
+      const offer = job.info.offer;
+      if (offer?.supplierId !== supplierId) continue;
+      if (!driverId || offer.driverId === driverId) ids.push(orderId);
+    }
+    return ids;
+  }
+
+  /** Number of orders being dispatched. */
+  get size(): number {
+    return this.jobs.size;
+  }
+
+  // -------------------------------------------------------------------------
+  // Internals
+  // -------------------------------------------------------------------------
+
+  private async advance(orderId: string, verify = true): Promise<void> {
+    const job = this.jobs.get(orderId);
+    if (!job) return;
+
+    // Someone may have accepted or cancelled through another path.
+    if (verify) {
+      const current = await this.deps.loadOrder(orderId);
+      if (!current || current.status !== 'searching') {
+        job.info.offer = undefined;
+        this.finish(orderId, current?.status === 'accepted' ? 'matched' : 'stopped');
+        return;
+      }
+    }
+
+    const { info } = job;
+    for (;;) {
+      const [best] = rankCandidates(
+        job.order,
+        this.deps.findCandidates(job.order, info.radiusKm),
+        info.radiusKm,
+        info.tried
+      );
+
+      if (best) {
+        this.offer(job, best);
+        return;
+      }
+
+      const expanded = nextRadius(info.radiusKm, info.maxRadiusKm);
+      if (expanded === null) break;
+      info.radiusKm = expanded;
+    }
+
+    info.offer = undefined;
+    this.finish(orderId, 'no_supplier');
+    await this.deps.noSupplier(orderId);
+  }
+
+  private offer(job: DispatchJob, candidate: RankedCandidate): void {
+    const now = Date.now();
+    job.info.attempts++;
+    job.info.offer = {
+      supplierId: candidate.supplierId,
+      ...(candidate.vehicleId
+        ? { vehicleId: candidate.vehicleId, driverId: candidate.driverId }
+        : {}),
+      distanceKm: Math.round(candidate.distanceKm * 100) / 100,
+      offeredAt: new Date(now),
+      expiresAt: new Date(now + this.offerTimeoutMs),
+    };
+    this.deps.persist(job.order.id, job.info);
+
+    job.timer = setTimeout(() => {
+      job.timer = null;
+      this.decline(job);
+      this.advance(job.order.id).catch((err) =>
+        console.error(`[Dispatch] Failed to cascade order ${job.order.id}:`, err)
+      );
+    }, this.offerTimeoutMs);
+    if (job.timer.unref) job.timer.unref();
+  }
+
+  private decline(job: DispatchJob): void {
+    if (job.info.offer) job.info.tried.push(candidateKey(job.info.offer));
+    job.info.offer = undefined;
+  }
+
+  private finish(orderId: string, status: DispatchInfo['status']): void {
+    const job = this.jobs.get(orderId);
+    if (!job) return;
+    this.clearTimer(job);
+    job.info.status = status;
+    this.deps.persist(orderId, job.info);
+    this.jobs.delete(orderId);
+  }
+
+  private clearTimer(job: DispatchJob): void {
+    if (job.timer) {
+      clearTimeout(job.timer);
+      job.timer = null;
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Singleton Dispatcher
+// ---------------------------------------------------------------------------
+
+/** Global order dispatcher. Shared across all request handlers. */
+export const dispatcher = new OrderDispatcher();
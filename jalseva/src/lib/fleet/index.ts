@@ -0,0 +1,196 @@
+// =============================================================================
+// JalSeva - Supplier Fleets
+// =============================================================================
+// A supplier business can run several vehicles with hired drivers. The
+// vehicles live in Supplier.fleet and the drivers in Supplier.drivers; the
+// registered Supplier.vehicle becomes the fleet's first vehicle when the
+// second one is added, driven by the owner (driverId = the supplier's id).
+//
+// Each vehicle goes online on its own, and only with a driver assigned. The
+// dispatcher sees every online vehicle as its own supplierIndex entry
+// (fleetIndexId) and offers orders to one vehicle at a time, so a declined
+// offer can pass to another truck of the same fleet. Accepted orders record
+// the vehicle and driver delivering them, which the earnings rollup groups
+// by.
+//
+// Suppliers without a fleet keep the single-vehicle behaviour and their
+// supplierIndex entry keyed by their own id.
+//
+// Pure and client-safe; storage and index updates live in './server'.
+// =============================================================================
+
+import { canDeliverInTrips, tripsNeeded } from '@/lib/delivery-legs';
+import type { FleetVehicle, Order, Supplier } from '@/types';
+
+// ---------------------------------------------------------------------------
+// Vehicles
+// ---------------------------------------------------------------------------
+
+export const MAX_FLEET_VEHICLES = 50;
+
+/** Vehicle capacity limits, as for registration. */
+export const MIN_VEHICLE_CAPACITY = 500;
+export const MAX_VEHICLE_CAPACITY = 30_000;
+
+/** supplierIndex entry id of a fleet vehicle. */
+export function fleetIndexId(supplierId: string, vehicleId: string): string {
+  return `${supplierId}:${vehicleId}`;
+}
+
+/** The supplier's fleet vehicles, oldest first. */
+export function fleetVehicles(supplier: Pick<Supplier, 'fleet'>): FleetVehicle[] {
+  return Object.values(supplier.fleet ?? {}).sort(
+    (a, b) => new Date(a.addedAt).getTime() - new Date(b.addedAt).getTime()
+  );
+}
+
+export function hasFleet(supplier: Pick<Supplier, 'fleet'>): boolean {
+  return Object.keys(supplier.fleet ?? {}).length > 0;
+}
+
+/** The vehicle a driver is assigned to, if any. */
+export function driverVehicle(
+  supplier: Pick<Supplier, 'fleet'>,
+  driverId: string
+): FleetVehicle | undefined {
+  return fleetVehicles(supplier).find((v) => v.driverId === driverId);
+}
+
+/**
+ * Whether `id` is delivering the order: its supplier, or the fleet driver
+ * it is assigned to (drivers sign in with their own user id).
+ */
+export function deliversOrder(order: Pick<Order, 'supplierId' | 'driverId'>, id: string): boolean {
+  return (!!order.supplierId && order.supplierId === id) || (!!order.driverId && order.driverId === id);
+}
+
+/** A fleet supplier is online while any of its vehicles is. */
+export function isFleetOnline(supplier: Pick<Supplier, 'fleet'>): boolean {
+  return fleetVehicles(supplier).some((v) => v.isOnline);
+}
+
+/** The fleet with every vehicle offline, e.g. once the supplier is no longer verified. */
+export function offlineFleet(
+  fleet: Supplier['fleet']
+): Supplier['fleet'] {
+  if (!fleet) return fleet;
+  return Object.fromEntries(
+    Object.entries(fleet).map(([id, vehicle]) => [id, { ...vehicle, isOnline: false }])
+  );
+}
+
+/**
+ * The vehicle to deliver a manually accepted order: the accepting driver's
+ * own, otherwise the online vehicle with a driver that needs the fewest
+ * trips, smallest first, so large tankers stay free for large orders.
+ */
+export function chooseVehicle(
+  supplier: Pick<Supplier, 'fleet'>,
+  quantityLitres: number,
+  driverId?: string
+): FleetVehicle | undefined {
+  if (driverId) return driverVehicle(supplier, driverId);
+  return fleetVehicles(supplier)
+    .filter((v) => v.isOnline && v.driverId && canDeliverInTrips(quantityLitres, v.capacity))
+    .sort(
+      (a, b) =>
+        tripsNeeded(quantityLitres, a.capacity) - tripsNeeded(quantityLitres, b.capacity) ||
+        a.capacity - b.capacity
+    )[0];
+}
+
+// ---------------------------------------------------------------------------
+// Earnings rollup
+// ---------------------------------------------------------------------------
+
+export interface EarningsWindow {
+  deliveries: number;
+  litres: number;
+  earnings: number;
+}
+
+export interface VehicleEarnings {
+  vehicleId: string;
+  number: string;
+  capacity: number;
+  driverId?: string;
+  driverName?: string;
+  isOnline: boolean;
+  /** Order the vehicle is delivering now. */
+  activeOrderId?: string;
+  today: EarningsWindow;
+  week: EarningsWindow;
+}
+
+export interface FleetRollup {
+  vehicles: VehicleEarnings[];
+  /** Deliveries made before the fleet was set up, or by removed vehicles. */
+  unassigned: { today: EarningsWindow; week: EarningsWindow };
+  totals: { today: EarningsWindow; week: EarningsWindow };
+}
+
+const ACTIVE_STATUSES: Order['status'][] = ['accepted', 'en_route', 'arriving'];
+
+function emptyWindow(): EarningsWindow {
+  return { deliveries: 0, litres: 0, earnings: 0 };
+}
+
+function addTo(window: EarningsWindow, order: Order): void {
+  window.deliveries++;
+  window.litres += order.quantityLitres;
+  window.earnings += order.price.supplierEarning ?? 0;
+}
+
+/**
+ * Per-vehicle deliveries and earnings for today (since local midnight) and
+ * the last 7 days, from the supplier's orders.
+ */
+export function fleetEarnings(
+  supplier: Pick<Supplier, 'fleet' | 'drivers'>,
+  orders: Order[],
+  now: Date = new Date()
+): FleetRollup {
+  const startOfDay = new Date(now);
+  startOfDay.setHours(0, 0, 0, 0);
+  const weekStart = now.getTime() - 7 * 24 * 60 * 60 * 1000;
+
+  const vehicles = new Map<string, VehicleEarnings>(
+    fleetVehicles(supplier).map((v) => [
+      v.id,
+      {
+        vehicleId: v.id,
+        number: v.number,
+        capacity: v.capacity,
+        ...(v.driverId
+          ? { driverId: v.driverId, driverName: supplier.drivers?.[v.driverId]?.name }
+          : {}),
+        isOnline: v.isOnline,
+        today: emptyWindow(),
+        week: emptyWindow(),
+      },
+    ])
+  );
+  const unassigned = { today: emptyWindow(), week: emptyWindow() };
+  const totals = { today: emptyWindow(), week: emptyWindow() };
+
+  for (const order of orders) {
+    const vehicle = order.vehicleId ? vehicles.get(order.vehicleId) : undefined;
+    if (ACTIVE_STATUSES.includes(order.status)) {
+      if (vehicle) vehicle.activeOrderId = order.id;
+      continue;
+    }
+    if (order.status !== 'delivered' || !order.deliveredAt) continue;
+
+    const deliveredAt = new Date(order.deliveredAt).getTime();
+    if (deliveredAt < weekStart) continue;
+    const bucket = vehicle ?? unassigned;
+    addTo(bucket.week, order);
+    addTo(totals.week, order);
+    if (deliveredAt >= startOfDay.getTime()) {
+      addTo(bucket.today, order);
+      addTo(totals.today, order);
+    }
+  }
+
+  return { vehicles: [...vehicles.values()], unassigned, totals };
+}
@@ -0,0 +1,525 @@
+// =============================================================================
+// JalSeva - Supplier Fleets (Server-Side)
+// =============================================================================
+// Vehicles, drivers and per-vehicle online status for fleet suppliers (see
+// './index'), stored on the supplier document and mirrored into the
+// dispatcher's supplierIndex as one entry per online vehicle.
+//
+// Drivers are existing users: the fleet owner adds them by phone number and
+// they sign in to the supplier panel with it. In the demo, where sign-in does
+// not create user records, the driver's id is the one demo sign-in gives
+// that number.
+// =============================================================================
+
+import { hotCache } from '@/lib/cache';
+import { firestoreBreaker } from '@/lib/circuit-breaker';
+import * as store from '@/lib/demo-store';
+import { toIndexData } from '@/lib/dispatch';
+import { supplierIndex } from '@/lib/geohash';
+import { loadOrder } from '@/lib/order-lifecycle';
+import { canDeliverInTrips, currentLeg } from '@/lib/delivery-legs';
+import type { FleetDriver, FleetVehicle, GeoLocation, Order, Supplier } from '@/types';
+import {
+  MAX_FLEET_VEHICLES,
+  MAX_VEHICLE_CAPACITY,
+  MIN_VEHICLE_CAPACITY,
+  type FleetRollup,
+  driverVehicle,
+  fleetEarnings,
+  fleetIndexId,
+  fleetVehicles,
+  hasFleet,
+  isFleetOnline,
+} from './index';
+
+// ---------------------------------------------------------------------------
+// Firebase Admin - lazy import
+// ---------------------------------------------------------------------------
+
+function hasAdminCredentials(): boolean {
+  return !!(
+    process.env.FIREBASE_ADMIN_CLIENT_EMAIL &&
+    process.env.FIREBASE_ADMIN_PRIVATE_KEY
+  );
+}
+
+async function getAdminDb() {
+  const { adminDb } = await import('@/lib/firebase-admin');
+  return adminDb;
+}
+
+function toStored(value: Record<string, unknown>): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  for (const [key, field] of Object.entries(value)) {
+    if (field === undefined) continue;
+    out[key] = field instanceof Date ? field.toISOString() : field;
+  }
+  return out;
+}
+
+function storedMap(map: Record<string, FleetVehicle | FleetDriver>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(map).map(([id, item]) => [id, toStored({ ...item })])
+  );
+}
+
+export type FleetResult =
+  | { success: true; supplier: Supplier }
+  | { success: false; error: string; status: number };
+
+type FleetError = { error: string; status: number };
+
+const ACTIVE_STATUSES: Order['status'][] = ['accepted', 'en_route', 'arriving'];
+
+function newId(prefix: string): string {
+  return `${prefix}_${crypto.randomUUID().replace(/-/g, '').slice(0, 12)}`;
+}
+
+// ---------------------------------------------------------------------------
+// Storage
+// ---------------------------------------------------------------------------
+
+async function loadSupplier(supplierId: string): Promise<Supplier | null> {
+  if (!hasAdminCredentials()) return store.getSupplier(supplierId);
+  const adminDb = await getAdminDb();
+  const snap = await firestoreBreaker.execute(() =>
+    adminDb.collection('suppliers').doc(supplierId).get()
+  );
+  return snap.exists ? ({ ...snap.data(), id: snap.id } as Supplier) : null;
+}
+
+type FleetChange = (
+  supplier: Supplier
+) => Pick<Supplier, 'fleet' | 'drivers'> | FleetError;
+
+/**
+ * Applies a change to the supplier's vehicles and drivers in a transaction,
+ * keeps Supplier.isOnline as "any vehicle online" and re-syncs the index.
+ */
+async function updateFleet(supplierId: string, change: FleetChange): Promise<FleetResult> {
+  const apply = (supplier: Supplier): Supplier | FleetError => {
+    const patch = change(supplier);
+    if ('error' in patch) return patch;
+    const next: Supplier = { ...supplier, ...patch };
+    return hasFleet(next) ? { ...next, isOnline: isFleetOnline(next) } : next;
+  };
+
+  let updated: Supplier;
+  if (!hasAdminCredentials()) {
+    const supplier = store.getSupplier(supplierId);
+    if (!supplier) return { success: false, error: 'Supplier not found.', status: 404 };
+    const next = apply(supplier);
+    if ('error' in next) return { success: false, ...next };
+    store.upsertSupplier(next);
+    updated = next;
+  } else {
+    const adminDb = await getAdminDb();
+    const ref = adminDb.collection('suppliers').doc(supplierId);
+    const outcome = await firestoreBreaker.execute(() =>
+      adminDb.runTransaction(async (tx) => {
+        const snap = await tx.get(ref);
+        if (!snap.exists) return { error: 'Supplier not found.', status: 404 };
+        const next = apply({ ...snap.data(), id: snap.id } as Supplier);
+        if ('error' in next) return next;
+        tx.update(ref, {
+          fleet: storedMap(next.fleet ?? {}),
+          drivers: storedMap(next.drivers ?? {}),
+          isOnline: next.isOnline,
+          updatedAt: new Date().toISOString(),
+        });
+        return next;
+      })
+    );
+    if ('error' in outcome) return { success: false, ...outcome };
+    updated = outcome;
+  }
+
+  syncFleetIndex(updated);
+  return { success: true, supplier: updated };
+}
+
+// ---------------------------------------------------------------------------
+// Index
+// ---------------------------------------------------------------------------
+
+/**
+ * Indexes each online vehicle of a verified fleet supplier at its last known
+ * location and drops the rest. Suppliers without a fleet are left alone.
+ */
+export function syncFleetIndex(supplier: Supplier): void {
+  const vehicles = fleetVehicles(supplier);
+  if (vehicles.length === 0) return;
+
+  // A fleet is dispatched per vehicle, never as a whole
+  supplierIndex.remove(supplier.id);
+  const base = toIndexData(supplier);
+  for (const vehicle of vehicles) {
+    const id = fleetIndexId(supplier.id, vehicle.id);
+    if (!vehicle.isOnline || !vehicle.driverId || supplier.verificationStatus !== 'verified') {
+      supplierIndex.remove(id);
+      continue;
+    }
+    const at =
+      vehicle.currentLocation ?? supplierIndex.get(id) ?? supplier.currentLocation ?? supplier.serviceArea.center;
+    supplierIndex.upsert(id, at.lat, at.lng, {
+      ...base,
+      isOnline: true,
+      supplierId: supplier.id,
+      vehicleId: vehicle.id,
+      driverId: vehicle.driverId,
+      vehicle: { type: vehicle.type, capacity: vehicle.capacity, number: vehicle.number },
+    });
+  }
+}
+
+/**
+ * Records a vehicle's live location from tracking: moves its index entry
+ * and, in the demo, stores it. Firestore writes are coalesced by the
+ * tracking route.
+ */
+export function updateVehicleLocation(
+  supplierId: string,
+  vehicleId: string,
+  location: GeoLocation
+): void {
+  const id = fleetIndexId(supplierId, vehicleId);
+  const entry = supplierIndex.get(id);
+  if (entry) {
+    supplierIndex.upsert(id, location.lat, location.lng, {
+      ...entry.data,
+      lastTrackingUpdate: Date.now(),
+    });
+  }
+  if (!hasAdminCredentials()) {
+    const supplier = store.getSupplier(supplierId);
+    const vehicle = supplier?.fleet?.[vehicleId];
+    if (supplier && vehicle) {
+      store.upsertSupplier({
+        ...supplier,
+        fleet: { ...supplier.fleet, [vehicleId]: { ...vehicle, currentLocation: location } },
+      });
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Vehicles
+// ---------------------------------------------------------------------------
+
+export interface VehicleInput {
+  type?: string;
+  capacity?: number;
+  number?: string;
+}
+
+function normalizeNumber(value: string): string {
+  return value.trim().toUpperCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Adds a vehicle to the supplier's fleet. The first addition also brings in
+ * the registered vehicle, so the fleet lists every truck.
+ */
+export async function addVehicle(
+  supplierId: string,
+  input: VehicleInput,
+  now: Date = new Date()
+): Promise<FleetResult & { vehicle?: FleetVehicle }> {
+  const type = input.type?.trim();
+  const capacity = Number(input.capacity);
+  const number = normalizeNumber(input.number ?? '');
+  if (!type || number.length < 4) {
+    return { success: false, error: 'Vehicle must have a type and a registration number.', status: 400 };
+  }
+  if (!Number.isInteger(capacity) || capacity < MIN_VEHICLE_CAPACITY || capacity > MAX_VEHICLE_CAPACITY) {
+    return {
+      success: false,
+      error: `Vehicle capacity must be between ${MIN_VEHICLE_CAPACITY} and ${MAX_VEHICLE_CAPACITY} litres.`,
+      status: 400,
+    };
+  }
+
+  const vehicle: FleetVehicle = { id: newId('veh'), type, capacity, number, isOnline: false, addedAt: now };
+  const result = await updateFleet(supplierId, (supplier) => {
+    const fleet = { ...supplier.fleet };
+    if (!hasFleet(supplier) && supplier.vehicle?.number) {
+      // The owner drives the registered vehicle, which stays online if they are
+      const primary: FleetVehicle = {
+        ...supplier.vehicle,
+        id: newId('veh'),
+        driverId: supplier.id,
+        isOnline: supplier.isOnline,
+        addedAt: new Date(now.getTime() - 1),
+      };
+      fleet[primary.id] = primary;
+    }
+    if (Object.keys(fleet).length >= MAX_FLEET_VEHICLES) {
+      return { error: `A fleet can have at most ${MAX_FLEET_VEHICLES} vehicles.`, status: 409 };
+    }
+    if (Object.values(fleet).some((v) => normalizeNumber(v.number) === number)) {
+      return { error: `Vehicle ${number} is already in the fleet.`, status: 409 };
+    }
+    fleet[vehicle.id] = vehicle;
+    return { fleet, drivers: supplier.drivers ?? {} };
+  });
+  return result.success ? { ...result, vehicle } : result;
+}
+
+/** Removes an offline vehicle from the fleet. */
+export async function removeVehicle(supplierId: string, vehicleId: string): Promise<FleetResult> {
+  const result = await updateFleet(supplierId, (supplier) => {
+    const vehicle = supplier.fleet?.[vehicleId];
+    if (!vehicle) return { error: 'Vehicle not found.', status: 404 };
+    if (vehicle.isOnline) return { error: 'Take the vehicle offline before removing it.', status: 409 };
+    const { [vehicleId]: _removed, ...fleet } = supplier.fleet ?? {};
+    return { fleet, drivers: supplier.drivers ?? {} };
+  });
+  if (result.success) supplierIndex.remove(fleetIndexId(supplierId, vehicleId));
+  return result;
+}
+
+/**
+ * Puts a driver on a vehicle, taking them off any other one, or clears the
+ * vehicle's driver (driverId null). The owner can drive too, with their
+ * supplier id as driverId. A vehicle left without a driver goes offline.
+ */
+export async function assignDriver(
+  supplierId: string,
+  vehicleId: string,
+  driverId: string | null
+): Promise<FleetResult> {
+  return updateFleet(supplierId, (supplier) => {
+    if (!supplier.fleet?.[vehicleId]) return { error: 'Vehicle not found.', status: 404 };
+    if (driverId && driverId !== supplier.id && !supplier.drivers?.[driverId]) {
+      return { error: 'Driver not found.', status: 404 };
+    }
+
+    const fleet: Record<string, FleetVehicle> = {};
+    for (const [id, vehicle] of Object.entries(supplier.fleet)) {
+      if (id === vehicleId) {
+        const { driverId: _previous, ...rest } = vehicle;
+        fleet[id] = driverId ? { ...rest, driverId } : { ...rest, isOnline: false };
+      } else if (driverId && vehicle.driverId === driverId) {
+        const { driverId: _moved, ...rest } = vehicle;
+        fleet[id] = { ...rest, isOnline: false };
+      } else {
+        fleet[id] = vehicle;
+      }
+    }
+    return { fleet, drivers: supplier.drivers ?? {} };
+  });
+}
+
+/** Takes one vehicle online or offline; going online needs a verified supplier and a driver. */
+export async function setVehicleOnline(
+  supplierId: string,
+  vehicleId: string,
+  online: boolean
+): Promise<FleetResult> {
+  return updateFleet(supplierId, (supplier) => {
+    const vehicle = supplier.fleet?.[vehicleId];
+    if (!vehicle) return { error: 'Vehicle not found.', status: 404 };
+    if (online && supplier.verificationStatus !== 'verified') {
+      return { error: 'Your documents must be verified before you can go online.', status: 403 };
+    }
+    if (online && !vehicle.driverId) {
+      return { error: 'Assign a driver before taking this vehicle online.', status: 409 };
+    }
+    return {
+      fleet: { ...supplier.fleet, [vehicleId]: { ...vehicle, isOnline: online } },
+      drivers: supplier.drivers ?? {},
+    };
+  });
+}
+
+/** Takes every vehicle with a driver online, or every vehicle offline. */
+export async function setFleetOnline(supplierId: string, online: boolean): Promise<FleetResult> {
+  return updateFleet(supplierId, (supplier) => {
+    if (online && supplier.verificationStatus !== 'verified') {
+      return { error: 'Your documents must be verified before you can go online.', status: 403 };
+    }
+    const vehicles = fleetVehicles(supplier);
+    if (online && !vehicles.some((v) => v.driverId)) {
+      return { error: 'Assign a driver to a vehicle before going online.', status: 409 };
+    }
+    const fleet = Object.fromEntries(
+      vehicles.map((v) => [v.id, { ...v, isOnline: online && !!v.driverId }])
+    );
+    return { fleet, drivers: supplier.drivers ?? {} };
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Drivers
+// ---------------------------------------------------------------------------
+
+/** The fleet supplier a driver drives for, if any. */
+export async function findDriverFleet(driverId: string): Promise<Supplier | null> {
+  if (!hasAdminCredentials()) {
+    return store.findSupplierByDriver(driverId);
+  }
+  const adminDb = await getAdminDb();
+  const snap = await firestoreBreaker.execute(() =>
+    adminDb.collection('suppliers').where(`drivers.${driverId}.id`, '==', driverId).limit(1).get()
+  );
+  const [doc] = snap.docs;
+  return doc ? ({ ...doc.data(), id: doc.id } as Supplier) : null;
+}
+
+async function findDriverUserId(phone: string): Promise<string | null> {
+  const e164 = `+91${phone}`;
+  if (!hasAdminCredentials()) {
+    const user = store.listAllUsers().find((u) => u.phone === e164);
+    return user?.id ?? `sim_${phone}`;
+  }
+  const adminDb = await getAdminDb();
+  const snap = await firestoreBreaker.execute(() =>
+    adminDb.collection('users').where('phone', '==', e164).limit(1).get()
+  );
+  return snap.docs[0]?.id ?? null;
+}
+
+/** Adds a driver by phone number; they must have signed in to JalSeva once. */
+export async function addDriver(
+  supplierId: string,
+  input: { name?: string; phone?: string },
+  now: Date = new Date()
+): Promise<FleetResult & { driver?: FleetDriver }> {
+  const name = input.name?.trim();
+  const phone = (input.phone ?? '').replace(/\D/g, '').replace(/^91(?=\d{10}$)/, '');
+  if (!name || name.length < 2) {
+    return { success: false, error: "Enter the driver's name.", status: 400 };
+  }
+  if (phone.length !== 10) {
+    return { success: false, error: 'Enter a valid 10-digit phone number.', status: 400 };
+  }
+
+  const driverId = await findDriverUserId(phone);
+  if (!driverId) {
+    return {
+      success: false,
+      error: 'No JalSeva account uses this number. Ask the driver to sign in once first.',
+      status: 404,
+    };
+  }
+  const other = await findDriverFleet(driverId);
+  if (other && other.id !== supplierId) {
+    return { success: false, error: 'This driver already drives for another supplier.', status: 409 };
+  }
+
+  const driver: FleetDriver = { id: driverId, name, phone: `+91${phone}`, addedAt: now };
+  const result = await updateFleet(supplierId, (supplier) => {
+    if (driverId === supplier.userId || driverId === supplier.id) {
+      return { error: 'You cannot add yourself as a driver.', status: 409 };
+    }
+    if (supplier.drivers?.[driverId]) return { error: 'This driver is already on your team.', status: 409 };
+    return { fleet: supplier.fleet ?? {}, drivers: { ...supplier.drivers, [driverId]: driver } };
+  });
+  return result.success ? { ...result, driver } : result;
+}
+
+/** Removes a driver; their vehicle is left without one and goes offline. */
+export async function removeDriver(supplierId: string, driverId: string): Promise<FleetResult> {
+  return updateFleet(supplierId, (supplier) => {
+    if (!supplier.drivers?.[driverId]) return { error: 'Driver not found.', status: 404 };
+    const { [driverId]: _removed, ...drivers } = supplier.drivers;
+    const fleet = Object.fromEntries(
+      fleetVehicles(supplier).map((v) => {
+        if (v.driverId !== driverId) return [v.id, v];
+        const { driverId: _cleared, ...rest } = v;
+        return [v.id, { ...rest, isOnline: false }];
+      })
+    );
+    return { fleet, drivers };
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Orders
+// ---------------------------------------------------------------------------
+
+export type AssignResult =
+  | { success: true; order: Order }
+  | { success: false; error: string; status: number };
+
+/** Moves an accepted order to another vehicle of the same fleet and its driver. */
+export async function assignOrderVehicle(
+  orderId: string,
+  supplierId: string,
+  vehicleId: string,
+  now: Date = new Date()
+): Promise<AssignResult> {
+  const [order, supplier] = await Promise.all([loadOrder(orderId), loadSupplier(supplierId)]);
+  if (!order) return { success: false, error: 'Order not found.', status: 404 };
+  if (!supplier || order.supplierId !== supplierId) {
+    return { success: false, error: 'Supplier is not assigned to this order.', status: 403 };
+  }
+  if (!ACTIVE_STATUSES.includes(order.status)) {
+    return { success: false, error: `Cannot reassign a ${order.status} order.`, status: 409 };
+  }
+  const vehicle = supplier.fleet?.[vehicleId];
+  if (!vehicle) return { success: false, error: 'Vehicle not found.', status: 404 };
+  if (!vehicle.driverId) {
+    return { success: false, error: 'Assign a driver to the vehicle first.', status: 409 };
+  }
+  // Legs are planned on acceptance, so the new vehicle must carry the next trip whole
+  if (vehicle.capacity < (currentLeg(order)?.litres ?? order.quantityLitres)) {
+    return { success: false, error: `${vehicle.number} cannot carry this order.`, status: 409 };
+  }
+
+  const patch = { vehicleId, driverId: vehicle.driverId, updatedAt: now };
+  if (!hasAdminCredentials()) {
+    const updated = store.updateOrder(orderId, patch);
+    if (!updated) return { success: false, error: 'Order not found.', status: 404 };
+    return { success: true, order: updated };
+  }
+  const adminDb = await getAdminDb();
+  await firestoreBreaker.execute(() =>
+    adminDb.collection('orders').doc(orderId).update(toStored(patch))
+  );
+  hotCache.delete(`order:${orderId}`);
+  return { success: true, order: { ...order, ...patch } };
+}
+
+// ---------------------------------------------------------------------------
+// Rollup
+// ---------------------------------------------------------------------------
+
+async function loadRecentOrders(supplierId: string): Promise<Order[]> {
+  if (!hasAdminCredentials()) return store.listOrdersBySupplier(supplierId);
+  const adminDb = await getAdminDb();
+  const snap = await firestoreBreaker.execute(() =>
+    adminDb
+      .collection('orders')
+      .where('supplierId', '==', supplierId)
+      .where('status', 'in', [...ACTIVE_STATUSES, 'delivered'])
+      .get()
+  );
+  return snap.docs.map((doc) => ({ ...doc.data(), id: doc.id }) as Order);
+}
+
+export interface FleetOverview {
+  vehicles: FleetVehicle[];
+  drivers: FleetDriver[];
+  rollup: FleetRollup;
+}
+
+/** The supplier's vehicles, drivers and per-vehicle earnings. */
+export async function getFleet(supplierId: string, now: Date = new Date()): Promise<FleetOverview | null> {
+  const supplier = await loadSupplier(supplierId);
+  if (!supplier) return null;
+  return {
+    vehicles: fleetVehicles(supplier),
+    drivers: Object.values(supplier.drivers ?? {}),
+    rollup: fleetEarnings(supplier, await loadRecentOrders(supplierId), now),
+  };
+}
+
+/** Orders visible to a driver: their own deliveries and offers for their vehicle. */
+export function driverCanSee(supplier: Supplier, driverId: string, order: Order): boolean {
+  if (order.driverId) return order.driverId === driverId;
+  const offer = order.dispatch?.offer;
+  if (offer?.driverId) return offer.driverId === driverId;
+  const vehicle = driverVehicle(supplier, driverId);
+  return !!vehicle?.isOnline && canDeliverInTrips(order.quantityLitres, vehicle.capacity);
+}
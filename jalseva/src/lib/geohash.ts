@@ -12,6 +12,10 @@
 //
 // This reduces supplier lookup from O(n) to O(k) where k << n.
 // For 10K suppliers, typical k is 5-50 (suppliers in 9 neighboring cells).
+//
+// Fleet suppliers are indexed once per online vehicle. Those entries carry
+// the owning supplier's id in `data.supplierId`, so supplier-wide changes
+// (rating, quality, cash block) reach every vehicle through patchOwner().
 // =============================================================================
 
 import type { GeoLocation } from '@/types';
@@ -187,6 +191,11 @@ interface IndexedSupplier {
   updatedAt: number;
 }
 
+function ownerOf(id: string, data: Record<string, unknown>): string | null {
+  const owner = data.supplierId;
+  return typeof owner === 'string' && owner !== id ? owner : null;
+}
+
 /**
  * In-memory geohash spatial index. Maps geohash cells to sets of supplier IDs,
  * enabling O(1) cell lookup instead of O(n) full scan.
@@ -198,6 +207,8 @@ export class GeoSpatialIndex {
   private cells = new Map<string, Set<string>>();
   // supplier ID -> indexed supplier data
   private suppliers = new Map<string, IndexedSupplier>();
+  // owning supplier ID -> IDs of its fleet vehicle entries
+  private owners = new Map<string, Set<string>>();
   // Stale entry cleanup interval
   private cleanupTimer: ReturnType<typeof setInterval> | null = null;
   private readonly staleThresholdMs: number;
@@ -238,6 +249,17 @@ export class GeoSpatialIndex {
     }
     cell.add(id);
 
+    // Track fleet vehicle entries under their owning supplier
+    const owner = ownerOf(id, data);
+    if (owner) {
+      let members = this.owners.get(owner);
+      if (!members) {
+        members = new Set();
+        this.owners.set(owner, members);
+      }
+      members.add(id);
+    }
+
     // Update supplier record
     this.suppliers.set(id, {
       id,
@@ -262,10 +284,42 @@ export class GeoSpatialIndex {
       if (cell.size === 0) this.cells.delete(existing.geohash);
     }
 
+    const owner = ownerOf(id, existing.data);
+    const members = owner ? this.owners.get(owner) : undefined;
+    if (owner && members) {
+      members.delete(id);
+      if (members.size === 0) this.owners.delete(owner);
+    }
+
     this.suppliers.delete(id);
     return true;
   }
 
+  /** A supplier's own entry and those of its fleet vehicles. */
+  entriesOf(ownerId: string): IndexedSupplier[] {
+    const ids = [ownerId, ...(this.owners.get(ownerId) ?? [])];
+    return ids.flatMap((id) => this.suppliers.get(id) ?? []);
+  }
+
+  /**
+   * Merges fields into the data of every entry belonging to a supplier,
+   * keeping their locations. Returns the number of entries updated.
+   */
+  patchOwner(ownerId: string, patch: Record<string, unknown>): number {
+    const entries = this.entriesOf(ownerId);
+    for (const entry of entries) {
+      this.upsert(entry.id, entry.lat, entry.lng, { ...entry.data, ...patch });
+    }
+    return entries.length;
+  }
+
+  /** Removes a supplier and all of its fleet vehicles from the index. */
+  removeOwner(ownerId: string): number {
+    const entries = this.entriesOf(ownerId);
+    for (const entry of entries) this.remove(entry.id);
+    return entries.length;
+  }
+
   /**
    * Find suppliers near a point within radiusKm.
    * Returns candidates with approximate distances. Use Haversine on the
@@ -0,0 +1,302 @@
+// =============================================================================
+// JalSeva - GST Invoices
+// =============================================================================
+// Builds the invoice for a delivered order. The supplier is the seller; the
+// order total is GST-inclusive and is split back into taxable value and tax:
+//
+//   same state (seller GSTIN state = delivery state)   CGST + SGST, half each
+//   different states                                   IGST
+//
+// All water is HSN 2201. Packaged RO and mineral water attract 18% GST;
+// tanker water (not in a sealed container) is exempt. Exempt supplies, and
+// supplies by suppliers without a GSTIN, get a bill of supply with no tax.
+//
+// Invoices are numbered JS/<financial year>/<sequence>, the sequence
+// restarting every 1 April (IST). Pure and client-safe; numbering and
+// storage live in './server'.
+// =============================================================================
+
+import { billedLitres } from '@/lib/delivery-volume';
+import type {
+  GstSupplyType,
+  Invoice,
+  InvoiceKind,
+  InvoiceParty,
+  Order,
+  WaterType,
+} from '@/types';
+
+// ---------------------------------------------------------------------------
+// Tax rates
+// ---------------------------------------------------------------------------
+
+export const WATER_HSN = '2201';
+
+export const GST_RATES: Record<WaterType, { rate: number; description: string }> = {
+  ro: { rate: 18, description: 'RO purified drinking water (sealed container)' },
+  mineral: { rate: 18, description: 'Packaged mineral water' },
+  tanker: { rate: 0, description: 'Water supplied by tanker (not in sealed container)' },
+};
+
+export const INVOICE_PREFIX = 'JS';
+
+/** Used when neither the seller's GSTIN nor the address gives a state (launch market). */
+export const DEFAULT_STATE_CODE = '07';
+
+// ---------------------------------------------------------------------------
+// States
+// ---------------------------------------------------------------------------
+
+/** GST state codes. */
+export const GST_STATES: Record<string, string> = {
+  '01': 'Jammu and Kashmir',
+  '02': 'Himachal Pradesh',
+  '03': 'Punjab',
+  '04': 'Chandigarh',
+  '05': 'Uttarakhand',
+  '06': 'Haryana',
+  '07': 'Delhi',
+  '08': 'Rajasthan',
+  '09': 'Uttar Pradesh',
+  '10': 'Bihar',
+  '11': 'Sikkim',
+  '12': 'Arunachal Pradesh',
+  '13': 'Nagaland',
+  '14': 'Manipur',
+  '15': 'Mizoram',
+  '16': 'Tripura',
+  '17': 'Meghalaya',
+  '18': 'Assam',
+  '19': 'West Bengal',
+  '20': 'Jharkhand',
+  '21': 'Odisha',
+  '22': 'Chhattisgarh',
+  '23': 'Madhya Pradesh',
+  '24': 'Gujarat',
+  '26': 'Dadra and Nagar Haveli and Daman and Diu',
+  '27': 'Maharashtra',
+  '29': 'Karnataka',
+  '30': 'Goa',
+  '31': 'Lakshadweep',
+  '32': 'Kerala',
+  '33': 'Tamil Nadu',
+  '34': 'Puducherry',
+  '35': 'Andaman and Nicobar Islands',
+  '36': 'Telangana',
+  '37': 'Andhra Pradesh',
+  '38': 'Ladakh',
+};
+
+/** Other names addresses use for a state. */
+const STATE_ALIASES: Record<string, string> = {
+  'new delhi': '07',
+  'nct of delhi': '07',
+  orissa: '21',
+  pondicherry: '34',
+  'jammu & kashmir': '01',
+};
+
+/**
+ * PIN code prefixes that fall in a single state. Three-digit prefixes are
+ * checked before two-digit ones.
+ */
+const PIN_PREFIXES: Record<string, string> = {
+  '11': '07',
+  '12': '06',
+  '13': '06',
+  '14': '03',
+  '15': '03',
+  '160': '04',
+  '17': '02',
+  '30': '08',
+  '31': '08',
+  '32': '08',
+  '33': '08',
+  '34': '08',
+  '36': '24',
+  '37': '24',
+  '38': '24',
+  '39': '24',
+  '403': '30',
+  '40': '27',
+  '41': '27',
+  '42': '27',
+  '43': '27',
+  '44': '27',
+  '50': '36',
+  '56': '29',
+  '57': '29',
+  '58': '29',
+  '59': '29',
+  '60': '33',
+  '61': '33',
+  '62': '33',
+  '63': '33',
+  '64': '33',
+  '67': '32',
+  '68': '32',
+  '69': '32',
+  '70': '19',
+  '71': '19',
+  '72': '19',
+  '73': '19',
+  '74': '19',
+  '75': '21',
+  '76': '21',
+  '77': '21',
+  '78': '18',
+};
+
+const GSTIN_PATTERN = /^(\d{2})[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+/** Whether a GSTIN is well-formed and carries a known state code. */
+export function isValidGstin(gstin: string | undefined | null): gstin is string {
+  const match = gstin ? GSTIN_PATTERN.exec(gstin.trim().toUpperCase()) : null;
+  return !!match && match[1] in GST_STATES;
+}
+
+/** State code a GSTIN is registered in (its first two digits). */
+export function stateFromGstin(gstin: string | undefined | null): string | null {
+  return isValidGstin(gstin) ? gstin.trim().slice(0, 2) : null;
+}
+
+/** State code from a free-text address: a state name, else its PIN code. */
+export function stateFromAddress(address: string | undefined | null): string | null {
+  if (!address) return null;
+  const text = address.toLowerCase();
+
+  for (const [alias, code] of Object.entries(STATE_ALIASES)) {
+    if (text.includes(alias)) return code;
+  }
+  for (const [code, name] of Object.entries(GST_STATES)) {
+    if (new RegExp(`\\b${name.toLowerCase()}\\b`).test(text)) return code;
+  }
+
+  const pin = /\b(\d{6})\b/.exec(text)?.[1];
+  if (pin) return PIN_PREFIXES[pin.slice(0, 3)] ?? PIN_PREFIXES[pin.slice(0, 2)] ?? null;
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Numbering
+// ---------------------------------------------------------------------------
+
+const IST_OFFSET_MS = 330 * 60_000;
+
+/** Indian financial year (April–March, IST) a date falls in, e.g. '2026-27'. */
+export function financialYear(date: Date = new Date()): string {
+  const ist = new Date(date.getTime() + IST_OFFSET_MS);
+  const start = ist.getUTCMonth() >= 3 ? ist.getUTCFullYear() : ist.getUTCFullYear() - 1;
+  return `${start}-${String((start + 1) % 100).padStart(2, '0')}`;
+}
+
+/** Printed invoice number and document id for a sequence in a financial year. */
+export function formatInvoiceNumber(fy: string, sequence: number): { id: string; number: string } {
+  const seq = String(sequence).padStart(6, '0');
+  return {
+    id: `${INVOICE_PREFIX}-${fy}-${seq}`,
+    number: `${INVOICE_PREFIX}/${fy}/${seq}`,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Building
+// ---------------------------------------------------------------------------
+
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+export interface InvoiceInput {
+  order: Pick<
+    Order,
+    | 'id'
+    | 'customerId'
+    | 'supplierId'
+    | 'waterType'
+    | 'quantityLitres'
+    | 'price'
+    | 'payment'
+    | 'deliveryLocation'
+    | 'deliveryVerification'
+  >;
+  seller: { name: string; gstin?: string; address?: string };
+  buyer: { name: string; gstin?: string };
+  sequence: number;
+  issuedAt?: Date;
+}
+
+/**
+ * Builds the invoice for a delivered order. The delivery state is read from
+ * the delivery address; when it cannot be determined the supply is treated
+ * as within the seller's state.
+ */
+export function buildInvoice(input: InvoiceInput): Invoice {
+  const { order, sequence } = input;
+  const issuedAt = input.issuedAt ?? new Date();
+  const fy = financialYear(issuedAt);
+  const { id, number } = formatInvoiceNumber(fy, sequence);
+
+  const sellerGstin = isValidGstin(input.seller.gstin) ? input.seller.gstin.trim().toUpperCase() : undefined;
+  const buyerGstin = isValidGstin(input.buyer.gstin) ? input.buyer.gstin.trim().toUpperCase() : undefined;
+  const deliveryState = stateFromAddress(order.deliveryLocation.address);
+  const sellerState = stateFromGstin(sellerGstin) ?? deliveryState ?? DEFAULT_STATE_CODE;
+  const placeOfSupply = deliveryState ?? stateFromGstin(buyerGstin) ?? sellerState;
+  const supplyType: GstSupplyType = placeOfSupply === sellerState ? 'intra_state' : 'inter_state';
+
+  const { rate: waterRate, description } = GST_RATES[order.waterType];
+  const rate = sellerGstin ? waterRate : 0;
+  const kind: InvoiceKind = rate > 0 ? 'tax_invoice' : 'bill_of_supply';
+
+  const total = round(order.price.total);
+  const taxableValue = round((total * 100) / (100 + rate));
+  const tax = round(total - taxableValue);
+  const cgst = supplyType === 'intra_state' ? round(tax / 2) : 0;
+  const sgst = supplyType === 'intra_state' ? round(tax - cgst) : 0;
+  const igst = supplyType === 'inter_state' ? tax : 0;
+
+  const party = (name: string, stateCode: string, extra: Partial<InvoiceParty>): InvoiceParty => ({
+    name,
+    stateCode,
+    stateName: GST_STATES[stateCode] ?? stateCode,
+    ...extra,
+  });
+
+  return {
+    id,
+    number,
+    financialYear: fy,
+    sequence,
+    kind,
+    orderId: order.id,
+    customerId: order.customerId,
+    supplierId: order.supplierId ?? '',
+    seller: party(input.seller.name, sellerState, {
+      ...(sellerGstin ? { gstin: sellerGstin } : {}),
+      ...(input.seller.address ? { address: input.seller.address } : {}),
+    }),
+    buyer: party(input.buyer.name, placeOfSupply, {
+      ...(buyerGstin ? { gstin: buyerGstin } : {}),
+      ...(order.deliveryLocation.address ? { address: order.deliveryLocation.address } : {}),
+    }),
+    placeOfSupply,
+    supplyType,
+    lines: [
+      {
+        description: `${description}, delivered`,
+        hsn: WATER_HSN,
+        quantity: billedLitres(order),
+        unit: 'L',
+        taxableValue,
+        gstRate: rate,
+      },
+    ],
+    taxableValue,
+    cgst,
+    sgst,
+    igst,
+    total,
+    paymentMethod: order.payment.method,
+    issuedAt,
+  };
+}
@@ -0,0 +1,160 @@
+// =============================================================================
+// JalSeva - Invoice Issuing (Server-Side)
+// =============================================================================
+// Issues one invoice per delivered order, stored in `invoices` (or the demo
+// store) and referenced from Order.invoice. The financial year's counter
+// (`counters/invoices_<fy>`), the invoice and the order reference are written
+// in one transaction, so numbers are gapless and an order is never invoiced
+// twice. Called by the order lifecycle on delivery, and on demand by the
+// invoice page for orders delivered before invoicing existed.
+// =============================================================================
+
+import { firestoreBreaker } from '@/lib/circuit-breaker';
+import * as store from '@/lib/demo-store';
+import { loadOrder } from '@/lib/order-lifecycle';
+import type { Invoice, InvoiceRef, Order } from '@/types';
+import { buildInvoice, financialYear, type InvoiceInput } from './index';
+
+// ---------------------------------------------------------------------------
+// Firebase Admin - lazy import
+// ---------------------------------------------------------------------------
+
+function hasAdminCredentials(): boolean {
+  return !!(
+    process.env.FIREBASE_ADMIN_CLIENT_EMAIL &&
+    process.env.FIREBASE_ADMIN_PRIVATE_KEY
+  );
+}
+
+async function getAdminDb() {
+  const { adminDb } = await import('@/lib/firebase-admin');
+  return adminDb;
+}
+
+function toStored<T extends object>(data: T): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(data)) {
+    if (value === undefined) continue;
+    out[key] = value instanceof Date ? value.toISOString() : value;
+  }
+  return out;
+}
+
+export type InvoiceResult =
+  | { success: true; invoice: Invoice }
+  | { success: false; error: string; status: number };
+
+// ---------------------------------------------------------------------------
+// Parties
+// ---------------------------------------------------------------------------
+
+type Parties = Pick<InvoiceInput, 'seller' | 'buyer'>;
+
+async function loadParties(order: Order): Promise<Parties> {
+  if (!hasAdminCredentials()) {
+    const supplier = order.supplierId ? store.getSupplier(order.supplierId) : null;
+    const supplierUser = supplier ? store.getUser(supplier.userId) : null;
+    const customer = store.getUser(order.customerId);
+    return {
+      seller: {
+        name: supplier?.businessName || supplierUser?.name || 'JalSeva Supplier',
+        gstin: supplier?.gstin,
+      },
+      buyer: { name: customer?.businessName || customer?.name || 'Customer', gstin: customer?.gstin },
+    };
+  }
+
+  const adminDb = await getAdminDb();
+  const [supplierSnap, customerSnap] = await Promise.all([
+    order.supplierId
+      ? firestoreBreaker.execute(
+          () => adminDb.collection('suppliers').doc(order.supplierId as string).get(),
+          () => null
+        )
+      : null,
+    firestoreBreaker.execute(
+      () => adminDb.collection('users').doc(order.customerId).get(),
+      () => null
+    ),
+  ]);
+  const supplier = supplierSnap?.exists ? supplierSnap.data() : undefined;
+  const customer = customerSnap?.exists ? customerSnap.data() : undefined;
+  return {
+    seller: {
+      name: supplier?.businessName || supplier?.userName || supplier?.name || 'JalSeva Supplier',
+      gstin: supplier?.gstin,
+    },
+    buyer: { name: customer?.businessName || customer?.name || 'Customer', gstin: customer?.gstin },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Storage
+// ---------------------------------------------------------------------------
+
+async function getInvoice(ref: InvoiceRef): Promise<Invoice | null> {
+  if (!hasAdminCredentials()) return store.getInvoice(ref.id);
+
+  const adminDb = await getAdminDb();
+  const snap = await firestoreBreaker.execute(() =>
+    adminDb.collection('invoices').doc(ref.id).get()
+  );
+  return snap.exists ? ({ ...snap.data(), id: snap.id } as Invoice) : null;
+}
+
+/**
+ * Issues the invoice for a delivered order, or returns the one it already
+ * has. Null for orders that are not delivered.
+ */
+export async function issueInvoice(order: Order, now: Date = new Date()): Promise<Invoice | null> {
+  if (order.status !== 'delivered') return null;
+  if (order.invoice) return getInvoice(order.invoice);
+
+  const parties = await loadParties(order);
+  const fy = financialYear(now);
+
+  if (!hasAdminCredentials()) {
+    const existing = store.getOrder(order.id)?.invoice;
+    if (existing) return store.getInvoice(existing.id);
+
+    const invoice = buildInvoice({ order, ...parties, sequence: store.nextInvoiceSequence(fy), issuedAt: now });
+    store.saveInvoice(invoice);
+    store.updateOrder(order.id, { invoice: { id: invoice.id, number: invoice.number } });
+    return invoice;
+  }
+
+  const adminDb = await getAdminDb();
+  const orderRef = adminDb.collection('orders').doc(order.id);
+  const counterRef = adminDb.collection('counters').doc(`invoices_${fy}`);
+
+  return firestoreBreaker.execute(() =>
+    adminDb.runTransaction(async (tx) => {
+      const [orderSnap, counterSnap] = await tx.getAll(orderRef, counterRef);
+      const existing = orderSnap.data()?.invoice as InvoiceRef | undefined;
+      if (existing) {
+        const snap = await tx.get(adminDb.collection('invoices').doc(existing.id));
+        return snap.exists ? ({ ...snap.data(), id: snap.id } as Invoice) : null;
+      }
+
+      const sequence = ((counterSnap.data()?.last as number | undefined) ?? 0) + 1;
+      const invoice = buildInvoice({ order, ...parties, sequence, issuedAt: now });
+      tx.set(counterRef, { last: sequence, updatedAt: now.toISOString() });
+      tx.set(adminDb.collection('invoices').doc(invoice.id), toStored(invoice));
+      tx.update(orderRef, { invoice: { id: invoice.id, number: invoice.number } });
+      return invoice;
+    })
+  );
+}
+
+/** The invoice for an order, issuing it first if the order was delivered without one. */
+export async function getOrderInvoice(orderId: string): Promise<InvoiceResult> {
+  const order = await loadOrder(orderId);
+  if (!order) return { success: false, error: 'Order not found.', status: 404 };
+  if (order.status !== 'delivered') {
+    return { success: false, error: 'Invoices are issued once the order is delivered.', status: 409 };
+  }
+
+  const invoice = await issueInvoice(order);
+  if (!invoice) return { success: false, error: 'Invoice not found.', status: 404 };
+  return { success: true, invoice };
+}
@@ -0,0 +1,157 @@
+// =============================================================================
+// JalSeva - Supplier KYC Rules
+// =============================================================================
+// Suppliers upload each document in SupplierDocuments from registration, and
+// admins approve or reject them one at a time (a rejection carries a reason).
+// The supplier's verificationStatus follows from the documents: verified once
+// every required document is approved and in date, rejected while a required
+// one is rejected, pending otherwise. Only verified suppliers can go online,
+// so an expired licence takes the supplier offline until a renewal is
+// approved. Reminders go out EXPIRY_REMINDER_DAYS before a document expires.
+//
+// Aadhaar numbers are checked (Verhoeff check digit) and only the masked form
+// is ever stored or shown.
+//
+// Pure and client-safe; storage, review and the expiry sweep live in
+// './server'.
+// =============================================================================
+
+import type {
+  DocumentInfo,
+  KycDocumentType,
+  SupplierDocuments,
+  VerificationStatus,
+} from '@/types';
+
+// ---------------------------------------------------------------------------
+// Documents
+// ---------------------------------------------------------------------------
+
+export interface KycDocumentSpec {
+  label: string;
+  /** Needed before the supplier can be verified. */
+  required: boolean;
+  /** Files per upload, e.g. the front and back of a card. */
+  maxFiles: number;
+  /** Whether an expiry date must be given with the upload. */
+  expires: boolean;
+}
+
+export const KYC_DOCUMENTS: Record<KycDocumentType, KycDocumentSpec> = {
+  aadhaar: { label: 'Aadhaar Card', required: true, maxFiles: 2, expires: false },
+  license: { label: 'Driving License', required: true, maxFiles: 2, expires: true },
+  vehicleRC: { label: 'Vehicle RC', required: true, maxFiles: 2, expires: true },
+  fssai: { label: 'FSSAI License', required: false, maxFiles: 1, expires: true },
+  waterQuality: { label: 'Water Quality Report', required: false, maxFiles: 1, expires: true },
+};
+
+export const KYC_DOCUMENT_TYPES = Object.keys(KYC_DOCUMENTS) as KycDocumentType[];
+
+export const MAX_DOCUMENT_BYTES = 8 * 1024 * 1024;
+
+/** Reminders are sent this many days before a document expires, once each. */
+export const EXPIRY_REMINDER_DAYS = [30, 7, 1] as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isKycDocumentType(value: unknown): value is KycDocumentType {
+  return typeof value === 'string' && value in KYC_DOCUMENTS;
+}
+
+// ---------------------------------------------------------------------------
+// Aadhaar
+// ---------------------------------------------------------------------------
+
+// Verhoeff dihedral-group tables, as used by UIDAI for the check digit
+const VERHOEFF_D = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 2, 3, 4, 0, 6, 7, 8, 9, 5],
+  [2, 3, 4, 0, 1, 7, 8, 9, 5, 6],
+  [3, 4, 0, 1, 2, 8, 9, 5, 6, 7],
+  [4, 0, 1, 2, 3, 9, 5, 6, 7, 8],
+  [5, 9, 8, 7, 6, 0, 4, 3, 2, 1],
+  [6, 5, 9, 8, 7, 1, 0, 4, 3, 2],
+  [7, 6, 5, 9, 8, 2, 1, 0, 4, 3],
+  [8, 7, 6, 5, 9, 3, 2, 1, 0, 4],
+  [9, 8, 7, 6, 5, 4, 3, 2, 1, 0],
+];
+const VERHOEFF_P = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 5, 7, 6, 2, 8, 3, 0, 9, 4],
+  [5, 8, 0, 3, 7, 9, 6, 1, 4, 2],
+  [8, 9, 1, 6, 0, 4, 3, 5, 2, 7],
+  [9, 4, 5, 3, 1, 2, 6, 8, 7, 0],
+  [4, 2, 8, 6, 5, 7, 3, 9, 0, 1],
+  [2, 7, 9, 3, 8, 0, 6, 4, 1, 5],
+  [7, 0, 4, 6, 9, 1, 3, 2, 5, 8],
+];
+
+function aadhaarDigits(value: string): string {
+  return value.replace(/[\s-]/g, '');
+}
+
+/** 12 digits, not starting with 0 or 1, with a valid Verhoeff check digit. */
+export function isValidAadhaar(value: string): boolean {
+  const digits = aadhaarDigits(value);
+  if (!/^[2-9]\d{11}$/.test(digits)) return false;
+  let check = 0;
+  for (const [i, digit] of [...digits].reverse().entries()) {
+    check = VERHOEFF_D[check][VERHOEFF_P[i % 8][Number(digit)]];
+  }
+  return check === 0;
+}
+
+/** The number as it may be stored and shown: only the last four digits. */
+export function maskAadhaar(value: string): string {
+  return `XXXX XXXX ${aadhaarDigits(value).slice(-4)}`;
+}
+
+// ---------------------------------------------------------------------------
+// Status
+// ---------------------------------------------------------------------------
+
+export type DocumentState = 'missing' | 'pending' | 'approved' | 'rejected' | 'expired';
+
+export function documentState(doc: DocumentInfo | undefined, now: Date = new Date()): DocumentState {
+  if (!doc) return 'missing';
+  const status = doc.status ?? (doc.verified ? 'approved' : 'pending');
+  if (status === 'approved' && doc.expiresAt && new Date(doc.expiresAt).getTime() <= now.getTime()) {
+    return 'expired';
+  }
+  return status;
+}
+
+/** Required documents that are not approved and in date. */
+export function outstandingDocuments(
+  documents: SupplierDocuments | undefined,
+  now: Date = new Date()
+): KycDocumentType[] {
+  return KYC_DOCUMENT_TYPES.filter(
+    (type) => KYC_DOCUMENTS[type].required && documentState(documents?.[type], now) !== 'approved'
+  );
+}
+
+/** The verificationStatus the supplier's documents give them. */
+export function deriveVerificationStatus(
+  documents: SupplierDocuments | undefined,
+  now: Date = new Date()
+): VerificationStatus {
+  const required = KYC_DOCUMENT_TYPES.filter((type) => KYC_DOCUMENTS[type].required);
+  if (required.some((type) => documentState(documents?.[type], now) === 'rejected')) {
+    return 'rejected';
+  }
+  return outstandingDocuments(documents, now).length === 0 ? 'verified' : 'pending';
+}
+
+/**
+ * The reminder due for an approved document (days before expiry), or null
+ * when none is due or it has already been sent.
+ */
+export function dueReminder(doc: DocumentInfo | undefined, now: Date = new Date()): number | null {
+  if (!doc?.expiresAt || documentState(doc, now) !== 'approved') return null;
+  const daysLeft = Math.ceil((new Date(doc.expiresAt).getTime() - now.getTime()) / DAY_MS);
+  const due = [...EXPIRY_REMINDER_DAYS].reverse().find((days) => daysLeft <= days);
+  if (due === undefined) return null;
+  if (doc.reminderDays !== undefined && doc.reminderDays <= due) return null;
+  return due;
+}
@@ -0,0 +1,412 @@
+// =============================================================================
+// JalSeva - Supplier KYC (Server-Side)
+// =============================================================================
+// Stores uploaded documents privately, records admin decisions and keeps
+// Supplier.verificationStatus in step with the documents (see './index').
+// A supplier who stops being verified is taken offline and out of the
+// dispatcher's index straight away.
+//
+// Documents expire without anything being uploaded, so sweepDocumentExpiry()
+// is run on a schedule (POST /api/suppliers/documents/expiry) to send expiry
+// reminders and move suppliers with an expired required document back to
+// pending.
+// =============================================================================
+
+import { isAdmin } from '@/lib/auth/server';
+import { firestoreBreaker } from '@/lib/circuit-breaker';
+import * as store from '@/lib/demo-store';
+import { offlineFleet } from '@/lib/fleet';
+import { supplierIndex } from '@/lib/geohash';
+import { DOCUMENT_EXTENSIONS, privateStorage, sniffDocumentType } from '@/lib/private-storage';
+import type {
+  DocumentInfo,
+  DocumentReviewStatus,
+  KycDocumentType,
+  Supplier,
+  SupplierDocuments,
+  VerificationStatus,
+} from '@/types';
+import {
+  KYC_DOCUMENTS,
+  KYC_DOCUMENT_TYPES,
+  MAX_DOCUMENT_BYTES,
+  deriveVerificationStatus,
+  documentState,
+  dueReminder,
+  isKycDocumentType,
+  isValidAadhaar,
+  maskAadhaar,
+} from './index';
+
+// ---------------------------------------------------------------------------
+// Firebase Admin - lazy import
+// ---------------------------------------------------------------------------
+
+function hasAdminCredentials(): boolean {
+  return !!(
+    process.env.FIREBASE_ADMIN_CLIENT_EMAIL &&
+    process.env.FIREBASE_ADMIN_PRIVATE_KEY
+  );
+}
+
+async function getAdminDb() {
+  const { adminDb } = await import('@/lib/firebase-admin');
+  return adminDb;
+}
+
+function toStored(value: Record<string, unknown>): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  for (const [key, field] of Object.entries(value)) {
+    if (field === undefined) continue;
+    out[key] = field instanceof Date ? field.toISOString() : field;
+  }
+  return out;
+}
+
+export type KycResult =
+  | { success: true; supplier: Supplier }
+  | { success: false; error: string; status: number };
+
+export type KycFileResult =
+  | { success: true; bytes: Uint8Array; contentType: string }
+  | { success: false; error: string; status: number };
+
+// ---------------------------------------------------------------------------
+// Storage
+// ---------------------------------------------------------------------------
+
+async function loadSupplier(supplierId: string): Promise<Supplier | null> {
+  if (!hasAdminCredentials()) return store.getSupplier(supplierId);
+  const adminDb = await getAdminDb();
+  const snap = await firestoreBreaker.execute(() =>
+    adminDb.collection('suppliers').doc(supplierId).get()
+  );
+  return snap.exists ? ({ ...snap.data(), id: snap.id } as Supplier) : null;
+}
+
+type DocumentsChange = (
+  supplier: Supplier
+) => Partial<SupplierDocuments> | { error: string; status: number };
+
+/**
+ * Applies a change to the supplier's documents and re-derives their
+ * verificationStatus, taking them offline if they are no longer verified.
+ * Runs in a transaction so concurrent reviews of different documents do
+ * not overwrite each other.
+ */
+async function updateDocuments(
+  supplierId: string,
+  change: DocumentsChange,
+  now: Date
+): Promise<KycResult> {
+  const apply = (supplier: Supplier) => {
+    const patch = change(supplier);
+    if ('error' in patch) return patch;
+    const documents = { ...supplier.documents, ...patch } as SupplierDocuments;
+    const verificationStatus: VerificationStatus = deriveVerificationStatus(documents, now);
+    const verified = verificationStatus === 'verified';
+    const next: Supplier = {
+      ...supplier,
+      documents,
+      verificationStatus,
+      isOnline: supplier.isOnline && verified,
+      ...(verified ? {} : { fleet: offlineFleet(supplier.fleet) }),
+    };
+    return { patch, next };
+  };
+
+  let updated: Supplier;
+  if (!hasAdminCredentials()) {
+    const supplier = store.getSupplier(supplierId);
+    if (!supplier) return { success: false, error: 'Supplier not found.', status: 404 };
+    const result = apply(supplier);
+    if ('error' in result) return { success: false, error: result.error, status: result.status };
+    store.upsertSupplier(result.next);
+    updated = result.next;
+  } else {
+    const adminDb = await getAdminDb();
+    const ref = adminDb.collection('suppliers').doc(supplierId);
+    const outcome = await firestoreBreaker.execute(() =>
+      adminDb.runTransaction(async (tx) => {
+        const snap = await tx.get(ref);
+        if (!snap.exists) return { error: 'Supplier not found.', status: 404 };
+        const result = apply({ ...snap.data(), id: snap.id } as Supplier);
+        if ('error' in result) return result;
+        const update: Record<string, unknown> = {
+          verificationStatus: result.next.verificationStatus,
+          isOnline: result.next.isOnline,
+          updatedAt: now.toISOString(),
+        };
+        for (const [type, doc] of Object.entries(result.patch)) {
+          if (doc) update[`documents.${type}`] = toStored({ ...doc });
+        }
+        for (const vehicle of Object.values(result.next.fleet ?? {})) {
+          if (!vehicle.isOnline) update[`fleet.${vehicle.id}.isOnline`] = false;
+        }
+        tx.update(ref, update);
+        return result;
+      })
+    );
+    if ('error' in outcome) return { success: false, error: outcome.error, status: outcome.status };
+    updated = outcome.next;
+  }
+
+  if (!updated.isOnline) supplierIndex.removeOwner(supplierId);
+  return { success: true, supplier: updated };
+}
+
+// ---------------------------------------------------------------------------
+// Upload
+// ---------------------------------------------------------------------------
+
+export interface DocumentUpload {
+  supplierId: string;
+  type: string;
+  files: Uint8Array[];
+  /** The Aadhaar number; only its masked form is kept. */
+  number?: string;
+  expiresAt?: string | Date;
+}
+
+/**
+ * Stores a new version of one of the supplier's documents and queues it for
+ * review, replacing whatever was there before.
+ */
+export async function uploadSupplierDocument(
+  input: DocumentUpload,
+  now: Date = new Date()
+): Promise<KycResult> {
+  const { supplierId, type, files } = input;
+  if (!isKycDocumentType(type)) {
+    return {
+      success: false,
+      error: `type must be one of: ${KYC_DOCUMENT_TYPES.join(', ')}`,
+      status: 400,
+    };
+  }
+  const spec = KYC_DOCUMENTS[type];
+
+  if (files.length === 0 || files.length > spec.maxFiles) {
+    return {
+      success: false,
+      error: `Upload between 1 and ${spec.maxFiles} file${spec.maxFiles > 1 ? 's' : ''} for the ${spec.label}.`,
+      status: 400,
+    };
+  }
+  const contentTypes: string[] = [];
+  for (const bytes of files) {
+    if (bytes.byteLength === 0 || bytes.byteLength > MAX_DOCUMENT_BYTES) {
+      return {
+        success: false,
+        error: `Each file must be under ${MAX_DOCUMENT_BYTES / (1024 * 1024)} MB.`,
+        status: 413,
+      };
+    }
+    const contentType = sniffDocumentType(bytes);
+    if (!contentType) {
+      return { success: false, error: 'Documents must be PDF, JPEG, PNG or WebP files.', status: 415 };
+    }
+    contentTypes.push(contentType);
+  }
+
+  let maskedNumber: string | undefined;
+  if (type === 'aadhaar') {
+    if (!input.number || !isValidAadhaar(input.number)) {
+      return { success: false, error: 'Enter a valid 12-digit Aadhaar number.', status: 400 };
+    }
+    maskedNumber = maskAadhaar(input.number);
+  }
+
+  let expiresAt: Date | undefined;
+  if (spec.expires) {
+    expiresAt = input.expiresAt ? new Date(input.expiresAt) : undefined;
+    if (!expiresAt || Number.isNaN(expiresAt.getTime())) {
+      return { success: false, error: `The ${spec.label} needs an expiry date.`, status: 400 };
+    }
+    if (expiresAt.getTime() <= now.getTime()) {
+      return { success: false, error: `This ${spec.label} has already expired.`, status: 400 };
+    }
+  }
+
+  if (!(await loadSupplier(supplierId))) {
+    return { success: false, error: 'Supplier not found.', status: 404 };
+  }
+
+  const storage = privateStorage();
+  const storagePaths: string[] = [];
+  for (const [i, bytes] of files.entries()) {
+    const path = `kyc/${supplierId}/${type}/${now.getTime()}-${i + 1}.${DOCUMENT_EXTENSIONS[contentTypes[i]]}`;
+    await storage.put(path, bytes, contentTypes[i]);
+    storagePaths.push(path);
+  }
+
+  const doc: DocumentInfo = {
+    url: `/api/suppliers/${supplierId}/documents/${type}/0`,
+    verified: false,
+    status: 'pending',
+    uploadedAt: now,
+    storagePaths,
+    contentTypes,
+    ...(maskedNumber ? { maskedNumber } : {}),
+    ...(expiresAt ? { expiresAt } : {}),
+  };
+  return updateDocuments(supplierId, () => ({ [type]: doc }), now);
+}
+
+// ---------------------------------------------------------------------------
+// Review
+// ---------------------------------------------------------------------------
+
+/**
+ * Records an admin's decision on a pending document; rejecting needs a
+ * reason. `adminId` must belong to an admin user.
+ */
+export async function reviewSupplierDocument(
+  supplierId: string,
+  type: string,
+  review: { adminId: string; decision: string; reason?: string },
+  now: Date = new Date()
+): Promise<KycResult> {
+  const { adminId, decision } = review;
+  const reason = review.reason?.trim();
+  if (!isKycDocumentType(type)) {
+    return { success: false, error: 'Unknown document type.', status: 400 };
+  }
+  if (decision !== 'approved' && decision !== 'rejected') {
+    return { success: false, error: "decision must be 'approved' or 'rejected'.", status: 400 };
+  }
+  if (decision === 'rejected' && !reason) {
+    return { success: false, error: 'Give a reason for rejecting the document.', status: 400 };
+  }
+  if (!(await isAdmin(adminId))) {
+    return { success: false, error: 'Unauthorized. Admin access required.', status: 403 };
+  }
+
+  const status: DocumentReviewStatus = decision;
+  return updateDocuments(
+    supplierId,
+    (supplier) => {
+      const doc = supplier.documents?.[type];
+      if (!doc) return { error: 'Document not uploaded.', status: 404 };
+      if (documentState(doc, now) !== 'pending') {
+        return { error: 'This document has already been reviewed.', status: 409 };
+      }
+      const reviewed: DocumentInfo = {
+        ...doc,
+        status,
+        verified: status === 'approved',
+        reviewedBy: adminId,
+        reviewedAt: now,
+        ...(status === 'rejected' ? { rejectionReason: reason } : {}),
+      };
+      const patch: Partial<SupplierDocuments> = { [type]: reviewed };
+      return patch;
+    },
+    now
+  );
+}
+
+/**
+ * One file of a document, for an admin or the supplier it belongs to.
+ * `viewerId` is the signed-in user; admins are recognised by their user
+ * record.
+ */
+export async function readSupplierDocument(
+  supplierId: string,
+  type: string,
+  index: number,
+  viewerId: string
+): Promise<KycFileResult> {
+  if (!isKycDocumentType(type)) {
+    return { success: false, error: 'Unknown document type.', status: 400 };
+  }
+  const supplier = await loadSupplier(supplierId);
+  if (!supplier) return { success: false, error: 'Supplier not found.', status: 404 };
+  const owner = viewerId === supplier.id || viewerId === supplier.userId;
+  if (!owner && !(await isAdmin(viewerId))) {
+    return { success: false, error: 'Not allowed to view this document.', status: 403 };
+  }
+
+  const doc = supplier.documents?.[type];
+  const path = doc?.storagePaths?.[index];
+  const contentType = doc?.contentTypes?.[index];
+  if (!path || !contentType) return { success: false, error: 'Document not found.', status: 404 };
+  const bytes = await privateStorage().get(path);
+  if (!bytes) return { success: false, error: 'Document file is missing.', status: 404 };
+  return { success: true, bytes, contentType };
+}
+
+// ---------------------------------------------------------------------------
+// Expiry sweep
+// ---------------------------------------------------------------------------
+
+export interface KycSweepResult {
+  supplierId: string;
+  /** Reminders sent: document and days before its expiry. */
+  reminders: { type: KycDocumentType; days: number }[];
+  /** Approved documents that have expired. */
+  expired: KycDocumentType[];
+  verificationStatus: VerificationStatus;
+}
+
+/**
+ * Sends due expiry reminders to verified suppliers and re-derives the status
+ * of those with an expired document. Safe to run repeatedly: each reminder
+ * is recorded on the document and sent once.
+ */
+export async function sweepDocumentExpiry(now: Date = new Date()): Promise<KycSweepResult[]> {
+  let candidates: Supplier[];
+  if (!hasAdminCredentials()) {
+    candidates = store.listAllSuppliers().filter((s) => s.verificationStatus === 'verified');
+  } else {
+    const adminDb = await getAdminDb();
+    const snap = await firestoreBreaker.execute(() =>
+      adminDb.collection('suppliers').where('verificationStatus', '==', 'verified').get()
+    );
+    candidates = snap.docs.map((doc) => ({ ...doc.data(), id: doc.id }) as Supplier);
+  }
+
+  const results: KycSweepResult[] = [];
+  for (const candidate of candidates) {
+    const expired = KYC_DOCUMENT_TYPES.filter(
+      (type) => documentState(candidate.documents?.[type], now) === 'expired'
+    );
+    const reminders = KYC_DOCUMENT_TYPES.flatMap((type) => {
+      const days = dueReminder(candidate.documents?.[type], now);
+      return days === null ? [] : [{ type, days }];
+    });
+    const staysVerified = deriveVerificationStatus(candidate.documents, now) === 'verified';
+    if (reminders.length === 0 && staysVerified) continue;
+
+    try {
+      const result = await updateDocuments(
+        candidate.id,
+        (supplier) => {
+          const patch: Partial<SupplierDocuments> = {};
+          for (const { type, days } of reminders) {
+            const doc = supplier.documents?.[type];
+            if (doc) patch[type] = { ...doc, reminderDays: days, reminderSentAt: now };
+          }
+          return patch;
+        },
+        now
+      );
+      if (!result.success) continue;
+
+      for (const { type, days } of reminders) {
+        console.info(
+          `[KYC] Reminder to ${candidate.id}: ${KYC_DOCUMENTS[type].label} expires within ${days} day${days === 1 ? '' : 's'}`
+        );
+      }
+      results.push({
+        supplierId: candidate.id,
+        reminders,
+        expired,
+        verificationStatus: result.supplier.verificationStatus,
+      });
+    } catch (err) {
+      console.error(`[KYC] Expiry sweep failed for ${candidate.id}:`, err);
+    }
+  }
+  return results;
+}
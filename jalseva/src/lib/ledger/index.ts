@@ -0,0 +1,441 @@
+// =============================================================================
+// JalSeva - Supplier Ledger
+// =============================================================================
+// Double-entry bookkeeping for what the platform owes each supplier. Every
+// money movement is a LedgerTransaction whose debits equal its credits:
+//
+//   prepaid delivery     Dr clearing total   Cr supplier_available earning
+//                                            Cr commission commission
+//   reserve hold         Dr supplier_available  Cr supplier_reserve
+//   reserve release      Dr supplier_reserve    Cr supplier_available
+//   cash delivery        Dr supplier_cash_due   Cr commission
+//                        (the supplier kept the cash, so owes commission)
+//   cash remittance      Dr clearing            Cr supplier_cash_due
+//   cash offset          Dr supplier_available  Cr supplier_cash_due
+//                        (cash owed netted against earnings before a payout)
+//   cancellation fee     Dr clearing fee  Cr supplier_available compensation
+//                                         Cr commission remainder
+//   payout               Dr supplier_available  Cr clearing
+//   failed payout        the payout, reversed
+//   refund clawback      Dr supplier_reserve    Cr clearing refund
+//                        Dr supplier_available
+//                        Dr commission
+//                        (a refund on a delivered prepaid order: the
+//                        supplier's share comes out of what the order still
+//                        holds in reserve first, then the available balance)
+//
+// Transaction ids are derived from the order or payout they settle, so
+// posting the same event twice is a no-op. Pure and client-safe; storage,
+// payouts through Razorpay and the delivery hook live in './server'.
+// =============================================================================
+
+import type {
+  LedgerAccount,
+  LedgerEntry,
+  LedgerTransaction,
+  Order,
+  PayoutPolicy,
+  RefundRecord,
+  SupplierBalance,
+} from '@/types';
+
+// ---------------------------------------------------------------------------
+// Defaults
+// ---------------------------------------------------------------------------
+
+export const DEFAULT_PAYOUT_POLICY: PayoutPolicy = {
+  frequency: 'weekly',
+  weekday: 1, // Monday
+  minimumAmount: 500,
+  reservePercent: 10,
+  reserveDays: 7,
+};
+
+const DAY_MS = 86_400_000;
+
+/** Merges a stored (possibly partial) policy over the defaults. */
+export function resolvePayoutPolicy(policy?: Partial<PayoutPolicy> | null): PayoutPolicy {
+  return { ...DEFAULT_PAYOUT_POLICY, ...policy };
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function dr(account: LedgerAccount, amount: number): LedgerEntry {
+  return { account, debit: round(amount), credit: 0 };
+}
+
+function cr(account: LedgerAccount, amount: number): LedgerEntry {
+  return { account, debit: 0, credit: round(amount) };
+}
+
+/** Whether a transaction's debits equal its credits (to the paisa). */
+export function isBalanced(tx: Pick<LedgerTransaction, 'entries'>): boolean {
+  let net = 0;
+  for (const e of tx.entries) net += e.debit - e.credit;
+  return Math.abs(net) < 0.005;
+}
+
+/** Net credit balance of one account across transactions. */
+function creditBalance(transactions: LedgerTransaction[], account: LedgerAccount): number {
+  let total = 0;
+  for (const tx of transactions) {
+    for (const e of tx.entries) {
+      if (e.account === account) total += e.credit - e.debit;
+    }
+  }
+  return round(total);
+}
+
+/** Net debit balance of one account (for debit-normal accounts). */
+function debitBalance(transactions: LedgerTransaction[], account: LedgerAccount): number {
+  let total = 0;
+  for (const tx of transactions) {
+    for (const e of tx.entries) {
+      if (e.account === account) total += e.debit - e.credit;
+    }
+  }
+  return round(total);
+}
+
+// ---------------------------------------------------------------------------
+// Postings
+// ---------------------------------------------------------------------------
+
+type DeliveredOrder = Pick<Order, 'id' | 'price' | 'payment'> & { supplierId?: string };
+
+/**
+ * Ledger transactions for a delivered order. Prepaid orders credit the
+ * supplier's earning and hold part of it in reserve; cash orders record the
+ * commission the supplier now owes the platform.
+ */
+export function deliveryTransactions(
+  order: DeliveredOrder,
+  policy: PayoutPolicy = DEFAULT_PAYOUT_POLICY,
+  now: Date = new Date()
+): LedgerTransaction[] {
+  const supplierId = order.supplierId;
+  if (!supplierId) return [];
+  const { total, commission, supplierEarning } = order.price;
+
+  if (order.payment.method === 'cash') {
+    if (commission <= 0) return [];
+    return [
+      {
+        id: `${order.id}_cash_commission`,
+        supplierId,
+        kind: 'cash_commission',
+        orderId: order.id,
+        memo: 'Commission on cash order',
+        entries: [dr('supplier_cash_due', commission), cr('platform_commission', commission)],
+        createdAt: now,
+      },
+    ];
+  }
+
+  const txs: LedgerTransaction[] = [
+    {
+      id: `${order.id}_earning`,
+      supplierId,
+      kind: 'delivery_earning',
+      orderId: order.id,
+      memo: 'Delivery earning',
+      entries: [
+        dr('platform_clearing', total),
+        cr('supplier_available', supplierEarning),
+        cr('platform_commission', total - supplierEarning),
+      ],
+      createdAt: now,
+    },
+  ];
+
+  const held = round((supplierEarning * policy.reservePercent) / 100);
+  if (held > 0) {
+    txs.push({
+      id: `${order.id}_reserve`,
+      supplierId,
+      kind: 'reserve_hold',
+      orderId: order.id,
+      memo: `Dispute reserve (${policy.reservePercent}%)`,
+      entries: [dr('supplier_available', held), cr('supplier_reserve', held)],
+      releaseAt: new Date(now.getTime() + policy.reserveDays * DAY_MS),
+      createdAt: now,
+    });
+  }
+
+  return txs;
+}
+
+/**
+ * Credits the supplier's share of a customer cancellation fee. Null when
+ * there is no compensation or the fee was never collected (cash or unpaid).
+ */
+export function compensationTransaction(
+  order: DeliveredOrder & Pick<Order, 'cancellation'>,
+  now: Date = new Date()
+): LedgerTransaction | null {
+  const c = order.cancellation;
+  if (!order.supplierId || !c || c.supplierCompensation <= 0) return null;
+  if (order.payment.method === 'cash' || order.payment.status === 'pending' || order.payment.status === 'failed') {
+    return null;
+  }
+  return {
+    id: `${order.id}_compensation`,
+    supplierId: order.supplierId,
+    kind: 'cancellation_compensation',
+    orderId: order.id,
+    memo: 'Cancellation compensation',
+    entries: [
+      dr('platform_clearing', c.fee),
+      cr('supplier_available', c.supplierCompensation),
+      cr('platform_commission', c.fee - c.supplierCompensation),
+    ],
+    createdAt: now,
+  };
+}
+
+/** Releases every reserve hold whose releaseAt has passed and is not yet released. */
+export function dueReserveReleases(
+  transactions: LedgerTransaction[],
+  now: Date = new Date()
+): LedgerTransaction[] {
+  const ids = new Set(transactions.map((t) => t.id));
+  const releases: LedgerTransaction[] = [];
+
+  for (const hold of transactions) {
+    if (hold.kind !== 'reserve_hold' || !hold.releaseAt) continue;
+    if (new Date(hold.releaseAt).getTime() > now.getTime()) continue;
+    const id = `${hold.id}_release`;
+    if (ids.has(id)) continue;
+
+    // Whatever refunds on the order took out of the hold is not released
+    const held = hold.entries.find((e) => e.account === 'supplier_reserve')?.credit ?? 0;
+    const clawedBack = transactions
+      .filter((t) => t.kind === 'refund_clawback' && t.orderId === hold.orderId)
+      .reduce((sum, t) => sum + debitBalance([t], 'supplier_reserve'), 0);
+    const amount = round(held - clawedBack);
+    if (amount <= 0) continue;
+    releases.push({
+      id,
+      supplierId: hold.supplierId,
+      kind: 'reserve_release',
+      orderId: hold.orderId,
+      memo: 'Dispute reserve released',
+      entries: [dr('supplier_reserve', amount), cr('supplier_available', amount)],
+      createdAt: now,
+    });
+  }
+
+  return releases;
+}
+
+/**
+ * Takes the supplier's share of a refund on a delivered prepaid order back,
+ * pro rata to their earning: from what the order still holds in reserve
+ * first, then from the available balance (which may go negative until later
+ * earnings cover it). The platform gives back its commission share.
+ *
+ * A refund of money paid over the order's final price (a short delivery's
+ * pro-rated difference) was never the supplier's, so is not clawed back.
+ * `order` is as recorded after the refund. Null when nothing is owed back.
+ */
+export function refundClawbackTransaction(
+  transactions: LedgerTransaction[],
+  order: DeliveredOrder & Pick<Order, 'status'>,
+  refund: Pick<RefundRecord, 'id' | 'amount'>,
+  now: Date = new Date()
+): LedgerTransaction | null {
+  const supplierId = order.supplierId;
+  const { total, supplierEarning } = order.price;
+  if (!supplierId || order.status !== 'delivered' || order.payment.method === 'cash') return null;
+  if (total <= 0) return null;
+
+  // Refunds are taken from the overpayment first, then from the price
+  const overpaid = Math.max(0, order.payment.amount - total);
+  const refunded = order.payment.refundedAmount ?? refund.amount;
+  const ofPrice = (amount: number) => Math.min(total, Math.max(0, amount - overpaid));
+  const amount = round(ofPrice(refunded) - ofPrice(refunded - refund.amount));
+  if (amount <= 0) return null;
+
+  const share = round((amount * supplierEarning) / total);
+  const ordered = transactions.filter((t) => t.orderId === order.id);
+  const fromReserve = round(Math.min(share, Math.max(0, creditBalance(ordered, 'supplier_reserve'))));
+  const fromAvailable = round(share - fromReserve);
+  const entries = [
+    dr('supplier_reserve', fromReserve),
+    dr('supplier_available', fromAvailable),
+    dr('platform_commission', amount - share),
+    cr('platform_clearing', amount),
+  ].filter((e) => e.debit > 0 || e.credit > 0);
+
+  return {
+    id: `${refund.id}_clawback`,
+    supplierId,
+    kind: 'refund_clawback',
+    orderId: order.id,
+    memo: 'Refund on delivered order',
+    entries,
+    createdAt: now,
+  };
+}
+
+/** Moves `amount` out of the supplier's available balance to their bank. */
+export function payoutTransaction(
+  supplierId: string,
+  payoutId: string,
+  amount: number,
+  now: Date = new Date()
+): LedgerTransaction {
+  return {
+    id: `${payoutId}_payout`,
+    supplierId,
+    kind: 'payout',
+    payoutId,
+    memo: 'Payout to bank',
+    entries: [dr('supplier_available', amount), cr('platform_clearing', amount)],
+    createdAt: now,
+  };
+}
+
+/** Returns a failed payout's amount to the available balance. */
+export function payoutReversalTransaction(
+  supplierId: string,
+  payoutId: string,
+  amount: number,
+  now: Date = new Date()
+): LedgerTransaction {
+  return {
+    id: `${payoutId}_reversal`,
+    supplierId,
+    kind: 'payout_reversal',
+    payoutId,
+    memo: 'Failed payout returned',
+    entries: [dr('platform_clearing', amount), cr('supplier_available', amount)],
+    createdAt: now,
+  };
+}
+
+/** Cash the supplier handed over to settle commission they owe. */
+export function cashRemittanceTransaction(
+  supplierId: string,
+  remittanceId: string,
+  amount: number,
+  memo = 'Cash remitted to platform',
+  now: Date = new Date()
+): LedgerTransaction {
+  return {
+    id: remittanceId,
+    supplierId,
+    kind: 'cash_remittance',
+    memo,
+    entries: [dr('platform_clearing', amount), cr('supplier_cash_due', amount)],
+    createdAt: now,
+  };
+}
+
+/**
+ * Nets cash commission owed against the available balance, as much as the
+ * balance covers. Null when there is nothing to net. The id is derived from
+ * the ledger length, so two runs over the same ledger post it once.
+ */
+export function cashOffsetTransaction(
+  transactions: LedgerTransaction[],
+  now: Date = new Date()
+): LedgerTransaction | null {
+  const first = transactions[0];
+  if (!first) return null;
+  const { available, cashDue } = computeBalance(transactions);
+  const amount = round(Math.min(available, cashDue));
+  if (amount <= 0) return null;
+  return {
+    id: `${first.supplierId}_cash_offset_${transactions.length}`,
+    supplierId: first.supplierId,
+    kind: 'cash_offset',
+    memo: 'Cash commission deducted from earnings',
+    entries: [dr('supplier_available', amount), cr('supplier_cash_due', amount)],
+    createdAt: now,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Balances
+// ---------------------------------------------------------------------------
+
+/** Supplier balances from their ledger transactions. */
+export function computeBalance(transactions: LedgerTransaction[]): SupplierBalance {
+  let lifetimeEarnings = 0;
+  let totalPaidOut = 0;
+
+  for (const tx of transactions) {
+    const available = tx.entries
+      .filter((e) => e.account === 'supplier_available')
+      .reduce((sum, e) => sum + e.credit - e.debit, 0);
+
+    if (tx.kind === 'delivery_earning' || tx.kind === 'cancellation_compensation') {
+      lifetimeEarnings += available;
+    } else if (tx.kind === 'refund_clawback') {
+      lifetimeEarnings -= debitBalance([tx], 'supplier_available') + debitBalance([tx], 'supplier_reserve');
+    } else if (tx.kind === 'payout' || tx.kind === 'payout_reversal') {
+      totalPaidOut -= available;
+    }
+  }
+
+  return {
+    available: creditBalance(transactions, 'supplier_available'),
+    reserve: creditBalance(transactions, 'supplier_reserve'),
+    cashDue: debitBalance(transactions, 'supplier_cash_due'),
+    lifetimeEarnings: round(lifetimeEarnings),
+    totalPaidOut: round(totalPaidOut),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Payout schedule
+// ---------------------------------------------------------------------------
+
+function isoDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * The payout period `now` falls in (UTC): the day itself for daily payouts,
+ * or the most recent scheduled weekday for weekly payouts. A supplier is
+ * paid at most once per period.
+ */
+export function payoutPeriod(policy: PayoutPolicy, now: Date = new Date()): string {
+  if (policy.frequency === 'daily') return isoDay(now);
+  const daysSince = (now.getUTCDay() - policy.weekday + 7) % 7;
+  return isoDay(new Date(now.getTime() - daysSince * DAY_MS));
+}
+
+export type PayoutPlan =
+  | { due: true; amount: number; period: string }
+  | { due: false; reason: 'below_minimum' | 'no_bank_details' | 'already_paid'; period: string };
+
+/**
+ * Decides whether a supplier should be paid this period and how much: the
+ * whole available balance, once it reaches the policy minimum.
+ */
+export function planPayout(input: {
+  balance: SupplierBalance;
+  policy: PayoutPolicy;
+  hasBankDetails: boolean;
+  /** Periods that already have a processing or completed payout. */
+  paidPeriods: string[];
+  now?: Date;
+}): PayoutPlan {
+  const period = payoutPeriod(input.policy, input.now);
+  if (input.paidPeriods.includes(period)) return { due: false, reason: 'already_paid', period };
+  if (!input.hasBankDetails) return { due: false, reason: 'no_bank_details', period };
+
+  const amount = round(input.balance.available);
+  if (amount <= 0 || amount < input.policy.minimumAmount) {
+    return { due: false, reason: 'below_minimum', period };
+  }
+  return { due: true, amount, period };
+}
@@ -0,0 +1,366 @@
+// =============================================================================
+// JalSeva - Supplier Ledger & Payouts (Server-Side)
+// =============================================================================
+// Stores ledger transactions in `ledger` and payouts in `payouts` (or the
+// demo store), posts earnings when an order is delivered (and takes them
+// back when it is refunded), and pays suppliers out through RazorpayX on
+// their schedule.
+//
+// A payout first claims its period: the payout document is created with an
+// id derived from the supplier, period and attempt, so two scheduler runs
+// cannot both pay the same period. The balance is debited before the bank
+// transfer is requested; a failed transfer is reversed and can be retried in
+// the same period. Cash commission the supplier owes is netted off their
+// available balance before each payout is planned.
+// =============================================================================
+
+import { firestoreBreaker } from '@/lib/circuit-breaker';
+import * as store from '@/lib/demo-store';
+import { createPayout } from '@/lib/razorpay';
+import { loadAdminSettings } from '@/lib/pricing/server';
+import type {
+  BankDetails,
+  LedgerTransaction,
+  Order,
+  PayoutPolicy,
+  RefundRecord,
+  SupplierBalance,
+  SupplierPayout,
+} from '@/types';
+import {
+  cashOffsetTransaction,
+  compensationTransaction,
+  computeBalance,
+  deliveryTransactions,
+  dueReserveReleases,
+  isBalanced,
+  payoutPeriod,
+  payoutReversalTransaction,
+  payoutTransaction,
+  planPayout,
+  refundClawbackTransaction,
+  resolvePayoutPolicy,
+} from './index';
+
+// ---------------------------------------------------------------------------
+// Firebase Admin - lazy import
+// ---------------------------------------------------------------------------
+
+function hasAdminCredentials(): boolean {
+  return !!(
+    process.env.FIREBASE_ADMIN_CLIENT_EMAIL &&
+    process.env.FIREBASE_ADMIN_PRIVATE_KEY
+  );
+}
+
+async function getAdminDb() {
+  const { adminDb } = await import('@/lib/firebase-admin');
+  return adminDb;
+}
+
+function toStored<T extends object>(data: T): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(data)) {
+    if (value === undefined) continue;
+    out[key] = value instanceof Date ? value.toISOString() : value;
+  }
+  return out;
+}
+
+function byCreatedAt(a: { createdAt: Date }, b: { createdAt: Date }): number {
+  return new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+}
+
+export async function loadPayoutPolicy(): Promise<PayoutPolicy> {
+  const settings = await loadAdminSettings();
+  return resolvePayoutPolicy(settings.payoutPolicy);
+}
+
+// ---------------------------------------------------------------------------
+// Ledger storage
+// ---------------------------------------------------------------------------
+
+/**
+ * Posts transactions, skipping any whose id is already in the ledger, and
+ * returns the ones added. Throws on an unbalanced transaction.
+ */
+export async function postLedgerTransactions(
+  txs: LedgerTransaction[]
+): Promise<LedgerTransaction[]> {
+  for (const tx of txs) {
+    if (!isBalanced(tx)) throw new Error(`Unbalanced ledger transaction ${tx.id}`);
+  }
+  if (txs.length === 0) return [];
+  if (!hasAdminCredentials()) return store.appendLedgerTransactions(txs);
+
+  const adminDb = await getAdminDb();
+  const refs = txs.map((tx) => adminDb.collection('ledger').doc(tx.id));
+  return firestoreBreaker.execute(() =>
+    adminDb.runTransaction(async (tx) => {
+      const snaps = await tx.getAll(...refs);
+      const added = txs.filter((_, i) => !snaps[i].exists);
+      for (const entry of added) {
+        tx.set(adminDb.collection('ledger').doc(entry.id), toStored(entry));
+      }
+      return added;
+    })
+  );
+}
+
+/** A supplier's ledger, oldest first. */
+export async function listLedger(supplierId: string): Promise<LedgerTransaction[]> {
+  if (!hasAdminCredentials()) return [...store.listLedgerTransactions(supplierId)];
+
+  const adminDb = await getAdminDb();
+  const snap = await firestoreBreaker.execute(() =>
+    adminDb.collection('ledger').where('supplierId', '==', supplierId).get()
+  );
+  return snap.docs
+    .map((d) => ({ ...d.data(), id: d.id }) as LedgerTransaction)
+    .sort(byCreatedAt);
+}
+
+/** Posts the supplier's earning (or cash commission) for a delivered order. */
+export async function recordDeliveryEarnings(
+  order: Order,
+  now: Date = new Date()
+): Promise<LedgerTransaction[]> {
+  if (order.status !== 'delivered') return [];
+  const policy = await loadPayoutPolicy();
+  return postLedgerTransactions(deliveryTransactions(order, policy, now));
+}
+
+/** Credits the supplier's share of a collected cancellation fee. */
+export async function recordCancellationCompensation(
+  order: Order,
+  now: Date = new Date()
+): Promise<LedgerTransaction[]> {
+  const tx = compensationTransaction(order, now);
+  return tx ? postLedgerTransactions([tx]) : [];
+}
+
+/** Takes the supplier's share of a refund on a delivered order back. */
+export async function recordRefundClawback(
+  order: Order,
+  refund: Pick<RefundRecord, 'id' | 'amount'>,
+  now: Date = new Date()
+): Promise<LedgerTransaction[]> {
+  if (order.status !== 'delivered' || !order.supplierId) return [];
+  const tx = refundClawbackTransaction(await listLedger(order.supplierId), order, refund, now);
+  return tx ? postLedgerTransactions([tx]) : [];
+}
+
+/** Releases reserve holds that have passed their dispute window. */
+export async function releaseDueReserves(
+  supplierId: string,
+  now: Date = new Date()
+): Promise<LedgerTransaction[]> {
+  const releases = dueReserveReleases(await listLedger(supplierId), now);
+  return postLedgerTransactions(releases);
+}
+
+/** Deducts cash commission the supplier owes from their available balance. */
+export async function offsetCashDue(
+  supplierId: string,
+  now: Date = new Date()
+): Promise<LedgerTransaction[]> {
+  const tx = cashOffsetTransaction(await listLedger(supplierId), now);
+  return tx ? postLedgerTransactions([tx]) : [];
+}
+
+// ---------------------------------------------------------------------------
+// Payout storage
+// ---------------------------------------------------------------------------
+
+/** A supplier's payouts, oldest first. */
+export async function listPayouts(supplierId: string): Promise<SupplierPayout[]> {
+  if (!hasAdminCredentials()) return [...store.listPayouts(supplierId)];
+
+  const adminDb = await getAdminDb();
+  const snap = await firestoreBreaker.execute(() =>
+    adminDb.collection('payouts').where('supplierId', '==', supplierId).get()
+  );
+  return snap.docs
+    .map((d) => ({ ...d.data(), id: d.id }) as SupplierPayout)
+    .sort(byCreatedAt);
+}
+
+/** Creates the payout document; false if another run already claimed the id. */
+async function claimPayout(payout: SupplierPayout): Promise<boolean> {
+  if (!hasAdminCredentials()) {
+    if (store.listPayouts(payout.supplierId).some((p) => p.id === payout.id)) return false;
+    store.upsertPayout(payout);
+    return true;
+  }
+
+  const adminDb = await getAdminDb();
+  try {
+    await firestoreBreaker.execute(() =>
+      adminDb.collection('payouts').doc(payout.id).create(toStored(payout))
+    );
+    return true;
+  } catch (err) {
+    console.warn(`[Payouts] Could not claim ${payout.id}:`, err);
+    return false;
+  }
+}
+
+async function savePayout(payout: SupplierPayout): Promise<void> {
+  if (!hasAdminCredentials()) {
+    store.upsertPayout(payout);
+    return;
+  }
+  const adminDb = await getAdminDb();
+  await firestoreBreaker.execute(() =>
+    adminDb.collection('payouts').doc(payout.id).set(toStored(payout))
+  );
+}
+
+async function loadBankDetails(supplierId: string): Promise<BankDetails | null> {
+  if (!hasAdminCredentials()) return store.getSupplier(supplierId)?.bankDetails ?? null;
+
+  const adminDb = await getAdminDb();
+  const snap = await firestoreBreaker.execute(
+    () => adminDb.collection('suppliers').doc(supplierId).get(),
+    () => null
+  );
+  return (snap?.exists ? (snap.data()?.bankDetails as BankDetails | undefined) : null) ?? null;
+}
+
+// ---------------------------------------------------------------------------
+// Wallet
+// ---------------------------------------------------------------------------
+
+export interface SupplierWallet {
+  balance: SupplierBalance;
+  transactions: LedgerTransaction[];
+  payouts: SupplierPayout[];
+  policy: PayoutPolicy;
+  /** Period the next scheduled payout settles. */
+  period: string;
+}
+
+/** Balance, ledger and payouts for a supplier, after releasing due reserves. */
+export async function getSupplierWallet(
+  supplierId: string,
+  now: Date = new Date()
+): Promise<SupplierWallet> {
+  await releaseDueReserves(supplierId, now);
+  const [transactions, payouts, policy] = await Promise.all([
+    listLedger(supplierId),
+    listPayouts(supplierId),
+    loadPayoutPolicy(),
+  ]);
+  return {
+    balance: computeBalance(transactions),
+    transactions,
+    payouts,
+    policy,
+    period: payoutPeriod(policy, now),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Payouts
+// ---------------------------------------------------------------------------
+
+export type PayoutRunResult =
+  | { supplierId: string; outcome: 'paid' | 'failed'; payout: SupplierPayout }
+  | {
+      supplierId: string;
+      outcome: 'skipped';
+      reason: 'below_minimum' | 'no_bank_details' | 'already_paid';
+    };
+
+/**
+ * Pays out a supplier's available balance if this period's payout is due
+ * and the balance meets the minimum.
+ */
+export async function runSupplierPayout(
+  supplierId: string,
+  now: Date = new Date()
+): Promise<PayoutRunResult> {
+  await releaseDueReserves(supplierId, now);
+  await offsetCashDue(supplierId, now);
+  const [transactions, payouts, policy, bankDetails] = await Promise.all([
+    listLedger(supplierId),
+    listPayouts(supplierId),
+    loadPayoutPolicy(),
+    loadBankDetails(supplierId),
+  ]);
+
+  const plan = planPayout({
+    balance: computeBalance(transactions),
+    policy,
+    hasBankDetails: !!bankDetails,
+    paidPeriods: payouts.filter((p) => p.status !== 'failed').map((p) => p.period),
+    now,
+  });
+  if (!plan.due || !bankDetails) {
+    return { supplierId, outcome: 'skipped', reason: plan.due ? 'no_bank_details' : plan.reason };
+  }
+
+  const attempt = payouts.filter((p) => p.period === plan.period).length + 1;
+  const payout: SupplierPayout = {
+    id: `pout_${supplierId}_${plan.period}_${attempt}`,
+    supplierId,
+    amount: plan.amount,
+    status: 'processing',
+    period: plan.period,
+    accountLast4: bankDetails.accountNumber.slice(-4),
+    createdAt: now,
+  };
+  if (!(await claimPayout(payout))) {
+    return { supplierId, outcome: 'skipped', reason: 'already_paid' };
+  }
+
+  await postLedgerTransactions([payoutTransaction(supplierId, payout.id, payout.amount, now)]);
+
+  try {
+    const transfer = await createPayout(supplierId, Math.round(payout.amount * 100), bankDetails);
+    const settled: SupplierPayout = {
+      ...payout,
+      status: transfer.status === 'processed' ? 'completed' : 'processing',
+      razorpayPayoutId: transfer.id,
+      bankRef: `${transfer.mode}/${transfer.id}`,
+      ...(transfer.status === 'processed' ? { completedAt: new Date() } : {}),
+    };
+    await savePayout(settled);
+    return { supplierId, outcome: 'paid', payout: settled };
+  } catch (err) {
+    console.error(`[Payouts] Transfer failed for ${payout.id}:`, err);
+    await postLedgerTransactions([
+      payoutReversalTransaction(supplierId, payout.id, payout.amount, new Date()),
+    ]);
+    const failed: SupplierPayout = {
+      ...payout,
+      status: 'failed',
+      failureReason: err instanceof Error ? err.message : 'Transfer failed',
+    };
+    await savePayout(failed);
+    return { supplierId, outcome: 'failed', payout: failed };
+  }
+}
+
+/** Runs the payout schedule for every verified supplier. */
+export async function runScheduledPayouts(now: Date = new Date()): Promise<PayoutRunResult[]> {
+  let supplierIds: string[];
+  if (!hasAdminCredentials()) {
+    supplierIds = store
+      .listAllSuppliers()
+      .filter((s) => s.verificationStatus === 'verified')
+      .map((s) => s.id);
+  } else {
+    const adminDb = await getAdminDb();
+    const snap = await firestoreBreaker.execute(() =>
+      adminDb.collection('suppliers').where('verificationStatus', '==', 'verified').get()
+    );
+    supplierIds = snap.docs.map((d) => d.id);
+  }
+
+  const results: PayoutRunResult[] = [];
+  for (const supplierId of supplierIds) {
+    results.push(await runSupplierPayout(supplierId, now));
+  }
+  return results;
+}
@@ -0,0 +1,511 @@
+// =============================================================================
+// JalSeva - Order Lifecycle (Server-Side State Machine)
+// =============================================================================
+// The single authority for Order.status changes. Every mutator — the order
+// PUT route, the supplier dashboard, server actions, the dev simulator and
+// Beckn confirm — goes through transitionOrder(), which:
+//
+//   1. validates the move against ORDER_TRANSITIONS,
+//   2. stamps acceptedAt / pickedAt / arrivingAt / deliveredAt / cancelledAt,
+//   3. keeps suppliers blocked for unremitted cash off cash orders,
+//      requires a verified delivery OTP (or an audited admin override) and
+//      the cash collected on a cash order, and applies the payment side
+//      effect of delivery,
+//   4. appends an OrderEvent (who, from, to, why, when) to the audit trail,
+//   5. splits an order larger than the vehicle into delivery legs and
+//      issues the delivery OTP on acceptance, and posts the supplier's
+//      earning to the ledger, issues the GST invoice and refunds any
+//      short-delivery difference once delivered.
+//
+// On Firestore the status write and the event write share one transaction,
+// so a concurrent accept/cancel race cannot both succeed. Without Firebase
+// Admin credentials the in-memory demo store is used instead.
+// =============================================================================
+
+import { firestoreBreaker } from '@/lib/circuit-breaker';
+import { batchWriter } from '@/lib/batch-writer';
+import { hotCache } from '@/lib/cache';
+import * as store from '@/lib/demo-store';
+import { recordDeliveryEarnings } from '@/lib/ledger/server';
+import { issueInvoice } from '@/lib/invoice/server';
+import { issueDeliveryOtp } from '@/lib/delivery-otp/server';
+import { legLabel, undeliveredLegs, withDeliveryLegs } from '@/lib/delivery-legs';
+import { splitOrderIntoLegs } from '@/lib/delivery-legs/server';
+import { refundShortDelivery } from '@/lib/delivery-volume/server';
+import { needsCashCollection, planCashCollection } from '@/lib/cash';
+import type { Order, OrderActor, OrderEvent, OrderStatus, Supplier } from '@/types';
+
+// ---------------------------------------------------------------------------
+// Transition table
+// ---------------------------------------------------------------------------
+
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  searching: ['accepted', 'cancelled'],
+  accepted: ['en_route', 'cancelled'],
+  en_route: ['arriving', 'delivered', 'cancelled'],
+  arriving: ['delivered', 'cancelled'],
+  delivered: [],
+  cancelled: [],
+};
+
+/** Timestamp field stamped when an order enters each status. */
+const STATUS_TIMESTAMPS: Partial<Record<OrderStatus, keyof Order>> = {
+  accepted: 'acceptedAt',
+  en_route: 'pickedAt',
+  arriving: 'arrivingAt',
+  delivered: 'deliveredAt',
+  cancelled: 'cancelledAt',
+};
+
+export const SYSTEM_ACTOR: OrderActor = { id: 'system', role: 'system' };
+
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+  return ORDER_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * Flat field patch for an order document. Nested fields use Firestore
+ * dot-notation (e.g. 'payment.status') so the same patch can be handed to
+ * a Firestore update or applied to an in-memory order.
+ */
+export type OrderPatch = Record<string, unknown>;
+
+export interface TransitionOptions {
+  actor: OrderActor;
+  reason?: string;
+  metadata?: Record<string, unknown>;
+  /**
+   * Extra fields written atomically with the status change. A function is
+   * evaluated against the order as read inside the transaction.
+   */
+  patch?: OrderPatch | ((order: Order) => OrderPatch);
+  /**
+   * Marks the order delivered without a verified delivery OTP. Admins only,
+   * with a reason; recorded on the order and in the event metadata. Callers
+   * pass an admin actor only once the actor's user record says so
+   * ('@/lib/auth/server'), never on the request's word.
+   */
+  otpOverride?: boolean;
+  /** Rupees the supplier confirms collecting; required to deliver a cash order. */
+  cashCollected?: number;
+}
+
+export type TransitionPlan =
+  | { success: true; patch: OrderPatch; event: OrderEvent }
+  | { success: false; error: string; status: number };
+
+export type TransitionResult =
+  | { success: true; order: Order; event: OrderEvent }
+  | { success: false; error: string; status: number };
+
+type TransitionSubject = Pick<Order, 'id' | 'status'> & Partial<Order>;
+
+// ---------------------------------------------------------------------------
+// Pure core
+// ---------------------------------------------------------------------------
+
+/**
+ * Validates a transition and computes the resulting field patch and audit
+ * event, without touching any storage.
+ *
+ * @param supplier - The supplier a cash order is being accepted by, as the
+ *   storage backend read it (see acceptingSupplierId).
+ */
+export function planTransition(
+  order: TransitionSubject,
+  to: OrderStatus,
+  options: TransitionOptions,
+  now: Date = new Date(),
+  supplier?: Pick<Supplier, 'cashBlocked'> | null
+): TransitionPlan {
+  const from = order.status;
+
+  if (!canTransition(from, to)) {
+    const allowed = ORDER_TRANSITIONS[from];
+    return {
+      success: false,
+      error: `Invalid status transition from '${from}' to '${to}'. Allowed: ${allowed?.join(', ') || 'none'}.`,
+      status: 400,
+    };
+  }
+
+  const extra =
+    typeof options.patch === 'function' ? options.patch(order as Order) : options.patch;
+  const patch: OrderPatch = { ...extra, status: to, updatedAt: now };
+
+  const stampField = STATUS_TIMESTAMPS[to];
+  if (stampField) patch[stampField] = now;
+  let metadata = options.metadata;
+
+  switch (to) {
+    case 'accepted': {
+      if (!patch.supplierId && !order.supplierId) {
+        return {
+          success: false,
+          error: 'supplierId is required when accepting an order.',
+          status: 400,
+        };
+      }
+      if (order.payment?.method === 'cash' && supplier?.cashBlocked) {
+        return {
+          success: false,
+          error: 'Supplier is blocked from cash orders until outstanding cash is remitted.',
+          status: 403,
+        };
+      }
+      break;
+    }
+
+    case 'delivered': {
+      // Multi-trip orders are delivered with their last trip
+      const [pendingLeg] = undeliveredLegs(order, extra);
+      if (pendingLeg) {
+        return {
+          success: false,
+          error: `${legLabel(order, pendingLeg)} has not been delivered yet.`,
+          status: 409,
+        };
+      }
+      if (!order.deliveryVerification?.otpVerifiedAt) {
+        if (!options.otpOverride) {
+          return {
+            success: false,
+            error: 'Delivery OTP has not been verified.',
+            status: 409,
+          };
+        }
+        if (options.actor.role !== 'admin' || !options.reason?.trim()) {
+          return {
+            success: false,
+            error: 'Only an admin can deliver without the OTP, and must give a reason.',
+            status: 403,
+          };
+        }
+        patch['deliveryVerification.otpOverride'] = {
+          by: options.actor.id,
+          reason: options.reason.trim(),
+          at: now,
+        };
+        metadata = { ...metadata, otpOverride: true };
+      }
+      if (order.payment && needsCashCollection(order as Order)) {
+        const planned = planCashCollection(
+          order as Order,
+          options.cashCollected,
+          options.actor.id,
+          now
+        );
+        if ('error' in planned) return { success: false, error: planned.error, status: 400 };
+        Object.assign(patch, planned.patch);
+      }
+      patch['payment.status'] = 'paid';
+      break;
+    }
+
+    case 'cancelled': {
+      // Fees and refunds are settled by '@/lib/cancellation/server'.
+      if (options.reason) patch.cancellationReason = options.reason;
+      break;
+    }
+  }
+
+  const event: OrderEvent = {
+    // Each status is entered at most once, so this is unique per order and
+    // makes a replayed write idempotent.
+    id: `${order.id}_${to}`,
+    orderId: order.id,
+    from,
+    to,
+    actor: options.actor,
+    at: now,
+    ...(options.reason ? { reason: options.reason } : {}),
+    ...(metadata ? { metadata } : {}),
+  };
+
+  return { success: true, patch, event };
+}
+
+/** Applies a dot-notation patch to a plain order object (immutably). */
+export function applyOrderPatch<T extends object>(order: T, patch: OrderPatch): T {
+  const next = { ...order } as Record<string, unknown>;
+  for (const [key, value] of Object.entries(patch)) {
+    const [head, ...rest] = key.split('.');
+    if (rest.length === 0) {
+      next[head] = value;
+      continue;
+    }
+    const child = (next[head] as Record<string, unknown> | undefined) ?? {};
+    next[head] = applyOrderPatch(child, { [rest.join('.')]: value });
+  }
+  return next as T;
+}
+
+// ---------------------------------------------------------------------------
+// Firebase Admin - lazy import
+// ---------------------------------------------------------------------------
+
+function hasAdminCredentials(): boolean {
+  return !!(
+    process.env.FIREBASE_ADMIN_CLIENT_EMAIL &&
+    process.env.FIREBASE_ADMIN_PRIVATE_KEY
+  );
+}
+
+async function getAdminDb() {
+  const { adminDb } = await import('@/lib/firebase-admin');
+  return adminDb;
+}
+
+/** Firestore stores lifecycle timestamps as ISO strings. */
+function toStored(value: unknown): unknown {
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map(toStored);
+  if (value && Object.getPrototypeOf(value) === Object.prototype) {
+    return serialize(value as Record<string, unknown>);
+  }
+  return value;
+}
+
+/** Dates → ISO strings, including inside nested plain objects and arrays. */
+function serialize(data: Record<string, unknown>): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(data)) {
+    out[key] = toStored(value);
+  }
+  return out;
+}
+
+function eventsCollection(orderId: string): string {
+  return `orders/${orderId}/events`;
+}
+
+function invalidate(orderId: string): void {
+  hotCache.delete(`order:${orderId}`);
+}
+
+/**
+ * The supplier whose cash block an accept must check: the one taking a cash
+ * order. Undefined for any other move.
+ */
+function acceptingSupplierId(
+  order: Order,
+  to: OrderStatus,
+  options: TransitionOptions
+): string | undefined {
+  if (to !== 'accepted' || order.payment?.method !== 'cash') return undefined;
+  const extra = typeof options.patch === 'function' ? options.patch(order) : options.patch;
+  return (extra?.supplierId as string | undefined) ?? order.supplierId;
+}
+
+// ---------------------------------------------------------------------------
+// Storage backends
+// ---------------------------------------------------------------------------
+
+/**
+ * Transitions a Firestore order inside a transaction: the status write and
+ * its audit event commit together or not at all.
+ */
+export async function transitionFirestoreOrder(
+  orderId: string,
+  to: OrderStatus,
+  options: TransitionOptions
+): Promise<TransitionResult> {
+  const adminDb = await getAdminDb();
+  const orderRef = adminDb.collection('orders').doc(orderId);
+
+  const result = await firestoreBreaker.execute(() =>
+    adminDb.runTransaction(async (tx): Promise<TransitionResult> => {
+      const snap = await tx.get(orderRef);
+      if (!snap.exists) {
+        return { success: false, error: 'Order not found.', status: 404 };
+      }
+
+      const current = { ...snap.data(), id: snap.id } as Order;
+      const supplierId = acceptingSupplierId(current, to, options);
+      const supplierSnap = supplierId
+        ? await tx.get(adminDb.collection('suppliers').doc(supplierId))
+        : null;
+      const supplier = supplierSnap?.exists ? (supplierSnap.data() as Supplier) : null;
+      const plan = planTransition(current, to, options, new Date(), supplier);
+      if (!plan.success) return plan;
+
+      tx.update(orderRef, serialize(plan.patch));
+      tx.set(
+        adminDb.collection(eventsCollection(orderId)).doc(plan.event.id),
+        serialize(plan.event as unknown as Record<string, unknown>)
+      );
+
+      return {
+        success: true,
+        order: applyOrderPatch(current, serialize(plan.patch)),
+        event: plan.event,
+      };
+    })
+  );
+
+  if (result.success) {
+    invalidate(orderId);
+    if (to === 'accepted') return { ...result, order: await prepareDelivery(result.order) };
+    if (to === 'delivered') await settleDelivery(result.order);
+  }
+  return result;
+}
+
+/**
+ * On Firestore, delivery legs are split off outside the status transaction;
+ * if that fails the order is delivered in one trip.
+ */
+async function prepareDelivery(order: Order): Promise<Order> {
+  let prepared = order;
+  try {
+    prepared = await splitOrderIntoLegs(order);
+  } catch (err) {
+    console.error(`[OrderLifecycle] Delivery legs failed for order ${order.id}:`, err);
+  }
+  await issueOtp(prepared);
+  return prepared;
+}
+
+/**
+ * The delivery OTP is issued outside the status transaction; if that fails
+ * it is issued when the customer or supplier first asks for it.
+ */
+async function issueOtp(order: Order): Promise<void> {
+  try {
+    await issueDeliveryOtp(order);
+  } catch (err) {
+    console.error(`[OrderLifecycle] Delivery OTP failed for order ${order.id}:`, err);
+  }
+}
+
+/**
+ * Ledger postings, invoicing and the short-delivery refund are idempotent
+ * and kept out of the status transaction; a failure is logged rather than
+ * undoing a delivery that already happened. A missing invoice is issued when
+ * it is first opened; a missed refund is left to an admin.
+ */
+async function settleDelivery(order: Order): Promise<void> {
+  try {
+    await recordDeliveryEarnings(order);
+  } catch (err) {
+    console.error(`[OrderLifecycle] Ledger posting failed for order ${order.id}:`, err);
+  }
+  try {
+    await issueInvoice(order);
+  } catch (err) {
+    console.error(`[OrderLifecycle] Invoice failed for order ${order.id}:`, err);
+  }
+  try {
+    await refundShortDelivery(order);
+  } catch (err) {
+    console.error(`[OrderLifecycle] Short-delivery refund failed for order ${order.id}:`, err);
+  }
+}
+
+/** Transitions an order held in the in-memory demo store. */
+export function transitionStoreOrder(
+  orderId: string,
+  to: OrderStatus,
+  options: TransitionOptions
+): TransitionResult {
+  const current = store.getOrder(orderId);
+  if (!current) {
+    return { success: false, error: 'Order not found.', status: 404 };
+  }
+
+  const supplierId = acceptingSupplierId(current, to, options);
+  const supplier = supplierId ? store.getSupplier(supplierId) : null;
+  const plan = planTransition(current, to, options, new Date(), supplier);
+  if (!plan.success) return plan;
+
+  let order = applyOrderPatch(current, plan.patch);
+  if (to === 'accepted' && order.supplierId) {
+    order = withDeliveryLegs(order, store.getSupplier(order.supplierId));
+  }
+  store.upsertOrder(order);
+  store.appendOrderEvent(plan.event);
+  invalidate(orderId);
+  if (to === 'accepted') void issueOtp(order);
+  if (to === 'delivered') void settleDelivery(order);
+
+  return { success: true, order, event: plan.event };
+}
+
+/**
+ * Transitions an order in whichever backend is active: Firestore when Admin
+ * credentials are configured, the in-memory demo store otherwise.
+ */
+export async function transitionOrder(
+  orderId: string,
+  to: OrderStatus,
+  options: TransitionOptions
+): Promise<TransitionResult> {
+  if (hasAdminCredentials()) {
+    return transitionFirestoreOrder(orderId, to, options);
+  }
+  return transitionStoreOrder(orderId, to, options);
+}
+
+/**
+ * Writes non-status fields (e.g. refund bookkeeping) to an order in the
+ * active backend. Status changes must go through transitionOrder().
+ */
+export async function patchOrder(orderId: string, patch: OrderPatch): Promise<void> {
+  if ('status' in patch) {
+    throw new Error('patchOrder cannot change status; use transitionOrder');
+  }
+  const stamped = { ...patch, updatedAt: new Date() };
+  if (hasAdminCredentials()) {
+    batchWriter.update('orders', orderId, serialize(stamped));
+  } else {
+    const current = store.getOrder(orderId);
+    if (current) store.upsertOrder(applyOrderPatch(current, stamped));
+  }
+  invalidate(orderId);
+}
+
+/** Reads an order from whichever backend is active. */
+export async function loadOrder(orderId: string): Promise<Order | null> {
+  if (!hasAdminCredentials()) return store.getOrder(orderId);
+
+  const adminDb = await getAdminDb();
+  const snap = await firestoreBreaker.execute(
+    () => adminDb.collection('orders').doc(orderId).get(),
+    () => null
+  );
+  if (!snap?.exists) return null;
+  return { ...snap.data(), id: snap.id } as Order;
+}
+
+/**
+ * Records an event for a transition applied while the order document is
+ * being created (e.g. Beckn confirm with a pre-selected provider), where
+ * there is no existing document to transact against.
+ */
+export function recordOrderEvent(event: OrderEvent): void {
+  if (!hasAdminCredentials()) {
+    store.appendOrderEvent(event);
+    return;
+  }
+  batchWriter.set(
+    eventsCollection(event.orderId),
+    event.id,
+    serialize(event as unknown as Record<string, unknown>)
+  );
+}
+
+/** Returns an order's audit trail, oldest first. */
+export async function listOrderEvents(orderId: string): Promise<OrderEvent[]> {
+  if (!hasAdminCredentials()) return store.listOrderEvents(orderId);
+
+  const adminDb = await getAdminDb();
+  const snapshot = await firestoreBreaker.execute(
+    () => adminDb.collection(eventsCollection(orderId)).orderBy('at', 'asc').get(),
+    () => ({ docs: [] } as unknown as FirebaseFirestore.QuerySnapshot)
+  );
+  return snapshot.docs.map((doc) => doc.data() as OrderEvent);
+}
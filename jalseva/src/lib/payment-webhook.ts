@@ -0,0 +1,304 @@
+// =============================================================================
+// JalSeva - Razorpay Webhook Reconciliation
+// =============================================================================
+// Server-side counterpart to /api/payments/verify. Checkout verification only
+// happens if the browser comes back; Razorpay's webhooks arrive regardless,
+// so they are the source of truth for Order.payment:
+//
+//   payment.captured  → `paid` (unless already paid or refunded)
+//   payment.failed    → `failed` (only while still `pending`)
+//   refund.processed  → marks the RefundRecord processed, or records a
+//                       refund issued outside JalSeva (e.g. the dashboard)
+//
+// Razorpay delivers at least once, and can redeliver an event while the
+// first delivery is still being handled. Each event id is therefore claimed
+// before the event is applied: `create()` on `webhookEvents/{id}` (or a
+// set-if-absent in the demo store) lets exactly one delivery through, and
+// the others are acknowledged as duplicates. The claim is released again
+// when the event cannot be applied, so Razorpay's retry is not lost.
+// =============================================================================
+
+import { firestoreBreaker } from '@/lib/circuit-breaker';
+import { batchWriter } from '@/lib/batch-writer';
+import * as store from '@/lib/demo-store';
+import { loadOrder, patchOrder, type OrderPatch } from '@/lib/order-lifecycle';
+import { getRefundReasonLabel, paymentStatusAfterRefund } from '@/lib/refunds';
+import type { Order, RefundRecord } from '@/types';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface RazorpayPaymentEntity {
+  id: string;
+  order_id?: string;
+  amount: number; // paise
+  status?: string;
+  error_description?: string;
+  notes?: Record<string, string>;
+}
+
+export interface RazorpayRefundEntity {
+  id: string;
+  payment_id: string;
+  amount: number; // paise
+  status?: string;
+  notes?: Record<string, string>;
+  created_at?: number; // unix seconds
+}
+
+export interface RazorpayWebhookEvent {
+  event: string;
+  payload: {
+    payment?: { entity: RazorpayPaymentEntity };
+    refund?: { entity: RazorpayRefundEntity };
+  };
+  created_at?: number;
+}
+
+export type WebhookOutcome =
+  /** Order.payment was updated. */
+  | 'processed'
+  /** The order already reflected the event. */
+  | 'unchanged'
+  /** This event id was handled before. */
+  | 'duplicate'
+  /** Not an event type we act on. */
+  | 'ignored'
+  /** No order matches the event; not recorded, so a redelivery is retried. */
+  | 'unmatched';
+
+export interface WebhookResult {
+  outcome: WebhookOutcome;
+  orderId?: string;
+}
+
+export const HANDLED_EVENTS = ['payment.captured', 'payment.failed', 'refund.processed'];
+
+// ---------------------------------------------------------------------------
+// Reconciliation (pure)
+// ---------------------------------------------------------------------------
+
+/**
+ * Works out the Order.payment changes an event implies, or null when the
+ * order already reflects it.
+ */
+export function reconcilePayment(
+  order: Pick<Order, 'payment'>,
+  event: RazorpayWebhookEvent,
+  now: Date = new Date()
+): OrderPatch | null {
+  const { payment } = order;
+
+  switch (event.event) {
+    case 'payment.captured': {
+      const entity = event.payload.payment?.entity;
+      if (!entity) return null;
+      if (payment.status !== 'pending' && payment.status !== 'failed') return null;
+      return {
+        'payment.status': 'paid',
+        'payment.razorpayPaymentId': entity.id,
+        'payment.transactionId': entity.id,
+        'payment.paidAt': now,
+      };
+    }
+
+    case 'payment.failed': {
+      const entity = event.payload.payment?.entity;
+      // A failed attempt never overrides a successful one
+      if (!entity || payment.status !== 'pending') return null;
+      return {
+        'payment.status': 'failed',
+        'payment.razorpayPaymentId': entity.id,
+        'payment.failureReason': entity.error_description || 'Payment failed',
+      };
+    }
+
+    case 'refund.processed': {
+      const entity = event.payload.refund?.entity;
+      if (!entity) return null;
+      const refunds = payment.refunds ?? [];
+      const known = refunds.find((r) => r.id === entity.id);
+
+      if (known) {
+        if (known.status === 'processed') return null;
+        return {
+          'payment.refunds': refunds.map((r) =>
+            r.id === entity.id ? { ...r, status: 'processed', processedAt: now } : r
+          ),
+        };
+      }
+
+      // Issued outside JalSeva: record it and move the balance
+      const amount = entity.amount / 100;
+      const reason = entity.notes?.reason ?? '';
+      const refund: RefundRecord = {
+        id: entity.id,
+        amount,
+        status: 'processed',
+        reason: getRefundReasonLabel(reason) ? reason : 'other',
+        initiatedBy: 'razorpay',
+        createdAt: entity.created_at ? new Date(entity.created_at * 1000) : now,
+        processedAt: now,
+      };
+      const refundedAmount = Math.round(((payment.refundedAmount ?? 0) + amount) * 100) / 100;
+      return {
+        'payment.status': paymentStatusAfterRefund(payment.amount, refundedAmount),
+        'payment.refundId': refund.id,
+        'payment.refundedAmount': refundedAmount,
+        'payment.refunds': [...refunds, refund],
+      };
+    }
+
+    default:
+      return null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Firebase Admin - lazy import
+// ---------------------------------------------------------------------------
+
+function hasAdminCredentials(): boolean {
+  return !!(
+    process.env.FIREBASE_ADMIN_CLIENT_EMAIL &&
+    process.env.FIREBASE_ADMIN_PRIVATE_KEY
+  );
+}
+
+async function getAdminDb() {
+  const { adminDb } = await import('@/lib/firebase-admin');
+  return adminDb;
+}
+
+// ---------------------------------------------------------------------------
+// Storage
+// ---------------------------------------------------------------------------
+
+async function findOrder(event: RazorpayWebhookEvent): Promise<Order | null> {
+  const payment = event.payload.payment?.entity;
+  const refund = event.payload.refund?.entity;
+
+  // Refunds issued by JalSeva carry the order id in their notes
+  const noted = payment?.notes?.orderId || refund?.notes?.orderId;
+  if (noted) {
+    const order = await loadOrder(noted);
+    if (order) return order;
+  }
+
+  const field = payment?.order_id ? 'payment.razorpayOrderId' : 'payment.razorpayPaymentId';
+  const value = payment?.order_id || refund?.payment_id;
+  if (!value) return null;
+
+  if (!hasAdminCredentials()) {
+    return store.findOrderByPayment(
+      payment?.order_id ? { razorpayOrderId: value } : { razorpayPaymentId: value }
+    );
+  }
+
+  const adminDb = await getAdminDb();
+  const snap = await firestoreBreaker.execute(() =>
+    adminDb.collection('orders').where(field, '==', value).limit(1).get()
+  );
+  const doc = snap.docs[0];
+  return doc ? ({ ...doc.data(), id: doc.id } as Order) : null;
+}
+
+/** Firestore's ALREADY_EXISTS, raised by create() on an existing document. */
+const ALREADY_EXISTS = 6;
+
+/** Records the event id as being handled; false when it already was. */
+async function claimEvent(eventId: string, event: string): Promise<boolean> {
+  if (!hasAdminCredentials()) return store.claimWebhookEvent(eventId, event);
+
+  const adminDb = await getAdminDb();
+  try {
+    await firestoreBreaker.execute(() =>
+      adminDb.collection('webhookEvents').doc(eventId).create({
+        event,
+        outcome: null,
+        orderId: null,
+        claimedAt: new Date().toISOString(),
+      })
+    );
+    return true;
+  } catch (err) {
+    if ((err as { code?: number }).code === ALREADY_EXISTS) return false;
+    throw err;
+  }
+}
+
+/** Lets a redelivery of the event be handled again. */
+async function releaseEvent(eventId: string): Promise<void> {
+  if (!hasAdminCredentials()) {
+    store.releaseWebhookEvent(eventId);
+    return;
+  }
+
+  const adminDb = await getAdminDb();
+  await firestoreBreaker.execute(() => adminDb.collection('webhookEvents').doc(eventId).delete());
+}
+
+async function markProcessed(eventId: string, result: WebhookResult): Promise<void> {
+  if (!hasAdminCredentials()) return;
+
+  const adminDb = await getAdminDb();
+  await firestoreBreaker.execute(() =>
+    adminDb.collection('webhookEvents').doc(eventId).update({
+      outcome: result.outcome,
+      orderId: result.orderId ?? null,
+      processedAt: new Date().toISOString(),
+    })
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Entry point
+// ---------------------------------------------------------------------------
+
+/**
+ * Applies a verified webhook event to its order, once per event id. The id
+ * is claimed before anything is applied; when the event cannot be applied
+ * (no matching order yet, or a failed write) the claim is released so a
+ * redelivery is processed again.
+ */
+export async function handlePaymentWebhook(
+  eventId: string,
+  event: RazorpayWebhookEvent
+): Promise<WebhookResult> {
+  if (!(await claimEvent(eventId, event.event))) return { outcome: 'duplicate' };
+
+  let result: WebhookResult;
+  try {
+    result = await applyEvent(eventId, event);
+  } catch (err) {
+    await releaseEvent(eventId);
+    throw err;
+  }
+
+  if (result.outcome === 'unmatched') {
+    await releaseEvent(eventId);
+  } else {
+    await markProcessed(eventId, result);
+  }
+  return result;
+}
+
+async function applyEvent(eventId: string, event: RazorpayWebhookEvent): Promise<WebhookResult> {
+  if (!HANDLED_EVENTS.includes(event.event)) return { outcome: 'ignored' };
+
+  const order = await findOrder(event);
+  if (!order) {
+    console.warn(`[Payment Webhook] No order for ${event.event} event ${eventId}.`);
+    return { outcome: 'unmatched' };
+  }
+
+  const patch = reconcilePayment(order, event);
+  if (patch) {
+    await patchOrder(order.id, patch);
+    // Payment state is critical: persist before acknowledging the event
+    if (hasAdminCredentials()) await batchWriter.flush();
+  }
+
+  return { outcome: patch ? 'processed' : 'unchanged', orderId: order.id };
+}
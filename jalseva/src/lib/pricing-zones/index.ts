@@ -0,0 +1,180 @@
+// =============================================================================
+// JalSeva - Geofenced Pricing Zones
+// =============================================================================
+// Pricing zones are polygons drawn on the admin map. At order time the
+// delivery location is resolved to the zone whose boundary contains it:
+//
+//   1. Zones whose boundary contains the point are candidates. A zone with
+//      no boundary is only ever used by id.
+//   2. Where candidates overlap, the highest `priority` wins; on a tie the
+//      smaller zone wins (a market inside a city is the more specific
+//      price), then the lower id so the choice never flips.
+//   3. A point inside no zone is priced by the zone marked `isDefault`, or
+//      by the built-in DEFAULT_ZONE if none is.
+//
+// Boundaries are small enough (a city at most) to treat lat/lng as a plane
+// for containment; areas use an equirectangular projection.
+//
+// Pure and client-safe; loading zones lives in './server'.
+// =============================================================================
+
+import type { PricingZone, ZoneVertex } from '@/types';
+import { DEFAULT_ZONE, resolveZone } from '@/lib/pricing';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Most vertices a boundary may have. */
+export const MAX_BOUNDARY_VERTICES = 200;
+
+const KM_PER_DEGREE_LAT = 110.574;
+const KM_PER_DEGREE_LNG = 111.32;
+
+// ---------------------------------------------------------------------------
+// Geometry
+// ---------------------------------------------------------------------------
+
+/** Whether `point` lies inside `boundary` (ray casting). */
+export function isInsideBoundary(point: ZoneVertex, boundary: ZoneVertex[]): boolean {
+  let inside = false;
+  for (let i = 0, j = boundary.length - 1; i < boundary.length; j = i++) {
+    const a = boundary[i];
+    const b = boundary[j];
+    if (
+      a.lat > point.lat !== b.lat > point.lat &&
+      point.lng < ((b.lng - a.lng) * (point.lat - a.lat)) / (b.lat - a.lat) + a.lng
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/** Area of a boundary in square kilometres. */
+export function boundaryAreaKm2(boundary: ZoneVertex[]): number {
+  if (boundary.length < 3) return 0;
+  const meanLat = boundary.reduce((sum, v) => sum + v.lat, 0) / boundary.length;
+  const kmPerLng = KM_PER_DEGREE_LNG * Math.cos((meanLat * Math.PI) / 180);
+  let twice = 0;
+  for (let i = 0, j = boundary.length - 1; i < boundary.length; j = i++) {
+    twice +=
+      boundary[j].lng * kmPerLng * boundary[i].lat * KM_PER_DEGREE_LAT -
+      boundary[i].lng * kmPerLng * boundary[j].lat * KM_PER_DEGREE_LAT;
+  }
+  return Math.abs(twice) / 2;
+}
+
+function orientation(a: ZoneVertex, b: ZoneVertex, c: ZoneVertex): number {
+  return Math.sign((b.lng - a.lng) * (c.lat - a.lat) - (b.lat - a.lat) * (c.lng - a.lng));
+}
+
+/** Whether segments a–b and c–d cross at a point inside both. */
+function segmentsCross(a: ZoneVertex, b: ZoneVertex, c: ZoneVertex, d: ZoneVertex): boolean {
+  const o1 = orientation(a, b, c);
+  const o2 = orientation(a, b, d);
+  const o3 = orientation(c, d, a);
+  const o4 = orientation(c, d, b);
+  return o1 * o2 < 0 && o3 * o4 < 0;
+}
+
+function edges(boundary: ZoneVertex[]): [ZoneVertex, ZoneVertex][] {
+  return boundary.map((v, i) => [v, boundary[(i + 1) % boundary.length]]);
+}
+
+function selfIntersects(boundary: ZoneVertex[]): boolean {
+  const sides = edges(boundary);
+  for (let i = 0; i < sides.length; i++) {
+    for (let j = i + 2; j < sides.length; j++) {
+      if (i === 0 && j === sides.length - 1) continue; // adjacent through the closing edge
+      if (segmentsCross(sides[i][0], sides[i][1], sides[j][0], sides[j][1])) return true;
+    }
+  }
+  return false;
+}
+
+/** Whether two boundaries share any ground. */
+export function boundariesOverlap(a: ZoneVertex[], b: ZoneVertex[]): boolean {
+  if (a.some((v) => isInsideBoundary(v, b)) || b.some((v) => isInsideBoundary(v, a))) {
+    return true;
+  }
+  return edges(a).some(([p, q]) => edges(b).some(([r, s]) => segmentsCross(p, q, r, s)));
+}
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+function isVertex(value: unknown): value is ZoneVertex {
+  const v = value as ZoneVertex | null;
+  return (
+    !!v &&
+    typeof v.lat === 'number' &&
+    typeof v.lng === 'number' &&
+    Math.abs(v.lat) <= 90 &&
+    Math.abs(v.lng) <= 180
+  );
+}
+
+/**
+ * Validates a boundary drawn on the map. Returns the vertices rounded to
+ * about 10 cm, without a repeated closing vertex, or an error message.
+ */
+export function parseBoundary(value: unknown): { boundary: ZoneVertex[] } | { error: string } {
+  if (!Array.isArray(value) || !value.every(isVertex)) {
+    return { error: 'boundary must be a list of { lat, lng } points.' };
+  }
+  const boundary = value.map((v) => ({
+    lat: Math.round(v.lat * 1e6) / 1e6,
+    lng: Math.round(v.lng * 1e6) / 1e6,
+  }));
+  const first = boundary[0];
+  const last = boundary[boundary.length - 1];
+  if (boundary.length > 1 && first.lat === last.lat && first.lng === last.lng) boundary.pop();
+
+  if (boundary.length < 3) {
+    return { error: 'A zone boundary needs at least 3 points.' };
+  }
+  if (boundary.length > MAX_BOUNDARY_VERTICES) {
+    return { error: `A zone boundary can have at most ${MAX_BOUNDARY_VERTICES} points.` };
+  }
+  if (selfIntersects(boundary)) {
+    return { error: 'The zone boundary crosses itself.' };
+  }
+  if (boundaryAreaKm2(boundary) < 0.001) {
+    return { error: 'The zone boundary encloses no area.' };
+  }
+  return { boundary };
+}
+
+// ---------------------------------------------------------------------------
+// Resolution
+// ---------------------------------------------------------------------------
+
+/** Orders zones so the one that should price an overlap comes first. */
+function byPrecedence(a: PricingZone, b: PricingZone): number {
+  return (
+    (b.priority ?? 0) - (a.priority ?? 0) ||
+    boundaryAreaKm2(a.boundary ?? []) - boundaryAreaKm2(b.boundary ?? []) ||
+    a.id.localeCompare(b.id)
+  );
+}
+
+/** Zones whose boundary contains `point`, the winning zone first. */
+export function zonesAt(zones: PricingZone[], point: ZoneVertex): PricingZone[] {
+  return zones
+    .filter((zone) => (zone.boundary?.length ?? 0) >= 3 && isInsideBoundary(point, zone.boundary!))
+    .sort(byPrecedence);
+}
+
+/** The zone that prices points inside no boundary. */
+export function defaultZone(zones: PricingZone[]): PricingZone {
+  const [zone] = zones.filter((z) => z.isDefault).sort(byPrecedence);
+  return zone ? resolveZone(zone) : DEFAULT_ZONE;
+}
+
+/** The zone that prices a delivery to `point`. */
+export function zoneForLocation(zones: PricingZone[], point: ZoneVertex): PricingZone {
+  const [zone] = zonesAt(zones, point);
+  return zone ? resolveZone(zone) : defaultZone(zones);
+}
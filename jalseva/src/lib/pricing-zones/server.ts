@@ -0,0 +1,64 @@
+// =============================================================================
+// JalSeva - Pricing Zone Loader (Server-Side)
+// =============================================================================
+// Loads every pricing zone once per cache TTL and resolves a delivery
+// location to the zone that prices it (see './index' for the rules). The
+// zone list sits in the L1 hot cache like single zone documents do; writes
+// through POST /api/pricing invalidate both. Without Firebase Admin
+// credentials zones come from the demo store.
+// =============================================================================
+
+import { hotCache, cacheAside, type LRUCache } from '@/lib/cache';
+import { firestoreBreaker } from '@/lib/circuit-breaker';
+import * as store from '@/lib/demo-store';
+import { resolveZone } from '@/lib/pricing';
+import type { PricingZone, ZoneVertex } from '@/types';
+import { zoneForLocation } from './index';
+
+const ZONES_CACHE_KEY = 'pricing_zones:all';
+
+function hasAdminCredentials(): boolean {
+  return !!(
+    process.env.FIREBASE_ADMIN_CLIENT_EMAIL &&
+    process.env.FIREBASE_ADMIN_PRIVATE_KEY
+  );
+}
+
+async function getAdminDb() {
+  const { adminDb } = await import('@/lib/firebase-admin');
+  return adminDb;
+}
+
+/** Every configured pricing zone, merged over the defaults. */
+export async function listPricingZones(): Promise<PricingZone[]> {
+  if (!hasAdminCredentials()) return store.listPricingZones().map((zone) => resolveZone(zone));
+
+  const zones = await cacheAside<PricingZone[] | null>(
+    hotCache as LRUCache<PricingZone[] | null>,
+    ZONES_CACHE_KEY,
+    async () => {
+      const adminDb = await getAdminDb();
+      const snapshot = await firestoreBreaker.execute(
+        () => adminDb.collection('pricing_zones').get(),
+        () => null
+      );
+      if (!snapshot) return null;
+      return snapshot.docs.map((doc) =>
+        resolveZone({ ...(doc.data() as Partial<PricingZone>), id: doc.id })
+      );
+    },
+    120 // same TTL as single zone documents
+  );
+  return zones ?? [];
+}
+
+/** The zone that prices a delivery to `location`. */
+export async function findPricingZone(location: ZoneVertex): Promise<PricingZone> {
+  return zoneForLocation(await listPricingZones(), location);
+}
+
+/** Drops cached copies of a zone after it is written or deleted. */
+export function invalidatePricingZone(zoneId: string): void {
+  hotCache.delete(`pricing_zone:${zoneId}`);
+  hotCache.delete(ZONES_CACHE_KEY);
+}
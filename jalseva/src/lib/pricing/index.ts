@@ -0,0 +1,243 @@
+// =============================================================================
+// JalSeva - Unified Pricing Engine
+// =============================================================================
+// The single source of truth for what a delivery costs. Every surface that
+// shows or charges a price (booking screen, POST /api/orders, GET
+// /api/pricing, subscriptions, Beckn select/init/confirm) goes through
+// calculateOrderPrice() so the quote a customer sees is the amount they pay.
+//
+// Pricing formula (version PRICING_VERSION):
+//   base        = zone.basePrice[waterType]              (flat, per delivery)
+//   distance    = distanceKm * zone.perKmRate * units    (units = litres / 20)
+//   surge       = (base + distance) * (multiplier - 1)   (demand level, capped)
+//   discount    = (base + distance + surge) * discount%  (e.g. subscriptions)
+//   total       = base + distance + surge - discount
+//   commission  = total * settings.commissionPercent / 100
+//
+// Every step is recorded as a PriceRuleLine in OrderPrice.trace so support
+// and audits can see exactly which rule produced which rupee. Bump
+// PRICING_VERSION whenever the formula changes.
+//
+// This module is pure (no Firestore / Redis) so it can run on the client
+// for estimates. Server-side context loading lives in ./server.ts.
+// =============================================================================
+
+import type {
+  AdminSettings,
+  DemandLevel,
+  OrderPrice,
+  PriceRuleLine,
+  PricingZone,
+  WaterType,
+} from '@/types';
+
+// ---------------------------------------------------------------------------
+// Defaults
+// ---------------------------------------------------------------------------
+
+export const PRICING_VERSION = '2026-10.2';
+
+/** Litres per distance-charge unit (one standard 20L can). */
+export const LITRES_PER_UNIT = 20;
+
+/** Distance assumed when no supplier distance is known yet. */
+export const DEFAULT_DISTANCE_KM = 5;
+
+export const DEFAULT_ZONE: PricingZone = {
+  id: 'default',
+  name: 'Default',
+  basePrice: {
+    ro: 150,
+    mineral: 200,
+    tanker: 500,
+  },
+  perKmRate: 15,
+  surgeMultiplier: 1.8,
+  demandLevel: 'normal',
+};
+
+export const DEFAULT_ADMIN_SETTINGS: AdminSettings = {
+  commissionPercent: 15,
+  maxDeliveryRadius: 25,
+  defaultLanguage: 'en',
+};
+
+/** Surge cap used when AdminSettings.maxSurgeMultiplier is not set. */
+export const DEFAULT_MAX_SURGE_MULTIPLIER = 2.5;
+
+/**
+ * Demand-level multipliers. The 'surge' level uses the zone's configured
+ * surgeMultiplier so admins can tune peak pricing per zone.
+ */
+export const SURGE_MULTIPLIERS: Record<DemandLevel, number> = {
+  low: 0.9,
+  normal: 1.0,
+  high: 1.3,
+  surge: 1.8,
+};
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface PricingInput {
+  waterType: WaterType;
+  quantityLitres: number;
+  distanceKm?: number;
+  zone?: Partial<PricingZone> | null;
+  settings?: Partial<AdminSettings> | null;
+  /** Real-time demand level. Falls back to the zone's stored level. */
+  demandLevel?: DemandLevel | null;
+  /** Percentage discount applied after surge (e.g. 10 for subscriptions). */
+  discountPercent?: number;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Merges a (possibly partial) zone document over DEFAULT_ZONE. Missing or
+ * zero base prices fall back per water type.
+ */
+export function resolveZone(zone?: Partial<PricingZone> | null): PricingZone {
+  if (!zone) return DEFAULT_ZONE;
+  const basePrice = { ...DEFAULT_ZONE.basePrice };
+  for (const wt of Object.keys(basePrice) as WaterType[]) {
+    const v = zone.basePrice?.[wt];
+    if (typeof v === 'number' && v > 0) basePrice[wt] = v;
+  }
+  return {
+    id: zone.id || DEFAULT_ZONE.id,
+    name: zone.name || DEFAULT_ZONE.name,
+    basePrice,
+    perKmRate:
+      typeof zone.perKmRate === 'number' && zone.perKmRate >= 0
+        ? zone.perKmRate
+        : DEFAULT_ZONE.perKmRate,
+    surgeMultiplier: zone.surgeMultiplier || DEFAULT_ZONE.surgeMultiplier,
+    demandLevel: zone.demandLevel || DEFAULT_ZONE.demandLevel,
+    ...(Array.isArray(zone.boundary) ? { boundary: zone.boundary } : {}),
+    ...(typeof zone.priority === 'number' ? { priority: zone.priority } : {}),
+    ...(zone.isDefault ? { isDefault: true } : {}),
+  };
+}
+
+/** Returns the multiplier applied for a demand level in a zone. */
+export function getSurgeMultiplier(
+  demandLevel: DemandLevel,
+  zone: PricingZone = DEFAULT_ZONE
+): number {
+  if (demandLevel === 'surge') return zone.surgeMultiplier;
+  return SURGE_MULTIPLIERS[demandLevel] ?? 1.0;
+}
+
+// ---------------------------------------------------------------------------
+// calculateOrderPrice
+// ---------------------------------------------------------------------------
+
+/**
+ * Calculates the price of a delivery and returns an itemized, versioned
+ * rule trace alongside the OrderPrice totals.
+ *
+ * Invariant: commission + supplierEarning === total.
+ */
+export function calculateOrderPrice(input: PricingInput): OrderPrice {
+  const zone = resolveZone(input.zone);
+  const commissionPercent =
+    input.settings?.commissionPercent ?? DEFAULT_ADMIN_SETTINGS.commissionPercent;
+  const demandLevel = input.demandLevel || zone.demandLevel;
+  const uncappedMultiplier = getSurgeMultiplier(demandLevel, zone);
+  const surgeCap = Math.max(
+    1,
+    input.settings?.maxSurgeMultiplier ?? DEFAULT_MAX_SURGE_MULTIPLIER
+  );
+  const surgeMultiplier = Math.min(uncappedMultiplier, surgeCap);
+  const distanceKm = Math.max(0, input.distanceKm ?? DEFAULT_DISTANCE_KM);
+  const units = input.quantityLitres / LITRES_PER_UNIT;
+
+  const base = zone.basePrice[input.waterType];
+  const distanceCharge = distanceKm * zone.perKmRate * units;
+  const subtotal = (base + distanceCharge) * surgeMultiplier;
+  const surgeAmount = subtotal - base - distanceCharge;
+  const discountPercent = Math.min(100, Math.max(0, input.discountPercent ?? 0));
+  const discountAmount = Math.round(subtotal * (discountPercent / 100));
+
+  const total = Math.round(subtotal) - discountAmount;
+  const commission = Math.round(total * (commissionPercent / 100));
+  const supplierEarning = total - commission;
+
+  const lines: PriceRuleLine[] = [
+    {
+      rule: 'base',
+      label: 'Base Price',
+      amount: base,
+      detail: `${input.waterType} @ zone ${zone.id}`,
+    },
+    {
+      rule: 'distance',
+      label: 'Distance Charge',
+      amount: Math.round(distanceCharge),
+      detail: `${distanceKm} km x ₹${zone.perKmRate}/km x ${units} units`,
+    },
+    {
+      rule: 'surge',
+      label: 'Surge',
+      amount: Math.round(surgeAmount),
+      detail:
+        surgeMultiplier < uncappedMultiplier
+          ? `${demandLevel} demand x${surgeMultiplier} (capped from x${uncappedMultiplier})`
+          : `${demandLevel} demand x${surgeMultiplier}`,
+    },
+  ];
+  if (discountAmount > 0) {
+    lines.push({
+      rule: 'discount',
+      label: 'Discount',
+      amount: -discountAmount,
+      detail: `${discountPercent}% off`,
+    });
+  }
+
+  const price: OrderPrice = {
+    base,
+    distance: Math.round(distanceCharge),
+    surge: Math.round(surgeAmount),
+    total,
+    commission,
+    supplierEarning,
+    trace: {
+      version: PRICING_VERSION,
+      zoneId: zone.id,
+      demandLevel,
+      surgeMultiplier,
+      commissionPercent,
+      lines,
+    },
+  };
+  if (discountAmount > 0) price.discount = discountAmount;
+  return price;
+}
+
+// ---------------------------------------------------------------------------
+// Beckn quote helper
+// ---------------------------------------------------------------------------
+
+/**
+ * Converts an OrderPrice into a Beckn quote object (price + breakup) so
+ * select, init and confirm all quote from the same trace.
+ */
+export function toBecknQuote(price: OrderPrice) {
+  const lines = price.trace?.lines ?? [
+    { rule: 'base', label: 'Base Price', amount: price.base },
+    { rule: 'distance', label: 'Distance Charge', amount: price.distance },
+    { rule: 'surge', label: 'Surge', amount: price.surge },
+  ];
+  return {
+    price: { currency: 'INR', value: price.total.toFixed(2) },
+    breakup: lines.map((line) => ({
+      title: line.label,
+      price: { currency: 'INR', value: line.amount.toFixed(2) },
+    })),
+  };
+}
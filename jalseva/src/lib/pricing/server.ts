@@ -0,0 +1,144 @@
+// =============================================================================
+// JalSeva - Pricing Context Loader (Server-Side)
+// =============================================================================
+// Resolves the inputs of the pricing engine for a request: the zone's
+// pricing document (by id, or the zone whose boundary contains the delivery
+// location - see '@/lib/pricing-zones'), the admin settings (commission) and
+// the live demand level. Reads go through the L1 hot cache, then Firestore /
+// Redis with the same circuit-breaker and timeout guards the routes already
+// use. Without Firebase Admin credentials (demo mode) zones come from the
+// demo store and everything else is the defaults, so the demo quotes exactly
+// what the engine quotes on the client.
+// =============================================================================
+
+import { hotCache, cacheAside, type LRUCache } from '@/lib/cache';
+import { firestoreBreaker } from '@/lib/circuit-breaker';
+import * as store from '@/lib/demo-store';
+import { getDemandLevel } from '@/lib/redis';
+import { findPricingZone } from '@/lib/pricing-zones/server';
+import type { AdminSettings, DemandLevel, PricingZone, ZoneVertex } from '@/types';
+import {
+  DEFAULT_ADMIN_SETTINGS,
+  DEFAULT_ZONE,
+  resolveZone,
+  calculateOrderPrice,
+  type PricingInput,
+} from './index';
+
+export interface PricingContext {
+  zone: PricingZone;
+  settings: AdminSettings;
+  demandLevel: DemandLevel;
+}
+
+/** A pricing zone id, or a delivery location to find the zone of. */
+export type ZoneRef = string | ZoneVertex;
+
+function hasAdminCredentials(): boolean {
+  return !!(
+    process.env.FIREBASE_ADMIN_CLIENT_EMAIL &&
+    process.env.FIREBASE_ADMIN_PRIVATE_KEY
+  );
+}
+
+async function getAdminDb() {
+  const { adminDb } = await import('@/lib/firebase-admin');
+  return adminDb;
+}
+
+async function loadZone(zoneId: string): Promise<PricingZone> {
+  if (!hasAdminCredentials()) return resolveZone({ ...store.getPricingZone(zoneId), id: zoneId });
+
+  const data = await cacheAside<Record<string, unknown> | null>(
+    hotCache as LRUCache<Record<string, unknown> | null>,
+    `pricing_zone:${zoneId}`,
+    async () => {
+      const adminDb = await getAdminDb();
+      const zoneDoc = await firestoreBreaker.execute(
+        () => adminDb.collection('pricing_zones').doc(zoneId).get(),
+        () => null
+      );
+      if (zoneDoc?.exists) return zoneDoc.data() as Record<string, unknown>;
+      return null;
+    },
+    120 // 2 minute TTL for zone pricing
+  );
+
+  return resolveZone({ ...(data as Partial<PricingZone> | null), id: zoneId });
+}
+
+/**
+ * Loads the admin settings document (commission, surge thresholds, delivery
+ * radius), falling back to the defaults.
+ */
+export async function loadAdminSettings(): Promise<AdminSettings> {
+  if (!hasAdminCredentials()) return DEFAULT_ADMIN_SETTINGS;
+
+  const data = await cacheAside<Record<string, unknown> | null>(
+    hotCache as LRUCache<Record<string, unknown> | null>,
+    'config:adminSettings',
+    async () => {
+      const adminDb = await getAdminDb();
+      const settingsDoc = await firestoreBreaker.execute(
+        () => adminDb.collection('config').doc('adminSettings').get(),
+        () => null
+      );
+      if (settingsDoc?.exists) return settingsDoc.data() as Record<string, unknown>;
+      return null;
+    },
+    120
+  );
+
+  return { ...DEFAULT_ADMIN_SETTINGS, ...(data as Partial<AdminSettings> | null) };
+}
+
+async function loadDemandLevel(zoneId: string): Promise<DemandLevel | null> {
+  // L1 cache first, then Redis with a 200ms budget
+  const cacheKey = `demand:${zoneId}`;
+  const cached = hotCache.get(cacheKey) as DemandLevel | undefined;
+  if (cached) return cached;
+
+  try {
+    const level = await Promise.race([
+      getDemandLevel(zoneId),
+      new Promise<null>((resolve) => setTimeout(() => resolve(null), 200)),
+    ]);
+    if (level) hotCache.set(cacheKey, level, 60);
+    return level;
+  } catch {
+    // Redis unavailable - fall back to the zone's stored level
+    return null;
+  }
+}
+
+/**
+ * Loads everything calculateOrderPrice() needs for a zone.
+ *
+ * @param where - Pricing zone id, or the delivery location to resolve to a
+ *   zone. Defaults to 'default'.
+ */
+export async function loadPricingContext(
+  where: ZoneRef = DEFAULT_ZONE.id
+): Promise<PricingContext> {
+  const zoneLoad = typeof where === 'string' ? loadZone(where) : findPricingZone(where);
+  const [zone, settings, liveDemand] = await Promise.all([
+    zoneLoad,
+    loadAdminSettings(),
+    zoneLoad.then((z) => loadDemandLevel(z.id)),
+  ]);
+  return { zone, settings, demandLevel: liveDemand || zone.demandLevel };
+}
+
+/**
+ * Convenience wrapper: load the zone context and price an order in one call.
+ */
+export async function quoteOrder(
+  input: Omit<PricingInput, 'zone' | 'settings' | 'demandLevel'>,
+  where?: ZoneRef
+) {
+  const context = await loadPricingContext(where);
+  return {
+    context,
+    price: calculateOrderPrice({ ...input, ...context }),
+  };
+}
@@ -0,0 +1,93 @@
+// =============================================================================
+// JalSeva - Private File Storage (Server-Side)
+// =============================================================================
+// Files that must never be public (delivery photos, complaint attachments,
+// KYC documents and lab certificates).
+// They go to Firebase Storage (adminStorage) when admin credentials and a
+// bucket are configured, else to a local directory (PRIVATE_FILES_DIR,
+// default the OS temp dir) for dev and the demo. Callers serve them through
+// access-checked API routes.
+// =============================================================================
+
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { sniffImageType } from '@/lib/delivery-proof';
+
+function hasAdminCredentials(): boolean {
+  return !!(
+    process.env.FIREBASE_ADMIN_CLIENT_EMAIL &&
+    process.env.FIREBASE_ADMIN_PRIVATE_KEY
+  );
+}
+
+export interface PrivateStorage {
+  put(path: string, bytes: Uint8Array, contentType: string): Promise<void>;
+  get(path: string): Promise<Uint8Array | null>;
+}
+
+const firebaseStorage: PrivateStorage = {
+  async put(path, bytes, contentType) {
+    const { adminStorage } = await import('@/lib/firebase-admin');
+    await adminStorage.bucket().file(path).save(Buffer.from(bytes), {
+      contentType,
+      resumable: false,
+      metadata: { cacheControl: 'private, max-age=86400' },
+    });
+  },
+  async get(path) {
+    const { adminStorage } = await import('@/lib/firebase-admin');
+    const file = adminStorage.bucket().file(path);
+    const [exists] = await file.exists();
+    if (!exists) return null;
+    const [contents] = await file.download();
+    return contents;
+  },
+};
+
+function localRoot(): string {
+  return process.env.PRIVATE_FILES_DIR || join(tmpdir(), 'jalseva-private-files');
+}
+
+const diskStorage: PrivateStorage = {
+  async put(path, bytes) {
+    const file = join(localRoot(), path);
+    await mkdir(dirname(file), { recursive: true });
+    await writeFile(file, bytes);
+  },
+  async get(path) {
+    try {
+      return await readFile(join(localRoot(), path));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw err;
+    }
+  },
+};
+
+/** The active backend: Firebase Storage when configured, local disk otherwise. */
+export function privateStorage(): PrivateStorage {
+  return hasAdminCredentials() && process.env.FIREBASE_ADMIN_STORAGE_BUCKET
+    ? firebaseStorage
+    : diskStorage;
+}
+
+export const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
+
+/** Scanned documents and certificates: a PDF or a photo. */
+export const DOCUMENT_EXTENSIONS: Record<string, string> = {
+  ...IMAGE_EXTENSIONS,
+  'application/pdf': 'pdf',
+};
+
+/** A document's content type from its magic bytes; the declared type is not trusted. */
+export function sniffDocumentType(bytes: Uint8Array): string | null {
+  if (bytes.length >= 5 && String.fromCharCode(...bytes.subarray(0, 5)) === '%PDF-') {
+    return 'application/pdf';
+  }
+  return sniffImageType(bytes);
+}
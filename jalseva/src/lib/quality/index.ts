@@ -0,0 +1,291 @@
+// =============================================================================
+// JalSeva - Water Quality Score
+// =============================================================================
+// A supplier's 0-100 quality score is a composite of FSSAI compliance, the
+// freshness and readings of their latest water test, and their customer
+// rating. It is stored on Supplier.qualityScore and recalculated when a new
+// report is submitted (/api/quality) or the supplier's rating changes
+// ('@/lib/ratings/server').
+//
+// Every report is kept (quality_reports) for trend charts. The latest report
+// decides the supplier's QualityStatus: readings outside QUALITY_RANGES make
+// it unsafe, and after REPORT_VALID_DAYS it expires. Either suspends the
+// supplier's water types until a safe report comes in.
+//
+// Suppliers upload the lab certificate with each report. An admin checks it
+// and that the lab is on the accredited registry before marking the report
+// verified; until then it earns no FSSAI or freshness points and a safe
+// reading does not lift a suspension.
+//
+// Pure rules; storage lives in './server'.
+// =============================================================================
+
+import type {
+  AccreditedLab,
+  CertificateVerification,
+  QualityAlert,
+  QualityStatus,
+  QualitySuspension,
+  Supplier,
+  WaterQualityReport,
+  WaterType,
+} from '@/types';
+
+export type QualityBadge = 'premium' | 'verified' | 'basic';
+
+/** Safe ranges: pH per WHO, TDS per BIS (acceptable, not ideal). */
+export const QUALITY_RANGES = {
+  ph: { min: 6.5, max: 8.5 },
+  tds: { min: 50, max: 500 },
+} as const;
+
+/** A report older than this no longer counts; the score gives it no freshness points. */
+export const REPORT_VALID_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface QualityScoreInput {
+  fssaiCompliant: boolean;
+  ph: number;
+  tds: number;
+  testedAt: string | Date;
+  /** The supplier's smoothed rating score (or average), 0-5. */
+  supplierRating: number;
+  /** Customers' recent spot-check readings (Supplier.spotChecks.recent). */
+  spotChecks?: { ph?: number; tds?: number }[];
+  /** The certificate review; only a verified report earns FSSAI and freshness points. */
+  verification?: Pick<CertificateVerification, 'status'>;
+}
+
+/**
+ * Customer spot checks earn up to this share of the pH and TDS points,
+ * reached at SPOT_CHECK_FULL_WEIGHT readings; the lab report keeps the rest.
+ */
+export const SPOT_CHECK_MAX_SHARE = 0.5;
+export const SPOT_CHECK_FULL_WEIGHT = 10;
+
+// Quality score factors (0-100):
+// - FSSAI compliance: 30 points
+// - Water test report freshness (< 30 days): 25 points
+//   (both only once an admin has verified the certificate)
+// - pH in safe range (6.5-8.5): 15 points
+// - TDS in safe range (50-500 ppm): 15 points
+//   (both partly from customers' spot-check readings, when there are any)
+// - Customer rating (4.0+): 15 points
+export function calculateQualityScore(report: QualityScoreInput, now: Date = new Date()): number {
+  let score = 0;
+
+  if (isCertificateVerified(report)) {
+    // FSSAI compliance (30 points)
+    if (report.fssaiCompliant) score += 30;
+
+    // Test report freshness (25 points)
+    const daysSinceTest = Math.floor(
+      (now.getTime() - new Date(report.testedAt).getTime()) / DAY_MS
+    );
+    if (daysSinceTest <= 7) score += 25;
+    else if (daysSinceTest <= 30) score += 20;
+    else if (daysSinceTest <= REPORT_VALID_DAYS) score += 10;
+  }
+
+  // pH range (15 points) and TDS range (15 points)
+  const spotChecks = report.spotChecks ?? [];
+  score += blendWithSpotChecks(phPoints(report.ph), spotChecks.map((r) => r.ph), phPoints);
+  score += blendWithSpotChecks(tdsPoints(report.tds), spotChecks.map((r) => r.tds), tdsPoints);
+
+  // Customer rating (15 points)
+  if (report.supplierRating >= 4.5) score += 15;
+  else if (report.supplierRating >= 4.0) score += 12;
+  else if (report.supplierRating >= 3.5) score += 8;
+  else if (report.supplierRating >= 3.0) score += 4;
+
+  return Math.min(Math.round(score), 100);
+}
+
+// WHO: 6.5-8.5 is safe
+function phPoints(ph: number): number {
+  if (inRange('ph', ph)) return 15;
+  if (ph >= 6.0 && ph <= 9.0) return 8;
+  return 0;
+}
+
+// BIS: 50-500 ppm acceptable, <300 ideal
+function tdsPoints(tds: number): number {
+  if (tds >= 50 && tds <= 300) return 15;
+  if (inRange('tds', tds)) return 10;
+  if (tds < 50) return 5; // too pure, may indicate issues
+  return 0;
+}
+
+function blendWithSpotChecks(
+  labPoints: number,
+  readings: (number | undefined)[],
+  points: (value: number) => number
+): number {
+  const values = readings.filter((v): v is number => typeof v === 'number');
+  if (values.length === 0) return labPoints;
+  const customerPoints = values.reduce((sum, v) => sum + points(v), 0) / values.length;
+  const share = SPOT_CHECK_MAX_SHARE * Math.min(values.length / SPOT_CHECK_FULL_WEIGHT, 1);
+  return labPoints * (1 - share) + customerPoints * share;
+}
+
+export function qualityBadge(score: number): QualityBadge {
+  return score >= 80 ? 'premium' : score >= 60 ? 'verified' : 'basic';
+}
+
+// ---------------------------------------------------------------------------
+// Certificate verification
+// ---------------------------------------------------------------------------
+
+/** Largest certificate upload accepted. */
+export const MAX_CERTIFICATE_BYTES = 10 * 1024 * 1024;
+
+export function isCertificateVerified(report: {
+  verification?: Pick<CertificateVerification, 'status'>;
+}): boolean {
+  return report.verification?.status === 'verified';
+}
+
+/** Lab names as compared with the registry: case, punctuation and spacing ignored. */
+export function normalizeLabName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/** The registry entry a report's lab name refers to, if it is accredited. */
+export function findAccreditedLab<T extends Pick<AccreditedLab, 'name'>>(
+  labs: T[],
+  labName: string
+): T | null {
+  const wanted = normalizeLabName(labName);
+  if (!wanted) return null;
+  return labs.find((lab) => normalizeLabName(lab.name) === wanted) ?? null;
+}
+
+// ---------------------------------------------------------------------------
+// Status and alerts
+// ---------------------------------------------------------------------------
+
+type Reading = Pick<WaterQualityReport, 'ph' | 'tds' | 'testedAt'>;
+
+export function inRange(param: keyof typeof QUALITY_RANGES, value: number): boolean {
+  const { min, max } = QUALITY_RANGES[param];
+  return value >= min && value <= max;
+}
+
+export function isReportExpired(report: Pick<WaterQualityReport, 'testedAt'>, now: Date = new Date()): boolean {
+  return Math.floor((now.getTime() - new Date(report.testedAt).getTime()) / DAY_MS) > REPORT_VALID_DAYS;
+}
+
+/** The status the supplier's latest report gives them. */
+export function reportStatus(report: Reading | undefined, now: Date = new Date()): QualityStatus {
+  if (!report) return 'missing';
+  if (!inRange('ph', report.ph) || !inRange('tds', report.tds)) return 'unsafe';
+  return isReportExpired(report, now) ? 'expired' : 'safe';
+}
+
+const PARAM_LABELS = { ph: 'pH', tds: 'TDS' } as const;
+
+/**
+ * Alerts for a report: each reading outside its safe range, noting when the
+ * previous report still had it in range (a drift rather than a known issue).
+ */
+export function reportAlerts(report: Reading, previous?: Reading, now: Date = new Date()): QualityAlert[] {
+  const alerts: QualityAlert[] = [];
+  for (const param of ['ph', 'tds'] as const) {
+    const value = report[param];
+    if (inRange(param, value)) continue;
+    const { min, max } = QUALITY_RANGES[param];
+    const unit = param === 'tds' ? ' ppm' : '';
+    const drifted = previous !== undefined && inRange(param, previous[param]);
+    alerts.push({
+      kind: param === 'ph' ? 'ph_out_of_range' : 'tds_out_of_range',
+      message: drifted
+        ? `${PARAM_LABELS[param]} drifted to ${value}${unit} (was ${previous[param]}${unit}); safe range is ${min}-${max}${unit}.`
+        : `${PARAM_LABELS[param]} is ${value}${unit}; safe range is ${min}-${max}${unit}.`,
+      value,
+      ...(drifted ? { previousValue: previous[param] } : {}),
+    });
+  }
+  if (isReportExpired(report, now)) {
+    alerts.push({
+      kind: 'report_expired',
+      message: `Water test is more than ${REPORT_VALID_DAYS} days old.`,
+    });
+  }
+  return alerts;
+}
+
+// ---------------------------------------------------------------------------
+// Trend
+// ---------------------------------------------------------------------------
+
+export interface QualityTrendPoint {
+  testedAt: Date;
+  ph: number;
+  tds: number;
+  phInRange: boolean;
+  tdsInRange: boolean;
+}
+
+/** Reports as chart points, oldest first. */
+export function qualityTrend(reports: Reading[]): QualityTrendPoint[] {
+  return reports
+    .map((report) => ({
+      testedAt: new Date(report.testedAt),
+      ph: report.ph,
+      tds: report.tds,
+      phInRange: inRange('ph', report.ph),
+      tdsInRange: inRange('tds', report.tds),
+    }))
+    .sort((a, b) => a.testedAt.getTime() - b.testedAt.getTime());
+}
+
+// ---------------------------------------------------------------------------
+// Suspension
+// ---------------------------------------------------------------------------
+
+export interface SuspensionChange {
+  waterTypes: WaterType[];
+  qualitySuspension: QualitySuspension | null;
+}
+
+/**
+ * How the supplier's offerings change for a status: unsafe or expired
+ * suspends every water type on sale, safe restores the suspended ones.
+ * Null when nothing changes (including a supplier with no report yet).
+ */
+export function planSuspension(
+  supplier: Pick<Supplier, 'waterTypes' | 'qualitySuspension'>,
+  status: QualityStatus,
+  now: Date = new Date(),
+  reportId?: string
+): SuspensionChange | null {
+  const current = supplier.qualitySuspension;
+
+  if (status === 'safe') {
+    if (!current) return null;
+    return {
+      waterTypes: [...new Set([...supplier.waterTypes, ...current.waterTypes])],
+      qualitySuspension: null,
+    };
+  }
+
+  if (status === 'unsafe' || status === 'expired') {
+    if (current && current.reason === status && supplier.waterTypes.length === 0) return null;
+    const suspendedBy = reportId ?? current?.reportId;
+    return {
+      waterTypes: [],
+      qualitySuspension: {
+        waterTypes: [...new Set([...(current?.waterTypes ?? []), ...supplier.waterTypes])],
+        reason: status,
+        since: current?.since ?? now,
+        ...(suspendedBy ? { reportId: suspendedBy } : {}),
+      },
+    };
+  }
+
+  return null;
+}
@@ -0,0 +1,635 @@
+// =============================================================================
+// JalSeva - Water Quality Reports (Server-Side)
+// =============================================================================
+// Stores every report a supplier submits in quality_reports, keeps
+// Supplier.waterQualityReport / qualityScore on the latest one, and
+// suspends or restores the supplier's water types from its status.
+//
+// Reports expire without anything being submitted, so sweepExpiredReports()
+// is run on a schedule (POST /api/quality/sweep) to suspend suppliers whose
+// latest test has gone stale.
+//
+// Each report's certificate is stored privately and queued for an admin
+// (listCertificateQueue / reviewQualityReport). Labs are matched against
+// the accredited_labs registry, which admins maintain. Admins are
+// recognised by their user record ('@/lib/auth/server').
+// =============================================================================
+
+import { isAdmin } from '@/lib/auth/server';
+import { firestoreBreaker } from '@/lib/circuit-breaker';
+import * as store from '@/lib/demo-store';
+import { supplierIndex } from '@/lib/geohash';
+import { DOCUMENT_EXTENSIONS, privateStorage, sniffDocumentType } from '@/lib/private-storage';
+import { rankingRating } from '@/lib/ratings';
+import { withMismatch } from '@/lib/spot-check';
+import type {
+  AccreditedLab,
+  CertificateVerification,
+  QualityAlert,
+  QualityReportRecord,
+  QualityStatus,
+  QualitySuspension,
+  Supplier,
+  SupplierSpotChecks,
+  WaterQualityReport,
+} from '@/types';
+import {
+  type QualityTrendPoint,
+  type SuspensionChange,
+  MAX_CERTIFICATE_BYTES,
+  REPORT_VALID_DAYS,
+  calculateQualityScore,
+  findAccreditedLab,
+  isCertificateVerified,
+  normalizeLabName,
+  planSuspension,
+  qualityTrend,
+  reportAlerts,
+  reportStatus,
+} from './index';
+
+// ---------------------------------------------------------------------------
+// Firebase Admin - lazy import
+// ---------------------------------------------------------------------------
+
+function hasAdminCredentials(): boolean {
+  return !!(
+    process.env.FIREBASE_ADMIN_CLIENT_EMAIL &&
+    process.env.FIREBASE_ADMIN_PRIVATE_KEY
+  );
+}
+
+async function getAdminDb() {
+  const { adminDb } = await import('@/lib/firebase-admin');
+  return adminDb;
+}
+
+function toStored(value: Record<string, unknown>): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  for (const [key, field] of Object.entries(value)) {
+    if (field === undefined) continue;
+    out[key] = field instanceof Date ? field.toISOString() : field;
+  }
+  return out;
+}
+
+/** A report for Firestore, including the dates inside its verification. */
+function toStoredReport(report: WaterQualityReport): Record<string, unknown> {
+  return toStored({
+    ...report,
+    verification: report.verification ? toStored({ ...report.verification }) : undefined,
+  });
+}
+
+export interface QualityReportInput {
+  supplierId: string;
+  ph: unknown;
+  tds: unknown;
+  labName?: string;
+  certificateUrl?: string;
+  /** The lab certificate file (PDF, JPEG, PNG or WebP). */
+  certificate?: Uint8Array;
+  fssaiCompliant?: boolean;
+}
+
+export type QualityReportResult =
+  | {
+      success: true;
+      report: QualityReportRecord;
+      qualityScore: number;
+      suspension: QualitySuspension | null;
+    }
+  | { success: false; error: string; status: number };
+
+export interface QualityHistory {
+  supplierId: string;
+  reports: QualityReportRecord[];
+  trend: QualityTrendPoint[];
+  status: QualityStatus;
+  /** Alerts for the latest report, including expiry since it was filed. */
+  alerts: QualityAlert[];
+  qualityScore: number | null;
+  suspension: QualitySuspension | null;
+}
+
+// ---------------------------------------------------------------------------
+// Reads
+// ---------------------------------------------------------------------------
+
+async function loadSupplier(supplierId: string): Promise<Supplier | null> {
+  if (!hasAdminCredentials()) return store.getSupplier(supplierId);
+  const adminDb = await getAdminDb();
+  const snap = await firestoreBreaker.execute(() =>
+    adminDb.collection('suppliers').doc(supplierId).get()
+  );
+  return snap.exists ? ({ ...snap.data(), id: snap.id } as Supplier) : null;
+}
+
+/** A supplier's reports, most recently tested first. */
+export async function listQualityReports(
+  supplierId: string,
+  limit = 50
+): Promise<QualityReportRecord[]> {
+  if (!hasAdminCredentials()) return store.listQualityReports(supplierId).slice(0, limit);
+
+  // Filter only and sort in memory, so no composite index is needed.
+  const adminDb = await getAdminDb();
+  const snap = await firestoreBreaker.execute(() =>
+    adminDb.collection('quality_reports').where('supplierId', '==', supplierId).get()
+  );
+  return snap.docs
+    .map((doc) => ({ ...doc.data(), id: doc.id }) as QualityReportRecord)
+    .sort((a, b) => new Date(b.testedAt).getTime() - new Date(a.testedAt).getTime())
+    .slice(0, limit);
+}
+
+/** Report history, chart points and current status for one supplier. */
+export async function getQualityHistory(
+  supplierId: string,
+  now: Date = new Date()
+): Promise<QualityHistory> {
+  const [reports, supplier] = await Promise.all([
+    listQualityReports(supplierId),
+    loadSupplier(supplierId),
+  ]);
+  const [latest, previous] = reports;
+  return {
+    supplierId,
+    reports,
+    trend: qualityTrend(reports),
+    status: reportStatus(latest, now),
+    alerts: latest ? reportAlerts(latest, previous, now) : [],
+    qualityScore: supplier?.qualityScore ?? null,
+    suspension: supplier?.qualitySuspension ?? null,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Writes
+// ---------------------------------------------------------------------------
+
+function scoreReport(supplier: Supplier, reading: WaterQualityReport, now: Date): number {
+  return calculateQualityScore(
+    {
+      ...reading,
+      supplierRating: rankingRating(supplier.rating) ?? 0,
+      spotChecks: supplier.spotChecks?.recent,
+    },
+    now
+  );
+}
+
+interface SupplierQualityPatch {
+  waterQualityReport?: WaterQualityReport;
+  qualityScore?: number;
+  suspension?: SuspensionChange | null;
+  spotChecks?: SupplierSpotChecks;
+}
+
+/** Persists the supplier's quality fields and mirrors them into supplierIndex. */
+async function applySupplierQuality(supplier: Supplier, patch: SupplierQualityPatch): Promise<void> {
+  const { suspension } = patch;
+
+  if (!hasAdminCredentials()) {
+    const next: Supplier = { ...supplier };
+    if (patch.waterQualityReport) next.waterQualityReport = patch.waterQualityReport;
+    if (patch.qualityScore !== undefined) next.qualityScore = patch.qualityScore;
+    if (patch.spotChecks) next.spotChecks = patch.spotChecks;
+    if (suspension) {
+      next.waterTypes = suspension.waterTypes;
+      if (suspension.qualitySuspension) next.qualitySuspension = suspension.qualitySuspension;
+      else delete next.qualitySuspension;
+    }
+    store.upsertSupplier(next);
+  } else {
+    const { FieldValue } = await import('firebase-admin/firestore');
+    const adminDb = await getAdminDb();
+    const update: Record<string, unknown> = { updatedAt: new Date().toISOString() };
+    if (patch.waterQualityReport) update.waterQualityReport = toStoredReport(patch.waterQualityReport);
+    if (patch.qualityScore !== undefined) update.qualityScore = patch.qualityScore;
+    if (patch.spotChecks) {
+      update.spotChecks = {
+        recent: patch.spotChecks.recent.map((r) => toStored({ ...r })),
+        ...(patch.spotChecks.mismatch ? { mismatch: toStored({ ...patch.spotChecks.mismatch }) } : {}),
+      };
+    }
+    if (suspension) {
+      update.waterTypes = suspension.waterTypes;
+      update.qualitySuspension = suspension.qualitySuspension
+        ? toStored({ ...suspension.qualitySuspension })
+        : FieldValue.delete();
+    }
+    await firestoreBreaker.execute(() =>
+      adminDb.collection('suppliers').doc(supplier.id).update(update)
+    );
+  }
+
+  // Dispatch matches on the indexed waterTypes, so suspension takes effect at once
+  supplierIndex.patchOwner(supplier.id, {
+    ...(patch.qualityScore !== undefined ? { qualityScore: patch.qualityScore } : {}),
+    ...(suspension ? { waterTypes: suspension.waterTypes } : {}),
+  });
+}
+
+/**
+ * Records a lab report: stores it in the history, rescores the supplier and
+ * suspends their water types if it is unsafe (or restores them if it is
+ * safe again).
+ */
+export async function submitQualityReport(
+  input: QualityReportInput,
+  now: Date = new Date()
+): Promise<QualityReportResult> {
+  const { supplierId, ph, tds } = input;
+  const labName = input.labName?.trim();
+
+  if (!supplierId) {
+    return { success: false, error: 'supplierId is required.', status: 400 };
+  }
+  if (typeof ph !== 'number' || ph < 0 || ph > 14) {
+    return { success: false, error: 'pH must be a number between 0 and 14.', status: 400 };
+  }
+  if (typeof tds !== 'number' || tds < 0 || tds > 5000) {
+    return { success: false, error: 'TDS must be a number between 0 and 5000 ppm.', status: 400 };
+  }
+  if (!labName) {
+    return { success: false, error: 'labName is required.', status: 400 };
+  }
+
+  const supplier = await loadSupplier(supplierId);
+  if (!supplier) return { success: false, error: 'Supplier not found.', status: 404 };
+
+  const { certificate } = input;
+  let certificateType: string | null = null;
+  if (certificate) {
+    if (certificate.byteLength === 0 || certificate.byteLength > MAX_CERTIFICATE_BYTES) {
+      return {
+        success: false,
+        error: `The certificate must be under ${MAX_CERTIFICATE_BYTES / (1024 * 1024)} MB.`,
+        status: 413,
+      };
+    }
+    certificateType = sniffDocumentType(certificate);
+    if (!certificateType) {
+      return { success: false, error: 'The certificate must be a PDF, JPEG, PNG or WebP file.', status: 415 };
+    }
+  }
+
+  const [previous] = await listQualityReports(supplierId, 1);
+  const id = hasAdminCredentials()
+    ? (await getAdminDb()).collection('quality_reports').doc().id
+    : `qr_${crypto.randomUUID().replace(/-/g, '').slice(0, 12)}`;
+
+  let certificatePath: string | undefined;
+  if (certificate && certificateType) {
+    certificatePath = `quality/${supplierId}/${id}.${DOCUMENT_EXTENSIONS[certificateType]}`;
+    await privateStorage().put(certificatePath, certificate, certificateType);
+  }
+
+  const reading: WaterQualityReport = {
+    ph,
+    tds,
+    testedAt: now,
+    labName,
+    ...(input.certificateUrl ? { certificateUrl: input.certificateUrl } : {}),
+    ...(certificatePath && certificateType
+      ? { certificatePath, certificateContentType: certificateType }
+      : {}),
+    fssaiCompliant: !!input.fssaiCompliant,
+    verification: { status: 'pending' },
+  };
+  const status = reportStatus(reading, now);
+  const report: QualityReportRecord = {
+    ...reading,
+    id,
+    supplierId,
+    status,
+    alerts: reportAlerts(reading, previous, now),
+    createdAt: now,
+  };
+
+  const qualityScore = scoreReport(supplier, reading, now);
+  // An unverified safe report does not lift a suspension; verifying it does
+  const suspension = status === 'safe' ? null : planSuspension(supplier, status, now, id);
+  // Customer readings are compared with the newest certificate only
+  const spotChecks = supplier.spotChecks ? withMismatch(supplier.spotChecks, reading, now) : undefined;
+
+  if (!hasAdminCredentials()) {
+    store.saveQualityReport(report);
+  } else {
+    const adminDb = await getAdminDb();
+    await firestoreBreaker.execute(() =>
+      adminDb.collection('quality_reports').doc(id).set(toStoredReport(report))
+    );
+  }
+  await applySupplierQuality(supplier, {
+    waterQualityReport: reading,
+    qualityScore,
+    suspension,
+    spotChecks,
+  });
+
+  for (const alert of report.alerts) {
+    console.warn(`[Quality] ${supplierId}: ${alert.message}`);
+  }
+
+  return {
+    success: true,
+    report,
+    qualityScore,
+    suspension: suspension ? suspension.qualitySuspension : (supplier.qualitySuspension ?? null),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Accredited lab registry
+// ---------------------------------------------------------------------------
+
+export type AccreditedLabResult =
+  | { success: true; lab: AccreditedLab }
+  | { success: false; error: string; status: number };
+
+const NOT_ADMIN = { success: false as const, error: 'Unauthorized. Admin access required.', status: 403 };
+
+/** Every lab on the registry, by name. */
+export async function listAccreditedLabs(): Promise<AccreditedLab[]> {
+  if (!hasAdminCredentials()) return store.listAccreditedLabs();
+
+  const adminDb = await getAdminDb();
+  const snap = await firestoreBreaker.execute(() => adminDb.collection('accredited_labs').get());
+  return snap.docs
+    .map((doc) => ({ ...doc.data(), id: doc.id }) as AccreditedLab)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** Adds a lab to the registry; names that differ only in case or punctuation clash. */
+export async function addAccreditedLab(
+  input: { name?: string; accreditationNo?: string; addedBy: string },
+  now: Date = new Date()
+): Promise<AccreditedLabResult> {
+  if (!(await isAdmin(input.addedBy))) return NOT_ADMIN;
+  const name = input.name?.trim();
+  if (!name || !normalizeLabName(name)) {
+    return { success: false, error: 'Lab name is required.', status: 400 };
+  }
+  const existing = findAccreditedLab(await listAccreditedLabs(), name);
+  if (existing) {
+    return { success: false, error: `${existing.name} is already on the registry.`, status: 409 };
+  }
+
+  const accreditationNo = input.accreditationNo?.trim();
+  const lab: AccreditedLab = {
+    id: `lab_${crypto.randomUUID().replace(/-/g, '').slice(0, 12)}`,
+    name,
+    ...(accreditationNo ? { accreditationNo } : {}),
+    addedBy: input.addedBy,
+    addedAt: now,
+  };
+  if (!hasAdminCredentials()) {
+    store.saveAccreditedLab(lab);
+  } else {
+    const adminDb = await getAdminDb();
+    await firestoreBreaker.execute(() =>
+      adminDb.collection('accredited_labs').doc(lab.id).create(toStored({ ...lab }))
+    );
+  }
+  return { success: true, lab };
+}
+
+/**
+ * Removes a lab from the registry. Reports already verified keep their
+ * status; new certificates from the lab can no longer be verified.
+ */
+export async function removeAccreditedLab(
+  labId: string,
+  adminId: string
+): Promise<{ success: true } | { success: false; error: string; status: number }> {
+  if (!(await isAdmin(adminId))) return NOT_ADMIN;
+  if (!hasAdminCredentials()) {
+    return store.deleteAccreditedLab(labId)
+      ? { success: true }
+      : { success: false, error: 'Lab not found.', status: 404 };
+  }
+
+  const adminDb = await getAdminDb();
+  const ref = adminDb.collection('accredited_labs').doc(labId);
+  const snap = await firestoreBreaker.execute(() => ref.get());
+  if (!snap.exists) return { success: false, error: 'Lab not found.', status: 404 };
+  await firestoreBreaker.execute(() => ref.delete());
+  return { success: true };
+}
+
+// ---------------------------------------------------------------------------
+// Certificate review
+// ---------------------------------------------------------------------------
+
+export interface CertificateReviewItem {
+  report: QualityReportRecord;
+  /** The registry entry the report's lab name matches, or null if unaccredited. */
+  lab: AccreditedLab | null;
+}
+
+export type CertificateDecision = 'verified' | 'rejected';
+
+export type CertificateReviewResult =
+  | {
+      success: true;
+      report: QualityReportRecord;
+      /** The supplier's new score, when the report is their latest one. */
+      qualityScore: number | null;
+    }
+  | { success: false; error: string; status: number };
+
+export type CertificateFileResult =
+  | { success: true; bytes: Uint8Array; contentType: string }
+  | { success: false; error: string; status: number };
+
+async function loadQualityReport(reportId: string): Promise<QualityReportRecord | null> {
+  if (!hasAdminCredentials()) return store.getQualityReport(reportId);
+  const adminDb = await getAdminDb();
+  const snap = await firestoreBreaker.execute(() =>
+    adminDb.collection('quality_reports').doc(reportId).get()
+  );
+  return snap.exists ? ({ ...snap.data(), id: snap.id } as QualityReportRecord) : null;
+}
+
+/** The reading fields of a stored report, as kept on Supplier.waterQualityReport. */
+function readingOf(report: QualityReportRecord): WaterQualityReport {
+  const { id: _id, supplierId: _supplier, status: _status, alerts: _alerts, createdAt: _created, ...reading } =
+    report;
+  return reading;
+}
+
+/** Reports whose certificate awaits an admin, oldest first, with their registry match. */
+export async function listCertificateQueue(): Promise<CertificateReviewItem[]> {
+  let pending: QualityReportRecord[];
+  if (!hasAdminCredentials()) {
+    pending = store.listPendingQualityReports();
+  } else {
+    const adminDb = await getAdminDb();
+    const snap = await firestoreBreaker.execute(() =>
+      adminDb.collection('quality_reports').where('verification.status', '==', 'pending').get()
+    );
+    pending = snap.docs
+      .map((doc) => ({ ...doc.data(), id: doc.id }) as QualityReportRecord)
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  }
+
+  const labs = await listAccreditedLabs();
+  return pending.map((report) => ({ report, lab: findAccreditedLab(labs, report.labName) }));
+}
+
+/**
+ * Records an admin's decision on a pending certificate. Verifying needs a
+ * certificate to have been supplied and the lab to be on the registry;
+ * rejecting needs a reason. When the report is the supplier's latest, their
+ * score is recalculated and a verified safe report lifts any suspension.
+ */
+export async function reviewQualityReport(
+  reportId: string,
+  review: { adminId: string; decision: string; note?: string },
+  now: Date = new Date()
+): Promise<CertificateReviewResult> {
+  const { adminId, decision } = review;
+  const note = review.note?.trim();
+  if (decision !== 'verified' && decision !== 'rejected') {
+    return { success: false, error: "decision must be 'verified' or 'rejected'.", status: 400 };
+  }
+  if (decision === 'rejected' && !note) {
+    return { success: false, error: 'Give a reason for rejecting the certificate.', status: 400 };
+  }
+  if (!(await isAdmin(adminId))) return NOT_ADMIN;
+
+  const report = await loadQualityReport(reportId);
+  if (!report) return { success: false, error: 'Quality report not found.', status: 404 };
+  if (report.verification?.status !== 'pending') {
+    return { success: false, error: 'This certificate has already been reviewed.', status: 409 };
+  }
+
+  let verification: CertificateVerification;
+  if (decision === 'verified') {
+    if (!report.certificatePath && !report.certificateUrl) {
+      return { success: false, error: 'No certificate was supplied with this report.', status: 409 };
+    }
+    const lab = findAccreditedLab(await listAccreditedLabs(), report.labName);
+    if (!lab) {
+      return {
+        success: false,
+        error: `${report.labName} is not on the accredited lab registry.`,
+        status: 409,
+      };
+    }
+    verification = {
+      status: 'verified',
+      labId: lab.id,
+      reviewedBy: adminId,
+      reviewedAt: now,
+      ...(note ? { note } : {}),
+    };
+  } else {
+    verification = { status: 'rejected', reviewedBy: adminId, reviewedAt: now, note };
+  }
+
+  if (!hasAdminCredentials()) {
+    store.saveQualityReport({ ...report, verification });
+  } else {
+    const adminDb = await getAdminDb();
+    const ref = adminDb.collection('quality_reports').doc(reportId);
+    const claimed = await firestoreBreaker.execute(() =>
+      adminDb.runTransaction(async (tx) => {
+        const snap = await tx.get(ref);
+        if (snap.data()?.verification?.status !== 'pending') return false;
+        tx.update(ref, { verification: toStored({ ...verification }) });
+        return true;
+      })
+    );
+    if (!claimed) {
+      return { success: false, error: 'This certificate has already been reviewed.', status: 409 };
+    }
+  }
+  const reviewed: QualityReportRecord = { ...report, verification };
+
+  // --- Post-write: rescore the supplier if this is their current report ---
+  let qualityScore: number | null = null;
+  try {
+    const [latest] = await listQualityReports(report.supplierId, 1);
+    const supplier = latest?.id === reportId ? await loadSupplier(report.supplierId) : null;
+    if (supplier) {
+      const reading = readingOf(reviewed);
+      qualityScore = scoreReport(supplier, reading, now);
+      const suspension = isCertificateVerified(reading)
+        ? planSuspension(supplier, reportStatus(reading, now), now, reportId)
+        : null;
+      await applySupplierQuality(supplier, { waterQualityReport: reading, qualityScore, suspension });
+    }
+  } catch (err) {
+    console.error(`[Quality] Rescore after review failed for ${report.supplierId}:`, err);
+  }
+
+  return { success: true, report: reviewed, qualityScore };
+}
+
+/** A report's uploaded certificate, for an admin or the supplier who filed it. */
+export async function readQualityCertificate(
+  reportId: string,
+  viewerId: string
+): Promise<CertificateFileResult> {
+  const report = await loadQualityReport(reportId);
+  if (!report) return { success: false, error: 'Quality report not found.', status: 404 };
+  const owner =
+    viewerId === report.supplierId || viewerId === (await loadSupplier(report.supplierId))?.userId;
+  if (!owner && !(await isAdmin(viewerId))) {
+    return { success: false, error: 'Not allowed to view this certificate.', status: 403 };
+  }
+  if (!report.certificatePath || !report.certificateContentType) {
+    return { success: false, error: 'No certificate was uploaded with this report.', status: 404 };
+  }
+  const bytes = await privateStorage().get(report.certificatePath);
+  if (!bytes) return { success: false, error: 'Certificate file is missing.', status: 404 };
+  return { success: true, bytes, contentType: report.certificateContentType };
+}
+
+// ---------------------------------------------------------------------------
+// Expiry sweep
+// ---------------------------------------------------------------------------
+
+export interface ExpirySweepResult {
+  supplierId: string;
+  suspended: QualitySuspension;
+}
+
+/**
+ * Suspends every supplier whose latest report has expired. Safe to run
+ * repeatedly: already-suspended suppliers are left as they are.
+ */
+export async function sweepExpiredReports(now: Date = new Date()): Promise<ExpirySweepResult[]> {
+  let candidates: Supplier[];
+  if (!hasAdminCredentials()) {
+    candidates = store.listAllSuppliers();
+  } else {
+    // testedAt is stored as an ISO string, which sorts chronologically
+    const cutoff = new Date(now.getTime() - REPORT_VALID_DAYS * 24 * 60 * 60 * 1000);
+    const adminDb = await getAdminDb();
+    const snap = await firestoreBreaker.execute(() =>
+      adminDb
+        .collection('suppliers')
+        .where('waterQualityReport.testedAt', '<', cutoff.toISOString())
+        .get()
+    );
+    candidates = snap.docs.map((doc) => ({ ...doc.data(), id: doc.id }) as Supplier);
+  }
+
+  const results: ExpirySweepResult[] = [];
+  for (const supplier of candidates) {
+    if (reportStatus(supplier.waterQualityReport, now) !== 'expired') continue;
+    const suspension = planSuspension(supplier, 'expired', now);
+    if (!suspension?.qualitySuspension) continue;
+    try {
+      await applySupplierQuality(supplier, { suspension });
+      results.push({ supplierId: supplier.id, suspended: suspension.qualitySuspension });
+    } catch (err) {
+      console.error(`[Quality] Expiry suspension failed for ${supplier.id}:`, err);
+    }
+  }
+  return results;
+}
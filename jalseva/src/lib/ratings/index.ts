@@ -0,0 +1,160 @@
+// =============================================================================
+// JalSeva - Rating Aggregation Rules
+// =============================================================================
+// Ratings are aggregated as running totals (sum and count, overall and per
+// dimension) rather than re-read from every order. On Firestore the totals
+// live in sharded counters (see getCounterShardKey in '@/lib/firestore-shard')
+// so a busy supplier's ratings don't contend on one document; the shards are
+// summed when the rated party's Rating is refreshed.
+//
+// Rating.score is a Bayesian average: the mean of the party's ratings plus
+// PRIOR_WEIGHT imaginary ratings of PRIOR_MEAN. A new supplier with a single
+// 5-star rating scores ~4.2, not 5, and converges on their true average as
+// ratings accumulate. Dispatch ranking and the quality score use it.
+//
+// Pure rules; storage and the refresh live in './server'.
+// =============================================================================
+
+import type { Rating, RatingDimension } from '@/types';
+
+// ---------------------------------------------------------------------------
+// Dimensions and constants
+// ---------------------------------------------------------------------------
+
+export const RATING_DIMENSIONS: Record<RatingDimension, { label: string; labelHi: string }> = {
+  punctuality: { label: 'On time', labelHi: 'समय पर' },
+  waterQuality: { label: 'Water quality', labelHi: 'पानी की गुणवत्ता' },
+  behavior: { label: 'Behaviour', labelHi: 'व्यवहार' },
+};
+
+const DIMENSION_KEYS = Object.keys(RATING_DIMENSIONS) as RatingDimension[];
+
+/** The platform-wide mean a new party's score starts from. */
+export const PRIOR_MEAN = 4.0;
+
+/** How many ratings the prior counts as. */
+export const PRIOR_WEIGHT = 5;
+
+/** Counter shards per rated party. */
+export const RATING_SHARDS = 10;
+
+export type RatedKind = 'supplier' | 'customer';
+
+/** Counter name for a rated party; shards live under counters/<key>/shards. */
+export function ratingCounterKey(kind: RatedKind, id: string): string {
+  return `ratings_${kind}_${id}`;
+}
+
+// ---------------------------------------------------------------------------
+// Totals
+// ---------------------------------------------------------------------------
+
+/**
+ * Running totals as flat numeric fields, the shape stored in each counter
+ * shard: `sum`, `count`, and `<dimension>Sum` / `<dimension>Count`.
+ */
+export type RatingTotals = Record<string, number>;
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export function isStarRating(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= 5;
+}
+
+/**
+ * Keeps the known dimensions rated 1-5; anything else is an error rather
+ * than silently dropped.
+ */
+export function cleanDimensions(
+  input: unknown
+): { dimensions: Partial<Record<RatingDimension, number>> } | { error: string } {
+  if (input === undefined || input === null) return { dimensions: {} };
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    return { error: 'dimensions must be an object.' };
+  }
+  const dimensions: Partial<Record<RatingDimension, number>> = {};
+  for (const [key, value] of Object.entries(input)) {
+    if (!DIMENSION_KEYS.includes(key as RatingDimension)) {
+      return { error: `Unknown rating dimension: ${key}` };
+    }
+    if (value === undefined || value === null) continue;
+    if (!isStarRating(value)) return { error: `${key} must be a whole number from 1 to 5.` };
+    dimensions[key as RatingDimension] = value;
+  }
+  return { dimensions };
+}
+
+/** The increment one rating adds to the totals. */
+export function ratingIncrement(
+  stars: number,
+  dimensions: Partial<Record<RatingDimension, number>> = {}
+): RatingTotals {
+  const increment: RatingTotals = { sum: stars, count: 1 };
+  for (const key of DIMENSION_KEYS) {
+    const value = dimensions[key];
+    if (value === undefined) continue;
+    increment[`${key}Sum`] = value;
+    increment[`${key}Count`] = 1;
+  }
+  return increment;
+}
+
+/**
+ * Totals equivalent to a Rating recorded before aggregation existed, so the
+ * first counted rating builds on the party's history instead of replacing
+ * it. Dimensions were not collected then.
+ */
+export function seedTotals(rating: Pick<Rating, 'average' | 'count'> | undefined): RatingTotals {
+  const count = rating?.count ?? 0;
+  return count > 0 ? { sum: round2((rating?.average ?? 0) * count), count } : {};
+}
+
+/** Adds totals together (e.g. the counter shards). */
+export function addTotals(...parts: RatingTotals[]): RatingTotals {
+  const total: RatingTotals = {};
+  for (const part of parts) {
+    for (const [key, value] of Object.entries(part)) {
+      if (typeof value !== 'number') continue;
+      total[key] = (total[key] ?? 0) + value;
+    }
+  }
+  return total;
+}
+
+// ---------------------------------------------------------------------------
+// Summary
+// ---------------------------------------------------------------------------
+
+/** Bayesian average of `count` ratings summing to `sum`. */
+export function bayesianScore(sum: number, count: number): number {
+  return round2((PRIOR_MEAN * PRIOR_WEIGHT + sum) / (PRIOR_WEIGHT + count));
+}
+
+/**
+ * The Rating stored on the supplier or user. With no ratings yet the
+ * average is 0 and the score is the prior.
+ */
+export function summarizeRating(totals: RatingTotals): Rating {
+  const sum = totals.sum ?? 0;
+  const count = totals.count ?? 0;
+
+  const dimensions: NonNullable<Rating['dimensions']> = {};
+  for (const key of DIMENSION_KEYS) {
+    const dimCount = totals[`${key}Count`] ?? 0;
+    if (dimCount > 0) {
+      dimensions[key] = { average: round2((totals[`${key}Sum`] ?? 0) / dimCount), count: dimCount };
+    }
+  }
+
+  return {
+    average: count > 0 ? round2(sum / count) : 0,
+    count,
+    score: bayesianScore(sum, count),
+    ...(Object.keys(dimensions).length > 0 ? { dimensions } : {}),
+  };
+}
+
+/** The rating to rank by: the smoothed score, or the plain average for old data. */
+export function rankingRating(rating: Pick<Rating, 'average' | 'score'> | undefined): number | undefined {
+  return rating?.score ?? rating?.average;
+}
@@ -0,0 +1,277 @@
+// =============================================================================
+// JalSeva - Rating Aggregation (Server-Side)
+// =============================================================================
+// Records a rating on the order and adds it to the rated party's running
+// totals in the same transaction, so a rating is counted exactly once. The
+// totals go to one random shard of counters/ratings_<kind>_<id>/shards; the
+// counter document itself holds the seed carried over from the party's
+// Rating before aggregation existed.
+//
+// After the commit, refreshRatingAggregate() sums the shards into
+// Supplier.rating / User.rating and, for suppliers, recalculates
+// qualityScore from their latest water test. It is also safe to call on its
+// own to repair a stored Rating.
+// =============================================================================
+
+import { firestoreBreaker } from '@/lib/circuit-breaker';
+import * as store from '@/lib/demo-store';
+import { getCounterShardKey } from '@/lib/firestore-shard';
+import { supplierIndex } from '@/lib/geohash';
+import { loadOrder } from '@/lib/order-lifecycle';
+import { calculateQualityScore } from '@/lib/quality';
+import type { OrderRating, Rating, Supplier } from '@/types';
+import {
+  type RatedKind,
+  type RatingTotals,
+  RATING_SHARDS,
+  addTotals,
+  cleanDimensions,
+  isStarRating,
+  rankingRating,
+  ratingCounterKey,
+  ratingIncrement,
+  seedTotals,
+  summarizeRating,
+} from './index';
+
+// ---------------------------------------------------------------------------
+// Firebase Admin - lazy import
+// ---------------------------------------------------------------------------
+
+function hasAdminCredentials(): boolean {
+  return !!(
+    process.env.FIREBASE_ADMIN_CLIENT_EMAIL &&
+    process.env.FIREBASE_ADMIN_PRIVATE_KEY
+  );
+}
+
+async function getAdminDb() {
+  const { adminDb } = await import('@/lib/firebase-admin');
+  return adminDb;
+}
+
+export interface RatingSubmission {
+  orderId: string;
+  ratedBy: 'customer' | 'supplier';
+  raterId: string;
+  rating: number;
+  feedback?: string;
+  /** Customers only: punctuality, waterQuality, behavior (1-5 each). */
+  dimensions?: unknown;
+}
+
+export interface RatedParty {
+  kind: RatedKind;
+  id: string;
+  rating: Rating;
+  qualityScore?: number;
+}
+
+export type RatingResult =
+  | { success: true; orderRating: OrderRating; rated: RatedParty | null }
+  | { success: false; error: string; status: number };
+
+const PARTY_COLLECTION: Record<RatedKind, 'suppliers' | 'users'> = {
+  supplier: 'suppliers',
+  customer: 'users',
+};
+
+// ---------------------------------------------------------------------------
+// Submission
+// ---------------------------------------------------------------------------
+
+/**
+ * Records a customer's rating of the delivery (and supplier) or a
+ * supplier's rating of the customer, once per side per delivered order.
+ */
+export async function submitOrderRating(
+  input: RatingSubmission,
+  now: Date = new Date()
+): Promise<RatingResult> {
+  const { orderId, ratedBy, raterId, rating } = input;
+  if (!isStarRating(rating)) {
+    return { success: false, error: 'Rating must be a whole number between 1 and 5.', status: 400 };
+  }
+  const cleaned = cleanDimensions(input.dimensions);
+  if ('error' in cleaned) return { success: false, error: cleaned.error, status: 400 };
+  const { dimensions } = cleaned;
+  if (ratedBy === 'supplier' && Object.keys(dimensions).length > 0) {
+    return { success: false, error: 'Only customers rate by dimension.', status: 400 };
+  }
+  const feedback = input.feedback?.trim().slice(0, 1000);
+
+  const order = await loadOrder(orderId);
+  if (!order) return { success: false, error: 'Order not found.', status: 404 };
+  if (order.status !== 'delivered') {
+    return { success: false, error: 'Ratings can only be submitted for delivered orders.', status: 400 };
+  }
+  if (ratedBy === 'customer' ? order.customerId !== raterId : order.supplierId !== raterId) {
+    return { success: false, error: `You are not the ${ratedBy} for this order.`, status: 403 };
+  }
+
+  const field = ratedBy === 'customer' ? 'customerRating' : 'supplierRating';
+  const alreadyRated = `${ratedBy === 'customer' ? 'Customer' : 'Supplier'} has already rated this order.`;
+  if (order.rating?.[field] !== undefined) {
+    return { success: false, error: alreadyRated, status: 409 };
+  }
+
+  const orderRating: OrderRating = {
+    ...order.rating,
+    ...(ratedBy === 'customer'
+      ? {
+          customerRating: rating,
+          ...(feedback ? { customerFeedback: feedback } : {}),
+          ...(Object.keys(dimensions).length > 0 ? { customerDimensions: dimensions } : {}),
+        }
+      : { supplierRating: rating, ...(feedback ? { supplierFeedback: feedback } : {}) }),
+  };
+
+  const ratedKind: RatedKind = ratedBy === 'customer' ? 'supplier' : 'customer';
+  const ratedId = ratedBy === 'customer' ? order.supplierId : order.customerId;
+  const increment = ratingIncrement(rating, dimensions);
+
+  if (!hasAdminCredentials()) {
+    store.updateOrder(orderId, { rating: orderRating });
+    if (ratedId) {
+      const key = ratingCounterKey(ratedKind, ratedId);
+      const current = store.getRatingTotals(key) ?? seedTotals(currentStoreRating(ratedKind, ratedId));
+      store.saveRatingTotals(key, addTotals(current, increment));
+    }
+  } else {
+    const { FieldValue } = await import('firebase-admin/firestore');
+    const adminDb = await getAdminDb();
+    const orderRef = adminDb.collection('orders').doc(orderId);
+
+    const conflict = await firestoreBreaker.execute(() =>
+      adminDb.runTransaction(async (tx) => {
+        const orderSnap = await tx.get(orderRef);
+        if (orderSnap.data()?.rating?.[field] !== undefined) return true;
+
+        let counterRef: FirebaseFirestore.DocumentReference | null = null;
+        let seed: RatingTotals | null = null;
+        if (ratedId) {
+          const key = ratingCounterKey(ratedKind, ratedId);
+          counterRef = adminDb.collection('counters').doc(key);
+          const counterSnap = await tx.get(counterRef);
+          if (!counterSnap.exists) {
+            const partySnap = await tx.get(adminDb.collection(PARTY_COLLECTION[ratedKind]).doc(ratedId));
+            seed = seedTotals(partySnap.data()?.rating as Rating | undefined);
+          }
+        }
+
+        tx.update(orderRef, { rating: orderRating, updatedAt: now.toISOString() });
+        if (counterRef && ratedId) {
+          if (seed) tx.set(counterRef, { seed, createdAt: now.toISOString() });
+          const shardRef = adminDb.doc(
+            getCounterShardKey(ratingCounterKey(ratedKind, ratedId), RATING_SHARDS)
+          );
+          const increments: Record<string, FirebaseFirestore.FieldValue> = {};
+          for (const [name, value] of Object.entries(increment)) {
+            increments[name] = FieldValue.increment(value);
+          }
+          tx.set(shardRef, increments, { merge: true });
+        }
+        return false;
+      })
+    );
+    if (conflict) return { success: false, error: alreadyRated, status: 409 };
+  }
+
+  // --- Post-commit: refresh the rated party's Rating ---
+  let rated: RatedParty | null = null;
+  if (ratedId) {
+    try {
+      rated = await refreshRatingAggregate(ratedKind, ratedId, now);
+    } catch (err) {
+      console.error(`[Ratings] Refresh failed for ${ratedKind} ${ratedId}:`, err);
+    }
+  }
+  return { success: true, orderRating, rated };
+}
+
+function currentStoreRating(kind: RatedKind, id: string): Rating | undefined {
+  return kind === 'supplier' ? store.getSupplier(id)?.rating : store.getUser(id)?.rating;
+}
+
+// ---------------------------------------------------------------------------
+// Refresh
+// ---------------------------------------------------------------------------
+
+async function loadTotals(kind: RatedKind, id: string): Promise<RatingTotals> {
+  const key = ratingCounterKey(kind, id);
+  if (!hasAdminCredentials()) {
+    return store.getRatingTotals(key) ?? seedTotals(currentStoreRating(kind, id));
+  }
+
+  const adminDb = await getAdminDb();
+  const counterRef = adminDb.collection('counters').doc(key);
+  const [counterSnap, shardsSnap] = await Promise.all([
+    firestoreBreaker.execute(() => counterRef.get()),
+    firestoreBreaker.execute(() => counterRef.collection('shards').get()),
+  ]);
+  const seed = (counterSnap.data()?.seed as RatingTotals | undefined) ?? {};
+  return addTotals(seed, ...shardsSnap.docs.map((doc) => doc.data() as RatingTotals));
+}
+
+function supplierQualityScore(
+  supplier: Pick<Supplier, 'waterQualityReport' | 'spotChecks'> | undefined,
+  rating: Rating,
+  now: Date
+): number | undefined {
+  const report = supplier?.waterQualityReport;
+  if (!report) return undefined;
+  return calculateQualityScore(
+    { ...report, supplierRating: rankingRating(rating) ?? 0, spotChecks: supplier.spotChecks?.recent },
+    now
+  );
+}
+
+/**
+ * Sums the party's rating totals into their stored Rating and, for a
+ * supplier with a water test on file, recalculates qualityScore.
+ */
+export async function refreshRatingAggregate(
+  kind: RatedKind,
+  id: string,
+  now: Date = new Date()
+): Promise<RatedParty> {
+  const rating = summarizeRating(await loadTotals(kind, id));
+  let qualityScore: number | undefined;
+
+  if (!hasAdminCredentials()) {
+    if (kind === 'supplier') {
+      const supplier = store.getSupplier(id);
+      if (supplier) {
+        qualityScore = supplierQualityScore(supplier, rating, now);
+        store.upsertSupplier({
+          ...supplier,
+          rating,
+          ...(qualityScore !== undefined ? { qualityScore } : {}),
+        });
+      }
+    } else {
+      const user = store.getUser(id);
+      if (user) store.upsertUser({ ...user, rating });
+    }
+  } else {
+    const adminDb = await getAdminDb();
+    const ref = adminDb.collection(PARTY_COLLECTION[kind]).doc(id);
+    const update: Record<string, unknown> = { rating };
+    if (kind === 'supplier') {
+      const snap = await firestoreBreaker.execute(() => ref.get());
+      qualityScore = supplierQualityScore(snap.data() as Supplier | undefined, rating, now);
+      if (qualityScore !== undefined) update.qualityScore = qualityScore;
+    }
+    await firestoreBreaker.execute(() => ref.set(update, { merge: true }));
+  }
+
+  // Keep the dispatcher's in-memory index in step with the new rating
+  if (kind === 'supplier') {
+    supplierIndex.patchOwner(id, {
+      rating,
+      ...(qualityScore !== undefined ? { qualityScore } : {}),
+    });
+  }
+
+  return { kind, id, rating, ...(qualityScore !== undefined ? { qualityScore } : {}) };
+}
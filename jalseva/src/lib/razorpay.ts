@@ -3,7 +3,8 @@
 // =============================================================================
 // Simulates Razorpay payment processing without requiring real API keys.
 // Generates realistic-looking order IDs, payment IDs, and signatures.
-// All payments auto-succeed after a short simulated delay.
+// All payments auto-succeed after a short simulated delay, except UPI
+// AutoPay charges to Razorpay's test failure VPA (see chargeMandate).
 // =============================================================================
 
 import crypto from 'node:crypto';
@@ -19,14 +20,29 @@ function generateId(prefix: string): string {
   return `${prefix}_sim_${random}`;
 }
 
-function generateSignature(orderId: string, paymentId: string): string {
-  const body = `${orderId}|${paymentId}`;
+/**
+ * HMAC-SHA256 over the parts joined with `|`: `(orderId, paymentId)` for
+ * checkout signatures, or the raw request body alone for webhooks.
+ */
+function generateSignature(...parts: string[]): string {
+  const body = parts.join('|');
   return crypto
     .createHmac('sha256', SIMULATION_SECRET)
     .update(body)
     .digest('hex');
 }
 
+function signaturesMatch(expected: string, actual: string): boolean {
+  try {
+    return crypto.timingSafeEqual(
+      Buffer.from(expected, 'hex'),
+      Buffer.from(actual, 'hex')
+    );
+  } catch {
+    return false;
+  }
+}
+
 // ---------------------------------------------------------------------------
 // createOrder (Simulated)
 // ---------------------------------------------------------------------------
@@ -79,16 +95,43 @@ export function verifyPayment(
   paymentId: string,
   signature: string
 ): boolean {
-  const expectedSignature = generateSignature(orderId, paymentId);
+  return signaturesMatch(generateSignature(orderId, paymentId), signature);
+}
 
-  try {
-    return crypto.timingSafeEqual(
-      Buffer.from(expectedSignature, 'hex'),
-      Buffer.from(signature, 'hex')
-    );
-  } catch {
-    return false;
-  }
+// ---------------------------------------------------------------------------
+// Webhooks (Simulated)
+// ---------------------------------------------------------------------------
+
+/**
+ * Verifies the `X-Razorpay-Signature` header of a webhook delivery: an
+ * HMAC-SHA256 of the raw request body. Verify before parsing the body.
+ */
+export function verifyWebhookSignature(rawBody: string, signature: string): boolean {
+  return signaturesMatch(generateSignature(rawBody), signature);
+}
+
+/**
+ * Builds a signed webhook delivery as Razorpay would send it, so the
+ * webhook receiver can be exercised offline. The event id is derived from
+ * the event and entity ids, so re-simulating the same event reproduces a
+ * redelivery.
+ */
+export function simulateWebhook(
+  event: string,
+  payload: Record<string, { entity: Record<string, unknown> }>
+) {
+  const entityIds = Object.values(payload).map((p) => String(p.entity.id ?? ''));
+  const eventId = `evt_sim_${generateSignature(event, ...entityIds).slice(0, 16)}`;
+  const body = JSON.stringify({
+    entity: 'event',
+    account_id: 'acc_sim_jalseva',
+    event,
+    contains: Object.keys(payload),
+    payload,
+    created_at: Math.floor(Date.now() / 1000),
+  });
+
+  return { eventId, body, signature: generateSignature(body) };
 }
 
 // ---------------------------------------------------------------------------
@@ -159,13 +202,270 @@ export async function createPayout(
   };
 }
 
+// ---------------------------------------------------------------------------
+// createRefund (Simulated)
+// ---------------------------------------------------------------------------
+
+export interface SimulatedRefund {
+  id: string;
+  entity: 'refund';
+  payment_id: string;
+  amount: number;
+  currency: string;
+  status: 'pending' | 'processed' | 'failed';
+  speed_processed: string;
+  notes: Record<string, string>;
+  created_at: number;
+}
+
+// Refunds issued by this instance, so they can be fetched back and so refund
+// ids stay deterministic: the n-th refund of a payment always gets the same id.
+const simulatedRefunds = new Map<string, SimulatedRefund>();
+const refundsByPayment = new Map<string, string[]>();
+
+function generateRefundId(paymentId: string, sequence: number): string {
+  const digest = crypto
+    .createHmac('sha256', SIMULATION_SECRET)
+    .update(`refund|${paymentId}|${sequence}`)
+    .digest('hex');
+  return `rfnd_sim_${digest.slice(0, 16)}`;
+}
+
+/**
+ * Simulates refunding a captured payment back to the customer. Call it once
+ * per refund; partial refunds of the same payment get successive ids.
+ * Refunds settle immediately with status `processed`.
+ *
+ * @param paymentId - The Razorpay payment to refund.
+ * @param amount - Amount to refund in paise.
+ */
+export async function createRefund(
+  paymentId: string,
+  amount: number,
+  notes: Record<string, string> = {}
+): Promise<SimulatedRefund> {
+  if (!paymentId) {
+    throw new Error('A payment id is required to refund.');
+  }
+  if (!Number.isInteger(amount) || amount <= 0) {
+    throw new Error('Refund amount must be a positive whole number of paise.');
+  }
+
+  // Simulate network delay
+  await new Promise((resolve) => setTimeout(resolve, 200));
+
+  const previous = refundsByPayment.get(paymentId) ?? [];
+  const refundId = generateRefundId(paymentId, previous.length + 1);
+
+  const refund: SimulatedRefund = {
+    id: refundId,
+    entity: 'refund',
+    payment_id: paymentId,
+    amount,
+    currency: 'INR',
+    status: 'processed',
+    speed_processed: 'normal',
+    notes: {
+      platform: 'JalSeva',
+      ...notes,
+      simulated: 'true',
+    },
+    created_at: Math.floor(Date.now() / 1000),
+  };
+
+  simulatedRefunds.set(refundId, refund);
+  refundsByPayment.set(paymentId, [...previous, refundId]);
+
+  console.log(`[Razorpay Sim] Refund: ${refundId} | ₹${amount / 100} ← ${paymentId}`);
+
+  return refund;
+}
+
+/** Returns a refund issued by the simulator, or null if unknown. */
+export async function fetchRefund(refundId: string): Promise<SimulatedRefund | null> {
+  return simulatedRefunds.get(refundId) ?? null;
+}
+
+/** Lists the simulated refunds of a payment, oldest first. */
+export async function listRefunds(paymentId: string): Promise<SimulatedRefund[]> {
+  return (refundsByPayment.get(paymentId) ?? [])
+    .map((id) => simulatedRefunds.get(id))
+    .filter((r): r is SimulatedRefund => !!r);
+}
+
+// ---------------------------------------------------------------------------
+// UPI AutoPay mandates (Simulated)
+// ---------------------------------------------------------------------------
+
+/** Charges to this VPA fail, as with Razorpay's test-mode failure handle. */
+export const FAILURE_VPA = 'failure@razorpay';
+
+export interface SimulatedMandate {
+  id: string;
+  entity: 'token';
+  method: 'upi';
+  vpa: string;
+  /** Paise. */
+  max_amount: number;
+  frequency: 'as_presented';
+  recurring_status: 'initiated' | 'confirmed' | 'cancelled';
+  notes: Record<string, string>;
+  created_at: number;
+}
+
+export interface SimulatedRecurringPayment {
+  id: string;
+  entity: 'payment';
+  token_id: string;
+  amount: number;
+  currency: string;
+  status: 'captured' | 'failed';
+  receipt: string;
+  error_code?: string;
+  error_description?: string;
+  created_at: number;
+}
+
+// Mandates registered with this instance. Tokens it has not seen (created
+// before a restart) are charged as confirmed mandates.
+const simulatedMandates = new Map<string, SimulatedMandate>();
+// Charges by receipt, so presenting the same receipt twice charges once.
+// Stored as soon as the charge starts, so a repeat made while the first is
+// still in flight gets the same charge.
+const recurringPayments = new Map<string, Promise<SimulatedRecurringPayment>>();
+
+/**
+ * Simulates registering a UPI AutoPay mandate. The mandate starts
+ * `initiated` until the customer approves it in their UPI app
+ * (confirmMandate).
+ *
+ * @param maxAmount - The most one charge may take, in paise.
+ */
+export async function createMandate(
+  customerId: string,
+  vpa: string,
+  maxAmount: number,
+  notes: Record<string, string> = {}
+): Promise<SimulatedMandate> {
+  if (!Number.isInteger(maxAmount) || maxAmount <= 0) {
+    throw new Error('Mandate limit must be a positive whole number of paise.');
+  }
+
+  // Simulate network delay
+  await new Promise((resolve) => setTimeout(resolve, 200));
+
+  const mandate: SimulatedMandate = {
+    id: generateId('token'),
+    entity: 'token',
+    method: 'upi',
+    vpa,
+    max_amount: maxAmount,
+    frequency: 'as_presented',
+    recurring_status: 'initiated',
+    notes: { platform: 'JalSeva', customerId, ...notes, simulated: 'true' },
+    created_at: Math.floor(Date.now() / 1000),
+  };
+  simulatedMandates.set(mandate.id, mandate);
+
+  console.log(`[Razorpay Sim] Mandate: ${mandate.id} | ${vpa} | up to ₹${maxAmount / 100}`);
+
+  return mandate;
+}
+
+/** Simulates the customer approving the mandate in their UPI app. */
+export async function confirmMandate(tokenId: string): Promise<SimulatedMandate> {
+  const mandate = simulatedMandates.get(tokenId);
+  if (!mandate) throw new Error(`Unknown mandate ${tokenId}.`);
+  if (mandate.recurring_status === 'cancelled') throw new Error('Mandate has been cancelled.');
+  mandate.recurring_status = 'confirmed';
+  return mandate;
+}
+
+/** Simulates revoking the mandate; later charges against it fail. */
+export async function cancelMandate(tokenId: string): Promise<SimulatedMandate | null> {
+  const mandate = simulatedMandates.get(tokenId);
+  if (mandate) mandate.recurring_status = 'cancelled';
+  return mandate ?? null;
+}
+
+/**
+ * Simulates presenting a recurring charge against a mandate. Failed charges
+ * resolve with status `failed` and an error description rather than
+ * throwing, as Razorpay reports them. Charges to FAILURE_VPA fail with
+ * insufficient funds.
+ *
+ * @param amount - Amount to charge in paise.
+ * @param receipt - Unique per attempt; a repeated receipt returns the
+ *   earlier charge.
+ */
+export async function chargeMandate(
+  tokenId: string,
+  amount: number,
+  receipt: string
+): Promise<SimulatedRecurringPayment> {
+  if (!Number.isInteger(amount) || amount <= 0) {
+    throw new Error('Charge amount must be a positive whole number of paise.');
+  }
+  const previous = recurringPayments.get(receipt);
+  if (previous) return previous;
+
+  const charge = presentCharge(tokenId, amount, receipt);
+  recurringPayments.set(receipt, charge);
+  return charge;
+}
+
+async function presentCharge(
+  tokenId: string,
+  amount: number,
+  receipt: string
+): Promise<SimulatedRecurringPayment> {
+  // Simulate network delay
+  await new Promise((resolve) => setTimeout(resolve, 200));
+
+  const mandate = simulatedMandates.get(tokenId);
+  let error: { code: string; description: string } | null = null;
+  if (mandate?.recurring_status === 'initiated') {
+    error = { code: 'BAD_REQUEST_ERROR', description: 'Mandate has not been approved.' };
+  } else if (mandate?.recurring_status === 'cancelled') {
+    error = { code: 'BAD_REQUEST_ERROR', description: 'Mandate has been cancelled.' };
+  } else if (mandate && amount > mandate.max_amount) {
+    error = { code: 'BAD_REQUEST_ERROR', description: 'Amount exceeds the mandate limit.' };
+  } else if (mandate?.vpa === FAILURE_VPA) {
+    error = { code: 'GATEWAY_ERROR', description: 'Insufficient funds in the linked account.' };
+  }
+
+  const payment: SimulatedRecurringPayment = {
+    id: generateId('pay'),
+    entity: 'payment',
+    token_id: tokenId,
+    amount,
+    currency: 'INR',
+    status: error ? 'failed' : 'captured',
+    receipt,
+    ...(error ? { error_code: error.code, error_description: error.description } : {}),
+    created_at: Math.floor(Date.now() / 1000),
+  };
+
+  console.log(
+    `[Razorpay Sim] AutoPay ${payment.status}: ${payment.id} | ₹${amount / 100} ← ${tokenId}`
+  );
+
+  return payment;
+}
+
 // ---------------------------------------------------------------------------
 // Simulated Razorpay-like client (no-op, for import compatibility)
 // ---------------------------------------------------------------------------
 
 const razorpay = {
   orders: { create: createOrder },
-  payments: { fetch: async (id: string) => ({ id, status: 'captured', simulated: true }) },
+  payments: {
+    fetch: async (id: string) => ({ id, status: 'captured', simulated: true }),
+    refund: (id: string, options: { amount: number; notes?: Record<string, string> }) =>
+      createRefund(id, options.amount, options.notes),
+    fetchMultipleRefund: listRefunds,
+  },
+  refunds: { fetch: fetchRefund },
 };
 
 export { razorpay, generateSignature as _generateSignature };
@@ -0,0 +1,110 @@
+// =============================================================================
+// JalSeva - Refund Rules
+// =============================================================================
+// How much of a payment can still be refunded, what a short delivery is
+// worth, and which payment status a refund leaves behind. Pure and
+// client-safe so the admin refund modal can pre-fill and validate amounts;
+// the gateway call and bookkeeping live in './server'.
+//
+// Amounts are in rupees, rounded to the paisa. Cash orders are never
+// refunded through the gateway.
+// =============================================================================
+
+import type { Order, PaymentInfo, PaymentStatus } from '@/types';
+
+// ---------------------------------------------------------------------------
+// Reasons
+// ---------------------------------------------------------------------------
+
+export const REFUND_REASONS: { code: string; label: string }[] = [
+  { code: 'cancellation', label: 'Order cancelled' },
+  { code: 'short_delivery', label: 'Short delivery' },
+  { code: 'quality_issue', label: 'Water quality issue' },
+  { code: 'goodwill', label: 'Goodwill gesture' },
+  { code: 'other', label: 'Other' },
+];
+
+export function getRefundReasonLabel(code: string): string | null {
+  return REFUND_REASONS.find((r) => r.code === code)?.label ?? null;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function toPaisa(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/** Whether the payment was captured online and can go back through the gateway. */
+export function isRefundable(payment: Pick<PaymentInfo, 'method' | 'status'>): boolean {
+  return (
+    payment.method !== 'cash' &&
+    (payment.status === 'paid' || payment.status === 'partially_refunded')
+  );
+}
+
+/** What is left to refund on a payment after earlier and in-flight refunds. */
+export function refundableAmount(
+  payment: Pick<PaymentInfo, 'method' | 'status' | 'amount' | 'refundedAmount' | 'refundPending'>
+): number {
+  if (!isRefundable(payment)) return 0;
+  return Math.max(
+    0,
+    toPaisa(payment.amount - (payment.refundedAmount ?? 0) - (payment.refundPending ?? 0))
+  );
+}
+
+/**
+ * Refund owed for a short delivery: the original order total pro-rated by
+ * the litres that were not delivered, less short-delivery refunds already
+ * made (such as the automatic one for a pro-rated order). The litres are the
+ * supplier's recorded volume, or the customer's figure when they disputed
+ * it. Zero when no volume was recorded or the full quantity arrived; capped
+ * at what is still refundable.
+ */
+export function shortDeliveryRefund(
+  order: Pick<Order, 'quantityLitres' | 'price' | 'payment' | 'deliveryVerification'>
+): number {
+  const recorded = order.deliveryVerification?.volumeConfirmed;
+  if (recorded === undefined || order.quantityLitres <= 0) return 0;
+
+  const volume = order.deliveryVerification?.volume;
+  const claimed = volume?.customerResponse?.litres;
+  const delivered = Math.max(0, claimed !== undefined ? Math.min(claimed, recorded) : recorded);
+  const shortfall = order.quantityLitres - delivered;
+  if (shortfall <= 0) return 0;
+
+  const total = volume?.adjustment?.originalPrice.total ?? order.price.total;
+  const alreadyRefunded = (order.payment.refunds ?? [])
+    .filter((r) => r.reason === 'short_delivery' && r.status !== 'failed')
+    .reduce((sum, r) => sum + r.amount, 0);
+  const owed = toPaisa((total * shortfall) / order.quantityLitres - alreadyRefunded);
+  return Math.max(0, Math.min(owed, refundableAmount(order.payment)));
+}
+
+/** Payment status once `refundedAmount` of `amount` has been refunded. */
+export function paymentStatusAfterRefund(
+  amount: number,
+  refundedAmount: number
+): PaymentStatus {
+  return refundedAmount >= amount ? 'refunded' : 'partially_refunded';
+}
+
+/**
+ * Validates a requested refund amount against what is left. Returns the
+ * amount rounded to the paisa, or an error message.
+ */
+export function validateRefundAmount(
+  requested: number,
+  remaining: number
+): { amount: number } | { error: string } {
+  const amount = Number.isFinite(requested) ? toPaisa(requested) : 0;
+  if (amount <= 0) {
+    return { error: 'Refund amount must be a positive number (in rupees).' };
+  }
+  if (amount > remaining) {
+    return { error: `Refund amount exceeds the refundable balance of ₹${remaining}.` };
+  }
+  return { amount };
+}
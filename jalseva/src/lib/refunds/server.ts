@@ -0,0 +1,242 @@
+// =============================================================================
+// JalSeva - Refund Service (Server-Side)
+// =============================================================================
+// Issues full or partial refunds against an order's captured payment through
+// the Razorpay layer and records each one on Order.payment: a RefundRecord
+// in `refunds`, the running `refundedAmount`, the latest `refundId`, and a
+// status of `partially_refunded` or `refunded`. Used by the admin refund
+// action and by cancellation settlement.
+//
+// A refund runs in three steps so two requests for the same order (a double
+// click, or an admin refund racing a cancellation or short-delivery refund)
+// can never refund more than was paid:
+//
+//   1. Reserve: the amount is checked against the balance and added to
+//      `payment.refundPending`, which refundableAmount() already subtracts —
+//      in a Firestore transaction, or synchronously in the demo store.
+//   2. The gateway refund is requested.
+//   3. Record: the refund is appended and the reservation cleared, again
+//      against the order as it is then. A gateway failure only releases the
+//      reservation.
+//
+// A refund on a delivered order then takes the supplier's share back out of
+// their ledger ('@/lib/ledger').
+// =============================================================================
+
+import { createRefund } from '@/lib/razorpay';
+import { batchWriter } from '@/lib/batch-writer';
+import { recordRefundClawback } from '@/lib/ledger/server';
+import { hotCache } from '@/lib/cache';
+import { firestoreBreaker } from '@/lib/circuit-breaker';
+import * as store from '@/lib/demo-store';
+import { applyOrderPatch, type OrderPatch } from '@/lib/order-lifecycle';
+import type { Order, RefundRecord } from '@/types';
+import {
+  getRefundReasonLabel,
+  paymentStatusAfterRefund,
+  refundableAmount,
+  validateRefundAmount,
+} from './index';
+
+export interface RefundRequest {
+  /** Rupees; defaults to everything still refundable. */
+  amount?: number;
+  reason: string;
+  note?: string;
+  /** Admin user id, or 'system'. */
+  initiatedBy: string;
+}
+
+export type RefundResult =
+  | { success: true; order: Order; refund: RefundRecord }
+  | { success: false; error: string; status: number };
+
+type RefundError = { success: false; error: string; status: number };
+
+// ---------------------------------------------------------------------------
+// Firebase Admin - lazy import
+// ---------------------------------------------------------------------------
+
+function hasAdminCredentials(): boolean {
+  return !!(
+    process.env.FIREBASE_ADMIN_CLIENT_EMAIL &&
+    process.env.FIREBASE_ADMIN_PRIVATE_KEY
+  );
+}
+
+async function getAdminDb() {
+  const { adminDb } = await import('@/lib/firebase-admin');
+  return adminDb;
+}
+
+/** Dates → ISO strings, including inside nested plain objects and arrays. */
+function toStored(value: unknown): unknown {
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map(toStored);
+  if (value && Object.getPrototypeOf(value) === Object.prototype) {
+    const out: Record<string, unknown> = {};
+    for (const [key, field] of Object.entries(value)) {
+      if (field !== undefined) out[key] = toStored(field);
+    }
+    return out;
+  }
+  return value;
+}
+
+function toPaisa(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+// ---------------------------------------------------------------------------
+// Storage
+// ---------------------------------------------------------------------------
+
+type OrderStep<T> = { patch: OrderPatch; result: T } | RefundError;
+
+/**
+ * Reads the order, lets `step` decide what to write, and writes it against
+ * the order it read: in a Firestore transaction, or synchronously in the
+ * demo store (nothing else can run between the read and the write).
+ */
+async function withOrder<T>(
+  orderId: string,
+  step: (order: Order) => OrderStep<T>
+): Promise<{ success: true; order: Order; result: T } | RefundError> {
+  const stamp = (patch: OrderPatch): OrderPatch => ({ ...patch, updatedAt: new Date() });
+
+  if (!hasAdminCredentials()) {
+    const current = store.getOrder(orderId);
+    if (!current) return { success: false, error: 'Order not found.', status: 404 };
+    const outcome = step(current);
+    if ('error' in outcome) return outcome;
+    const order = applyOrderPatch(current, stamp(outcome.patch));
+    store.upsertOrder(order);
+    hotCache.delete(`order:${orderId}`);
+    return { success: true, order, result: outcome.result };
+  }
+
+  // Earlier patches to the order may still be buffered
+  await batchWriter.flush();
+  const adminDb = await getAdminDb();
+  const orderRef = adminDb.collection('orders').doc(orderId);
+  const written = await firestoreBreaker.execute(() =>
+    adminDb.runTransaction(async (tx) => {
+      const snap = await tx.get(orderRef);
+      if (!snap.exists) return { success: false as const, error: 'Order not found.', status: 404 };
+      const current = { ...snap.data(), id: snap.id } as Order;
+      const outcome = step(current);
+      if ('error' in outcome) return outcome;
+      const patch = stamp(outcome.patch);
+      tx.update(orderRef, toStored(patch) as Record<string, unknown>);
+      return { success: true as const, order: applyOrderPatch(current, patch), result: outcome.result };
+    })
+  );
+  hotCache.delete(`order:${orderId}`);
+  return written;
+}
+
+// ---------------------------------------------------------------------------
+// Refunds
+// ---------------------------------------------------------------------------
+
+/**
+ * Refunds (part of) an order's payment. Fails without side effects when the
+ * payment is not refundable, the amount exceeds the remaining balance (less
+ * refunds still in flight), or the gateway rejects the refund.
+ */
+export async function refundOrder(
+  orderId: string,
+  request: RefundRequest
+): Promise<RefundResult> {
+  if (!getRefundReasonLabel(request.reason)) {
+    return { success: false, error: `Invalid refund reason '${request.reason}'.`, status: 400 };
+  }
+
+  // 1. Reserve the amount
+  const reserved = await withOrder<{ amount: number; paymentId: string }>(orderId, (order) => {
+    const { payment } = order;
+    const remaining = refundableAmount(payment);
+    if (remaining <= 0) {
+      return {
+        success: false,
+        error: `Order payment is not refundable (method '${payment.method}', status '${payment.status}').`,
+        status: 409,
+      };
+    }
+    const paymentId = payment.razorpayPaymentId || payment.transactionId;
+    if (!paymentId) {
+      return { success: false, error: 'Order has no captured payment to refund.', status: 409 };
+    }
+    const checked = validateRefundAmount(request.amount ?? remaining, remaining);
+    if ('error' in checked) return { success: false, error: checked.error, status: 400 };
+
+    return {
+      patch: { 'payment.refundPending': toPaisa((payment.refundPending ?? 0) + checked.amount) },
+      result: { amount: checked.amount, paymentId },
+    };
+  });
+  if (!reserved.success) return reserved;
+  const { amount, paymentId } = reserved.result;
+
+  // 2. Refund through the gateway
+  let gatewayRefund: Awaited<ReturnType<typeof createRefund>>;
+  try {
+    gatewayRefund = await createRefund(paymentId, Math.round(amount * 100), {
+      orderId,
+      reason: request.reason,
+    });
+  } catch (err) {
+    console.error(`[Refunds] Gateway refund failed for order ${orderId}:`, err);
+    await withOrder(orderId, (order) => ({
+      patch: { 'payment.refundPending': releasePending(order, amount) },
+      result: null,
+    }));
+    return { success: false, error: 'Payment gateway rejected the refund.', status: 502 };
+  }
+
+  // 3. Record it and clear the reservation
+  const now = new Date();
+  const refund: RefundRecord = {
+    id: gatewayRefund.id,
+    amount,
+    status: gatewayRefund.status,
+    reason: request.reason,
+    ...(request.note ? { note: request.note } : {}),
+    initiatedBy: request.initiatedBy,
+    createdAt: now,
+    ...(gatewayRefund.status === 'processed' ? { processedAt: now } : {}),
+  };
+
+  const recorded = await withOrder(orderId, (order) => {
+    const { payment } = order;
+    const refundedAmount = toPaisa((payment.refundedAmount ?? 0) + amount);
+    return {
+      patch: {
+        'payment.status': paymentStatusAfterRefund(payment.amount, refundedAmount),
+        'payment.refundId': refund.id,
+        'payment.refundedAmount': refundedAmount,
+        'payment.refundPending': releasePending(order, amount),
+        'payment.refunds': [...(payment.refunds ?? []), refund],
+      },
+      result: null,
+    };
+  });
+  if (!recorded.success) {
+    // The money has gone back; make sure the refund is not lost from the logs
+    console.error(`[Refunds] Refund ${refund.id} for order ${orderId} was not recorded:`, recorded.error);
+    return recorded;
+  }
+
+  try {
+    await recordRefundClawback(recorded.order, refund, now);
+  } catch (err) {
+    console.error(`[Refunds] Ledger clawback failed for refund ${refund.id}:`, err);
+  }
+
+  return { success: true, refund, order: recorded.order };
+}
+
+/** `refundPending` once `amount` is no longer in flight. */
+function releasePending(order: Order, amount: number): number {
+  return Math.max(0, toPaisa((order.payment.refundPending ?? 0) - amount));
+}
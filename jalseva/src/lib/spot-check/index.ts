@@ -0,0 +1,171 @@
+// =============================================================================
+// JalSeva - Customer Spot-Check Rules
+// =============================================================================
+// Customers with a TDS or pH meter can log a reading of their delivery for
+// SPOT_CHECK_WINDOW_HOURS after it arrives. The reading is stored on the
+// order and added to the supplier's rolling window of the last
+// SPOT_CHECK_WINDOW readings, which counts towards their quality score
+// alongside the lab report (see calculateQualityScore in '@/lib/quality').
+//
+// When at least MISMATCH_MIN_READINGS readings taken since the lab test
+// have a median far from the certificate, the supplier is flagged for an
+// admin. Medians keep one miscalibrated meter from flagging anyone.
+//
+// Pure and client-safe; storage lives in './server'.
+// =============================================================================
+
+import type {
+  Order,
+  SpotCheckMismatch,
+  SupplierSpotCheck,
+  SupplierSpotChecks,
+  WaterQualityReport,
+} from '@/types';
+
+// ---------------------------------------------------------------------------
+// Limits
+// ---------------------------------------------------------------------------
+
+/** How long after delivery the customer can log a reading. */
+export const SPOT_CHECK_WINDOW_HOURS = 24;
+
+/** Readings kept per supplier. */
+export const SPOT_CHECK_WINDOW = 20;
+
+/** Readings since the lab test needed before a disagreement is flagged. */
+export const MISMATCH_MIN_READINGS = 3;
+
+/** TDS disagreement: the larger of this many ppm or this share of the lab value. */
+export const TDS_TOLERANCE_PPM = 50;
+export const TDS_TOLERANCE_SHARE = 0.25;
+
+/** pH disagreement, in pH units. */
+export const PH_TOLERANCE = 0.5;
+
+// ---------------------------------------------------------------------------
+// Entry
+// ---------------------------------------------------------------------------
+
+export interface SpotCheckEntry {
+  tds?: number;
+  ph?: number;
+}
+
+/** The readings to keep, or an error message. */
+export function cleanSpotCheck(entry: {
+  tds?: unknown;
+  ph?: unknown;
+}): { reading: SpotCheckEntry } | { error: string } {
+  const reading: SpotCheckEntry = {};
+  if (entry.tds !== undefined) {
+    if (typeof entry.tds !== 'number' || !Number.isFinite(entry.tds) || entry.tds < 0 || entry.tds > 5000) {
+      return { error: 'TDS must be a number between 0 and 5000 ppm.' };
+    }
+    reading.tds = Math.round(entry.tds);
+  }
+  if (entry.ph !== undefined) {
+    if (typeof entry.ph !== 'number' || !Number.isFinite(entry.ph) || entry.ph < 0 || entry.ph > 14) {
+      return { error: 'pH must be a number between 0 and 14.' };
+    }
+    reading.ph = Math.round(entry.ph * 10) / 10;
+  }
+  if (reading.tds === undefined && reading.ph === undefined) {
+    return { error: 'Enter a TDS or pH reading.' };
+  }
+  return { reading };
+}
+
+/** Why the customer cannot log a reading on this order now, if they can't. */
+export function spotCheckBlocker(
+  order: Pick<Order, 'status' | 'deliveredAt' | 'deliveryVerification'>,
+  now: Date = new Date()
+): string | null {
+  if (order.status !== 'delivered') return 'Readings can be logged once the order is delivered.';
+  if (order.deliveryVerification?.spotCheck) return 'A reading has already been logged for this order.';
+  if (
+    order.deliveredAt &&
+    now.getTime() - new Date(order.deliveredAt).getTime() > SPOT_CHECK_WINDOW_HOURS * 3_600_000
+  ) {
+    return `Readings can only be logged within ${SPOT_CHECK_WINDOW_HOURS} hours of delivery.`;
+  }
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Supplier window and mismatch
+// ---------------------------------------------------------------------------
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * How customers' readings since the lab test compare with it, or null when
+ * they agree (or there are too few to say).
+ */
+export function spotCheckMismatch(
+  recent: SupplierSpotCheck[],
+  lab: Pick<WaterQualityReport, 'ph' | 'tds' | 'testedAt'> | undefined,
+  now: Date = new Date()
+): SpotCheckMismatch | null {
+  if (!lab) return null;
+  const since = recent.filter((r) => new Date(r.at).getTime() >= new Date(lab.testedAt).getTime());
+  const tdsValues = since.map((r) => r.tds).filter((v): v is number => v !== undefined);
+  const phValues = since.map((r) => r.ph).filter((v): v is number => v !== undefined);
+
+  const params: SpotCheckMismatch['params'] = [];
+  let tdsMedian: number | undefined;
+  let phMedian: number | undefined;
+
+  if (tdsValues.length >= MISMATCH_MIN_READINGS) {
+    tdsMedian = median(tdsValues);
+    const tolerance = Math.max(TDS_TOLERANCE_PPM, lab.tds * TDS_TOLERANCE_SHARE);
+    if (Math.abs(tdsMedian - lab.tds) > tolerance) params.push('tds');
+  }
+  if (phValues.length >= MISMATCH_MIN_READINGS) {
+    phMedian = Math.round(median(phValues) * 100) / 100;
+    if (Math.abs(phMedian - lab.ph) > PH_TOLERANCE) params.push('ph');
+  }
+  if (params.length === 0) return null;
+
+  return {
+    params,
+    ...(tdsMedian !== undefined ? { tdsMedian } : {}),
+    ...(phMedian !== undefined ? { phMedian } : {}),
+    labTds: lab.tds,
+    labPh: lab.ph,
+    readings: since.length,
+    flaggedAt: now,
+  };
+}
+
+/**
+ * The supplier's spot checks with a new reading added (oldest dropped past
+ * SPOT_CHECK_WINDOW) and the mismatch re-evaluated. An existing flag keeps
+ * its original flaggedAt.
+ */
+export function addSpotCheck(
+  current: SupplierSpotChecks | undefined,
+  reading: SupplierSpotCheck,
+  lab: Pick<WaterQualityReport, 'ph' | 'tds' | 'testedAt'> | undefined,
+  now: Date = new Date()
+): SupplierSpotChecks {
+  const recent = [...(current?.recent ?? []), reading].slice(-SPOT_CHECK_WINDOW);
+  return withMismatch({ recent, mismatch: current?.mismatch }, lab, now);
+}
+
+/** Re-evaluates the mismatch, e.g. after a new lab report. */
+export function withMismatch(
+  spotChecks: SupplierSpotChecks,
+  lab: Pick<WaterQualityReport, 'ph' | 'tds' | 'testedAt'> | undefined,
+  now: Date = new Date()
+): SupplierSpotChecks {
+  const mismatch = spotCheckMismatch(spotChecks.recent, lab, now);
+  if (!mismatch) return { recent: spotChecks.recent };
+  return {
+    recent: spotChecks.recent,
+    mismatch: spotChecks.mismatch ? { ...mismatch, flaggedAt: spotChecks.mismatch.flaggedAt } : mismatch,
+  };
+}
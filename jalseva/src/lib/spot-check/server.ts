@@ -0,0 +1,167 @@
+// =============================================================================
+// JalSeva - Customer Spot Checks (Server-Side)
+// =============================================================================
+// Stores the customer's reading on the order, then adds it to the supplier's
+// spot-check window, re-evaluates the lab-report mismatch and rescores the
+// supplier. The supplier update runs after the order write; if it fails the
+// reading stays on the order but does not count towards the score.
+// =============================================================================
+
+import { firestoreBreaker } from '@/lib/circuit-breaker';
+import * as store from '@/lib/demo-store';
+import { supplierIndex } from '@/lib/geohash';
+import { loadOrder, patchOrder } from '@/lib/order-lifecycle';
+import { calculateQualityScore, inRange } from '@/lib/quality';
+import { rankingRating } from '@/lib/ratings';
+import type { SpotCheckMismatch, SpotCheckReading, Supplier, SupplierSpotChecks } from '@/types';
+import { addSpotCheck, cleanSpotCheck, spotCheckBlocker } from './index';
+
+// ---------------------------------------------------------------------------
+// Firebase Admin - lazy import
+// ---------------------------------------------------------------------------
+
+function hasAdminCredentials(): boolean {
+  return !!(
+    process.env.FIREBASE_ADMIN_CLIENT_EMAIL &&
+    process.env.FIREBASE_ADMIN_PRIVATE_KEY
+  );
+}
+
+async function getAdminDb() {
+  const { adminDb } = await import('@/lib/firebase-admin');
+  return adminDb;
+}
+
+export type SpotCheckResult =
+  | {
+      success: true;
+      spotCheck: SpotCheckReading;
+      /** Whether each logged reading is within the safe range. */
+      inRange: { tds?: boolean; ph?: boolean };
+      /** Set when the supplier is (still) flagged after this reading. */
+      mismatch: SpotCheckMismatch | null;
+    }
+  | { success: false; error: string; status: number };
+
+/** Logs the customer's TDS/pH reading for their delivered order. */
+export async function recordSpotCheck(
+  orderId: string,
+  customerId: string,
+  entry: { tds?: unknown; ph?: unknown },
+  now: Date = new Date()
+): Promise<SpotCheckResult> {
+  const cleaned = cleanSpotCheck(entry);
+  if ('error' in cleaned) return { success: false, error: cleaned.error, status: 400 };
+  const { reading } = cleaned;
+
+  const order = await loadOrder(orderId);
+  if (!order) return { success: false, error: 'Order not found.', status: 404 };
+  if (order.customerId !== customerId) {
+    return { success: false, error: 'Only the customer can log a reading for this order.', status: 403 };
+  }
+  const blocker = spotCheckBlocker(order, now);
+  if (blocker) return { success: false, error: blocker, status: 409 };
+
+  const spotCheck: SpotCheckReading = { ...reading, recordedBy: customerId, recordedAt: now };
+  await patchOrder(orderId, { 'deliveryVerification.spotCheck': spotCheck });
+
+  // --- Post-write: the supplier's window, mismatch flag and score ---
+  let mismatch: SpotCheckMismatch | null = null;
+  if (order.supplierId) {
+    try {
+      const spotChecks = await addToSupplier(order.supplierId, { orderId, ...reading, at: now }, now);
+      mismatch = spotChecks?.mismatch ?? null;
+    } catch (err) {
+      console.error(`[SpotCheck] Supplier update failed for ${order.supplierId}:`, err);
+    }
+  }
+
+  return {
+    success: true,
+    spotCheck,
+    inRange: {
+      ...(reading.tds !== undefined ? { tds: inRange('tds', reading.tds) } : {}),
+      ...(reading.ph !== undefined ? { ph: inRange('ph', reading.ph) } : {}),
+    },
+    mismatch,
+  };
+}
+
+function rescore(supplier: Supplier, spotChecks: SupplierSpotChecks, now: Date): number | undefined {
+  if (!supplier.waterQualityReport) return undefined;
+  return calculateQualityScore(
+    {
+      ...supplier.waterQualityReport,
+      supplierRating: rankingRating(supplier.rating) ?? 0,
+      spotChecks: spotChecks.recent,
+    },
+    now
+  );
+}
+
+function toStoredSpotChecks(spotChecks: SupplierSpotChecks): Record<string, unknown> {
+  return {
+    recent: spotChecks.recent.map((r) => ({ ...r, at: new Date(r.at).toISOString() })),
+    ...(spotChecks.mismatch
+      ? {
+          mismatch: {
+            ...spotChecks.mismatch,
+            flaggedAt: new Date(spotChecks.mismatch.flaggedAt).toISOString(),
+          },
+        }
+      : {}),
+  };
+}
+
+async function addToSupplier(
+  supplierId: string,
+  reading: SupplierSpotChecks['recent'][number],
+  now: Date
+): Promise<SupplierSpotChecks | null> {
+  let result: { spotChecks: SupplierSpotChecks; qualityScore?: number } | null = null;
+
+  if (!hasAdminCredentials()) {
+    const supplier = store.getSupplier(supplierId);
+    if (!supplier) return null;
+    const spotChecks = addSpotCheck(supplier.spotChecks, reading, supplier.waterQualityReport, now);
+    const qualityScore = rescore(supplier, spotChecks, now);
+    store.upsertSupplier({
+      ...supplier,
+      spotChecks,
+      ...(qualityScore !== undefined ? { qualityScore } : {}),
+    });
+    result = { spotChecks, qualityScore };
+  } else {
+    const adminDb = await getAdminDb();
+    const ref = adminDb.collection('suppliers').doc(supplierId);
+    result = await firestoreBreaker.execute(() =>
+      adminDb.runTransaction(async (tx) => {
+        const snap = await tx.get(ref);
+        if (!snap.exists) return null;
+        const supplier = { ...snap.data(), id: snap.id } as Supplier;
+        const spotChecks = addSpotCheck(supplier.spotChecks, reading, supplier.waterQualityReport, now);
+        const qualityScore = rescore(supplier, spotChecks, now);
+        tx.update(ref, {
+          spotChecks: toStoredSpotChecks(spotChecks),
+          ...(qualityScore !== undefined ? { qualityScore } : {}),
+          updatedAt: now.toISOString(),
+        });
+        return { spotChecks, qualityScore };
+      })
+    );
+  }
+  if (!result) return null;
+
+  if (result.spotChecks.mismatch) {
+    const { params, tdsMedian, phMedian, labTds, labPh } = result.spotChecks.mismatch;
+    console.warn(
+      `[SpotCheck] ${supplierId}: customer readings disagree with the lab report on ${params.join(', ')} ` +
+        `(TDS ${tdsMedian ?? '-'} vs ${labTds}, pH ${phMedian ?? '-'} vs ${labPh})`
+    );
+  }
+
+  if (result.qualityScore !== undefined) {
+    supplierIndex.patchOwner(supplierId, { qualityScore: result.qualityScore });
+  }
+  return result.spotChecks;
+}
@@ -0,0 +1,352 @@
+// =============================================================================
+// JalSeva - Prepaid Subscription Billing
+// =============================================================================
+// Instead of paying for each delivery, a customer can prepay their plan a
+// month (India calendar) at a time through a UPI AutoPay mandate:
+//
+//   1. At the start of each month an invoice is issued for the month's
+//      scheduled deliveries, less the skips and holds already known, at the
+//      plan's price per delivery. A plan that starts prepaying mid-month is
+//      billed from that day on: the first invoice is prorated.
+//   2. The invoice is charged to the mandate. Once paid, its deliveries
+//      become `prepaidDeliveries`; each order the scheduler generates that
+//      month uses one up and is created already paid.
+//   3. Prepaid deliveries the month did not use (skipped or held later, the
+//      plan paused, a delivery whose quantity was changed and so priced on
+//      its own) become `credit`, taken off the next invoice.
+//
+// A failed charge starts dunning. It is retried DUNNING_RETRY_HOURS after the
+// first failure while deliveries go on, paid per delivery, for
+// GRACE_PERIOD_DAYS. If the invoice is still unpaid when the grace period
+// ends, the plan is paused (`suspended`) until the customer pays it.
+//
+// Pure and client-safe; storage, charging and the billing run live in
+// './server'.
+// =============================================================================
+
+import type {
+  Order,
+  SubscriptionBilling,
+  SubscriptionChargeAttempt,
+  SubscriptionChargeClaim,
+  SubscriptionInvoice,
+  SubscriptionPlan,
+} from '@/types';
+import {
+  FREQUENCY_DAYS,
+  deliveryDateKey,
+  isOnHold,
+  isSkipped,
+  nextSlot,
+} from '@/lib/subscriptions';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** UPI AutoPay charges up to this many rupees need no approval each time. */
+export const MANDATE_MAX_AMOUNT = 15_000;
+
+/** Retries of a failed charge, in hours after the first failure. */
+export const DUNNING_RETRY_HOURS = [24, 72, 120] as const;
+
+/** Days after the first failed charge before the plan is paused. */
+export const GRACE_PERIOD_DAYS = 7;
+
+/** Minutes a charge under way holds off others before it is taken as lost. */
+export const CHARGE_CLAIM_MINUTES = 10;
+
+const HOUR_MS = 60 * 60_000;
+const DAY_MS = 24 * HOUR_MS;
+
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+// ---------------------------------------------------------------------------
+// Periods
+// ---------------------------------------------------------------------------
+
+/** The billing month (YYYY-MM, India) that `at` falls in. */
+export function billingPeriod(at: Date | string): string {
+  return deliveryDateKey(at).slice(0, 7);
+}
+
+/** The first and last India dates of a billing month. */
+export function periodBounds(period: string): { from: string; until: string } {
+  const [year, month] = period.split('-').map(Number);
+  const last = new Date(Date.UTC(year, month, 0)).toISOString().slice(0, 10);
+  return { from: `${period}-01`, until: last };
+}
+
+export function subscriptionInvoiceId(subscriptionId: string, period: string): string {
+  return `${subscriptionId}_${period}`;
+}
+
+/** A UPI id such as `name@okaxis`. */
+export function isVpa(value: unknown): value is string {
+  return typeof value === 'string' && /^[\w.-]{2,256}@[a-zA-Z]{2,64}$/.test(value);
+}
+
+// ---------------------------------------------------------------------------
+// Invoices
+// ---------------------------------------------------------------------------
+
+type Billable = Pick<
+  SubscriptionPlan,
+  | 'id'
+  | 'customerId'
+  | 'frequency'
+  | 'weekdays'
+  | 'deliveryWindow'
+  | 'nextDeliveryDate'
+  | 'skippedDates'
+  | 'hold'
+  | 'pricePerDelivery'
+>;
+
+/** Scheduled deliveries from `nextDeliveryDate` dated `from`–`until`. */
+export function countDeliveries(subscription: Billable, from: string, until: string): number {
+  let count = 0;
+  let slot = new Date(subscription.nextDeliveryDate);
+  for (let key = deliveryDateKey(slot); key <= until; key = deliveryDateKey(slot)) {
+    if (key >= from && !isSkipped(subscription, slot) && !isOnHold(subscription, slot)) count++;
+    slot = nextSlot(subscription, slot);
+  }
+  return count;
+}
+
+/**
+ * The most a month of the plan can cost, for checking it fits under the
+ * mandate limit before the customer signs one.
+ */
+export function maxMonthlyAmount(
+  subscription: Pick<SubscriptionPlan, 'frequency' | 'weekdays' | 'pricePerDelivery'>
+): number {
+  const deliveries = subscription.weekdays?.length
+    ? subscription.weekdays.length * 5
+    : Math.ceil(31 / FREQUENCY_DAYS[subscription.frequency]);
+  return round(deliveries * subscription.pricePerDelivery);
+}
+
+/**
+ * The invoice for the month `now` is in, and the billing it leaves. Prepaid
+ * deliveries left over from the last month are turned into credit first;
+ * credit then comes off this invoice. An invoice the credit covers is paid
+ * as issued.
+ */
+export function planInvoice(
+  subscription: Billable & { billing: SubscriptionBilling },
+  now: Date = new Date()
+): { invoice: SubscriptionInvoice; billing: SubscriptionBilling } {
+  const { billing } = subscription;
+  const period = billingPeriod(now);
+  const bounds = periodBounds(period);
+  const today = deliveryDateKey(now);
+  const from = today > bounds.from ? today : bounds.from;
+
+  const deliveries = countDeliveries(subscription, from, bounds.until);
+  const subtotal = round(deliveries * subscription.pricePerDelivery);
+  const available = round(
+    billing.credit + Math.max(0, billing.prepaidDeliveries) * subscription.pricePerDelivery
+  );
+  const credit = Math.min(available, subtotal);
+  const amount = round(subtotal - credit);
+  const paid = amount === 0;
+
+  return {
+    invoice: {
+      id: subscriptionInvoiceId(subscription.id, period),
+      subscriptionId: subscription.id,
+      customerId: subscription.customerId,
+      period,
+      from,
+      until: bounds.until,
+      prorated: from !== bounds.from,
+      deliveries,
+      pricePerDelivery: subscription.pricePerDelivery,
+      subtotal,
+      credit,
+      amount,
+      status: paid ? 'paid' : 'pending',
+      attempts: [],
+      createdAt: now,
+      ...(paid ? { paidAt: now } : {}),
+    },
+    billing: {
+      ...billing,
+      period,
+      prepaidDeliveries: paid ? deliveries : 0,
+      paymentId: undefined,
+      credit: round(available - credit),
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Billing runs and dunning
+// ---------------------------------------------------------------------------
+
+export type BillingAction = 'issue' | 'retry' | 'suspend';
+
+/** What a billing run does for the subscription at `now`, if anything. */
+export function planBilling(
+  subscription: Pick<SubscriptionPlan, 'billing' | 'isActive' | 'cancelledAt'>,
+  now: Date = new Date()
+): BillingAction | null {
+  const { billing } = subscription;
+  if (!billing || billing.status === 'suspended' || subscription.cancelledAt) return null;
+
+  if (billing.dunning) {
+    const { nextRetryAt, graceEndsAt } = billing.dunning;
+    if (nextRetryAt && new Date(nextRetryAt).getTime() <= now.getTime()) return 'retry';
+    if (new Date(graceEndsAt).getTime() <= now.getTime()) return 'suspend';
+    return null;
+  }
+
+  // A paused plan is billed from the day it resumes
+  if (billing.mandate.status !== 'active' || !subscription.isActive) return null;
+  return billing.period === billingPeriod(now) ? null : 'issue';
+}
+
+/**
+ * The claim to write on an invoice before charging it, or null when it is
+ * paid or another charge is under way. A claim whose outcome was never
+ * recorded lapses after CHARGE_CLAIM_MINUTES; the next claim presents the
+ * same receipt, so the gateway still charges once.
+ */
+export function claimCharge(
+  invoice: Pick<SubscriptionInvoice, 'id' | 'status' | 'attempts' | 'charging'>,
+  now: Date = new Date()
+): SubscriptionChargeClaim | null {
+  if (invoice.status === 'paid') return null;
+  const claimedAt = invoice.charging ? new Date(invoice.charging.at).getTime() : null;
+  if (claimedAt !== null && now.getTime() - claimedAt < CHARGE_CLAIM_MINUTES * 60_000) return null;
+  return { receipt: `${invoice.id}_${invoice.attempts.length + 1}`, at: now };
+}
+
+type ChargeOutcome = {
+  invoice: Partial<SubscriptionInvoice>;
+  subscription: Partial<SubscriptionPlan>;
+};
+
+/**
+ * The writes for a charge attempt on an invoice. A success ends dunning and
+ * resumes a plan it paused; a failure schedules the next retry, if any are
+ * left.
+ */
+export function chargeOutcome(
+  subscription: Pick<SubscriptionPlan, 'frequency' | 'weekdays' | 'deliveryWindow' | 'isActive'> & {
+    billing: SubscriptionBilling;
+  },
+  invoice: SubscriptionInvoice,
+  attempt: SubscriptionChargeAttempt,
+  now: Date = new Date()
+): ChargeOutcome {
+  const { billing } = subscription;
+  const attempts = [...invoice.attempts, attempt];
+
+  if (attempt.success) {
+    const resumed = billing.status === 'suspended';
+    const current = invoice.period === billing.period;
+    return {
+      invoice: { status: 'paid', attempts, paymentId: attempt.paymentId, paidAt: now },
+      subscription: {
+        billing: {
+          ...billing,
+          status: 'active',
+          dunning: null,
+          ...(current ? { prepaidDeliveries: invoice.deliveries, paymentId: attempt.paymentId } : {}),
+        },
+        ...(resumed ? { isActive: true, nextDeliveryDate: nextSlot(subscription, now) } : {}),
+        updatedAt: now,
+      },
+    };
+  }
+
+  if (billing.status === 'suspended') {
+    return { invoice: { attempts }, subscription: { updatedAt: now } };
+  }
+
+  const failures = (billing.dunning?.failures ?? 0) + 1;
+  const since = billing.dunning ? new Date(billing.dunning.since) : now;
+  const retryHours = DUNNING_RETRY_HOURS[failures - 1];
+  return {
+    invoice: { attempts },
+    subscription: {
+      billing: {
+        ...billing,
+        status: 'past_due',
+        dunning: {
+          invoiceId: invoice.id,
+          failures,
+          since,
+          nextRetryAt:
+            retryHours === undefined ? null : new Date(since.getTime() + retryHours * HOUR_MS),
+          graceEndsAt: new Date(since.getTime() + GRACE_PERIOD_DAYS * DAY_MS),
+        },
+      },
+      updatedAt: now,
+    },
+  };
+}
+
+/** The writes that pause a plan whose grace period ran out unpaid. */
+export function suspension(
+  subscription: { billing: SubscriptionBilling },
+  now: Date = new Date()
+): ChargeOutcome {
+  const { billing } = subscription;
+  return {
+    invoice: { status: 'failed' },
+    subscription: {
+      isActive: false,
+      billing: {
+        ...billing,
+        status: 'suspended',
+        dunning: billing.dunning ? { ...billing.dunning, nextRetryAt: null } : null,
+      },
+      updatedAt: now,
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Prepaid orders
+// ---------------------------------------------------------------------------
+
+/**
+ * A generated order paid for out of the month's prepaid deliveries, and the
+ * billing left. Null when the order is paid per delivery instead: nothing
+ * prepaid is left for its month, or its quantity was changed for the day.
+ */
+export function spendPrepaidDelivery(
+  subscription: Pick<SubscriptionPlan, 'quantityLitres' | 'billing'>,
+  order: Order,
+  now: Date = new Date()
+): { order: Order; billing: SubscriptionBilling } | null {
+  const { billing } = subscription;
+  if (
+    !billing ||
+    billing.prepaidDeliveries <= 0 ||
+    !order.scheduledFor ||
+    billing.period !== billingPeriod(order.scheduledFor) ||
+    order.quantityLitres !== subscription.quantityLitres
+  ) {
+    return null;
+  }
+  return {
+    order: {
+      ...order,
+      payment: {
+        ...order.payment,
+        method: 'upi',
+        status: 'paid',
+        ...(billing.paymentId ? { razorpayPaymentId: billing.paymentId } : {}),
+        transactionId: subscriptionInvoiceId(order.subscriptionId ?? '', billing.period),
+        paidAt: now,
+      },
+    },
+    billing: { ...billing, prepaidDeliveries: billing.prepaidDeliveries - 1 },
+  };
+}
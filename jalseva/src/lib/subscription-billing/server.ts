@@ -0,0 +1,540 @@
+// =============================================================================
+// JalSeva - Prepaid Subscription Billing (Server-Side)
+// =============================================================================
+// Mandates, invoices and charges for prepaid plans (see './index').
+//
+// AutoPay setup is two steps, as with a real UPI mandate: setupMandate
+// registers it with Razorpay (`pending`), and confirmMandate records the
+// customer's approval and bills the rest of the month straight away.
+//
+// The billing run (runSubscriptionBilling) goes through billed plans and,
+// for each, does what planBilling says is due:
+//
+//   issue    the month's invoice is created and `billing.period` moved on,
+//            together; the invoice id is `${subscriptionId}_${YYYY-MM}`, so
+//            a second run or worker finds it there and does nothing. Then it
+//            is charged.
+//   retry    the retry is claimed by clearing `dunning.nextRetryAt`, then
+//            the invoice is charged again.
+//   suspend  the plan is paused and its invoice marked failed.
+//
+// Every charge first claims the invoice (`charging`, with a receipt per
+// attempt) in a transaction, so the billing run and a customer paying at the
+// same moment charge once. The charge goes to Razorpay after the claim
+// commits; the outcome, which clears the claim, is written in a second
+// transaction. The run happens on the subscription scheduler's
+// timer, before orders are generated, and from its cron trigger.
+// =============================================================================
+
+import { firestoreBreaker } from '@/lib/circuit-breaker';
+import * as store from '@/lib/demo-store';
+import {
+  cancelMandate as cancelRazorpayMandate,
+  chargeMandate,
+  confirmMandate as confirmRazorpayMandate,
+  createMandate,
+} from '@/lib/razorpay';
+import type {
+  SubscriptionChargeAttempt,
+  SubscriptionInvoice,
+  SubscriptionPlan,
+} from '@/types';
+import {
+  type BillingAction,
+  MANDATE_MAX_AMOUNT,
+  billingPeriod,
+  chargeOutcome,
+  claimCharge,
+  isVpa,
+  maxMonthlyAmount,
+  planBilling,
+  planInvoice,
+  subscriptionInvoiceId,
+  suspension,
+} from './index';
+
+// ---------------------------------------------------------------------------
+// Firebase Admin - lazy import
+// ---------------------------------------------------------------------------
+
+function hasAdminCredentials(): boolean {
+  return !!(
+    process.env.FIREBASE_ADMIN_CLIENT_EMAIL &&
+    process.env.FIREBASE_ADMIN_PRIVATE_KEY
+  );
+}
+
+async function getAdminDb() {
+  const { adminDb } = await import('@/lib/firebase-admin');
+  return adminDb;
+}
+
+/** Dates → ISO strings, including inside nested plain objects and arrays. */
+function toStored(value: unknown): unknown {
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map(toStored);
+  if (value && Object.getPrototypeOf(value) === Object.prototype) {
+    const out: Record<string, unknown> = {};
+    for (const [key, field] of Object.entries(value)) {
+      if (field !== undefined) out[key] = toStored(field);
+    }
+    return out;
+  }
+  return value;
+}
+
+function stored(data: object): Record<string, unknown> {
+  return toStored(data) as Record<string, unknown>;
+}
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type BillingResult =
+  | { success: true; subscription: SubscriptionPlan; invoice?: SubscriptionInvoice }
+  | { success: false; error: string; status: number };
+
+export interface BillingRun {
+  subscriptionId: string;
+  action: BillingAction;
+  invoiceId?: string;
+  /** The invoice's status once the run is done with it. */
+  invoiceStatus?: SubscriptionInvoice['status'];
+}
+
+type Step<T> = {
+  result: T;
+  subscription?: Partial<SubscriptionPlan>;
+  invoice?: SubscriptionInvoice;
+} | null;
+
+// ---------------------------------------------------------------------------
+// Storage
+// ---------------------------------------------------------------------------
+
+async function loadSubscription(subscriptionId: string): Promise<SubscriptionPlan | null> {
+  if (!hasAdminCredentials()) return store.getSubscription(subscriptionId);
+  const adminDb = await getAdminDb();
+  const snap = await firestoreBreaker.execute(() =>
+    adminDb.collection('subscriptions').doc(subscriptionId).get()
+  );
+  return snap.exists ? ({ ...snap.data(), id: snap.id } as SubscriptionPlan) : null;
+}
+
+async function loadInvoice(invoiceId: string): Promise<SubscriptionInvoice | null> {
+  if (!hasAdminCredentials()) return store.getSubscriptionInvoice(invoiceId);
+  const adminDb = await getAdminDb();
+  const snap = await firestoreBreaker.execute(() =>
+    adminDb.collection('subscription_invoices').doc(invoiceId).get()
+  );
+  return snap.exists ? ({ ...snap.data(), id: snap.id } as SubscriptionInvoice) : null;
+}
+
+async function listBilledSubscriptions(): Promise<SubscriptionPlan[]> {
+  if (!hasAdminCredentials()) return store.listBilledSubscriptions();
+  const adminDb = await getAdminDb();
+  const snap = await firestoreBreaker.execute(() =>
+    adminDb
+      .collection('subscriptions')
+      .where('billing.status', 'in', ['active', 'past_due'])
+      .limit(500)
+      .get()
+  );
+  return snap.docs.map((d) => ({ ...d.data(), id: d.id }) as SubscriptionPlan);
+}
+
+/** A subscription's invoices, latest month first. */
+export async function listSubscriptionInvoices(
+  subscriptionId: string
+): Promise<SubscriptionInvoice[]> {
+  if (!hasAdminCredentials()) return store.listSubscriptionInvoices(subscriptionId);
+  const adminDb = await getAdminDb();
+  const snap = await firestoreBreaker.execute(() =>
+    adminDb
+      .collection('subscription_invoices')
+      .where('subscriptionId', '==', subscriptionId)
+      .orderBy('period', 'desc')
+      .limit(24)
+      .get()
+  );
+  return snap.docs.map((d) => ({ ...d.data(), id: d.id }) as SubscriptionInvoice);
+}
+
+/**
+ * Reads the subscription (and the invoice `invoiceIdOf` names), lets `step`
+ * decide what to write, and writes it together: in a Firestore transaction,
+ * or synchronously in the demo store. Null when the subscription does not
+ * exist or `step` writes nothing.
+ */
+async function withBilling<T>(
+  subscriptionId: string,
+  invoiceIdOf: (subscription: SubscriptionPlan) => string | null,
+  step: (subscription: SubscriptionPlan, invoice: SubscriptionInvoice | null) => Step<T>
+): Promise<T | null> {
+  if (!hasAdminCredentials()) {
+    const current = store.getSubscription(subscriptionId);
+    if (!current) return null;
+    const invoiceId = invoiceIdOf(current);
+    const outcome = step(current, invoiceId ? store.getSubscriptionInvoice(invoiceId) : null);
+    if (!outcome) return null;
+    if (outcome.invoice) store.saveSubscriptionInvoice(outcome.invoice);
+    if (outcome.subscription) store.saveSubscription({ ...current, ...outcome.subscription });
+    return outcome.result;
+  }
+
+  const adminDb = await getAdminDb();
+  const subRef = adminDb.collection('subscriptions').doc(subscriptionId);
+  return firestoreBreaker.execute(() =>
+    adminDb.runTransaction(async (tx) => {
+      const snap = await tx.get(subRef);
+      if (!snap.exists) return null;
+      const current = { ...snap.data(), id: snap.id } as SubscriptionPlan;
+      const invoiceId = invoiceIdOf(current);
+      const invoiceRef = invoiceId
+        ? adminDb.collection('subscription_invoices').doc(invoiceId)
+        : null;
+      const invoiceSnap = invoiceRef ? await tx.get(invoiceRef) : null;
+      const invoice = invoiceSnap?.exists
+        ? ({ ...invoiceSnap.data(), id: invoiceSnap.id } as SubscriptionInvoice)
+        : null;
+
+      const outcome = step(current, invoice);
+      if (!outcome) return null;
+      if (outcome.invoice) {
+        tx.set(adminDb.collection('subscription_invoices').doc(outcome.invoice.id), stored(outcome.invoice));
+      }
+      if (outcome.subscription) tx.update(subRef, stored(outcome.subscription));
+      return outcome.result;
+    })
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Charging
+// ---------------------------------------------------------------------------
+
+/**
+ * Claims the invoice, charges it to the plan's mandate and records the
+ * attempt. Returns the invoice as it now stands, or null if it was settled
+ * meanwhile or another charge of it is under way.
+ */
+async function chargeInvoice(
+  subscription: SubscriptionPlan,
+  invoice: SubscriptionInvoice,
+  now: Date
+): Promise<SubscriptionInvoice | null> {
+  const mandateId = subscription.billing?.mandate.id ?? '';
+  const receipt = await withBilling(
+    subscription.id,
+    () => invoice.id,
+    (current, latest): Step<string> => {
+      const charging = latest && current.billing ? claimCharge(latest, now) : null;
+      if (!latest || !charging) return null;
+      return { result: charging.receipt, invoice: { ...latest, charging } };
+    }
+  );
+  if (!receipt) return null;
+
+  let attempt: SubscriptionChargeAttempt;
+  try {
+    const payment = await chargeMandate(mandateId, Math.round(invoice.amount * 100), receipt);
+    attempt =
+      payment.status === 'captured'
+        ? { at: now, success: true, paymentId: payment.id }
+        : {
+            at: now,
+            success: false,
+            paymentId: payment.id,
+            error: payment.error_description ?? 'The charge was declined.',
+          };
+  } catch (err) {
+    attempt = {
+      at: now,
+      success: false,
+      error: err instanceof Error ? err.message : 'The charge could not be made.',
+    };
+  }
+
+  const result = await withBilling(
+    subscription.id,
+    () => invoice.id,
+    (current, latest): Step<SubscriptionInvoice> => {
+      if (!latest || latest.status === 'paid' || !current.billing) return null;
+      const outcome = chargeOutcome({ ...current, billing: current.billing }, latest, attempt, now);
+      const updated = { ...latest, ...outcome.invoice, charging: null };
+      return { result: updated, invoice: updated, subscription: outcome.subscription };
+    }
+  );
+
+  if (result && !attempt.success) {
+    console.warn(`[Billing] Charge for ${invoice.id} failed: ${attempt.error}`);
+  }
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// Billing run
+// ---------------------------------------------------------------------------
+
+/** Does whatever billing is due for one subscription (see planBilling). */
+async function billSubscription(
+  subscription: SubscriptionPlan,
+  now: Date
+): Promise<BillingRun | null> {
+  const action = planBilling(subscription, now);
+  if (!action) return null;
+  const run = { subscriptionId: subscription.id, action };
+
+  if (action === 'issue') {
+    const invoice = await withBilling(
+      subscription.id,
+      (current) => subscriptionInvoiceId(current.id, billingPeriod(now)),
+      (current, existing): Step<SubscriptionInvoice> => {
+        if (existing || !current.billing || planBilling(current, now) !== 'issue') return null;
+        const plan = planInvoice({ ...current, billing: current.billing }, now);
+        return {
+          result: plan.invoice,
+          invoice: plan.invoice,
+          subscription: { billing: plan.billing, updatedAt: now },
+        };
+      }
+    );
+    if (!invoice) return null;
+    const charged = invoice.status === 'pending' ? await chargeInvoice(subscription, invoice, now) : null;
+    return { ...run, invoiceId: invoice.id, invoiceStatus: (charged ?? invoice).status };
+  }
+
+  if (action === 'retry') {
+    const invoice = await withBilling(
+      subscription.id,
+      (current) => current.billing?.dunning?.invoiceId ?? null,
+      (current, latest): Step<SubscriptionInvoice> => {
+        const { billing } = current;
+        if (!latest || !billing?.dunning || planBilling(current, now) !== 'retry') return null;
+        return {
+          result: latest,
+          subscription: {
+            billing: { ...billing, dunning: { ...billing.dunning, nextRetryAt: null } },
+            updatedAt: now,
+          },
+        };
+      }
+    );
+    if (!invoice) return null;
+    const charged = await chargeInvoice(subscription, invoice, now);
+    return { ...run, invoiceId: invoice.id, invoiceStatus: (charged ?? invoice).status };
+  }
+
+  const invoice = await withBilling(
+    subscription.id,
+    (current) => current.billing?.dunning?.invoiceId ?? null,
+    (current, latest): Step<SubscriptionInvoice | undefined> => {
+      if (!current.billing || planBilling(current, now) !== 'suspend') return null;
+      const outcome = suspension({ billing: current.billing }, now);
+      const updated = latest ? { ...latest, ...outcome.invoice } : undefined;
+      return { result: updated, invoice: updated, subscription: outcome.subscription };
+    }
+  );
+  if (invoice === null) return null;
+  console.warn(`[Billing] Subscription ${subscription.id} paused: invoice unpaid after the grace period`);
+  return { ...run, invoiceId: invoice?.id, invoiceStatus: invoice?.status };
+}
+
+/**
+ * Issues, charges, retries and suspends whatever is due across billed
+ * subscriptions. Safe to run repeatedly and from several workers.
+ */
+export async function runSubscriptionBilling(now: Date = new Date()): Promise<BillingRun[]> {
+  const runs: BillingRun[] = [];
+  for (const subscription of await listBilledSubscriptions()) {
+    try {
+      const run = await billSubscription(subscription, now);
+      if (run) runs.push(run);
+    } catch (err) {
+      console.error(`[Billing] Billing failed for ${subscription.id}:`, err);
+    }
+  }
+  return runs;
+}
+
+// ---------------------------------------------------------------------------
+// AutoPay setup
+// ---------------------------------------------------------------------------
+
+function notFound(): BillingResult {
+  return { success: false, error: 'Subscription not found.', status: 404 };
+}
+
+/**
+ * Registers a UPI AutoPay mandate for the plan. It takes effect once the
+ * customer approves it in their UPI app (confirmMandate); until then the
+ * plan is paid per delivery as before.
+ */
+export async function setupMandate(
+  subscriptionId: string,
+  vpa: string,
+  now: Date = new Date()
+): Promise<BillingResult> {
+  if (!isVpa(vpa)) return { success: false, error: 'Enter a valid UPI id, e.g. name@okaxis.', status: 400 };
+
+  const subscription = await loadSubscription(subscriptionId);
+  if (!subscription) return notFound();
+  if (subscription.cancelledAt) {
+    return { success: false, error: 'Subscription has been cancelled.', status: 409 };
+  }
+  if (subscription.billing?.mandate.status === 'active') {
+    return { success: false, error: 'UPI AutoPay is already set up for this subscription.', status: 409 };
+  }
+  const monthly = maxMonthlyAmount(subscription);
+  if (monthly > MANDATE_MAX_AMOUNT) {
+    return {
+      success: false,
+      error: `This plan can cost up to ₹${monthly} a month, over the ₹${MANDATE_MAX_AMOUNT} UPI AutoPay limit.`,
+      status: 400,
+    };
+  }
+
+  const mandate = await createMandate(subscription.customerId, vpa, MANDATE_MAX_AMOUNT * 100, {
+    subscriptionId,
+  });
+
+  const updated = await withBilling(subscriptionId, () => null, (current): Step<SubscriptionPlan> => {
+    if (current.cancelledAt || current.billing?.mandate.status === 'active') return null;
+    // Credit, prepaid deliveries and any unpaid invoice carry over from an earlier mandate
+    const patch: Partial<SubscriptionPlan> = {
+      billing: {
+        status: 'active',
+        prepaidDeliveries: 0,
+        credit: 0,
+        ...current.billing,
+        mandate: { id: mandate.id, vpa, maxAmount: MANDATE_MAX_AMOUNT, status: 'pending', createdAt: now },
+      },
+      updatedAt: now,
+    };
+    return { result: { ...current, ...patch }, subscription: patch };
+  });
+  if (!updated) {
+    return { success: false, error: 'UPI AutoPay is already set up for this subscription.', status: 409 };
+  }
+  return { success: true, subscription: updated };
+}
+
+/**
+ * Records the customer's approval of their pending mandate, then bills the
+ * rest of the current month (prorated) or retries an unpaid invoice.
+ */
+export async function confirmMandate(
+  subscriptionId: string,
+  now: Date = new Date()
+): Promise<BillingResult> {
+  const subscription = await loadSubscription(subscriptionId);
+  if (!subscription) return notFound();
+  const mandate = subscription.billing?.mandate;
+  if (mandate?.status !== 'pending') {
+    return { success: false, error: 'There is no UPI AutoPay mandate awaiting approval.', status: 409 };
+  }
+
+  try {
+    await confirmRazorpayMandate(mandate.id);
+  } catch (err) {
+    console.warn(`[Billing] Mandate ${mandate.id} could not be confirmed:`, err);
+    return { success: false, error: 'The mandate was not approved. Set up UPI AutoPay again.', status: 409 };
+  }
+
+  const updated = await withBilling(subscriptionId, () => null, (current): Step<SubscriptionPlan> => {
+    const { billing } = current;
+    if (billing?.mandate.id !== mandate.id || billing.mandate.status !== 'pending') return null;
+    const patch: Partial<SubscriptionPlan> = {
+      billing: { ...billing, mandate: { ...billing.mandate, status: 'active', authorizedAt: now } },
+      updatedAt: now,
+    };
+    return { result: { ...current, ...patch }, subscription: patch };
+  });
+  if (!updated) {
+    return { success: false, error: 'There is no UPI AutoPay mandate awaiting approval.', status: 409 };
+  }
+
+  if (updated.billing?.dunning) return payInvoice(subscriptionId, now);
+
+  const run = await billSubscription(updated, now);
+  const invoice = run?.invoiceId ? await loadInvoice(run.invoiceId) : null;
+  return {
+    success: true,
+    subscription: (await loadSubscription(subscriptionId)) ?? updated,
+    ...(invoice ? { invoice } : {}),
+  };
+}
+
+/**
+ * Revokes the plan's mandate. Deliveries already prepaid this month are
+ * still made; after that the plan is paid per delivery.
+ */
+export async function cancelMandate(
+  subscriptionId: string,
+  now: Date = new Date()
+): Promise<BillingResult> {
+  const subscription = await loadSubscription(subscriptionId);
+  if (!subscription) return notFound();
+  const mandate = subscription.billing?.mandate;
+  if (!mandate || mandate.status === 'revoked') {
+    return { success: false, error: 'UPI AutoPay is not set up for this subscription.', status: 409 };
+  }
+
+  const updated = await withBilling(subscriptionId, () => null, (current): Step<SubscriptionPlan> => {
+    const { billing } = current;
+    if (!billing || billing.mandate.status === 'revoked') return null;
+    const patch: Partial<SubscriptionPlan> = {
+      billing: { ...billing, mandate: { ...billing.mandate, status: 'revoked', revokedAt: now } },
+      updatedAt: now,
+    };
+    return { result: { ...current, ...patch }, subscription: patch };
+  });
+  if (!updated) {
+    return { success: false, error: 'UPI AutoPay is not set up for this subscription.', status: 409 };
+  }
+
+  try {
+    await cancelRazorpayMandate(mandate.id);
+  } catch (err) {
+    console.error(`[Billing] Mandate ${mandate.id} revoked here but not at Razorpay:`, err);
+  }
+  return { success: true, subscription: updated };
+}
+
+/**
+ * Charges the unpaid invoice now, at the customer's request, rather than
+ * waiting for the next retry. Paying it resumes a suspended plan.
+ */
+export async function payInvoice(
+  subscriptionId: string,
+  now: Date = new Date()
+): Promise<BillingResult> {
+  const subscription = await loadSubscription(subscriptionId);
+  if (!subscription) return notFound();
+  const { billing } = subscription;
+  if (!billing?.dunning) {
+    return { success: false, error: 'Nothing is due on this subscription.', status: 409 };
+  }
+  if (billing.mandate.status !== 'active') {
+    return { success: false, error: 'Set up UPI AutoPay again to pay the overdue invoice.', status: 409 };
+  }
+
+  const invoice = await loadInvoice(billing.dunning.invoiceId);
+  if (!invoice || invoice.status === 'paid') {
+    return { success: false, error: 'Nothing is due on this subscription.', status: 409 };
+  }
+
+  const charged = await chargeInvoice(subscription, invoice, now);
+  const latest = (await loadSubscription(subscriptionId)) ?? subscription;
+  if (!charged) {
+    const settled = await loadInvoice(invoice.id);
+    if (settled?.status === 'paid') return { success: true, subscription: latest, invoice: settled };
+    return { success: false, error: 'A payment for this invoice is already in progress.', status: 409 };
+  }
+  if (charged.status !== 'paid') {
+    const error = charged.attempts.at(-1)?.error ?? 'The charge was declined.';
+    return { success: false, error: `Payment failed: ${error}`, status: 402 };
+  }
+  return { success: true, subscription: latest, invoice: charged };
+}
@@ -0,0 +1,524 @@
+// =============================================================================
+// JalSeva - Subscription Schedule
+// =============================================================================
+// A subscription's `nextDeliveryDate` is the next delivery slot. The
+// scheduler (see './server') turns each slot into an ordinary order
+// SCHEDULE_LEAD_MS before it is due, so the supplier has time to plan the
+// trip, and moves `nextDeliveryDate` on to the following slot.
+//
+// Slots follow the frequency, or for weekly plans an optional weekday
+// pattern (e.g. Mon and Thu), and start at the plan's delivery window. The
+// customer can shape individual slots without editing the plan:
+//
+//   - skip one delivery (`skippedDates`),
+//   - hold deliveries between two dates for a vacation (`hold`),
+//   - change the quantity or address of one delivery (`overrides`).
+//
+// Skipped and held slots are passed over when the scheduler reaches them.
+// They, like overrides, are keyed by the slot's date in India (IST, no
+// daylight saving), whatever time zone the server runs in.
+//
+// Each slot has a deterministic order id (subscriptionOrderId), so a slot
+// is only ever delivered once, however many scheduler runs or workers
+// reach it. Slots missed by more than MISSED_SLOT_GRACE_MS (the scheduler
+// was down) are skipped rather than delivered late.
+//
+// Pure and client-safe; storage, assignment and the timer live in './server'.
+// =============================================================================
+
+import type {
+  DeliveryWindow,
+  GeoLocation,
+  Order,
+  OrderPrice,
+  SubscriptionFrequency,
+  SubscriptionPlan,
+  Weekday,
+} from '@/types';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const FREQUENCY_DAYS: Record<SubscriptionFrequency, number> = {
+  daily: 1,
+  weekly: 7,
+  biweekly: 14,
+  monthly: 30,
+};
+
+/** Subscription discount: 10% off the per-delivery price. */
+export const SUBSCRIPTION_DISCOUNT = 0.1;
+
+/** How far ahead of its slot a delivery is turned into an order. */
+export const SCHEDULE_LEAD_MS = 2 * 60 * 60_000;
+
+/** A slot missed by longer than this is skipped instead of delivered late. */
+export const MISSED_SLOT_GRACE_MS = 6 * 60 * 60_000;
+
+/** How often the in-process scheduler runs. */
+export const SCHEDULER_INTERVAL_MS = 5 * 60_000;
+
+/** How far ahead a delivery can be skipped or changed. */
+export const MAX_PLAN_AHEAD_DAYS = 90;
+
+/** Longest vacation hold. */
+export const MAX_HOLD_DAYS = 90;
+
+/** India Standard Time, UTC+05:30. */
+export const IST_OFFSET_MS = 330 * 60_000;
+
+/** The delivery windows customers pick from. */
+export const DELIVERY_WINDOWS: { key: string; label: string; window: DeliveryWindow }[] = [
+  { key: 'morning', label: 'Morning', window: { start: '06:00', end: '09:00' } },
+  { key: 'midday', label: 'Midday', window: { start: '11:00', end: '14:00' } },
+  { key: 'evening', label: 'Evening', window: { start: '17:00', end: '20:00' } },
+];
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'] as const;
+
+const DAY_MS = 24 * 60 * 60_000;
+const MIN_QUANTITY_LITRES = 20;
+const MAX_QUANTITY_LITRES = 20_000;
+
+// ---------------------------------------------------------------------------
+// Dates
+// ---------------------------------------------------------------------------
+
+/** The India date (YYYY-MM-DD) of a slot; the key for skips, holds and overrides. */
+export function deliveryDateKey(at: Date | string): string {
+  return new Date(new Date(at).getTime() + IST_OFFSET_MS).toISOString().slice(0, 10);
+}
+
+export function isDateKey(value: unknown): value is string {
+  return (
+    typeof value === 'string' &&
+    /^\d{4}-\d{2}-\d{2}$/.test(value) &&
+    !Number.isNaN(Date.parse(value)) &&
+    new Date(value).toISOString().startsWith(value)
+  );
+}
+
+export function isWeekday(value: unknown): value is Weekday {
+  return Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 6;
+}
+
+function minutesOfDay(time: string): number | null {
+  const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(time);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
+
+export function isDeliveryWindow(value: unknown): value is DeliveryWindow {
+  const window = value as DeliveryWindow | null;
+  if (typeof window?.start !== 'string' || typeof window.end !== 'string') return false;
+  const start = minutesOfDay(window.start);
+  const end = minutesOfDay(window.end);
+  return start !== null && end !== null && start < end;
+}
+
+function istWeekday(at: Date): Weekday {
+  return new Date(at.getTime() + IST_OFFSET_MS).getUTCDay() as Weekday;
+}
+
+/** `at` moved to the start of the window, on the same India date. */
+function atWindowStart(at: Date, window?: DeliveryWindow | null): Date {
+  if (!window) return at;
+  const midnight = Date.parse(`${deliveryDateKey(at)}T00:00:00.000Z`) - IST_OFFSET_MS;
+  return new Date(midnight + (minutesOfDay(window.start) ?? 0) * 60_000);
+}
+
+type Schedule = Pick<SubscriptionPlan, 'frequency' | 'weekdays' | 'deliveryWindow'>;
+
+/** The slot after `from`: the next pattern weekday, or one frequency period on. */
+export function nextSlot(schedule: Schedule, from: Date | string): Date {
+  const start = new Date(from);
+  let days = FREQUENCY_DAYS[schedule.frequency];
+  if (schedule.weekdays?.length) {
+    const today = istWeekday(start);
+    days = 7;
+    for (let ahead = 1; ahead <= 7; ahead++) {
+      if (schedule.weekdays.includes(((today + ahead) % 7) as Weekday)) {
+        days = ahead;
+        break;
+      }
+    }
+  }
+  return atWindowStart(new Date(start.getTime() + days * DAY_MS), schedule.deliveryWindow);
+}
+
+/** The first delivery date of a new (or resumed) subscription, as stored. */
+export function calculateNextDeliveryDate(schedule: Schedule, from: Date = new Date()): string {
+  return nextSlot(schedule, from).toISOString();
+}
+
+/**
+ * The order id for one delivery slot of a subscription. Creating the order
+ * under this id is what makes the scheduler idempotent.
+ */
+export function subscriptionOrderId(subscriptionId: string, slot: Date): string {
+  const stamp = slot.toISOString().slice(0, 16).replace(/[-:T]/g, '');
+  return `sub_${subscriptionId}_${stamp}`;
+}
+
+// ---------------------------------------------------------------------------
+// Reading slots
+// ---------------------------------------------------------------------------
+
+type SlotState = Pick<SubscriptionPlan, 'skippedDates' | 'hold'>;
+
+export function isSkipped(subscription: SlotState, slot: Date): boolean {
+  return subscription.skippedDates?.includes(deliveryDateKey(slot)) ?? false;
+}
+
+export function isOnHold(subscription: SlotState, slot: Date): boolean {
+  const { hold } = subscription;
+  const key = deliveryDateKey(slot);
+  return !!hold && key >= hold.from && key <= hold.until;
+}
+
+/** What one slot delivers, with its one-off override applied. */
+export function slotDelivery(
+  subscription: Pick<SubscriptionPlan, 'quantityLitres' | 'deliveryLocation' | 'overrides'>,
+  slot: Date
+): { quantityLitres: number; deliveryLocation: GeoLocation; overridden: boolean } {
+  const override = subscription.overrides?.[deliveryDateKey(slot)];
+  return {
+    quantityLitres: override?.quantityLitres ?? subscription.quantityLitres,
+    deliveryLocation: override?.deliveryLocation ?? subscription.deliveryLocation,
+    overridden: !!override,
+  };
+}
+
+export interface UpcomingDelivery {
+  date: Date;
+  dateKey: string;
+  status: 'scheduled' | 'skipped' | 'on_hold';
+  quantityLitres: number;
+  deliveryLocation: GeoLocation;
+  overridden: boolean;
+}
+
+type PlanSubject = Schedule &
+  SlotState &
+  Pick<SubscriptionPlan, 'nextDeliveryDate' | 'quantityLitres' | 'deliveryLocation' | 'overrides'>;
+
+/** The next `count` slots from `nextDeliveryDate`, skipped and held ones included. */
+export function upcomingDeliveries(subscription: PlanSubject, count: number): UpcomingDelivery[] {
+  const deliveries: UpcomingDelivery[] = [];
+  let slot = new Date(subscription.nextDeliveryDate);
+  for (let i = 0; i < count; i++) {
+    let status: UpcomingDelivery['status'] = 'scheduled';
+    if (isSkipped(subscription, slot)) status = 'skipped';
+    else if (isOnHold(subscription, slot)) status = 'on_hold';
+    deliveries.push({
+      date: slot,
+      dateKey: deliveryDateKey(slot),
+      status,
+      ...slotDelivery(subscription, slot),
+    });
+    slot = nextSlot(subscription, slot);
+  }
+  return deliveries;
+}
+
+/** Whether `dateKey` is one of the plan's slots within MAX_PLAN_AHEAD_DAYS. */
+function isUpcomingSlot(subscription: PlanSubject, dateKey: string, now: Date): boolean {
+  const horizon = now.getTime() + MAX_PLAN_AHEAD_DAYS * DAY_MS;
+  let slot = new Date(subscription.nextDeliveryDate);
+  while (slot.getTime() <= horizon) {
+    const key = deliveryDateKey(slot);
+    if (key === dateKey) return true;
+    if (key > dateKey) return false;
+    slot = nextSlot(subscription, slot);
+  }
+  return false;
+}
+
+// ---------------------------------------------------------------------------
+// Planning a run
+// ---------------------------------------------------------------------------
+
+export interface SlotPlan {
+  /** The slot to generate an order for, if one is within the lead time. */
+  deliverAt: Date | null;
+  /** What `nextDeliveryDate` becomes. */
+  next: Date;
+  /** Slots passed over: missed beyond the grace period, skipped or held. */
+  skipped: Date[];
+}
+
+type ScheduleSubject = Schedule &
+  SlotState &
+  Pick<SubscriptionPlan, 'isActive' | 'nextDeliveryDate'>;
+
+/** Whether the subscription has a slot to generate or pass over at `now`. */
+export function isDue(subscription: ScheduleSubject, now: Date = new Date()): boolean {
+  return (
+    subscription.isActive &&
+    new Date(subscription.nextDeliveryDate).getTime() <= now.getTime() + SCHEDULE_LEAD_MS
+  );
+}
+
+/**
+ * What one scheduler run does for a subscription: pass over slots missed
+ * beyond the grace period, skipped or on hold, then generate the next slot
+ * if it falls within the lead time. Null when there is nothing to do.
+ */
+export function planSlot(subscription: ScheduleSubject, now: Date = new Date()): SlotPlan | null {
+  if (!isDue(subscription, now)) return null;
+
+  const skipped: Date[] = [];
+  let slot = new Date(subscription.nextDeliveryDate);
+  while (
+    slot.getTime() < now.getTime() - MISSED_SLOT_GRACE_MS ||
+    ((isSkipped(subscription, slot) || isOnHold(subscription, slot)) &&
+      slot.getTime() <= now.getTime() + SCHEDULE_LEAD_MS)
+  ) {
+    skipped.push(slot);
+    slot = nextSlot(subscription, slot);
+  }
+
+  if (slot.getTime() > now.getTime() + SCHEDULE_LEAD_MS) {
+    return { deliverAt: null, next: slot, skipped };
+  }
+  return { deliverAt: slot, next: nextSlot(subscription, slot), skipped };
+}
+
+/**
+ * Skips, overrides and a hold that are all before `next` are spent; the
+ * fields to write to drop them. Empty when nothing is spent.
+ */
+export function pruneSchedule(
+  subscription: Pick<SubscriptionPlan, 'skippedDates' | 'hold' | 'overrides'>,
+  next: Date
+): Partial<SubscriptionPlan> {
+  const key = deliveryDateKey(next);
+  const patch: Partial<SubscriptionPlan> = {};
+  if (subscription.skippedDates?.some((date) => date < key)) {
+    patch.skippedDates = subscription.skippedDates.filter((date) => date >= key);
+  }
+  const overrides = Object.entries(subscription.overrides ?? {});
+  if (overrides.some(([date]) => date < key)) {
+    patch.overrides = Object.fromEntries(overrides.filter(([date]) => date >= key));
+  }
+  if (subscription.hold && subscription.hold.until < key) patch.hold = null;
+  return patch;
+}
+
+/** The `searching` order for one delivery slot, with its one-off override applied. */
+export function subscriptionOrder(
+  subscription: Pick<
+    SubscriptionPlan,
+    | 'id'
+    | 'customerId'
+    | 'waterType'
+    | 'quantityLitres'
+    | 'deliveryLocation'
+    | 'deliveryWindow'
+    | 'overrides'
+    | 'paymentMethod'
+  >,
+  slot: Date,
+  price: OrderPrice,
+  now: Date = new Date()
+): Order {
+  const { quantityLitres, deliveryLocation } = slotDelivery(subscription, slot);
+  return {
+    id: subscriptionOrderId(subscription.id, slot),
+    customerId: subscription.customerId,
+    waterType: subscription.waterType,
+    quantityLitres,
+    price,
+    status: 'searching',
+    deliveryLocation,
+    payment: {
+      method: subscription.paymentMethod,
+      status: 'pending',
+      amount: price.total,
+    },
+    subscriptionId: subscription.id,
+    scheduledFor: slot,
+    ...(subscription.deliveryWindow ? { deliveryWindow: subscription.deliveryWindow } : {}),
+    createdAt: now,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Changing a plan
+// ---------------------------------------------------------------------------
+
+export type SubscriptionChange =
+  | { action: 'pause' | 'resume' | 'cancel' | 'release_hold' }
+  | {
+      action: 'update';
+      frequency?: SubscriptionFrequency;
+      /** Weekly plans only; an empty list goes back to every 7 days. */
+      weekdays?: Weekday[];
+      /** Null removes the window. */
+      deliveryWindow?: DeliveryWindow | null;
+    }
+  | { action: 'skip'; date: string }
+  | { action: 'unskip'; date: string }
+  | { action: 'clear_override'; date: string }
+  | { action: 'hold'; from: string; until: string }
+  | {
+      action: 'override';
+      date: string;
+      quantityLitres?: number;
+      deliveryLocation?: GeoLocation;
+    };
+
+export type SubscriptionChangeResult =
+  | { success: true; patch: Partial<SubscriptionPlan> }
+  | { success: false; error: string; status: number };
+
+type ChangeSubject = PlanSubject & Pick<SubscriptionPlan, 'isActive' | 'cancelledAt' | 'billing'>;
+
+function invalid(error: string, status = 400): SubscriptionChangeResult {
+  return { success: false, error, status };
+}
+
+/**
+ * Validates a customer's change to their plan and returns the fields to
+ * write. Shared by the API and the subscriptions page so both apply the
+ * same rules.
+ */
+export function applySubscriptionChange(
+  subscription: ChangeSubject,
+  change: SubscriptionChange,
+  now: Date = new Date()
+): SubscriptionChangeResult {
+  if (subscription.cancelledAt) return invalid('Subscription has been cancelled.', 409);
+  const patch: Partial<SubscriptionPlan> = { updatedAt: now };
+
+  switch (change.action) {
+    case 'pause':
+      return { success: true, patch: { ...patch, isActive: false } };
+
+    case 'resume':
+      if (subscription.billing?.status === 'suspended') {
+        return invalid('Pay the overdue invoice to resume this subscription.', 402);
+      }
+      return {
+        success: true,
+        patch: {
+          ...patch,
+          isActive: true,
+          nextDeliveryDate: nextSlot(subscription, now),
+        },
+      };
+
+    case 'cancel':
+      return { success: true, patch: { ...patch, isActive: false, cancelledAt: now } };
+
+    case 'update': {
+      const frequency = change.frequency ?? subscription.frequency;
+      if (!(frequency in FREQUENCY_DAYS)) return invalid('Invalid frequency.');
+      let weekdays = change.weekdays ?? subscription.weekdays ?? [];
+      if (frequency !== 'weekly') {
+        if (change.weekdays?.length) return invalid('Weekdays can only be set on a weekly plan.');
+        weekdays = [];
+      }
+      if (!Array.isArray(weekdays) || !weekdays.every(isWeekday)) {
+        return invalid('weekdays must be days of the week, 0 (Sunday) to 6.');
+      }
+      const deliveryWindow =
+        change.deliveryWindow === undefined ? subscription.deliveryWindow : change.deliveryWindow;
+      if (deliveryWindow && !isDeliveryWindow(deliveryWindow)) {
+        return invalid('deliveryWindow must be { start, end } as HH:MM, start before end.');
+      }
+
+      const schedule: Schedule = {
+        frequency,
+        weekdays: [...new Set(weekdays)].sort(),
+        deliveryWindow: deliveryWindow ?? null,
+      };
+      // A new window alone keeps the next delivery's date when it can.
+      const sameDays =
+        frequency === subscription.frequency &&
+        schedule.weekdays?.join() === (subscription.weekdays ?? []).join();
+      const kept = atWindowStart(new Date(subscription.nextDeliveryDate), schedule.deliveryWindow);
+      const nextDeliveryDate =
+        sameDays && kept.getTime() > now.getTime() + SCHEDULE_LEAD_MS
+          ? kept
+          : nextSlot(schedule, now);
+      return { success: true, patch: { ...patch, ...schedule, nextDeliveryDate } };
+    }
+
+    case 'skip':
+    case 'unskip':
+    case 'override':
+    case 'clear_override': {
+      if (!subscription.isActive) return invalid('Subscription is paused.', 409);
+      if (!isDateKey(change.date)) return invalid('date must be YYYY-MM-DD.');
+      if (!isUpcomingSlot(subscription, change.date, now)) {
+        return invalid(`There is no upcoming delivery on ${change.date}.`);
+      }
+      const skipped = subscription.skippedDates ?? [];
+      const overrides = subscription.overrides ?? {};
+
+      if (change.action === 'skip') {
+        if (skipped.includes(change.date)) return invalid('That delivery is already skipped.', 409);
+        return { success: true, patch: { ...patch, skippedDates: [...skipped, change.date].sort() } };
+      }
+      if (change.action === 'unskip') {
+        if (!skipped.includes(change.date)) return invalid('That delivery is not skipped.', 409);
+        return {
+          success: true,
+          patch: { ...patch, skippedDates: skipped.filter((date) => date !== change.date) },
+        };
+      }
+      if (change.action === 'clear_override') {
+        if (!overrides[change.date]) return invalid('That delivery has no changes.', 409);
+        const { [change.date]: _cleared, ...rest } = overrides;
+        return { success: true, patch: { ...patch, overrides: rest } };
+      }
+
+      const { quantityLitres, deliveryLocation } = change;
+      if (quantityLitres === undefined && deliveryLocation === undefined) {
+        return invalid('Give a quantityLitres or deliveryLocation for the delivery.');
+      }
+      if (
+        quantityLitres !== undefined &&
+        !(quantityLitres >= MIN_QUANTITY_LITRES && quantityLitres <= MAX_QUANTITY_LITRES)
+      ) {
+        return invalid(`Quantity must be ${MIN_QUANTITY_LITRES}-${MAX_QUANTITY_LITRES} litres.`);
+      }
+      if (
+        deliveryLocation !== undefined &&
+        (typeof deliveryLocation?.lat !== 'number' || typeof deliveryLocation.lng !== 'number')
+      ) {
+        return invalid('deliveryLocation must have lat and lng.');
+      }
+      return {
+        success: true,
+        patch: {
+          ...patch,
+          overrides: {
+            ...overrides,
+            [change.date]: {
+              ...overrides[change.date],
+              ...(quantityLitres !== undefined ? { quantityLitres } : {}),
+              ...(deliveryLocation !== undefined ? { deliveryLocation } : {}),
+            },
+          },
+        },
+      };
+    }
+
+    case 'hold': {
+      if (!isDateKey(change.from) || !isDateKey(change.until)) {
+        return invalid('from and until must be YYYY-MM-DD.');
+      }
+      if (change.until < change.from) return invalid('until must not be before from.');
+      if (change.from < deliveryDateKey(now)) return invalid('A hold cannot start in the past.');
+      const days = (Date.parse(change.until) - Date.parse(change.from)) / DAY_MS + 1;
+      if (days > MAX_HOLD_DAYS) return invalid(`A hold can last at most ${MAX_HOLD_DAYS} days.`);
+      return { success: true, patch: { ...patch, hold: { from: change.from, until: change.until } } };
+    }
+
+    case 'release_hold':
+      if (!subscription.hold) return invalid('Subscription is not on hold.', 409);
+      return { success: true, patch: { ...patch, hold: null } };
+  }
+}
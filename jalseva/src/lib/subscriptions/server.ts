@@ -0,0 +1,432 @@
+// =============================================================================
+// JalSeva - Subscription Scheduler (Server-Side)
+// =============================================================================
+// Turns due subscription slots into orders (see './index'). Each run:
+//
+//   1. Lists active subscriptions whose next slot is within the lead time.
+//   2. Claims the slot: the order is created under the slot's deterministic
+//      id and `nextDeliveryDate` is moved on, together — in a Firestore
+//      transaction that re-reads the subscription, or synchronously in the
+//      demo store. A second worker, or a run after a restart, finds the
+//      slot already moved on and the order already there, and does nothing.
+//   3. Assigns the order to the subscription's preferred supplier when they
+//      can still take it, and dispatches it like any other order otherwise.
+//
+// Assignment happens after the claim commits; a failure there is logged and
+// leaves the order `searching` in the open queue.
+//
+// Customer changes to a plan (skip, hold, weekdays, one-off overrides) are
+// validated by applySubscriptionChange and written by updateSubscription,
+// in a transaction so they cannot race the scheduler's claim.
+//
+// Plans billed monthly (see '@/lib/subscription-billing') have orders created
+// already paid while the month's prepaid deliveries last; the claim uses one
+// up in the same write.
+//
+// The scheduler runs on a timer in each server process
+// (startSubscriptionScheduler, started from `src/instrumentation.ts`) and
+// from the cron trigger POST /api/subscriptions/schedule. Each tick runs
+// billing first, so a new month's invoice is paid before its first order.
+// =============================================================================
+
+import { firestoreBreaker } from '@/lib/circuit-breaker';
+import * as store from '@/lib/demo-store';
+import { dispatcher, isEligible } from '@/lib/dispatch';
+import { SYSTEM_ACTOR, transitionOrder } from '@/lib/order-lifecycle';
+import { quoteOrder } from '@/lib/pricing/server';
+import { spendPrepaidDelivery } from '@/lib/subscription-billing';
+import { cancelMandate, runSubscriptionBilling } from '@/lib/subscription-billing/server';
+import type { GeoLocation, Order, OrderPrice, SubscriptionPlan, Supplier } from '@/types';
+import {
+  SCHEDULER_INTERVAL_MS,
+  SCHEDULE_LEAD_MS,
+  SUBSCRIPTION_DISCOUNT,
+  type SubscriptionChange,
+  applySubscriptionChange,
+  planSlot,
+  pruneSchedule,
+  slotDelivery,
+  subscriptionOrder,
+} from './index';
+
+// ---------------------------------------------------------------------------
+// Firebase Admin - lazy import
+// ---------------------------------------------------------------------------
+
+function hasAdminCredentials(): boolean {
+  return !!(
+    process.env.FIREBASE_ADMIN_CLIENT_EMAIL &&
+    process.env.FIREBASE_ADMIN_PRIVATE_KEY
+  );
+}
+
+async function getAdminDb() {
+  const { adminDb } = await import('@/lib/firebase-admin');
+  return adminDb;
+}
+
+/** Dates → ISO strings, including inside nested plain objects and arrays. */
+function toStored(value: unknown): unknown {
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map(toStored);
+  if (value && Object.getPrototypeOf(value) === Object.prototype) {
+    const out: Record<string, unknown> = {};
+    for (const [key, field] of Object.entries(value)) {
+      if (field !== undefined) out[key] = toStored(field);
+    }
+    return out;
+  }
+  return value;
+}
+
+function stored(data: object): Record<string, unknown> {
+  return toStored(data) as Record<string, unknown>;
+}
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface ScheduledDelivery {
+  subscriptionId: string;
+  /** The order generated for the slot; absent when slots were only skipped. */
+  orderId?: string;
+  deliverAt?: Date;
+  /** Slots passed over on this run: missed, skipped or on hold. */
+  skipped: number;
+  /** How the order was matched to a supplier. */
+  assignment?: 'preferred_supplier' | 'dispatch' | 'failed';
+}
+
+export type SubscriptionResult =
+  | { success: true; subscription: SubscriptionPlan }
+  | { success: false; error: string; status: number };
+
+// ---------------------------------------------------------------------------
+// Storage
+// ---------------------------------------------------------------------------
+
+async function listDueSubscriptions(now: Date): Promise<SubscriptionPlan[]> {
+  const horizon = new Date(now.getTime() + SCHEDULE_LEAD_MS);
+  if (!hasAdminCredentials()) return store.listDueSubscriptions(horizon);
+
+  const adminDb = await getAdminDb();
+  const snap = await firestoreBreaker.execute(() =>
+    adminDb
+      .collection('subscriptions')
+      .where('isActive', '==', true)
+      .where('nextDeliveryDate', '<=', horizon.toISOString())
+      .limit(500)
+      .get()
+  );
+  return snap.docs.map((d) => ({ ...d.data(), id: d.id }) as SubscriptionPlan);
+}
+
+async function loadSupplier(supplierId: string): Promise<Supplier | null> {
+  if (!hasAdminCredentials()) return store.getSupplier(supplierId);
+  const adminDb = await getAdminDb();
+  const snap = await firestoreBreaker.execute(() =>
+    adminDb.collection('suppliers').doc(supplierId).get()
+  );
+  return snap.exists ? ({ ...snap.data(), id: snap.id } as Supplier) : null;
+}
+
+type SlotDelivery = Pick<Order, 'quantityLitres' | 'deliveryLocation'>;
+
+function sameLocation(a: GeoLocation, b: GeoLocation): boolean {
+  return a.lat === b.lat && a.lng === b.lng;
+}
+
+/**
+ * The price of one delivery: the one quoted at sign-up, or a fresh
+ * discounted quote at the delivery's own quantity and location when either
+ * was changed for it.
+ */
+async function deliveryPrice(
+  subscription: SubscriptionPlan,
+  delivery: SlotDelivery
+): Promise<OrderPrice> {
+  if (
+    subscription.price &&
+    delivery.quantityLitres === subscription.quantityLitres &&
+    sameLocation(delivery.deliveryLocation, subscription.deliveryLocation)
+  ) {
+    return subscription.price;
+  }
+  const { price } = await quoteOrder(
+    {
+      waterType: subscription.waterType,
+      quantityLitres: delivery.quantityLitres,
+      discountPercent: SUBSCRIPTION_DISCOUNT * 100,
+    },
+    delivery.deliveryLocation
+  );
+  return price;
+}
+
+type Claim = { order: Order | null; skipped: number } | null;
+
+/**
+ * The claim as planned against the subscription as it is now. Null when
+ * another run got there first, or the slot's quantity or address has changed
+ * since it was priced (the next run prices it again).
+ */
+function planClaim(current: SubscriptionPlan, price: OrderPrice, priced: SlotDelivery, now: Date) {
+  const plan = planSlot(current, now);
+  if (!plan) return null;
+  const generated = plan.deliverAt ? subscriptionOrder(current, plan.deliverAt, price, now) : null;
+  if (
+    generated &&
+    (generated.quantityLitres !== priced.quantityLitres ||
+      !sameLocation(generated.deliveryLocation, priced.deliveryLocation))
+  ) {
+    return null;
+  }
+  const prepaid = generated && spendPrepaidDelivery(current, generated, now);
+  const order = prepaid ? prepaid.order : generated;
+  return {
+    plan,
+    order,
+    patch: {
+      ...pruneSchedule(current, plan.next),
+      nextDeliveryDate: plan.next,
+      ...(order ? { lastOrderId: order.id } : {}),
+      ...(prepaid ? { billing: prepaid.billing } : {}),
+      updatedAt: now,
+    } satisfies Partial<SubscriptionPlan>,
+  };
+}
+
+/**
+ * Claims the subscription's due slot: creates its order (if the slot is
+ * within the lead time) and moves `nextDeliveryDate` on, atomically. Null
+ * when there is nothing to claim.
+ */
+async function claimSlot(
+  subscription: SubscriptionPlan,
+  price: OrderPrice,
+  priced: SlotDelivery,
+  now: Date
+): Promise<Claim> {
+  if (!hasAdminCredentials()) {
+    // Synchronous from here on, so no other run can interleave.
+    const current = store.getSubscription(subscription.id);
+    const claim = current && planClaim(current, price, priced, now);
+    if (!current || !claim) return null;
+
+    if (claim.order && !store.getOrder(claim.order.id)) store.upsertOrder(claim.order);
+    store.saveSubscription({ ...current, ...claim.patch });
+    return { order: claim.order, skipped: claim.plan.skipped.length };
+  }
+
+  const adminDb = await getAdminDb();
+  const subRef = adminDb.collection('subscriptions').doc(subscription.id);
+  return firestoreBreaker.execute(() =>
+    adminDb.runTransaction(async (tx): Promise<Claim> => {
+      const snap = await tx.get(subRef);
+      if (!snap.exists) return null;
+      const current = { ...snap.data(), id: snap.id } as SubscriptionPlan;
+      const claim = planClaim(current, price, priced, now);
+      if (!claim) return null;
+
+      if (claim.order) {
+        const orderRef = adminDb.collection('orders').doc(claim.order.id);
+        if (!(await tx.get(orderRef)).exists) tx.create(orderRef, stored(claim.order));
+      }
+      tx.update(subRef, stored(claim.patch));
+      return { order: claim.order, skipped: claim.plan.skipped.length };
+    })
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Customer changes
+// ---------------------------------------------------------------------------
+
+/**
+ * Applies a customer's change to their plan (see applySubscriptionChange)
+ * and returns the plan as it now stands. Cancelling a plan also revokes
+ * its UPI AutoPay mandate.
+ */
+export async function updateSubscription(
+  subscriptionId: string,
+  change: SubscriptionChange,
+  now: Date = new Date()
+): Promise<SubscriptionResult> {
+  const result = await writeChange(subscriptionId, change, now);
+
+  const mandate = result.success ? result.subscription.billing?.mandate : undefined;
+  if (change.action === 'cancel' && mandate && mandate.status !== 'revoked') {
+    try {
+      await cancelMandate(subscriptionId, now);
+    } catch (err) {
+      console.error(`[Subscriptions] Mandate of cancelled ${subscriptionId} not revoked:`, err);
+    }
+  }
+  return result;
+}
+
+async function writeChange(
+  subscriptionId: string,
+  change: SubscriptionChange,
+  now: Date
+): Promise<SubscriptionResult> {
+  if (!hasAdminCredentials()) {
+    const current = store.getSubscription(subscriptionId);
+    if (!current) return { success: false, error: 'Subscription not found.', status: 404 };
+    const result = applySubscriptionChange(current, change, now);
+    if (!result.success) return result;
+    const subscription = { ...current, ...result.patch };
+    store.saveSubscription(subscription);
+    return { success: true, subscription };
+  }
+
+  const adminDb = await getAdminDb();
+  const subRef = adminDb.collection('subscriptions').doc(subscriptionId);
+  return firestoreBreaker.execute(() =>
+    adminDb.runTransaction(async (tx): Promise<SubscriptionResult> => {
+      const snap = await tx.get(subRef);
+      if (!snap.exists) return { success: false, error: 'Subscription not found.', status: 404 };
+      const current = { ...snap.data(), id: snap.id } as SubscriptionPlan;
+      const result = applySubscriptionChange(current, change, now);
+      if (!result.success) return result;
+      tx.update(subRef, stored(result.patch));
+      return { success: true, subscription: { ...current, ...result.patch } };
+    })
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Assignment
+// ---------------------------------------------------------------------------
+
+/**
+ * Whether the preferred supplier can still take the order. They need not be
+ * online when the order is generated, only verified, offering subscriptions
+ * and able to carry the water type and quantity.
+ */
+function preferredSupplierCanTake(supplier: Supplier | null, order: Order): boolean {
+  if (!supplier?.supportsSubscription) return false;
+  const capacities = [
+    supplier.vehicle?.capacity ?? 0,
+    ...Object.values(supplier.fleet ?? {}).map((vehicle) => vehicle.capacity),
+  ];
+  return isEligible(order, {
+    supplierId: supplier.id,
+    distanceKm: 0,
+    verificationStatus: supplier.verificationStatus,
+    waterTypes: supplier.waterTypes,
+    capacityLitres: Math.max(...capacities),
+    cashBlocked: supplier.cashBlocked,
+  });
+}
+
+async function assignDelivery(
+  subscription: SubscriptionPlan,
+  order: Order
+): Promise<NonNullable<ScheduledDelivery['assignment']>> {
+  if (subscription.supplierId) {
+    const supplier = await loadSupplier(subscription.supplierId);
+    if (preferredSupplierCanTake(supplier, order)) {
+      const result = await transitionOrder(order.id, 'accepted', {
+        actor: SYSTEM_ACTOR,
+        metadata: { via: 'subscription', subscriptionId: subscription.id },
+        patch: { supplierId: subscription.supplierId },
+      });
+      if (result.success) return 'preferred_supplier';
+      console.warn(
+        `[Subscriptions] Preferred supplier could not take order ${order.id}: ${result.error}`
+      );
+    }
+  }
+
+  await dispatcher.dispatch(order);
+  return 'dispatch';
+}
+
+// ---------------------------------------------------------------------------
+// Scheduler run
+// ---------------------------------------------------------------------------
+
+/** Generates orders for every subscription slot due within the lead time. */
+export async function runSubscriptionScheduler(now: Date = new Date()): Promise<ScheduledDelivery[]> {
+  const results: ScheduledDelivery[] = [];
+
+  for (const subscription of await listDueSubscriptions(now)) {
+    // Priced outside the claim; the claim checks the delivery still matches
+    const plan = planSlot(subscription, now);
+    const delivery: SlotDelivery = plan?.deliverAt
+      ? slotDelivery(subscription, plan.deliverAt)
+      : subscription;
+
+    let claim: Claim;
+    try {
+      const price = await deliveryPrice(subscription, delivery);
+      claim = await claimSlot(subscription, price, delivery, now);
+    } catch (err) {
+      console.error(`[Subscriptions] Scheduling failed for ${subscription.id}:`, err);
+      continue;
+    }
+    if (!claim) continue;
+
+    const { order, skipped } = claim;
+    if (!order) {
+      results.push({ subscriptionId: subscription.id, skipped });
+      continue;
+    }
+
+    let assignment: ScheduledDelivery['assignment'];
+    try {
+      assignment = await assignDelivery(subscription, order);
+    } catch (err) {
+      console.error(`[Subscriptions] Assignment failed for order ${order.id}:`, err);
+      assignment = 'failed';
+    }
+    results.push({
+      subscriptionId: subscription.id,
+      orderId: order.id,
+      deliverAt: order.scheduledFor,
+      skipped,
+      assignment,
+    });
+  }
+
+  return results;
+}
+
+// ---------------------------------------------------------------------------
+// In-process timer
+// ---------------------------------------------------------------------------
+
+let timer: ReturnType<typeof setInterval> | null = null;
+let running = false;
+
+/**
+ * Runs billing and the scheduler every `intervalMs` in this process. Safe to call more
+ * than once; a run still in progress is not overlapped. Every cluster worker
+ * may run it — claims are idempotent across processes.
+ */
+export function startSubscriptionScheduler(intervalMs: number = SCHEDULER_INTERVAL_MS): void {
+  if (timer) return;
+  timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      const runs = await runSubscriptionBilling();
+      if (runs.length > 0) console.log(`[Subscriptions] Billing ran for ${runs.length} subscription(s)`);
+      const results = await runSubscriptionScheduler();
+      const created = results.filter((r) => r.orderId).length;
+      if (created > 0) console.log(`[Subscriptions] Generated ${created} subscription order(s)`);
+    } catch (err) {
+      console.error('[Subscriptions] Scheduler run failed:', err);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+  if (timer.unref) timer.unref();
+}
+
+export function stopSubscriptionScheduler(): void {
+  if (timer) clearInterval(timer);
+  timer = null;
+}
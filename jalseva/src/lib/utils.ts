@@ -2,12 +2,11 @@
 // JalSeva - Utility Functions
 // =============================================================================
 // Shared helpers used across the application: class merging, formatting,
-// ID generation, and dynamic pricing calculations.
+// and ID generation. Pricing lives in '@/lib/pricing'.
 // =============================================================================
 
 import { clsx, type ClassValue } from 'clsx';
 import { twMerge } from 'tailwind-merge';
-import type { WaterType, OrderPrice } from '@/types';
 
 // ---------------------------------------------------------------------------
 // cn - TailwindCSS Class Merger
@@ -106,85 +105,6 @@ export function generateOrderId(): string {
   return `JLS-${shortId}`;
 }
 
-// ---------------------------------------------------------------------------
-// calculatePrice
-// ---------------------------------------------------------------------------
-
-/**
- * Base prices per litre for each water type (in rupees).
- */
-const BASE_PRICES: Record<WaterType, number> = {
-  ro: 0.8, // Rs 0.80 per litre
-  mineral: 1.5, // Rs 1.50 per litre
-  tanker: 0.5, // Rs 0.50 per litre (bulk)
-};
-
-/**
- * Rate charged per kilometre of delivery distance (in rupees).
- */
-const PER_KM_RATE = 15;
-
-/**
- * Platform commission percentage (taken from the total price).
- */
-const COMMISSION_PERCENT = 15;
-
-/**
- * Calculates the dynamic price for a water delivery order.
- *
- * Pricing formula:
- *   baseAmount     = BASE_PRICE[waterType] * quantity
- *   distanceCharge = (distanceMeters / 1000) * PER_KM_RATE
- *   surgeAmount    = (baseAmount + distanceCharge) * (surgeMultiplier - 1)
- *   total          = baseAmount + distanceCharge + surgeAmount
- *   commission     = total * COMMISSION_PERCENT / 100
- *   supplierEarning = total - commission
- *
- * @param waterType       - Type of water (ro, mineral, tanker).
- * @param quantity        - Quantity in litres.
- * @param distanceMeters  - Delivery distance in meters.
- * @param surgeMultiplier - Demand-based surge multiplier (1.0 = no surge).
- * @returns A complete OrderPrice breakdown.
- */
-export function calculatePrice(
-  waterType: WaterType,
-  quantity: number,
-  distanceMeters: number,
-  surgeMultiplier: number = 1.0
-): OrderPrice {
-  // Ensure surge multiplier is at least 1.0
-  const surge = Math.max(1.0, surgeMultiplier);
-
-  // Base amount: price per litre * quantity
-  const base = Math.round(BASE_PRICES[waterType] * quantity);
-
-  // Distance charge: rate per km * distance in km
-  const distanceKm = distanceMeters / 1000;
-  const distance = Math.round(distanceKm * PER_KM_RATE);
-
-  // Surge is the additional amount on top of (base + distance)
-  const subtotal = base + distance;
-  const surgeAmount = Math.round(subtotal * (surge - 1));
-
-  // Total payable by customer
-  const total = subtotal + surgeAmount;
-
-  // Platform commission
-  const commission = Math.round(total * (COMMISSION_PERCENT / 100));
-
-  // Supplier earnings after commission
-  const supplierEarning = total - commission;
-
-  return {
-    base,
-    distance,
-    surge: surgeAmount,
-    total,
-    commission,
-    supplierEarning,
-  };
-}
-
 // ---------------------------------------------------------------------------
 // Additional Formatting Helpers (kept from existing codebase)
 // ---------------------------------------------------------------------------
@@ -2,14 +2,15 @@
 // JalSeva - Supplier State Store (Zustand)
 // =============================================================================
 // State dedicated to the supplier-side experience: the supplier profile,
-// online/offline toggle, incoming order queue, currently active order, and
-// today's earnings summary.
+// online/offline toggle, incoming order queue, currently active order,
+// today's earnings summary and, for fleet suppliers, the per-vehicle rollup.
 //
 // Uses a Set<string> for pendingOrderIds alongside the pendingOrders array to
 // enable O(1) duplicate checks when adding incoming orders.
 // =============================================================================
 
 import { create } from 'zustand';
+import type { FleetRollup } from '@/lib/fleet';
 import type { Supplier, Order } from '@/types';
 
 // ---------------------------------------------------------------------------
@@ -29,6 +30,10 @@ export interface SupplierState {
   activeOrder: Order | null;
   /** Running total of earnings for the current calendar day (INR) */
   todayEarnings: number;
+  /** Per-vehicle status and earnings, for fleet owners */
+  fleet: FleetRollup | null;
+  /** Set when the signed-in user drives for a fleet supplier */
+  driver: { id: string; vehicleId: string | null } | null;
 
   // -- Actions ---------------------------------------------------------------
   setSupplier: (supplier: Supplier | null) => void;
@@ -36,6 +41,7 @@ export interface SupplierState {
   setPendingOrders: (orders: Order[]) => void;
   setActiveOrder: (order: Order | null) => void;
   setTodayEarnings: (earnings: number) => void;
+  setFleet: (fleet: FleetRollup | null, driver?: SupplierState['driver']) => void;
   /** Push a single order into the pending queue (skips duplicates via Set) */
   addPendingOrder: (order: Order) => void;
   /** Remove an order from the pending queue by id (accepted / rejected / expired) */
@@ -56,6 +62,8 @@ export const useSupplierStore = create<SupplierState>((set, get) => ({
   pendingOrderIds: new Set(),
   activeOrder: null,
   todayEarnings: 0,
+  fleet: null,
+  driver: null,
 
   // Actions
   setSupplier: (supplier) => set({ supplier }),
@@ -72,6 +80,8 @@ export const useSupplierStore = create<SupplierState>((set, get) => ({
 
   setTodayEarnings: (earnings) => set({ todayEarnings: earnings }),
 
+  setFleet: (fleet, driver = null) => set({ fleet, driver }),
+
   addPendingOrder: (order) =>
     set((state) => {
       // O(1) duplicate guard
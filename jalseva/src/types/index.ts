@@ -20,7 +20,13 @@ export type VerificationStatus = 'pending' | 'verified' | 'rejected';
 
 export type PaymentMethod = 'upi' | 'card' | 'wallet' | 'cash';
 
-export type PaymentStatus = 'pending' | 'paid' | 'failed' | 'refunded';
+export type PaymentStatus =
+  | 'pending'
+  | 'paid'
+  | 'failed'
+  | 'partially_refunded'
+  | 'refunded';
+export type RefundStatus = 'pending' | 'processed' | 'failed';
 
 export type DemandLevel = 'low' | 'normal' | 'high' | 'surge';
 
@@ -35,8 +41,14 @@ export interface GeoLocation {
 export interface Rating {
   average: number;
   count: number;
+  /** Bayesian-smoothed average, pulled toward the prior while count is low. */
+  score?: number;
+  /** Optional per-dimension averages from customers rating a supplier. */
+  dimensions?: Partial<Record<RatingDimension, { average: number; count: number }>>;
 }
 
+export type RatingDimension = 'punctuality' | 'waterQuality' | 'behavior';
+
 export interface User {
   id: string;
   phone: string;
@@ -46,6 +58,9 @@ export interface User {
   language: string;
   location?: GeoLocation;
   rating: Rating;
+  /** Business customers: printed on tax invoices as the buyer. */
+  businessName?: string;
+  gstin?: string;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -56,8 +71,26 @@ export interface DocumentInfo {
   url: string;
   verified: boolean;
   uploadedAt: Date;
+  /** Admin review; documents from before the KYC workflow only carry `verified`. */
+  status?: DocumentReviewStatus;
+  /** Uploaded files in private storage (Aadhaar has a front and a back). */
+  storagePaths?: string[];
+  contentTypes?: string[];
+  /** Document number with all but the last four digits masked; never stored in full. */
+  maskedNumber?: string;
+  expiresAt?: Date;
+  reviewedBy?: string;
+  reviewedAt?: Date;
+  rejectionReason?: string;
+  /** Days-before-expiry of the last reminder sent, so each one goes out once. */
+  reminderDays?: number;
+  reminderSentAt?: Date;
 }
 
+export type DocumentReviewStatus = 'pending' | 'approved' | 'rejected';
+
+export type KycDocumentType = keyof SupplierDocuments;
+
 export interface SupplierDocuments {
   aadhaar?: DocumentInfo;
   vehicleRC?: DocumentInfo;
@@ -72,6 +105,25 @@ export interface Vehicle {
   number: string;
 }
 
+/** One vehicle of a supplier business's fleet; see '@/lib/fleet'. */
+export interface FleetVehicle extends Vehicle {
+  id: string;
+  /** User id of the driver currently assigned to it. */
+  driverId?: string;
+  isOnline: boolean;
+  currentLocation?: GeoLocation;
+  addedAt: Date;
+}
+
+/** A hired driver, who signs in to the supplier panel with their own number. */
+export interface FleetDriver {
+  /** The driver's user id. */
+  id: string;
+  name: string;
+  phone: string;
+  addedAt: Date;
+}
+
 export interface ServiceArea {
   center: GeoLocation;
   radiusKm: number;
@@ -89,11 +141,211 @@ export interface WaterQualityReport {
   testedAt: Date;
   labName: string;
   certificateUrl?: string;
+  /** Uploaded certificate in private storage, served to admins for review. */
+  certificatePath?: string;
+  certificateContentType?: string;
   fssaiCompliant: boolean;
+  /** Admin review of the certificate; reports without one are unverified. */
+  verification?: CertificateVerification;
+}
+
+export type CertificateStatus = 'pending' | 'verified' | 'rejected';
+
+export interface CertificateVerification {
+  status: CertificateStatus;
+  /** The accredited lab the report's labName matched when it was verified. */
+  labId?: string;
+  reviewedBy?: string;
+  reviewedAt?: Date;
+  /** The admin's reason, required when rejecting. */
+  note?: string;
+}
+
+/** A lab whose certificates admins accept (e.g. NABL-accredited). */
+export interface AccreditedLab {
+  id: string;
+  name: string;
+  /** e.g. the NABL certificate number. */
+  accreditationNo?: string;
+  addedBy: string;
+  addedAt: Date;
+}
+
+/** 'missing' until the supplier's first report; 'expired' once it is too old to trust. */
+export type QualityStatus = 'safe' | 'unsafe' | 'expired' | 'missing';
+
+export type QualityAlertKind = 'ph_out_of_range' | 'tds_out_of_range' | 'report_expired';
+
+export interface QualityAlert {
+  kind: QualityAlertKind;
+  message: string;
+  value?: number;
+  /** The previous report's reading, when it was still in range. */
+  previousValue?: number;
+}
+
+/** One entry in quality_reports: every report a supplier has submitted. */
+export interface QualityReportRecord extends WaterQualityReport {
+  id: string;
+  supplierId: string;
+  status: QualityStatus;
+  alerts: QualityAlert[];
+  createdAt: Date;
+}
+
+/**
+ * Water types taken off sale because the supplier's latest report is unsafe
+ * or expired. They are moved out of Supplier.waterTypes, so every
+ * waterTypes query skips them, and restored by the next safe report.
+ */
+export interface QualitySuspension {
+  waterTypes: WaterType[];
+  reason: 'unsafe' | 'expired';
+  since: Date;
+  reportId?: string;
+}
+
+export interface SupplierSpotCheck {
+  orderId: string;
+  tds?: number;
+  ph?: number;
+  at: Date;
+}
+
+export interface SupplierSpotChecks {
+  /** Newest last, capped at SPOT_CHECK_WINDOW readings. */
+  recent: SupplierSpotCheck[];
+  /** Set while customers' readings disagree with the lab report. */
+  mismatch?: SpotCheckMismatch;
+}
+
+/** Customers' median readings against the lab certificate they contradict. */
+export interface SpotCheckMismatch {
+  params: ('tds' | 'ph')[];
+  tdsMedian?: number;
+  phMedian?: number;
+  labTds: number;
+  labPh: number;
+  /** Readings taken since the lab test that the medians are based on. */
+  readings: number;
+  flaggedAt: Date;
 }
 
 export type SubscriptionFrequency = 'daily' | 'weekly' | 'biweekly' | 'monthly';
 
+/** Day of the week, 0 = Sunday (as Date#getDay). */
+export type Weekday = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+/** A delivery time window, as 'HH:MM' India time. */
+export interface DeliveryWindow {
+  start: string;
+  end: string;
+}
+
+/** A vacation hold: no deliveries from `from` to `until` (India dates, inclusive). */
+export interface SubscriptionHold {
+  from: string;
+  until: string;
+}
+
+/** A change to one delivery only. */
+export interface SubscriptionDeliveryOverride {
+  quantityLitres?: number;
+  deliveryLocation?: GeoLocation;
+}
+
+/** UPI AutoPay mandate state, as Razorpay reports the recurring token. */
+export type MandateStatus = 'pending' | 'active' | 'revoked';
+
+/** The customer's UPI AutoPay (e-mandate) that prepaid cycles are charged to. */
+export interface UpiMandate {
+  /** Razorpay token id. */
+  id: string;
+  vpa: string;
+  /** The most one charge may take, in rupees. */
+  maxAmount: number;
+  status: MandateStatus;
+  createdAt: Date;
+  authorizedAt?: Date;
+  revokedAt?: Date;
+}
+
+/**
+ * - active:    paid up
+ * - past_due:  the cycle's charge failed; retrying within the grace period
+ * - suspended: the grace period ran out unpaid; the plan is paused
+ */
+export type SubscriptionBillingStatus = 'active' | 'past_due' | 'suspended';
+
+/** Retry state while a cycle's charge is failing. */
+export interface SubscriptionDunning {
+  invoiceId: string;
+  failures: number;
+  /** When the first charge failed; retries and the grace period count from it. */
+  since: Date;
+  /** Absent while a retry is in flight and once retries are used up. */
+  nextRetryAt?: Date | null;
+  graceEndsAt: Date;
+}
+
+/** Prepaid monthly billing of a subscription (see '@/lib/subscription-billing'). */
+export interface SubscriptionBilling {
+  mandate: UpiMandate;
+  status: SubscriptionBillingStatus;
+  /** The month last invoiced, as 'YYYY-MM' (India). */
+  period?: string;
+  /** Deliveries paid for in `period` that have not been generated yet. */
+  prepaidDeliveries: number;
+  /** The charge that paid `period`; a cancelled prepaid order is refunded against it. */
+  paymentId?: string;
+  /** Rupees owed back for prepaid deliveries that were never made. */
+  credit: number;
+  dunning?: SubscriptionDunning | null;
+}
+
+export type SubscriptionInvoiceStatus = 'pending' | 'paid' | 'failed';
+
+export interface SubscriptionChargeAttempt {
+  at: Date;
+  success: boolean;
+  paymentId?: string;
+  error?: string;
+}
+
+/** A charge presented to the gateway whose outcome is not yet recorded. */
+export interface SubscriptionChargeClaim {
+  receipt: string;
+  at: Date;
+}
+
+/** One month of prepaid deliveries, charged through the UPI mandate. */
+export interface SubscriptionInvoice {
+  /** `${subscriptionId}_${period}`: one invoice per plan per month. */
+  id: string;
+  subscriptionId: string;
+  customerId: string;
+  /** 'YYYY-MM' (India). */
+  period: string;
+  /** First and last India dates billed; `from` is after the 1st when prorated. */
+  from: string;
+  until: string;
+  prorated: boolean;
+  deliveries: number;
+  pricePerDelivery: number;
+  subtotal: number;
+  /** Credit from earlier months taken off the subtotal. */
+  credit: number;
+  /** What is charged: subtotal less credit, in rupees. */
+  amount: number;
+  status: SubscriptionInvoiceStatus;
+  attempts: SubscriptionChargeAttempt[];
+  /** Set while a charge is under way, so only one is made at a time. */
+  charging?: SubscriptionChargeClaim | null;
+  paymentId?: string;
+  createdAt: Date;
+  paidAt?: Date;
+}
+
 export interface SubscriptionPlan {
   id: string;
   customerId: string;
@@ -101,12 +353,28 @@ export interface SubscriptionPlan {
   waterType: WaterType;
   quantityLitres: number;
   frequency: SubscriptionFrequency;
+  /** Weekly plans: deliver on these days each week instead of every 7 days. */
+  weekdays?: Weekday[];
+  deliveryWindow?: DeliveryWindow | null;
   deliveryLocation: GeoLocation;
   nextDeliveryDate: Date;
+  /** India dates (YYYY-MM-DD) of single deliveries the customer skipped. */
+  skippedDates?: string[];
+  hold?: SubscriptionHold | null;
+  /** One-off changes, keyed by the India date of the delivery they apply to. */
+  overrides?: Record<string, SubscriptionDeliveryOverride>;
   isActive: boolean;
   paymentMethod: PaymentMethod;
   pricePerDelivery: number;
+  /** The discounted price quoted at sign-up; each delivery is charged at it. */
+  price?: OrderPrice;
+  /** The order generated for the most recent delivery (see '@/lib/subscriptions'). */
+  lastOrderId?: string;
+  /** Prepaid monthly billing; without it each delivery is paid with `paymentMethod`. */
+  billing?: SubscriptionBilling | null;
   createdAt: Date;
+  updatedAt?: Date;
+  cancelledAt?: Date;
 }
 
 export interface Supplier {
@@ -123,18 +391,48 @@ export interface Supplier {
   bankDetails?: BankDetails;
   waterQualityReport?: WaterQualityReport;
   qualityScore?: number; // 0-100 composite quality score
+  qualitySuspension?: QualitySuspension;
+  /** Customers' recent spot-check readings of this supplier's water. */
+  spotChecks?: SupplierSpotChecks;
   supportsSubscription: boolean;
+  /** Set by an admin when unremitted cash is over the limit; no cash orders. */
+  cashBlocked?: boolean;
+  /** Registered suppliers issue tax invoices; others issue bills of supply. */
+  gstin?: string;
+  businessName?: string;
+  /** Supplier businesses running several vehicles, keyed by vehicle id. */
+  fleet?: Record<string, FleetVehicle>;
+  /** Drivers hired by the supplier, keyed by user id. */
+  drivers?: Record<string, FleetDriver>;
 }
 
 // --- Order Interfaces ---
 
+export interface PriceRuleLine {
+  rule: string; // stable rule identifier, e.g. 'base', 'distance', 'surge'
+  label: string;
+  amount: number; // rupees, negative for discounts
+  detail?: string;
+}
+
+export interface PriceTrace {
+  version: string;
+  zoneId: string;
+  demandLevel: DemandLevel;
+  surgeMultiplier: number;
+  commissionPercent: number;
+  lines: PriceRuleLine[];
+}
+
 export interface OrderPrice {
   base: number;
   distance: number;
   surge: number;
+  discount?: number;
   total: number;
   commission: number;
   supplierEarning: number;
+  trace?: PriceTrace;
 }
 
 export interface TrackingInfo {
@@ -151,10 +449,43 @@ export interface PaymentInfo {
   razorpayPaymentId?: string;
   transactionId?: string;
   amount: number;
+  paidAt?: Date;
+  /** Gateway error description of the last failed attempt. */
+  failureReason?: string;
+  /** Latest refund issued against this payment. */
+  refundId?: string;
+  /** Total refunded so far, in rupees. */
+  refundedAmount?: number;
+  /** Rupees held for refunds sent to the gateway and not yet recorded. */
+  refundPending?: number;
+  refunds?: RefundRecord[];
+  /** Cash handed to the supplier at the door (cash orders only). */
+  cashCollection?: CashCollection;
+}
+
+export interface CashCollection {
+  amount: number; // rupees
+  collectedAt: Date;
+  /** Supplier (or admin) who confirmed the collection. */
+  collectedBy: string;
+}
+
+export interface RefundRecord {
+  id: string;
+  amount: number; // rupees
+  status: RefundStatus;
+  reason: string;
+  note?: string;
+  /** Who asked for it (admin user id, or 'system' for cancellations). */
+  initiatedBy: string;
+  createdAt: Date;
+  processedAt?: Date;
 }
 
 export interface OrderRating {
   customerRating?: number;
+  /** The customer's optional 1-5 ratings of the delivery by dimension. */
+  customerDimensions?: Partial<Record<RatingDimension, number>>;
   supplierRating?: number;
   customerFeedback?: string;
   supplierFeedback?: string;
@@ -167,11 +498,132 @@ export interface BecknInfo {
   bppId?: string;
 }
 
+/**
+ * Proof of delivery on an order. The OTP itself is kept server-side in
+ * `deliveryOtps` so the supplier cannot read it off the order.
+ */
 export interface DeliveryVerification {
-  otp: string;
   otpVerifiedAt?: Date;
+  /** Set when an admin marked the order delivered without the OTP. */
+  otpOverride?: DeliveryOtpOverride;
+  /** Where the delivery photo is served from (access-checked API route). */
   photoProofUrl?: string;
+  photoProof?: DeliveryPhotoProof;
   volumeConfirmed?: number; // litres actually delivered
+  /** How volumeConfirmed was measured, and the customer's response to it. */
+  volume?: DeliveryVolume;
+  /** The customer's own TDS/pH meter reading of the water delivered. */
+  spotCheck?: SpotCheckReading;
+}
+
+/** A customer's TDS and/or pH reading at delivery; at least one is set. */
+export interface SpotCheckReading {
+  tds?: number; // ppm
+  ph?: number;
+  recordedBy: string;
+  recordedAt: Date;
+}
+
+export type VolumeSource = 'manual' | 'flow_meter';
+
+/** The supplier's reading of litres delivered. */
+export interface DeliveryVolume {
+  litres: number;
+  source: VolumeSource;
+  /** Flow-meter readings, when source is 'flow_meter'. */
+  meterStart?: number;
+  meterEnd?: number;
+  recordedBy: string;
+  recordedAt: Date;
+  /** Set when the shortfall was beyond tolerance and the price pro-rated. */
+  adjustment?: VolumeAdjustment;
+  customerResponse?: VolumeCustomerResponse;
+}
+
+/** Pro-rata price change for a short delivery. */
+export interface VolumeAdjustment {
+  shortLitres: number;
+  /** The order price before the adjustment, restored if the reading changes. */
+  originalPrice: Omit<OrderPrice, 'trace'>;
+  /** Rupees returned to a prepaid customer once the order is delivered. */
+  refundDue: number;
+  refundId?: string;
+}
+
+export interface VolumeCustomerResponse {
+  response: 'confirmed' | 'disputed';
+  /** Litres the customer says arrived, on a dispute. */
+  litres?: number;
+  note?: string;
+  at: Date;
+}
+
+/** How a delivery photo's EXIF data compares with the order. */
+export type PhotoCheckResult = 'ok' | 'missing' | 'mismatch';
+
+export type PhotoReviewStatus = 'auto_passed' | 'needs_review' | 'approved' | 'rejected';
+
+/** The supplier's delivery photo, its capture checks and admin review. */
+export interface DeliveryPhotoProof {
+  storagePath: string;
+  thumbnailPath?: string;
+  contentType: string;
+  sizeBytes: number;
+  uploadedBy: string;
+  uploadedAt: Date;
+  /** EXIF capture time, when the camera recorded one. */
+  takenAt?: Date;
+  /** EXIF GPS position, when the camera recorded one. */
+  takenLocation?: { lat: number; lng: number };
+  /** Distance from takenLocation to the delivery location. */
+  distanceMetres?: number;
+  timestampCheck: PhotoCheckResult;
+  locationCheck: PhotoCheckResult;
+  review: PhotoReviewStatus;
+  reviewedBy?: string;
+  reviewedAt?: Date;
+  reviewNote?: string;
+}
+
+export interface DeliveryOtpOverride {
+  by: string;
+  reason: string;
+  at: Date;
+}
+
+/** Server-only delivery OTP for an order, shown to the customer alone. */
+export interface DeliveryOtp {
+  orderId: string;
+  /** Set for one leg of a multi-trip order; each leg has its own code. */
+  legId?: string;
+  customerId: string;
+  code: string;
+  /** Wrong attempts since issue or the last lockout. */
+  attempts: number;
+  lockedUntil?: Date;
+  issuedAt: Date;
+  verifiedAt?: Date;
+}
+
+export type DeliveryLegStatus = 'pending' | 'en_route' | 'arriving' | 'delivered';
+
+/**
+ * One trip of an order larger than the delivering vehicle's capacity, with
+ * its own tracking, OTP and delivered volume. See '@/lib/delivery-legs'.
+ */
+export interface DeliveryLeg {
+  id: string;
+  /** Trip number, from 1. */
+  index: number;
+  litres: number;
+  status: DeliveryLegStatus;
+  tracking?: TrackingInfo;
+  otpVerifiedAt?: Date;
+  otpOverride?: DeliveryOtpOverride;
+  volume?: DeliveryVolume;
+  startedAt?: Date;
+  arrivingAt?: Date;
+  deliveredAt?: Date;
 }
 
 export interface Order {
@@ -190,15 +642,298 @@ export interface Order {
   beckn?: BecknInfo;
   deliveryVerification?: DeliveryVerification;
   subscriptionId?: string;
+  /** Subscription orders: the delivery slot the order was generated for. */
+  scheduledFor?: Date;
+  deliveryWindow?: DeliveryWindow;
+  /** Fleet suppliers: the vehicle delivering the order and its driver. */
+  vehicleId?: string;
+  driverId?: string;
+  /** Multi-trip orders: the delivery legs, keyed by leg id. */
+  legs?: Record<string, DeliveryLeg>;
+  dispatch?: DispatchInfo;
+  cancellation?: CancellationInfo;
+  cancellationReason?: string;
+  /** Issued when the order is delivered. */
+  invoice?: InvoiceRef;
   createdAt: Date;
+  updatedAt?: Date;
   acceptedAt?: Date;
   pickedAt?: Date;
+  arrivingAt?: Date;
   deliveredAt?: Date;
   cancelledAt?: Date;
 }
 
+export type DispatchStatus = 'offering' | 'matched' | 'no_supplier' | 'stopped';
+
+export interface DispatchOffer {
+  supplierId: string;
+  /** Fleet suppliers: the offer is for one vehicle and its driver. */
+  vehicleId?: string;
+  driverId?: string;
+  distanceKm: number;
+  offeredAt: Date;
+  expiresAt: Date;
+}
+
+/** Automatic supplier matching state, mirrored onto the order. */
+export interface DispatchInfo {
+  status: DispatchStatus;
+  radiusKm: number;
+  maxRadiusKm: number;
+  attempts: number;
+  /** Suppliers already offered the order; fleet vehicles as 'supplierId:vehicleId'. */
+  tried: string[];
+  offer?: DispatchOffer;
+}
+
+export type CancellationActor = 'customer' | 'supplier' | 'system';
+
+export interface CancellationFeeRule {
+  flat: number;
+  percent: number;
+}
+
+export interface CancellationPolicy {
+  /** Fee charged to the customer, keyed by order status at cancel time. */
+  customerFees: Partial<Record<OrderStatus, CancellationFeeRule>>;
+  /** Share of the fee passed to the supplier for a wasted trip (0-100). */
+  supplierCompensationPercent: number;
+}
+
+/** Settlement of a cancelled order under the cancellation policy. */
+export interface CancellationInfo {
+  by: CancellationActor;
+  reasonCode: string;
+  note?: string;
+  statusAtCancel: OrderStatus;
+  fee: number;
+  supplierCompensation: number;
+  refundAmount: number;
+  refundId?: string;
+}
+
+export type OrderActorRole = UserRole | 'system';
+
+export interface OrderActor {
+  id: string;
+  role: OrderActorRole;
+}
+
+/** One audited status transition in an order's orderEvents history. */
+export interface OrderEvent {
+  id: string;
+  orderId: string;
+  from: OrderStatus;
+  to: OrderStatus;
+  actor: OrderActor;
+  reason?: string;
+  at: Date;
+  metadata?: Record<string, unknown>;
+}
+
+// --- Invoice Interfaces ---
+
+export interface InvoiceRef {
+  id: string;
+  number: string;
+}
+
+/** A tax invoice charges GST; a bill of supply is for exempt or unregistered supplies. */
+export type InvoiceKind = 'tax_invoice' | 'bill_of_supply';
+export type GstSupplyType = 'intra_state' | 'inter_state';
+
+export interface InvoiceParty {
+  name: string;
+  gstin?: string;
+  address?: string;
+  /** Two-digit GST state code, e.g. '07' for Delhi. */
+  stateCode: string;
+  stateName: string;
+}
+
+export interface InvoiceLine {
+  description: string;
+  hsn: string;
+  quantity: number;
+  unit: string;
+  /** Value before GST, in rupees. */
+  taxableValue: number;
+  gstRate: number; // percent
+}
+
+export interface Invoice {
+  id: string; // document id, e.g. 'JS-2026-27-000042'
+  number: string; // printed number, e.g. 'JS/2026-27/000042'
+  financialYear: string; // '2026-27'
+  sequence: number;
+  kind: InvoiceKind;
+  orderId: string;
+  customerId: string;
+  supplierId: string;
+  seller: InvoiceParty;
+  buyer: InvoiceParty;
+  /** State code of the place of supply (the delivery state). */
+  placeOfSupply: string;
+  supplyType: GstSupplyType;
+  lines: InvoiceLine[];
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  total: number;
+  paymentMethod: PaymentMethod;
+  issuedAt: Date;
+}
+
+// --- Supplier Ledger & Payout Interfaces ---
+
+/**
+ * Accounts in the per-supplier double-entry ledger. Supplier accounts are
+ * what the platform owes the supplier (credit-normal); platform_clearing is
+ * money held by the platform (debit-normal); platform_commission is revenue.
+ * supplier_cash_due is commission on cash orders that the supplier still
+ * owes the platform (debit-normal).
+ */
+export type LedgerAccount =
+  | 'supplier_available'
+  | 'supplier_reserve'
+  | 'supplier_cash_due'
+  | 'platform_clearing'
+  | 'platform_commission';
+
+export type LedgerTransactionKind =
+  | 'delivery_earning'
+  | 'cash_commission'
+  | 'reserve_hold'
+  | 'reserve_release'
+  | 'cancellation_compensation'
+  | 'payout'
+  | 'payout_reversal'
+  | 'cash_remittance'
+  | 'cash_offset'
+  | 'refund_clawback';
+
+export interface LedgerEntry {
+  account: LedgerAccount;
+  debit: number;
+  credit: number;
+}
+
+/** A balanced set of ledger entries (total debits = total credits). */
+export interface LedgerTransaction {
+  id: string;
+  supplierId: string;
+  kind: LedgerTransactionKind;
+  entries: LedgerEntry[];
+  memo: string;
+  orderId?: string;
+  payoutId?: string;
+  /** For reserve holds: when the held amount becomes available. */
+  releaseAt?: Date;
+  createdAt: Date;
+}
+
+export interface SupplierBalance {
+  /** Payable now. */
+  available: number;
+  /** Held for disputes until each hold's releaseAt. */
+  reserve: number;
+  /** Commission on cash orders not yet remitted or netted off a payout. */
+  cashDue: number;
+  /** Prepaid earnings and compensation credited to the wallet. */
+  lifetimeEarnings: number;
+  totalPaidOut: number;
+}
+
+export type PayoutFrequency = 'daily' | 'weekly';
+export type PayoutStatus = 'processing' | 'completed' | 'failed';
+
+export interface PayoutPolicy {
+  frequency: PayoutFrequency;
+  /** Day of the week weekly payouts run (0 = Sunday). */
+  weekday: number;
+  /** Balances below this are carried over to the next payout. */
+  minimumAmount: number;
+  /** Share of each prepaid earning held back for disputes. */
+  reservePercent: number;
+  reserveDays: number;
+}
+
+export interface SupplierPayout {
+  id: string;
+  supplierId: string;
+  amount: number;
+  status: PayoutStatus;
+  /** Payout period key (YYYY-MM-DD of the day or week it settles). */
+  period: string;
+  accountLast4: string;
+  razorpayPayoutId?: string;
+  bankRef?: string;
+  failureReason?: string;
+  createdAt: Date;
+  completedAt?: Date;
+}
+
+// --- Complaint Interfaces ---
+
+export type ComplaintCategory =
+  | 'quality'
+  | 'short_volume'
+  | 'late'
+  | 'rude_behavior'
+  | 'overcharge';
+
+export type ComplaintStatus = 'open' | 'in_progress' | 'resolved';
+
+/** A private image attached to a complaint, served by the complaints API. */
+export interface ComplaintAttachment {
+  storagePath: string;
+  contentType: string;
+  sizeBytes: number;
+}
+
+export interface ComplaintReply {
+  id: string;
+  authorId: string;
+  authorRole: 'customer' | 'admin' | 'system';
+  text: string;
+  /** Admin notes and escalation entries; never shown to the customer. */
+  internal?: boolean;
+  at: Date;
+}
+
+export interface Complaint {
+  id: string;
+  orderId: string;
+  customerId: string;
+  customerName: string;
+  customerPhone: string;
+  supplierId?: string;
+  category: ComplaintCategory;
+  text: string;
+  status: ComplaintStatus;
+  attachments: ComplaintAttachment[];
+  replies: ComplaintReply[];
+  assignedTo?: string;
+  assignedAt?: Date;
+  /** SLA deadlines, fixed from the category when the complaint is filed. */
+  responseDueAt: Date;
+  resolutionDueAt: Date;
+  firstRespondedAt?: Date;
+  /** 0 = within SLA, 1 = response overdue, 2 = resolution overdue. */
+  escalationLevel: number;
+  escalatedAt?: Date;
+  createdAt: Date;
+  updatedAt?: Date;
+  resolvedAt?: Date;
+}
+
 // --- Pricing & Admin Interfaces ---
 
+/** A corner of a zone boundary. */
+export type ZoneVertex = Pick<GeoLocation, 'lat' | 'lng'>;
+
 export interface PricingZone {
   id: string;
   name: string;
@@ -206,16 +941,49 @@ export interface PricingZone {
   perKmRate: number;
   surgeMultiplier: number;
   demandLevel: DemandLevel;
+  /** Polygon the zone covers, closing back to the first vertex. */
+  boundary?: ZoneVertex[];
+  /** Where zones overlap, the highest priority wins (default 0). */
+  priority?: number;
+  /** Prices deliveries that fall inside no zone's boundary. */
+  isDefault?: boolean;
+}
+
+/** An automatic change of a zone's demand level, kept for audit. */
+export interface DemandChange {
+  id: string;
+  zoneId: string;
+  from: DemandLevel;
+  to: DemandLevel;
+  /** Searching orders per online supplier over the sliding window. */
+  ratio: number;
+  /** Counts from the sample that triggered the change. */
+  searchingOrders: number;
+  onlineSuppliers: number;
+  thresholds: DemandThresholds;
+  at: Date;
+}
+
+/**
+ * Searching orders per online supplier at which a zone's demand turns
+ * 'high' and 'surge' (see '@/lib/demand').
+ */
+export interface DemandThresholds {
+  high: number;
+  surge: number;
 }
 
 export interface AdminSettings {
   commissionPercent: number;
-  surgeThresholds: {
-    high: number;
-    surge: number;
-  };
+  demandThresholds?: DemandThresholds;
+  /** Highest surge multiplier any order is charged. */
+  maxSurgeMultiplier?: number;
   maxDeliveryRadius: number;
   defaultLanguage: string;
+  cancellationPolicy?: CancellationPolicy;
+  payoutPolicy?: Partial<PayoutPolicy>;
+  /** Unremitted cash commission above which a supplier can be blocked. */
+  cashLimit?: number;
 }
 
 // --- API / Request-Response Interfaces ---